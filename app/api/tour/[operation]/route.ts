@@ -0,0 +1,153 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { TourAPIError, TourAPIErrorType } from "@/lib/api/tour-api-error";
+import {
+  TOUR_API_ARGS_PARAM,
+  type TourAPIProxyErrorBody,
+} from "@/lib/api/tour-api-client";
+import {
+  TOUR_API_OPERATIONS,
+  isTourAPIOperation,
+  parseTourAPIOperationArgs,
+} from "@/lib/api/tour-api-operations";
+import { getRequestLocale } from "@/lib/i18n/server";
+import type { Locale } from "@/lib/i18n/locale";
+
+/**
+ * 한국관광공사 API 프록시
+ *
+ * 브라우저에서 API 키 없이 한국관광공사 API를 호출할 수 있도록
+ * 서버에서 TOUR_API_KEY로 tour-api.ts 함수를 대신 호출합니다.
+ *
+ * 요청 형식: GET /api/tour/{operation}?args=[...]
+ * - operation: tour-api.ts 함수 이름 (lib/api/tour-api-operations.ts에 등록된 것만 허용)
+ * - args: 함수 인자 배열 (JSON, 오퍼레이션별로 허용된 파라미터만 전달 가능)
+ */
+
+/**
+ * 에러 타입별 응답 상태 코드
+ */
+function getResponseStatus(error: TourAPIError): number {
+  switch (error.errorType) {
+    case TourAPIErrorType.VALIDATION_ERROR:
+    case TourAPIErrorType.INVALID_REQUEST:
+      return 400;
+    case TourAPIErrorType.NO_DATA:
+      return 404;
+    case TourAPIErrorType.TIMEOUT_ERROR:
+      return 504;
+    case TourAPIErrorType.SERVICE_UNAVAILABLE:
+      return 503;
+    case TourAPIErrorType.QUOTA_EXCEEDED:
+      return 429;
+    case TourAPIErrorType.HTTP_ERROR:
+      return error.statusCode === 404 || error.statusCode === 429
+        ? error.statusCode
+        : 502;
+    case TourAPIErrorType.API_KEY_MISSING:
+    case TourAPIErrorType.API_KEY_INVALID:
+    case TourAPIErrorType.API_KEY_EXPIRED:
+    case TourAPIErrorType.API_KEY_SUSPENDED:
+    case TourAPIErrorType.ACCESS_DENIED:
+      return 500;
+    default:
+      return 502;
+  }
+}
+
+/**
+ * 에러 응답 생성
+ * 서버 내부 정보가 노출되지 않도록 사용자 메시지만 전달합니다. (요청 로케일의 메시지)
+ */
+function errorResponse(
+  error: TourAPIError,
+  locale: Locale,
+  status = getResponseStatus(error)
+) {
+  const body: TourAPIProxyErrorBody = {
+    error: {
+      message: error.getUserMessage(locale),
+      errorType: error.errorType,
+      statusCode: error.statusCode,
+    },
+  };
+  return NextResponse.json(body, { status });
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ operation: string }> }
+) {
+  const { operation } = await params;
+  const locale = await getRequestLocale();
+
+  if (!isTourAPIOperation(operation)) {
+    return errorResponse(
+      new TourAPIError(
+        "지원하지 않는 요청입니다.",
+        404,
+        undefined,
+        TourAPIErrorType.VALIDATION_ERROR
+      ),
+      locale,
+      404
+    );
+  }
+
+  let args: unknown;
+  try {
+    args = JSON.parse(
+      request.nextUrl.searchParams.get(TOUR_API_ARGS_PARAM) || "[]"
+    );
+  } catch {
+    args = null;
+  }
+
+  if (!Array.isArray(args)) {
+    return errorResponse(
+      new TourAPIError(
+        "요청 파라미터 형식이 올바르지 않습니다.",
+        undefined,
+        undefined,
+        TourAPIErrorType.VALIDATION_ERROR
+      ),
+      locale
+    );
+  }
+
+  const parsedArgs = parseTourAPIOperationArgs(operation, args);
+  if (parsedArgs.success === false) {
+    return errorResponse(
+      new TourAPIError(
+        `요청 파라미터가 올바르지 않습니다. (${parsedArgs.message})`,
+        undefined,
+        undefined,
+        TourAPIErrorType.VALIDATION_ERROR
+      ),
+      locale
+    );
+  }
+
+  try {
+    const handler = TOUR_API_OPERATIONS[operation] as (
+      ...handlerArgs: unknown[]
+    ) => Promise<unknown>;
+    const data = await handler(...parsedArgs.data);
+
+    return NextResponse.json(data);
+  } catch (error) {
+    if (error instanceof TourAPIError) {
+      return errorResponse(error, locale);
+    }
+    console.error("Tour API proxy error:", error);
+    return errorResponse(
+      new TourAPIError(
+        "관광 정보 조회 중 에러가 발생했습니다.",
+        undefined,
+        error instanceof Error ? error : new Error(String(error))
+      ),
+      locale,
+      500
+    );
+  }
+}
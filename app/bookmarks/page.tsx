@@ -14,14 +14,16 @@
  * - Server Component로 구현하여 SEO 최적화
  * - Clerk 인증 확인 (인증되지 않은 사용자는 로그인 페이지로 리다이렉트)
  * - 북마크 목록 조회 (getUserBookmarks)
- * - 각 북마크의 content_id로 관광지 정보 조회 (getDetailCommon)
+ * - 각 북마크의 content_id로 관광지 정보 조회 (getDetailCommonMany, 동시 요청 수 제한)
+ * - 조회에 실패한 북마크는 목록에서 제외하고 개수를 안내
  * - TourItem 타입으로 변환하여 TourCard 컴포넌트에 전달
  *
  * @dependencies
  * - @clerk/nextjs/server: auth() 함수
  * - lib/supabase/server.ts: createClerkSupabaseClient 함수
  * - lib/api/supabase-api.ts: getUserBookmarks 함수
- * - lib/api/tour-api.ts: getDetailCommon 함수
+ * - lib/api/tour-api.ts: getDetailCommonMany 함수
+ * - lib/utils/region-code.ts: toAreaCode 함수 (법정동 코드만 있는 경우 지역코드 보완)
  * - components/bookmarks/bookmark-list.tsx: BookmarkList 컴포넌트
  *
  * @see {@link /docs/PRD.MD} - 북마크 목록 페이지 요구사항 참고
@@ -31,9 +33,11 @@ import { Suspense } from "react";
 import { redirect } from "next/navigation";
 import { auth } from "@clerk/nextjs/server";
 import { createClerkSupabaseClient } from "@/lib/supabase/server";
-import { getUserBookmarks } from "@/lib/api/supabase-api";
-import { getDetailCommon } from "@/lib/api/tour-api";
+import { BookmarkUserNotFoundError, getUserBookmarks } from "@/lib/api/supabase-api";
+import { getDetailCommonMany } from "@/lib/api/tour-api";
 import { TourAPIError } from "@/lib/api/tour-api";
+import { createTranslator } from "@/lib/i18n/messages";
+import { getRequestLocale } from "@/lib/i18n/server";
 import dynamic from "next/dynamic";
 import { BookmarkListError } from "@/components/bookmarks/bookmark-list-error";
 import { CardSkeleton } from "@/components/ui/skeleton";
@@ -49,6 +53,7 @@ const BookmarkList = dynamic(() => import("@/components/bookmarks/bookmark-list"
   ),
 });
 import type { TourItem } from "@/lib/types/tour";
+import { toAreaCode } from "@/lib/utils/region-code";
 
 /**
  * 북마크와 관광지 정보를 결합한 타입
@@ -60,50 +65,13 @@ interface BookmarkWithTour {
   tour: TourItem;
 }
 
-/**
- * 주소에서 지역 코드 추출
- * 한국관광공사 지역 코드 매핑:
- * 1: 서울, 2: 인천, 3: 대전, 4: 대구, 5: 광주, 6: 부산, 7: 울산, 8: 세종
- * 31: 경기, 32: 강원, 33: 충북, 34: 충남, 35: 경북, 36: 경남, 37: 전북, 38: 전남, 39: 제주
- */
-function extractAreaCodeFromAddress(address: string): string {
-  if (!address) return "";
-
-  // 시/도 단위 지역명 매핑
-  const areaMap: Record<string, string> = {
-    서울: "1",
-    인천: "2",
-    대전: "3",
-    대구: "4",
-    광주: "5",
-    부산: "6",
-    울산: "7",
-    세종: "8",
-    경기: "31",
-    강원: "32",
-    충북: "33",
-    충남: "34",
-    경북: "35",
-    경남: "36",
-    전북: "37",
-    전남: "38",
-    제주: "39",
-  };
-
-  // 주소에서 지역명 찾기
-  for (const [region, code] of Object.entries(areaMap)) {
-    if (address.includes(region)) {
-      return code;
-    }
-  }
-
-  return "";
-}
-
 /**
  * 북마크 목록 데이터 로딩 (Server Component)
  */
 async function BookmarksContent() {
+  const locale = await getRequestLocale();
+  const t = createTranslator(locale);
+
   try {
     // 1. Clerk 인증 확인
     const { userId } = await auth();
@@ -122,89 +90,97 @@ async function BookmarksContent() {
     } catch (error) {
       // 사용자 동기화 문제일 수 있음
       console.error("북마크 목록 조회 실패:", error);
-      const errorMessage =
-        error instanceof Error
-          ? error.message
-          : "북마크 목록을 불러올 수 없습니다.";
-      
+
       // 사용자를 찾을 수 없는 경우 명확한 메시지 표시
-      if (errorMessage.includes("사용자를 찾을 수 없습니다")) {
-        return (
-          <BookmarkListError message="사용자 정보가 동기화되지 않았습니다. 잠시 후 다시 시도해주세요." />
-        );
+      if (error instanceof BookmarkUserNotFoundError) {
+        return <BookmarkListError message={t("bookmarksPage.userNotSynced")} />;
       }
-      
-      return <BookmarkListError message={errorMessage} />;
+
+      return <BookmarkListError message={t("bookmarksPage.loadFailed")} />;
     }
 
     if (bookmarks.length === 0) {
       return <BookmarkList tours={[]} />;
     }
 
-    // 4. 각 북마크의 content_id로 관광지 정보 조회 (병렬 처리)
-    const tourPromises = bookmarks.map(async (bookmark) => {
-      try {
-        const detailResponse = await getDetailCommon({ contentId: bookmark.content_id });
-        const tourDetail = detailResponse.item; // getDetailCommon은 { item: TourDetail } 형태로 반환
-        
-        // 주소에서 지역 코드 추출 (시/도 단위)
-        // 예: "서울특별시 강남구..." -> "1" (서울)
-        // 예: "부산광역시 해운대구..." -> "6" (부산)
-        const areacode = extractAreaCodeFromAddress(tourDetail.addr1 || "");
-        
-        // TourDetail을 TourItem으로 변환
-        // 주의: TourDetail에는 cat1, cat2, cat3 필드가 없으므로 빈 값으로 설정
-        const tourItem: TourItem = {
-          addr1: tourDetail.addr1 || "",
-          addr2: tourDetail.addr2,
-          areacode: areacode, // 주소에서 추출한 지역 코드
-          contentid: tourDetail.contentid,
-          contenttypeid: tourDetail.contenttypeid,
-          title: tourDetail.title || "",
-          mapx: tourDetail.mapx || "0",
-          mapy: tourDetail.mapy || "0",
-          firstimage: tourDetail.firstimage,
-          firstimage2: tourDetail.firstimage2,
-          tel: tourDetail.tel,
-          cat1: undefined, // TourDetail에는 cat1이 없음
-          cat2: undefined, // TourDetail에는 cat2가 없음
-          cat3: undefined, // TourDetail에는 cat3가 없음
-          modifiedtime: new Date().toISOString(), // detailCommon에는 modifiedtime이 없으므로 현재 시간 사용
-        };
-
-        return {
-          bookmarkId: bookmark.id,
-          contentId: bookmark.content_id,
-          createdAt: bookmark.created_at,
-          tour: tourItem,
-        } as BookmarkWithTour;
-      } catch (error) {
-        // 일부 관광지 정보 조회 실패 시 해당 항목 제외
-        console.error(
-          `관광지 정보 조회 실패 (contentId: ${bookmark.content_id}):`,
-          error
-        );
-        return null;
-      }
+    // 4. 각 북마크의 content_id로 관광지 정보 조회 (동시 요청 수 제한, 일부 실패 허용)
+    const { items: details, failures } = await getDetailCommonMany(
+      bookmarks.map((bookmark) => bookmark.content_id),
+      locale
+    );
+
+    failures.forEach(({ contentId, error }) => {
+      console.error(`관광지 정보 조회 실패 (contentId: ${contentId}):`, error);
     });
 
-    const results = await Promise.all(tourPromises);
-    const bookmarkWithTours = results.filter(
-      (item): item is BookmarkWithTour => item !== null
-    );
+    const detailMap = new Map(details.map((detail) => [detail.contentid, detail]));
+
+    const bookmarkWithTours: BookmarkWithTour[] = [];
+    bookmarks.forEach((bookmark) => {
+      const tourDetail = detailMap.get(bookmark.content_id);
+      if (!tourDetail) {
+        // 관광지 정보 조회에 실패한 항목은 제외
+        return;
+      }
+
+      // 공통 정보의 지역코드 사용 (법정동 코드만 있는 경우 지역코드로 변환)
+      const areacode =
+        tourDetail.areacode || toAreaCode(tourDetail.lDongRegnCd) || "";
+      
+      // TourDetail을 TourItem으로 변환
+      const tourItem: TourItem = {
+        addr1: tourDetail.addr1 || "",
+        addr2: tourDetail.addr2,
+        areacode: areacode,
+        sigungucode: tourDetail.sigungucode,
+        lDongRegnCd: tourDetail.lDongRegnCd,
+        lDongSignguCd: tourDetail.lDongSignguCd,
+        contentid: tourDetail.contentid,
+        contenttypeid: tourDetail.contenttypeid,
+        title: tourDetail.title || "",
+        mapx: tourDetail.mapx || "0",
+        mapy: tourDetail.mapy || "0",
+        firstimage: tourDetail.firstimage,
+        firstimage2: tourDetail.firstimage2,
+        tel: tourDetail.tel,
+        cat1: tourDetail.cat1,
+        cat2: tourDetail.cat2,
+        cat3: tourDetail.cat3,
+        lclsSystm1: tourDetail.lclsSystm1,
+        lclsSystm2: tourDetail.lclsSystm2,
+        lclsSystm3: tourDetail.lclsSystm3,
+        modifiedtime: new Date().toISOString(), // detailCommon에는 modifiedtime이 없으므로 현재 시간 사용
+      };
+
+      bookmarkWithTours.push({
+        bookmarkId: bookmark.id,
+        contentId: bookmark.content_id,
+        createdAt: bookmark.created_at,
+        tour: tourItem,
+      });
+    });
 
     // 5. TourItem 배열로 변환
     const tours = bookmarkWithTours.map((item) => item.tour);
 
-    return <BookmarkList tours={tours} bookmarks={bookmarkWithTours} />;
+    return (
+      <>
+        {failures.length > 0 && (
+          <p role="status" className="mb-4 text-sm text-muted-foreground">
+            {t("bookmarksPage.failedExcluded", { count: failures.length })}
+          </p>
+        )}
+        <BookmarkList tours={tours} bookmarks={bookmarkWithTours} />
+      </>
+    );
   } catch (error) {
     console.error("북마크 목록 로딩 실패:", error);
 
     if (error instanceof TourAPIError) {
-      return <BookmarkListError message={error.getUserMessage()} />;
+      return <BookmarkListError message={error.getUserMessage(locale)} />;
     }
 
-    return <BookmarkListError message="북마크 목록을 불러올 수 없습니다." />;
+    return <BookmarkListError message={t("bookmarksPage.loadFailed")} />;
   }
 }
 
@@ -219,20 +195,22 @@ export default async function BookmarksPage() {
     redirect("/sign-in");
   }
 
+  const t = createTranslator(await getRequestLocale());
+
   return (
     <main
       role="main"
-      aria-label="북마크 목록 페이지"
+      aria-label={t("bookmarksPage.label")}
       className="min-h-[calc(100vh-4rem)]"
     >
       <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8 sm:py-12">
         {/* 페이지 제목 */}
         <section className="mb-8 sm:mb-12">
           <h1 className="text-3xl sm:text-4xl font-bold mb-2">
-            내 북마크
+            {t("bookmarksPage.title")}
           </h1>
           <p className="text-muted-foreground">
-            저장한 관광지를 확인하고 관리할 수 있습니다.
+            {t("bookmarksPage.description")}
           </p>
         </section>
 
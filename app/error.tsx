@@ -21,7 +21,8 @@
  * - next/link: Link 컴포넌트
  * - components/ui/error: Error 컴포넌트
  * - components/ui/button: Button 컴포넌트
- * - lib/api/tour-api: TourAPIError 클래스
+ * - lib/api/tour-api-error: TourAPIError 클래스
+ * - components/providers/locale-provider: useLocale, useTranslations (화면 문구)
  *
  * @see {@link https://nextjs.org/docs/app/api-reference/file-conventions/error} - Next.js Error Handling
  */
@@ -33,7 +34,10 @@ import Link from 'next/link';
 import { Home, RefreshCw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Error as ErrorComponent } from '@/components/ui/error';
-import { TourAPIError, TourAPIErrorType } from '@/lib/api/tour-api';
+import { useLocale, useLocalizePath, useTranslations } from '@/components/providers/locale-provider';
+import { TourAPIError, TourAPIErrorType } from '@/lib/api/tour-api-error';
+import type { Locale } from '@/lib/i18n/locale';
+import type { MessageKey, Translator } from '@/lib/i18n/messages';
 
 interface ErrorProps {
   error: Error & { digest?: string };
@@ -43,51 +47,68 @@ interface ErrorProps {
 /**
  * 에러 메시지를 사용자 친화적으로 변환
  */
-function getErrorMessage(error: Error): { title?: string; message: string } {
+function getErrorMessage(
+  error: Error,
+  locale: Locale,
+  t: Translator,
+): { title?: string; message: string } {
   // TourAPIError인 경우
   if (error instanceof TourAPIError) {
     // TourAPIError의 getUserMessage() 메서드 사용
-    const userMessage = error.getUserMessage();
+    const userMessage = error.getUserMessage(locale);
 
     // 에러 타입에 따른 제목 설정
-    let title: string | undefined;
+    let title: MessageKey;
     switch (error.errorType) {
       case TourAPIErrorType.API_KEY_MISSING:
       case TourAPIErrorType.API_KEY_INVALID:
-        title = 'API 설정 오류';
+      case TourAPIErrorType.API_KEY_EXPIRED:
+      case TourAPIErrorType.API_KEY_SUSPENDED:
+      case TourAPIErrorType.ACCESS_DENIED:
+        title = 'errorPage.titleConfig';
         break;
       case TourAPIErrorType.NETWORK_ERROR:
-        title = '네트워크 오류';
+        title = 'errorPage.titleNetwork';
         break;
       case TourAPIErrorType.TIMEOUT_ERROR:
-        title = '요청 시간 초과';
+        title = 'errorPage.titleTimeout';
         break;
       case TourAPIErrorType.HTTP_ERROR:
-        title = '서버 오류';
+      case TourAPIErrorType.SERVICE_UNAVAILABLE:
+        title = 'errorPage.titleServer';
         break;
       case TourAPIErrorType.API_ERROR:
-        title = '데이터 조회 오류';
+      case TourAPIErrorType.NO_DATA:
+        title = 'errorPage.titleData';
         break;
       case TourAPIErrorType.VALIDATION_ERROR:
-        title = '입력 오류';
+      case TourAPIErrorType.INVALID_REQUEST:
+        title = 'errorPage.titleInput';
+        break;
+      case TourAPIErrorType.QUOTA_EXCEEDED:
+        title = 'errorPage.titleQuota';
         break;
       default:
-        title = '오류 발생';
+        title = 'errorPage.titleUnknown';
     }
 
     return {
-      title,
+      title: t(title),
       message: userMessage,
     };
   }
 
   // 일반 에러
   return {
-    message: error.message || '오류가 발생했습니다. 잠시 후 다시 시도해주세요.',
+    message: error.message || t('tourApiError.unknown'),
   };
 }
 
 export default function Error({ error, reset }: ErrorProps) {
+  const locale = useLocale();
+  const localize = useLocalizePath();
+  const t = useTranslations();
+
   // 개발 환경에서만 콘솔에 에러 로그 출력
   useEffect(() => {
     if (process.env.NODE_ENV === 'development') {
@@ -98,20 +119,20 @@ export default function Error({ error, reset }: ErrorProps) {
     }
   }, [error]);
 
-  const { title, message } = getErrorMessage(error);
+  const { title, message } = getErrorMessage(error, locale, t);
 
   return (
     <main
       className="flex min-h-[calc(100vh-4rem)] flex-col items-center justify-center px-4 py-12"
       role="main"
-      aria-label="에러 페이지"
+      aria-label={t('errorPage.label')}
     >
       <div className="container mx-auto max-w-2xl text-center">
         <ErrorComponent
           title={title}
           message={message}
           onRetry={reset}
-          retryText="다시 시도"
+          retryText={t('errorPage.retry')}
           size="lg"
           className="mb-8"
         />
@@ -122,10 +143,10 @@ export default function Error({ error, reset }: ErrorProps) {
             variant="default"
             size="lg"
             className="min-h-[44px] min-w-[120px]"
-            aria-label="다시 시도"
+            aria-label={t('errorPage.retry')}
           >
             <RefreshCw className="mr-2 h-4 w-4" />
-            다시 시도
+            {t('errorPage.retry')}
           </Button>
 
           <Button
@@ -133,11 +154,11 @@ export default function Error({ error, reset }: ErrorProps) {
             variant="outline"
             size="lg"
             className="min-h-[44px] min-w-[120px]"
-            aria-label="홈으로 돌아가기"
+            aria-label={t('errorPage.goHome')}
           >
-            <Link href="/">
+            <Link href={localize('/')}>
               <Home className="mr-2 h-4 w-4" />
-              홈으로 돌아가기
+              {t('errorPage.goHome')}
             </Link>
           </Button>
         </div>
@@ -146,11 +167,11 @@ export default function Error({ error, reset }: ErrorProps) {
         {process.env.NODE_ENV === 'development' && (
           <details className="mt-8 rounded-lg border border-destructive/20 bg-destructive/5 p-4 text-left">
             <summary className="cursor-pointer text-sm font-semibold text-destructive">
-              개발자 정보 (개발 환경에서만 표시)
+              {t('errorPage.devInfo')}
             </summary>
             <div className="mt-4 space-y-2 text-xs">
               <div>
-                <strong>에러 메시지:</strong>
+                <strong>{t('errorPage.devMessage')}</strong>
                 <pre className="mt-1 overflow-auto rounded bg-background p-2">
                   {error.message}
                 </pre>
@@ -165,7 +186,7 @@ export default function Error({ error, reset }: ErrorProps) {
               )}
               {error.stack && (
                 <div>
-                  <strong>스택 트레이스:</strong>
+                  <strong>{t('errorPage.devStack')}</strong>
                   <pre className="mt-1 max-h-48 overflow-auto rounded bg-background p-2 text-xs">
                     {error.stack}
                   </pre>
@@ -0,0 +1,258 @@
+/**
+ * @file page.tsx
+ * @description 축제 캘린더 페이지
+ *
+ * 이 페이지는 전국 축제/행사를 월간 또는 주간 캘린더로 표시합니다.
+ *
+ * 주요 기능:
+ * 1. 월간/주간 캘린더 보기
+ * 2. 진행 상태 필터 (진행중 / 예정 / 종료)
+ * 3. 지역 필터
+ * 4. 행사 클릭 시 상세페이지(/places/[contentId]) 이동
+ * 5. 로케일 접두사 경로(/en/festivals 등): 해당 언어 서비스에서 조회
+ *
+ * 핵심 구현 로직:
+ * - Server Component로 구현하여 SEO 최적화
+ * - searchParams를 통한 상태 관리 (view, date, areaCode, status)
+ * - searchFestival API로 조회 기간과 겹치는 행사 조회
+ * - Suspense를 사용한 로딩 상태 처리
+ *
+ * @dependencies
+ * - lib/api/tour-api.ts: searchFestival 함수
+ * - lib/utils/festival.ts: 캘린더 계산 및 행사 상태 함수
+ * - lib/i18n/server.ts, lib/i18n/messages.ts: 로케일 및 로케일별 화면 문구
+ * - components/festivals/*: 캘린더, 목록, 필터 컴포넌트
+ * - components/ui/error.tsx: Error 컴포넌트
+ */
+
+import { Suspense } from "react";
+import type { Metadata } from "next";
+import { searchFestival, TourAPIError } from "@/lib/api/tour-api";
+import type { FestivalItem, TourLanguage } from "@/lib/types/tour";
+import { Error } from "@/components/ui/error";
+import { FestivalFilters } from "@/components/festivals/festival-filters";
+import {
+  FestivalCalendar,
+  FestivalCalendarSkeleton,
+} from "@/components/festivals/festival-calendar";
+import { FestivalList } from "@/components/festivals/festival-list";
+import {
+  CALENDAR_VIEW,
+  getCalendarRange,
+  getFestivalStatus,
+  getTodayKey,
+  isFestivalInRange,
+  isFestivalStatus,
+  parseDateKey,
+  toDateKey,
+} from "@/lib/utils/festival";
+import type { CalendarView, FestivalStatus } from "@/lib/utils/festival";
+import { createTranslator, translate } from "@/lib/i18n/messages";
+import { getRequestLocale } from "@/lib/i18n/server";
+
+export async function generateMetadata(): Promise<Metadata> {
+  const locale = await getRequestLocale();
+
+  return {
+    title: `${translate(locale, "festivals.title")} | My Trip`,
+    description: translate(locale, "festivals.description"),
+  };
+}
+
+/**
+ * 한 번에 조회할 행사 수
+ */
+const FESTIVAL_PAGE_SIZE = 100;
+
+/**
+ * 최대 조회 페이지 수 (API 호출 수 제한)
+ */
+const MAX_FESTIVAL_PAGES = 5;
+
+interface FestivalsPageProps {
+  searchParams: Promise<{
+    view?: string;
+    date?: string;
+    areaCode?: string;
+    status?: string;
+  }>;
+}
+
+/**
+ * 조회 기간과 겹치는 행사 전체 조회
+ * 한 달 기준 전국 행사는 수백 건이므로 여러 페이지를 병렬로 조회합니다.
+ */
+async function fetchFestivals(
+  startKey: string,
+  endKey: string,
+  areaCode?: string,
+  language?: TourLanguage,
+): Promise<FestivalItem[]> {
+  const firstPage = await searchFestival({
+    eventStartDate: startKey,
+    eventEndDate: endKey,
+    areaCode,
+    numOfRows: FESTIVAL_PAGE_SIZE,
+    pageNo: 1,
+    language,
+  });
+
+  const totalPages = Math.min(
+    Math.ceil(firstPage.totalCount / FESTIVAL_PAGE_SIZE),
+    MAX_FESTIVAL_PAGES,
+  );
+
+  const restPages = await Promise.all(
+    Array.from({ length: Math.max(0, totalPages - 1) }, (_, index) =>
+      searchFestival({
+        eventStartDate: startKey,
+        eventEndDate: endKey,
+        areaCode,
+        numOfRows: FESTIVAL_PAGE_SIZE,
+        pageNo: index + 2,
+        language,
+      }),
+    ),
+  );
+
+  // 페이지 경계에서 중복된 항목 제거
+  const festivalMap = new Map<string, FestivalItem>();
+  [firstPage, ...restPages].forEach((page) => {
+    page.items.forEach((item) => festivalMap.set(item.contentid, item));
+  });
+
+  return Array.from(festivalMap.values())
+    .filter((festival) => isFestivalInRange(festival, startKey, endKey))
+    .sort(
+      (a, b) =>
+        a.eventstartdate.localeCompare(b.eventstartdate) ||
+        a.title.localeCompare(b.title, "ko"),
+    );
+}
+
+/**
+ * 축제 캘린더 데이터 로딩 컴포넌트
+ */
+async function FestivalCalendarContent({
+  view,
+  dateKey,
+  todayKey,
+  areaCode,
+  status,
+  language,
+}: {
+  view: CalendarView;
+  dateKey: string;
+  todayKey: string;
+  areaCode?: string;
+  status?: FestivalStatus;
+  language: TourLanguage;
+}) {
+  const { start, end } = getCalendarRange(view, parseDateKey(dateKey)!);
+  const t = createTranslator(language);
+
+  try {
+    const festivals = await fetchFestivals(
+      toDateKey(start),
+      toDateKey(end),
+      areaCode,
+      language,
+    );
+    const filteredFestivals = status
+      ? festivals.filter(
+          (festival) => getFestivalStatus(festival, todayKey) === status,
+        )
+      : festivals;
+
+    return (
+      <div className="space-y-6">
+        <FestivalCalendar
+          festivals={filteredFestivals}
+          view={view}
+          dateKey={dateKey}
+          todayKey={todayKey}
+          locale={language}
+        />
+        <section aria-label={t("festivals.periodListLabel")}>
+          <h2 className="text-lg font-semibold mb-3">
+            {t("festivals.listHeading", { count: filteredFestivals.length })}
+          </h2>
+          <FestivalList festivals={filteredFestivals} todayKey={todayKey} locale={language} />
+        </section>
+      </div>
+    );
+  } catch (error) {
+    if (error instanceof TourAPIError) {
+      return (
+        <Error
+          title={t("festivals.errorTitle")}
+          message={error.getUserMessage(language)}
+        />
+      );
+    }
+    return (
+      <Error
+        title={t("errorPage.title")}
+        message={t("festivals.errorMessage")}
+      />
+    );
+  }
+}
+
+export default async function FestivalsPage({ searchParams }: FestivalsPageProps) {
+  // Next.js 15에서는 searchParams가 Promise이므로 await 필요
+  const params = await searchParams;
+  const locale = await getRequestLocale();
+  const t = createTranslator(locale);
+
+  const todayKey = getTodayKey();
+  const view: CalendarView =
+    params.view === CALENDAR_VIEW.WEEK ? CALENDAR_VIEW.WEEK : CALENDAR_VIEW.MONTH;
+  // 날짜가 없거나 형식이 올바르지 않으면 오늘 기준
+  const dateKey = parseDateKey(params.date) ? params.date! : todayKey;
+  const status = isFestivalStatus(params.status) ? params.status : undefined;
+
+  return (
+    <main
+      className="min-h-[calc(100vh-4rem)] container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8"
+      role="main"
+      aria-label={t("festivals.title")}
+    >
+      {/* 페이지 제목 섹션 */}
+      <section
+        className="mb-6 sm:mb-8"
+        aria-label={t("common.pageTitle")}
+      >
+        <h1 className="text-2xl sm:text-3xl font-bold mb-2">
+          {t("festivals.title")}
+        </h1>
+        <p className="text-sm sm:text-base text-muted-foreground">
+          {t("festivals.description")}
+        </p>
+      </section>
+
+      {/* 필터 영역 */}
+      <section
+        className="mb-6 sm:mb-8"
+        aria-label={t("common.filters")}
+      >
+        <FestivalFilters view={view} dateKey={dateKey} todayKey={todayKey} />
+      </section>
+
+      {/* 캘린더 영역 */}
+      <Suspense
+        key={`${locale}-${view}-${dateKey}-${params.areaCode || ""}-${status || ""}`}
+        fallback={<FestivalCalendarSkeleton />}
+      >
+        <FestivalCalendarContent
+          view={view}
+          dateKey={dateKey}
+          todayKey={todayKey}
+          areaCode={params.areaCode}
+          status={status}
+          language={locale}
+        />
+      </Suspense>
+    </main>
+  );
+}
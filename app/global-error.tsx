@@ -16,16 +16,27 @@
  * - Client Component로 구현
  * - html과 body 태그를 포함하여 완전한 HTML 문서 구조 제공
  * - 글로벌 CSS 로드 실패 시에도 동작하도록 인라인 스타일 사용
+ * - LocaleProvider 밖이므로 로케일은 브라우저에서 직접 감지 (URL 접두사, 쿠키, 브라우저 언어)
  *
  * @dependencies
  * - next/link: Link 컴포넌트 (선택 사항)
+ * - lib/i18n/locale.ts: detectBrowserLocale
+ * - lib/i18n/messages.ts: createTranslator
  *
  * @see {@link https://nextjs.org/docs/app/api-reference/file-conventions/global-error} - Next.js Global Error Handling
  */
 
 'use client';
 
-import { useEffect } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import {
+  DEFAULT_LOCALE,
+  LOCALE_INFO,
+  detectBrowserLocale,
+  localizePath,
+  type Locale,
+} from '@/lib/i18n/locale';
+import { createTranslator, type Translator } from '@/lib/i18n/messages';
 
 interface GlobalErrorProps {
   error: Error & { digest?: string };
@@ -35,24 +46,32 @@ interface GlobalErrorProps {
 /**
  * 에러 메시지를 사용자 친화적으로 변환
  */
-function getErrorMessage(error: Error): string {
+function getErrorMessage(error: Error, t: Translator): string {
   // 루트 레이아웃 에러는 주로 설정 오류
   if (error.message.includes('Clerk') || error.message.includes('clerk')) {
-    return '인증 서비스 설정에 문제가 있습니다.';
+    return t('errorPage.authConfig');
   }
 
   if (error.message.includes('Toast') || error.message.includes('toast')) {
-    return '알림 서비스 설정에 문제가 있습니다.';
+    return t('errorPage.toastConfig');
   }
 
   if (error.message.includes('Supabase') || error.message.includes('supabase')) {
-    return '데이터베이스 연결에 문제가 있습니다.';
+    return t('errorPage.database');
   }
 
-  return error.message || '애플리케이션 초기화 중 오류가 발생했습니다.';
+  return error.message || t('errorPage.initFailed');
 }
 
 export default function GlobalError({ error, reset }: GlobalErrorProps) {
+  // 서버 렌더링 결과와 맞추기 위해 한국어로 렌더링한 뒤 브라우저에서 로케일 감지
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE);
+  const t = useMemo(() => createTranslator(locale), [locale]);
+
+  useEffect(() => {
+    setLocale(detectBrowserLocale());
+  }, []);
+
   // 개발 환경에서만 콘솔에 에러 로그 출력
   useEffect(() => {
     if (process.env.NODE_ENV === 'development') {
@@ -63,10 +82,10 @@ export default function GlobalError({ error, reset }: GlobalErrorProps) {
     }
   }, [error]);
 
-  const errorMessage = getErrorMessage(error);
+  const errorMessage = getErrorMessage(error, t);
 
   return (
-    <html lang="ko">
+    <html lang={LOCALE_INFO[locale].htmlLang}>
       <body
         style={{
           margin: 0,
@@ -101,7 +120,7 @@ export default function GlobalError({ error, reset }: GlobalErrorProps) {
                 color: '#dc2626',
               }}
             >
-              오류가 발생했습니다
+              {t('errorPage.title')}
             </h1>
             <p
               style={{
@@ -143,13 +162,13 @@ export default function GlobalError({ error, reset }: GlobalErrorProps) {
               onMouseOut={(e) => {
                 e.currentTarget.style.backgroundColor = '#2563eb';
               }}
-              aria-label="새로고침"
+              aria-label={t('errorPage.reload')}
             >
-              새로고침
+              {t('errorPage.reload')}
             </button>
 
             <a
-              href="/"
+              href={localizePath('/', locale)}
               style={{
                 padding: '0.75rem 1.5rem',
                 fontSize: '1rem',
@@ -170,9 +189,9 @@ export default function GlobalError({ error, reset }: GlobalErrorProps) {
               onMouseOut={(e) => {
                 e.currentTarget.style.backgroundColor = 'transparent';
               }}
-              aria-label="홈으로 돌아가기"
+              aria-label={t('errorPage.goHome')}
             >
-              홈으로 돌아가기
+              {t('errorPage.goHome')}
             </a>
           </div>
 
@@ -196,7 +215,7 @@ export default function GlobalError({ error, reset }: GlobalErrorProps) {
                   marginBottom: '1rem',
                 }}
               >
-                개발자 정보 (개발 환경에서만 표시)
+                {t('errorPage.devInfo')}
               </summary>
               <div
                 style={{
@@ -205,7 +224,7 @@ export default function GlobalError({ error, reset }: GlobalErrorProps) {
                 }}
               >
                 <div style={{ marginBottom: '1rem' }}>
-                  <strong>에러 메시지:</strong>
+                  <strong>{t('errorPage.devMessage')}</strong>
                   <pre
                     style={{
                       marginTop: '0.5rem',
@@ -237,7 +256,7 @@ export default function GlobalError({ error, reset }: GlobalErrorProps) {
                 )}
                 {error.stack && (
                   <div>
-                    <strong>스택 트레이스:</strong>
+                    <strong>{t('errorPage.devStack')}</strong>
                     <pre
                       style={{
                         marginTop: '0.5rem',
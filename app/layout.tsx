@@ -3,10 +3,14 @@ import { ClerkProvider } from "@clerk/nextjs";
 import { Geist, Geist_Mono } from "next/font/google";
 
 import Navbar from "@/components/Navbar";
+import { LocaleProvider } from "@/components/providers/locale-provider";
 import { SyncUserProvider } from "@/components/providers/sync-user-provider";
 import { ToastProvider } from "@/components/providers/toast-provider";
 import { WebVitals } from "@/components/web-vitals";
-import { koreanLocalization } from "@/lib/clerk/localization";
+import { getClerkLocalization } from "@/lib/clerk/localization";
+import { LOCALE_INFO } from "@/lib/i18n/locale";
+import { translate } from "@/lib/i18n/messages";
+import { getRequestLocale } from "@/lib/i18n/server";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -23,47 +27,60 @@ const geistMono = Geist_Mono({
   preload: false, // 모노 폰트는 선택적이므로 preload 비활성화
 });
 
-export const metadata: Metadata = {
-  title: "My Trip - 한국 관광지 정보 서비스",
-  description: "전국 관광지 정보를 검색하고 지도에서 확인하며 상세 정보를 조회할 수 있는 웹 서비스",
-  keywords: ["관광지", "여행", "한국", "관광정보", "지도"],
-  openGraph: {
-    title: "My Trip - 한국 관광지 정보 서비스",
-    description: "전국 관광지 정보를 검색하고 지도에서 확인하며 상세 정보를 조회할 수 있는 웹 서비스",
-    type: "website",
-    locale: "ko_KR",
-  },
-  twitter: {
-    card: "summary_large_image",
-    title: "My Trip - 한국 관광지 정보 서비스",
-    description: "전국 관광지 정보를 검색하고 지도에서 확인하며 상세 정보를 조회할 수 있는 웹 서비스",
-  },
-};
+/**
+ * 로케일별 메타데이터 (로케일 접두사 경로는 해당 언어로 표시)
+ */
+export async function generateMetadata(): Promise<Metadata> {
+  const locale = await getRequestLocale();
+  const title = translate(locale, "metadata.title");
+  const description = translate(locale, "metadata.description");
 
-export default function RootLayout({
+  return {
+    title,
+    description,
+    keywords: translate(locale, "metadata.keywords"),
+    openGraph: {
+      title,
+      description,
+      type: "website",
+      locale: LOCALE_INFO[locale].openGraphLocale,
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+    },
+  };
+}
+
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const locale = await getRequestLocale();
+
   return (
     <ClerkProvider
-      localization={koreanLocalization}
+      localization={getClerkLocalization(locale)}
       appearance={{
         // Tailwind CSS 4 호환성을 위한 설정
         cssLayerName: "clerk",
       }}
     >
-      <html lang="ko">
+      <html lang={LOCALE_INFO[locale].htmlLang}>
         <body
           className={`${geistSans.variable} ${geistMono.variable} antialiased`}
         >
-          <SyncUserProvider>
-            <ToastProvider>
-              <WebVitals />
-              <Navbar />
-              {children}
-            </ToastProvider>
-          </SyncUserProvider>
+          <LocaleProvider locale={locale}>
+            <SyncUserProvider>
+              <ToastProvider>
+                <WebVitals />
+                <Navbar locale={locale} />
+                {children}
+              </ToastProvider>
+            </SyncUserProvider>
+          </LocaleProvider>
         </body>
       </html>
     </ClerkProvider>
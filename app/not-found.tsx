@@ -21,6 +21,7 @@
  * - next/link: Link 컴포넌트
  * - components/ui/button: Button 컴포넌트
  * - lucide-react: 아이콘
+ * - lib/i18n/server.ts: getRequestLocale (화면 문구 로케일)
  *
  * @see {@link https://nextjs.org/docs/app/api-reference/file-conventions/not-found} - Next.js Not Found Handling
  */
@@ -28,13 +29,20 @@
 import Link from 'next/link';
 import { Home, Search, ArrowLeft } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { localizePath } from '@/lib/i18n/locale';
+import { createTranslator } from '@/lib/i18n/messages';
+import { getRequestLocale } from '@/lib/i18n/server';
+
+export default async function NotFound() {
+  const locale = await getRequestLocale();
+  const t = createTranslator(locale);
+  const homeHref = localizePath('/', locale);
 
-export default function NotFound() {
   return (
     <main
       className="flex min-h-[calc(100vh-4rem)] flex-col items-center justify-center px-4 py-12"
       role="main"
-      aria-label="페이지를 찾을 수 없음"
+      aria-label={t('notFound.label')}
     >
       <div className="container mx-auto max-w-2xl text-center">
         {/* 404 숫자 표시 */}
@@ -50,12 +58,12 @@ export default function NotFound() {
         {/* 에러 메시지 */}
         <div className="mb-8 space-y-4">
           <h2 className="text-2xl font-bold sm:text-3xl">
-            페이지를 찾을 수 없습니다
+            {t('notFound.title')}
           </h2>
           <p className="text-muted-foreground">
-            요청하신 페이지가 존재하지 않거나 이동되었을 수 있습니다.
+            {t('notFound.description')}
             <br className="hidden sm:block" />
-            URL을 확인하시거나 홈으로 돌아가서 다시 시도해주세요.
+            {t('notFound.hint')}
           </p>
         </div>
 
@@ -66,11 +74,11 @@ export default function NotFound() {
             variant="default"
             size="lg"
             className="min-h-[44px] min-w-[140px]"
-            aria-label="홈으로 돌아가기"
+            aria-label={t('errorPage.goHome')}
           >
-            <Link href="/">
+            <Link href={homeHref}>
               <Home className="mr-2 h-4 w-4" />
-              홈으로 돌아가기
+              {t('errorPage.goHome')}
             </Link>
           </Button>
 
@@ -79,41 +87,41 @@ export default function NotFound() {
             variant="outline"
             size="lg"
             className="min-h-[44px] min-w-[140px]"
-            aria-label="관광지 검색하기"
+            aria-label={t('notFound.search')}
           >
-            <Link href="/">
+            <Link href={homeHref}>
               <Search className="mr-2 h-4 w-4" />
-              관광지 검색하기
+              {t('notFound.search')}
             </Link>
           </Button>
         </div>
 
         {/* 도움말 링크 */}
         <div className="mt-12 space-y-2 text-sm text-muted-foreground">
-          <p>다음 페이지를 확인해보세요:</p>
+          <p>{t('notFound.linksTitle')}</p>
           <nav
             className="flex flex-wrap items-center justify-center gap-4"
-            aria-label="유용한 링크"
+            aria-label={t('notFound.linksLabel')}
           >
             <Link
-              href="/"
+              href={homeHref}
               className="hover:text-primary hover:underline focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
             >
-              홈
+              {t('nav.home')}
             </Link>
             <span aria-hidden="true">•</span>
             <Link
               href="/stats"
               className="hover:text-primary hover:underline focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
             >
-              통계
+              {t('nav.stats')}
             </Link>
             <span aria-hidden="true">•</span>
             <Link
               href="/bookmarks"
               className="hover:text-primary hover:underline focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
             >
-              북마크
+              {t('nav.bookmarks')}
             </Link>
           </nav>
         </div>
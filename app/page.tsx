@@ -9,15 +9,33 @@
  * 2. 네이버 지도 연동 (Phase 2.2에서 구현)
  * 3. 필터 기능 (Phase 2.3에서 구현)
  * 4. 검색 기능 (Phase 2.3에서 구현)
+ * 5. 내 주변 모드 (위치 기반 조회, 거리순 정렬)
+ * 6. 숙박 검색 모드 (주차 가능, 체크인 시각 조건)
+ * 7. 서비스 분류 필터 (cat1, cat2, cat3) 및 카드에 분류명 표시
+ * 8. 시군구 필터 (areaCode 선택 후 sigunguCode로 범위 축소)
+ * 9. 법정동 코드(lDongRegnCd, lDongSignguCd) 지역 조건 지원
+ * 10. 정렬(sort) 및 이미지 있는 항목만 보기(image=1)를 API arrange 파라미터로 전달
+ * 11. 관광 타입 다중 선택 시 타입별 조회 결과 병합 (목록과 지도가 같은 병합 결과 사용)
+ * 12. 무한 스크롤 모드 (mode=infinite): 다음 페이지 클라이언트 조회, 지도 마커 동기화, 뒤로 가기 시 스크롤 복원
+ * 13. 로케일 접두사 경로(/en, /ja, /zh): 해당 언어 서비스에서 조회하고 제목을 해당 언어로 표시
+ * 14. 이 지역 검색 모드 (bounds): 지도에 보이는 범위의 중심/반경으로 위치 기반 조회, 공유 링크로 같은 범위 표시
  *
  * 핵심 구현 로직:
  * - Server Component로 구현하여 SEO 최적화
  * - searchParams를 통한 필터 상태 관리
- * - 초기 데이터 로딩 (getAreaBasedList API)
+ * - 초기 데이터 로딩 (getAreaBasedList / searchKeyword / getLocationBasedList / searchStay API)
+ * - bounds 파라미터가 있으면 이 지역 검색 모드로 동작 (내 주변 모드보다 우선)
+ * - mapX, mapY 파라미터가 있으면 내 주변 모드로 동작
+ * - stay=1 파라미터가 있으면 숙박 검색 모드로 동작
+ * - 법정동 시/도 코드만 주어지면 지역코드로 변환하여 기존 지역 필터와 같이 동작
  * - 반응형 레이아웃 (모바일 우선)
  *
  * @dependencies
- * - lib/api/tour-api.ts: getAreaBasedList 함수
+ * - lib/api/tour-list-api.ts: fetchTourList 함수 (조회 모드 선택, 정렬, 다중 타입 병합)
+ * - lib/api/category-api.ts: getCategoryNames 함수
+ * - lib/utils/region-code.ts: resolveProvinceCodes 함수
+ * - lib/i18n/server.ts: getRequestLocale 함수 (middleware.ts가 전달한 로케일)
+ * - lib/i18n/messages.ts: 로케일별 화면 문구
  * - lib/types/tour.ts: TourItem, TourListResponse 타입
  * - components/ui/skeleton.tsx: 로딩 상태 UI
  * - components/ui/error.tsx: 에러 상태 UI
@@ -26,88 +44,76 @@
  */
 
 import { Suspense } from "react";
-import { getAreaBasedList, searchKeyword } from "@/lib/api/tour-api";
+import * as tourApi from "@/lib/api/tour-api";
 import { TourAPIError } from "@/lib/api/tour-api";
+import { getCategoryNames } from "@/lib/api/category-api";
+import { fetchTourList, parseAreaSearchCircle, parseNearbyCenter } from "@/lib/api/tour-list-api";
+import type { TourQuery } from "@/lib/api/tour-list-api";
 import { Error } from "@/components/ui/error";
 import { TourList } from "@/components/tour-list";
+import { InfiniteTourList } from "@/components/infinite-tour-list";
 import { TourFilters } from "@/components/tour-filters";
 import { TourSearch } from "@/components/tour-search";
+import { TourNearby } from "@/components/tour-nearby";
 import { MapContentClient } from "@/components/map-content-client";
 import { TourHoverProvider } from "@/components/providers/tour-hover-provider";
+import { TourListProvider } from "@/components/providers/tour-list-provider";
 import { DesktopListMapWrapper } from "@/components/desktop-list-map-wrapper";
 import { MobileMapTabs } from "@/components/mobile-map-tabs";
-import type { TourListResponse } from "@/lib/types/tour";
+import { resolveProvinceCodes } from "@/lib/utils/region-code";
+import { createTranslator } from "@/lib/i18n/messages";
+import { DEFAULT_LOCALE } from "@/lib/i18n/locale";
+import { getRequestLocale } from "@/lib/i18n/server";
 
 interface HomePageProps {
   searchParams: Promise<{
     areaCode?: string;
+    sigunguCode?: string;
+    lDongRegnCd?: string;
+    lDongSignguCd?: string;
     contentTypeId?: string | string[];
     keyword?: string;
     page?: string;
     mode?: string;
     sort?: string;
+    image?: string;
+    mapX?: string;
+    mapY?: string;
+    radius?: string;
+    bounds?: string;
+    stay?: string;
+    parking?: string;
+    checkIn?: string;
+    cat1?: string;
+    cat2?: string;
+    cat3?: string;
   }>;
 }
 
 /**
  * 지도 컴포넌트용 데이터 로딩
  */
-async function MapContent({
-  areaCode,
-  contentTypeId,
-  keyword,
-  page,
-}: {
-  areaCode?: string;
-  contentTypeId?: string | string[];
-  keyword?: string;
-  page?: string;
-}) {
-  try {
-    const pageNo = Math.max(1, parseInt(page || "1", 10));
-    const numOfRows = 12;
-
-    const contentTypeIds = Array.isArray(contentTypeId)
-      ? contentTypeId
-      : contentTypeId
-        ? [contentTypeId]
-        : undefined;
-
-    const singleContentTypeId = contentTypeIds?.[0];
+async function MapContent(query: TourQuery) {
+  const t = createTranslator(query.language ?? DEFAULT_LOCALE);
 
-    let data: TourListResponse;
-
-    if (keyword && keyword.trim()) {
-      data = await searchKeyword({
-        keyword: keyword.trim(),
-        areaCode,
-        contentTypeId: singleContentTypeId,
-        numOfRows,
-        pageNo,
-      });
-    } else {
-      data = await getAreaBasedList({
-        areaCode,
-        contentTypeId: singleContentTypeId,
-        numOfRows,
-        pageNo,
-      });
-    }
+  try {
+    const data = await fetchTourList(query, tourApi);
 
-    if (data.items.length === 0) {
+    // 이 지역 검색 모드는 결과가 없어도 지도를 표시 (지도를 옮겨 다시 검색)
+    if (data.items.length === 0 && !query.bounds) {
       return (
         <div className="h-full bg-muted rounded-lg flex items-center justify-center">
-          <p className="text-sm text-muted-foreground">표시할 관광지가 없습니다.</p>
+          <p className="text-sm text-muted-foreground">{t("home.empty")}</p>
         </div>
       );
     }
 
-    return <MapContentClient tours={data.items} areaCode={areaCode} />;
+    return <MapContentClient tours={data.items} areaCode={query.areaCode} />;
   } catch (error) {
     console.error("MapContent error:", error);
     return (
       <div className="h-full bg-muted rounded-lg flex items-center justify-center">
-        <p className="text-sm text-muted-foreground">지도를 불러올 수 없습니다.</p>
+        <p className="text-sm text-muted-foreground">{t("home.mapError")}</p>
       </div>
     );
   }
@@ -118,75 +124,58 @@ async function MapContent({
  * Server Component로 데이터 로딩
  */
 async function TourListContent({
-  areaCode,
-  contentTypeId,
-  keyword,
-  page,
   mode,
   onTourHover,
-}: {
-  areaCode?: string;
-  contentTypeId?: string | string[];
-  keyword?: string;
-  page?: string;
+  ...query
+}: TourQuery & {
   mode?: string;
   onTourHover?: (tourId: string | null) => void;
 }) {
-  try {
-    // 페이지 번호 파싱 (1부터 시작)
-    const pageNo = Math.max(1, parseInt(page || "1", 10));
-    const numOfRows = 12; // 페이지당 항목 수
+  const locale = query.language ?? DEFAULT_LOCALE;
+  const t = createTranslator(locale);
 
-    // contentTypeId 배열 처리
-    const contentTypeIds = Array.isArray(contentTypeId)
-      ? contentTypeId
-      : contentTypeId
-        ? [contentTypeId]
-        : undefined;
-
-    // 첫 번째 contentTypeId만 사용 (API는 단일 값만 지원)
-    const singleContentTypeId = contentTypeIds?.[0];
+  try {
+    const data = await fetchTourList(query, tourApi);
+    // 분류명은 부가 정보이므로 조회 실패 시 분류 없이 표시
+    const categoryNames = await getCategoryNames(data.items, tourApi, query.language).catch(
+      () => ({}),
+    );
 
-    let data: TourListResponse;
+    const cardVariant = query.stay === "1" ? "stay" : "default";
 
-    // 키워드 검색이 있으면 searchKeyword 사용, 없으면 getAreaBasedList 사용
-    if (keyword && keyword.trim()) {
-      data = await searchKeyword({
-        keyword: keyword.trim(),
-        areaCode,
-        contentTypeId: singleContentTypeId,
-        numOfRows,
-        pageNo,
-      });
-    } else {
-      data = await getAreaBasedList({
-        areaCode,
-        contentTypeId: singleContentTypeId,
-        numOfRows,
-        pageNo,
-      });
+    // 무한 스크롤 모드: 다음 페이지는 클라이언트에서 TourListProvider를 통해 조회
+    if (mode === "infinite") {
+      return (
+        <InfiniteTourList
+          data={data}
+          categoryNames={categoryNames}
+          cardVariant={cardVariant}
+        />
+      );
     }
 
     return (
       <TourList
         data={data}
-        mode={mode === "infinite" ? "infinite" : "pagination"}
+        categoryNames={categoryNames}
+        mode="pagination"
         onTourHover={onTourHover}
+        cardVariant={cardVariant}
       />
     );
   } catch (error) {
     if (error instanceof TourAPIError) {
       return (
         <Error
-          title="데이터를 불러올 수 없습니다"
-          message={error.message}
+          title={t("home.listErrorTitle")}
+          message={error.getUserMessage(locale)}
         />
       );
     }
     return (
       <Error
-        title="오류가 발생했습니다"
-        message="관광지 목록을 불러오는 중 문제가 발생했습니다."
+        title={t("errorPage.title")}
+        message={t("home.listErrorMessage")}
       />
     );
   }
@@ -195,28 +184,84 @@ async function TourListContent({
 export default async function HomePage({ searchParams }: HomePageProps) {
   // Next.js 15에서는 searchParams가 Promise이므로 await 필요
   const params = await searchParams;
+  const locale = await getRequestLocale();
+  const t = createTranslator(locale);
 
-  const { areaCode, contentTypeId, keyword, page, mode } = params;
+  const {
+    sigunguCode,
+    lDongSignguCd,
+    contentTypeId,
+    keyword,
+    page,
+    mode,
+    sort,
+    image,
+    mapX,
+    mapY,
+    radius,
+    bounds,
+    stay,
+    parking,
+    checkIn,
+    cat1,
+    cat2,
+    cat3,
+  } = params;
   const displayMode = mode === "infinite" ? "infinite" : "pagination";
+  const isAreaMode = parseAreaSearchCircle(bounds) !== null;
+  const isNearbyMode = !isAreaMode && parseNearbyCenter(mapX, mapY) !== null;
+  const isStayMode = !isAreaMode && !isNearbyMode && stay === "1";
+
+  // 지역 조건은 지역코드/법정동 코드 중 어느 체계로 주어져도 같은 시/도로 조회
+  // 법정동 시/도 코드는 법정동 시군구 조건이 있을 때만 함께 전달 (시/도 조건은 지역코드로 충분)
+  const { areaCode, lDongRegnCd } = resolveProvinceCodes({
+    areaCode: params.areaCode,
+    lDongRegnCd: params.lDongRegnCd,
+  });
+
+  // 목록과 지도가 같은 조건으로 조회하도록 공통 조건 구성
+  const query: TourQuery = {
+    areaCode,
+    sigunguCode,
+    lDongRegnCd: lDongSignguCd ? lDongRegnCd : undefined,
+    lDongSignguCd,
+    contentTypeId,
+    keyword,
+    page,
+    sort,
+    image,
+    mapX,
+    mapY,
+    radius,
+    bounds,
+    stay,
+    parking,
+    checkIn,
+    cat1,
+    cat2,
+    cat3,
+    language: locale,
+  };
 
   return (
     <main
       className="min-h-[calc(100vh-4rem)] container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8"
       role="main"
-      aria-label="관광지 목록"
+      aria-label={t("tourList.label")}
     >
       {/* 검색 영역 */}
       <section
         className="mb-6 sm:mb-8"
-        aria-label="검색"
+        aria-label={t("common.search")}
       >
         <TourSearch placement="main" />
+        <TourNearby className="mt-3" />
       </section>
 
       {/* 필터 영역 */}
       <section
         className="mb-6 sm:mb-8"
-        aria-label="필터"
+        aria-label={t("common.filters")}
       >
         <TourFilters />
       </section>
@@ -224,72 +269,71 @@ export default async function HomePage({ searchParams }: HomePageProps) {
       {/* 목록 및 지도 영역 */}
       <section
         className="space-y-6"
-        aria-label="관광지 목록 및 지도"
+        aria-label={t("home.listAndMap")}
       >
         <div>
           <h1 className="text-2xl sm:text-3xl font-bold mb-2">
-            {keyword ? `"${keyword}" 검색 결과` : "전국 관광지"}
+            {isAreaMode
+              ? t("home.areaTitle")
+              : isNearbyMode
+              ? t("home.nearbyTitle")
+              : isStayMode
+                ? t("home.stayTitle")
+                : keyword
+                ? t("home.searchTitle", { keyword })
+                : t("home.title")}
           </h1>
           <p className="text-sm sm:text-base text-muted-foreground">
-            {keyword
-              ? "검색 결과를 확인하세요."
-              : "한국관광공사에서 제공하는 전국 관광지 정보를 확인하세요."}
+            {isAreaMode
+              ? t("home.areaDescription")
+              : isNearbyMode
+              ? t("home.nearbyDescription")
+              : isStayMode
+                ? t("home.stayDescription")
+                : keyword
+                ? t("home.searchDescription")
+                : t("home.description")}
           </p>
         </div>
 
-        {/* 데스크톱: 리스트 + 지도 분할 레이아웃 */}
-        <TourHoverProvider>
-          <DesktopListMapWrapper
-            listContent={
-              <Suspense fallback={<TourList isLoading />}>
-                <TourListContent
-                  areaCode={areaCode}
-                  contentTypeId={contentTypeId}
-                  keyword={keyword}
-                  page={page}
-                  mode={displayMode}
-                />
-              </Suspense>
-            }
-            mapContent={
-              <Suspense fallback={<div className="h-full bg-muted rounded-lg animate-pulse" />}>
-                <MapContent
-                  areaCode={areaCode}
-                  contentTypeId={contentTypeId}
-                  keyword={keyword}
-                  page={page}
-                />
-              </Suspense>
-            }
-          />
-        </TourHoverProvider>
+        {/* 무한 스크롤로 추가 조회한 항목을 리스트와 지도가 함께 사용 (조건이 바뀌면 초기화) */}
+        <TourListProvider
+          key={JSON.stringify(query)}
+          query={query}
+          enabled={displayMode === "infinite"}
+        >
+          {/* 데스크톱: 리스트 + 지도 분할 레이아웃 */}
+          <TourHoverProvider>
+            <DesktopListMapWrapper
+              listContent={
+                <Suspense fallback={<TourList isLoading />}>
+                  <TourListContent {...query} mode={displayMode} />
+                </Suspense>
+              }
+              mapContent={
+                <Suspense fallback={<div className="h-full bg-muted rounded-lg animate-pulse" />}>
+                  <MapContent {...query} />
+                </Suspense>
+              }
+            />
+          </TourHoverProvider>
 
-        {/* 모바일/태블릿: 탭 형태로 리스트/지도 전환 */}
-        <TourHoverProvider>
-          <MobileMapTabs
-            listContent={
-              <Suspense fallback={<TourList isLoading />}>
-                <TourListContent
-                  areaCode={areaCode}
-                  contentTypeId={contentTypeId}
-                  keyword={keyword}
-                  page={page}
-                  mode={displayMode}
-                />
-              </Suspense>
-            }
-            mapContent={
-              <Suspense fallback={<div className="h-[400px] bg-muted rounded-lg animate-pulse" />}>
-                <MapContent
-                  areaCode={areaCode}
-                  contentTypeId={contentTypeId}
-                  keyword={keyword}
-                  page={page}
-                />
-              </Suspense>
-            }
-          />
-        </TourHoverProvider>
+          {/* 모바일/태블릿: 탭 형태로 리스트/지도 전환 */}
+          <TourHoverProvider>
+            <MobileMapTabs
+              listContent={
+                <Suspense fallback={<TourList isLoading />}>
+                  <TourListContent {...query} mode={displayMode} />
+                </Suspense>
+              }
+              mapContent={
+                <Suspense fallback={<div className="h-[400px] bg-muted rounded-lg animate-pulse" />}>
+                  <MapContent {...query} />
+                </Suspense>
+              }
+            />
+          </TourHoverProvider>
+        </TourListProvider>
       </section>
     </main>
   );
@@ -7,9 +7,12 @@
  * 주요 기능:
  * 1. 관광지 기본 정보 표시
  * 2. 운영 정보 표시
- * 3. 이미지 갤러리
- * 4. 지도 표시
- * 5. 공유 및 북마크 기능
+ * 3. 반복 정보 표시 (여행코스 경로, 숙박 객실 목록)
+ * 4. 이미지 갤러리
+ * 5. 지도 표시 (여행코스는 코스 경로 표시)
+ * 6. 공유 및 북마크 기능
+ * 7. 로케일 접두사 경로(/en/places/...): 해당 언어 서비스에서 조회 (북마크는 한국어에서만 제공)
+ * 8. 다른 언어의 콘텐츠 ID로 들어온 경우(?from=ko 등) 해당 언어의 같은 장소로 이동
  *
  * 핵심 구현 로직:
  * - Server Component로 구현하여 SEO 최적화
@@ -18,7 +21,8 @@
  * - 반응형 레이아웃 (모바일 우선)
  *
  * @dependencies
- * - lib/api/tour-api.ts: getDetailCommon 함수
+ * - lib/api/tour-api.ts: getDetailCommon, findLocalizedContentId 함수
+ * - lib/i18n/server.ts, lib/i18n/messages.ts: 로케일 및 로케일별 화면 문구
  * - lib/types/tour.ts: TourDetail 타입
  * - components/ui/loading.tsx: 로딩 상태 UI
  * - components/ui/error.tsx: 에러 상태 UI
@@ -31,25 +35,35 @@ import Link from "next/link";
 import type { Metadata } from "next";
 import { ArrowLeft } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { getDetailCommon, getDetailIntro, getDetailImage, getDetailPetTour, getAreaBasedList } from "@/lib/api/tour-api";
-import { TourAPIError } from "@/lib/api/tour-api";
+import { findLocalizedContentId, getDetailCommon, getDetailIntro, getDetailInfo, getDetailImage, getDetailPetTour, getAreaBasedList, withTourAPIPriority, withTourAPIRetryPolicy } from "@/lib/api/tour-api";
+import { TourAPIError, TourAPIErrorType } from "@/lib/api/tour-api";
 import { Error } from "@/components/ui/error";
 import { Skeleton } from "@/components/ui/skeleton";
 import { DetailInfo } from "@/components/tour-detail/detail-info";
 import { DetailIntro } from "@/components/tour-detail/detail-intro";
+import { DetailInfoRepeat } from "@/components/tour-detail/detail-info-repeat";
 import { DetailPetTour } from "@/components/tour-detail/detail-pet-tour";
 import { DetailRecommendations } from "@/components/tour-detail/detail-recommendations";
 import { DetailGalleryWrapper } from "@/components/tour-detail/detail-gallery-wrapper";
 import { DetailMapWrapper } from "@/components/tour-detail/detail-map-wrapper";
 import { ShareButton } from "@/components/tour-detail/share-button";
 import { BookmarkButton } from "@/components/bookmarks/bookmark-button";
-import type { TourItem } from "@/lib/types/tour";
-import { notFound } from "next/navigation";
+import { CONTENT_TYPE, DEFAULT_TOUR_LANGUAGE } from "@/lib/types/tour";
+import type { AreaBasedListParams, TourDetail, TourItem, TourLanguage } from "@/lib/types/tour";
+import type { CourseStop } from "@/components/tour-detail/detail-map";
+import { notFound, redirect } from "next/navigation";
+import { LocaleSwitcher } from "@/components/locale-switcher";
+import { LOCALES, LOCALE_INFO, isLocale, localizePath } from "@/lib/i18n/locale";
+import { createTranslator } from "@/lib/i18n/messages";
+import { getRequestLocale } from "@/lib/i18n/server";
 
 interface DetailPageProps {
   params: Promise<{
     contentId: string;
   }>;
+  searchParams: Promise<{
+    from?: string; // contentId가 속한 언어 (현재 로케일과 다르면 같은 장소로 이동)
+  }>;
 }
 
 /**
@@ -72,30 +86,33 @@ export async function generateMetadata({
   params,
 }: DetailPageProps): Promise<Metadata> {
   const { contentId } = await params;
+  const locale = await getRequestLocale();
+  const t = createTranslator(locale);
 
   // contentId 검증
   if (!contentId || contentId.trim() === "") {
     return {
-      title: "관광지 상세 정보",
-      description: "관광지 상세 정보를 불러올 수 없습니다.",
+      title: t("place.title"),
+      description: t("place.loadFailed"),
     };
   }
 
   try {
     // 관광지 상세 정보 조회
-    const { item: detail } = await getDetailCommon({
+    const { item: detail } = await loadDetail(() => getDetailCommon({
       contentId: contentId.trim(),
-    });
+      language: locale,
+    }));
 
     const siteUrl = getSiteUrl();
-    const pageUrl = `${siteUrl}/places/${contentId}`;
+    const pageUrl = `${siteUrl}${localizePath(`/places/${contentId}`, locale)}`;
 
     // 설명 텍스트 (100자 이내로 자르기)
     const description = detail.overview
       ? detail.overview.length > 100
         ? `${detail.overview.substring(0, 100)}...`
         : detail.overview
-      : `${detail.title}의 상세 정보를 확인해보세요.`;
+      : t("place.metaDescription", { title: detail.title });
 
     // 이미지 URL (대표 이미지가 있으면 사용, 없으면 기본 이미지)
     const imageUrl = detail.firstimage || `${siteUrl}/og-image.png`;
@@ -116,7 +133,7 @@ export async function generateMetadata({
             alt: detail.title,
           },
         ],
-        locale: "ko_KR",
+        locale: LOCALE_INFO[locale].openGraphLocale,
         type: "website",
       },
       twitter: {
@@ -136,8 +153,8 @@ export async function generateMetadata({
       console.warn("메타데이터 생성 실패 (기본 메타데이터 사용):", error instanceof Error ? error.message : String(error));
     }
     return {
-      title: "관광지 상세 정보 - My Trip",
-      description: "관광지 상세 정보를 불러올 수 없습니다.",
+      title: `${t("place.title")} - My Trip`,
+      description: t("place.loadFailed"),
     };
   }
 }
@@ -149,16 +166,19 @@ export async function generateMetadata({
 async function TourIntroContent({
   contentId,
   contentTypeId,
+  language,
 }: {
   contentId: string;
   contentTypeId: string;
+  language: TourLanguage;
 }) {
   try {
     // 운영 정보 로딩
-    const { item: intro } = await getDetailIntro({
+    const { item: intro } = await loadDetail(() => getDetailIntro({
       contentId,
       contentTypeId,
-    });
+      language,
+    }));
 
     return <DetailIntro intro={intro} />;
   } catch (error) {
@@ -169,6 +189,95 @@ async function TourIntroContent({
   }
 }
 
+/**
+ * 관광지 반복 정보 컴포넌트 (여행코스 경로, 숙박 객실 등)
+ * Server Component로 데이터 로딩
+ */
+async function TourInfoRepeatContent({
+  contentId,
+  contentTypeId,
+  language,
+}: {
+  contentId: string;
+  contentTypeId: string;
+  language: TourLanguage;
+}) {
+  try {
+    // 반복 정보 로딩
+    const info = await loadDetail(() => getDetailInfo({
+      contentId,
+      contentTypeId,
+      language,
+    }));
+
+    return <DetailInfoRepeat info={info} />;
+  } catch (error) {
+    // 반복 정보는 선택적이므로 에러가 발생해도 null 반환
+    // 에러 로그만 출력하고 UI에는 표시하지 않음
+    console.warn("반복 정보를 불러올 수 없습니다:", error);
+    return null;
+  }
+}
+
+/**
+ * 관광지 지도 컴포넌트
+ * 여행코스인 경우 코스 경로 장소들의 좌표를 조회하여 함께 전달합니다.
+ * Server Component로 데이터 로딩
+ */
+async function TourMapContent({
+  detail,
+  language,
+}: {
+  detail: TourDetail;
+  language: TourLanguage;
+}) {
+  if (detail.contenttypeid !== CONTENT_TYPE.TOUR_COURSE) {
+    return <DetailMapWrapper detail={detail} />;
+  }
+
+  try {
+    const info = await loadDetail(() => getDetailInfo({
+      contentId: detail.contentid,
+      contentTypeId: detail.contenttypeid,
+      language,
+    }));
+
+    if (info.contentTypeId !== CONTENT_TYPE.TOUR_COURSE) {
+      return <DetailMapWrapper detail={detail} />;
+    }
+
+    // 코스 장소별 좌표 조회 (일부 실패해도 나머지 장소는 표시)
+    const results = await Promise.allSettled(
+      info.items.map((stop) => loadDetail(() => getDetailCommon({ contentId: stop.subcontentid, language }))),
+    );
+
+    const courseStops: CourseStop[] = [];
+    results.forEach((result, index) => {
+      if (result.status !== "fulfilled") return;
+      const { item } = result.value;
+      if (!item.mapx || !item.mapy) return;
+      courseStops.push({
+        contentid: item.contentid,
+        title: info.items[index].subname || item.title,
+        mapx: item.mapx,
+        mapy: item.mapy,
+        addr1: item.addr1,
+      });
+    });
+
+    return (
+      <DetailMapWrapper
+        detail={detail}
+        courseStops={courseStops.length > 0 ? courseStops : undefined}
+      />
+    );
+  } catch (error) {
+    // 코스 정보를 불러올 수 없으면 단일 마커 지도로 표시
+    console.warn("코스 경로 정보를 불러올 수 없습니다:", error);
+    return <DetailMapWrapper detail={detail} />;
+  }
+}
+
 /**
  * 관광지 반려동물 정보 컴포넌트
  * Server Component로 데이터 로딩
@@ -180,9 +289,9 @@ async function TourPetContent({
 }) {
   try {
     // 반려동물 정보 로딩
-    const { item: petInfo } = await getDetailPetTour({
+    const { item: petInfo } = await loadDetail(() => getDetailPetTour({
       contentId,
-    });
+    }));
 
     return <DetailPetTour petInfo={petInfo} />;
   } catch (error) {
@@ -200,17 +309,20 @@ async function TourPetContent({
 async function TourGalleryContent({
   contentId,
   title,
+  language,
 }: {
   contentId: string;
   title: string;
+  language: TourLanguage;
 }) {
   try {
     // 이미지 목록 조회 (최대 20개)
-    const { items: images } = await getDetailImage({
+    const { items: images } = await loadDetail(() => getDetailImage({
       contentId,
+      language,
       numOfRows: 20,
       pageNo: 1,
-    });
+    }));
 
     // 이미지가 없는 경우 null 반환
     if (!images || images.length === 0) {
@@ -225,6 +337,22 @@ async function TourGalleryContent({
   }
 }
 
+/**
+ * 상세 정보 조회
+ * 사용자가 기다리는 화면이므로 길게 재시도하지 않고 빠르게 실패합니다 (failFast 재시도 정책).
+ */
+function loadDetail<T>(load: () => Promise<T>): Promise<T> {
+  return withTourAPIRetryPolicy("failFast", load);
+}
+
+/**
+ * 추천 관광지 목록 조회 (부가 호출)
+ * 일일 호출 한도가 가까워지면 호출하지 않고 추천 섹션을 숨깁니다.
+ */
+function getRecommendationList(params: AreaBasedListParams) {
+  return withTourAPIPriority("optional", () => getAreaBasedList(params));
+}
+
 /**
  * 추천 관광지 컴포넌트
  * Server Component로 데이터 로딩
@@ -233,10 +361,12 @@ async function TourRecommendationsContent({
   contentId,
   areaCode,
   contentTypeId,
+  language,
 }: {
   contentId: string;
   areaCode: string;
   contentTypeId: string;
+  language: TourLanguage;
 }) {
   try {
     const recommendations: TourItem[] = [];
@@ -244,11 +374,12 @@ async function TourRecommendationsContent({
 
     // 1. 같은 지역 + 같은 타입 조회 (우선순위 1)
     try {
-      const { items } = await getAreaBasedList({
+      const { items } = await getRecommendationList({
         areaCode,
         contentTypeId,
         numOfRows: 10,
         pageNo: 1,
+        language,
       });
 
       const filtered = items
@@ -263,10 +394,11 @@ async function TourRecommendationsContent({
     // 2. 결과가 부족한 경우 같은 지역의 다른 타입 관광지 추가 조회 (우선순위 2)
     if (recommendations.length < 3) {
       try {
-        const { items } = await getAreaBasedList({
+        const { items } = await getRecommendationList({
           areaCode,
           numOfRows: 10,
           pageNo: 1,
+          language,
         });
 
         const filtered = items
@@ -286,10 +418,11 @@ async function TourRecommendationsContent({
     // 3. 여전히 부족한 경우 같은 타입의 다른 지역 관광지 추가 조회 (우선순위 3)
     if (recommendations.length < 3) {
       try {
-        const { items } = await getAreaBasedList({
+        const { items } = await getRecommendationList({
           contentTypeId,
           numOfRows: 10,
           pageNo: 1,
+          language,
         });
 
         const filtered = items
@@ -326,10 +459,16 @@ async function TourRecommendationsContent({
  * 관광지 상세 정보 컴포넌트
  * Server Component로 데이터 로딩
  */
-async function TourDetailContent({ contentId }: { contentId: string }) {
+async function TourDetailContent({
+  contentId,
+  language,
+}: {
+  contentId: string;
+  language: TourLanguage;
+}) {
   try {
     // 상세 정보 로딩
-    const { item: detail } = await getDetailCommon({ contentId });
+    const { item: detail } = await loadDetail(() => getDetailCommon({ contentId, language }));
 
     return (
       <div className="space-y-8 sm:space-y-12">
@@ -351,25 +490,47 @@ async function TourDetailContent({ contentId }: { contentId: string }) {
           <TourIntroContent
             contentId={contentId}
             contentTypeId={detail.contenttypeid}
+            language={language}
           />
         </Suspense>
 
-        {/* 반려동물 정보 섹션 */}
+        {/* 반복 정보 섹션 (여행코스 경로, 숙박 객실) */}
         <Suspense
           fallback={
             <div className="space-y-6 sm:space-y-8 pt-8 sm:pt-12 border-t">
-              <Skeleton className="h-8 w-40" />
+              <Skeleton className="h-8 w-32" />
               <div className="space-y-4">
                 <Skeleton className="h-16 w-full" />
-                <Skeleton className="h-20 w-full" />
-                <Skeleton className="h-20 w-full" />
+                <Skeleton className="h-16 w-full" />
               </div>
             </div>
           }
         >
-          <TourPetContent contentId={contentId} />
+          <TourInfoRepeatContent
+            contentId={contentId}
+            contentTypeId={detail.contenttypeid}
+            language={language}
+          />
         </Suspense>
 
+        {/* 반려동물 정보 섹션 (외국어 서비스는 반려동물 정보를 제공하지 않음) */}
+        {language === DEFAULT_TOUR_LANGUAGE && (
+          <Suspense
+            fallback={
+              <div className="space-y-6 sm:space-y-8 pt-8 sm:pt-12 border-t">
+                <Skeleton className="h-8 w-40" />
+                <div className="space-y-4">
+                  <Skeleton className="h-16 w-full" />
+                  <Skeleton className="h-20 w-full" />
+                  <Skeleton className="h-20 w-full" />
+                </div>
+              </div>
+            }
+          >
+            <TourPetContent contentId={contentId} />
+          </Suspense>
+        )}
+
         {/* 이미지 갤러리 섹션 */}
         <Suspense
           fallback={
@@ -384,7 +545,7 @@ async function TourDetailContent({ contentId }: { contentId: string }) {
             </div>
           }
         >
-          <TourGalleryContent contentId={contentId} title={detail.title} />
+          <TourGalleryContent contentId={contentId} title={detail.title} language={language} />
         </Suspense>
 
         {/* 지도 섹션 */}
@@ -397,7 +558,7 @@ async function TourDetailContent({ contentId }: { contentId: string }) {
             </div>
           }
         >
-          <DetailMapWrapper detail={detail} />
+          <TourMapContent detail={detail} language={language} />
         </Suspense>
 
         {/* 추천 관광지 섹션 */}
@@ -417,27 +578,30 @@ async function TourDetailContent({ contentId }: { contentId: string }) {
             contentId={contentId}
             areaCode={detail.areacode}
             contentTypeId={detail.contenttypeid}
+            language={language}
           />
         </Suspense>
       </div>
     );
   } catch (error) {
+    const t = createTranslator(language);
+
     if (error instanceof TourAPIError) {
       // 관광지를 찾을 수 없는 경우 404
-      if (error.message.includes("찾을 수 없습니다")) {
+      if (error.errorType === TourAPIErrorType.NO_DATA) {
         notFound();
       }
       return (
         <Error
-          title="데이터를 불러올 수 없습니다"
-          message={error.message}
+          title={t("home.listErrorTitle")}
+          message={error.getUserMessage(language)}
         />
       );
     }
     return (
       <Error
-        title="오류가 발생했습니다"
-        message="관광지 상세 정보를 불러오는 중 문제가 발생했습니다."
+        title={t("errorPage.title")}
+        message={t("place.loadError")}
       />
     );
   }
@@ -506,44 +670,87 @@ function DetailPageSkeleton() {
 /**
  * 관광지 상세페이지
  */
-export default async function DetailPage({ params }: DetailPageProps) {
+export default async function DetailPage({ params, searchParams }: DetailPageProps) {
   // Next.js 15에서는 params가 Promise이므로 await 필요
   const { contentId } = await params;
+  const { from } = await searchParams;
+  const locale = await getRequestLocale();
+  const t = createTranslator(locale);
 
   // contentId 검증
   if (!contentId || contentId.trim() === "") {
     notFound();
   }
 
+  // 언어 서비스마다 콘텐츠 ID가 다르므로 다른 언어의 ID로 들어오면 같은 장소의 ID로 이동
+  if (isLocale(from) && from !== locale) {
+    const localizedContentId = await findLocalizedContentId(contentId.trim(), from, locale).catch(
+      (error) => {
+        console.warn("언어별 콘텐츠 ID를 찾을 수 없습니다:", error);
+        return null;
+      },
+    );
+
+    if (localizedContentId) {
+      redirect(localizePath(`/places/${localizedContentId}`, locale));
+    }
+
+    return (
+      <main
+        className="min-h-[calc(100vh-4rem)] container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8"
+        role="main"
+      >
+        <Error title={t("place.notTranslatedTitle")} message={t("place.notTranslatedMessage")} />
+        <div className="mt-6 flex justify-center">
+          <Link href={localizePath("/", locale)}>
+            <Button variant="outline">{t("place.backToList")}</Button>
+          </Link>
+        </div>
+      </main>
+    );
+  }
+
   return (
     <main
       className="min-h-[calc(100vh-4rem)] container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8"
       role="main"
-      aria-label="관광지 상세 정보"
+      aria-label={t("place.title")}
     >
       {/* 뒤로가기 버튼 및 공유 버튼 */}
-      <section className="mb-6 sm:mb-8 flex items-center justify-between gap-2 sm:gap-4" aria-label="네비게이션">
-        <Link href="/">
+      <section className="mb-6 sm:mb-8 flex items-center justify-between gap-2 sm:gap-4" aria-label={t("place.navigation")}>
+        <Link href={localizePath("/", locale)}>
           <Button
             variant="ghost"
             size="sm"
             className="min-h-[44px] min-w-[44px] px-3 focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
-            aria-label="목록으로 돌아가기"
+            aria-label={t("place.backToListLabel")}
           >
             <ArrowLeft className="h-4 w-4 mr-2" aria-hidden="true" />
-            <span className="sr-only sm:not-sr-only">목록으로</span>
+            <span className="sr-only sm:not-sr-only">{t("place.backToList")}</span>
           </Button>
         </Link>
         <div className="flex items-center gap-2">
-          <BookmarkButton contentId={contentId.trim()} />
+          {/* 다른 언어로 보기 (해당 언어의 같은 장소로 이동) */}
+          <LocaleSwitcher
+            links={LOCALES.filter((option) => option !== locale).map((option) => ({
+              locale: option,
+              href: `${localizePath(`/places/${contentId.trim()}`, option)}?from=${locale}`,
+            }))}
+            current={locale}
+            label={t("nav.language")}
+            showIcon={false}
+            className="hidden sm:flex"
+          />
+          {/* 북마크는 한국어 콘텐츠 ID 기준이므로 한국어에서만 표시 */}
+          {locale === DEFAULT_TOUR_LANGUAGE && <BookmarkButton contentId={contentId.trim()} />}
           <ShareButton />
         </div>
       </section>
 
       {/* 상세 정보 영역 */}
-      <section className="space-y-6" aria-label="관광지 상세 정보">
+      <section className="space-y-6" aria-label={t("place.title")}>
         <Suspense fallback={<DetailPageSkeleton />}>
-          <TourDetailContent contentId={contentId.trim()} />
+          <TourDetailContent contentId={contentId.trim()} language={locale} />
         </Suspense>
       </section>
     </main>
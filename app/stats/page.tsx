@@ -6,17 +6,21 @@
  *
  * 주요 기능:
  * 1. 통계 요약 카드 (전체 관광지 수, Top 3 지역, Top 3 타입)
- * 2. 지역별 관광지 분포 차트 (Bar Chart)
+ * 2. 지역별 관광지 분포 차트 (Bar Chart, 시/도 → 시군구 드릴다운)
  * 3. 타입별 관광지 분포 차트 (Donut Chart)
  *
  * 핵심 구현 로직:
  * - Server Component로 구현하여 SEO 최적화
  * - Suspense를 사용한 로딩 상태 처리
+ * - 일일 호출 한도가 가까워지면 통계 섹션만 안내로 대체 (목록/상세 조회에 한도를 남김)
+ * - 일부 항목만 수집한 경우 섹션마다 일부 데이터 안내 표시
+ * - searchParams의 areaCode로 지역별 차트 드릴다운 상태 관리 (법정동 시/도 코드 lDongRegnCd도 지원)
  * - 반응형 레이아웃 (모바일 우선)
  *
  * @dependencies
  * - lib/api/stats-api.ts: getStatsSummary 통계 데이터 집계 함수
  * - components/stats/stats-summary.tsx: StatsSummary, StatsSummarySkeleton 컴포넌트
+ * - components/stats/stats-unavailable.tsx: 호출 한도 초과 시 섹션별 안내, 일부 데이터 안내
  * - components/ui/error.tsx: Error 컴포넌트
  *
  * @see {@link /docs/PRD.MD} - 통계 대시보드 요구사항 참고
@@ -24,46 +28,75 @@
 
 import { Suspense } from "react";
 import { getStatsSummary } from "@/lib/api/stats-api";
+import { isQuotaExceededError } from "@/lib/api/tour-api-error";
 import { StatsSummary, StatsSummarySkeleton } from "@/components/stats/stats-summary";
 import { RegionChartContent } from "@/components/stats/region-chart-content";
 import { RegionChartSkeleton } from "@/components/stats/region-chart";
 import { TypeChartContent } from "@/components/stats/type-chart-content";
 import { TypeChartSkeleton } from "@/components/stats/type-chart";
+import { StatsPartialNotice, StatsUnavailable } from "@/components/stats/stats-unavailable";
+import { resolveProvinceCodes } from "@/lib/utils/region-code";
+import { createTranslator } from "@/lib/i18n/messages";
+import { getRequestLocale } from "@/lib/i18n/server";
 
 /**
  * 통계 요약 카드 데이터 로딩 컴포넌트
  * Server Component로 getStatsSummary() API를 호출하여 데이터를 로드합니다.
- * 에러 발생 시 Next.js error.tsx에서 처리됩니다.
+ * 호출 한도 초과 시 안내를 표시하고, 그 외 에러는 Next.js error.tsx에서 처리됩니다.
  */
 async function StatsSummaryContent() {
-  const data = await getStatsSummary();
-  return <StatsSummary data={data} />;
+  try {
+    const data = await getStatsSummary();
+    return (
+      <div>
+        {data.missingCount > 0 && <StatsPartialNotice missingCount={data.missingCount} />}
+        <StatsSummary data={data} />
+      </div>
+    );
+  } catch (error) {
+    if (isQuotaExceededError(error)) {
+      return <StatsUnavailable />;
+    }
+    throw error;
+  }
 }
 
-export default async function StatsPage() {
+interface StatsPageProps {
+  searchParams: Promise<{
+    areaCode?: string;
+    lDongRegnCd?: string;
+  }>;
+}
+
+export default async function StatsPage({ searchParams }: StatsPageProps) {
+  // Next.js 15에서는 searchParams가 Promise이므로 await 필요
+  const params = await searchParams;
+  const { areaCode } = resolveProvinceCodes(params);
+  const t = createTranslator(await getRequestLocale());
+
   return (
     <main
       className="min-h-[calc(100vh-4rem)] container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8"
       role="main"
-      aria-label="통계 대시보드"
+      aria-label={t("stats.title")}
     >
       {/* 페이지 제목 섹션 */}
       <section
         className="mb-6 sm:mb-8"
-        aria-label="페이지 제목"
+        aria-label={t("common.pageTitle")}
       >
         <h1 className="text-2xl sm:text-3xl font-bold mb-2">
-          통계 대시보드
+          {t("stats.title")}
         </h1>
         <p className="text-sm sm:text-base text-muted-foreground">
-          전국 관광지 데이터를 차트로 시각화하여 한눈에 파악할 수 있습니다.
+          {t("stats.description")}
         </p>
       </section>
 
       {/* 통계 컴포넌트 영역 */}
       <section
         className="space-y-8 sm:space-y-12"
-        aria-label="통계 데이터"
+        aria-label={t("stats.dataLabel")}
       >
         {/* 통계 요약 카드 영역 */}
         <Suspense fallback={<StatsSummarySkeleton />}>
@@ -71,8 +104,8 @@ export default async function StatsPage() {
         </Suspense>
 
         {/* 지역별 분포 차트 영역 */}
-        <Suspense fallback={<RegionChartSkeleton />}>
-          <RegionChartContent />
+        <Suspense key={areaCode || "all"} fallback={<RegionChartSkeleton />}>
+          <RegionChartContent areaCode={areaCode} />
         </Suspense>
 
         {/* 타입별 분포 차트 영역 */}
@@ -2,39 +2,59 @@ import { SignedOut, SignInButton, SignedIn, UserButton } from "@clerk/nextjs";
 import Link from "next/link";
 import React from "react";
 import { Button } from "@/components/ui/button";
-import { Home, BarChart3, Bookmark } from "lucide-react";
+import { Home, BarChart3, Bookmark, CalendarDays } from "lucide-react";
+import { LocaleSwitcher } from "@/components/locale-switcher";
+import { LOCALES, localizePath, type Locale } from "@/lib/i18n/locale";
+import { createTranslator } from "@/lib/i18n/messages";
+
+interface NavbarProps {
+  /**
+   * 화면 로케일
+   * 통계/북마크는 한국어 페이지만 있으므로 접두사 없는 경로로 연결합니다.
+   */
+  locale: Locale;
+}
+
+const Navbar = ({ locale }: NavbarProps) => {
+  const t = createTranslator(locale);
 
-const Navbar = () => {
   return (
     <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
       <div className="flex justify-between items-center p-4 gap-4 h-16 max-w-7xl mx-auto">
         {/* 로고 */}
-        <Link href="/" className="text-2xl font-bold flex items-center gap-2">
+        <Link href={localizePath("/", locale)} className="text-2xl font-bold flex items-center gap-2">
           <span className="text-primary">My Trip</span>
         </Link>
 
         {/* 네비게이션 링크 */}
         <nav className="hidden md:flex gap-6 items-center">
           <Link
-            href="/"
+            href={localizePath("/", locale)}
             className="flex items-center gap-2 text-sm font-medium transition-colors hover:text-primary"
           >
             <Home className="h-4 w-4" />
-            홈
+            {t("nav.home")}
+          </Link>
+          <Link
+            href={localizePath("/festivals", locale)}
+            className="flex items-center gap-2 text-sm font-medium transition-colors hover:text-primary"
+          >
+            <CalendarDays className="h-4 w-4" />
+            {t("nav.festivals")}
           </Link>
           <Link
             href="/stats"
             className="flex items-center gap-2 text-sm font-medium transition-colors hover:text-primary"
           >
             <BarChart3 className="h-4 w-4" />
-            통계
+            {t("nav.stats")}
           </Link>
           <Link
             href="/bookmarks"
             className="flex items-center gap-2 text-sm font-medium transition-colors hover:text-primary"
           >
             <Bookmark className="h-4 w-4" />
-            북마크
+            {t("nav.bookmarks")}
           </Link>
         </nav>
 
@@ -43,12 +63,19 @@ const Navbar = () => {
           {/* 검색창은 Phase 2에서 tour-search 컴포넌트로 구현 */}
         </div>
 
+        {/* 언어 선택 */}
+        <LocaleSwitcher
+          links={LOCALES.map((option) => ({ locale: option, href: localizePath("/", option) }))}
+          current={locale}
+          label={t("nav.language")}
+        />
+
         {/* 로그인 버튼 */}
         <div className="flex gap-4 items-center">
           <SignedOut>
             <SignInButton mode="modal">
               <Button variant="outline" size="sm">
-                로그인
+                {t("nav.signIn")}
               </Button>
             </SignInButton>
           </SignedOut>
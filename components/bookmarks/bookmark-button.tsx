@@ -36,6 +36,7 @@ import { Star } from "lucide-react";
 import { useAuth } from "@clerk/nextjs";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/components/providers/toast-provider";
+import { useTranslations } from "@/components/providers/locale-provider";
 import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
 import {
   getBookmark,
@@ -77,6 +78,7 @@ export function BookmarkButton({
   const { isLoaded, userId } = useAuth();
   const supabase = useClerkSupabaseClient();
   const { success, error: showError } = useToast();
+  const t = useTranslations();
 
   const [isBookmarked, setIsBookmarked] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
@@ -136,20 +138,16 @@ export function BookmarkButton({
         // 북마크 제거
         await removeBookmark(supabase, userId, contentId);
         setIsBookmarked(false);
-        success("북마크가 제거되었습니다.");
+        success(t("bookmark.removed"));
       } else {
         // 북마크 추가
         await addBookmark(supabase, userId, contentId);
         setIsBookmarked(true);
-        success("북마크에 추가되었습니다.");
+        success(t("bookmark.added"));
       }
     } catch (error) {
       console.error("북마크 토글 실패:", error);
-      const errorMessage =
-        error instanceof Error
-          ? error.message
-          : "북마크 작업을 완료할 수 없습니다. 다시 시도해주세요.";
-      showError(errorMessage);
+      showError(t("bookmark.toggleFailed"));
     } finally {
       setIsToggling(false);
     }
@@ -160,7 +158,7 @@ export function BookmarkButton({
     return (
       <Skeleton
         className={cn("min-h-[44px] min-w-[44px]", className)}
-        aria-label="북마크 상태 로딩 중"
+        aria-label={t("bookmark.loading")}
       />
     );
   }
@@ -178,18 +176,18 @@ export function BookmarkButton({
       }}
       disabled={isToggling}
       className={cn("min-h-[44px] min-w-[44px] focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2", className)}
-      aria-label={isBookmarked ? "북마크 제거" : "북마크 추가"}
+      aria-label={isBookmarked ? t("bookmark.remove") : t("bookmark.add")}
       aria-pressed={isBookmarked}
     >
       {isBookmarked ? (
         <>
           <Star className="h-4 w-4 mr-2 fill-yellow-400 text-yellow-400" aria-hidden="true" />
-          <span className="hidden sm:inline">북마크됨</span>
+          <span className="hidden sm:inline">{t("bookmark.bookmarked")}</span>
         </>
       ) : (
         <>
           <Star className="h-4 w-4 mr-2" aria-hidden="true" />
-          <span className="hidden sm:inline">북마크</span>
+          <span className="hidden sm:inline">{t("bookmark.bookmark")}</span>
         </>
       )}
     </Button>
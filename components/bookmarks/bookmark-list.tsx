@@ -22,6 +22,7 @@
  * - @clerk/nextjs: useAuth hook
  * - lib/supabase/clerk-client.ts: useClerkSupabaseClient hook
  * - lib/api/supabase-api.ts: removeBookmark 함수
+ * - lib/utils/region-code.ts: getRegionSortOrder 함수 (지역별 정렬)
  * - components/tour-card.tsx: TourCard 컴포넌트
  * - components/ui/button.tsx: Button 컴포넌트
  * - components/ui/dialog.tsx: Dialog 컴포넌트
@@ -49,10 +50,12 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { useToast } from "@/components/providers/toast-provider";
+import { useTranslations } from "@/components/providers/locale-provider";
 import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
 import { removeBookmark } from "@/lib/api/supabase-api";
 import type { TourItem } from "@/lib/types/tour";
 import { cn } from "@/lib/utils";
+import { getRegionSortOrder } from "@/lib/utils/region-code";
 
 /**
  * 북마크와 관광지 정보를 결합한 타입
@@ -89,6 +92,7 @@ export function BookmarkList({ tours, bookmarks = [] }: BookmarkListProps) {
   const { userId } = useAuth();
   const supabase = useClerkSupabaseClient();
   const { addToast } = useToast();
+  const t = useTranslations();
 
   // 정렬 옵션 (URL 쿼리 파라미터에서 가져오기)
   const sortParam = searchParams.get("sort") || "latest";
@@ -126,8 +130,11 @@ export function BookmarkList({ tours, bookmarks = [] }: BookmarkListProps) {
           a.title.localeCompare(b.title, "ko")
         );
       case "region":
-        return [...toursWithBookmarks].sort((a, b) =>
-          a.areacode.localeCompare(b.areacode)
+        // 지역코드/법정동 코드 중 어느 체계든 같은 시/도 순서로 정렬
+        return [...toursWithBookmarks].sort(
+          (a, b) =>
+            getRegionSortOrder(a) - getRegionSortOrder(b) ||
+            a.title.localeCompare(b.title, "ko")
         );
       case "latest":
       default:
@@ -180,8 +187,8 @@ export function BookmarkList({ tours, bookmarks = [] }: BookmarkListProps) {
     if (!userId) {
       addToast({
         type: "error",
-        title: "로그인이 필요합니다",
-        message: "북마크를 삭제하려면 로그인해주세요.",
+        title: t("bookmarkList.signInRequired"),
+        message: t("bookmarkList.signInToDelete"),
       });
       return;
     }
@@ -201,15 +208,15 @@ export function BookmarkList({ tours, bookmarks = [] }: BookmarkListProps) {
 
       addToast({
         type: "success",
-        title: "북마크 삭제 완료",
-        message: "북마크가 삭제되었습니다.",
+        title: t("bookmarkList.deletedTitle"),
+        message: t("bookmarkList.deleted"),
       });
     } catch (error) {
       console.error("북마크 삭제 실패:", error);
       addToast({
         type: "error",
-        title: "삭제 실패",
-        message: "북마크를 삭제할 수 없습니다. 다시 시도해주세요.",
+        title: t("bookmarkList.deleteFailedTitle"),
+        message: t("bookmarkList.deleteFailed"),
       });
     }
   };
@@ -243,15 +250,15 @@ export function BookmarkList({ tours, bookmarks = [] }: BookmarkListProps) {
 
       addToast({
         type: "success",
-        title: "북마크 삭제 완료",
-        message: `${deletedCount}개의 북마크가 삭제되었습니다.`,
+        title: t("bookmarkList.deletedTitle"),
+        message: t("bookmarkList.deletedCount", { count: deletedCount }),
       });
     } catch (error) {
       console.error("일괄 삭제 실패:", error);
       addToast({
         type: "error",
-        title: "삭제 실패",
-        message: "일부 북마크를 삭제할 수 없습니다. 다시 시도해주세요.",
+        title: t("bookmarkList.deleteFailedTitle"),
+        message: t("bookmarkList.batchDeleteFailed"),
       });
     } finally {
       setIsDeleting(false);
@@ -264,13 +271,13 @@ export function BookmarkList({ tours, bookmarks = [] }: BookmarkListProps) {
       <div className="flex flex-col items-center justify-center py-16 sm:py-24">
         <Bookmark className="w-16 h-16 sm:w-20 sm:h-20 text-muted-foreground mb-4" />
         <h2 className="text-xl sm:text-2xl font-semibold mb-2">
-          북마크가 없습니다
+          {t("bookmarkList.empty")}
         </h2>
         <p className="text-muted-foreground mb-6 text-center max-w-md">
-          관심 있는 관광지를 북마크하여 나중에 쉽게 찾아보세요.
+          {t("bookmarkList.emptyHint")}
         </p>
         <Button asChild>
-          <Link href="/">관광지 둘러보기</Link>
+          <Link href="/">{t("bookmarkList.browse")}</Link>
         </Button>
       </div>
     );
@@ -283,31 +290,31 @@ export function BookmarkList({ tours, bookmarks = [] }: BookmarkListProps) {
         {/* 정렬 옵션 */}
         <div className="flex items-center gap-2">
           <ArrowUpDown className="w-4 h-4 text-muted-foreground" />
-          <span className="text-sm font-medium">정렬:</span>
+          <span className="text-sm font-medium">{t("bookmarkList.sort")}</span>
           <div className="flex gap-2">
             <Button
               variant={sort === "latest" ? "default" : "outline"}
               size="sm"
               onClick={() => handleSortChange("latest")}
-              aria-label="최신순 정렬"
+              aria-label={t("bookmarkList.sortBy", { label: t("sort.latest") })}
             >
-              최신순
+              {t("sort.latest")}
             </Button>
             <Button
               variant={sort === "name" ? "default" : "outline"}
               size="sm"
               onClick={() => handleSortChange("name")}
-              aria-label="이름순 정렬"
+              aria-label={t("bookmarkList.sortBy", { label: t("sort.name") })}
             >
-              이름순
+              {t("sort.name")}
             </Button>
             <Button
               variant={sort === "region" ? "default" : "outline"}
               size="sm"
               onClick={() => handleSortChange("region")}
-              aria-label="지역별 정렬"
+              aria-label={t("bookmarkList.sortBy", { label: t("bookmarkList.sortRegion") })}
             >
-              지역별
+              {t("bookmarkList.sortRegion")}
             </Button>
           </div>
         </div>
@@ -324,7 +331,7 @@ export function BookmarkList({ tours, bookmarks = [] }: BookmarkListProps) {
                   setSelectedIds(new Set());
                 }}
               >
-                취소
+                {t("common.cancel")}
               </Button>
               <Button
                 variant="destructive"
@@ -333,7 +340,7 @@ export function BookmarkList({ tours, bookmarks = [] }: BookmarkListProps) {
                 disabled={selectedIds.size === 0 || isDeleting}
               >
                 <Trash2 className="w-4 h-4 mr-2" />
-                선택 삭제 ({selectedIds.size})
+                {t("bookmarkList.deleteSelected", { count: selectedIds.size })}
               </Button>
             </>
           ) : (
@@ -342,7 +349,7 @@ export function BookmarkList({ tours, bookmarks = [] }: BookmarkListProps) {
               size="sm"
               onClick={() => setIsSelectMode(true)}
             >
-              선택 모드
+              {t("bookmarkList.selectMode")}
             </Button>
           )}
         </div>
@@ -366,7 +373,7 @@ export function BookmarkList({ tours, bookmarks = [] }: BookmarkListProps) {
                     checked={isSelected}
                     onChange={() => toggleSelect(tour.contentid)}
                     className="w-5 h-5 rounded border-gray-300 text-primary focus:ring-primary"
-                    aria-label={`${tour.title} 선택`}
+                    aria-label={t("bookmarkList.select", { title: tour.title })}
                   />
                 </div>
               )}
@@ -378,7 +385,7 @@ export function BookmarkList({ tours, bookmarks = [] }: BookmarkListProps) {
                   size="icon"
                   className="absolute top-2 right-2 z-10 opacity-0 group-hover:opacity-100 transition-opacity"
                   onClick={() => handleDelete(tour.contentid)}
-                  aria-label={`${tour.title} 북마크 삭제`}
+                  aria-label={t("bookmarkList.deleteItem", { title: tour.title })}
                 >
                   <X className="w-4 h-4" />
                 </Button>
@@ -398,10 +405,10 @@ export function BookmarkList({ tours, bookmarks = [] }: BookmarkListProps) {
             checked={selectedIds.size === sortedTours.length}
             onChange={toggleSelectAll}
             className="w-5 h-5 rounded border-gray-300 text-primary focus:ring-primary"
-            aria-label="전체 선택"
+            aria-label={t("bookmarkList.selectAll")}
           />
           <label className="text-sm font-medium cursor-pointer">
-            전체 선택 ({selectedIds.size}/{sortedTours.length})
+            {t("bookmarkList.selectAllCount", { selected: selectedIds.size, total: sortedTours.length })}
           </label>
         </div>
       )}
@@ -410,11 +417,11 @@ export function BookmarkList({ tours, bookmarks = [] }: BookmarkListProps) {
       <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>북마크 삭제</DialogTitle>
+            <DialogTitle>{t("bookmarkList.deleteDialogTitle")}</DialogTitle>
             <DialogDescription>
-              정말 {selectedIds.size}개의 북마크를 삭제하시겠습니까?
+              {t("bookmarkList.deleteConfirm", { count: selectedIds.size })}
               <br />
-              이 작업은 되돌릴 수 없습니다.
+              {t("bookmarkList.deleteIrreversible")}
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
@@ -423,14 +430,14 @@ export function BookmarkList({ tours, bookmarks = [] }: BookmarkListProps) {
               onClick={() => setIsDeleteDialogOpen(false)}
               disabled={isDeleting}
             >
-              취소
+              {t("common.cancel")}
             </Button>
             <Button
               variant="destructive"
               onClick={handleBatchDelete}
               disabled={isDeleting}
             >
-              {isDeleting ? "삭제 중..." : "삭제"}
+              {isDeleting ? t("bookmarkList.deleting") : t("bookmarkList.delete")}
             </Button>
           </DialogFooter>
         </DialogContent>
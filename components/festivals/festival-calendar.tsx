@@ -0,0 +1,266 @@
+/**
+ * @file festival-calendar.tsx
+ * @description 축제 캘린더 컴포넌트
+ *
+ * 이 컴포넌트는 축제/행사를 월간 또는 주간 캘린더 형태로 표시합니다.
+ *
+ * 주요 기능:
+ * 1. 월간 보기 (날짜별 최대 3개 행사 표시, 초과 시 개수 표시)
+ * 2. 주간 보기 (날짜별 전체 행사 표시)
+ * 3. 행사 진행 상태 배지 (진행중 / 예정 / 종료)
+ * 4. 행사 클릭 시 상세페이지(/places/[contentId])로 이동
+ *
+ * 핵심 구현 로직:
+ * - Server Component로 구현 (데이터 로딩은 상위에서 처리)
+ * - 날짜 계산은 lib/utils/festival.ts의 UTC 기준 함수 사용
+ *
+ * @dependencies
+ * - lib/utils/festival.ts: 캘린더 계산 및 행사 상태 함수
+ * - lib/types/tour.ts: FestivalItem 타입
+ * - components/ui/skeleton: Skeleton
+ */
+
+import Link from "next/link";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { FestivalItem } from "@/lib/types/tour";
+import { localizePath, type Locale } from "@/lib/i18n/locale";
+import { createTranslator } from "@/lib/i18n/messages";
+import {
+  CALENDAR_VIEW,
+  FESTIVAL_STATUS,
+  FESTIVAL_STATUS_LABELS,
+  WEEKDAY_LABELS,
+  formatEventPeriod,
+  getCalendarDays,
+  getFestivalStatus,
+  isFestivalOnDate,
+  parseDateKey,
+  toDateKey,
+} from "@/lib/utils/festival";
+import type { CalendarView, FestivalStatus } from "@/lib/utils/festival";
+import { cn } from "@/lib/utils";
+
+/**
+ * 월간 보기에서 날짜별로 표시할 최대 행사 수
+ */
+const MAX_EVENTS_PER_DAY = 3;
+
+/**
+ * 행사 진행 상태별 색상
+ */
+const STATUS_CLASS_NAMES: Record<FestivalStatus, string> = {
+  [FESTIVAL_STATUS.ONGOING]:
+    "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300",
+  [FESTIVAL_STATUS.UPCOMING]:
+    "bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300",
+  [FESTIVAL_STATUS.ENDED]: "bg-muted text-muted-foreground",
+};
+
+// =====================================================
+// FestivalStatusBadge 컴포넌트
+// =====================================================
+
+interface FestivalStatusBadgeProps {
+  status: FestivalStatus;
+  /**
+   * 화면 로케일 (상태 라벨)
+   */
+  locale: Locale;
+  className?: string;
+}
+
+/**
+ * 행사 진행 상태 배지
+ */
+export function FestivalStatusBadge({ status, locale, className }: FestivalStatusBadgeProps) {
+  const t = createTranslator(locale);
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium shrink-0",
+        STATUS_CLASS_NAMES[status],
+        className,
+      )}
+    >
+      {t(FESTIVAL_STATUS_LABELS[status])}
+    </span>
+  );
+}
+
+// =====================================================
+// FestivalCalendar 컴포넌트
+// =====================================================
+
+interface FestivalCalendarProps {
+  /**
+   * 표시할 행사 목록 (조회 기간 및 상태 필터 적용 후)
+   */
+  festivals: FestivalItem[];
+  /**
+   * 보기 방식
+   */
+  view: CalendarView;
+  /**
+   * 기준 날짜 (YYYYMMDD)
+   */
+  dateKey: string;
+  /**
+   * 오늘 날짜 (YYYYMMDD, 한국 시간 기준)
+   */
+  todayKey: string;
+  /**
+   * 화면 로케일 (상세페이지 링크 경로, 화면 문구)
+   */
+  locale: Locale;
+}
+
+/**
+ * 축제 캘린더 컴포넌트
+ */
+export function FestivalCalendar({
+  festivals,
+  view,
+  dateKey,
+  todayKey,
+  locale,
+}: FestivalCalendarProps) {
+  const t = createTranslator(locale);
+  const baseDate = parseDateKey(dateKey) || parseDateKey(todayKey)!;
+  const currentMonth = baseDate.getUTCMonth();
+  const days = getCalendarDays(view, baseDate).map((date) => {
+    const key = toDateKey(date);
+    return {
+      key,
+      day: date.getUTCDate(),
+      weekday: date.getUTCDay(),
+      isOutside: view === CALENDAR_VIEW.MONTH && date.getUTCMonth() !== currentMonth,
+      festivals: festivals.filter((festival) => isFestivalOnDate(festival, key)),
+    };
+  });
+
+  return (
+    <div
+      className="border rounded-lg overflow-hidden"
+      role="grid"
+      aria-label={view === CALENDAR_VIEW.WEEK ? t("festivals.weekCalendar") : t("festivals.monthCalendar")}
+    >
+      {/* 요일 헤더 */}
+      <div
+        className={cn(
+          "grid-cols-7 bg-muted/50 border-b",
+          view === CALENDAR_VIEW.WEEK ? "hidden md:grid" : "grid",
+        )}
+        role="row"
+      >
+        {WEEKDAY_LABELS.map((label, index) => (
+          <div
+            key={label}
+            className={cn(
+              "py-2 text-center text-xs sm:text-sm font-medium",
+              index === 0 && "text-red-500",
+              index === 6 && "text-blue-500",
+            )}
+            role="columnheader"
+          >
+            {t(label)}
+          </div>
+        ))}
+      </div>
+
+      {/* 날짜 셀 */}
+      <div
+        className={cn(
+          "grid",
+          view === CALENDAR_VIEW.WEEK ? "grid-cols-1 md:grid-cols-7" : "grid-cols-7",
+        )}
+        role="row"
+      >
+        {days.map((day) => {
+          const visibleFestivals =
+            view === CALENDAR_VIEW.MONTH
+              ? day.festivals.slice(0, MAX_EVENTS_PER_DAY)
+              : day.festivals;
+          const hiddenCount = day.festivals.length - visibleFestivals.length;
+
+          return (
+            <div
+              key={day.key}
+              className={cn(
+                "border-b border-r p-1 sm:p-2 min-w-0",
+                view === CALENDAR_VIEW.MONTH ? "min-h-[80px] sm:min-h-[120px]" : "md:min-h-[240px]",
+                day.isOutside && "bg-muted/30 text-muted-foreground",
+              )}
+              role="gridcell"
+              aria-label={t("festivals.dayLabel", {
+                month: Number(day.key.slice(4, 6)),
+                day: day.day,
+                count: day.festivals.length,
+              })}
+            >
+              <div className="flex items-center gap-1 mb-1">
+                <span
+                  className={cn(
+                    "inline-flex h-6 min-w-6 items-center justify-center rounded-full px-1 text-xs sm:text-sm",
+                    day.weekday === 0 && "text-red-500",
+                    day.weekday === 6 && "text-blue-500",
+                    day.key === todayKey && "bg-primary text-primary-foreground font-bold",
+                  )}
+                >
+                  {day.day}
+                </span>
+                {view === CALENDAR_VIEW.WEEK && (
+                  <span className="text-xs text-muted-foreground md:hidden">
+                    {t("festivals.weekdayFull", { weekday: t(WEEKDAY_LABELS[day.weekday]) })}
+                  </span>
+                )}
+              </div>
+
+              <ul className="space-y-1">
+                {visibleFestivals.map((festival) => {
+                  const status = getFestivalStatus(festival, todayKey);
+                  return (
+                    <li key={festival.contentid}>
+                      <Link
+                        href={localizePath(`/places/${festival.contentid}`, locale)}
+                        className={cn(
+                          "block rounded px-1 sm:px-1.5 py-0.5 text-[10px] sm:text-xs truncate hover:opacity-80 transition-opacity",
+                          STATUS_CLASS_NAMES[status],
+                        )}
+                        title={`${festival.title} (${formatEventPeriod(festival)})`}
+                      >
+                        {festival.title}
+                      </Link>
+                    </li>
+                  );
+                })}
+              </ul>
+
+              {hiddenCount > 0 && (
+                <p className="mt-1 text-[10px] sm:text-xs text-muted-foreground">
+                  {t("festivals.moreEvents", { count: hiddenCount })}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 축제 캘린더 로딩 스켈레톤
+ */
+export function FestivalCalendarSkeleton() {
+  return (
+    <div className="border rounded-lg overflow-hidden" aria-busy="true">
+      <Skeleton className="h-9 w-full rounded-none" />
+      <div className="grid grid-cols-7 gap-px">
+        {Array.from({ length: 35 }).map((_, index) => (
+          <Skeleton key={index} className="h-[80px] sm:h-[120px] rounded-none" />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,358 @@
+/**
+ * @file festival-filters.tsx
+ * @description 축제 캘린더 필터 컴포넌트
+ *
+ * 이 컴포넌트는 축제 캘린더의 보기 방식, 기간, 지역, 진행 상태를 선택하는 기능을 제공합니다.
+ *
+ * 주요 기능:
+ * 1. 월간/주간 보기 전환
+ * 2. 이전/다음 기간 이동, 오늘로 이동
+ * 3. 지역 필터 (시/도 선택)
+ * 4. 진행 상태 필터 (진행중 / 예정 / 종료)
+ * 5. URL 쿼리 파라미터로 상태 관리 (view, date, areaCode, status)
+ *
+ * @dependencies
+ * - lib/api/tour-api-client.ts: getAreaCode 함수 (서버 프록시)
+ * - lib/utils/festival.ts: 캘린더 계산 및 행사 상태 상수
+ * - components/ui/button.tsx: Button 컴포넌트
+ * - lucide-react: ChevronDown, ChevronLeft, ChevronRight 아이콘
+ */
+
+"use client";
+
+import { useEffect, useState, useMemo, useCallback } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { ChevronDown, ChevronLeft, ChevronRight } from "lucide-react";
+import { useLocale, useLocalizePath, useTranslations } from "@/components/providers/locale-provider";
+import { Button } from "@/components/ui/button";
+import { getAreaCode } from "@/lib/api/tour-api-client";
+import type { AreaCode } from "@/lib/types/tour";
+import {
+  CALENDAR_VIEW,
+  FESTIVAL_STATUS,
+  FESTIVAL_STATUS_LABELS,
+  formatCalendarTitle,
+  parseDateKey,
+  shiftCalendarDate,
+  toDateKey,
+} from "@/lib/utils/festival";
+import type { CalendarView, FestivalStatus } from "@/lib/utils/festival";
+import { cn } from "@/lib/utils";
+
+interface FestivalFiltersProps {
+  /**
+   * 현재 보기 방식
+   */
+  view: CalendarView;
+  /**
+   * 현재 기준 날짜 (YYYYMMDD)
+   */
+  dateKey: string;
+  /**
+   * 오늘 날짜 (YYYYMMDD, 한국 시간 기준)
+   */
+  todayKey: string;
+  /**
+   * 추가 클래스명
+   */
+  className?: string;
+}
+
+/**
+ * 축제 캘린더 필터 컴포넌트
+ */
+export function FestivalFilters({
+  view,
+  dateKey,
+  todayKey,
+  className,
+}: FestivalFiltersProps) {
+  const router = useRouter();
+  const locale = useLocale();
+  const localize = useLocalizePath();
+  const t = useTranslations();
+  const searchParams = useSearchParams();
+  const [areaCodes, setAreaCodes] = useState<AreaCode[]>([]);
+  const [isLoadingAreas, setIsLoadingAreas] = useState(true);
+  const [isAreaDropdownOpen, setIsAreaDropdownOpen] = useState(false);
+
+  // 현재 필터 값
+  const currentAreaCode = searchParams.get("areaCode") || "";
+  const currentStatus = searchParams.get("status") || "";
+  const baseDate = useMemo(
+    () => parseDateKey(dateKey) || parseDateKey(todayKey)!,
+    [dateKey, todayKey],
+  );
+
+  // 지역 목록 로드
+  useEffect(() => {
+    async function loadAreaCodes() {
+      try {
+        setIsLoadingAreas(true);
+        const codes = await getAreaCode({ numOfRows: 20, language: locale });
+        setAreaCodes(codes);
+      } catch (error) {
+        console.error("지역코드 로드 실패:", error);
+      } finally {
+        setIsLoadingAreas(false);
+      }
+    }
+    loadAreaCodes();
+  }, [locale]);
+
+  // 필터 업데이트 함수 (useCallback으로 최적화)
+  const updateFilters = useCallback(
+    (updates: {
+      view?: CalendarView;
+      date?: string;
+      areaCode?: string;
+      status?: FestivalStatus | "";
+    }) => {
+      const params = new URLSearchParams(searchParams.toString());
+
+      if (updates.view !== undefined) {
+        if (updates.view === CALENDAR_VIEW.MONTH) {
+          params.delete("view");
+        } else {
+          params.set("view", updates.view);
+        }
+      }
+
+      if (updates.date !== undefined) {
+        if (updates.date === todayKey) {
+          params.delete("date");
+        } else {
+          params.set("date", updates.date);
+        }
+      }
+
+      if (updates.areaCode !== undefined) {
+        if (updates.areaCode) {
+          params.set("areaCode", updates.areaCode);
+        } else {
+          params.delete("areaCode");
+        }
+      }
+
+      if (updates.status !== undefined) {
+        if (updates.status) {
+          params.set("status", updates.status);
+        } else {
+          params.delete("status");
+        }
+      }
+
+      const query = params.toString();
+      router.push(localize(query ? `/festivals?${query}` : "/festivals"));
+    },
+    [searchParams, router, todayKey, localize],
+  );
+
+  // 보기 방식 변경 (useCallback으로 최적화)
+  const handleViewChange = useCallback(
+    (nextView: CalendarView) => {
+      updateFilters({ view: nextView });
+    },
+    [updateFilters],
+  );
+
+  // 이전/다음 기간 이동 (useCallback으로 최적화)
+  const handleShift = useCallback(
+    (direction: -1 | 1) => {
+      updateFilters({
+        date: toDateKey(shiftCalendarDate(view, baseDate, direction)),
+      });
+    },
+    [updateFilters, view, baseDate],
+  );
+
+  // 지역 필터 변경 (useCallback으로 최적화)
+  const handleAreaChange = useCallback(
+    (code: string) => {
+      updateFilters({ areaCode: code === "all" ? "" : code });
+      setIsAreaDropdownOpen(false);
+    },
+    [updateFilters],
+  );
+
+  // 선택된 지역명 (useMemo로 최적화)
+  const selectedAreaName = useMemo(() => {
+    return currentAreaCode && areaCodes.length > 0
+      ? areaCodes.find((area) => area.code === currentAreaCode)?.name || t("common.all")
+      : t("common.all");
+  }, [currentAreaCode, areaCodes, t]);
+
+  const statusOptions: Array<{ value: FestivalStatus | ""; label: string }> = [
+    { value: "", label: t("common.all") },
+    ...Object.values(FESTIVAL_STATUS).map((status) => ({
+      value: status,
+      label: t(FESTIVAL_STATUS_LABELS[status]),
+    })),
+  ];
+
+  return (
+    <div
+      className={cn("flex flex-col gap-4 p-4 bg-muted/50 rounded-lg", className)}
+      role="group"
+      aria-label={t("festivals.filtersLabel")}
+    >
+      {/* 기간 이동 및 보기 방식 */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            className="min-h-[44px] min-w-[44px]"
+            onClick={() => handleShift(-1)}
+            aria-label={view === CALENDAR_VIEW.WEEK ? t("festivals.previousWeek") : t("festivals.previousMonth")}
+          >
+            <ChevronLeft className="h-4 w-4" aria-hidden="true" />
+          </Button>
+          <h2
+            className="text-lg sm:text-xl font-bold min-w-[10rem] text-center"
+            aria-live="polite"
+          >
+            {formatCalendarTitle(view, baseDate, locale)}
+          </h2>
+          <Button
+            variant="outline"
+            size="icon"
+            className="min-h-[44px] min-w-[44px]"
+            onClick={() => handleShift(1)}
+            aria-label={view === CALENDAR_VIEW.WEEK ? t("festivals.nextWeek") : t("festivals.nextMonth")}
+          >
+            <ChevronRight className="h-4 w-4" aria-hidden="true" />
+          </Button>
+          <Button
+            variant="ghost"
+            className="min-h-[44px]"
+            onClick={() => updateFilters({ date: todayKey })}
+          >
+            {t("festivals.today")}
+          </Button>
+        </div>
+
+        <div className="flex gap-2" role="radiogroup" aria-label={t("festivals.viewMode")}>
+          <Button
+            variant={view === CALENDAR_VIEW.MONTH ? "default" : "outline"}
+            className="flex-1 sm:flex-none min-h-[44px]"
+            onClick={() => handleViewChange(CALENDAR_VIEW.MONTH)}
+            role="radio"
+            aria-checked={view === CALENDAR_VIEW.MONTH}
+          >
+            {t("festivals.month")}
+          </Button>
+          <Button
+            variant={view === CALENDAR_VIEW.WEEK ? "default" : "outline"}
+            className="flex-1 sm:flex-none min-h-[44px]"
+            onClick={() => handleViewChange(CALENDAR_VIEW.WEEK)}
+            role="radio"
+            aria-checked={view === CALENDAR_VIEW.WEEK}
+          >
+            {t("festivals.week")}
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3 sm:gap-4">
+        {/* 지역 필터 */}
+        <div className="relative flex-1 min-w-0">
+          <label
+            htmlFor="festival-area-filter"
+            className="block text-sm font-medium mb-2"
+          >
+            {t("filters.area")}
+          </label>
+          <div className="relative">
+            <Button
+              id="festival-area-filter"
+              variant="outline"
+              className="w-full justify-between min-h-[44px]"
+              onClick={() => setIsAreaDropdownOpen(!isAreaDropdownOpen)}
+              aria-expanded={isAreaDropdownOpen}
+              aria-haspopup="listbox"
+            >
+              <span className="truncate">
+                {isLoadingAreas ? t("common.loading") : selectedAreaName}
+              </span>
+              <ChevronDown
+                className={cn(
+                  "h-4 w-4 transition-transform",
+                  isAreaDropdownOpen && "rotate-180",
+                )}
+                aria-hidden="true"
+              />
+            </Button>
+            {isAreaDropdownOpen && (
+              <>
+                <div
+                  className="fixed inset-0 z-10"
+                  onClick={() => setIsAreaDropdownOpen(false)}
+                  aria-hidden="true"
+                />
+                <div
+                  className="absolute z-20 w-full mt-1 bg-background border rounded-md shadow-lg max-h-60 overflow-auto"
+                  role="listbox"
+                >
+                  <button
+                    className={cn(
+                      "w-full text-left px-4 py-2 text-sm hover:bg-accent transition-colors min-h-[44px]",
+                      !currentAreaCode && "bg-accent font-medium",
+                    )}
+                    onClick={() => handleAreaChange("all")}
+                    role="option"
+                    aria-selected={!currentAreaCode}
+                  >
+                    {t("common.all")}
+                  </button>
+                  {areaCodes.map((area) => (
+                    <button
+                      key={area.code}
+                      className={cn(
+                        "w-full text-left px-4 py-2 text-sm hover:bg-accent transition-colors min-h-[44px]",
+                        currentAreaCode === area.code && "bg-accent font-medium",
+                      )}
+                      onClick={() => handleAreaChange(area.code)}
+                      role="option"
+                      aria-selected={currentAreaCode === area.code}
+                    >
+                      {area.name}
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+
+        {/* 진행 상태 필터 */}
+        <div className="flex-[2] min-w-0">
+          <span
+            id="festival-status-filter"
+            className="block text-sm font-medium mb-2"
+          >
+            {t("festivals.status")}
+          </span>
+          <div
+            className="flex gap-2"
+            role="radiogroup"
+            aria-labelledby="festival-status-filter"
+          >
+            {statusOptions.map((option) => (
+              <Button
+                key={option.value || "all"}
+                variant={currentStatus === option.value ? "default" : "outline"}
+                className="flex-1 min-h-[44px]"
+                onClick={() => updateFilters({ status: option.value })}
+                role="radio"
+                aria-checked={currentStatus === option.value}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+/**
+ * @file festival-list.tsx
+ * @description 축제 목록 컴포넌트
+ *
+ * 이 컴포넌트는 캘린더 조회 기간의 축제/행사를 시작일 순 목록으로 표시합니다.
+ * 캘린더 셀에 모두 표시되지 않는 행사를 확인하거나, 모바일에서 행사명을 읽기 쉽게 보여줍니다.
+ *
+ * 주요 기능:
+ * 1. 행사명, 기간, 주소, 진행 상태 배지 표시
+ * 2. 클릭 시 상세페이지(/places/[contentId]) 이동
+ * 3. 빈 상태 처리
+ *
+ * @dependencies
+ * - components/festivals/festival-calendar.tsx: FestivalStatusBadge 컴포넌트
+ * - lib/utils/festival.ts: formatEventPeriod, getFestivalStatus 함수
+ * - lucide-react: CalendarDays, MapPin 아이콘
+ */
+
+import Link from "next/link";
+import { CalendarDays, MapPin } from "lucide-react";
+import { FestivalStatusBadge } from "@/components/festivals/festival-calendar";
+import type { FestivalItem } from "@/lib/types/tour";
+import { localizePath, type Locale } from "@/lib/i18n/locale";
+import { createTranslator } from "@/lib/i18n/messages";
+import { formatEventPeriod, getFestivalStatus } from "@/lib/utils/festival";
+
+interface FestivalListProps {
+  /**
+   * 표시할 행사 목록
+   */
+  festivals: FestivalItem[];
+  /**
+   * 오늘 날짜 (YYYYMMDD, 한국 시간 기준)
+   */
+  todayKey: string;
+  /**
+   * 화면 로케일 (상세페이지 링크 경로)
+   */
+  locale: Locale;
+}
+
+/**
+ * 축제 목록 컴포넌트
+ */
+export function FestivalList({ festivals, todayKey, locale }: FestivalListProps) {
+  const t = createTranslator(locale);
+
+  if (festivals.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-muted-foreground">{t("festivals.empty")}</p>
+      </div>
+    );
+  }
+
+  return (
+    <ul className="divide-y border rounded-lg" aria-label={t("festivals.listLabel")}>
+      {festivals.map((festival) => (
+        <li key={festival.contentid}>
+          <Link
+            href={localizePath(`/places/${festival.contentid}`, locale)}
+            className="flex flex-col gap-1 p-4 hover:bg-accent transition-colors"
+          >
+            <div className="flex items-center gap-2 min-w-0">
+              <FestivalStatusBadge status={getFestivalStatus(festival, todayKey)} locale={locale} />
+              <span className="font-medium truncate">{festival.title}</span>
+            </div>
+            <div className="flex flex-col sm:flex-row sm:gap-4 text-sm text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <CalendarDays className="h-4 w-4 shrink-0" aria-hidden="true" />
+                {formatEventPeriod(festival)}
+              </span>
+              {festival.addr1 && (
+                <span className="flex items-center gap-1 min-w-0">
+                  <MapPin className="h-4 w-4 shrink-0" aria-hidden="true" />
+                  <span className="truncate">{festival.addr1}</span>
+                </span>
+              )}
+            </div>
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,110 @@
+/**
+ * @file infinite-tour-list.tsx
+ * @description 무한 스크롤 관광지 목록 컴포넌트
+ *
+ * 이 컴포넌트는 서버에서 조회한 초기 페이지 뒤에 TourListProvider가 추가로 불러온 항목을 이어 붙여
+ * TourList를 무한 스크롤 모드로 표시합니다.
+ *
+ * 주요 기능:
+ * 1. 초기 페이지 + 추가 페이지 항목 병합 (중복 제거)
+ * 2. 스크롤 하단 도달 시 다음 페이지 조회 (TourList의 useInfiniteScroll 사용)
+ * 3. 추가 조회 실패 시 재시도 버튼 표시
+ *
+ * @dependencies
+ * - components/tour-list.tsx: TourList 컴포넌트
+ * - components/providers/tour-list-provider.tsx: useTourListSafe 훅
+ * - components/ui/button.tsx: Button 컴포넌트
+ */
+
+"use client";
+
+import { useMemo } from "react";
+import { TourList } from "@/components/tour-list";
+import { Button } from "@/components/ui/button";
+import { useTourListSafe } from "@/components/providers/tour-list-provider";
+import { useTranslations } from "@/components/providers/locale-provider";
+import type { TourListResponse } from "@/lib/types/tour";
+
+interface InfiniteTourListProps {
+  /**
+   * 서버에서 조회한 초기 페이지
+   */
+  data: TourListResponse;
+  /**
+   * 초기 페이지의 분류코드 → 분류명 매핑
+   */
+  categoryNames?: Record<string, string>;
+  /**
+   * 카드 변형 (숙박 검색 모드에서는 'stay')
+   */
+  cardVariant?: "default" | "stay";
+}
+
+/**
+ * 무한 스크롤 관광지 목록 컴포넌트
+ */
+export function InfiniteTourList({
+  data,
+  categoryNames,
+  cardVariant,
+}: InfiniteTourListProps) {
+  const t = useTranslations();
+  const tourList = useTourListSafe();
+
+  // 초기 페이지와 추가로 불러온 항목 병합 (useMemo로 최적화)
+  const mergedData = useMemo<TourListResponse>(() => {
+    if (!tourList || tourList.items.length === 0) {
+      return data;
+    }
+
+    const initialIds = new Set(data.items.map((item) => item.contentid));
+    const items = [
+      ...data.items,
+      ...tourList.items.filter((item) => !initialIds.has(item.contentid)),
+    ];
+
+    return {
+      ...data,
+      items,
+      // 더 불러올 항목이 없으면 불러온 개수를 전체 개수로 사용하여 추가 조회 중지
+      totalCount: tourList.isExhausted
+        ? items.length
+        : tourList.totalCount ?? data.totalCount,
+    };
+  }, [data, tourList]);
+
+  const mergedCategoryNames = useMemo(
+    () => ({ ...categoryNames, ...tourList?.categoryNames }),
+    [categoryNames, tourList?.categoryNames]
+  );
+
+  return (
+    <div className="space-y-4">
+      <TourList
+        data={mergedData}
+        categoryNames={mergedCategoryNames}
+        mode="infinite"
+        cardVariant={cardVariant}
+        onLoadMore={tourList?.loadMore}
+        isLoadingMore={tourList?.isLoadingMore}
+        error={tourList?.error}
+      />
+
+      {/* 추가 조회 실패 시 재시도 */}
+      {tourList?.error && (
+        <div className="flex flex-col items-center gap-2 py-4" role="alert">
+          <p className="text-sm text-muted-foreground">
+            {t("tourList.loadMoreFailed")}
+          </p>
+          <Button
+            variant="outline"
+            className="min-h-[44px]"
+            onClick={() => tourList.loadMore()}
+          >
+            {t("common.retry")}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
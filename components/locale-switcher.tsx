@@ -0,0 +1,74 @@
+/**
+ * @file locale-switcher.tsx
+ * @description 언어 선택 링크 목록
+ *
+ * 언어를 선택하면 로케일 쿠키에 저장한 뒤 해당 언어 경로로 이동합니다.
+ * middleware.ts는 접두사 없는 경로에서 쿠키의 로케일을 사용하므로,
+ * 쿠키를 먼저 바꿔야 한국어(접두사 없는 경로)로 돌아올 수 있습니다.
+ *
+ * @dependencies
+ * - next/link: 클라이언트 사이드 네비게이션
+ * - lib/i18n/locale.ts: LOCALE_INFO, serializeLocaleCookie
+ */
+
+"use client";
+
+import Link from "next/link";
+import { Languages } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { LOCALE_INFO, serializeLocaleCookie, type Locale } from "@/lib/i18n/locale";
+
+interface LocaleSwitcherProps {
+  /**
+   * 언어별 이동 경로 (표시 순서대로)
+   */
+  links: { locale: Locale; href: string }[];
+  /**
+   * 현재 로케일 (강조 표시)
+   */
+  current: Locale;
+  /**
+   * 목록 접근성 라벨
+   */
+  label: string;
+  /**
+   * 언어 아이콘 표시 여부
+   * @default true
+   */
+  showIcon?: boolean;
+  className?: string;
+}
+
+export function LocaleSwitcher({
+  links,
+  current,
+  label,
+  showIcon = true,
+  className,
+}: LocaleSwitcherProps) {
+  return (
+    <nav className={cn("flex gap-2 items-center text-xs", className)} aria-label={label}>
+      {showIcon && (
+        <Languages className="h-4 w-4 text-muted-foreground" aria-hidden="true" />
+      )}
+      {links.map(({ locale, href }) => (
+        <Link
+          key={locale}
+          href={href}
+          hrefLang={LOCALE_INFO[locale].htmlLang}
+          aria-current={locale === current ? "true" : undefined}
+          onClick={() => {
+            document.cookie = serializeLocaleCookie(locale);
+          }}
+          className={
+            locale === current
+              ? "font-semibold text-primary"
+              : "text-muted-foreground transition-colors hover:text-primary"
+          }
+        >
+          {LOCALE_INFO[locale].label}
+        </Link>
+      ))}
+    </nav>
+  );
+}
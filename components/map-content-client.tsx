@@ -7,17 +7,28 @@
  * 주요 기능:
  * 1. NaverMap 컴포넌트를 클라이언트 사이드에서 렌더링
  * 2. TourHoverProvider Context를 통해 호버 상태 자동 연동
+ * 3. 현재 위치 버튼과 내 주변 검색 연동
+ * 4. 무한 스크롤로 추가 조회한 관광지까지 마커로 표시 (TourListProvider 연동)
+ * 5. 이 지역 검색 연동 (검색한 범위는 관광지가 없어도 지도로 표시)
  *
  * @dependencies
  * - components/naver-map: NaverMap 컴포넌트
+ * - components/providers/tour-list-provider: useTourListSafe 훅
+ * - hooks/use-nearby-search: useNearbySearch 훅
+ * - hooks/use-area-search: useAreaSearch 훅
  * - lib/types/tour: TourItem 타입
  */
 
 "use client";
 
+import { useMemo } from "react";
 import dynamic from "next/dynamic";
 import type { TourItem } from "@/lib/types/tour";
 import { Skeleton } from "@/components/ui/skeleton";
+import { useNearbySearch } from "@/hooks/use-nearby-search";
+import { useAreaSearch } from "@/hooks/use-area-search";
+import { useTourListSafe } from "@/components/providers/tour-list-provider";
+import { useTranslations } from "@/components/providers/locale-provider";
 
 // Naver Maps는 큰 번들이므로 dynamic import로 lazy loading
 const NaverMap = dynamic(() => import("@/components/naver-map").then((mod) => ({ default: mod.NaverMap })), {
@@ -45,14 +56,40 @@ interface MapContentClientProps {
  * Context를 통해 호버 상태를 자동으로 받아옵니다.
  */
 export function MapContentClient({ tours, areaCode }: MapContentClientProps) {
-  if (!tours || tours.length === 0) {
+  const { center, searchNearby } = useNearbySearch();
+  const { isAreaMode, bounds, searchArea } = useAreaSearch();
+  const tourList = useTourListSafe();
+  const t = useTranslations();
+  const loadedItems = tourList?.items;
+
+  // 초기 페이지와 무한 스크롤로 추가 조회한 관광지 병합 (useMemo로 최적화)
+  // NaverMap은 tours가 바뀌면 지도를 다시 그리므로 항목이 추가될 때만 새 배열 생성
+  const mapTours = useMemo(() => {
+    if (!loadedItems || loadedItems.length === 0) {
+      return tours;
+    }
+    const initialIds = new Set(tours.map((tour) => tour.contentid));
+    return [...tours, ...loadedItems.filter((tour) => !initialIds.has(tour.contentid))];
+  }, [tours, loadedItems]);
+
+  // 이 지역 검색 모드는 관광지가 없어도 지도를 표시 (다른 지역으로 이동해 다시 검색)
+  if (!isAreaMode && (!mapTours || mapTours.length === 0)) {
     return (
       <div className="h-full bg-muted rounded-lg flex items-center justify-center">
-        <p className="text-sm text-muted-foreground">표시할 관광지가 없습니다.</p>
+        <p className="text-sm text-muted-foreground">{t("home.empty")}</p>
       </div>
     );
   }
 
-  return <NaverMap tours={tours} areaCode={areaCode} />;
+  return (
+    <NaverMap
+      tours={mapTours}
+      areaCode={areaCode}
+      currentLocation={center}
+      onLocationFound={searchNearby}
+      viewport={bounds}
+      onSearchArea={searchArea}
+    />
+  );
 }
 
@@ -21,6 +21,7 @@
 import { useState, ReactNode } from "react";
 import { List, Map as MapIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useTranslations } from "@/components/providers/locale-provider";
 
 interface MobileMapTabsProps {
   /**
@@ -44,6 +45,7 @@ export function MobileMapTabs({
   mapContent,
 }: MobileMapTabsProps) {
   const [activeTab, setActiveTab] = useState<TabType>("list");
+  const t = useTranslations();
 
   return (
     <div className="lg:hidden">
@@ -51,7 +53,7 @@ export function MobileMapTabs({
       <div
         className="flex border-b border-border mb-4"
         role="tablist"
-        aria-label="리스트 및 지도 전환"
+        aria-label={t("mobileTabs.label")}
       >
         <button
           type="button"
@@ -72,7 +74,7 @@ export function MobileMapTabs({
           )}
         >
           <List className="w-4 h-4" aria-hidden="true" />
-          <span>리스트</span>
+          <span>{t("mobileTabs.list")}</span>
         </button>
         <button
           type="button"
@@ -93,7 +95,7 @@ export function MobileMapTabs({
           )}
         >
           <MapIcon className="w-4 h-4" aria-hidden="true" />
-          <span>지도</span>
+          <span>{t("mobileTabs.map")}</span>
         </button>
       </div>
 
@@ -6,28 +6,47 @@
  *
  * 주요 기능:
  * 1. Naver Maps API v3 (NCP) 초기화
- * 2. 관광지 마커 표시
- * 3. 좌표 변환 (KATEC → WGS84)
+ * 2. 관광지 마커 표시 (확대 수준에 따라 가까운 마커를 개수 배지로 묶는 클러스터링)
+ * 3. 좌표 변환 (lib/geo, 변환할 수 없는 좌표의 관광지는 마커 생략)
  * 4. 마커 클릭 시 인포윈도우
- * 5. 지도-리스트 연동
+ * 5. 지도-리스트 연동 (호버/선택한 관광지가 속한 클러스터 강조)
  * 6. 지도 컨트롤
+ * 7. 현재 위치 기반 내 주변 검색 연동
+ * 8. 이 지역 검색 버튼 (지도에 보이는 범위로 목록 조회, 공유 링크의 범위 복원)
+ *
+ * 핵심 구현 로직:
+ * - 지도 범위 조정(fitBounds)은 관광지 목록이 바뀔 때만 실행하고,
+ *   마커는 확대 수준(idle 이벤트)과 호버/선택 상태가 바뀔 때마다 다시 그립니다.
+ * - 클러스터를 클릭하면 속한 관광지가 모두 보이도록 확대합니다.
+ * - 이 지역 검색 모드(viewport 제공)에서는 마커 대신 검색한 범위에 맞춰 표시합니다.
+ *   보이는 범위가 위치 기반 조회 최대 반경을 넘으면 검색 버튼을 비활성화하고 확대를 안내합니다.
  *
  * @dependencies
  * - Naver Maps JavaScript API v3 (NCP)
  * - lib/types/tour.ts: TourItem 타입
+ * - lib/geo/coordinates.ts: parseCoordinates (좌표 형식 판별 및 WGS84 변환)
+ * - lib/geo/cluster.ts: clusterByGrid (확대 수준별 마커 클러스터링)
+ * - lib/geo/measure.ts: getBoundsCenter, getBoundsRadius (이 지역 검색 범위)
+ * - lib/utils/distance.ts: MAX_LOCATION_RADIUS
  *
  * @see {@link /docs/PRD.MD} - 네이버 지도 연동 요구사항 참고
  */
 
 "use client";
 
-import { useEffect, useRef, useState } from "react";
-import { Map, Satellite, Navigation } from "lucide-react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Map, Satellite, Navigation, Search } from "lucide-react";
 import type { TourItem } from "@/lib/types/tour";
 import { CONTENT_TYPE } from "@/lib/types/tour";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/components/providers/toast-provider";
 import { useTourHoverSafe } from "@/components/providers/tour-hover-provider";
+import { useLocalizePath, useTranslations } from "@/components/providers/locale-provider";
+import type { MessageKey } from "@/lib/i18n/messages";
+import { parseCoordinates, type GeoBounds, type LatLng } from "@/lib/geo/coordinates";
+import { clusterByGrid, type Cluster } from "@/lib/geo/cluster";
+import { getBoundsCenter, getBoundsRadius } from "@/lib/geo/measure";
+import { MAX_LOCATION_RADIUS } from "@/lib/utils/distance";
 
 interface NaverMapProps {
   /**
@@ -50,126 +69,32 @@ interface NaverMapProps {
    * 지역 코드 (선택된 지역의 중심 좌표를 초기 중심으로 사용)
    */
   areaCode?: string;
+  /**
+   * 현재 위치 (내 주변 모드의 기준 좌표, WGS84)
+   * 제공 시 현재 위치 마커를 표시합니다.
+   */
+  currentLocation?: { lat: number; lng: number } | null;
+  /**
+   * 현재 위치 버튼으로 위치를 찾았을 때 호출되는 핸들러
+   * 내 주변 관광지 목록 조회에 사용합니다.
+   */
+  onLocationFound?: (coords: { lat: number; lng: number }) => void;
+  /**
+   * 검색한 지도 범위 (이 지역 검색 모드, URL bounds 파라미터)
+   * 제공 시 관광지 마커 대신 이 범위에 맞춰 지도를 표시합니다.
+   */
+  viewport?: GeoBounds | null;
+  /**
+   * 이 지역 검색 버튼 클릭 핸들러 (지도에 보이는 범위 전달)
+   * 제공 시 이 지역 검색 버튼을 표시합니다.
+   */
+  onSearchArea?: (bounds: GeoBounds) => void;
   /**
    * 추가 클래스명
    */
   className?: string;
 }
 
-/**
- * KATEC 좌표를 WGS84로 변환
- * 한국관광공사 API의 mapx, mapy는 KATEC 좌표계 정수형입니다.
- * 예: mapx = "1271234567" (경도), mapy = "371234567" (위도)
- * 이를 WGS84로 변환하려면 10000000으로 나눕니다.
- *
- * @param mapx KATEC 경도 (문자열 또는 숫자)
- * @param mapy KATEC 위도 (문자열 또는 숫자)
- * @returns WGS84 좌표 {lng, lat}
- */
-function convertKATECToWGS84(
-  mapx: string | number | undefined | null,
-  mapy: string | number | undefined | null,
-): { lng: number; lat: number } {
-  // undefined, null, 빈 문자열 체크
-  if (mapx == null || mapy == null || mapx === "" || mapy === "") {
-    console.error("❌ 좌표 변환 실패: 좌표 값이 없음", {
-      mapx: String(mapx),
-      mapy: String(mapy),
-      mapxType: typeof mapx,
-      mapyType: typeof mapy,
-    });
-    // 기본값: 서울 좌표
-    return { lng: 126.978, lat: 37.5665 };
-  }
-
-  const x = typeof mapx === "string" ? parseFloat(mapx) : mapx;
-  const y = typeof mapy === "string" ? parseFloat(mapy) : mapy;
-
-  // NaN 체크
-  if (isNaN(x) || isNaN(y)) {
-    console.error("❌ 좌표 변환 실패: NaN 값", {
-      mapx: String(mapx),
-      mapy: String(mapy),
-      x: String(x),
-      y: String(y),
-      mapxType: typeof mapx,
-      mapyType: typeof mapy,
-    });
-    // 기본값: 서울 좌표
-    return { lng: 126.978, lat: 37.5665 };
-  }
-
-  // 한국관광공사 API의 KATEC 좌표는 항상 10000000으로 나눠야 합니다.
-  // 한국 좌표 범위: 경도 124~132, 위도 33~43
-  const KOREA_LNG_MIN = 124;
-  const KOREA_LNG_MAX = 132;
-  const KOREA_LAT_MIN = 33;
-  const KOREA_LAT_MAX = 43;
-
-  // 먼저 KATEC 좌표로 변환 시도
-  const convertedLng = x / 10000000;
-  const convertedLat = y / 10000000;
-
-  // 변환된 값이 한국 범위 내인지 확인
-  const isConvertedInKoreaRange =
-    convertedLng >= KOREA_LNG_MIN &&
-    convertedLng <= KOREA_LNG_MAX &&
-    convertedLat >= KOREA_LAT_MIN &&
-    convertedLat <= KOREA_LAT_MAX;
-
-  // 원본 값이 한국 범위 내인지 확인 (이미 WGS84일 가능성)
-  const isOriginalInKoreaRange =
-    x >= KOREA_LNG_MIN &&
-    x <= KOREA_LNG_MAX &&
-    y >= KOREA_LAT_MIN &&
-    y <= KOREA_LAT_MAX;
-
-  // 변환된 값이 한국 범위 내이면 변환된 값 사용
-  if (isConvertedInKoreaRange) {
-    return {
-      lng: convertedLng,
-      lat: convertedLat,
-    };
-  }
-
-  // 원본 값이 한국 범위 내이면 원본 값 사용 (이미 WGS84)
-  if (isOriginalInKoreaRange) {
-    // 개발 환경에서만 디버그 로그 출력 (첫 번째 작은 값 케이스만)
-    if (process.env.NODE_ENV === "development") {
-      const hasLoggedSmall = (window as any).__hasLoggedSmallCoords;
-      if (!hasLoggedSmall) {
-        console.log(
-          "📍 좌표 값이 작습니다. 이미 WGS84일 수 있습니다 (이 메시지는 한 번만 표시됩니다):",
-          {
-            x,
-            y,
-            mapx: String(mapx),
-            mapy: String(mapy),
-          },
-        );
-        (window as any).__hasLoggedSmallCoords = true;
-      }
-    }
-    return {
-      lng: x,
-      lat: y,
-    };
-  }
-
-  // 둘 다 한국 범위를 벗어나면 기본값 사용
-  console.error("❌ 좌표 변환 실패: 한국 범위를 벗어난 값", {
-    mapx: String(mapx),
-    mapy: String(mapy),
-    x,
-    y,
-    convertedLng,
-    convertedLat,
-    isConvertedInKoreaRange,
-    isOriginalInKoreaRange,
-  });
-  return { lng: 126.978, lat: 37.5665 };
-}
-
 /**
  * 관광 타입별 마커 색상 매핑
  * PRD 요구사항: 관광 타입별로 구분 (선택 사항)
@@ -210,6 +135,79 @@ const REGION_CENTER_COORDS: Record<string, { lat: number; lng: number }> = {
   "39": { lat: 33.4996, lng: 126.5312 }, // 제주
 };
 
+/**
+ * 기본 중심 좌표 (서울)
+ */
+const DEFAULT_CENTER = REGION_CENTER_COORDS["1"];
+
+/**
+ * 클러스터링 옵션 (60px 격자, 확대 수준 14까지)
+ * 선택한 관광지는 확대 수준 15로 이동하므로 항상 개별 마커로 표시됩니다.
+ */
+const CLUSTER_OPTIONS = { gridSize: 60, maxZoom: 14 };
+
+interface TourPosition {
+  tour: TourItem;
+  position: LatLng;
+}
+
+/**
+ * 관광지 목록 → 마커 위치 목록
+ * 좌표를 변환할 수 없는 관광지는 원인을 경고로 남기고 제외합니다.
+ */
+function getTourPositions(tours: TourItem[]): TourPosition[] {
+  return tours.flatMap((tour) => {
+    const result = parseCoordinates(tour.mapx, tour.mapy);
+    if (result.success === false) {
+      console.warn(
+        `⚠️ 관광지 좌표를 변환할 수 없어 마커를 생성하지 않습니다: ${tour.title} (${tour.contentid}) - ${result.message}`,
+        { mapx: tour.mapx, mapy: tour.mapy },
+      );
+      return [];
+    }
+    return [{ tour, position: result.data }];
+  });
+}
+
+/**
+ * 지도에 보이는 범위 (WGS84)
+ */
+function getVisibleBounds(map: any): GeoBounds {
+  const bounds = map.getBounds();
+  const sw = bounds.getSW();
+  const ne = bounds.getNE();
+  return { south: sw.lat(), west: sw.lng(), north: ne.lat(), east: ne.lng() };
+}
+
+/**
+ * 클러스터 마커 HTML (개수 배지)
+ * 개수에 따라 크기를 키웁니다.
+ */
+function getClusterMarkerIcon(count: number, color: string) {
+  const size = count < 10 ? 36 : count < 100 ? 44 : 52;
+  return {
+    content: `
+      <div style="
+        background-color: ${color};
+        width: ${size}px;
+        height: ${size}px;
+        border-radius: 50%;
+        border: 3px solid white;
+        box-shadow: 0 2px 6px rgba(0,0,0,0.35);
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        color: white;
+        font-size: 13px;
+        font-weight: 700;
+        cursor: pointer;
+        transition: background-color 0.2s ease;
+      ">${count}</div>
+    `,
+    anchor: new window.naver!.maps.Point(size / 2, size / 2),
+  };
+}
+
 /**
  * 네이버 지도 컴포넌트
  */
@@ -219,6 +217,10 @@ export function NaverMap({
   hoveredTourId: propHoveredTourId,
   onTourClick,
   areaCode,
+  currentLocation,
+  onLocationFound,
+  viewport,
+  onSearchArea,
   className,
 }: NaverMapProps) {
   const mapRef = useRef<HTMLDivElement>(null);
@@ -226,11 +228,17 @@ export function NaverMap({
   const markersRef = useRef<any[]>([]);
   const infoWindowsRef = useRef<any[]>([]);
   const currentLocationMarkerRef = useRef<any>(null);
+  const fittedTourIdRef = useRef<string | null>(null);
+  const centeredTourIdRef = useRef<string | null>(null);
   const [isMapLoaded, setIsMapLoaded] = useState(false);
-  const [mapError, setMapError] = useState<string | null>(null);
+  const [mapError, setMapError] = useState<MessageKey | null>(null);
   const [mapTypeId, setMapTypeId] = useState<"normal" | "satellite">("normal");
   const [isGettingLocation, setIsGettingLocation] = useState(false);
+  const [zoom, setZoom] = useState<number | null>(null);
+  const [visibleBounds, setVisibleBounds] = useState<GeoBounds | null>(null);
   const toast = useToast();
+  const t = useTranslations();
+  const localize = useLocalizePath();
 
   // Context에서 호버 상태 가져오기 (있는 경우)
   // useTourHoverSafe는 Context가 없어도 에러를 던지지 않으므로
@@ -241,6 +249,9 @@ export function NaverMap({
   // prop 또는 context에서 호버 상태 가져오기
   const hoveredTourId = propHoveredTourId ?? contextHoveredTourId;
 
+  // 마커 위치 (좌표를 변환할 수 있는 관광지만)
+  const tourPositions = useMemo(() => getTourPositions(tours), [tours]);
+
   // 네이버 지도 API 로드
   useEffect(() => {
     const scriptId = "naver-maps-script";
@@ -271,9 +282,7 @@ export function NaverMap({
         "   2. NEXT_PUBLIC_NAVER_MAP_CLIENT_ID=your_naver_map_client_id 추가",
       );
       console.error("   3. 개발 서버를 재시작하세요 (pnpm dev)");
-      setMapError(
-        "네이버 지도 API 키가 설정되지 않았습니다. .env.local 파일에 NEXT_PUBLIC_NAVER_MAP_CLIENT_ID를 설정해주세요.",
-      );
+      setMapError("map.missingKey");
       return;
     }
 
@@ -307,9 +316,7 @@ export function NaverMap({
         console.error(
           "   3. API 키의 도메인 설정이 올바르지 않습니다 (localhost 포함 필요).",
         );
-        setMapError(
-          "네이버 지도 API를 로드할 수 없습니다. API 키와 도메인 설정을 확인해주세요.",
-        );
+        setMapError("map.loadFailed");
       }
     };
 
@@ -321,9 +328,7 @@ export function NaverMap({
       console.error(
         "   3. 네이버 클라우드 플랫폼에서 API가 활성화되지 않았습니다.",
       );
-      setMapError(
-        "네이버 지도 API 스크립트를 로드하는 중 오류가 발생했습니다. API 키와 네트워크 연결을 확인해주세요.",
-      );
+      setMapError("map.scriptError");
     };
 
     document.head.appendChild(script);
@@ -333,13 +338,13 @@ export function NaverMap({
     };
   }, []);
 
-  // 지도 초기화
+  // 지도 초기화 (한 번만 생성, 이후 목록 변경은 마커 effect에서 반영)
   useEffect(() => {
     console.log("🗺️ 지도 초기화 시도:", {
       isMapLoaded,
       hasMapRef: !!mapRef.current,
       hasNaverMaps: !!window.naver?.maps,
-      toursCount: tours.length,
+      toursCount: tourPositions.length,
     });
 
     // 초기화 조건 체크
@@ -348,6 +353,11 @@ export function NaverMap({
       return;
     }
 
+    if (mapInstanceRef.current) {
+      // 이미 생성된 지도는 다시 만들지 않음 (무한 스크롤로 목록이 늘어나도 이동/확대 상태 유지)
+      return;
+    }
+
     if (!mapRef.current) {
       // API는 로드되었지만 DOM이 아직 마운트되지 않은 경우
       console.log(
@@ -366,52 +376,23 @@ export function NaverMap({
     }
 
     try {
-      console.log("🗺️ 지도 초기화 시작, 관광지 개수:", tours.length);
-
-      // 초기 중심 좌표 결정 (우선순위: 선택된 지역 > 첫 번째 관광지 > 서울)
-      let center: any;
-
-      // 1. 선택된 지역의 중심 좌표 사용
-      if (areaCode && REGION_CENTER_COORDS[areaCode]) {
-        const regionCenter = REGION_CENTER_COORDS[areaCode];
-        center = new window.naver.maps.LatLng(
-          regionCenter.lat,
-          regionCenter.lng,
-        );
-        console.log("선택된 지역 중심 좌표로 설정:", areaCode, regionCenter);
-      }
-      // 2. 관광지가 있으면 첫 번째 유효한 관광지 위치를 중심으로 설정
-      else if (tours.length > 0) {
-        // 유효한 좌표를 가진 첫 번째 관광지 찾기
-        const firstValidTour = tours.find(
-          (tour) =>
-            tour.mapx && tour.mapy && tour.mapx !== "" && tour.mapy !== "",
-        );
-
-        if (firstValidTour) {
-          const coords = convertKATECToWGS84(
-            firstValidTour.mapx,
-            firstValidTour.mapy,
-          );
-          center = new window.naver.maps.LatLng(coords.lat, coords.lng);
-        } else {
-          // 유효한 좌표를 가진 관광지가 없으면 기본값 사용
-          center = new window.naver.maps.LatLng(37.5665, 126.978);
-          console.log(
-            "유효한 좌표를 가진 관광지가 없어 기본 중심 좌표 사용 (서울)",
-          );
-        }
-      }
-      // 3. 기본값: 서울
-      else {
-        center = new window.naver.maps.LatLng(37.5665, 126.978);
-        console.log("기본 중심 좌표 사용 (서울)");
-      }
+      console.log("🗺️ 지도 초기화 시작, 관광지 개수:", tourPositions.length);
+
+      // 초기 중심 좌표 결정 (우선순위: 검색한 범위 > 선택된 지역 > 첫 번째 관광지 > 서울)
+      const initialCenter =
+        (viewport && getBoundsCenter(viewport)) ||
+        (areaCode && REGION_CENTER_COORDS[areaCode]) ||
+        tourPositions[0]?.position ||
+        DEFAULT_CENTER;
+      const center = new window.naver.maps.LatLng(
+        initialCenter.lat,
+        initialCenter.lng,
+      );
 
       // 지도 생성
       const map = new window.naver.maps.Map(mapRef.current, {
         center,
-        zoom: tours.length > 0 ? 12 : 10,
+        zoom: tourPositions.length > 0 ? 12 : 10,
         zoomControl: true,
         zoomControlOptions: {
           position: window.naver.maps.Position.TOP_RIGHT,
@@ -420,22 +401,72 @@ export function NaverMap({
       });
 
       mapInstanceRef.current = map;
+      setZoom(map.getZoom());
+      setVisibleBounds(getVisibleBounds(map));
+
+      // 확대/이동이 끝나면 확대 수준(클러스터 다시 계산)과 보이는 범위(이 지역 검색) 갱신
+      window.naver.maps.Event.addListener(map, "idle", () => {
+        setZoom(map.getZoom());
+        setVisibleBounds(getVisibleBounds(map));
+      });
       console.log("지도 초기화 완료");
     } catch (error) {
       console.error("지도 초기화 실패:", error);
-      setMapError(
-        `지도를 초기화할 수 없습니다: ${
-          error instanceof Error ? error.message : String(error)
-        }`,
-      );
+      setMapError("map.initFailed");
+    }
+  }, [isMapLoaded, areaCode, tourPositions, viewport]);
+
+  // 검색한 범위가 바뀌면 지도 범위 조정
+  useEffect(() => {
+    if (!isMapLoaded || !mapInstanceRef.current || !window.naver?.maps) return;
+    if (!viewport) return;
+
+    const bounds = new window.naver.maps.LatLngBounds();
+    bounds.extend(new window.naver.maps.LatLng(viewport.south, viewport.west));
+    bounds.extend(new window.naver.maps.LatLng(viewport.north, viewport.east));
+    mapInstanceRef.current.fitBounds(bounds);
+  }, [isMapLoaded, viewport]);
+
+  // 관광지 목록이 새로 바뀌면 모든 마커가 보이도록 지도 범위 조정
+  // 첫 관광지가 같으면 무한 스크롤로 뒤에 추가된 것이므로 사용자의 이동/확대 상태를 유지합니다.
+  useEffect(() => {
+    if (!isMapLoaded || !mapInstanceRef.current || !window.naver?.maps) return;
+    if (viewport) return;
+
+    const firstTourId = tourPositions[0]?.tour.contentid ?? null;
+    if (!firstTourId || firstTourId === fittedTourIdRef.current) return;
+    fittedTourIdRef.current = firstTourId;
+
+    const bounds = new window.naver.maps.LatLngBounds();
+    tourPositions.forEach(({ position }) => {
+      bounds.extend(new window.naver.maps.LatLng(position.lat, position.lng));
+    });
+    mapInstanceRef.current.fitBounds(bounds, { padding: 50 });
+  }, [isMapLoaded, tourPositions, viewport]);
+
+  // 선택된 관광지로 이동 (목록이 추가로 늘어날 때는 다시 이동하지 않음)
+  useEffect(() => {
+    if (!isMapLoaded || !mapInstanceRef.current || !window.naver?.maps) return;
+
+    const selected = tourPositions.find(({ tour }) => tour.contentid === selectedTourId);
+    if (!selected) {
+      centeredTourIdRef.current = null;
+      return;
     }
-  }, [isMapLoaded, tours]);
+    if (selected.tour.contentid === centeredTourIdRef.current) return;
+    centeredTourIdRef.current = selected.tour.contentid;
 
-  // 마커 표시
+    const map = mapInstanceRef.current;
+    map.setCenter(new window.naver.maps.LatLng(selected.position.lat, selected.position.lng));
+    map.setZoom(15);
+  }, [isMapLoaded, tourPositions, selectedTourId]);
+
+  // 마커 표시 (확대 수준별 클러스터링)
   useEffect(() => {
     if (!isMapLoaded || !mapInstanceRef.current || !window.naver?.maps) return;
 
     const map = mapInstanceRef.current;
+    const clusters = clusterByGrid(tourPositions, zoom ?? map.getZoom(), CLUSTER_OPTIONS);
 
     // 기존 마커 및 인포윈도우 제거
     markersRef.current.forEach((marker) => marker.setMap(null));
@@ -443,19 +474,49 @@ export function NaverMap({
     markersRef.current = [];
     infoWindowsRef.current = [];
 
-    // 새 마커 생성
-    tours.forEach((tour) => {
-      try {
-        // 좌표 유효성 검사
-        if (!tour.mapx || !tour.mapy || tour.mapx === "" || tour.mapy === "") {
-          console.warn(
-            `⚠️ 관광지 좌표가 없어 마커를 생성하지 않습니다: ${tour.title} (${tour.contentid})`,
-          );
-          return;
-        }
+    // 클러스터 마커 생성 (개수 배지, 클릭 시 속한 관광지가 모두 보이도록 확대)
+    const addClusterMarker = (cluster: Cluster<TourPosition>) => {
+      const hasTour = (tourId?: string | null) =>
+        !!tourId && cluster.items.some(({ tour }) => tour.contentid === tourId);
+
+      // 배지 색상 결정 (우선순위: 선택 > 호버 > 기본)
+      let clusterColor = "#1f2937"; // 기본: 진회색
+      if (hasTour(selectedTourId)) {
+        clusterColor = "#3b82f6"; // 선택: 파란색
+      } else if (hasTour(hoveredTourId)) {
+        clusterColor = "#eab308"; // 호버: 노란색
+      }
+
+      const count = cluster.items.length;
+      const marker = new window.naver.maps.Marker({
+        position: new window.naver.maps.LatLng(cluster.center.lat, cluster.center.lng),
+        map,
+        title: t("map.clusterLabel", { count }),
+        icon: getClusterMarkerIcon(count, clusterColor),
+      });
+
+      window.naver.maps.Event.addListener(marker, "click", () => {
+        infoWindowsRef.current.forEach((iw) => iw.close());
+
+        const { south, west, north, east } = cluster.bounds;
+        const bounds = new window.naver.maps.LatLngBounds();
+        bounds.extend(new window.naver.maps.LatLng(south, west));
+        bounds.extend(new window.naver.maps.LatLng(north, east));
+        map.fitBounds(bounds, { padding: 50 });
+      });
 
-        const coords = convertKATECToWGS84(tour.mapx, tour.mapy);
+      markersRef.current.push(marker);
+    };
 
+    // 새 마커 생성
+    clusters.forEach((cluster) => {
+      if (cluster.items.length > 1) {
+        addClusterMarker(cluster);
+        return;
+      }
+
+      const [{ tour, position: coords }] = cluster.items;
+      try {
         const position = new window.naver.maps.LatLng(coords.lat, coords.lng);
 
         // 마커 색상 결정 (우선순위: 선택 > 호버 > 타입별 > 기본)
@@ -525,7 +586,7 @@ export function NaverMap({
                 margin-bottom: 12px;
                 line-height: 1.4;
               ">${tour.addr1 || ""}</p>
-              <a href="/places/${tour.contentid}" style="
+              <a href="${localize(`/places/${tour.contentid}`)}" style="
                 display: inline-block;
                 padding: 6px 12px;
                 background-color: #3b82f6;
@@ -534,7 +595,7 @@ export function NaverMap({
                 border-radius: 4px;
                 font-size: 12px;
                 font-weight: 500;
-              ">상세보기</a>
+              ">${t("map.detail")}</a>
             </div>
           `,
         });
@@ -559,44 +620,12 @@ export function NaverMap({
         // 선택된 관광지인 경우 인포윈도우 자동 열기
         if (selectedTourId === tour.contentid) {
           infoWindow.open(map, marker);
-          map.setCenter(position);
-          map.setZoom(15);
         }
       } catch (error) {
         console.error(`마커 생성 실패 (${tour.contentid}):`, error);
       }
     });
-
-    // 관광지가 있으면 지도 범위 조정
-    if (tours.length > 0) {
-      const bounds = new window.naver.maps.LatLngBounds();
-      let hasValidBounds = false;
-
-      tours.forEach((tour) => {
-        try {
-          // 좌표 유효성 검사
-          if (
-            !tour.mapx ||
-            !tour.mapy ||
-            tour.mapx === "" ||
-            tour.mapy === ""
-          ) {
-            return; // 좌표가 없으면 건너뛰기
-          }
-
-          const coords = convertKATECToWGS84(tour.mapx, tour.mapy);
-          bounds.extend(new window.naver.maps.LatLng(coords.lat, coords.lng));
-          hasValidBounds = true;
-        } catch (error) {
-          console.error(`좌표 변환 실패 (${tour.contentid}):`, error);
-        }
-      });
-
-      if (hasValidBounds) {
-        map.fitBounds(bounds, { padding: 50 });
-      }
-    }
-  }, [isMapLoaded, tours, selectedTourId, hoveredTourId, onTourClick]);
+  }, [isMapLoaded, tourPositions, zoom, selectedTourId, hoveredTourId, onTourClick, localize, t]);
 
   // 지도 유형 변경
   useEffect(() => {
@@ -620,21 +649,73 @@ export function NaverMap({
     setMapTypeId((prev) => (prev === "normal" ? "satellite" : "normal"));
   };
 
+  // 이 지역 검색: 보이는 범위가 위치 기반 조회 최대 반경 안에 들어올 때만 검색 가능
+  const canSearchArea =
+    visibleBounds !== null && getBoundsRadius(visibleBounds) <= MAX_LOCATION_RADIUS;
+
+  const handleSearchArea = () => {
+    if (!onSearchArea || !visibleBounds || !canSearchArea) return;
+    onSearchArea(visibleBounds);
+  };
+
+  // 현재 위치 마커 표시 (기존 마커는 제거)
+  const showCurrentLocationMarker = useCallback((map: any, location: any) => {
+    if (currentLocationMarkerRef.current) {
+      currentLocationMarkerRef.current.setMap(null);
+    }
+
+    // 현재 위치 마커 생성 (초록색)
+    currentLocationMarkerRef.current = new window.naver!.maps.Marker({
+      position: location,
+      map,
+      icon: {
+        content: `
+          <div style="
+            background-color: #22c55e;
+            width: 32px;
+            height: 32px;
+            border-radius: 50%;
+            border: 3px solid white;
+            box-shadow: 0 2px 8px rgba(0,0,0,0.4);
+            display: flex;
+            align-items: center;
+            justify-content: center;
+          ">
+            <div style="
+              width: 12px;
+              height: 12px;
+              background-color: white;
+              border-radius: 50%;
+            "></div>
+          </div>
+        `,
+        anchor: new window.naver!.maps.Point(16, 16),
+      },
+      title: t("map.currentLocation"),
+    });
+  }, [t]);
+
+  // 내 주변 모드: 기준 좌표에 현재 위치 마커 표시
+  // 좌표 값이 바뀔 때만 다시 표시하도록 객체 대신 위도/경도를 의존성으로 사용합니다.
+  const currentLat = currentLocation?.lat;
+  const currentLng = currentLocation?.lng;
+  useEffect(() => {
+    if (!isMapLoaded || !mapInstanceRef.current || !window.naver?.maps) return;
+    if (currentLat === undefined || currentLng === undefined) return;
+
+    const location = new window.naver.maps.LatLng(currentLat, currentLng);
+    showCurrentLocationMarker(mapInstanceRef.current, location);
+  }, [isMapLoaded, currentLat, currentLng, showCurrentLocationMarker]);
+
   // 현재 위치 가져오기 핸들러
   const handleGetCurrentLocation = () => {
     if (!isMapLoaded || !mapInstanceRef.current || !window.naver?.maps) {
-      toast.error(
-        "지도가 아직 로드되지 않았습니다.",
-        "지도를 불러올 수 없습니다",
-      );
+      toast.error(t("location.mapNotReadyMessage"), t("location.mapNotReadyTitle"));
       return;
     }
 
     if (!navigator.geolocation) {
-      toast.error(
-        "이 브라우저는 위치 정보 기능을 지원하지 않습니다.",
-        "위치 정보를 사용할 수 없습니다",
-      );
+      toast.error(t("location.unsupportedMessage"), t("location.unsupportedTitle"));
       return;
     }
 
@@ -651,65 +732,35 @@ export function NaverMap({
         map.setCenter(location);
         map.setZoom(15);
 
-        // 기존 현재 위치 마커 제거
-        if (currentLocationMarkerRef.current) {
-          currentLocationMarkerRef.current.setMap(null);
-        }
-
-        // 현재 위치 마커 생성 (초록색)
-        const marker = new window.naver.maps.Marker({
-          position: location,
-          map,
-          icon: {
-            content: `
-              <div style="
-                background-color: #22c55e;
-                width: 32px;
-                height: 32px;
-                border-radius: 50%;
-                border: 3px solid white;
-                box-shadow: 0 2px 8px rgba(0,0,0,0.4);
-                display: flex;
-                align-items: center;
-                justify-content: center;
-              ">
-                <div style="
-                  width: 12px;
-                  height: 12px;
-                  background-color: white;
-                  border-radius: 50%;
-                "></div>
-              </div>
-            `,
-            anchor: new window.naver.maps.Point(16, 16),
-          },
-          title: "현재 위치",
-        });
+        // 현재 위치 마커 표시
+        showCurrentLocationMarker(map, location);
 
-        currentLocationMarkerRef.current = marker;
+        // 내 주변 관광지 목록 조회 (연동된 경우)
+        if (onLocationFound) {
+          onLocationFound({ lat: latitude, lng: longitude });
+          toast.success(t("location.movedNearby"), t("location.movedTitle"));
+          return;
+        }
 
-        toast.success(
-          "지도가 현재 위치로 이동했습니다.",
-          "현재 위치로 이동했습니다",
-        );
+        toast.success(t("location.movedMap"), t("location.movedTitle"));
       },
       (error) => {
         setIsGettingLocation(false);
-        let errorMessage = "위치 정보를 가져올 수 없습니다.";
+        let errorKey: MessageKey = "location.unknown";
 
         switch (error.code) {
           case error.PERMISSION_DENIED:
-            errorMessage = "위치 정보 사용 권한이 거부되었습니다.";
+            errorKey = "location.permissionDenied";
             break;
           case error.POSITION_UNAVAILABLE:
-            errorMessage = "위치 정보를 사용할 수 없습니다.";
+            errorKey = "location.unavailable";
             break;
           case error.TIMEOUT:
-            errorMessage = "위치 정보 요청 시간이 초과되었습니다.";
+            errorKey = "location.timeout";
             break;
         }
 
-        toast.error(errorMessage, "위치 정보 오류");
+        toast.error(t(errorKey), t("location.errorTitle"));
       },
       {
         enableHighAccuracy: true,
@@ -727,7 +778,7 @@ export function NaverMap({
           className,
         )}
       >
-        <p className="text-sm text-muted-foreground">{mapError}</p>
+        <p className="text-sm text-muted-foreground">{t(mapError)}</p>
       </div>
     );
   }
@@ -740,7 +791,7 @@ export function NaverMap({
           className,
         )}
       >
-        <p className="text-sm text-muted-foreground">지도를 불러오는 중...</p>
+        <p className="text-sm text-muted-foreground">{t("map.loading")}</p>
       </div>
     );
   }
@@ -752,12 +803,35 @@ export function NaverMap({
         className,
       )}
     >
-      <div ref={mapRef} className="w-full h-full" aria-label="네이버 지도" />
+      <div ref={mapRef} className="w-full h-full" aria-label={t("map.naverMap")} />
+      {/* 이 지역 검색 버튼 */}
+      {onSearchArea && (
+        <button
+          type="button"
+          onClick={handleSearchArea}
+          disabled={!canSearchArea}
+          className={cn(
+            "absolute top-2 left-1/2 -translate-x-1/2 z-10",
+            "flex items-center gap-1.5 h-9 px-4",
+            "bg-background/90 backdrop-blur-sm",
+            "border border-border rounded-full",
+            "shadow-md",
+            "text-sm font-medium text-foreground whitespace-nowrap",
+            "hover:bg-accent hover:text-accent-foreground",
+            "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2",
+            "transition-colors duration-200",
+            "disabled:opacity-70 disabled:cursor-not-allowed",
+          )}
+        >
+          <Search className="w-4 h-4" aria-hidden="true" />
+          {canSearchArea ? t("map.searchArea") : t("map.zoomInToSearchArea")}
+        </button>
+      )}
       {/* 지도 컨트롤 버튼 그룹 */}
       <div
         className="absolute top-2 right-2 flex flex-col gap-2 z-10"
         role="group"
-        aria-label="지도 컨트롤"
+        aria-label={t("map.controls")}
       >
         {/* 지도 유형 선택 버튼 */}
         <button
@@ -775,10 +849,10 @@ export function NaverMap({
             "text-foreground",
           )}
           aria-label={
-            mapTypeId === "normal" ? "스카이뷰로 전환" : "일반 지도로 전환"
+            mapTypeId === "normal" ? t("map.toSatellite") : t("map.toNormal")
           }
           title={
-            mapTypeId === "normal" ? "스카이뷰로 전환" : "일반 지도로 전환"
+            mapTypeId === "normal" ? t("map.toSatellite") : t("map.toNormal")
           }
         >
           {mapTypeId === "normal" ? (
@@ -804,8 +878,8 @@ export function NaverMap({
             "text-foreground",
             "disabled:opacity-50 disabled:cursor-not-allowed",
           )}
-          aria-label="현재 위치로 이동"
-          title="현재 위치로 이동"
+          aria-label={t("map.moveToCurrentLocation")}
+          title={t("map.moveToCurrentLocation")}
         >
           {isGettingLocation ? (
             <div
@@ -831,6 +905,7 @@ declare global {
         LatLngBounds: new () => any;
         Marker: new (options: any) => any;
         InfoWindow: new (options: any) => any;
+        Polyline: new (options: any) => any;
         Point: new (x: number, y: number) => any;
         Position: {
           TOP_RIGHT: any;
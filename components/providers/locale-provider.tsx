@@ -0,0 +1,56 @@
+/**
+ * @file locale-provider.tsx
+ * @description 화면 로케일 Provider
+ *
+ * 이 Provider는 서버에서 확인한 로케일(lib/i18n/server.ts)을 Client Component에 전달합니다.
+ * 로케일 접두사 경로는 middleware.ts에서 rewrite되므로 클라이언트는 경로 대신 이 값을 사용하여
+ * 링크와 라우터 이동 경로에 로케일 접두사를 붙이고, 화면 문구를 번역합니다.
+ *
+ * @dependencies
+ * - React Context API
+ * - lib/i18n/locale.ts: Locale, localizePath
+ * - lib/i18n/messages.ts: createTranslator
+ */
+
+"use client";
+
+import * as React from "react";
+import { DEFAULT_LOCALE, localizePath, type Locale } from "@/lib/i18n/locale";
+import { createTranslator } from "@/lib/i18n/messages";
+
+const LocaleContext = React.createContext<Locale>(DEFAULT_LOCALE);
+
+/**
+ * 현재 화면 로케일 (Provider가 없으면 한국어)
+ */
+export function useLocale() {
+  return React.useContext(LocaleContext);
+}
+
+/**
+ * 현재 로케일의 경로 생성 함수
+ * @example const localize = useLocalizePath(); router.push(localize(`/?${query}`));
+ */
+export function useLocalizePath() {
+  const locale = useLocale();
+  return React.useCallback((path: string) => localizePath(path, locale), [locale]);
+}
+
+/**
+ * 현재 로케일의 번역 함수
+ * @example const t = useTranslations(); toast.error(t("location.unknown"), t("location.errorTitle"));
+ */
+export function useTranslations() {
+  const locale = useLocale();
+  return React.useMemo(() => createTranslator(locale), [locale]);
+}
+
+export function LocaleProvider({
+  locale,
+  children,
+}: {
+  locale: Locale;
+  children: React.ReactNode;
+}) {
+  return <LocaleContext.Provider value={locale}>{children}</LocaleContext.Provider>;
+}
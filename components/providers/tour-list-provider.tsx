@@ -0,0 +1,263 @@
+/**
+ * @file tour-list-provider.tsx
+ * @description 무한 스크롤 목록 상태 관리 Provider
+ *
+ * 이 Provider는 무한 스크롤 모드에서 클라이언트가 추가로 불러온 페이지를
+ * TourList와 NaverMap이 함께 사용할 수 있도록 공유합니다.
+ *
+ * 주요 기능:
+ * 1. 현재 조회 조건으로 다음 페이지 조회 및 누적 (fetchTourList)
+ * 2. 추가 항목의 분류명 조회
+ * 3. 뒤로 가기 시 불러온 목록과 스크롤 위치 복원 (sessionStorage)
+ *
+ * 핵심 구현 로직:
+ * - 초기 페이지는 Server Component가 조회하고, 이 Provider는 그 이후 페이지만 보관
+ * - 조회 조건이 바뀌면 page.tsx에서 key로 Provider를 새로 마운트하여 상태 초기화
+ * - 목록에서 링크를 클릭하는 순간 불러온 항목과 스크롤 위치를 저장하고,
+ *   같은 조건으로 다시 마운트되면 복원 후 저장된 스크롤 위치로 이동
+ * - 마지막 페이지 여부는 페이지 번호와 전체 개수로 판단 (숙박 검색은 조건에 맞지 않는 항목을
+ *   페이지별로 제외하므로 빈 페이지 뒤에도 조건에 맞는 항목이 있을 수 있음)
+ *
+ * @dependencies
+ * - lib/api/tour-list-api.ts: fetchTourList 함수, TourQuery 타입, TOUR_LIST_PAGE_SIZE
+ * - lib/api/category-api.ts: getCategoryNames 함수
+ * - lib/api/tour-api-client.ts: 서버 프록시를 통한 한국관광공사 API 호출
+ */
+
+"use client";
+
+import * as React from "react";
+import { getCategoryNames } from "@/lib/api/category-api";
+import * as tourApiClient from "@/lib/api/tour-api-client";
+import { fetchTourList, TOUR_LIST_PAGE_SIZE } from "@/lib/api/tour-list-api";
+import type { TourQuery } from "@/lib/api/tour-list-api";
+import type { TourItem } from "@/lib/types/tour";
+
+/**
+ * 스크롤 복원 정보 보관 기간 (30분)
+ */
+const SNAPSHOT_TTL = 30 * 60 * 1000;
+
+/**
+ * 스크롤 복원 시 목록 렌더링을 기다리는 최대 프레임 수
+ */
+const MAX_RESTORE_FRAMES = 30;
+
+interface TourListSnapshot {
+  items: TourItem[];
+  categoryNames: Record<string, string>;
+  loadedPages: number;
+  totalCount: number | null;
+  isExhausted: boolean; // 마지막 페이지까지 불러왔는지 (복원 후 추가 조회 방지)
+  scrollY: number;
+  savedAt: number;
+}
+
+interface TourListContextType {
+  /**
+   * 초기 페이지 이후 추가로 불러온 항목
+   */
+  items: TourItem[];
+  /**
+   * 추가 항목의 분류코드 → 분류명 매핑
+   */
+  categoryNames: Record<string, string>;
+  /**
+   * 마지막으로 조회한 전체 개수 (추가 조회 전에는 null)
+   */
+  totalCount: number | null;
+  /**
+   * 더 불러올 항목이 없는지 여부 (마지막 페이지까지 조회)
+   */
+  isExhausted: boolean;
+  isLoadingMore: boolean;
+  error: Error | null;
+  loadMore: () => Promise<void>;
+}
+
+const TourListContext = React.createContext<TourListContextType | undefined>(undefined);
+
+/**
+ * 안전한 버전의 목록 상태 훅
+ * Provider가 없어도 에러를 던지지 않고 undefined를 반환합니다.
+ */
+export function useTourListSafe() {
+  return React.useContext(TourListContext);
+}
+
+/**
+ * sessionStorage 키 (조회 조건별)
+ */
+function getSnapshotKey(query: TourQuery): string {
+  return `tour-list:${JSON.stringify(query)}`;
+}
+
+function readSnapshot(key: string): TourListSnapshot | null {
+  try {
+    const raw = window.sessionStorage.getItem(key);
+    if (!raw) return null;
+    const snapshot = JSON.parse(raw) as TourListSnapshot;
+    return Date.now() - snapshot.savedAt < SNAPSHOT_TTL ? snapshot : null;
+  } catch {
+    return null;
+  }
+}
+
+interface TourListProviderProps {
+  /**
+   * 현재 조회 조건 (초기 페이지와 같은 조건)
+   */
+  query: TourQuery;
+  /**
+   * 무한 스크롤 모드 여부 (false이면 추가 조회와 복원을 하지 않음)
+   */
+  enabled: boolean;
+  children: React.ReactNode;
+}
+
+export function TourListProvider({ query, enabled, children }: TourListProviderProps) {
+  const [items, setItems] = React.useState<TourItem[]>([]);
+  const [categoryNames, setCategoryNames] = React.useState<Record<string, string>>({});
+  const [loadedPages, setLoadedPages] = React.useState(0);
+  const [totalCount, setTotalCount] = React.useState<number | null>(null);
+  const [isExhausted, setIsExhausted] = React.useState(false);
+  const [isLoadingMore, setIsLoadingMore] = React.useState(false);
+  const [error, setError] = React.useState<Error | null>(null);
+  const [pendingScrollY, setPendingScrollY] = React.useState<number | null>(null);
+  const isLoadingRef = React.useRef(false);
+
+  const snapshotKey = React.useMemo(() => getSnapshotKey(query), [query]);
+  const startPage = Math.max(1, parseInt(query.page || "1", 10));
+
+  // 링크 클릭 시 저장할 최신 상태
+  const stateRef = React.useRef({ items, categoryNames, loadedPages, totalCount, isExhausted });
+  stateRef.current = { items, categoryNames, loadedPages, totalCount, isExhausted };
+
+  // 다음 페이지 조회 (useCallback으로 최적화)
+  const loadMore = React.useCallback(async () => {
+    if (!enabled || isLoadingRef.current || isExhausted) {
+      return;
+    }
+
+    isLoadingRef.current = true;
+    setIsLoadingMore(true);
+    setError(null);
+
+    try {
+      const nextPage = startPage + loadedPages + 1;
+      const data = await fetchTourList(
+        { ...query, page: String(nextPage) },
+        tourApiClient
+      );
+      // 분류명은 부가 정보이므로 조회 실패 시 분류 없이 표시
+      const names = await getCategoryNames(data.items, tourApiClient, query.language).catch(
+        () => ({}),
+      );
+
+      setItems((prev) => {
+        const loadedIds = new Set(prev.map((item) => item.contentid));
+        return [...prev, ...data.items.filter((item) => !loadedIds.has(item.contentid))];
+      });
+      setCategoryNames((prev) => ({ ...prev, ...names }));
+      setLoadedPages((prev) => prev + 1);
+      setTotalCount(data.totalCount);
+      setIsExhausted(nextPage * TOUR_LIST_PAGE_SIZE >= data.totalCount);
+    } catch (err) {
+      console.error("다음 페이지 로드 실패:", err);
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      isLoadingRef.current = false;
+      setIsLoadingMore(false);
+    }
+  }, [enabled, isExhausted, startPage, loadedPages, query]);
+
+  // 마운트 시 같은 조건으로 저장된 목록이 있으면 복원 (뒤로 가기)
+  React.useEffect(() => {
+    if (!enabled) return;
+
+    const snapshot = readSnapshot(snapshotKey);
+    window.sessionStorage.removeItem(snapshotKey);
+    if (!snapshot || snapshot.items.length === 0) return;
+
+    setItems(snapshot.items);
+    setCategoryNames(snapshot.categoryNames);
+    setLoadedPages(snapshot.loadedPages);
+    setTotalCount(snapshot.totalCount);
+    setIsExhausted(Boolean(snapshot.isExhausted));
+    setPendingScrollY(snapshot.scrollY);
+  }, [enabled, snapshotKey]);
+
+  // 복원한 목록이 렌더링될 때까지 기다린 후 스크롤 위치 복원
+  React.useEffect(() => {
+    if (pendingScrollY === null) return;
+
+    let frame = 0;
+    let rafId = 0;
+    const restore = () => {
+      const maxScroll = document.documentElement.scrollHeight - window.innerHeight;
+      if (maxScroll >= pendingScrollY || frame >= MAX_RESTORE_FRAMES) {
+        window.scrollTo(0, pendingScrollY);
+        setPendingScrollY(null);
+        return;
+      }
+      frame += 1;
+      rafId = window.requestAnimationFrame(restore);
+    };
+    rafId = window.requestAnimationFrame(restore);
+
+    return () => window.cancelAnimationFrame(rafId);
+  }, [pendingScrollY]);
+
+  // 링크 클릭(상세페이지 이동) 또는 페이지 이탈 시 불러온 목록과 스크롤 위치 저장
+  React.useEffect(() => {
+    if (!enabled) return;
+
+    const saveSnapshot = () => {
+      const state = stateRef.current;
+      if (state.items.length === 0) return;
+
+      const snapshot: TourListSnapshot = {
+        ...state,
+        scrollY: window.scrollY,
+        savedAt: Date.now(),
+      };
+      try {
+        window.sessionStorage.setItem(snapshotKey, JSON.stringify(snapshot));
+      } catch (err) {
+        console.warn("목록 상태 저장 실패:", err);
+      }
+    };
+
+    const handleClick = (event: MouseEvent) => {
+      if (event.target instanceof Element && event.target.closest("a[href]")) {
+        saveSnapshot();
+      }
+    };
+
+    document.addEventListener("click", handleClick, true);
+    window.addEventListener("pagehide", saveSnapshot);
+    return () => {
+      document.removeEventListener("click", handleClick, true);
+      window.removeEventListener("pagehide", saveSnapshot);
+    };
+  }, [enabled, snapshotKey]);
+
+  const value = React.useMemo(
+    () => ({
+      items,
+      categoryNames,
+      totalCount,
+      isExhausted,
+      isLoadingMore,
+      error,
+      loadMore,
+    }),
+    [items, categoryNames, totalCount, isExhausted, isLoadingMore, error, loadMore]
+  );
+
+  return (
+    <TourListContext.Provider value={value}>
+      {children}
+    </TourListContext.Provider>
+  );
+}
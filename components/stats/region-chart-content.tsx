@@ -3,14 +3,20 @@
  * @description 지역별 관광지 분포 차트 데이터 로딩 컴포넌트
  *
  * 이 파일은 Server Component로 지역별 통계 데이터를 로드합니다.
+ * 시/도 코드가 주어지면 해당 시/도의 시군구별 통계를 로드합니다.
  *
  * @dependencies
  * - lib/api/stats-api.ts: getRegionStats 함수
+ * - lib/api/tour-api.ts: getAreaCode 함수 (드릴다운한 시/도 이름 조회)
  * - components/stats/region-chart.tsx: RegionChart 컴포넌트
+ * - components/stats/stats-unavailable.tsx: 호출 한도 초과 시 안내, 일부 데이터 안내
  */
 
 import dynamic from "next/dynamic";
 import { getRegionStats } from "@/lib/api/stats-api";
+import { getAreaCode } from "@/lib/api/tour-api";
+import { isQuotaExceededError } from "@/lib/api/tour-api-error";
+import { StatsPartialNotice, StatsUnavailable } from "./stats-unavailable";
 import { RegionChartSkeleton } from "./region-chart";
 
 // recharts는 클라이언트 사이드에서만 동작하므로 dynamic import로 lazy loading
@@ -22,10 +28,35 @@ const RegionChart = dynamic(() => import("./region-chart").then((mod) => ({ defa
 /**
  * 지역별 통계 데이터 로딩 컴포넌트
  * Server Component로 getRegionStats() API를 호출하여 데이터를 로드합니다.
- * 에러 발생 시 Next.js error.tsx에서 처리됩니다.
+ * 존재하지 않는 시/도 코드인 경우 전국 통계를 표시합니다.
+ * 일부 지역 통계를 수집하지 못한 경우 차트 위에 안내를 표시합니다.
+ * 호출 한도 초과 시 안내를 표시하고, 그 외 에러는 Next.js error.tsx에서 처리됩니다.
  */
-export async function RegionChartContent() {
-  const data = await getRegionStats();
-  return <RegionChart data={data} />;
+export async function RegionChartContent({ areaCode }: { areaCode?: string }) {
+  try {
+    const parentRegion = areaCode
+      ? (await getAreaCode({ numOfRows: 100, pageNo: 1 })).find(
+          (area) => area.code === areaCode,
+        )
+      : undefined;
+
+    const { items, missingCount } = await getRegionStats(parentRegion?.code);
+    return (
+      <>
+        {missingCount > 0 && <StatsPartialNotice missingCount={missingCount} />}
+        <RegionChart
+          data={items}
+          parentRegion={
+            parentRegion && { areaCode: parentRegion.code, name: parentRegion.name }
+          }
+        />
+      </>
+    );
+  } catch (error) {
+    if (isQuotaExceededError(error)) {
+      return <StatsUnavailable />;
+    }
+    throw error;
+  }
 }
 
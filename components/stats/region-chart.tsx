@@ -6,8 +6,9 @@
  *
  * 주요 기능:
  * 1. 상위 10개 지역을 Bar Chart로 표시
- * 2. 바 클릭 시 해당 지역 목록 페이지로 이동
- * 3. 호버 시 Tooltip으로 정확한 개수 표시
+ * 2. 시/도 바 클릭 시 해당 시/도의 시군구별 분포로 이동 (드릴다운)
+ * 3. 시군구 바 클릭 시 해당 시군구 목록 페이지로 이동
+ * 4. 호버 시 Tooltip으로 정확한 개수 표시
  *
  * 핵심 구현 로직:
  * - Client Component로 차트 렌더링
@@ -19,16 +20,20 @@
  * - components/ui/chart.tsx: ChartContainer, ChartTooltip, ChartTooltipContent
  * - components/ui/card.tsx: Card, CardHeader, CardTitle, CardContent
  * - components/ui/skeleton.tsx: Skeleton
+ * - lib/i18n: useTranslations (차트 문구)
  * - recharts: BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer
+ * - next/link: 전국 보기 / 목록 보기 링크
  *
  * @see {@link /docs/PRD.MD} - 통계 대시보드 요구사항 참고
  */
 
 "use client";
 
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer } from "recharts";
-import { MapPin } from "lucide-react";
+import { ChevronLeft, MapPin } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
@@ -36,6 +41,8 @@ import {
   ChartTooltip,
   ChartTooltipContent,
 } from "@/components/ui/chart";
+import { useTranslations } from "@/components/providers/locale-provider";
+import type { Translator } from "@/lib/i18n/messages";
 import type { RegionStats } from "@/lib/types/stats";
 
 // =====================================================
@@ -44,18 +51,21 @@ import type { RegionStats } from "@/lib/types/stats";
 
 /**
  * 차트 설정 (색상, 라벨 등)
+ * @param t - 번역 함수 (라벨 문구)
  */
-const chartConfig = {
-  count: {
-    label: "관광지 개수",
-    color: "hsl(var(--primary))",
-  },
-} satisfies {
-  count: {
-    label: string;
-    color: string;
+function getChartConfig(t: Translator) {
+  return {
+    count: {
+      label: t("stats.countLabel"),
+      color: "hsl(var(--primary))",
+    },
+  } satisfies {
+    count: {
+      label: string;
+      color: string;
+    };
   };
-};
+}
 
 // =====================================================
 // RegionChart 컴포넌트
@@ -66,14 +76,43 @@ interface RegionChartProps {
    * 지역별 통계 데이터
    */
   data: RegionStats[];
+  /**
+   * 드릴다운한 시/도 (지정 시 data는 해당 시/도의 시군구별 통계)
+   */
+  parentRegion?: {
+    areaCode: string;
+    name: string;
+  };
 }
 
 /**
  * 지역별 관광지 분포 Bar Chart 컴포넌트
  * 상위 10개 지역을 가로형 Bar Chart로 표시합니다.
  */
-export function RegionChart({ data }: RegionChartProps) {
+export function RegionChart({ data, parentRegion }: RegionChartProps) {
   const router = useRouter();
+  const t = useTranslations();
+  const chartConfig = getChartConfig(t);
+  const title = parentRegion
+    ? t("stats.sigunguTitle", { region: parentRegion.name })
+    : t("stats.regionTitle");
+
+  // 드릴다운 상태에서 표시할 이동 링크 (전국 보기 / 목록 보기)
+  const drillDownActions = parentRegion && (
+    <div className="flex flex-wrap gap-2 mt-3">
+      <Button asChild variant="outline" size="sm" className="min-h-[44px] sm:min-h-0">
+        <Link href="/stats" scroll={false}>
+          <ChevronLeft className="h-4 w-4 mr-1" aria-hidden="true" />
+          {t("stats.nationwide")}
+        </Link>
+      </Button>
+      <Button asChild variant="outline" size="sm" className="min-h-[44px] sm:min-h-0">
+        <Link href={`/?areaCode=${parentRegion.areaCode}`}>
+          {t("stats.regionListLink", { region: parentRegion.name })}
+        </Link>
+      </Button>
+    </div>
+  );
 
   // 상위 10개 지역 추출 (count 기준 내림차순 정렬)
   const topRegions = [...data]
@@ -83,6 +122,7 @@ export function RegionChart({ data }: RegionChartProps) {
       name: region.name,
       count: region.count,
       areaCode: region.areaCode,
+      sigunguCode: region.sigunguCode,
     }));
 
   // 빈 데이터 처리
@@ -92,38 +132,49 @@ export function RegionChart({ data }: RegionChartProps) {
         <CardHeader>
           <div className="flex items-center justify-between">
             <CardTitle className="text-xl sm:text-2xl font-bold">
-              지역별 관광지 분포
+              {title}
             </CardTitle>
             <MapPin className="h-5 w-5 text-muted-foreground" aria-hidden="true" />
           </div>
+          {drillDownActions}
         </CardHeader>
         <CardContent>
           <p className="text-sm text-muted-foreground text-center py-8">
-            데이터가 없습니다.
+            {t("stats.chartEmpty")}
           </p>
         </CardContent>
       </Card>
     );
   }
 
-  // 바 클릭 핸들러 (해당 지역 목록 페이지로 이동)
-  const handleBarClick = (data: { areaCode: string } | undefined) => {
+  // 바 클릭 핸들러
+  // 시/도: 시군구별 분포로 드릴다운, 시군구: 해당 시군구 목록 페이지로 이동
+  const handleBarClick = (
+    data: { areaCode: string; sigunguCode?: string } | undefined,
+  ) => {
     if (!data?.areaCode) return;
-    router.push(`/?areaCode=${data.areaCode}`);
+    if (data.sigunguCode) {
+      router.push(`/?areaCode=${data.areaCode}&sigunguCode=${data.sigunguCode}`);
+      return;
+    }
+    router.push(`/stats?areaCode=${data.areaCode}`, { scroll: false });
   };
 
   return (
-    <Card role="article" aria-label="지역별 관광지 분포 차트">
+    <Card role="article" aria-label={t("stats.chartLabel", { title })}>
       <CardHeader>
         <div className="flex items-center justify-between">
           <CardTitle className="text-xl sm:text-2xl font-bold">
-            지역별 관광지 분포
+            {title}
           </CardTitle>
           <MapPin className="h-5 w-5 text-muted-foreground" aria-hidden="true" />
         </div>
         <p className="text-sm text-muted-foreground mt-2">
-          상위 10개 지역의 관광지 개수를 표시합니다.
+          {parentRegion
+            ? t("stats.sigunguDescription")
+            : t("stats.regionDescription")}
         </p>
+        {drillDownActions}
       </CardHeader>
       <CardContent>
         <ChartContainer config={chartConfig} className="h-[400px] sm:h-[500px]">
@@ -133,7 +184,7 @@ export function RegionChart({ data }: RegionChartProps) {
               layout="vertical"
               margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
               role="img"
-              aria-label="지역별 관광지 분포 차트"
+              aria-label={t("stats.chartLabel", { title })}
             >
               <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
               <XAxis
@@ -158,8 +209,8 @@ export function RegionChart({ data }: RegionChartProps) {
                       payload={payload}
                       labelFormatter={() => data.name}
                       formatter={(value) => [
-                        `${value?.toLocaleString()}개`,
-                        "관광지 개수",
+                        t("stats.countValue", { count: Number(value) }),
+                        t("stats.countLabel"),
                       ]}
                     />
                   );
@@ -173,7 +224,7 @@ export function RegionChart({ data }: RegionChartProps) {
                 style={{ cursor: "pointer" }}
                 role="button"
                 aria-label={(entry) =>
-                  `${entry.name}: ${entry.count.toLocaleString()}개 관광지`
+                  t("stats.barLabel", { name: entry.name, count: entry.count })
                 }
               />
             </BarChart>
@@ -181,15 +232,15 @@ export function RegionChart({ data }: RegionChartProps) {
         </ChartContainer>
 
         {/* 접근성을 위한 데이터 테이블 (스크린 리더용) */}
-        <div className="sr-only" role="table" aria-label="지역별 관광지 개수 데이터">
+        <div className="sr-only" role="table" aria-label={t("stats.regionTableLabel")}>
           <div role="row">
-            <div role="columnheader">지역명</div>
-            <div role="columnheader">관광지 개수</div>
+            <div role="columnheader">{t("stats.regionName")}</div>
+            <div role="columnheader">{t("stats.countLabel")}</div>
           </div>
           {topRegions.map((region) => (
-            <div key={region.areaCode} role="row">
+            <div key={region.sigunguCode || region.areaCode} role="row">
               <div role="cell">{region.name}</div>
-              <div role="cell">{region.count.toLocaleString()}개</div>
+              <div role="cell">{t("stats.countValue", { count: region.count })}</div>
             </div>
           ))}
         </div>
@@ -207,8 +258,10 @@ export function RegionChart({ data }: RegionChartProps) {
  * 로딩 중 차트 영역의 플레이스홀더를 표시합니다.
  */
 export function RegionChartSkeleton() {
+  const t = useTranslations();
+
   return (
-    <Card role="article" aria-label="지역별 관광지 분포 차트 로딩 중">
+    <Card role="article" aria-label={t("stats.regionLoading")}>
       <CardHeader>
         <div className="flex items-center justify-between">
           <Skeleton className="h-7 w-48" />
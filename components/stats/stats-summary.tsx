@@ -22,6 +22,7 @@
  * - components/ui/skeleton: Skeleton
  * - lib/types/stats: StatsSummary 타입
  * - lucide-react: MapPin, BarChart3, Clock, Trophy 아이콘
+ * - lib/i18n: createTranslator, getRequestLocale (카드 문구, 날짜 형식)
  *
  * @see {@link /docs/PRD.MD} - 통계 대시보드 요구사항 참고
  */
@@ -30,18 +31,22 @@ import { MapPin, BarChart3, Clock, Trophy } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import type { StatsSummary } from "@/lib/types/stats";
+import { LOCALE_INFO, type Locale } from "@/lib/i18n/locale";
+import { createTranslator } from "@/lib/i18n/messages";
+import { getRequestLocale } from "@/lib/i18n/server";
 
 // =====================================================
 // 날짜 포맷팅 유틸리티
 // =====================================================
 
 /**
- * 날짜를 한국어 형식으로 포맷팅
+ * 날짜를 언어별 형식으로 포맷팅
  * @param date - 포맷팅할 날짜
- * @returns 한국어 형식의 날짜 문자열 (예: "2025년 1월 15일 14:30")
+ * @param locale - 표시 언어
+ * @returns 언어별 형식의 날짜 문자열 (예: "2025년 1월 15일 14:30")
  */
-function formatDateKorean(date: Date): string {
-  return new Intl.DateTimeFormat("ko-KR", {
+function formatUpdatedAt(date: Date, locale: Locale): string {
+  return new Intl.DateTimeFormat(LOCALE_INFO[locale].htmlLang, {
     year: "numeric",
     month: "long",
     day: "numeric",
@@ -65,40 +70,43 @@ interface StatsSummaryProps {
  * 통계 요약 카드 컴포넌트
  * 전체 관광지 수, Top 3 지역, Top 3 타입, 마지막 업데이트 시간을 표시합니다.
  */
-export function StatsSummary({ data }: StatsSummaryProps) {
+export async function StatsSummary({ data }: StatsSummaryProps) {
   const { totalCount, topRegions, topTypes, lastUpdated } = data;
+  const locale = await getRequestLocale();
+  const t = createTranslator(locale);
+  const updatedAt = formatUpdatedAt(lastUpdated, locale);
 
   return (
     <section
       className="space-y-4 sm:space-y-6"
-      aria-label="통계 요약"
+      aria-label={t("stats.summaryLabel")}
     >
       {/* 반응형 그리드 레이아웃: 모바일 1열, 태블릿 2열, 데스크톱 4열 */}
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6">
         {/* 전체 관광지 수 카드 */}
-        <Card role="article" aria-label={`전체 관광지 ${totalCount.toLocaleString()}개`}>
+        <Card role="article" aria-label={t("stats.totalCount", { count: totalCount })}>
           <CardHeader>
             <div className="flex items-center justify-between">
               <CardTitle className="text-sm font-medium text-muted-foreground">
-                전체 관광지
+                {t("stats.totalLabel")}
               </CardTitle>
               <MapPin className="h-5 w-5 text-muted-foreground" aria-hidden="true" />
             </div>
           </CardHeader>
           <CardContent>
             <div className="text-3xl sm:text-4xl font-bold">
-              {totalCount.toLocaleString()}
+              {totalCount.toLocaleString(LOCALE_INFO[locale].htmlLang)}
             </div>
-            <p className="text-xs text-muted-foreground mt-1">개</p>
+            <p className="text-xs text-muted-foreground mt-1">{t("stats.unit")}</p>
           </CardContent>
         </Card>
 
         {/* Top 3 지역 카드 */}
-        <Card role="article" aria-label="상위 3개 지역">
+        <Card role="article" aria-label={t("stats.topRegionsLabel")}>
           <CardHeader>
             <div className="flex items-center justify-between">
               <CardTitle className="text-sm font-medium text-muted-foreground">
-                Top 3 지역
+                {t("stats.topRegions")}
               </CardTitle>
               <Trophy className="h-5 w-5 text-muted-foreground" aria-hidden="true" />
             </div>
@@ -110,7 +118,7 @@ export function StatsSummary({ data }: StatsSummaryProps) {
                   <div
                     key={region.areaCode}
                     className="flex items-center justify-between"
-                    aria-label={`${index + 1}위: ${region.name} ${region.count.toLocaleString()}개`}
+                    aria-label={t("stats.rankLabel", { rank: index + 1, name: region.name, count: region.count })}
                   >
                     <div className="flex items-center gap-2">
                       <span className="flex items-center justify-center w-6 h-6 rounded-full bg-primary/10 text-primary text-xs font-semibold">
@@ -119,23 +127,23 @@ export function StatsSummary({ data }: StatsSummaryProps) {
                       <span className="text-base font-semibold">{region.name}</span>
                     </div>
                     <span className="text-sm text-muted-foreground">
-                      {region.count.toLocaleString()}
+                      {region.count.toLocaleString(LOCALE_INFO[locale].htmlLang)}
                     </span>
                   </div>
                 ))
               ) : (
-                <p className="text-sm text-muted-foreground">데이터 없음</p>
+                <p className="text-sm text-muted-foreground">{t("stats.noData")}</p>
               )}
             </div>
           </CardContent>
         </Card>
 
         {/* Top 3 타입 카드 */}
-        <Card role="article" aria-label="상위 3개 타입">
+        <Card role="article" aria-label={t("stats.topTypesLabel")}>
           <CardHeader>
             <div className="flex items-center justify-between">
               <CardTitle className="text-sm font-medium text-muted-foreground">
-                Top 3 타입
+                {t("stats.topTypes")}
               </CardTitle>
               <BarChart3 className="h-5 w-5 text-muted-foreground" aria-hidden="true" />
             </div>
@@ -147,7 +155,7 @@ export function StatsSummary({ data }: StatsSummaryProps) {
                   <div
                     key={type.contentTypeId}
                     className="flex items-center justify-between"
-                    aria-label={`${index + 1}위: ${type.name} ${type.count.toLocaleString()}개`}
+                    aria-label={t("stats.rankLabel", { rank: index + 1, name: type.name, count: type.count })}
                   >
                     <div className="flex items-center gap-2">
                       <span className="flex items-center justify-center w-6 h-6 rounded-full bg-primary/10 text-primary text-xs font-semibold">
@@ -156,30 +164,30 @@ export function StatsSummary({ data }: StatsSummaryProps) {
                       <span className="text-base font-semibold">{type.name}</span>
                     </div>
                     <span className="text-sm text-muted-foreground">
-                      {type.count.toLocaleString()}
+                      {type.count.toLocaleString(LOCALE_INFO[locale].htmlLang)}
                     </span>
                   </div>
                 ))
               ) : (
-                <p className="text-sm text-muted-foreground">데이터 없음</p>
+                <p className="text-sm text-muted-foreground">{t("stats.noData")}</p>
               )}
             </div>
           </CardContent>
         </Card>
 
         {/* 마지막 업데이트 시간 카드 */}
-        <Card role="article" aria-label={`마지막 업데이트: ${formatDateKorean(lastUpdated)}`}>
+        <Card role="article" aria-label={t("stats.lastUpdatedLabel", { date: updatedAt })}>
           <CardHeader>
             <div className="flex items-center justify-between">
               <CardTitle className="text-sm font-medium text-muted-foreground">
-                마지막 업데이트
+                {t("stats.lastUpdated")}
               </CardTitle>
               <Clock className="h-5 w-5 text-muted-foreground" aria-hidden="true" />
             </div>
           </CardHeader>
           <CardContent>
             <div className="text-base font-semibold">
-              {formatDateKorean(lastUpdated)}
+              {updatedAt}
             </div>
           </CardContent>
         </Card>
@@ -196,11 +204,13 @@ export function StatsSummary({ data }: StatsSummaryProps) {
  * 통계 요약 카드 스켈레톤 컴포넌트
  * 로딩 중 4개 카드의 플레이스홀더를 표시합니다.
  */
-export function StatsSummarySkeleton() {
+export async function StatsSummarySkeleton() {
+  const t = createTranslator(await getRequestLocale());
+
   return (
     <section
       className="space-y-4 sm:space-y-6"
-      aria-label="통계 요약 로딩 중"
+      aria-label={t("stats.summaryLoading")}
     >
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6">
         {/* 전체 관광지 수 카드 스켈레톤 */}
@@ -0,0 +1,53 @@
+/**
+ * @file stats-unavailable.tsx
+ * @description 통계 일시 중단 / 일부 데이터 안내 컴포넌트
+ *
+ * 일일 호출 한도가 가까워져 통계 수집을 중단한 경우 차트 대신 표시합니다.
+ * 통계는 부가 기능이므로 페이지 전체 에러 대신 해당 섹션에만 안내를 표시합니다.
+ * 일부 항목만 수집한 경우(호출 한도 도달, 일시적인 장애)에는 차트 위에 일부 데이터 안내를 표시합니다.
+ *
+ * @dependencies
+ * - components/ui/error.tsx: Error 컴포넌트
+ * - lib/i18n: createTranslator, getRequestLocale (안내 문구)
+ */
+
+import { AlertCircle } from "lucide-react";
+import { Error } from "@/components/ui/error";
+import { createTranslator } from "@/lib/i18n/messages";
+import { getRequestLocale } from "@/lib/i18n/server";
+
+export async function StatsUnavailable() {
+  const t = createTranslator(await getRequestLocale());
+
+  return (
+    <Error
+      title={t("stats.unavailableTitle")}
+      message={t("stats.unavailableMessage")}
+      size="sm"
+      className="rounded-lg border"
+    />
+  );
+}
+
+/**
+ * 일부 통계만 수집한 경우의 안내
+ * @param missingCount - 수집하지 못한 항목 수
+ */
+export async function StatsPartialNotice({ missingCount }: { missingCount: number }) {
+  const t = createTranslator(await getRequestLocale());
+
+  return (
+    <div
+      role="status"
+      className="mb-4 flex items-start gap-2 rounded-lg border px-4 py-3 text-sm"
+    >
+      <AlertCircle className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" aria-hidden="true" />
+      <div>
+        <p className="font-medium">{t("stats.partialTitle")}</p>
+        <p className="text-muted-foreground">
+          {t("stats.partialMessage", { count: missingCount })}
+        </p>
+      </div>
+    </div>
+  );
+}
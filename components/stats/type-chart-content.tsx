@@ -7,10 +7,13 @@
  * @dependencies
  * - lib/api/stats-api.ts: getTypeStats 함수
  * - components/stats/type-chart.tsx: TypeChart 컴포넌트
+ * - components/stats/stats-unavailable.tsx: 호출 한도 초과 시 안내, 일부 데이터 안내
  */
 
 import dynamic from "next/dynamic";
 import { getTypeStats } from "@/lib/api/stats-api";
+import { isQuotaExceededError } from "@/lib/api/tour-api-error";
+import { StatsPartialNotice, StatsUnavailable } from "./stats-unavailable";
 import { TypeChartSkeleton } from "./type-chart";
 
 // recharts는 클라이언트 사이드에서만 동작하므로 dynamic import로 lazy loading
@@ -22,10 +25,23 @@ const TypeChart = dynamic(() => import("./type-chart").then((mod) => ({ default:
 /**
  * 타입별 통계 데이터 로딩 컴포넌트
  * Server Component로 getTypeStats() API를 호출하여 데이터를 로드합니다.
- * 에러 발생 시 Next.js error.tsx에서 처리됩니다.
+ * 일부 타입 통계를 수집하지 못한 경우 차트 위에 안내를 표시합니다.
+ * 호출 한도 초과 시 안내를 표시하고, 그 외 에러는 Next.js error.tsx에서 처리됩니다.
  */
 export async function TypeChartContent() {
-  const data = await getTypeStats();
-  return <TypeChart data={data} />;
+  try {
+    const { items, missingCount } = await getTypeStats();
+    return (
+      <>
+        {missingCount > 0 && <StatsPartialNotice missingCount={missingCount} />}
+        <TypeChart data={items} />
+      </>
+    );
+  } catch (error) {
+    if (isQuotaExceededError(error)) {
+      return <StatsUnavailable />;
+    }
+    throw error;
+  }
 }
 
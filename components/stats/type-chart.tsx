@@ -19,6 +19,7 @@
  * - components/ui/chart.tsx: ChartContainer, ChartTooltip, ChartTooltipContent
  * - components/ui/card.tsx: Card, CardHeader, CardTitle, CardContent
  * - components/ui/skeleton.tsx: Skeleton
+ * - lib/i18n: useTranslations (차트 문구)
  * - recharts: PieChart, Pie, Cell, ResponsiveContainer
  *
  * @see {@link /docs/PRD.MD} - 통계 대시보드 요구사항 참고
@@ -36,6 +37,8 @@ import {
   ChartTooltip,
   ChartTooltipContent,
 } from "@/components/ui/chart";
+import { useTranslations } from "@/components/providers/locale-provider";
+import type { Translator } from "@/lib/i18n/messages";
 import type { TypeStats } from "@/lib/types/stats";
 
 // =====================================================
@@ -44,18 +47,21 @@ import type { TypeStats } from "@/lib/types/stats";
 
 /**
  * 차트 설정 (색상, 라벨 등)
+ * @param t - 번역 함수 (라벨 문구)
  */
-const chartConfig = {
-  count: {
-    label: "관광지 개수",
-    color: "hsl(var(--primary))",
-  },
-} satisfies {
-  count: {
-    label: string;
-    color: string;
+function getChartConfig(t: Translator) {
+  return {
+    count: {
+      label: t("stats.countLabel"),
+      color: "hsl(var(--primary))",
+    },
+  } satisfies {
+    count: {
+      label: string;
+      color: string;
+    };
   };
-};
+}
 
 /**
  * 타입별 색상 매핑 (8개 타입)
@@ -89,6 +95,9 @@ interface TypeChartProps {
  */
 export function TypeChart({ data }: TypeChartProps) {
   const router = useRouter();
+  const t = useTranslations();
+  const chartConfig = getChartConfig(t);
+  const title = t("stats.typeTitle");
 
   // 빈 데이터 처리
   if (data.length === 0) {
@@ -97,14 +106,14 @@ export function TypeChart({ data }: TypeChartProps) {
         <CardHeader>
           <div className="flex items-center justify-between">
             <CardTitle className="text-xl sm:text-2xl font-bold">
-              타입별 관광지 분포
+              {title}
             </CardTitle>
             <BarChart3 className="h-5 w-5 text-muted-foreground" aria-hidden="true" />
           </div>
         </CardHeader>
         <CardContent>
           <p className="text-sm text-muted-foreground text-center py-8">
-            데이터가 없습니다.
+            {t("stats.chartEmpty")}
           </p>
         </CardContent>
       </Card>
@@ -129,22 +138,22 @@ export function TypeChart({ data }: TypeChartProps) {
   };
 
   return (
-    <Card role="article" aria-label="타입별 관광지 분포 차트">
+    <Card role="article" aria-label={t("stats.chartLabel", { title })}>
       <CardHeader>
         <div className="flex items-center justify-between">
           <CardTitle className="text-xl sm:text-2xl font-bold">
-            타입별 관광지 분포
+            {title}
           </CardTitle>
           <BarChart3 className="h-5 w-5 text-muted-foreground" aria-hidden="true" />
         </div>
         <p className="text-sm text-muted-foreground mt-2">
-          8개 관광 타입별 비율을 표시합니다.
+          {t("stats.typeDescription", { count: TYPE_COLORS.length })}
         </p>
       </CardHeader>
       <CardContent>
         <ChartContainer config={chartConfig} className="h-[400px] sm:h-[500px]">
           <ResponsiveContainer width="100%" height="100%">
-            <PieChart role="img" aria-label="타입별 관광지 분포 차트">
+            <PieChart role="img" aria-label={t("stats.chartLabel", { title })}>
               <Pie
                 data={chartData}
                 cx="50%"
@@ -178,8 +187,11 @@ export function TypeChart({ data }: TypeChartProps) {
                       payload={payload}
                       labelFormatter={() => data.name}
                       formatter={(value) => [
-                        `${value?.toLocaleString()}개 (${data.percentage.toFixed(2)}%)`,
-                        "관광지 개수",
+                        t("stats.countWithRatio", {
+                          count: Number(value),
+                          percentage: data.percentage.toFixed(2),
+                        }),
+                        t("stats.countLabel"),
                       ]}
                     />
                   );
@@ -201,16 +213,16 @@ export function TypeChart({ data }: TypeChartProps) {
         </ChartContainer>
 
         {/* 접근성을 위한 데이터 테이블 (스크린 리더용) */}
-        <div className="sr-only" role="table" aria-label="타입별 관광지 개수 데이터">
+        <div className="sr-only" role="table" aria-label={t("stats.typeTableLabel")}>
           <div role="row">
-            <div role="columnheader">타입명</div>
-            <div role="columnheader">관광지 개수</div>
-            <div role="columnheader">비율</div>
+            <div role="columnheader">{t("stats.typeName")}</div>
+            <div role="columnheader">{t("stats.countLabel")}</div>
+            <div role="columnheader">{t("stats.ratio")}</div>
           </div>
           {chartData.map((item) => (
             <div key={item.contentTypeId} role="row">
               <div role="cell">{item.name}</div>
-              <div role="cell">{item.value.toLocaleString()}개</div>
+              <div role="cell">{t("stats.countValue", { count: item.value })}</div>
               <div role="cell">{item.percentage.toFixed(2)}%</div>
             </div>
           ))}
@@ -229,8 +241,10 @@ export function TypeChart({ data }: TypeChartProps) {
  * 로딩 중 차트 영역의 플레이스홀더를 표시합니다.
  */
 export function TypeChartSkeleton() {
+  const t = useTranslations();
+
   return (
-    <Card role="article" aria-label="타입별 관광지 분포 차트 로딩 중">
+    <Card role="article" aria-label={t("stats.typeLoading")}>
       <CardHeader>
         <div className="flex items-center justify-between">
           <Skeleton className="h-7 w-48" />
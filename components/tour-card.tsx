@@ -10,12 +10,18 @@
  * 3. 간단한 개요 표시 (1-2줄)
  * 4. 호버 효과 (scale, shadow)
  * 5. 클릭 시 상세페이지 이동
+ * 6. 기준 위치로부터의 거리 표시 (위치 기반 조회 결과인 경우)
+ * 7. 숙박 카드 변형 (체크인/체크아웃, 주차, 객실수 표시)
+ * 8. 서비스 분류명 표시 (대분류 > 중분류 > 소분류)
  *
  * @dependencies
  * - next/image: 이미지 최적화
  * - next/link: 클라이언트 사이드 네비게이션
- * - lib/types/tour.ts: TourItem 타입, CONTENT_TYPE 상수
+ * - lib/types/tour.ts: TourItem 타입
+ * - lib/i18n/names.ts: getContentTypeName (콘텐츠 타입명)
  * - lib/utils/image.ts: 이미지 유틸리티 함수
+ * - lib/utils/distance.ts: 거리 포맷팅 함수
+ * - lib/utils/stay.ts: 숙박 소개 정보 텍스트 처리 함수
  *
  * @see {@link /docs/PRD.MD} - 관광지 목록 요구사항 참고
  */
@@ -25,9 +31,16 @@
 import { useState, memo } from "react";
 import Image from "next/image";
 import Link from "next/link";
-import { CONTENT_TYPE } from "@/lib/types/tour";
-import type { TourItem } from "@/lib/types/tour";
+import {
+  useLocale,
+  useLocalizePath,
+  useTranslations,
+} from "@/components/providers/locale-provider";
+import { getContentTypeName } from "@/lib/i18n/names";
+import type { LocationTourItem, StayItem, TourItem } from "@/lib/types/tour";
 import { cn } from "@/lib/utils";
+import { formatDistance } from "@/lib/utils/distance";
+import { cleanStayText, isParkingAvailable } from "@/lib/utils/stay";
 import {
   normalizeImageUrl,
   isHttpImage,
@@ -38,8 +51,20 @@ import {
 interface TourCardProps {
   /**
    * 관광지 정보
+   * 위치 기반 조회 결과(LocationTourItem)인 경우 거리를 함께 표시합니다.
+   */
+  tour: TourItem | LocationTourItem | StayItem;
+  /**
+   * 카드 변형
+   * 'stay'인 경우 숙박 소개 정보(체크인/체크아웃, 주차, 객실수)를 표시합니다.
+   * @default 'default'
    */
-  tour: TourItem;
+  variant?: "default" | "stay";
+  /**
+   * 분류코드 → 분류명 매핑
+   * 매핑에 없는 분류코드는 표시하지 않습니다.
+   */
+  categoryNames?: Record<string, string>;
   /**
    * 추가 클래스명
    */
@@ -57,20 +82,6 @@ interface TourCardProps {
   priority?: boolean;
 }
 
-/**
- * 관광 타입명 매핑
- */
-const contentTypeNames: Record<string, string> = {
-  [CONTENT_TYPE.TOURIST_SPOT]: "관광지",
-  [CONTENT_TYPE.CULTURAL_FACILITY]: "문화시설",
-  [CONTENT_TYPE.FESTIVAL]: "축제/행사",
-  [CONTENT_TYPE.TOUR_COURSE]: "여행코스",
-  [CONTENT_TYPE.LEISURE_SPORTS]: "레포츠",
-  [CONTENT_TYPE.ACCOMMODATION]: "숙박",
-  [CONTENT_TYPE.SHOPPING]: "쇼핑",
-  [CONTENT_TYPE.RESTAURANT]: "음식점",
-};
-
 /**
  * 관광지 카드 컴포넌트
  * React.memo로 최적화하여 불필요한 리렌더링 방지
@@ -80,18 +91,34 @@ function TourCardComponent({
   className,
   onTourHover,
   priority = false,
+  variant = "default",
+  categoryNames,
 }: TourCardProps) {
+  const locale = useLocale();
+  const localize = useLocalizePath();
+  const t = useTranslations();
+
   // 이미지 URL 정규화 (공통 유틸리티 함수 사용)
   const imageUrl = normalizeImageUrl(
     tour.firstimage || tour.firstimage2,
     DEFAULT_PLACEHOLDER_IMAGE,
   ) || DEFAULT_PLACEHOLDER_IMAGE;
   
-  const contentTypeName =
-    contentTypeNames[tour.contenttypeid] || "기타";
+  const contentTypeName = getContentTypeName(tour.contenttypeid, locale);
   const address = tour.addr2
     ? `${tour.addr1} ${tour.addr2}`
     : tour.addr1;
+  const distance = "dist" in tour ? formatDistance(tour.dist) : "";
+  const categoryLabels = [tour.cat1, tour.cat2, tour.cat3]
+    .map((code) => (code && categoryNames?.[code]) || "")
+    .filter(Boolean);
+
+  // 숙박 소개 정보 (숙박 카드 변형인 경우)
+  const stay = variant === "stay" ? (tour as StayItem) : null;
+  const checkInTime = cleanStayText(stay?.checkintime);
+  const checkOutTime = cleanStayText(stay?.checkouttime);
+  const roomCount = cleanStayText(stay?.roomcount);
+  const parkingAvailable = stay ? isParkingAvailable(stay.parkinglodging) : null;
   
   // 이미지 에러 상태 관리
   const [imageError, setImageError] = useState(false);
@@ -128,7 +155,7 @@ function TourCardComponent({
 
   return (
     <Link
-      href={`/places/${tour.contentid}`}
+      href={localize(`/places/${tour.contentid}`)}
       className={cn(
         "group relative block rounded-lg border bg-card overflow-hidden",
         "transition-all duration-300",
@@ -137,7 +164,12 @@ function TourCardComponent({
         "min-h-[200px] sm:min-h-[240px]",
         className
       )}
-      aria-label={`${tour.title} 상세보기 - ${contentTypeName}, ${address}`}
+      aria-label={t(distance ? "tourCard.labelWithDistance" : "tourCard.label", {
+        title: tour.title,
+        type: contentTypeName,
+        address,
+        distance,
+      })}
       onKeyDown={handleKeyDown}
       onMouseEnter={handleMouseEnter}
       onMouseLeave={handleMouseLeave}
@@ -148,7 +180,7 @@ function TourCardComponent({
         {!imageError ? (
           <Image
             src={currentImageUrl}
-            alt={`${tour.title} 썸네일 이미지`}
+            alt={t("tourCard.thumbnail", { title: tour.title })}
             fill
             className="object-cover transition-transform duration-300 group-hover:scale-110"
             sizes={imageSizes}
@@ -166,7 +198,7 @@ function TourCardComponent({
           />
         ) : (
           <div className="w-full h-full flex items-center justify-center bg-muted">
-            <p className="text-muted-foreground text-sm">이미지 없음</p>
+            <p className="text-muted-foreground text-sm">{t("common.noImage")}</p>
           </div>
         )}
         {/* 관광 타입 뱃지 */}
@@ -189,24 +221,54 @@ function TourCardComponent({
           {address}
         </p>
 
-        {/* 간단한 개요 (cat1, cat2, cat3 정보 활용) */}
-        {(tour.cat1 || tour.cat2 || tour.cat3) && (
+        {/* 거리 (위치 기반 조회 결과인 경우) */}
+        {distance && (
+          <p className="text-xs font-medium text-primary">
+            📍 {distance}
+          </p>
+        )}
+
+        {/* 숙박 정보 (숙박 카드 변형인 경우) */}
+        {stay && (checkInTime || checkOutTime) && (
+          <p className="text-xs text-muted-foreground line-clamp-1">
+            🕒 {t("tourCard.checkInOut", { checkIn: checkInTime || "-", checkOut: checkOutTime || "-" })}
+          </p>
+        )}
+        {stay && (parkingAvailable !== null || roomCount) && (
           <div className="flex flex-wrap gap-1">
-            {tour.cat1 && (
-              <span className="text-xs text-muted-foreground bg-muted px-2 py-0.5 rounded">
-                {tour.cat1}
+            {parkingAvailable !== null && (
+              <span
+                className={cn(
+                  "text-xs px-2 py-0.5 rounded",
+                  parkingAvailable
+                    ? "bg-primary/10 text-primary"
+                    : "bg-muted text-muted-foreground"
+                )}
+              >
+                {parkingAvailable ? t("tourCard.parkingAvailable") : t("tourCard.parkingUnavailable")}
               </span>
             )}
-            {tour.cat2 && (
+            {roomCount && (
               <span className="text-xs text-muted-foreground bg-muted px-2 py-0.5 rounded">
-                {tour.cat2}
+                {/^\d+$/.test(roomCount)
+                  ? t("tourCard.roomCount", { count: Number(roomCount) })
+                  : t("tourCard.rooms", { rooms: roomCount })}
               </span>
             )}
-            {tour.cat3 && (
-              <span className="text-xs text-muted-foreground bg-muted px-2 py-0.5 rounded">
-                {tour.cat3}
+          </div>
+        )}
+
+        {/* 서비스 분류명 (대분류 > 중분류 > 소분류) */}
+        {!stay && categoryLabels.length > 0 && (
+          <div className="flex flex-wrap gap-1" aria-label={t("tourCard.categories")}>
+            {categoryLabels.map((label) => (
+              <span
+                key={label}
+                className="text-xs text-muted-foreground bg-muted px-2 py-0.5 rounded"
+              >
+                {label}
               </span>
-            )}
+            ))}
           </div>
         )}
 
@@ -227,6 +289,13 @@ export const TourCard = memo(TourCardComponent, (prevProps, nextProps) => {
   if (prevProps.tour.contentid !== nextProps.tour.contentid) {
     return false; // 리렌더링 필요
   }
+  // 기준 위치가 바뀌면 같은 관광지라도 거리가 달라짐
+  if (
+    (prevProps.tour as LocationTourItem).dist !==
+    (nextProps.tour as LocationTourItem).dist
+  ) {
+    return false; // 리렌더링 필요
+  }
   if (prevProps.className !== nextProps.className) {
     return false; // 리렌더링 필요
   }
@@ -236,6 +305,12 @@ export const TourCard = memo(TourCardComponent, (prevProps, nextProps) => {
   if (prevProps.onTourHover !== nextProps.onTourHover) {
     return false; // 리렌더링 필요
   }
+  if (prevProps.variant !== nextProps.variant) {
+    return false; // 리렌더링 필요
+  }
+  if (prevProps.categoryNames !== nextProps.categoryNames) {
+    return false; // 리렌더링 필요
+  }
   return true; // 리렌더링 불필요
 });
 
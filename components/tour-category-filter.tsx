@@ -0,0 +1,262 @@
+/**
+ * @file tour-category-filter.tsx
+ * @description 관광지 서비스 분류 필터 컴포넌트
+ *
+ * 이 컴포넌트는 대분류 → 중분류 → 소분류 순으로 선택하는 연쇄 분류 선택기를 제공합니다.
+ * URL 쿼리 파라미터 관리는 상위 컴포넌트(TourFilters)에서 처리합니다.
+ *
+ * 주요 기능:
+ * 1. 대분류 목록 로드 (관광 타입이 하나만 선택된 경우 해당 타입의 분류만 표시)
+ * 2. 상위 분류 선택 시 하위 분류 목록 로드
+ * 3. 상위 분류 변경 시 하위 분류 선택 해제
+ *
+ * @dependencies
+ * - lib/api/tour-api-client.ts: getCategoryCode 함수 (서버 프록시)
+ * - lib/types/tour.ts: CategoryCode 타입
+ * - components/ui/button.tsx: Button 컴포넌트
+ * - lucide-react: ChevronDown 아이콘
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { ChevronDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useLocale, useTranslations } from "@/components/providers/locale-provider";
+import { getCategoryCode } from "@/lib/api/tour-api-client";
+import type { CategoryCode } from "@/lib/types/tour";
+import { cn } from "@/lib/utils";
+
+/**
+ * 선택된 분류코드
+ */
+export interface CategorySelection {
+  cat1: string;
+  cat2: string;
+  cat3: string;
+}
+
+interface TourCategoryFilterProps {
+  /**
+   * 선택된 관광 타입 (하나만 선택된 경우)
+   */
+  contentTypeId?: string;
+  /**
+   * 현재 선택된 분류코드
+   */
+  value: CategorySelection;
+  /**
+   * 분류 변경 핸들러
+   */
+  onChange: (value: CategorySelection) => void;
+  /**
+   * 추가 클래스명
+   */
+  className?: string;
+}
+
+/**
+ * 분류 목록 로드 훅
+ * 상위 분류가 필요한 단계는 상위 분류가 없으면 빈 목록을 반환합니다.
+ */
+function useCategoryList(
+  enabled: boolean,
+  params: { contentTypeId?: string; cat1?: string; cat2?: string },
+) {
+  const [categories, setCategories] = useState<CategoryCode[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const { contentTypeId, cat1, cat2 } = params;
+  const locale = useLocale();
+
+  useEffect(() => {
+    if (!enabled) {
+      setCategories([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    async function loadCategories() {
+      try {
+        setIsLoading(true);
+        const codes = await getCategoryCode({
+          contentTypeId,
+          cat1,
+          cat2,
+          numOfRows: 100,
+          language: locale,
+        });
+        if (!cancelled) {
+          setCategories(codes);
+        }
+      } catch (error) {
+        console.error("분류코드 로드 실패:", error);
+        if (!cancelled) {
+          setCategories([]);
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    }
+    loadCategories();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, contentTypeId, cat1, cat2, locale]);
+
+  return { categories, isLoading };
+}
+
+/**
+ * 분류 드롭다운
+ */
+function CategoryDropdown({
+  id,
+  label,
+  options,
+  value,
+  isLoading,
+  disabled,
+  onSelect,
+}: {
+  id: string;
+  label: string;
+  options: CategoryCode[];
+  value: string;
+  isLoading: boolean;
+  disabled: boolean;
+  onSelect: (code: string) => void;
+}) {
+  const t = useTranslations();
+  const [isOpen, setIsOpen] = useState(false);
+  const selectedName = value
+    ? options.find((option) => option.code === value)?.name || t("filters.categorySelected")
+    : t("common.all");
+
+  const handleSelect = (code: string) => {
+    onSelect(code);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative flex-1 min-w-0">
+      <label htmlFor={id} className="block text-sm font-medium mb-2">
+        {label}
+      </label>
+      <div className="relative">
+        <Button
+          id={id}
+          variant="outline"
+          className="w-full justify-between min-h-[44px]"
+          onClick={() => setIsOpen(!isOpen)}
+          disabled={disabled}
+          aria-expanded={isOpen}
+          aria-haspopup="listbox"
+        >
+          <span className="truncate">
+            {isLoading ? t("common.loading") : selectedName}
+          </span>
+          <ChevronDown
+            className={cn("h-4 w-4 transition-transform", isOpen && "rotate-180")}
+            aria-hidden="true"
+          />
+        </Button>
+        {isOpen && (
+          <>
+            <div
+              className="fixed inset-0 z-10"
+              onClick={() => setIsOpen(false)}
+              aria-hidden="true"
+            />
+            <div
+              className="absolute z-20 w-full mt-1 bg-background border rounded-md shadow-lg max-h-60 overflow-auto"
+              role="listbox"
+            >
+              <button
+                className={cn(
+                  "w-full text-left px-4 py-2 text-sm hover:bg-accent transition-colors min-h-[44px]",
+                  !value && "bg-accent font-medium"
+                )}
+                onClick={() => handleSelect("")}
+                role="option"
+                aria-selected={!value}
+              >
+                {t("common.all")}
+              </button>
+              {options.map((option) => (
+                <button
+                  key={option.code}
+                  className={cn(
+                    "w-full text-left px-4 py-2 text-sm hover:bg-accent transition-colors min-h-[44px]",
+                    value === option.code && "bg-accent font-medium"
+                  )}
+                  onClick={() => handleSelect(option.code)}
+                  role="option"
+                  aria-selected={value === option.code}
+                >
+                  {option.name}
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 관광지 서비스 분류 필터 컴포넌트
+ */
+export function TourCategoryFilter({
+  contentTypeId,
+  value,
+  onChange,
+  className,
+}: TourCategoryFilterProps) {
+  const t = useTranslations();
+  const { cat1, cat2, cat3 } = value;
+
+  const cat1List = useCategoryList(true, { contentTypeId });
+  const cat2List = useCategoryList(!!cat1, { contentTypeId, cat1 });
+  const cat3List = useCategoryList(!!cat1 && !!cat2, { contentTypeId, cat1, cat2 });
+
+  return (
+    <div
+      className={cn("flex flex-col sm:flex-row gap-3 sm:gap-4", className)}
+      role="group"
+      aria-label={t("filters.categoryLabel")}
+    >
+      <CategoryDropdown
+        id="cat1-filter"
+        label={t("filters.cat1")}
+        options={cat1List.categories}
+        value={cat1}
+        isLoading={cat1List.isLoading}
+        disabled={false}
+        onSelect={(code) => onChange({ cat1: code, cat2: "", cat3: "" })}
+      />
+      <CategoryDropdown
+        id="cat2-filter"
+        label={t("filters.cat2")}
+        options={cat2List.categories}
+        value={cat2}
+        isLoading={cat2List.isLoading}
+        disabled={!cat1}
+        onSelect={(code) => onChange({ cat1, cat2: code, cat3: "" })}
+      />
+      <CategoryDropdown
+        id="cat3-filter"
+        label={t("filters.cat3")}
+        options={cat3List.categories}
+        value={cat3}
+        isLoading={cat3List.isLoading}
+        disabled={!cat2}
+        onSelect={(code) => onChange({ cat1, cat2, cat3: code })}
+      />
+    </div>
+  );
+}
@@ -37,6 +37,7 @@ import {
   DialogContent,
   DialogClose,
 } from "@/components/ui/dialog";
+import { useTranslations } from "@/components/providers/locale-provider";
 import type { TourImage } from "@/lib/types/tour";
 import { cn } from "@/lib/utils";
 import {
@@ -50,9 +51,11 @@ import {
  */
 export function DetailGallery({
   images,
-  title = "관광지",
+  title: titleProp,
   className,
 }: DetailGalleryProps) {
+  const t = useTranslations();
+  const title = titleProp || t("gallery.defaultTitle");
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [imageErrors, setImageErrors] = useState<Set<number>>(new Set());
@@ -63,11 +66,11 @@ export function DetailGallery({
     return (
       <section
         className={cn("space-y-6 sm:space-y-8 pt-8 sm:pt-12 border-t", className)}
-        aria-label="이미지 갤러리"
+        aria-label={t("gallery.title")}
       >
-        <h2 className="text-2xl sm:text-3xl font-bold">이미지 갤러리</h2>
+        <h2 className="text-2xl sm:text-3xl font-bold">{t("gallery.title")}</h2>
         <div className="relative w-full h-64 sm:h-80 md:h-96 rounded-lg overflow-hidden bg-muted flex items-center justify-center">
-          <p className="text-muted-foreground">이미지가 없습니다</p>
+          <p className="text-muted-foreground">{t("gallery.empty")}</p>
         </div>
       </section>
     );
@@ -142,10 +145,10 @@ export function DetailGallery({
   return (
     <section
       className={cn("space-y-6 sm:space-y-8 pt-8 sm:pt-12 border-t", className)}
-      aria-label="이미지 갤러리"
+      aria-label={t("gallery.title")}
     >
       {/* 섹션 제목 */}
-      <h2 className="text-2xl sm:text-3xl font-bold">이미지 갤러리</h2>
+      <h2 className="text-2xl sm:text-3xl font-bold">{t("gallery.title")}</h2>
 
       {/* 대표 이미지 */}
       <div className="relative w-full h-64 sm:h-80 md:h-96 rounded-lg overflow-hidden bg-muted">
@@ -159,12 +162,12 @@ export function DetailGallery({
               }
             }}
             className="relative w-full h-full focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2 rounded-lg min-h-[44px]"
-            aria-label={`${title} 이미지 ${selectedIndex + 1} 보기 (전체화면)`}
+            aria-label={t("gallery.openFullscreen", { title, index: selectedIndex + 1 })}
           >
             {!imageLoadErrors.has(selectedIndex) ? (
               <Image
                 src={currentImageUrl}
-                alt={currentImage?.imgname || `${title} 이미지 ${selectedIndex + 1}`}
+                alt={currentImage?.imgname || t("gallery.imageAlt", { title, index: selectedIndex + 1 })}
                 fill
                 className="object-cover cursor-pointer hover:opacity-90 transition-opacity"
                 sizes={mainImageSizes}
@@ -175,7 +178,7 @@ export function DetailGallery({
             ) : (
               <img
                 src={currentImageUrl}
-                alt={currentImage?.imgname || `${title} 이미지 ${selectedIndex + 1}`}
+                alt={currentImage?.imgname || t("gallery.imageAlt", { title, index: selectedIndex + 1 })}
                 className="w-full h-full object-cover cursor-pointer hover:opacity-90 transition-opacity"
                 onError={() => handleImageError(selectedIndex)}
               />
@@ -183,7 +186,7 @@ export function DetailGallery({
           </button>
         ) : (
           <div className="w-full h-full flex items-center justify-center">
-            <p className="text-muted-foreground">이미지를 불러올 수 없습니다</p>
+            <p className="text-muted-foreground">{t("gallery.loadFailed")}</p>
           </div>
         )}
 
@@ -195,7 +198,7 @@ export function DetailGallery({
               size="icon"
               onClick={handlePrevious}
               className="absolute left-2 top-1/2 -translate-y-1/2 min-h-[44px] min-w-[44px] bg-background/80 hover:bg-background"
-              aria-label="이전 이미지"
+              aria-label={t("gallery.previous")}
             >
               <ChevronLeft className="h-5 w-5" aria-hidden="true" />
             </Button>
@@ -204,7 +207,7 @@ export function DetailGallery({
               size="icon"
               onClick={handleNext}
               className="absolute right-2 top-1/2 -translate-y-1/2 min-h-[44px] min-w-[44px] bg-background/80 hover:bg-background"
-              aria-label="다음 이미지"
+              aria-label={t("gallery.next")}
             >
               <ChevronRight className="h-5 w-5" aria-hidden="true" />
             </Button>
@@ -224,7 +227,7 @@ export function DetailGallery({
         <div
           className="grid grid-cols-2 sm:grid-cols-4 md:grid-cols-5 gap-2 sm:gap-4"
           role="list"
-          aria-label="이미지 썸네일 목록"
+          aria-label={t("gallery.thumbnails")}
         >
           {images.map((image, index) => {
             const thumbnailUrl = normalizeImageUrl(
@@ -249,7 +252,7 @@ export function DetailGallery({
                     ? "ring-2 ring-primary ring-offset-2 scale-105"
                     : "hover:scale-105 hover:shadow-lg"
                 )}
-                aria-label={`${title} 이미지 ${index + 1} 선택`}
+                aria-label={t("gallery.selectImage", { title, index: index + 1 })}
                 aria-current={isSelected ? "true" : "false"}
                 role="listitem"
               >
@@ -258,7 +261,7 @@ export function DetailGallery({
                     {!imageLoadErrors.has(index) ? (
                       <Image
                         src={thumbnailUrl}
-                        alt={image.imgname || `${title} 썸네일 ${index + 1}`}
+                        alt={image.imgname || t("gallery.thumbnailAlt", { title, index: index + 1 })}
                         fill
                         className="object-cover"
                         sizes={thumbnailSizes}
@@ -269,7 +272,7 @@ export function DetailGallery({
                     ) : (
                       <img
                         src={thumbnailUrl}
-                        alt={image.imgname || `${title} 썸네일 ${index + 1}`}
+                        alt={image.imgname || t("gallery.thumbnailAlt", { title, index: index + 1 })}
                         className="w-full h-full object-cover"
                         onError={() => handleImageError(index)}
                       />
@@ -277,7 +280,7 @@ export function DetailGallery({
                   </>
                 ) : (
                   <div className="w-full h-full bg-muted flex items-center justify-center">
-                    <p className="text-xs text-muted-foreground">이미지 없음</p>
+                    <p className="text-xs text-muted-foreground">{t("common.noImage")}</p>
                   </div>
                 )}
               </button>
@@ -290,13 +293,13 @@ export function DetailGallery({
       <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
         <DialogContent
           className="max-w-7xl w-full h-full max-h-[95vh] p-0 bg-black/95"
-          aria-label="이미지 전체화면 보기"
+          aria-label={t("gallery.fullscreen")}
         >
           <div className="relative w-full h-full flex items-center justify-center">
             {/* 닫기 버튼 */}
             <DialogClose
               className="absolute top-4 right-4 z-50 min-h-[44px] min-w-[44px] bg-black/50 hover:bg-black/70 text-white rounded-full p-2"
-              aria-label="모달 닫기"
+              aria-label={t("gallery.close")}
             >
               <X className="h-6 w-6" aria-hidden="true" />
             </DialogClose>
@@ -307,7 +310,7 @@ export function DetailGallery({
                 {!imageLoadErrors.has(selectedIndex) ? (
                   <Image
                     src={currentImageUrl}
-                    alt={currentImage?.imgname || `${title} 이미지 ${selectedIndex + 1}`}
+                    alt={currentImage?.imgname || t("gallery.imageAlt", { title, index: selectedIndex + 1 })}
                     width={1920}
                     height={1080}
                     className="max-w-full max-h-full object-contain"
@@ -318,14 +321,14 @@ export function DetailGallery({
                 ) : (
                   <img
                     src={currentImageUrl}
-                    alt={currentImage?.imgname || `${title} 이미지 ${selectedIndex + 1}`}
+                    alt={currentImage?.imgname || t("gallery.imageAlt", { title, index: selectedIndex + 1 })}
                     className="max-w-full max-h-full object-contain"
                     onError={() => handleImageError(selectedIndex)}
                   />
                 )}
               </div>
             ) : (
-              <div className="text-white">이미지를 불러올 수 없습니다</div>
+              <div className="text-white">{t("gallery.loadFailed")}</div>
             )}
 
             {/* 모달 내 네비게이션 버튼 */}
@@ -336,7 +339,7 @@ export function DetailGallery({
                   size="icon"
                   onClick={handlePrevious}
                   className="absolute left-4 top-1/2 -translate-y-1/2 min-h-[44px] min-w-[44px] bg-black/50 hover:bg-black/70 text-white border-white/20"
-                  aria-label="이전 이미지"
+                  aria-label={t("gallery.previous")}
                 >
                   <ChevronLeft className="h-6 w-6" aria-hidden="true" />
                 </Button>
@@ -345,7 +348,7 @@ export function DetailGallery({
                   size="icon"
                   onClick={handleNext}
                   className="absolute right-4 top-1/2 -translate-y-1/2 min-h-[44px] min-w-[44px] bg-black/50 hover:bg-black/70 text-white border-white/20"
-                  aria-label="다음 이미지"
+                  aria-label={t("gallery.next")}
                 >
                   <ChevronRight className="h-6 w-6" aria-hidden="true" />
                 </Button>
@@ -0,0 +1,258 @@
+/**
+ * @file detail-info-repeat.tsx
+ * @description 관광지 반복 정보 섹션 컴포넌트
+ *
+ * 이 컴포넌트는 detailInfo2 API의 반복 정보를 콘텐츠 타입별로 표시합니다.
+ *
+ * 주요 기능:
+ * 1. 여행코스(25): 코스 경로를 순서 목록으로 표시 (각 장소 상세페이지 링크)
+ * 2. 숙박(32): 객실 목록을 표로 표시 (객실명, 크기, 인원, 요금)
+ * 3. 기타 타입: 항목명/내용 형태의 이용 안내 표시
+ * 4. 정보 없는 경우 숨김 처리
+ *
+ * @dependencies
+ * - lib/types/tour.ts: DetailInfoResponse, CourseInfoItem, RoomInfoItem, GeneralInfoItem 타입
+ * - lib/i18n: createTranslator, getRequestLocale (섹션 제목, 객실 표 문구), localizePath (코스 장소 링크)
+ * - next/link: 코스 장소 상세페이지 링크
+ * - lucide-react: ChevronRight 아이콘
+ *
+ * @see {@link /docs/PRD.MD} - 상세페이지 요구사항 참고
+ */
+
+import Link from "next/link";
+import { ChevronRight } from "lucide-react";
+import { CONTENT_TYPE } from "@/lib/types/tour";
+import type {
+  CourseInfoItem,
+  DetailInfoResponse,
+  GeneralInfoItem,
+  RoomInfoItem,
+} from "@/lib/types/tour";
+import { localizePath, type Locale } from "@/lib/i18n/locale";
+import { createTranslator, type Translator } from "@/lib/i18n/messages";
+import { getRequestLocale } from "@/lib/i18n/server";
+import { cn } from "@/lib/utils";
+
+interface DetailInfoRepeatProps {
+  /**
+   * 반복 정보 (콘텐츠 타입별 판별 유니온)
+   */
+  info: DetailInfoResponse;
+  /**
+   * 추가 클래스명
+   */
+  className?: string;
+}
+
+/**
+ * API 텍스트 정리
+ * 응답에 포함된 <br> 태그는 줄바꿈으로, 나머지 HTML 태그는 제거합니다.
+ */
+function cleanText(value: string | undefined | null): string {
+  return (value || "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<[^>]*>/g, "")
+    .trim();
+}
+
+/**
+ * 요금 포맷팅
+ * @returns 표시용 문자열 (예: "120,000원") 또는 빈 문자열 (요금 정보가 없는 경우)
+ */
+function formatFee(value: string | undefined, t: Translator): string {
+  const fee = Number(value);
+  return Number.isFinite(fee) && fee > 0 ? t("detailInfoRepeat.fee", { fee }) : "";
+}
+
+/**
+ * 객실 크기 포맷팅 (㎡ 우선, 없으면 평)
+ */
+function formatRoomSize(room: RoomInfoItem, t: Translator): string {
+  if (Number(room.roomsize2) > 0) {
+    return `${room.roomsize2}㎡`;
+  }
+  if (Number(room.roomsize1) > 0) {
+    return t("detailInfoRepeat.sizePyeong", { size: room.roomsize1 });
+  }
+  return "-";
+}
+
+/**
+ * 객실 인원 포맷팅 (기준 / 최대)
+ */
+function formatRoomCapacity(room: RoomInfoItem, t: Translator): string {
+  const base = Number(room.roombasecount) || 0;
+  const max = Number(room.roommaxcount) || 0;
+
+  if (base > 0 && max > base) {
+    return t("detailInfoRepeat.capacityRange", { base, max });
+  }
+  if (base > 0 || max > 0) {
+    return t("detailInfoRepeat.capacity", { count: Math.max(base, max) });
+  }
+  return "-";
+}
+
+/**
+ * 여행코스 경로 목록
+ * 코스 장소 콘텐츠 ID는 조회한 언어 서비스의 ID이므로 같은 로케일 경로로 연결합니다.
+ */
+function CourseStops({
+  items,
+  locale,
+  t,
+}: {
+  items: CourseInfoItem[];
+  locale: Locale;
+  t: Translator;
+}) {
+  return (
+    <ol className="space-y-4" aria-label={t("detailInfoRepeat.course")}>
+      {items.map((stop, index) => {
+        const overview = cleanText(stop.subdetailoverview);
+        return (
+          <li key={`${stop.subnum}-${stop.subcontentid}`} className="flex gap-4">
+            <span
+              className="flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full bg-primary text-primary-foreground text-sm font-bold"
+              aria-hidden="true"
+            >
+              {index + 1}
+            </span>
+            <div className="min-w-0 flex-1 space-y-1">
+              {stop.subcontentid ? (
+                <Link
+                  href={localizePath(`/places/${stop.subcontentid}`, locale)}
+                  className="inline-flex items-center gap-1 font-semibold text-base hover:text-primary transition-colors min-h-[44px] sm:min-h-0"
+                >
+                  {stop.subname}
+                  <ChevronRight className="h-4 w-4" aria-hidden="true" />
+                </Link>
+              ) : (
+                <p className="font-semibold text-base">{stop.subname}</p>
+              )}
+              {overview && (
+                <p className="text-sm text-muted-foreground whitespace-pre-line leading-relaxed line-clamp-4">
+                  {overview}
+                </p>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+/**
+ * 숙박 객실 목록 표
+ */
+function RoomTable({ items, t }: { items: RoomInfoItem[]; t: Translator }) {
+  return (
+    <div className="overflow-x-auto rounded-lg border">
+      <table className="w-full text-sm">
+        <caption className="sr-only">{t("detailInfoRepeat.roomList")}</caption>
+        <thead className="bg-muted/50">
+          <tr>
+            <th scope="col" className="px-4 py-3 text-left font-medium">{t("detailInfoRepeat.roomName")}</th>
+            <th scope="col" className="px-4 py-3 text-left font-medium whitespace-nowrap">{t("detailInfoRepeat.roomSize")}</th>
+            <th scope="col" className="px-4 py-3 text-left font-medium whitespace-nowrap">{t("detailInfoRepeat.roomCapacity")}</th>
+            <th scope="col" className="px-4 py-3 text-left font-medium whitespace-nowrap">{t("detailInfoRepeat.roomFee")}</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {items.map((room, index) => {
+            const offSeasonFee = formatFee(room.roomoffseasonminfee1, t);
+            const peakSeasonFee = formatFee(room.roompeakseasonminfee1, t);
+            return (
+              <tr key={room.roomcode || `${room.roomtitle}-${index}`}>
+                <th scope="row" className="px-4 py-3 text-left font-medium">
+                  {room.roomtitle || "-"}
+                </th>
+                <td className="px-4 py-3 whitespace-nowrap">{formatRoomSize(room, t)}</td>
+                <td className="px-4 py-3 whitespace-nowrap">{formatRoomCapacity(room, t)}</td>
+                <td className="px-4 py-3 whitespace-nowrap">
+                  {offSeasonFee || peakSeasonFee ? (
+                    <div className="space-y-0.5">
+                      {offSeasonFee && <p>{t("detailInfoRepeat.offSeason", { fee: offSeasonFee })}</p>}
+                      {peakSeasonFee && <p>{t("detailInfoRepeat.peakSeason", { fee: peakSeasonFee })}</p>}
+                    </div>
+                  ) : (
+                    <span className="text-muted-foreground">{t("detailInfoRepeat.inquire")}</span>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * 기타 이용 안내 목록
+ */
+function GeneralInfoList({ items }: { items: GeneralInfoItem[] }) {
+  return (
+    <dl className="space-y-4">
+      {items.map((item, index) => (
+        <div key={item.serialnum || `${item.infoname}-${index}`}>
+          <dt className="text-sm font-medium text-muted-foreground mb-1">
+            {cleanText(item.infoname)}
+          </dt>
+          <dd className="text-base text-foreground whitespace-pre-line leading-relaxed">
+            {cleanText(item.infotext)}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+/**
+ * 관광지 반복 정보 섹션 컴포넌트
+ */
+export async function DetailInfoRepeat({ info, className }: DetailInfoRepeatProps) {
+  if (info.items.length === 0) {
+    return null;
+  }
+
+  const locale = await getRequestLocale();
+  const t = createTranslator(locale);
+
+  let title: string;
+  let content: React.ReactNode;
+
+  switch (info.contentTypeId) {
+    case CONTENT_TYPE.TOUR_COURSE:
+      title = t("detailInfoRepeat.course");
+      content = <CourseStops items={info.items} locale={locale} t={t} />;
+      break;
+    case CONTENT_TYPE.ACCOMMODATION:
+      title = t("detailInfoRepeat.rooms");
+      content = <RoomTable items={info.items} t={t} />;
+      break;
+    default: {
+      const items = info.items.filter(
+        (item) => cleanText(item.infoname) && cleanText(item.infotext),
+      );
+      if (items.length === 0) {
+        return null;
+      }
+      title = t("detailInfoRepeat.general");
+      content = <GeneralInfoList items={items} />;
+    }
+  }
+
+  return (
+    <section
+      className={cn("space-y-6 sm:space-y-8 pt-8 sm:pt-12 border-t", className)}
+      aria-label={title}
+    >
+      {/* 섹션 제목 */}
+      <h2 className="text-2xl sm:text-3xl font-bold">{title}</h2>
+
+      {content}
+    </section>
+  );
+}
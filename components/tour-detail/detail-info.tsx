@@ -16,7 +16,8 @@
  *
  * @dependencies
  * - next/image: 이미지 최적화
- * - lib/types/tour.ts: TourDetail 타입, CONTENT_TYPE 상수
+ * - lib/types/tour.ts: TourDetail 타입
+ * - lib/i18n/names.ts: getContentTypeName (콘텐츠 타입명)
  * - lib/utils/image.ts: 이미지 유틸리티 함수
  * - components/ui/button.tsx: Button 컴포넌트
  * - components/providers/toast-provider.tsx: useToast hook
@@ -32,7 +33,8 @@ import Image from "next/image";
 import { Copy, Phone, ExternalLink, Check } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/components/providers/toast-provider";
-import { CONTENT_TYPE } from "@/lib/types/tour";
+import { useLocale, useTranslations } from "@/components/providers/locale-provider";
+import { getContentTypeName } from "@/lib/i18n/names";
 import type { TourDetail } from "@/lib/types/tour";
 import { cn } from "@/lib/utils";
 import {
@@ -52,25 +54,13 @@ interface DetailInfoProps {
   className?: string;
 }
 
-/**
- * 관광 타입명 매핑
- */
-const contentTypeNames: Record<string, string> = {
-  [CONTENT_TYPE.TOURIST_SPOT]: "관광지",
-  [CONTENT_TYPE.CULTURAL_FACILITY]: "문화시설",
-  [CONTENT_TYPE.FESTIVAL]: "축제/행사",
-  [CONTENT_TYPE.TOUR_COURSE]: "여행코스",
-  [CONTENT_TYPE.LEISURE_SPORTS]: "레포츠",
-  [CONTENT_TYPE.ACCOMMODATION]: "숙박",
-  [CONTENT_TYPE.SHOPPING]: "쇼핑",
-  [CONTENT_TYPE.RESTAURANT]: "음식점",
-};
-
 /**
  * 관광지 기본 정보 섹션 컴포넌트
  */
 export function DetailInfo({ detail, className }: DetailInfoProps) {
   const { success } = useToast();
+  const locale = useLocale();
+  const t = useTranslations();
   const [copied, setCopied] = useState(false);
   const [imageError, setImageError] = useState(false);
 
@@ -97,7 +87,7 @@ export function DetailInfo({ detail, className }: DetailInfoProps) {
       if (typeof window !== "undefined" && window.isSecureContext) {
         await navigator.clipboard.writeText(fullAddress);
         setCopied(true);
-        success("주소가 복사되었습니다.");
+        success(t("detailInfo.addressCopied"));
         setTimeout(() => setCopied(false), 2000);
       } else {
         // HTTPS가 아닌 경우 fallback (거의 없지만)
@@ -108,7 +98,7 @@ export function DetailInfo({ detail, className }: DetailInfoProps) {
         document.execCommand("copy");
         document.body.removeChild(textArea);
         setCopied(true);
-        success("주소가 복사되었습니다.");
+        success(t("detailInfo.addressCopied"));
         setTimeout(() => setCopied(false), 2000);
       }
     } catch (error) {
@@ -131,7 +121,7 @@ export function DetailInfo({ detail, className }: DetailInfoProps) {
   return (
     <section
       className={cn("space-y-6 sm:space-y-8", className)}
-      aria-label="기본 정보"
+      aria-label={t("detailInfo.label")}
     >
       {/* 관광지명 */}
       <div>
@@ -141,7 +131,7 @@ export function DetailInfo({ detail, className }: DetailInfoProps) {
         {detail.contenttypeid && (
           <div className="flex flex-wrap gap-2 mb-4">
             <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-primary/10 text-primary">
-              {contentTypeNames[detail.contenttypeid] || "기타"}
+              {getContentTypeName(detail.contenttypeid, locale)}
             </span>
           </div>
         )}
@@ -163,7 +153,7 @@ export function DetailInfo({ detail, className }: DetailInfoProps) {
         </div>
       ) : (
         <div className="relative w-full h-64 sm:h-80 md:h-96 rounded-lg overflow-hidden bg-muted flex items-center justify-center">
-          <p className="text-muted-foreground">이미지 없음</p>
+          <p className="text-muted-foreground">{t("common.noImage")}</p>
         </div>
       )}
 
@@ -172,7 +162,7 @@ export function DetailInfo({ detail, className }: DetailInfoProps) {
         <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4">
           <div className="flex-1">
             <p className="text-sm font-medium text-muted-foreground mb-1">
-              주소
+              {t("detailInfo.address")}
             </p>
             <p className="text-base">{fullAddress}</p>
           </div>
@@ -181,7 +171,7 @@ export function DetailInfo({ detail, className }: DetailInfoProps) {
             size="sm"
             onClick={handleCopyAddress}
             className="min-h-[44px] min-w-[44px] sm:min-w-[100px] focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
-            aria-label="주소 복사"
+            aria-label={t("detailInfo.copyAddress")}
             onKeyDown={(e) => {
               if (e.key === "Enter" || e.key === " ") {
                 e.preventDefault();
@@ -192,12 +182,12 @@ export function DetailInfo({ detail, className }: DetailInfoProps) {
             {copied ? (
               <>
                 <Check className="h-4 w-4 mr-2" aria-hidden="true" />
-                <span className="hidden sm:inline">복사됨</span>
+                <span className="hidden sm:inline">{t("common.copied")}</span>
               </>
             ) : (
               <>
                 <Copy className="h-4 w-4 mr-2" aria-hidden="true" />
-                <span className="hidden sm:inline">복사</span>
+                <span className="hidden sm:inline">{t("common.copy")}</span>
               </>
             )}
           </Button>
@@ -208,12 +198,12 @@ export function DetailInfo({ detail, className }: DetailInfoProps) {
       {detail.tel && (
         <div>
           <p className="text-sm font-medium text-muted-foreground mb-1">
-            전화번호
+            {t("detailInfo.tel")}
           </p>
           <a
             href={`tel:${detail.tel}`}
             className="inline-flex items-center gap-2 text-base hover:text-primary transition-colors min-h-[44px] focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2 rounded-md px-2 py-1"
-            aria-label={`${detail.tel}로 전화하기`}
+            aria-label={t("detailInfo.call", { tel: detail.tel })}
           >
             <Phone className="h-4 w-4" aria-hidden="true" />
             <span>{detail.tel}</span>
@@ -225,14 +215,14 @@ export function DetailInfo({ detail, className }: DetailInfoProps) {
       {homepageUrl && (
         <div>
           <p className="text-sm font-medium text-muted-foreground mb-1">
-            홈페이지
+            {t("detailInfo.homepage")}
           </p>
           <a
             href={homepageUrl}
             target="_blank"
             rel="noopener noreferrer"
             className="inline-flex items-center gap-2 text-base hover:text-primary transition-colors break-all min-h-[44px] focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2 rounded-md px-2 py-1"
-            aria-label={`${detail.title} 홈페이지 열기 (새 창)`}
+            aria-label={t("detailInfo.openHomepage", { title: detail.title })}
           >
             <ExternalLink className="h-4 w-4 flex-shrink-0" aria-hidden="true" />
             <span className="break-all">{homepageUrl}</span>
@@ -244,7 +234,7 @@ export function DetailInfo({ detail, className }: DetailInfoProps) {
       {detail.overview && (
         <div>
           <p className="text-sm font-medium text-muted-foreground mb-2">
-            개요
+            {t("detailInfo.overview")}
           </p>
           <div className="prose prose-sm max-w-none">
             <p className="text-base text-muted-foreground whitespace-pre-line leading-relaxed">
@@ -17,6 +17,7 @@
  *
  * @dependencies
  * - lib/types/tour.ts: TourIntro 타입, CONTENT_TYPE 상수
+ * - lib/i18n: createTranslator, getRequestLocale (필드 라벨)
  * - lucide-react: Clock, Calendar, DollarSign, Car, Users, Baby, Phone, ExternalLink 아이콘
  *
  * @see {@link /docs/PRD.MD} - 운영 정보 섹션 요구사항 참고
@@ -41,6 +42,8 @@ import {
 } from "lucide-react";
 import { CONTENT_TYPE } from "@/lib/types/tour";
 import type { TourIntro } from "@/lib/types/tour";
+import { createTranslator, type MessageKey, type Translator } from "@/lib/i18n/messages";
+import { getRequestLocale } from "@/lib/i18n/server";
 import { cn } from "@/lib/utils";
 
 interface DetailIntroProps {
@@ -58,39 +61,39 @@ interface DetailIntroProps {
  * 필드 라벨 매핑
  */
 interface FieldLabel {
-  label: string;
+  label: MessageKey;
   icon: React.ComponentType<{ className?: string }>;
 }
 
 const fieldLabels: Record<string, FieldLabel> = {
   // 공통 필드
-  usetime: { label: "운영시간", icon: Clock },
-  restdate: { label: "휴무일", icon: CalendarX },
-  infocenter: { label: "문의처", icon: Phone },
-  parking: { label: "주차 가능 여부", icon: Car },
-  chkpet: { label: "반려동물 동반 가능 여부", icon: Baby },
+  usetime: { label: "detailIntro.usetime", icon: Clock },
+  restdate: { label: "detailIntro.restdate", icon: CalendarX },
+  infocenter: { label: "detailIntro.infocenter", icon: Phone },
+  parking: { label: "detailIntro.parking", icon: Car },
+  chkpet: { label: "detailIntro.chkpet", icon: Baby },
   // 관광지(12) 필드
-  expguide: { label: "체험안내", icon: Activity },
-  expagerange: { label: "체험가능연령", icon: Users },
+  expguide: { label: "detailIntro.expguide", icon: Activity },
+  expagerange: { label: "detailIntro.expagerange", icon: Users },
   // 문화시설(14) 필드
-  usefee: { label: "이용요금", icon: DollarSign },
-  usetimeculture: { label: "관람시간", icon: Clock },
-  restdateculture: { label: "휴관일", icon: CalendarX },
+  usefee: { label: "detailIntro.usefee", icon: DollarSign },
+  usetimeculture: { label: "detailIntro.usetimeculture", icon: Clock },
+  restdateculture: { label: "detailIntro.restdateculture", icon: CalendarX },
   // 축제/행사(15) 필드
-  playtime: { label: "공연시간", icon: Clock },
-  eventplace: { label: "행사장소", icon: MapPin },
-  eventhomepage: { label: "행사홈페이지", icon: ExternalLink },
+  playtime: { label: "detailIntro.playtime", icon: Clock },
+  eventplace: { label: "detailIntro.eventplace", icon: MapPin },
+  eventhomepage: { label: "detailIntro.eventhomepage", icon: ExternalLink },
   // 레포츠(28) 필드
-  openperiod: { label: "개장기간", icon: CalendarCheck },
-  reservation: { label: "예약안내", icon: Phone },
+  openperiod: { label: "detailIntro.openperiod", icon: CalendarCheck },
+  reservation: { label: "detailIntro.reservation", icon: Phone },
   // 숙박(32) 필드
-  checkintime: { label: "체크인", icon: Clock },
-  checkouttime: { label: "체크아웃", icon: Clock },
-  roomcount: { label: "객실수", icon: Bed },
+  checkintime: { label: "detailIntro.checkintime", icon: Clock },
+  checkouttime: { label: "detailIntro.checkouttime", icon: Clock },
+  roomcount: { label: "detailIntro.roomcount", icon: Bed },
   // 음식점(39) 필드
-  firstmenu: { label: "대표메뉴", icon: UtensilsCrossed },
-  treatmenu: { label: "취급메뉴", icon: UtensilsCrossed },
-  opentimefood: { label: "영업시간", icon: Clock },
+  firstmenu: { label: "detailIntro.firstmenu", icon: UtensilsCrossed },
+  treatmenu: { label: "detailIntro.treatmenu", icon: UtensilsCrossed },
+  opentimefood: { label: "detailIntro.opentimefood", icon: Clock },
 };
 
 /**
@@ -128,9 +131,11 @@ function hasValue(value: string | undefined | null): boolean {
 function InfoItem({
   fieldKey,
   value,
+  t,
 }: {
   fieldKey: string;
   value: string;
+  t: Translator;
 }) {
   const fieldInfo = fieldLabels[fieldKey];
   if (!fieldInfo) return null;
@@ -144,14 +149,14 @@ function InfoItem({
     return (
       <div>
         <p className="text-sm font-medium text-muted-foreground mb-1">
-          {fieldInfo.label}
+          {t(fieldInfo.label)}
         </p>
         <a
           href={url}
           target="_blank"
           rel="noopener noreferrer"
           className="inline-flex items-center gap-2 text-base hover:text-primary transition-colors break-all min-h-[44px] focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2 rounded-md px-2 py-1"
-          aria-label={`${fieldInfo.label} 열기 (새 창)`}
+          aria-label={t("detailIntro.openLink", { label: t(fieldInfo.label) })}
         >
           <Icon className="h-4 w-4 flex-shrink-0" aria-hidden="true" />
           <span className="break-all">{value}</span>
@@ -164,7 +169,7 @@ function InfoItem({
   return (
     <div>
       <p className="text-sm font-medium text-muted-foreground mb-1">
-        {fieldInfo.label}
+        {t(fieldInfo.label)}
       </p>
       <div className="flex items-start gap-2">
         <Icon className="h-4 w-4 mt-1 flex-shrink-0 text-muted-foreground" aria-hidden="true" />
@@ -179,7 +184,7 @@ function InfoItem({
 /**
  * 관광지 운영 정보 섹션 컴포넌트
  */
-export function DetailIntro({ intro, className }: DetailIntroProps) {
+export async function DetailIntro({ intro, className }: DetailIntroProps) {
   // 공통 필드 목록
   const commonFields: string[] = [
     "usetime",
@@ -208,13 +213,15 @@ export function DetailIntro({ intro, className }: DetailIntroProps) {
     return null;
   }
 
+  const t = createTranslator(await getRequestLocale());
+
   return (
     <section
       className={cn("space-y-6 sm:space-y-8 pt-8 sm:pt-12 border-t", className)}
-      aria-label="운영 정보"
+      aria-label={t("detailIntro.title")}
     >
       {/* 섹션 제목 */}
-      <h2 className="text-2xl sm:text-3xl font-bold">운영 정보</h2>
+      <h2 className="text-2xl sm:text-3xl font-bold">{t("detailIntro.title")}</h2>
 
       {/* 공통 필드 */}
       {displayCommonFields.length > 0 && (
@@ -223,7 +230,7 @@ export function DetailIntro({ intro, className }: DetailIntroProps) {
             const value = intro[field as keyof TourIntro] as string | undefined;
             if (!hasValue(value)) return null;
             return (
-              <InfoItem key={field} fieldKey={field} value={value!} />
+              <InfoItem key={field} fieldKey={field} value={value!} t={t} />
             );
           })}
         </div>
@@ -236,7 +243,7 @@ export function DetailIntro({ intro, className }: DetailIntroProps) {
             const value = intro[field as keyof TourIntro] as string | undefined;
             if (!hasValue(value)) return null;
             return (
-              <InfoItem key={field} fieldKey={field} value={value!} />
+              <InfoItem key={field} fieldKey={field} value={value!} t={t} />
             );
           })}
         </div>
@@ -11,6 +11,7 @@
 import dynamic from "next/dynamic";
 import { Skeleton } from "@/components/ui/skeleton";
 import type { TourDetail } from "@/lib/types/tour";
+import type { CourseStop } from "@/components/tour-detail/detail-map";
 
 const DetailMap = dynamic(
   () => import("@/components/tour-detail/detail-map").then((mod) => ({
@@ -29,9 +30,10 @@ const DetailMap = dynamic(
 
 interface DetailMapWrapperProps {
   detail: TourDetail;
+  courseStops?: CourseStop[];
 }
 
-export function DetailMapWrapper({ detail }: DetailMapWrapperProps) {
-  return <DetailMap detail={detail} />;
+export function DetailMapWrapper({ detail, courseStops }: DetailMapWrapperProps) {
+  return <DetailMap detail={detail} courseStops={courseStops} />;
 }
 
@@ -7,13 +7,17 @@
  * 주요 기능:
  * 1. Naver Maps API v3 (NCP) 초기화
  * 2. 단일 관광지 마커 표시
- * 3. 좌표 변환 (KATEC → WGS84)
+ * 3. 좌표 변환 (lib/geo, 변환할 수 없는 좌표는 지도 대신 안내 문구 표시)
  * 4. 길찾기 버튼 (네이버 지도 앱/웹 연동)
  * 5. 좌표 정보 표시
+ * 6. 여행코스 경로 표시 (번호 마커, 경로선, 구간별 직선거리, 클릭 시 해당 장소로 이동)
  *
  * @dependencies
  * - Naver Maps JavaScript API v3 (NCP)
  * - lib/types/tour.ts: TourDetail 타입
+ * - lib/geo/coordinates.ts: toLatLng 함수
+ * - lib/geo/measure.ts: getDistance 함수
+ * - lib/utils/distance.ts: formatDistance 함수
  * - components/ui/button.tsx: Button 컴포넌트
  * - lucide-react: Navigation, Copy, Check 아이콘
  * - components/providers/toast-provider.tsx: useToast hook
@@ -23,18 +27,39 @@
 
 "use client";
 
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { Navigation, Copy, Check } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/components/providers/toast-provider";
+import { useTranslations } from "@/components/providers/locale-provider";
+import type { MessageKey } from "@/lib/i18n/messages";
 import type { TourDetail } from "@/lib/types/tour";
 import { cn } from "@/lib/utils";
+import { toLatLng } from "@/lib/geo/coordinates";
+import { getDistance } from "@/lib/geo/measure";
+import { formatDistance } from "@/lib/utils/distance";
+
+/**
+ * 여행코스 경로의 장소 정보
+ */
+export interface CourseStop {
+  contentid: string;
+  title: string;
+  mapx: string;
+  mapy: string;
+  addr1?: string;
+}
 
 interface DetailMapProps {
   /**
    * 관광지 상세 정보
    */
   detail: TourDetail;
+  /**
+   * 여행코스 경로 장소 목록 (코스 순서대로)
+   * 제공되면 단일 마커 대신 번호 마커와 경로선을 표시합니다.
+   */
+  courseStops?: CourseStop[];
   /**
    * 추가 클래스명
    */
@@ -42,40 +67,117 @@ interface DetailMapProps {
 }
 
 /**
- * KATEC 좌표를 WGS84로 변환
- * @param mapx KATEC 경도 (정수형)
- * @param mapy KATEC 위도 (정수형)
- * @returns WGS84 좌표 {lng, lat}
+ * 인포윈도우 내용 생성
  */
-function convertKATECToWGS84(
-  mapx: string | number,
-  mapy: string | number
-): { lng: number; lat: number } {
-  const x = typeof mapx === "string" ? parseFloat(mapx) : mapx;
-  const y = typeof mapy === "string" ? parseFloat(mapy) : mapy;
-
-  // KATEC 좌표를 10000000으로 나누어 변환
-  return {
-    lng: x / 10000000,
-    lat: y / 10000000,
-  };
+function createInfoWindowContent(title: string, address?: string): string {
+  return `
+    <div style="
+      padding: 12px;
+      min-width: 200px;
+      max-width: 300px;
+    ">
+      <h3 style="
+        font-weight: 600;
+        font-size: 14px;
+        margin-bottom: 8px;
+        line-height: 1.4;
+      ">${title}</h3>
+      <p style="
+        font-size: 12px;
+        color: #666;
+        margin-bottom: 12px;
+        line-height: 1.4;
+      ">${address || ""}</p>
+    </div>
+  `;
+}
+
+/**
+ * 여행코스 번호 마커 아이콘 HTML 생성
+ */
+function createStopMarkerContent(order: number): string {
+  return `
+    <div style="
+      background-color: #3b82f6;
+      color: white;
+      width: 28px;
+      height: 28px;
+      border-radius: 50%;
+      border: 2px solid white;
+      box-shadow: 0 2px 8px rgba(0,0,0,0.3);
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      font-size: 13px;
+      font-weight: 700;
+    ">${order}</div>
+  `;
 }
 
 /**
  * 관광지 상세페이지 지도 컴포넌트
  */
-export function DetailMap({ detail, className }: DetailMapProps) {
+export function DetailMap({ detail, courseStops, className }: DetailMapProps) {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<any>(null);
   const markerRef = useRef<any>(null);
+  const stopMarkersRef = useRef<any[]>([]);
+  const polylineRef = useRef<any>(null);
   const infoWindowRef = useRef<any>(null);
   const [isMapLoaded, setIsMapLoaded] = useState(false);
-  const [mapError, setMapError] = useState<string | null>(null);
+  const [mapError, setMapError] = useState<MessageKey | null>(null);
   const [copied, setCopied] = useState(false);
+  const [activeStopIndex, setActiveStopIndex] = useState<number | null>(null);
   const { success } = useToast();
+  const t = useTranslations();
+
+  // 좌표 변환 (변환할 수 없으면 null)
+  const coords = useMemo(() => toLatLng(detail.mapx, detail.mapy), [detail.mapx, detail.mapy]);
+
+  // 여행코스 장소 좌표 변환 (변환할 수 없는 장소는 제외) 및 구간 거리 계산
+  const stops = useMemo(
+    () =>
+      (courseStops || []).flatMap((stop) => {
+        const position = toLatLng(stop.mapx, stop.mapy);
+        return position ? [{ ...stop, ...position }] : [];
+      }),
+    [courseStops],
+  );
+  const isCourse = stops.length > 0;
+  const segmentDistances = useMemo(
+    () =>
+      stops
+        .slice(1)
+        .map((stop, index) => getDistance(stops[index], stop)),
+    [stops],
+  );
+  const totalDistance = segmentDistances.reduce((sum, dist) => sum + dist, 0);
+
+  // 여행코스 장소로 지도 이동 및 인포윈도우 표시
+  const focusStop = useCallback(
+    (index: number) => {
+      const map = mapInstanceRef.current;
+      const marker = stopMarkersRef.current[index];
+      const stop = stops[index];
+      if (!map || !marker || !stop || !window.naver?.maps) return;
 
-  // 좌표 변환
-  const coords = convertKATECToWGS84(detail.mapx, detail.mapy);
+      map.panTo(new window.naver.maps.LatLng(stop.lat, stop.lng));
+      if (infoWindowRef.current) {
+        infoWindowRef.current.setContent(
+          createInfoWindowContent(`${index + 1}. ${stop.title}`, stop.addr1),
+        );
+        infoWindowRef.current.open(map, marker);
+      }
+      setActiveStopIndex(index);
+    },
+    [stops],
+  );
+
+  // 마커 클릭 리스너에서 최신 focusStop을 사용하기 위한 ref
+  const focusStopRef = useRef(focusStop);
+  useEffect(() => {
+    focusStopRef.current = focusStop;
+  }, [focusStop]);
 
   // 네이버 지도 API 로드
   useEffect(() => {
@@ -91,7 +193,7 @@ export function DetailMap({ detail, className }: DetailMapProps) {
 
     const ncpKeyId = process.env.NEXT_PUBLIC_NAVER_MAP_CLIENT_ID;
     if (!ncpKeyId) {
-      setMapError("네이버 지도 API 키가 설정되지 않았습니다.");
+      setMapError("map.missingKey");
       return;
     }
 
@@ -103,11 +205,11 @@ export function DetailMap({ detail, className }: DetailMapProps) {
       if (window.naver && window.naver.maps) {
         setIsMapLoaded(true);
       } else {
-        setMapError("네이버 지도 API를 로드할 수 없습니다.");
+        setMapError("map.loadFailed");
       }
     };
     script.onerror = () => {
-      setMapError("네이버 지도 API 스크립트를 로드하는 중 오류가 발생했습니다.");
+      setMapError("map.scriptError");
     };
 
     document.head.appendChild(script);
@@ -121,8 +223,12 @@ export function DetailMap({ detail, className }: DetailMapProps) {
   useEffect(() => {
     if (!isMapLoaded || !mapRef.current || !window.naver?.maps) return;
 
+    // 여행코스는 관광지 좌표가 없어도 장소 좌표로 표시
+    const center = coords ?? stops[0];
+    if (!center) return;
+
     try {
-      const position = new window.naver.maps.LatLng(coords.lat, coords.lng);
+      const position = new window.naver.maps.LatLng(center.lat, center.lng);
 
       // 지도 생성
       const map = new window.naver.maps.Map(mapRef.current, {
@@ -136,14 +242,68 @@ export function DetailMap({ detail, className }: DetailMapProps) {
 
       mapInstanceRef.current = map;
 
-      // 기존 마커 및 인포윈도우 제거
+      // 기존 마커, 경로선 및 인포윈도우 제거
       if (markerRef.current) {
         markerRef.current.setMap(null);
+        markerRef.current = null;
+      }
+      stopMarkersRef.current.forEach((marker) => marker.setMap(null));
+      stopMarkersRef.current = [];
+      if (polylineRef.current) {
+        polylineRef.current.setMap(null);
+        polylineRef.current = null;
       }
       if (infoWindowRef.current) {
         infoWindowRef.current.close();
       }
 
+      // 여행코스: 번호 마커 + 경로선
+      if (isCourse) {
+        const path = stops.map(
+          (stop) => new window.naver.maps.LatLng(stop.lat, stop.lng),
+        );
+
+        polylineRef.current = new window.naver.maps.Polyline({
+          map,
+          path,
+          strokeColor: "#3b82f6",
+          strokeWeight: 4,
+          strokeOpacity: 0.8,
+        });
+
+        stopMarkersRef.current = stops.map((stop, index) => {
+          const marker = new window.naver!.maps.Marker({
+            position: path[index],
+            map,
+            title: stop.title,
+            icon: {
+              content: createStopMarkerContent(index + 1),
+              anchor: new window.naver!.maps.Point(14, 14),
+            },
+          });
+
+          window.naver!.maps.Event.addListener(marker, "click", () => {
+            focusStopRef.current(index);
+          });
+
+          return marker;
+        });
+
+        infoWindowRef.current = new window.naver.maps.InfoWindow({
+          content: "",
+        });
+
+        // 모든 장소가 보이도록 지도 범위 조정
+        if (path.length > 1) {
+          const bounds = new window.naver.maps.LatLngBounds();
+          path.forEach((point) => bounds.extend(point));
+          map.fitBounds(bounds, { padding: 50 });
+        } else {
+          map.setCenter(path[0]);
+        }
+        return;
+      }
+
       // 마커 생성
       const marker = new window.naver.maps.Marker({
         position,
@@ -168,26 +328,7 @@ export function DetailMap({ detail, className }: DetailMapProps) {
 
       // 인포윈도우 생성
       const infoWindow = new window.naver.maps.InfoWindow({
-        content: `
-          <div style="
-            padding: 12px;
-            min-width: 200px;
-            max-width: 300px;
-          ">
-            <h3 style="
-              font-weight: 600;
-              font-size: 14px;
-              margin-bottom: 8px;
-              line-height: 1.4;
-            ">${detail.title}</h3>
-            <p style="
-              font-size: 12px;
-              color: #666;
-              margin-bottom: 12px;
-              line-height: 1.4;
-            ">${detail.addr1 || ""}</p>
-          </div>
-        `,
+        content: createInfoWindowContent(detail.title, detail.addr1),
       });
 
       infoWindowRef.current = infoWindow;
@@ -201,20 +342,24 @@ export function DetailMap({ detail, className }: DetailMapProps) {
       infoWindow.open(map, marker);
     } catch (error) {
       console.error("지도 초기화 실패:", error);
-      setMapError("지도를 초기화할 수 없습니다.");
+      setMapError("map.initFailed");
     }
-  }, [isMapLoaded, coords.lat, coords.lng, detail.title, detail.addr1]);
+  }, [isMapLoaded, coords, detail.title, detail.addr1, isCourse, stops]);
 
   // 좌표 복사 기능
   const handleCopyCoordinates = async () => {
-    const coordinatesText = `위도: ${coords.lat.toFixed(6)}, 경도: ${coords.lng.toFixed(6)}`;
+    if (!coords) return;
+    const coordinatesText = t("detailMap.coordinatesValue", {
+      lat: coords.lat.toFixed(6),
+      lng: coords.lng.toFixed(6),
+    });
 
     try {
       // HTTPS 환경 확인
       if (typeof window !== "undefined" && window.isSecureContext) {
         await navigator.clipboard.writeText(coordinatesText);
         setCopied(true);
-        success("좌표가 복사되었습니다.");
+        success(t("detailMap.coordinatesCopied"));
         setTimeout(() => setCopied(false), 2000);
       } else {
         // HTTPS가 아닌 경우 fallback
@@ -225,7 +370,7 @@ export function DetailMap({ detail, className }: DetailMapProps) {
         document.execCommand("copy");
         document.body.removeChild(textArea);
         setCopied(true);
-        success("좌표가 복사되었습니다.");
+        success(t("detailMap.coordinatesCopied"));
         setTimeout(() => setCopied(false), 2000);
       }
     } catch (error) {
@@ -233,18 +378,39 @@ export function DetailMap({ detail, className }: DetailMapProps) {
     }
   };
 
+  // 섹션 제목
+  const sectionTitle = isCourse ? t("detailMap.courseTitle") : t("detailMap.title");
+
   // 길찾기 URL 생성
-  const directionsUrl = `https://map.naver.com/v5/directions/${coords.lng},${coords.lat}`;
+  const directionsUrl = coords
+    ? `https://map.naver.com/v5/directions/${coords.lng},${coords.lat}`
+    : null;
+
+  if (!coords && !isCourse) {
+    return (
+      <section
+        className={cn("space-y-6 sm:space-y-8 pt-8 sm:pt-12 border-t", className)}
+        aria-label={t("mobileTabs.map")}
+      >
+        <h2 className="text-2xl sm:text-3xl font-bold">{sectionTitle}</h2>
+        <div className="flex items-center justify-center h-64 sm:h-96 bg-muted rounded-lg">
+          <p className="text-sm text-muted-foreground">
+            {t("detailMap.invalidCoordinates")}
+          </p>
+        </div>
+      </section>
+    );
+  }
 
   if (mapError) {
     return (
       <section
         className={cn("space-y-6 sm:space-y-8 pt-8 sm:pt-12 border-t", className)}
-        aria-label="지도"
+        aria-label={t("mobileTabs.map")}
       >
-        <h2 className="text-2xl sm:text-3xl font-bold">위치</h2>
+        <h2 className="text-2xl sm:text-3xl font-bold">{sectionTitle}</h2>
         <div className="flex items-center justify-center h-64 sm:h-96 bg-muted rounded-lg">
-          <p className="text-sm text-muted-foreground">{mapError}</p>
+          <p className="text-sm text-muted-foreground">{t(mapError)}</p>
         </div>
       </section>
     );
@@ -254,11 +420,11 @@ export function DetailMap({ detail, className }: DetailMapProps) {
     return (
       <section
         className={cn("space-y-6 sm:space-y-8 pt-8 sm:pt-12 border-t", className)}
-        aria-label="지도"
+        aria-label={t("mobileTabs.map")}
       >
-        <h2 className="text-2xl sm:text-3xl font-bold">위치</h2>
+        <h2 className="text-2xl sm:text-3xl font-bold">{sectionTitle}</h2>
         <div className="flex items-center justify-center h-64 sm:h-96 bg-muted rounded-lg">
-          <p className="text-sm text-muted-foreground">지도를 불러오는 중...</p>
+          <p className="text-sm text-muted-foreground">{t("map.loading")}</p>
         </div>
       </section>
     );
@@ -267,75 +433,137 @@ export function DetailMap({ detail, className }: DetailMapProps) {
   return (
     <section
       className={cn("space-y-6 sm:space-y-8 pt-8 sm:pt-12 border-t", className)}
-      aria-label="지도"
+      aria-label={t("mobileTabs.map")}
     >
-      <h2 className="text-2xl sm:text-3xl font-bold">위치</h2>
+      <h2 className="text-2xl sm:text-3xl font-bold">{sectionTitle}</h2>
 
       {/* 지도 컨테이너 */}
       <div className="relative">
         <div
           ref={mapRef}
           className="w-full h-64 sm:h-96 rounded-lg overflow-hidden"
-          aria-label="네이버 지도"
+          aria-label={t("map.naverMap")}
         />
 
         {/* 길찾기 버튼 (지도 위 오버레이) */}
-        <div className="absolute bottom-4 right-4 z-10">
-          <Button
-            asChild
-            size="sm"
-            className="min-h-[44px] shadow-lg"
-            aria-label="길찾기"
-          >
-            <a
-              href={directionsUrl}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="inline-flex items-center gap-2"
+        {directionsUrl && (
+          <div className="absolute bottom-4 right-4 z-10">
+            <Button
+              asChild
+              size="sm"
+              className="min-h-[44px] shadow-lg"
+              aria-label={t("detailMap.directions")}
             >
-              <Navigation className="h-4 w-4" aria-hidden="true" />
-              <span>길찾기</span>
-            </a>
-          </Button>
-        </div>
+              <a
+                href={directionsUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-2"
+              >
+                <Navigation className="h-4 w-4" aria-hidden="true" />
+                <span>{t("detailMap.directions")}</span>
+              </a>
+            </Button>
+          </div>
+        )}
       </div>
 
+      {/* 여행코스 경로 목록 (클릭 시 해당 장소로 지도 이동) */}
+      {isCourse && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm font-medium text-muted-foreground">
+              {t("detailMap.courseStops", { count: stops.length })}
+            </p>
+            {totalDistance > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {t("detailMap.totalDistance", { distance: formatDistance(totalDistance) })}
+              </p>
+            )}
+          </div>
+          <ol className="space-y-1" aria-label={t("detailMap.courseStopsLabel")}>
+            {stops.map((stop, index) => (
+              <li key={`${stop.contentid}-${index}`}>
+                {index > 0 && (
+                  <p
+                    className="pl-[1.625rem] py-1 text-xs text-muted-foreground"
+                    aria-label={t("detailMap.segmentDistance", { distance: formatDistance(segmentDistances[index - 1]) })}
+                  >
+                    ↓ {formatDistance(segmentDistances[index - 1])}
+                  </p>
+                )}
+                <button
+                  type="button"
+                  onClick={() => focusStop(index)}
+                  className={cn(
+                    "w-full flex items-center gap-3 p-2 rounded-lg text-left transition-colors hover:bg-accent min-h-[44px]",
+                    "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2",
+                    activeStopIndex === index && "bg-accent",
+                  )}
+                  aria-pressed={activeStopIndex === index}
+                  aria-label={t("detailMap.focusStop", { order: index + 1, title: stop.title })}
+                >
+                  <span
+                    className="flex h-7 w-7 flex-shrink-0 items-center justify-center rounded-full bg-primary text-primary-foreground text-xs font-bold"
+                    aria-hidden="true"
+                  >
+                    {index + 1}
+                  </span>
+                  <span className="min-w-0">
+                    <span className="block text-sm font-medium truncate">
+                      {stop.title}
+                    </span>
+                    {stop.addr1 && (
+                      <span className="block text-xs text-muted-foreground truncate">
+                        {stop.addr1}
+                      </span>
+                    )}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
       {/* 좌표 정보 */}
-      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 sm:gap-4 p-4 bg-muted rounded-lg">
-        <div className="flex-1">
-          <p className="text-sm font-medium text-muted-foreground mb-1">
-            좌표
-          </p>
-          <p className="text-sm">
-            위도: {coords.lat.toFixed(6)}, 경도: {coords.lng.toFixed(6)}
-          </p>
+      {coords && (
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 sm:gap-4 p-4 bg-muted rounded-lg">
+          <div className="flex-1">
+            <p className="text-sm font-medium text-muted-foreground mb-1">
+              {t("detailMap.coordinates")}
+            </p>
+            <p className="text-sm">
+              {t("detailMap.coordinatesValue", { lat: coords.lat.toFixed(6), lng: coords.lng.toFixed(6) })}
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleCopyCoordinates}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" || e.key === " ") {
+                e.preventDefault();
+                handleCopyCoordinates();
+              }
+            }}
+            className="min-h-[44px] min-w-[44px] sm:min-w-[100px] focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
+            aria-label={t("detailMap.copyCoordinates")}
+          >
+            {copied ? (
+              <>
+                <Check className="h-4 w-4 mr-2" aria-hidden="true" />
+                <span className="hidden sm:inline">{t("common.copied")}</span>
+              </>
+            ) : (
+              <>
+                <Copy className="h-4 w-4 mr-2" aria-hidden="true" />
+                <span className="hidden sm:inline">{t("common.copy")}</span>
+              </>
+            )}
+          </Button>
         </div>
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={handleCopyCoordinates}
-          onKeyDown={(e) => {
-            if (e.key === "Enter" || e.key === " ") {
-              e.preventDefault();
-              handleCopyCoordinates();
-            }
-          }}
-          className="min-h-[44px] min-w-[44px] sm:min-w-[100px] focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
-          aria-label="좌표 복사"
-        >
-          {copied ? (
-            <>
-              <Check className="h-4 w-4 mr-2" aria-hidden="true" />
-              <span className="hidden sm:inline">복사됨</span>
-            </>
-          ) : (
-            <>
-              <Copy className="h-4 w-4 mr-2" aria-hidden="true" />
-              <span className="hidden sm:inline">복사</span>
-            </>
-          )}
-        </Button>
-      </div>
+      )}
     </section>
   );
 }
@@ -347,17 +575,26 @@ declare global {
       maps: {
         Map: new (element: HTMLElement, options: any) => any;
         LatLng: new (lat: number, lng: number) => any;
+        LatLngBounds: new () => any;
         Marker: new (options: any) => any;
         InfoWindow: new (options: any) => any;
+        Polyline: new (options: any) => any;
         Point: new (x: number, y: number) => any;
         Position: {
           TOP_RIGHT: any;
         };
+        MapTypeId: {
+          NORMAL: any;
+          SATELLITE: any;
+        };
         Event: {
-          addListener: (target: any, event: string, handler: () => void) => void;
+          addListener: (
+            target: any,
+            event: string,
+            handler: () => void,
+          ) => void;
         };
       };
     };
   }
 }
-
@@ -16,6 +16,8 @@
  *
  * @dependencies
  * - lib/types/tour.ts: PetTourInfo 타입
+ * - lib/utils/pet-tour.ts: getPetAllowance, getPetSizeLimit, getPetPlaceType 함수
+ * - lib/i18n: createTranslator, getRequestLocale (필드 라벨, 뱃지 문구)
  * - lucide-react: PawPrint, Ruler, Home, MapPin, DollarSign, Info, Car, AlertTriangle 아이콘
  *
  * @see {@link /docs/PRD.MD} - 반려동물 동반 여행 섹션 요구사항 참고
@@ -32,7 +34,10 @@ import {
   AlertTriangle,
 } from "lucide-react";
 import type { PetTourInfo } from "@/lib/types/tour";
+import { createTranslator, type MessageKey, type Translator } from "@/lib/i18n/messages";
+import { getRequestLocale } from "@/lib/i18n/server";
 import { cn } from "@/lib/utils";
+import { getPetAllowance, getPetPlaceType, getPetSizeLimit } from "@/lib/utils/pet-tour";
 
 interface DetailPetTourProps {
   /**
@@ -49,17 +54,17 @@ interface DetailPetTourProps {
  * 필드 라벨 매핑
  */
 interface FieldLabel {
-  label: string;
+  label: MessageKey;
   icon: React.ComponentType<{ className?: string }>;
 }
 
 const fieldLabels: Record<string, FieldLabel> = {
-  chkpetleash: { label: "반려동물 동반 여부", icon: PawPrint },
-  chkpetsize: { label: "반려동물 크기 제한", icon: Ruler },
-  chkpetplace: { label: "입장 가능 장소", icon: Home },
-  chkpetfee: { label: "추가 요금", icon: DollarSign },
-  petinfo: { label: "기타 반려동물 정보", icon: Info },
-  parking: { label: "주차장 정보", icon: Car },
+  chkpetleash: { label: "petTour.chkpetleash", icon: PawPrint },
+  chkpetsize: { label: "petTour.chkpetsize", icon: Ruler },
+  chkpetplace: { label: "petTour.chkpetplace", icon: Home },
+  chkpetfee: { label: "petTour.chkpetfee", icon: DollarSign },
+  petinfo: { label: "petTour.petinfo", icon: Info },
+  parking: { label: "petTour.parking", icon: Car },
 };
 
 /**
@@ -72,24 +77,23 @@ function hasValue(value: string | undefined | null): boolean {
 /**
  * 반려동물 동반 가능 여부를 뱃지로 표시
  */
-function PetAllowedBadge({ value }: { value: string }) {
-  const isAllowed = value.includes("가능") || value.includes("예") || value.toLowerCase().includes("yes");
-  const isNotAllowed = value.includes("불가능") || value.includes("불가") || value.includes("아니오") || value.toLowerCase().includes("no");
+function PetAllowedBadge({ value, t }: { value: string; t: Translator }) {
+  const allowance = getPetAllowance(value);
 
-  if (isAllowed) {
+  if (allowance === "allowed") {
     return (
       <span className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm font-medium bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400">
         <PawPrint className="h-4 w-4" aria-hidden="true" />
-        반려동물 동반 가능
+        {t("petTour.allowed")}
       </span>
     );
   }
 
-  if (isNotAllowed) {
+  if (allowance === "notAllowed") {
     return (
       <span className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm font-medium bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400">
         <AlertTriangle className="h-4 w-4" aria-hidden="true" />
-        반려동물 동반 불가능
+        {t("petTour.notAllowed")}
       </span>
     );
   }
@@ -106,34 +110,32 @@ function PetAllowedBadge({ value }: { value: string }) {
 /**
  * 반려동물 크기 제한을 색상별 뱃지로 표시
  */
-function PetSizeBadge({ value }: { value: string }) {
-  const isSmall = value.includes("소형") || value.includes("소");
-  const isMedium = value.includes("중형") || value.includes("중");
-  const isLarge = value.includes("대형") || value.includes("대");
+function PetSizeBadge({ value, t }: { value: string; t: Translator }) {
+  const sizeLimit = getPetSizeLimit(value);
 
-  if (isSmall) {
+  if (sizeLimit === "small") {
     return (
       <span className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm font-medium bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400">
         <Ruler className="h-4 w-4" aria-hidden="true" />
-        소형견 가능
+        {t("petTour.small")}
       </span>
     );
   }
 
-  if (isMedium) {
+  if (sizeLimit === "medium") {
     return (
       <span className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm font-medium bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400">
         <Ruler className="h-4 w-4" aria-hidden="true" />
-        중형견 가능
+        {t("petTour.medium")}
       </span>
     );
   }
 
-  if (isLarge) {
+  if (sizeLimit === "large") {
     return (
       <span className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm font-medium bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400">
         <Ruler className="h-4 w-4" aria-hidden="true" />
-        대형견 가능
+        {t("petTour.large")}
       </span>
     );
   }
@@ -153,9 +155,11 @@ function PetSizeBadge({ value }: { value: string }) {
 function InfoItem({
   fieldKey,
   value,
+  t,
 }: {
   fieldKey: string;
   value: string;
+  t: Translator;
 }) {
   const fieldInfo = fieldLabels[fieldKey];
   if (!fieldInfo) return null;
@@ -167,9 +171,9 @@ function InfoItem({
     return (
       <div>
         <p className="text-sm font-medium text-muted-foreground mb-2">
-          {fieldInfo.label}
+          {t(fieldInfo.label)}
         </p>
-        <PetAllowedBadge value={value} />
+        <PetAllowedBadge value={value} t={t} />
       </div>
     );
   }
@@ -179,9 +183,9 @@ function InfoItem({
     return (
       <div>
         <p className="text-sm font-medium text-muted-foreground mb-2">
-          {fieldInfo.label}
+          {t(fieldInfo.label)}
         </p>
-        <PetSizeBadge value={value} />
+        <PetSizeBadge value={value} t={t} />
       </div>
     );
   }
@@ -191,7 +195,7 @@ function InfoItem({
     return (
       <div>
         <p className="text-sm font-medium text-muted-foreground mb-1">
-          {fieldInfo.label}
+          {t(fieldInfo.label)}
         </p>
         <div className="flex items-start gap-2">
           <Icon className="h-4 w-4 mt-1 flex-shrink-0 text-amber-600 dark:text-amber-400" aria-hidden="true" />
@@ -205,14 +209,12 @@ function InfoItem({
 
   // 입장 가능 장소는 아이콘과 함께 표시
   if (fieldKey === "chkpetplace") {
-    const isIndoor = value.includes("실내") || value.includes("내부");
-    const isOutdoor = value.includes("실외") || value.includes("외부");
-    const PlaceIcon = isIndoor ? Home : isOutdoor ? MapPin : Home;
+    const PlaceIcon = getPetPlaceType(value) === "outdoor" ? MapPin : Home;
 
     return (
       <div>
         <p className="text-sm font-medium text-muted-foreground mb-1">
-          {fieldInfo.label}
+          {t(fieldInfo.label)}
         </p>
         <div className="flex items-start gap-2">
           <PlaceIcon className="h-4 w-4 mt-1 flex-shrink-0 text-muted-foreground" aria-hidden="true" />
@@ -228,7 +230,7 @@ function InfoItem({
   return (
     <div>
       <p className="text-sm font-medium text-muted-foreground mb-1">
-        {fieldInfo.label}
+        {t(fieldInfo.label)}
       </p>
       <div className="flex items-start gap-2">
         <Icon className="h-4 w-4 mt-1 flex-shrink-0 text-muted-foreground" aria-hidden="true" />
@@ -243,7 +245,7 @@ function InfoItem({
 /**
  * 반려동물 동반 여행 정보 섹션 컴포넌트
  */
-export function DetailPetTour({ petInfo, className }: DetailPetTourProps) {
+export async function DetailPetTour({ petInfo, className }: DetailPetTourProps) {
   // 표시할 필드 목록 (우선순위 순서)
   const fields: string[] = [
     "chkpetleash", // 반려동물 동반 여부 (가장 중요)
@@ -266,23 +268,19 @@ export function DetailPetTour({ petInfo, className }: DetailPetTourProps) {
   }
 
   // 반려동물 동반 불가능 여부 확인
-  const petAllowedValue = petInfo.chkpetleash;
-  const isNotAllowed = petAllowedValue && (
-    petAllowedValue.includes("불가능") ||
-    petAllowedValue.includes("불가") ||
-    petAllowedValue.includes("아니오") ||
-    petAllowedValue.toLowerCase().includes("no")
-  );
+  const isNotAllowed = getPetAllowance(petInfo.chkpetleash) === "notAllowed";
+
+  const t = createTranslator(await getRequestLocale());
 
   return (
     <section
       className={cn("space-y-6 sm:space-y-8 pt-8 sm:pt-12 border-t", className)}
-      aria-label="반려동물 동반 여행 정보"
+      aria-label={t("petTour.title")}
     >
       {/* 섹션 제목 */}
       <div className="flex items-center gap-2">
         <PawPrint className="h-6 w-6 sm:h-7 sm:w-7 text-primary" aria-hidden="true" />
-        <h2 className="text-2xl sm:text-3xl font-bold">반려동물 동반 여행 정보</h2>
+        <h2 className="text-2xl sm:text-3xl font-bold">{t("petTour.title")}</h2>
       </div>
 
       {/* 주의사항 (반려동물 동반 불가능인 경우) */}
@@ -292,10 +290,10 @@ export function DetailPetTour({ petInfo, className }: DetailPetTourProps) {
             <AlertTriangle className="h-5 w-5 text-red-600 dark:text-red-400 flex-shrink-0 mt-0.5" aria-hidden="true" />
             <div>
               <p className="font-medium text-red-900 dark:text-red-200 mb-1">
-                반려동물 동반 불가능
+                {t("petTour.notAllowed")}
               </p>
               <p className="text-sm text-red-800 dark:text-red-300">
-                이 관광지는 반려동물 동반이 불가능합니다. 반려동물을 동반하지 않고 방문해주세요.
+                {t("petTour.notAllowedMessage")}
               </p>
             </div>
           </div>
@@ -309,7 +307,7 @@ export function DetailPetTour({ petInfo, className }: DetailPetTourProps) {
             const value = petInfo[field as keyof PetTourInfo] as string | undefined;
             if (!hasValue(value)) return null;
             return (
-              <InfoItem key={field} fieldKey={field} value={value!} />
+              <InfoItem key={field} fieldKey={field} value={value!} t={t} />
             );
           })}
         </div>
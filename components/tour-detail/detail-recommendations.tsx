@@ -19,12 +19,15 @@
  * @dependencies
  * - components/tour-card.tsx: TourCard 컴포넌트
  * - lib/types/tour.ts: TourItem 타입
+ * - lib/i18n: createTranslator, getRequestLocale (섹션 제목)
  *
  * @see {@link /docs/PRD.MD} - 추천 관광지 섹션 요구사항 참고
  */
 
 import { TourCard } from "@/components/tour-card";
 import type { TourItem } from "@/lib/types/tour";
+import { createTranslator } from "@/lib/i18n/messages";
+import { getRequestLocale } from "@/lib/i18n/server";
 import { cn } from "@/lib/utils";
 
 interface DetailRecommendationsProps {
@@ -41,7 +44,7 @@ interface DetailRecommendationsProps {
 /**
  * 추천 관광지 섹션 컴포넌트
  */
-export function DetailRecommendations({
+export async function DetailRecommendations({
   recommendations,
   className,
 }: DetailRecommendationsProps) {
@@ -50,16 +53,18 @@ export function DetailRecommendations({
     return null;
   }
 
+  const t = createTranslator(await getRequestLocale());
+
   return (
     <section
       className={cn("space-y-6 sm:space-y-8 pt-8 sm:pt-12 border-t", className)}
-      aria-label="추천 관광지"
+      aria-label={t("recommendations.label")}
     >
       {/* 섹션 제목 */}
       <div>
-        <h2 className="text-2xl sm:text-3xl font-bold">이런 관광지는 어떠세요?</h2>
+        <h2 className="text-2xl sm:text-3xl font-bold">{t("recommendations.title")}</h2>
         <p className="text-sm text-muted-foreground mt-2">
-          같은 지역 또는 유사한 타입의 관광지를 추천합니다.
+          {t("recommendations.description")}
         </p>
       </div>
 
@@ -67,7 +72,7 @@ export function DetailRecommendations({
       <div
         className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-4 md:gap-6"
         role="list"
-        aria-label="추천 관광지 목록"
+        aria-label={t("recommendations.list")}
       >
         {recommendations.map((tour) => (
           <div key={tour.contentid} role="listitem">
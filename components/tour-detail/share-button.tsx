@@ -25,6 +25,7 @@ import { useState } from "react";
 import { Share2, Check } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/components/providers/toast-provider";
+import { useTranslations } from "@/components/providers/locale-provider";
 import { cn } from "@/lib/utils";
 
 interface ShareButtonProps {
@@ -52,6 +53,7 @@ export function ShareButton({
 }: ShareButtonProps) {
   const { success, error: showError } = useToast();
   const [copied, setCopied] = useState(false);
+  const t = useTranslations();
 
   /**
    * URL 복사 기능
@@ -62,7 +64,7 @@ export function ShareButton({
       const url = typeof window !== "undefined" ? window.location.href : "";
 
       if (!url) {
-        showError("URL을 가져올 수 없습니다.");
+        showError(t("share.noUrl"));
         return;
       }
 
@@ -78,7 +80,7 @@ export function ShareButton({
         // 클립보드 API 사용 (권장 방법)
         await navigator.clipboard.writeText(url);
         setCopied(true);
-        success("링크가 복사되었습니다.");
+        success(t("share.copied"));
         setTimeout(() => setCopied(false), 2000);
       } else {
         // Fallback: execCommand 사용 (구형 브라우저 지원)
@@ -93,15 +95,15 @@ export function ShareButton({
 
         if (successful) {
           setCopied(true);
-          success("링크가 복사되었습니다.");
+          success(t("share.copied"));
           setTimeout(() => setCopied(false), 2000);
         } else {
-          showError("링크 복사에 실패했습니다. 브라우저를 확인해주세요.");
+          showError(t("share.copyFailedBrowser"));
         }
       }
     } catch (err) {
       console.error("URL 복사 실패:", err);
-      showError("링크 복사에 실패했습니다.");
+      showError(t("share.copyFailed"));
     }
   };
 
@@ -117,17 +119,17 @@ export function ShareButton({
         }
       }}
       className={cn("min-h-[44px] min-w-[44px] focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2", className)}
-      aria-label={copied ? "링크 복사됨" : "링크 공유하기"}
+      aria-label={copied ? t("share.copiedLabel") : t("share.label")}
     >
       {copied ? (
         <>
           <Check className="h-4 w-4 mr-2" aria-hidden="true" />
-          <span className="hidden sm:inline">복사됨</span>
+          <span className="hidden sm:inline">{t("common.copied")}</span>
         </>
       ) : (
         <>
           <Share2 className="h-4 w-4 mr-2" aria-hidden="true" />
-          <span className="hidden sm:inline">공유</span>
+          <span className="hidden sm:inline">{t("share.button")}</span>
         </>
       )}
     </Button>
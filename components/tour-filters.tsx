@@ -5,16 +5,23 @@
  * 이 컴포넌트는 관광지 목록을 필터링하는 기능을 제공합니다.
  *
  * 주요 기능:
- * 1. 지역 필터 (시/도 선택)
+ * 1. 지역 필터 (시/도 선택 → 시군구 선택)
  * 2. 관광 타입 필터 (다중 선택)
- * 3. 정렬 옵션 (최신순, 이름순)
- * 4. URL 쿼리 파라미터로 상태 관리
+ * 3. 정렬 옵션 (최신순, 이름순, 등록순) 및 이미지 있는 것만 보기
+ * 4. 숙박 검색 모드 (주차 가능, 체크인 시각 조건)
+ * 5. 서비스 분류 필터 (대분류 → 중분류 → 소분류)
+ * 6. URL 쿼리 파라미터로 상태 관리
  *
  * @dependencies
- * - lib/api/tour-api.ts: getAreaCode 함수
+ * - lib/api/tour-api-client.ts: getAreaCode, getSigunguCode 함수 (서버 프록시)
  * - lib/types/tour.ts: AreaCode, CONTENT_TYPE 타입
+ * - lib/i18n/names.ts: getContentTypeName (콘텐츠 타입명)
+ * - lib/utils/stay.ts: CHECK_IN_OPTIONS 상수
+ * - lib/utils/region-code.ts: toAreaCode 함수 (법정동 코드 조건 표시)
+ * - lib/utils/sort.ts: SORT_OPTIONS 상수
+ * - components/tour-category-filter.tsx: TourCategoryFilter 컴포넌트
  * - components/ui/button.tsx: Button 컴포넌트
- * - lucide-react: ChevronDown, X 아이콘
+ * - lucide-react: BedDouble, ChevronDown, ImageIcon, X 아이콘
  *
  * @see {@link /docs/PRD.MD} - 필터 기능 요구사항 참고
  */
@@ -23,36 +30,24 @@
 
 import { useEffect, useState, useMemo, useCallback } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
-import { ChevronDown, X } from "lucide-react";
+import { BedDouble, ChevronDown, ImageIcon, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { getAreaCode } from "@/lib/api/tour-api";
+import {
+  useLocale,
+  useLocalizePath,
+  useTranslations,
+} from "@/components/providers/locale-provider";
+import { TourCategoryFilter } from "@/components/tour-category-filter";
+import type { CategorySelection } from "@/components/tour-category-filter";
+import { getAreaCode, getSigunguCode } from "@/lib/api/tour-api-client";
 import { CONTENT_TYPE } from "@/lib/types/tour";
 import type { AreaCode } from "@/lib/types/tour";
+import { getContentTypeName } from "@/lib/i18n/names";
 import { cn } from "@/lib/utils";
-
-/**
- * 관광 타입명 매핑
- */
-const contentTypeNames: Record<string, string> = {
-  [CONTENT_TYPE.TOURIST_SPOT]: "관광지",
-  [CONTENT_TYPE.CULTURAL_FACILITY]: "문화시설",
-  [CONTENT_TYPE.FESTIVAL]: "축제/행사",
-  [CONTENT_TYPE.TOUR_COURSE]: "여행코스",
-  [CONTENT_TYPE.LEISURE_SPORTS]: "레포츠",
-  [CONTENT_TYPE.ACCOMMODATION]: "숙박",
-  [CONTENT_TYPE.SHOPPING]: "쇼핑",
-  [CONTENT_TYPE.RESTAURANT]: "음식점",
-};
-
-/**
- * 정렬 옵션
- */
-const SORT_OPTIONS = {
-  LATEST: "latest", // 최신순 (modifiedtime)
-  NAME: "name", // 이름순 (가나다)
-} as const;
-
-type SortOption = (typeof SORT_OPTIONS)[keyof typeof SORT_OPTIONS];
+import { CHECK_IN_OPTIONS } from "@/lib/utils/stay";
+import { toAreaCode } from "@/lib/utils/region-code";
+import { SORT_OPTIONS, SORT_OPTION_LABELS, isSortOption } from "@/lib/utils/sort";
+import type { SortOption } from "@/lib/utils/sort";
 
 interface TourFiltersProps {
   /**
@@ -66,25 +61,45 @@ interface TourFiltersProps {
  */
 export function TourFilters({ className }: TourFiltersProps) {
   const router = useRouter();
+  const locale = useLocale();
+  const localize = useLocalizePath();
+  const t = useTranslations();
   const searchParams = useSearchParams();
   const [areaCodes, setAreaCodes] = useState<AreaCode[]>([]);
   const [isLoadingAreas, setIsLoadingAreas] = useState(true);
   const [isAreaDropdownOpen, setIsAreaDropdownOpen] = useState(false);
+  const [sigunguCodes, setSigunguCodes] = useState<AreaCode[]>([]);
+  const [isLoadingSigungu, setIsLoadingSigungu] = useState(false);
+  const [isSigunguDropdownOpen, setIsSigunguDropdownOpen] = useState(false);
   const [isTypeDropdownOpen, setIsTypeDropdownOpen] = useState(false);
+  const [isCheckInDropdownOpen, setIsCheckInDropdownOpen] = useState(false);
 
   // 현재 필터 값
-  const currentAreaCode = searchParams.get("areaCode") || "";
+  // 법정동 시/도 코드로 들어온 경우 대응하는 지역코드로 표시
+  const currentAreaCode =
+    searchParams.get("areaCode") || toAreaCode(searchParams.get("lDongRegnCd")) || "";
+  const currentSigunguCode = searchParams.get("sigunguCode") || "";
   const currentContentTypeIds = searchParams
     .getAll("contentTypeId")
     .filter(Boolean);
-  const currentSort = (searchParams.get("sort") || SORT_OPTIONS.LATEST) as SortOption;
+  const sortParam = searchParams.get("sort");
+  const currentSort: SortOption = isSortOption(sortParam) ? sortParam : SORT_OPTIONS.LATEST;
+  const isImageOnly = searchParams.get("image") === "1";
+  const isStayMode = searchParams.get("stay") === "1";
+  const currentParking = searchParams.get("parking") === "1";
+  const currentCheckIn = searchParams.get("checkIn") || "";
+  const currentCategories: CategorySelection = {
+    cat1: searchParams.get("cat1") || "",
+    cat2: searchParams.get("cat2") || "",
+    cat3: searchParams.get("cat3") || "",
+  };
 
   // 지역 목록 로드
   useEffect(() => {
     async function loadAreaCodes() {
       try {
         setIsLoadingAreas(true);
-        const codes = await getAreaCode({ numOfRows: 20 });
+        const codes = await getAreaCode({ numOfRows: 20, language: locale });
         setAreaCodes(codes);
       } catch (error) {
         console.error("지역코드 로드 실패:", error);
@@ -93,26 +108,122 @@ export function TourFilters({ className }: TourFiltersProps) {
       }
     }
     loadAreaCodes();
-  }, []);
+  }, [locale]);
+
+  // 시군구 목록 로드 (시/도 선택 시)
+  useEffect(() => {
+    if (!currentAreaCode) {
+      setSigunguCodes([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    async function loadSigunguCodes() {
+      try {
+        setIsLoadingSigungu(true);
+        const codes = await getSigunguCode(currentAreaCode, { language: locale });
+        if (!cancelled) {
+          setSigunguCodes(codes);
+        }
+      } catch (error) {
+        console.error("시군구코드 로드 실패:", error);
+        if (!cancelled) {
+          setSigunguCodes([]);
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoadingSigungu(false);
+        }
+      }
+    }
+    loadSigunguCodes();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentAreaCode, locale]);
 
   // 필터 업데이트 함수 (useCallback으로 최적화)
   const updateFilters = useCallback((
     updates: {
       areaCode?: string;
+      sigunguCode?: string;
       contentTypeId?: string[];
       sort?: SortOption;
+      imageOnly?: boolean;
+      stay?: boolean;
+      parking?: boolean;
+      checkIn?: string;
+      categories?: CategorySelection;
       resetPage?: boolean;
     }
   ) => {
     const params = new URLSearchParams(searchParams.toString());
 
+    // 숙박 검색 모드 전환
+    if (updates.stay !== undefined) {
+      if (updates.stay) {
+        params.set("stay", "1");
+        // 숙박 검색은 타입/분류/키워드/위치 기반 조회와 함께 사용할 수 없음
+        params.delete("contentTypeId");
+        params.delete("cat1");
+        params.delete("cat2");
+        params.delete("cat3");
+        params.delete("keyword");
+        params.delete("mapX");
+        params.delete("mapY");
+        params.delete("radius");
+        params.delete("bounds");
+      } else {
+        params.delete("stay");
+        params.delete("parking");
+        params.delete("checkIn");
+      }
+    }
+
+    // 숙박 조건 업데이트
+    if (updates.parking !== undefined) {
+      if (updates.parking) {
+        params.set("parking", "1");
+      } else {
+        params.delete("parking");
+      }
+    }
+
+    if (updates.checkIn !== undefined) {
+      if (updates.checkIn) {
+        params.set("checkIn", updates.checkIn);
+      } else {
+        params.delete("checkIn");
+      }
+    }
+
     // areaCode 업데이트
     if (updates.areaCode !== undefined) {
       if (updates.areaCode) {
         params.set("areaCode", updates.areaCode);
+        // 지역 필터는 위치 기반 조회와 함께 사용할 수 없으므로 내 주변/이 지역 검색 모드 해제
+        params.delete("mapX");
+        params.delete("mapY");
+        params.delete("radius");
+        params.delete("bounds");
       } else {
         params.delete("areaCode");
       }
+      // 시군구는 시/도에 종속되므로 시/도 변경 시 해제 (법정동 코드 조건 포함)
+      params.delete("sigunguCode");
+      params.delete("lDongRegnCd");
+      params.delete("lDongSignguCd");
+    }
+
+    // sigunguCode 업데이트
+    if (updates.sigunguCode !== undefined) {
+      if (updates.sigunguCode) {
+        params.set("sigunguCode", updates.sigunguCode);
+      } else {
+        params.delete("sigunguCode");
+      }
     }
 
     // contentTypeId 업데이트
@@ -121,6 +232,21 @@ export function TourFilters({ className }: TourFiltersProps) {
       updates.contentTypeId.forEach((id) => {
         params.append("contentTypeId", id);
       });
+      // 분류는 관광 타입에 종속되므로 타입 변경 시 해제
+      params.delete("cat1");
+      params.delete("cat2");
+      params.delete("cat3");
+    }
+
+    // 분류 업데이트 (빈 값은 제거)
+    if (updates.categories !== undefined) {
+      (["cat1", "cat2", "cat3"] as const).forEach((key) => {
+        if (updates.categories![key]) {
+          params.set(key, updates.categories![key]);
+        } else {
+          params.delete(key);
+        }
+      });
     }
 
     // sort 업데이트
@@ -132,13 +258,22 @@ export function TourFilters({ className }: TourFiltersProps) {
       }
     }
 
+    // 이미지 있는 것만 보기 업데이트
+    if (updates.imageOnly !== undefined) {
+      if (updates.imageOnly) {
+        params.set("image", "1");
+      } else {
+        params.delete("image");
+      }
+    }
+
     // 페이지 리셋
     if (updates.resetPage !== false) {
       params.delete("page");
     }
 
-    router.push(`/?${params.toString()}`);
-  }, [searchParams, router]);
+    router.push(localize(`/?${params.toString()}`));
+  }, [searchParams, router, localize]);
 
   // 지역 필터 변경 (useCallback으로 최적화)
   const handleAreaChange = useCallback((code: string) => {
@@ -146,6 +281,12 @@ export function TourFilters({ className }: TourFiltersProps) {
     setIsAreaDropdownOpen(false);
   }, [updateFilters]);
 
+  // 시군구 필터 변경 (useCallback으로 최적화)
+  const handleSigunguChange = useCallback((code: string) => {
+    updateFilters({ sigunguCode: code });
+    setIsSigunguDropdownOpen(false);
+  }, [updateFilters]);
+
   // 관광 타입 필터 토글 (useCallback으로 최적화)
   const handleTypeToggle = useCallback((typeId: string) => {
     const newTypes = currentContentTypeIds.includes(typeId)
@@ -161,215 +302,447 @@ export function TourFilters({ className }: TourFiltersProps) {
     setIsTypeDropdownOpen(false);
   }, [updateFilters]);
 
+  // 숙박 검색 모드 토글 (useCallback으로 최적화)
+  const handleStayToggle = useCallback(() => {
+    updateFilters({ stay: !isStayMode });
+    setIsTypeDropdownOpen(false);
+  }, [isStayMode, updateFilters]);
+
+  // 주차 가능 조건 토글 (useCallback으로 최적화)
+  const handleParkingToggle = useCallback(() => {
+    updateFilters({ parking: !currentParking });
+  }, [currentParking, updateFilters]);
+
+  // 체크인 시각 조건 변경 (useCallback으로 최적화)
+  const handleCheckInChange = useCallback((time: string) => {
+    updateFilters({ checkIn: time });
+    setIsCheckInDropdownOpen(false);
+  }, [updateFilters]);
+
+  // 분류 변경 (useCallback으로 최적화)
+  const handleCategoryChange = useCallback((categories: CategorySelection) => {
+    updateFilters({ categories });
+  }, [updateFilters]);
+
   // 정렬 옵션 변경 (useCallback으로 최적화)
   const handleSortChange = useCallback((sort: SortOption) => {
     updateFilters({ sort });
   }, [updateFilters]);
 
+  // 이미지 있는 것만 보기 토글 (useCallback으로 최적화)
+  const handleImageOnlyToggle = useCallback(() => {
+    updateFilters({ imageOnly: !isImageOnly });
+  }, [isImageOnly, updateFilters]);
+
   // 선택된 지역명 (useMemo로 최적화)
   const selectedAreaName = useMemo(() => {
     return currentAreaCode && areaCodes.length > 0
-      ? areaCodes.find((area) => area.code === currentAreaCode)?.name || "전체"
-      : "전체";
-  }, [currentAreaCode, areaCodes]);
+      ? areaCodes.find((area) => area.code === currentAreaCode)?.name || t("common.all")
+      : t("common.all");
+  }, [currentAreaCode, areaCodes, t]);
+
+  // 선택된 시군구명 (useMemo로 최적화)
+  const selectedSigunguName = useMemo(() => {
+    return currentSigunguCode && sigunguCodes.length > 0
+      ? sigunguCodes.find((sigungu) => sigungu.code === currentSigunguCode)?.name || t("common.all")
+      : t("common.all");
+  }, [currentSigunguCode, sigunguCodes, t]);
 
   return (
     <div
       className={cn(
-        "flex flex-col sm:flex-row gap-3 sm:gap-4 p-4 bg-muted/50 rounded-lg",
+        "flex flex-col gap-3 sm:gap-4 p-4 bg-muted/50 rounded-lg",
         className
       )}
       role="group"
-      aria-label="관광지 필터"
+      aria-label={t("filters.label")}
     >
-      {/* 지역 필터 */}
-      <div className="relative flex-1 min-w-0">
-        <label
-          htmlFor="area-filter"
-          className="block text-sm font-medium mb-2"
-        >
-          지역
-        </label>
-        <div className="relative">
-          <Button
-            id="area-filter"
-            variant="outline"
-            className="w-full justify-between min-h-[44px]"
-            onClick={() => setIsAreaDropdownOpen(!isAreaDropdownOpen)}
-            aria-expanded={isAreaDropdownOpen}
-            aria-haspopup="listbox"
+      <div className="flex flex-col sm:flex-row gap-3 sm:gap-4">
+        {/* 지역 필터 */}
+        <div className="relative flex-1 min-w-0">
+          <label
+            htmlFor="area-filter"
+            className="block text-sm font-medium mb-2"
           >
-            <span className="truncate">
-              {isLoadingAreas ? "로딩 중..." : selectedAreaName}
-            </span>
-            <ChevronDown
-              className={cn(
-                "h-4 w-4 transition-transform",
-                isAreaDropdownOpen && "rotate-180"
-              )}
-              aria-hidden="true"
-            />
-          </Button>
-          {isAreaDropdownOpen && (
-            <>
-              <div
-                className="fixed inset-0 z-10"
-                onClick={() => setIsAreaDropdownOpen(false)}
+            {t("filters.area")}
+          </label>
+          <div className="relative">
+            <Button
+              id="area-filter"
+              variant="outline"
+              className="w-full justify-between min-h-[44px]"
+              onClick={() => setIsAreaDropdownOpen(!isAreaDropdownOpen)}
+              aria-expanded={isAreaDropdownOpen}
+              aria-haspopup="listbox"
+            >
+              <span className="truncate">
+                {isLoadingAreas ? t("common.loading") : selectedAreaName}
+              </span>
+              <ChevronDown
+                className={cn(
+                  "h-4 w-4 transition-transform",
+                  isAreaDropdownOpen && "rotate-180"
+                )}
                 aria-hidden="true"
               />
-              <div
-                className="absolute z-20 w-full mt-1 bg-background border rounded-md shadow-lg max-h-60 overflow-auto"
-                role="listbox"
-              >
-                <button
-                  className={cn(
-                    "w-full text-left px-4 py-2 text-sm hover:bg-accent transition-colors min-h-[44px]",
-                    !currentAreaCode && "bg-accent font-medium"
-                  )}
-                  onClick={() => handleAreaChange("all")}
-                  role="option"
-                  aria-selected={!currentAreaCode}
+            </Button>
+            {isAreaDropdownOpen && (
+              <>
+                <div
+                  className="fixed inset-0 z-10"
+                  onClick={() => setIsAreaDropdownOpen(false)}
+                  aria-hidden="true"
+                />
+                <div
+                  className="absolute z-20 w-full mt-1 bg-background border rounded-md shadow-lg max-h-60 overflow-auto"
+                  role="listbox"
                 >
-                  전체
-                </button>
-                {areaCodes.map((area) => (
                   <button
-                    key={area.code}
                     className={cn(
                       "w-full text-left px-4 py-2 text-sm hover:bg-accent transition-colors min-h-[44px]",
-                      currentAreaCode === area.code && "bg-accent font-medium"
+                      !currentAreaCode && "bg-accent font-medium"
                     )}
-                    onClick={() => handleAreaChange(area.code)}
+                    onClick={() => handleAreaChange("all")}
                     role="option"
-                    aria-selected={currentAreaCode === area.code}
+                    aria-selected={!currentAreaCode}
                   >
-                    {area.name}
+                    {t("common.all")}
                   </button>
-                ))}
-              </div>
-            </>
-          )}
+                  {areaCodes.map((area) => (
+                    <button
+                      key={area.code}
+                      className={cn(
+                        "w-full text-left px-4 py-2 text-sm hover:bg-accent transition-colors min-h-[44px]",
+                        currentAreaCode === area.code && "bg-accent font-medium"
+                      )}
+                      onClick={() => handleAreaChange(area.code)}
+                      role="option"
+                      aria-selected={currentAreaCode === area.code}
+                    >
+                      {area.name}
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
         </div>
-      </div>
 
-      {/* 관광 타입 필터 */}
-      <div className="relative flex-1 min-w-0">
-        <label
-          htmlFor="type-filter"
-          className="block text-sm font-medium mb-2"
-        >
-          관광 타입
-        </label>
-        <div className="relative">
-          <Button
-            id="type-filter"
-            variant="outline"
-            className="w-full justify-between min-h-[44px]"
-            onClick={() => setIsTypeDropdownOpen(!isTypeDropdownOpen)}
-            aria-expanded={isTypeDropdownOpen}
-            aria-haspopup="listbox"
+        {/* 시군구 필터 (시/도 선택 시 활성화) */}
+        <div className="relative flex-1 min-w-0">
+          <label
+            htmlFor="sigungu-filter"
+            className="block text-sm font-medium mb-2"
           >
-            <span className="truncate">
-              {currentContentTypeIds.length === 0
-                ? "전체"
-                : currentContentTypeIds.length === 1
-                  ? contentTypeNames[currentContentTypeIds[0]] || "선택됨"
-                  : `${currentContentTypeIds.length}개 선택`}
-            </span>
-            <ChevronDown
-              className={cn(
-                "h-4 w-4 transition-transform",
-                isTypeDropdownOpen && "rotate-180"
-              )}
-              aria-hidden="true"
-            />
-          </Button>
-          {isTypeDropdownOpen && (
-            <>
-              <div
-                className="fixed inset-0 z-10"
-                onClick={() => setIsTypeDropdownOpen(false)}
+            {t("filters.sigungu")}
+          </label>
+          <div className="relative">
+            <Button
+              id="sigungu-filter"
+              variant="outline"
+              className="w-full justify-between min-h-[44px]"
+              onClick={() => setIsSigunguDropdownOpen(!isSigunguDropdownOpen)}
+              disabled={!currentAreaCode}
+              aria-expanded={isSigunguDropdownOpen}
+              aria-haspopup="listbox"
+            >
+              <span className="truncate">
+                {isLoadingSigungu ? t("common.loading") : selectedSigunguName}
+              </span>
+              <ChevronDown
+                className={cn(
+                  "h-4 w-4 transition-transform",
+                  isSigunguDropdownOpen && "rotate-180"
+                )}
                 aria-hidden="true"
               />
-              <div
-                className="absolute z-20 w-full mt-1 bg-background border rounded-md shadow-lg max-h-60 overflow-auto"
-                role="listbox"
-              >
-                {currentContentTypeIds.length > 0 && (
-                  <div className="sticky top-0 bg-background border-b px-4 py-2 flex items-center justify-between">
-                    <span className="text-sm font-medium">
-                      {currentContentTypeIds.length}개 선택됨
-                    </span>
-                    <button
-                      onClick={handleTypeClear}
-                      className="text-sm text-muted-foreground hover:text-foreground flex items-center gap-1 min-h-[44px] px-2"
-                      aria-label="모든 타입 선택 해제"
-                    >
-                      <X className="h-4 w-4" />
-                      전체 해제
-                    </button>
-                  </div>
-                )}
-                {Object.entries(CONTENT_TYPE).map(([, value]) => (
+            </Button>
+            {isSigunguDropdownOpen && (
+              <>
+                <div
+                  className="fixed inset-0 z-10"
+                  onClick={() => setIsSigunguDropdownOpen(false)}
+                  aria-hidden="true"
+                />
+                <div
+                  className="absolute z-20 w-full mt-1 bg-background border rounded-md shadow-lg max-h-60 overflow-auto"
+                  role="listbox"
+                >
                   <button
-                    key={value}
                     className={cn(
-                      "w-full text-left px-4 py-2 text-sm hover:bg-accent transition-colors min-h-[44px] flex items-center gap-2",
-                      currentContentTypeIds.includes(value) &&
-                        "bg-accent font-medium"
+                      "w-full text-left px-4 py-2 text-sm hover:bg-accent transition-colors min-h-[44px]",
+                      !currentSigunguCode && "bg-accent font-medium"
                     )}
-                    onClick={() => handleTypeToggle(value)}
+                    onClick={() => handleSigunguChange("")}
                     role="option"
-                    aria-selected={currentContentTypeIds.includes(value)}
+                    aria-selected={!currentSigunguCode}
                   >
-                    <span
+                    {t("common.all")}
+                  </button>
+                  {sigunguCodes.map((sigungu) => (
+                    <button
+                      key={sigungu.code}
                       className={cn(
-                        "w-4 h-4 border rounded flex items-center justify-center",
-                        currentContentTypeIds.includes(value) &&
-                          "bg-primary border-primary"
+                        "w-full text-left px-4 py-2 text-sm hover:bg-accent transition-colors min-h-[44px]",
+                        currentSigunguCode === sigungu.code && "bg-accent font-medium"
                       )}
+                      onClick={() => handleSigunguChange(sigungu.code)}
+                      role="option"
+                      aria-selected={currentSigunguCode === sigungu.code}
                     >
-                      {currentContentTypeIds.includes(value) && (
-                        <span className="text-primary-foreground text-xs">✓</span>
-                      )}
-                    </span>
-                    {contentTypeNames[value]}
-                  </button>
-                ))}
-              </div>
-            </>
-          )}
+                      {sigungu.name}
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
         </div>
-      </div>
 
-      {/* 정렬 옵션 */}
-      <div className="flex-1 min-w-0">
-        <label
-          htmlFor="sort-filter"
-          className="block text-sm font-medium mb-2"
-        >
-          정렬
-        </label>
-        <div className="flex gap-2">
+        {/* 숙박 검색 모드 */}
+        <div className="min-w-0 sm:flex-none">
+          <span className="block text-sm font-medium mb-2">{t("filters.stay")}</span>
           <Button
-            id="sort-filter"
-            variant={currentSort === SORT_OPTIONS.LATEST ? "default" : "outline"}
-            className="flex-1 min-h-[44px]"
-            onClick={() => handleSortChange(SORT_OPTIONS.LATEST)}
-            aria-pressed={currentSort === SORT_OPTIONS.LATEST}
+            variant={isStayMode ? "default" : "outline"}
+            className="w-full min-h-[44px]"
+            onClick={handleStayToggle}
+            aria-pressed={isStayMode}
+            aria-label={isStayMode ? t("filters.staySearchClear") : t("filters.staySearch")}
           >
-            최신순
+            <BedDouble className="h-4 w-4 mr-2" aria-hidden="true" />
+            {t("filters.staySearch")}
           </Button>
-          <Button
-            variant={currentSort === SORT_OPTIONS.NAME ? "default" : "outline"}
-            className="flex-1 min-h-[44px]"
-            onClick={() => handleSortChange(SORT_OPTIONS.NAME)}
-            aria-pressed={currentSort === SORT_OPTIONS.NAME}
+        </div>
+
+        {isStayMode ? (
+          /* 숙박 조건 필터 */
+          <div className="relative flex-1 min-w-0">
+            <span
+              id="stay-condition-filter"
+              className="block text-sm font-medium mb-2"
+            >
+              {t("filters.stayConditions")}
+            </span>
+            <div
+              className="flex gap-2"
+              role="group"
+              aria-labelledby="stay-condition-filter"
+            >
+              <Button
+                variant={currentParking ? "default" : "outline"}
+                className="flex-1 min-h-[44px]"
+                onClick={handleParkingToggle}
+                aria-pressed={currentParking}
+              >
+                {t("filters.parking")}
+              </Button>
+              <div className="relative flex-1 min-w-0">
+                <Button
+                  variant={currentCheckIn ? "default" : "outline"}
+                  className="w-full justify-between min-h-[44px]"
+                  onClick={() => setIsCheckInDropdownOpen(!isCheckInDropdownOpen)}
+                  aria-expanded={isCheckInDropdownOpen}
+                  aria-haspopup="listbox"
+                  aria-label={t("filters.checkInTime")}
+                >
+                  <span className="truncate">
+                    {currentCheckIn
+                      ? t("filters.checkInBefore", { time: currentCheckIn })
+                      : t("filters.checkInTime")}
+                  </span>
+                  <ChevronDown
+                    className={cn(
+                      "h-4 w-4 transition-transform",
+                      isCheckInDropdownOpen && "rotate-180"
+                    )}
+                    aria-hidden="true"
+                  />
+                </Button>
+                {isCheckInDropdownOpen && (
+                  <>
+                    <div
+                      className="fixed inset-0 z-10"
+                      onClick={() => setIsCheckInDropdownOpen(false)}
+                      aria-hidden="true"
+                    />
+                    <div
+                      className="absolute z-20 w-full mt-1 bg-background border rounded-md shadow-lg max-h-60 overflow-auto"
+                      role="listbox"
+                    >
+                      <button
+                        className={cn(
+                          "w-full text-left px-4 py-2 text-sm hover:bg-accent transition-colors min-h-[44px]",
+                          !currentCheckIn && "bg-accent font-medium"
+                        )}
+                        onClick={() => handleCheckInChange("")}
+                        role="option"
+                        aria-selected={!currentCheckIn}
+                      >
+                        {t("filters.anyTime")}
+                      </button>
+                      {CHECK_IN_OPTIONS.map((time) => (
+                        <button
+                          key={time}
+                          className={cn(
+                            "w-full text-left px-4 py-2 text-sm hover:bg-accent transition-colors min-h-[44px]",
+                            currentCheckIn === time && "bg-accent font-medium"
+                          )}
+                          onClick={() => handleCheckInChange(time)}
+                          role="option"
+                          aria-selected={currentCheckIn === time}
+                        >
+                          {t("filters.beforeTime", { time })}
+                        </button>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+        ) : (
+          /* 관광 타입 필터 */
+          <div className="relative flex-1 min-w-0">
+            <label
+              htmlFor="type-filter"
+              className="block text-sm font-medium mb-2"
+            >
+              {t("filters.contentType")}
+            </label>
+            <div className="relative">
+              <Button
+                id="type-filter"
+                variant="outline"
+                className="w-full justify-between min-h-[44px]"
+                onClick={() => setIsTypeDropdownOpen(!isTypeDropdownOpen)}
+                aria-expanded={isTypeDropdownOpen}
+                aria-haspopup="listbox"
+              >
+                <span className="truncate">
+                  {currentContentTypeIds.length === 0
+                    ? t("filters.allTypes")
+                    : currentContentTypeIds.length === 1
+                      ? getContentTypeName(currentContentTypeIds[0], locale)
+                      : t("filters.selectedTypes", { count: currentContentTypeIds.length })}
+                </span>
+                <ChevronDown
+                  className={cn(
+                    "h-4 w-4 transition-transform",
+                    isTypeDropdownOpen && "rotate-180"
+                  )}
+                  aria-hidden="true"
+                />
+              </Button>
+              {isTypeDropdownOpen && (
+                <>
+                  <div
+                    className="fixed inset-0 z-10"
+                    onClick={() => setIsTypeDropdownOpen(false)}
+                    aria-hidden="true"
+                  />
+                  <div
+                    className="absolute z-20 w-full mt-1 bg-background border rounded-md shadow-lg max-h-60 overflow-auto"
+                    role="listbox"
+                  >
+                    {currentContentTypeIds.length > 0 && (
+                      <div className="sticky top-0 bg-background border-b px-4 py-2 flex items-center justify-between">
+                        <span className="text-sm font-medium">
+                          {t("filters.selectedCount", { count: currentContentTypeIds.length })}
+                        </span>
+                        <button
+                          onClick={handleTypeClear}
+                          className="text-sm text-muted-foreground hover:text-foreground flex items-center gap-1 min-h-[44px] px-2"
+                          aria-label={t("filters.clearTypesLabel")}
+                        >
+                          <X className="h-4 w-4" />
+                          {t("filters.clearTypes")}
+                        </button>
+                      </div>
+                    )}
+                    {Object.entries(CONTENT_TYPE).map(([, value]) => (
+                      <button
+                        key={value}
+                        className={cn(
+                          "w-full text-left px-4 py-2 text-sm hover:bg-accent transition-colors min-h-[44px] flex items-center gap-2",
+                          currentContentTypeIds.includes(value) &&
+                            "bg-accent font-medium"
+                        )}
+                        onClick={() => handleTypeToggle(value)}
+                        role="option"
+                        aria-selected={currentContentTypeIds.includes(value)}
+                      >
+                        <span
+                          className={cn(
+                            "w-4 h-4 border rounded flex items-center justify-center",
+                            currentContentTypeIds.includes(value) &&
+                              "bg-primary border-primary"
+                          )}
+                        >
+                          {currentContentTypeIds.includes(value) && (
+                            <span className="text-primary-foreground text-xs">✓</span>
+                          )}
+                        </span>
+                        {getContentTypeName(value, locale)}
+                      </button>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* 정렬 옵션 */}
+        <div className="flex-1 min-w-0">
+          <label
+            htmlFor="sort-filter"
+            className="block text-sm font-medium mb-2"
           >
-            이름순
-          </Button>
+            {t("filters.sort")}
+          </label>
+          <div className="flex gap-2">
+            {Object.values(SORT_OPTIONS).map((sort, index) => (
+              <Button
+                key={sort}
+                id={index === 0 ? "sort-filter" : undefined}
+                variant={currentSort === sort ? "default" : "outline"}
+                className="flex-1 min-h-[44px]"
+                onClick={() => handleSortChange(sort)}
+                aria-pressed={currentSort === sort}
+              >
+                {t(SORT_OPTION_LABELS[sort])}
+              </Button>
+            ))}
+          </div>
+          <p className="mt-1 text-xs text-muted-foreground">
+            {t("filters.popularSortUnavailable")}
+          </p>
         </div>
       </div>
+
+      {/* 이미지 있는 것만 보기 */}
+      <div>
+        <Button
+          variant={isImageOnly ? "default" : "outline"}
+          className="w-full sm:w-auto min-h-[44px]"
+          onClick={handleImageOnlyToggle}
+          aria-pressed={isImageOnly}
+        >
+          <ImageIcon className="h-4 w-4 mr-2" aria-hidden="true" />
+          {t("filters.imageOnly")}
+        </Button>
+      </div>
+
+      {/* 분류 필터 (숙박 검색 모드에서는 사용하지 않음) */}
+      {!isStayMode && (
+        <TourCategoryFilter
+          contentTypeId={
+            currentContentTypeIds.length === 1 ? currentContentTypeIds[0] : undefined
+          }
+          value={currentCategories}
+          onChange={handleCategoryChange}
+        />
+      )}
     </div>
   );
 }
@@ -32,6 +32,7 @@ import { Pagination } from "@/components/ui/pagination";
 import { Loading } from "@/components/ui/loading";
 import { useInfiniteScroll } from "@/hooks/use-infinite-scroll";
 import { useTourHoverSafe } from "@/components/providers/tour-hover-provider";
+import { useLocalizePath, useTranslations } from "@/components/providers/locale-provider";
 import type { TourItem, TourListResponse } from "@/lib/types/tour";
 import { cn } from "@/lib/utils";
 
@@ -74,6 +75,15 @@ interface TourListProps {
    * 지도 연동을 위해 사용
    */
   onTourHover?: (tourId: string | null) => void;
+  /**
+   * 카드 변형 (숙박 검색 모드에서는 'stay')
+   * @default 'default'
+   */
+  cardVariant?: "default" | "stay";
+  /**
+   * 분류코드 → 분류명 매핑 (카드에 분류명 표시용)
+   */
+  categoryNames?: Record<string, string>;
 }
 
 /**
@@ -89,8 +99,12 @@ export function TourList({
   mode = "pagination",
   className,
   onTourHover,
+  cardVariant = "default",
+  categoryNames,
 }: TourListProps) {
   const router = useRouter();
+  const localize = useLocalizePath();
+  const t = useTranslations();
   const searchParams = useSearchParams();
   
   // Context에서 호버 상태 가져오기 (있는 경우)
@@ -113,8 +127,8 @@ export function TourList({
   const handlePageChange = useCallback((newPage: number) => {
     const params = new URLSearchParams(searchParams.toString());
     params.set("page", String(newPage));
-    router.push(`/?${params.toString()}`);
-  }, [searchParams, router]);
+    router.push(localize(`/?${params.toString()}`));
+  }, [searchParams, router, localize]);
 
   // 무한 스크롤 훅
   const { sentinelRef } = useInfiniteScroll({
@@ -139,7 +153,7 @@ export function TourList({
       <div
         className={cn("space-y-4", className)}
         role="status"
-        aria-label="관광지 목록 로딩 중"
+        aria-label={t("tourList.loading")}
       >
         <div className="h-6 w-48 bg-muted rounded animate-pulse" />
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-4 md:gap-6">
@@ -160,13 +174,13 @@ export function TourList({
           className
         )}
         role="status"
-        aria-label="관광지 없음"
+        aria-label={t("tourList.emptyLabel")}
       >
         <p className="text-muted-foreground mb-2">
-          관광지가 없습니다.
+          {t("tourList.empty")}
         </p>
         <p className="text-sm text-muted-foreground">
-          필터를 조정하거나 다른 검색어를 시도해보세요.
+          {t("tourList.emptyHint")}
         </p>
       </div>
     );
@@ -177,10 +191,7 @@ export function TourList({
       {/* 결과 개수 및 모드 전환 */}
       <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
         <p className="text-sm text-muted-foreground" aria-live="polite">
-          총 <span className="font-semibold text-foreground">
-            {data.totalCount.toLocaleString()}
-          </span>
-          개의 관광지가 있습니다.
+          {t("home.totalCount", { count: data.totalCount })}
         </p>
       </div>
 
@@ -188,7 +199,7 @@ export function TourList({
       <div
         className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-4 md:gap-6"
         role="list"
-        aria-label="관광지 목록"
+        aria-label={t("tourList.label")}
       >
         {data.items.map((tour: TourItem, index: number) => {
           // 첫 번째 페이지의 첫 6개 카드에만 priority 설정 (above-the-fold)
@@ -201,6 +212,8 @@ export function TourList({
                 tour={tour}
                 onTourHover={handleTourHover}
                 priority={isPriority}
+                variant={cardVariant}
+                categoryNames={categoryNames}
               />
             </div>
           );
@@ -214,9 +227,9 @@ export function TourList({
             <div
               className="flex justify-center py-8"
               role="status"
-              aria-label="추가 관광지 로딩 중"
+              aria-label={t("tourList.loadingMoreLabel")}
             >
-              <Loading size="md" message="더 많은 관광지를 불러오는 중..." />
+              <Loading size="md" message={t("tourList.loadingMore")} />
             </div>
           )}
           <div
@@ -234,7 +247,7 @@ export function TourList({
             currentPage={currentPage}
             totalPages={totalPages}
             onPageChange={handlePageChange}
-            ariaLabel="관광지 목록 페이지네이션"
+            ariaLabel={t("tourList.pagination")}
           />
         </div>
       )}
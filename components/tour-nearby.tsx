@@ -0,0 +1,150 @@
+/**
+ * @file tour-nearby.tsx
+ * @description 내 주변 관광지 검색 컴포넌트
+ *
+ * 이 컴포넌트는 현재 위치를 기준으로 주변 관광지를 조회하는 "내 주변" 모드를 제공합니다.
+ *
+ * 주요 기능:
+ * 1. 현재 위치 조회 (Geolocation API)
+ * 2. 내 주변 모드 진입/해제
+ * 3. 검색 반경 선택 (1km ~ 20km)
+ * 4. URL 쿼리 파라미터로 상태 관리 (mapX, mapY, radius)
+ *
+ * @dependencies
+ * - hooks/use-nearby-search.ts: useNearbySearch 훅
+ * - lib/utils/distance.ts: NEARBY_RADIUS_OPTIONS, formatDistance
+ * - components/ui/button.tsx: Button 컴포넌트
+ * - components/providers/toast-provider.tsx: useToast hook
+ * - lucide-react: LocateFixed, Loader2, X 아이콘
+ */
+
+"use client";
+
+import { useState } from "react";
+import { LocateFixed, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/providers/toast-provider";
+import { useTranslations } from "@/components/providers/locale-provider";
+import { useNearbySearch } from "@/hooks/use-nearby-search";
+import { NEARBY_RADIUS_OPTIONS, formatDistance } from "@/lib/utils/distance";
+import { cn } from "@/lib/utils";
+import type { MessageKey } from "@/lib/i18n/messages";
+
+interface TourNearbyProps {
+  /**
+   * 추가 클래스명
+   */
+  className?: string;
+}
+
+/**
+ * 위치 정보 에러 메시지 키
+ */
+function getGeolocationErrorKey(error: GeolocationPositionError): MessageKey {
+  switch (error.code) {
+    case error.PERMISSION_DENIED:
+      return "location.permissionDenied";
+    case error.POSITION_UNAVAILABLE:
+      return "location.unavailable";
+    case error.TIMEOUT:
+      return "location.timeout";
+    default:
+      return "location.unknown";
+  }
+}
+
+/**
+ * 내 주변 관광지 검색 컴포넌트
+ */
+export function TourNearby({ className }: TourNearbyProps) {
+  const { isNearbyMode, radius, searchNearby, changeRadius, clearNearby } =
+    useNearbySearch();
+  const [isLocating, setIsLocating] = useState(false);
+  const toast = useToast();
+  const t = useTranslations();
+
+  // 현재 위치 조회 후 내 주변 모드 진입
+  const handleLocate = () => {
+    if (isLocating) return;
+
+    if (!navigator.geolocation) {
+      toast.error(t("location.unsupportedMessage"), t("location.unsupportedTitle"));
+      return;
+    }
+
+    setIsLocating(true);
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setIsLocating(false);
+        searchNearby({
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+        });
+      },
+      (error) => {
+        setIsLocating(false);
+        toast.error(t(getGeolocationErrorKey(error)), t("location.errorTitle"));
+      },
+      {
+        enableHighAccuracy: true,
+        timeout: 10000,
+        maximumAge: 60000,
+      },
+    );
+  };
+
+  return (
+    <div
+      className={cn("flex flex-wrap items-center gap-2", className)}
+      role="group"
+      aria-label={t("nearby.label")}
+    >
+      <Button
+        variant={isNearbyMode ? "default" : "outline"}
+        className="min-h-[44px]"
+        onClick={handleLocate}
+        disabled={isLocating}
+        aria-pressed={isNearbyMode}
+        aria-label={isNearbyMode ? t("nearby.relocate") : t("nearby.locate")}
+      >
+        {isLocating ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" aria-hidden="true" />
+        ) : (
+          <LocateFixed className="h-4 w-4 mr-2" aria-hidden="true" />
+        )}
+        {t("nearby.button")}
+      </Button>
+
+      {isNearbyMode && (
+        <>
+          <div className="flex flex-wrap gap-1" role="radiogroup" aria-label={t("nearby.radius")}>
+            {NEARBY_RADIUS_OPTIONS.map((option) => (
+              <Button
+                key={option}
+                variant={radius === option ? "secondary" : "ghost"}
+                size="sm"
+                className="min-h-[44px]"
+                onClick={() => changeRadius(option)}
+                role="radio"
+                aria-checked={radius === option}
+              >
+                {formatDistance(option)}
+              </Button>
+            ))}
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="min-h-[44px]"
+            onClick={clearNearby}
+            aria-label={t("nearby.clearLabel")}
+          >
+            <X className="h-4 w-4 mr-1" aria-hidden="true" />
+            {t("nearby.clear")}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
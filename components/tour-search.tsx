@@ -24,6 +24,7 @@
 import { useState, useEffect } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { Search, Loader2 } from "lucide-react";
+import { useLocalizePath, useTranslations } from "@/components/providers/locale-provider";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
@@ -48,6 +49,8 @@ export function TourSearch({
   className,
 }: TourSearchProps) {
   const router = useRouter();
+  const localize = useLocalizePath();
+  const t = useTranslations();
   const searchParams = useSearchParams();
   const [keyword, setKeyword] = useState("");
   const [isSearching, setIsSearching] = useState(false);
@@ -73,8 +76,19 @@ export function TourSearch({
     // 검색 시 페이지 리셋
     params.delete("page");
 
+    // 키워드 검색은 위치 기반 조회/숙박 검색과 함께 사용할 수 없으므로 해당 모드 해제
+    if (keyword.trim()) {
+      params.delete("mapX");
+      params.delete("mapY");
+      params.delete("radius");
+      params.delete("bounds");
+      params.delete("stay");
+      params.delete("parking");
+      params.delete("checkIn");
+    }
+
     setIsSearching(true);
-    router.push(`/?${params.toString()}`);
+    router.push(localize(`/?${params.toString()}`));
     
     // 검색 상태 리셋 (약간의 딜레이)
     setTimeout(() => {
@@ -96,7 +110,7 @@ export function TourSearch({
     const params = new URLSearchParams(searchParams.toString());
     params.delete("keyword");
     params.delete("page");
-    router.push(`/?${params.toString()}`);
+    router.push(localize(`/?${params.toString()}`));
   };
 
   const isHeaderPlacement = placement === "header";
@@ -109,7 +123,7 @@ export function TourSearch({
         className
       )}
       role="search"
-      aria-label="관광지 검색"
+      aria-label={t("search.label")}
     >
       <div className="relative flex-1">
         <Search
@@ -118,7 +132,7 @@ export function TourSearch({
         />
         <Input
           type="search"
-          placeholder="관광지명, 주소, 설명으로 검색..."
+          placeholder={t("search.placeholder")}
           value={keyword}
           onChange={(e) => setKeyword(e.target.value)}
           onKeyDown={handleKeyDown}
@@ -126,14 +140,14 @@ export function TourSearch({
             "pl-10 pr-10 min-h-[44px]",
             isHeaderPlacement && "text-sm"
           )}
-          aria-label="검색어 입력"
+          aria-label={t("search.input")}
           disabled={isSearching}
         />
         {keyword && (
           <button
             onClick={handleClear}
             className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors"
-            aria-label="검색어 지우기"
+            aria-label={t("search.clear")}
             disabled={isSearching}
           >
             <span className="text-lg leading-none">×</span>
@@ -144,14 +158,14 @@ export function TourSearch({
         onClick={handleSearch}
         disabled={isSearching}
         className="min-h-[44px] min-w-[44px] sm:min-w-[80px]"
-        aria-label="검색 실행"
+        aria-label={t("search.submitLabel")}
       >
         {isSearching ? (
           <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
         ) : (
           <>
             <Search className="h-4 w-4 sm:mr-2" aria-hidden="true" />
-            <span className="hidden sm:inline">검색</span>
+            <span className="hidden sm:inline">{t("search.submit")}</span>
           </>
         )}
       </Button>
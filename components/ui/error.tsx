@@ -12,10 +12,14 @@
  * @dependencies
  * - lucide-react: AlertCircle 아이콘
  * - components/ui/button: Button 컴포넌트
+ * - lib/i18n: useTranslations (기본 메시지, 재시도 버튼 문구)
  */
 
+"use client";
+
 import { AlertCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { useTranslations } from "@/components/providers/locale-provider";
 import { cn } from "@/lib/utils";
 
 interface ErrorProps {
@@ -33,7 +37,7 @@ interface ErrorProps {
   onRetry?: () => void;
   /**
    * 재시도 버튼 텍스트
-   * @default "다시 시도"
+   * @default 메시지 카탈로그의 common.retry
    */
   retryText?: string;
   /**
@@ -60,13 +64,15 @@ const iconSizeClasses = {
 };
 
 export function Error({
-  message = "오류가 발생했습니다. 잠시 후 다시 시도해주세요.",
+  message,
   title,
   onRetry,
-  retryText = "다시 시도",
+  retryText,
   className,
   size = "md",
 }: ErrorProps) {
+  const t = useTranslations();
+
   return (
     <div
       className={cn(
@@ -87,12 +93,12 @@ export function Error({
           </h3>
         )}
         <p className={cn("text-muted-foreground", sizeClasses[size])}>
-          {message}
+          {message ?? t("common.errorMessage")}
         </p>
       </div>
       {onRetry && (
         <Button onClick={onRetry} variant="outline" size="sm">
-          {retryText}
+          {retryText ?? t("common.retry")}
         </Button>
       )}
     </div>
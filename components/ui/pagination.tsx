@@ -15,6 +15,7 @@
  * @dependencies
  * - components/ui/button.tsx: Button 컴포넌트
  * - lucide-react: ChevronLeft, ChevronRight 아이콘
+ * - lib/i18n: useTranslations (버튼 라벨)
  *
  * @see {@link /docs/PRD.MD} - 페이지네이션 요구사항 참고
  */
@@ -23,6 +24,7 @@
 
 import { ChevronLeft, ChevronRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { useTranslations } from "@/components/providers/locale-provider";
 import { cn } from "@/lib/utils";
 
 interface PaginationProps {
@@ -44,7 +46,7 @@ interface PaginationProps {
   className?: string;
   /**
    * 페이지네이션 라벨 (접근성)
-   * @default "페이지네이션"
+   * @default 메시지 카탈로그의 pagination.label
    */
   ariaLabel?: string;
 }
@@ -57,8 +59,10 @@ export function Pagination({
   totalPages,
   onPageChange,
   className,
-  ariaLabel = "페이지네이션",
+  ariaLabel,
 }: PaginationProps) {
+  const t = useTranslations();
+
   // 페이지가 1개 이하이면 표시하지 않음
   if (totalPages <= 1) {
     return null;
@@ -156,7 +160,7 @@ export function Pagination({
   return (
     <nav
       className={cn("flex items-center justify-center gap-1", className)}
-      aria-label={ariaLabel}
+      aria-label={ariaLabel ?? t("pagination.label")}
       role="navigation"
     >
       {/* 이전 버튼 */}
@@ -165,11 +169,11 @@ export function Pagination({
         size="default"
         onClick={handlePrevious}
         disabled={currentPage === 1}
-        aria-label="이전 페이지"
+        aria-label={t("pagination.previousPage")}
         className="min-h-[44px] min-w-[44px] px-3 sm:px-4"
       >
         <ChevronLeft className="h-4 w-4" aria-hidden="true" />
-        <span className="sr-only sm:not-sr-only sm:ml-1">이전</span>
+        <span className="sr-only sm:not-sr-only sm:ml-1">{t("pagination.previous")}</span>
       </Button>
 
       {/* 페이지 번호 버튼들 */}
@@ -197,7 +201,7 @@ export function Pagination({
               size="default"
               onClick={() => handlePageClick(pageNum)}
               onKeyDown={(e) => handleKeyDown(e, pageNum)}
-              aria-label={`${pageNum}페이지로 이동`}
+              aria-label={t("pagination.goToPage", { page: pageNum })}
               aria-current={isCurrentPage ? "page" : undefined}
               className={cn(
                 "min-h-[44px] min-w-[44px]",
@@ -221,10 +225,10 @@ export function Pagination({
         size="default"
         onClick={handleNext}
         disabled={currentPage === totalPages}
-        aria-label="다음 페이지"
+        aria-label={t("pagination.nextPage")}
         className="min-h-[44px] min-w-[44px] px-3 sm:px-4"
       >
-        <span className="sr-only sm:not-sr-only sm:mr-1">다음</span>
+        <span className="sr-only sm:not-sr-only sm:mr-1">{t("pagination.next")}</span>
         <ChevronRight className="h-4 w-4" aria-hidden="true" />
       </Button>
     </nav>
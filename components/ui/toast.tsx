@@ -12,6 +12,7 @@
  * @dependencies
  * - lucide-react: CheckCircle2, XCircle, Info, AlertTriangle, X 아이콘
  * - components/ui/button: Button 컴포넌트
+ * - lib/i18n: useTranslations (닫기 버튼 라벨)
  */
 
 "use client";
@@ -19,6 +20,7 @@
 import * as React from "react";
 import { CheckCircle2, XCircle, Info, AlertTriangle, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { useTranslations } from "@/components/providers/locale-provider";
 import { cn } from "@/lib/utils";
 
 export type ToastType = "success" | "error" | "info" | "warning";
@@ -58,6 +60,7 @@ const iconStyles = {
 };
 
 export function ToastComponent({ toast, onClose }: ToastProps) {
+  const t = useTranslations();
   const Icon = toastIcons[toast.type];
 
   React.useEffect(() => {
@@ -90,7 +93,7 @@ export function ToastComponent({ toast, onClose }: ToastProps) {
         size="sm"
         className="h-6 w-6 shrink-0 p-0"
         onClick={() => onClose(toast.id)}
-        aria-label="닫기"
+        aria-label={t("common.close")}
       >
         <X className="h-4 w-4" />
       </Button>
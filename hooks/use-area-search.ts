@@ -0,0 +1,102 @@
+/**
+ * @file use-area-search.ts
+ * @description 이 지역 검색 훅
+ *
+ * 이 훅은 홈페이지의 "이 지역 검색" 모드 상태를 URL 쿼리 파라미터(bounds)로 관리합니다.
+ * 지도에 보이는 범위가 URL에 그대로 남으므로 같은 화면을 링크로 공유할 수 있습니다.
+ *
+ * 주요 기능:
+ * 1. 현재 URL이 이 지역 검색 모드인지 확인 (bounds="남,서,북,동")
+ * 2. 지도에 보이는 범위로 검색 시작
+ * 3. 이 지역 검색 모드 해제
+ *
+ * 핵심 구현 로직:
+ * - 위치 기반 조회(locationBasedList2)를 사용하므로 진입 시 지역/키워드/숙박 검색 파라미터와
+ *   내 주변 모드 파라미터(mapX, mapY, radius)를 제거합니다.
+ * - 페이지 번호는 항상 초기화합니다.
+ *
+ * @dependencies
+ * - next/navigation: useRouter, useSearchParams
+ * - lib/geo/coordinates.ts: parseBoundsParam, formatBoundsParam
+ */
+
+"use client";
+
+import { useCallback, useMemo } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useLocalizePath } from "@/components/providers/locale-provider";
+import {
+  formatBoundsParam,
+  parseBoundsParam,
+  type GeoBounds,
+} from "@/lib/geo/coordinates";
+
+interface UseAreaSearchReturn {
+  /**
+   * 이 지역 검색 모드 여부
+   */
+  isAreaMode: boolean;
+  /**
+   * 검색한 지도 범위 (이 지역 검색 모드가 아니면 null)
+   */
+  bounds: GeoBounds | null;
+  /**
+   * 지도에 보이는 범위로 검색 시작
+   */
+  searchArea: (bounds: GeoBounds) => void;
+  /**
+   * 이 지역 검색 모드 해제
+   */
+  clearArea: () => void;
+}
+
+/**
+ * 이 지역 검색 훅
+ */
+export function useAreaSearch(): UseAreaSearchReturn {
+  const router = useRouter();
+  const localize = useLocalizePath();
+  const searchParams = useSearchParams();
+
+  const boundsParam = searchParams.get("bounds");
+  const bounds = useMemo(() => parseBoundsParam(boundsParam), [boundsParam]);
+
+  const searchArea = useCallback(
+    (nextBounds: GeoBounds) => {
+      const params = new URLSearchParams(searchParams.toString());
+
+      params.set("bounds", formatBoundsParam(nextBounds));
+
+      // 위치 기반 조회는 지역/키워드 필터 및 숙박 검색을 지원하지 않음
+      params.delete("mapX");
+      params.delete("mapY");
+      params.delete("radius");
+      params.delete("areaCode");
+      params.delete("sigunguCode");
+      params.delete("lDongRegnCd");
+      params.delete("lDongSignguCd");
+      params.delete("keyword");
+      params.delete("stay");
+      params.delete("parking");
+      params.delete("checkIn");
+      params.delete("page");
+
+      router.push(localize(`/?${params.toString()}`));
+    },
+    [searchParams, router, localize],
+  );
+
+  const clearArea = useCallback(() => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.delete("bounds");
+    params.delete("page");
+    router.push(localize(`/?${params.toString()}`));
+  }, [searchParams, router, localize]);
+
+  return {
+    isAreaMode: bounds !== null,
+    bounds,
+    searchArea,
+    clearArea,
+  };
+}
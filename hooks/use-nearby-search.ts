@@ -0,0 +1,138 @@
+/**
+ * @file use-nearby-search.ts
+ * @description 내 주변 검색 훅
+ *
+ * 이 훅은 홈페이지의 "내 주변" 모드 상태를 URL 쿼리 파라미터로 관리합니다.
+ *
+ * 주요 기능:
+ * 1. 현재 URL이 내 주변 모드인지 확인 (mapX, mapY, radius)
+ * 2. 기준 좌표로 내 주변 검색 시작
+ * 3. 검색 반경 변경
+ * 4. 내 주변 모드 해제
+ *
+ * 핵심 구현 로직:
+ * - 위치 기반 조회(locationBasedList2)는 지역/키워드 필터를 지원하지 않으므로
+ *   내 주변 모드 진입 시 areaCode, sigunguCode, keyword 파라미터를 제거합니다.
+ * - 이 지역 검색 모드(bounds)가 우선하므로 내 주변 모드 진입 시 함께 제거합니다.
+ * - 페이지 번호는 항상 초기화합니다.
+ *
+ * @dependencies
+ * - next/navigation: useRouter, useSearchParams
+ * - lib/utils/distance.ts: DEFAULT_NEARBY_RADIUS
+ */
+
+"use client";
+
+import { useCallback, useMemo } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useLocalizePath } from "@/components/providers/locale-provider";
+import { DEFAULT_NEARBY_RADIUS } from "@/lib/utils/distance";
+
+interface NearbyCoords {
+  lat: number;
+  lng: number;
+}
+
+interface UseNearbySearchReturn {
+  /**
+   * 내 주변 모드 여부
+   */
+  isNearbyMode: boolean;
+  /**
+   * 현재 기준 좌표 (내 주변 모드가 아니면 null)
+   */
+  center: NearbyCoords | null;
+  /**
+   * 현재 검색 반경 (미터)
+   */
+  radius: number;
+  /**
+   * 기준 좌표로 내 주변 검색 시작
+   */
+  searchNearby: (coords: NearbyCoords, radius?: number) => void;
+  /**
+   * 검색 반경 변경
+   */
+  changeRadius: (radius: number) => void;
+  /**
+   * 내 주변 모드 해제
+   */
+  clearNearby: () => void;
+}
+
+/**
+ * 내 주변 검색 훅
+ */
+export function useNearbySearch(): UseNearbySearchReturn {
+  const router = useRouter();
+  const localize = useLocalizePath();
+  const searchParams = useSearchParams();
+
+  const mapX = searchParams.get("mapX");
+  const mapY = searchParams.get("mapY");
+  const radiusParam = searchParams.get("radius");
+
+  const center = useMemo(() => {
+    const lng = mapX ? parseFloat(mapX) : NaN;
+    const lat = mapY ? parseFloat(mapY) : NaN;
+    return Number.isFinite(lng) && Number.isFinite(lat) ? { lat, lng } : null;
+  }, [mapX, mapY]);
+
+  const radius = useMemo(() => {
+    const parsed = radiusParam ? parseInt(radiusParam, 10) : NaN;
+    return Number.isFinite(parsed) && parsed > 0
+      ? parsed
+      : DEFAULT_NEARBY_RADIUS;
+  }, [radiusParam]);
+
+  const searchNearby = useCallback(
+    (coords: NearbyCoords, nextRadius: number = radius) => {
+      const params = new URLSearchParams(searchParams.toString());
+
+      params.set("mapX", coords.lng.toFixed(6));
+      params.set("mapY", coords.lat.toFixed(6));
+      params.set("radius", String(nextRadius));
+      params.delete("bounds");
+
+      // 위치 기반 조회는 지역/키워드 필터 및 숙박 검색을 지원하지 않음
+      params.delete("areaCode");
+      params.delete("sigunguCode");
+      params.delete("lDongRegnCd");
+      params.delete("lDongSignguCd");
+      params.delete("keyword");
+      params.delete("stay");
+      params.delete("parking");
+      params.delete("checkIn");
+      params.delete("page");
+
+      router.push(localize(`/?${params.toString()}`));
+    },
+    [searchParams, router, localize, radius],
+  );
+
+  const changeRadius = useCallback(
+    (nextRadius: number) => {
+      if (!center) return;
+      searchNearby(center, nextRadius);
+    },
+    [center, searchNearby],
+  );
+
+  const clearNearby = useCallback(() => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.delete("mapX");
+    params.delete("mapY");
+    params.delete("radius");
+    params.delete("page");
+    router.push(localize(`/?${params.toString()}`));
+  }, [searchParams, router, localize]);
+
+  return {
+    isNearbyMode: center !== null,
+    center,
+    radius,
+    searchNearby,
+    changeRadius,
+    clearNearby,
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * @file category-api.ts
+ * @description 서비스 분류코드 이름 조회 API
+ *
+ * 이 파일은 관광지 목록의 분류코드(cat1, cat2, cat3)를 분류명으로 변환하는 함수를 제공합니다.
+ *
+ * 주요 기능:
+ * 1. 목록에 포함된 분류코드의 분류명 조회 (getCategoryNames)
+ *
+ * 핵심 구현 로직:
+ * - 대분류 → 중분류 → 소분류 순으로 필요한 상위 코드만 조회
+ * - 분류코드는 거의 변경되지 않으므로 조회 결과를 메모리에 보관
+ * - 분류코드 조회 함수는 호출하는 쪽에서 전달 (서버: tour-api.ts, 클라이언트: tour-api-client.ts)
+ * - Promise.allSettled()로 병렬 처리 및 부분 실패 허용
+ *
+ * @dependencies
+ * - lib/api/tour-api.ts: getCategoryCode 시그니처
+ * - lib/types/tour.ts: CategoryCode, TourItem 타입
+ */
+
+import type { getCategoryCode } from './tour-api';
+import { DEFAULT_TOUR_LANGUAGE } from '@/lib/types/tour';
+import type { CategoryCode, TourItem, TourLanguage } from '@/lib/types/tour';
+
+// =====================================================
+// 상수 및 캐시
+// =====================================================
+
+/**
+ * 분류코드 한 번에 조회할 최대 개수 (한 단계의 하위 분류 전체)
+ */
+const CATEGORY_NUM_OF_ROWS = 100;
+
+/**
+ * 상위 분류코드별 하위 분류 목록 캐시
+ * 키: 언어 + 상위 분류 경로 (예: "ko:", "ko:A01", "en:A01/A0101")
+ */
+const categoryListCache = new Map<string, Promise<CategoryCode[]>>();
+
+/**
+ * 분류명 조회에 사용하는 API 함수
+ * tour-api.ts(서버)와 tour-api-client.ts(클라이언트) 모두 이 형태를 만족합니다.
+ */
+export interface CategoryAPI {
+  getCategoryCode: typeof getCategoryCode;
+}
+
+/**
+ * 하위 분류 목록 조회 (캐시 사용)
+ * 조회 실패 시 캐시에서 제거하여 다음 요청에서 다시 시도합니다.
+ */
+function getCachedCategoryList(
+  api: CategoryAPI,
+  language: TourLanguage,
+  cat1?: string,
+  cat2?: string,
+): Promise<CategoryCode[]> {
+  const key = `${language}:${[cat1, cat2].filter(Boolean).join('/')}`;
+  const cached = categoryListCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const promise = api.getCategoryCode({
+    cat1,
+    cat2,
+    numOfRows: CATEGORY_NUM_OF_ROWS,
+    language,
+  }).catch((error) => {
+    categoryListCache.delete(key);
+    throw error;
+  });
+
+  categoryListCache.set(key, promise);
+  return promise;
+}
+
+// =====================================================
+// 분류명 조회
+// =====================================================
+
+/**
+ * 목록에 포함된 분류코드의 분류명 조회
+ * @param items - 관광지 목록
+ * @param api - 분류코드 조회 API 함수 (서버: tour-api.ts, 클라이언트: tour-api-client.ts)
+ * @param language - 분류명 언어 (기본값: 한국어)
+ * @returns 분류코드 → 분류명 매핑 (조회에 실패한 코드는 포함되지 않음)
+ */
+export async function getCategoryNames(
+  items: Pick<TourItem, 'cat1' | 'cat2' | 'cat3'>[],
+  api: CategoryAPI,
+  language: TourLanguage = DEFAULT_TOUR_LANGUAGE,
+): Promise<Record<string, string>> {
+  const cat1Codes = new Set<string>();
+  const cat2Paths = new Map<string, string>(); // cat2 → cat1
+  const cat3Parents = new Map<string, [string, string]>(); // cat2 → [cat1, cat2]
+
+  items.forEach(({ cat1, cat2, cat3 }) => {
+    if (cat1) cat1Codes.add(cat1);
+    if (cat1 && cat2) cat2Paths.set(cat2, cat1);
+    if (cat1 && cat2 && cat3) cat3Parents.set(cat2, [cat1, cat2]);
+  });
+
+  if (cat1Codes.size === 0) {
+    return {};
+  }
+
+  // 대분류 / 중분류(대분류별) / 소분류(중분류별) 목록을 병렬로 조회
+  const requests: Promise<CategoryCode[]>[] = [
+    getCachedCategoryList(api, language),
+    ...Array.from(new Set(cat2Paths.values())).map((cat1) =>
+      getCachedCategoryList(api, language, cat1),
+    ),
+    ...Array.from(cat3Parents.values()).map(([cat1, cat2]) =>
+      getCachedCategoryList(api, language, cat1, cat2),
+    ),
+  ];
+
+  const results = await Promise.allSettled(requests);
+
+  const names: Record<string, string> = {};
+  results.forEach((result) => {
+    if (result.status === 'fulfilled') {
+      result.value.forEach((category) => {
+        names[category.code] = category.name;
+      });
+    } else {
+      console.warn('[getCategoryNames] 분류코드 조회 실패:', result.reason);
+    }
+  });
+
+  return names;
+}
@@ -0,0 +1,230 @@
+/**
+ * @file merged-list-api.ts
+ * @description 다중 관광 타입 병합 조회
+ *
+ * 목록 API는 contentTypeId를 하나만 받으므로, 관광 타입을 여러 개 선택한 경우
+ * 타입별로 요청을 나눠 보내고 결과를 하나의 정렬된 목록으로 병합합니다.
+ *
+ * 주요 기능:
+ * 1. 선택한 타입별 조회 (fetchMergedList)
+ * 2. arrange 기준과 같은 순서로 병합
+ * 3. 타입별 totalCount 합산 및 병합 목록 기준 페이지네이션
+ *
+ * 핵심 구현 로직:
+ * - N페이지를 만들려면 병합 순서상 앞선 N × numOfRows개가 필요합니다.
+ *   타입별 목록은 고정 크기(MERGED_FETCH_ROWS) 페이지로 나눠 병합에 필요한 만큼만 차례로 조회합니다.
+ *   페이지 조회 인자가 병합 페이지와 관계없이 같으므로 앞 페이지는 API 응답 캐시를 재사용합니다.
+ * - 타입별 목록은 이미 API가 정렬한 순서이므로 다시 정렬하지 않고 각 목록의 맨 앞 항목끼리만 비교하여 병합합니다.
+ *   (제목순은 API와 localeCompare의 정렬 규칙이 달라도 타입 안의 순서는 API 순서를 유지)
+ * - 조회 깊이는 MAX_MERGED_DEPTH로 제한하며, 그 이후 페이지는 빈 목록을 반환합니다.
+ *   totalCount도 조회 가능한 깊이까지로 제한하여 목록이 빈 페이지를 요청하지 않게 합니다.
+ * - 한 타입이라도 조회에 실패하면 병합 결과가 틀어지므로 전체 조회를 실패로 처리합니다.
+ *
+ * @dependencies
+ * - lib/api/tour-api-error.ts: TourAPIError
+ * - lib/types/tour.ts: TourItem, LocationArrange 타입
+ */
+
+import { TourAPIError } from './tour-api-error';
+import type { LocationArrange, TourItem } from '@/lib/types/tour';
+
+// =====================================================
+// 상수 및 타입
+// =====================================================
+
+/**
+ * 병합 목록의 최대 조회 깊이 (이후 페이지는 빈 목록)
+ */
+export const MAX_MERGED_DEPTH = 1000;
+
+/**
+ * 타입별 페이지 크기 (병합 페이지 번호와 관계없이 고정하여 캐시를 재사용)
+ */
+export const MERGED_FETCH_ROWS = 50;
+
+/**
+ * 타입별 페이지 조회 함수
+ * 병합 조회는 1페이지부터 필요한 페이지까지 MERGED_FETCH_ROWS 크기로 조회합니다.
+ */
+export type MergedPageFetcher<T extends TourItem> = (
+  contentTypeId: string,
+  numOfRows: number,
+  pageNo: number,
+) => Promise<{ items: T[]; totalCount: number }>;
+
+/**
+ * 병합 중인 타입별 목록 (조회한 페이지까지의 항목과 다음 항목 위치)
+ */
+interface MergeSource<T extends TourItem> {
+  contentTypeId: string;
+  items: T[];
+  cursor: number;
+  pageNo: number;
+  totalCount: number;
+  hasMore: boolean;
+}
+
+/**
+ * 병합 조회 결과
+ */
+export interface MergedListResponse<T extends TourItem> {
+  items: T[];
+  totalCount: number; // 타입별 totalCount 합계 (최대 조회 깊이로 제한)
+  numOfRows: number;
+  pageNo: number;
+}
+
+// =====================================================
+// 정렬
+// =====================================================
+
+/**
+ * arrange 코드와 같은 순서의 비교 함수 생성
+ * 서로 다른 타입 목록의 맨 앞 항목을 비교할 때만 사용합니다.
+ * 같은 순위인 항목은 contentid로 순서를 고정하여 페이지 간 순서가 흔들리지 않게 합니다.
+ */
+function getArrangeComparator(arrange: LocationArrange) {
+  const compareKey = (a: TourItem, b: TourItem): number => {
+    switch (arrange) {
+      case 'A':
+      case 'O':
+        return a.title.localeCompare(b.title, 'ko');
+      case 'D':
+      case 'R':
+        return (b.createdtime || '').localeCompare(a.createdtime || '');
+      case 'E':
+      case 'S': {
+        const distA = Number((a as TourItem & { dist?: string }).dist);
+        const distB = Number((b as TourItem & { dist?: string }).dist);
+        return (Number.isFinite(distA) ? distA : Infinity) -
+          (Number.isFinite(distB) ? distB : Infinity);
+      }
+      case 'C':
+      case 'Q':
+      default:
+        return (b.modifiedtime || '').localeCompare(a.modifiedtime || '');
+    }
+  };
+
+  return (a: TourItem, b: TourItem): number =>
+    compareKey(a, b) || a.contentid.localeCompare(b.contentid);
+}
+
+/**
+ * 정렬된 타입별 목록을 앞에서부터 count개까지 병합
+ * 각 목록의 순서(API 정렬 순서)를 유지하면서 맨 앞 항목 중 가장 앞서는 항목을 차례로 꺼냅니다.
+ * 조회한 항목을 모두 꺼낸 목록은 비교 전에 다음 페이지를 조회합니다.
+ * 여러 타입에 같은 항목이 있으면 먼저 나온 항목만 남깁니다.
+ */
+async function mergeSortedSources<T extends TourItem>(
+  sources: MergeSource<T>[],
+  compare: (a: TourItem, b: TourItem) => number,
+  count: number,
+  fetchPage: MergedPageFetcher<T>,
+): Promise<T[]> {
+  const seen = new Set<string>();
+  const merged: T[] = [];
+
+  const loadNextPages = () =>
+    Promise.all(
+      sources
+        .filter((source) => source.hasMore && source.cursor >= source.items.length)
+        .map(async (source) => {
+          const page = await fetchPage(source.contentTypeId, MERGED_FETCH_ROWS, source.pageNo + 1);
+          source.pageNo += 1;
+          source.items.push(...page.items);
+          source.totalCount = page.totalCount;
+          source.hasMore =
+            page.items.length === MERGED_FETCH_ROWS &&
+            source.pageNo * MERGED_FETCH_ROWS < Math.min(page.totalCount, MAX_MERGED_DEPTH);
+        }),
+    );
+
+  await loadNextPages();
+  while (merged.length < count) {
+    await loadNextPages();
+
+    let next: MergeSource<T> | undefined;
+    sources.forEach((source) => {
+      if (source.cursor >= source.items.length) return;
+      if (!next || compare(source.items[source.cursor], next.items[next.cursor]) < 0) {
+        next = source;
+      }
+    });
+    if (!next) {
+      break;
+    }
+
+    const item = next.items[next.cursor++];
+    if (!seen.has(item.contentid)) {
+      seen.add(item.contentid);
+      merged.push(item);
+    }
+  }
+
+  return merged;
+}
+
+// =====================================================
+// 병합 조회
+// =====================================================
+
+/**
+ * 다중 관광 타입 병합 조회
+ * @param contentTypeIds - 선택한 관광 타입 목록 (2개 이상)
+ * @param fetchPage - 타입별 조회 함수
+ * @param options - 정렬 기준 및 병합 목록 기준 페이지 정보
+ * @returns 병합된 목록 (해당 페이지 항목, 합산 totalCount)
+ * @throws {TourAPIError} 타입별 조회 중 하나라도 실패한 경우
+ */
+export async function fetchMergedList<T extends TourItem>(
+  contentTypeIds: string[],
+  fetchPage: MergedPageFetcher<T>,
+  options: { arrange: LocationArrange; numOfRows: number; pageNo: number },
+): Promise<MergedListResponse<T>> {
+  const { arrange, numOfRows, pageNo } = options;
+  const start = (pageNo - 1) * numOfRows;
+  const depth = Math.min(start + numOfRows, MAX_MERGED_DEPTH);
+
+  try {
+    const sources: MergeSource<T>[] = contentTypeIds.map((contentTypeId) => ({
+      contentTypeId,
+      items: [],
+      cursor: 0,
+      pageNo: 0,
+      totalCount: 0,
+      hasMore: true,
+    }));
+
+    // 타입 간 중복 항목 제거 후 arrange 순서로 병합 (해당 페이지 끝까지만)
+    // 최대 조회 깊이 이후 페이지는 totalCount를 위해 첫 페이지만 조회
+    const merged = await mergeSortedSources(
+      sources,
+      getArrangeComparator(arrange),
+      start < depth ? depth : 0,
+      fetchPage,
+    );
+
+    // 최대 조회 깊이 이후의 항목은 조회하지 않음
+    const totalCount = Math.min(
+      sources.reduce((sum, source) => sum + source.totalCount, 0),
+      MAX_MERGED_DEPTH,
+    );
+
+    return {
+      items: start < depth ? merged.slice(start, start + numOfRows) : [],
+      totalCount,
+      numOfRows,
+      pageNo,
+    };
+  } catch (error) {
+    if (error instanceof TourAPIError) {
+      throw error;
+    }
+    throw new TourAPIError(
+      '관광 타입별 목록 병합 중 에러가 발생했습니다.',
+      undefined,
+      error instanceof Error ? error : new Error(String(error)),
+    );
+  }
+}
@@ -5,44 +5,59 @@
  * 이 파일은 한국관광공사 API를 활용하여 지역별/타입별 관광지 통계 데이터를 수집하는 함수들을 제공합니다.
  *
  * 주요 기능:
- * 1. 지역별 관광지 통계 수집 (getRegionStats)
+ * 1. 지역별 관광지 통계 수집 (getRegionStats, 시/도 → 시군구 드릴다운 지원)
  * 2. 타입별 관광지 통계 수집 (getTypeStats)
  * 3. 통계 요약 정보 생성 (getStatsSummary)
  *
  * 핵심 구현 로직:
  * - getAreaBasedList() API의 totalCount 활용
- * - Promise.allSettled()로 병렬 처리 및 부분 실패 허용
+ * - Promise.allSettled()로 병렬 처리 및 부분 실패 허용 (수집하지 못한 항목 수를 missingCount로 반환)
+ * - 통계는 부가 기능이므로 부가 호출(optional)로 처리: 일일 호출 한도가 가까워지면
+ *   캐시된 결과만 사용하고, 하나도 수집하지 못하면 QUOTA_EXCEEDED 에러를 던짐
+ * - 통계 페이지 렌더링 중에 수집하므로 짧게 재시도 (failFast 재시도 정책)
+ *   재시도 후에도 실패한 항목은 제외하고, 페이지는 일부 데이터 안내와 함께 표시
  * - TourAPIError 클래스로 에러 처리
  *
  * @dependencies
- * - lib/api/tour-api.ts: getAreaCode, getAreaBasedList, TourAPIError
+ * - lib/api/tour-api.ts: getAreaCode, getSigunguCode, getAreaBasedList, withTourAPIPriority, withTourAPIRetryPolicy, TourAPIError
  * - lib/types/tour.ts: CONTENT_TYPE 상수
- * - lib/types/stats.ts: RegionStats, TypeStats, StatsSummary
+ * - lib/types/stats.ts: RegionStats, TypeStats, StatsSummary, StatsCollection
+ * - lib/utils/region-code.ts: toLDongRegnCd (법정동 시/도 코드 매핑)
+ * - lib/i18n/names.ts: getContentTypeName (콘텐츠 타입명)
  *
  * @see {@link /docs/PRD.MD} - 통계 대시보드 요구사항 참고
  */
 
-import { getAreaCode, getAreaBasedList, TourAPIError } from './tour-api';
+import {
+  getAreaCode,
+  getSigunguCode,
+  getAreaBasedList,
+  withTourAPIPriority,
+  withTourAPIRetryPolicy,
+  TourAPIError,
+} from './tour-api';
+import { isQuotaExceededError } from './tour-api-error';
 import { CONTENT_TYPE } from '@/lib/types/tour';
-import type { RegionStats, TypeStats, StatsSummary } from '@/lib/types/stats';
+import type {
+  RegionStats,
+  TypeStats,
+  StatsSummary,
+  StatsCollection,
+} from '@/lib/types/stats';
+import { toLDongRegnCd } from '@/lib/utils/region-code';
+import { getContentTypeName } from '@/lib/i18n/names';
 
 // =====================================================
-// 타입명 매핑 객체
+// 통계 수집용 API 호출
 // =====================================================
 
 /**
- * 콘텐츠 타입 ID와 한글 타입명 매핑
+ * 통계 수집용 API 호출
+ * 부가 호출(optional)로 처리하고, 사용자가 페이지 렌더링을 기다리므로 failFast 정책으로 짧게 재시도합니다.
  */
-const TYPE_NAME_MAP: Record<string, string> = {
-  [CONTENT_TYPE.TOURIST_SPOT]: '관광지',
-  [CONTENT_TYPE.CULTURAL_FACILITY]: '문화시설',
-  [CONTENT_TYPE.FESTIVAL]: '축제/행사',
-  [CONTENT_TYPE.TOUR_COURSE]: '여행코스',
-  [CONTENT_TYPE.LEISURE_SPORTS]: '레포츠',
-  [CONTENT_TYPE.ACCOMMODATION]: '숙박',
-  [CONTENT_TYPE.SHOPPING]: '쇼핑',
-  [CONTENT_TYPE.RESTAURANT]: '음식점',
-} as const;
+function collectStats<T>(fn: () => Promise<T>): Promise<T> {
+  return withTourAPIPriority('optional', () => withTourAPIRetryPolicy('failFast', fn));
+}
 
 // =====================================================
 // 지역별 통계 수집
@@ -50,37 +65,56 @@ const TYPE_NAME_MAP: Record<string, string> = {
 
 /**
  * 지역별 관광지 통계 수집
- * @returns 지역별 관광지 통계 배열
+ * 시/도 코드를 지정하면 해당 시/도의 시군구별 통계를 수집합니다.
+ * @param areaCode - 시/도 코드 (선택, 지정 시 시군구별 통계)
+ * @returns 지역별 관광지 통계 (수집하지 못한 지역 수 포함)
  * @throws {TourAPIError} API 호출 실패 시
  */
-export async function getRegionStats(): Promise<RegionStats[]> {
+export async function getRegionStats(
+  areaCode?: string,
+): Promise<StatsCollection<RegionStats>> {
   try {
-    // 1. 모든 지역 코드 조회 (numOfRows를 크게 설정하여 한 번에 조회)
-    const areaCodes = await getAreaCode({ numOfRows: 100, pageNo: 1 });
+    // 1. 지역 코드 조회 (시/도 코드가 있으면 해당 시/도의 시군구 목록, 없으면 전체 시/도 목록)
+    const regionCodes = await collectStats(() =>
+      areaCode ? getSigunguCode(areaCode) : getAreaCode({ numOfRows: 100, pageNo: 1 }),
+    );
 
-    if (areaCodes.length === 0) {
-      console.warn('[getRegionStats] 지역 코드를 조회할 수 없습니다.');
-      return [];
+    if (regionCodes.length === 0) {
+      console.warn(
+        areaCode
+          ? `[getRegionStats] 지역 ${areaCode}의 시군구 코드를 조회할 수 없습니다.`
+          : '[getRegionStats] 지역 코드를 조회할 수 없습니다.',
+      );
+      return { items: [], missingCount: 0 };
     }
 
     // 2. 각 지역별로 totalCount 조회 (병렬 처리)
-    const statsPromises = areaCodes.map(async (areaCode) => {
+    let quotaError: TourAPIError | undefined;
+    const statsPromises = regionCodes.map(async (region) => {
       try {
-        const response = await getAreaBasedList({
-          areaCode: areaCode.code,
-          numOfRows: 1, // totalCount만 필요하므로 최소한의 데이터만 요청
-          pageNo: 1,
-        });
+        const response = await collectStats(() =>
+          getAreaBasedList({
+            areaCode: areaCode || region.code,
+            sigunguCode: areaCode ? region.code : undefined,
+            numOfRows: 1, // totalCount만 필요하므로 최소한의 데이터만 요청
+            pageNo: 1,
+          }),
+        );
 
         return {
-          areaCode: areaCode.code,
-          name: areaCode.name,
+          areaCode: areaCode || region.code,
+          sigunguCode: areaCode ? region.code : undefined,
+          lDongRegnCd: toLDongRegnCd(areaCode || region.code),
+          name: region.name,
           count: response.totalCount,
         } as RegionStats;
       } catch (error) {
+        if (isQuotaExceededError(error)) {
+          quotaError = error;
+        }
         // 부분 실패 허용: 실패한 지역은 로그만 남기고 제외
         console.error(
-          `[getRegionStats] 지역 ${areaCode.name} (${areaCode.code}) 통계 수집 실패:`,
+          `[getRegionStats] 지역 ${region.name} (${areaCode ? `${areaCode}-` : ''}${region.code}) 통계 수집 실패:`,
           error instanceof Error ? error.message : String(error),
         );
         return null;
@@ -99,7 +133,12 @@ export async function getRegionStats(): Promise<RegionStats[]> {
       .map((result) => result.value)
       .filter((stat): stat is RegionStats => stat !== null);
 
-    return regionStats;
+    // 호출 한도 때문에 하나도 수집하지 못한 경우 빈 통계 대신 한도 초과로 처리
+    if (regionStats.length === 0 && quotaError) {
+      throw quotaError;
+    }
+
+    return { items: regionStats, missingCount: regionCodes.length - regionStats.length };
   } catch (error) {
     if (error instanceof TourAPIError) {
       throw error;
@@ -118,30 +157,36 @@ export async function getRegionStats(): Promise<RegionStats[]> {
 
 /**
  * 타입별 관광지 통계 수집
- * @returns 타입별 관광지 통계 배열 (비율 포함)
+ * @returns 타입별 관광지 통계 (비율 포함, 수집하지 못한 타입 수 포함)
  * @throws {TourAPIError} API 호출 실패 시
  */
-export async function getTypeStats(): Promise<TypeStats[]> {
+export async function getTypeStats(): Promise<StatsCollection<TypeStats>> {
   try {
     // 1. 모든 콘텐츠 타입 ID 추출
     const contentTypeIds = Object.values(CONTENT_TYPE);
 
     // 2. 각 타입별로 totalCount 조회 (병렬 처리)
+    let quotaError: TourAPIError | undefined;
     const statsPromises = contentTypeIds.map(async (contentTypeId) => {
       try {
-        const response = await getAreaBasedList({
-          contentTypeId,
-          numOfRows: 1, // totalCount만 필요하므로 최소한의 데이터만 요청
-          pageNo: 1,
-        });
+        const response = await collectStats(() =>
+          getAreaBasedList({
+            contentTypeId,
+            numOfRows: 1, // totalCount만 필요하므로 최소한의 데이터만 요청
+            pageNo: 1,
+          }),
+        );
 
         return {
           contentTypeId,
-          name: TYPE_NAME_MAP[contentTypeId] || `타입 ${contentTypeId}`,
+          name: getContentTypeName(contentTypeId),
           count: response.totalCount,
           percentage: 0, // 나중에 계산
         } as TypeStats;
       } catch (error) {
+        if (isQuotaExceededError(error)) {
+          quotaError = error;
+        }
         // 부분 실패 허용: 실패한 타입은 로그만 남기고 제외
         console.error(
           `[getTypeStats] 타입 ${contentTypeId} 통계 수집 실패:`,
@@ -163,19 +208,29 @@ export async function getTypeStats(): Promise<TypeStats[]> {
       .map((result) => result.value)
       .filter((stat): stat is TypeStats => stat !== null);
 
+    // 호출 한도 때문에 하나도 수집하지 못한 경우 빈 통계 대신 한도 초과로 처리
+    if (typeStats.length === 0 && quotaError) {
+      throw quotaError;
+    }
+
+    const missingCount = contentTypeIds.length - typeStats.length;
+
     // 5. 전체 개수 계산 및 비율 계산
     const totalCount = typeStats.reduce((sum, stat) => sum + stat.count, 0);
 
     if (totalCount === 0) {
       console.warn('[getTypeStats] 전체 관광지 수가 0입니다.');
-      return typeStats;
+      return { items: typeStats, missingCount };
     }
 
     // 각 타입별 비율 계산 (백분율)
-    return typeStats.map((stat) => ({
-      ...stat,
-      percentage: Number(((stat.count / totalCount) * 100).toFixed(2)),
-    }));
+    return {
+      items: typeStats.map((stat) => ({
+        ...stat,
+        percentage: Number(((stat.count / totalCount) * 100).toFixed(2)),
+      })),
+      missingCount,
+    };
   } catch (error) {
     if (error instanceof TourAPIError) {
       throw error;
@@ -194,16 +249,15 @@ export async function getTypeStats(): Promise<TypeStats[]> {
 
 /**
  * 통계 요약 정보 생성
- * @returns 통계 요약 정보 (전체 개수, Top 3 지역, Top 3 타입, 마지막 업데이트 시간)
+ * @returns 통계 요약 정보 (전체 개수, Top 3 지역, Top 3 타입, 마지막 업데이트 시간, 수집하지 못한 항목 수)
  * @throws {TourAPIError} API 호출 실패 시
  */
 export async function getStatsSummary(): Promise<StatsSummary> {
   try {
     // 1. 지역별 통계와 타입별 통계를 병렬로 수집
-    const [regionStats, typeStats] = await Promise.all([
-      getRegionStats(),
-      getTypeStats(),
-    ]);
+    const [regions, types] = await Promise.all([getRegionStats(), getTypeStats()]);
+    const regionStats = regions.items;
+    const typeStats = types.items;
 
     // 2. 전체 관광지 수 계산 (모든 타입의 count 합계)
     const totalCount = typeStats.reduce((sum, stat) => sum + stat.count, 0);
@@ -226,6 +280,7 @@ export async function getStatsSummary(): Promise<StatsSummary> {
       topRegions,
       topTypes,
       lastUpdated,
+      missingCount: regions.missingCount + types.missingCount,
     };
   } catch (error) {
     if (error instanceof TourAPIError) {
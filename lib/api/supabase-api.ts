@@ -40,6 +40,17 @@ export interface Bookmark {
   created_at: string;
 }
 
+/**
+ * Clerk 사용자에 해당하는 Supabase 사용자를 찾지 못했을 때의 에러
+ * (자동 동기화까지 실패한 경우, 화면에서는 "동기화되지 않음" 안내로 구분합니다)
+ */
+export class BookmarkUserNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BookmarkUserNotFoundError";
+  }
+}
+
 /**
  * 사용자 정보 (users 테이블)
  */
@@ -225,7 +236,7 @@ export async function addBookmark(
     // 1. Clerk user ID를 Supabase user_id로 변환
     const userId = await getSupabaseUserId(supabase, clerkUserId);
     if (!userId) {
-      throw new Error("사용자를 찾을 수 없습니다. 로그인 상태를 확인해주세요.");
+      throw new BookmarkUserNotFoundError("사용자를 찾을 수 없습니다. 로그인 상태를 확인해주세요.");
     }
 
     // 2. 북마크 추가
@@ -275,7 +286,7 @@ export async function removeBookmark(
     // 1. Clerk user ID를 Supabase user_id로 변환
     const userId = await getSupabaseUserId(supabase, clerkUserId);
     if (!userId) {
-      throw new Error("사용자를 찾을 수 없습니다. 로그인 상태를 확인해주세요.");
+      throw new BookmarkUserNotFoundError("사용자를 찾을 수 없습니다. 로그인 상태를 확인해주세요.");
     }
 
     // 2. 북마크 제거
@@ -312,7 +323,7 @@ export async function getUserBookmarks(
     const userId = await getSupabaseUserId(supabase, clerkUserId, true);
     if (!userId) {
       // 사용자를 찾을 수 없는 경우 명확한 에러 메시지
-      throw new Error(
+      throw new BookmarkUserNotFoundError(
         "사용자를 찾을 수 없습니다. 로그인 상태를 확인하거나 잠시 후 다시 시도해주세요."
       );
     }
@@ -0,0 +1,495 @@
+/**
+ * @file tour-api-cache.ts
+ * @description 한국관광공사 API 응답 캐시
+ *
+ * 이 파일은 tour-api.ts가 사용하는 응답 캐시를 제공합니다.
+ * 일일 호출 한도를 아끼기 위해 같은 요청의 응답을 오퍼레이션별 유효 기간 동안 재사용합니다.
+ *
+ * 주요 기능:
+ * 1. 오퍼레이션별 유효 기간 (코드 조회: 3일, 목록: 1시간, 상세: 1일)
+ * 2. 저장소 어댑터 (메모리, 파일 시스템, Supabase 테이블)
+ * 3. stale-while-revalidate (만료 후 일정 기간은 이전 응답을 반환하고 백그라운드에서 갱신)
+ * 4. 캐시 적중률 지표 및 수동 삭제
+ *
+ * 핵심 구현 로직:
+ * - 캐시 키는 오퍼레이션 이름 + API 키를 제외한 쿼리 문자열
+ * - 정상 응답(resultCode '0000')만 저장
+ * - 저장소 오류는 요청을 실패시키지 않고 원본 API 호출로 대체 (지표에 기록)
+ * - 어댑터는 환경변수 TOUR_API_CACHE(memory | fs | supabase | none)로 선택하며 기본값은 memory
+ *
+ * @dependencies
+ * - lib/supabase/service-role.ts: getServiceRoleClient (Supabase 어댑터)
+ */
+
+import 'server-only';
+
+import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, rm, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import { getServiceRoleClient } from '@/lib/supabase/service-role';
+
+// =====================================================
+// 상수 및 타입
+// =====================================================
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * 캐시 정책
+ * ttl: 응답을 그대로 사용하는 기간
+ * staleTtl: 만료 후 이전 응답을 반환하면서 백그라운드에서 갱신하는 기간
+ */
+export interface TourAPICachePolicy {
+  ttl: number;
+  staleTtl: number;
+}
+
+const CODE_CACHE_POLICY: TourAPICachePolicy = { ttl: 3 * DAY, staleTtl: 7 * DAY };
+const LIST_CACHE_POLICY: TourAPICachePolicy = { ttl: HOUR, staleTtl: HOUR };
+const DETAIL_CACHE_POLICY: TourAPICachePolicy = { ttl: DAY, staleTtl: DAY };
+
+/**
+ * KorService2 오퍼레이션별 캐시 정책
+ */
+export const TOUR_API_CACHE_POLICIES = {
+  areaCode2: CODE_CACHE_POLICY,
+  categoryCode2: CODE_CACHE_POLICY,
+  ldongCode2: CODE_CACHE_POLICY,
+  lclsSystmCode2: CODE_CACHE_POLICY,
+  areaBasedList2: LIST_CACHE_POLICY,
+  searchKeyword2: LIST_CACHE_POLICY,
+  locationBasedList2: LIST_CACHE_POLICY,
+  searchFestival2: LIST_CACHE_POLICY,
+  searchStay2: LIST_CACHE_POLICY,
+  detailCommon2: DETAIL_CACHE_POLICY,
+  detailIntro2: DETAIL_CACHE_POLICY,
+  detailInfo2: DETAIL_CACHE_POLICY,
+  detailImage2: DETAIL_CACHE_POLICY,
+  detailPetTour2: DETAIL_CACHE_POLICY,
+} satisfies Record<string, TourAPICachePolicy>;
+
+/**
+ * KorService2 오퍼레이션 이름 (외국어 서비스도 같은 이름 사용)
+ */
+export type KorServiceOperation = keyof typeof TOUR_API_CACHE_POLICIES;
+
+/**
+ * 캐시 항목
+ */
+export interface TourAPICacheEntry {
+  key: string;
+  value: unknown;
+  storedAt: number;
+  expiresAt: number; // 이 시각까지는 그대로 사용
+  staleUntil: number; // 이 시각까지는 이전 응답 반환 + 백그라운드 갱신
+}
+
+/**
+ * 캐시 저장소 어댑터
+ */
+export interface TourAPICacheAdapter {
+  name: string;
+  get(key: string): Promise<TourAPICacheEntry | null>;
+  set(entry: TourAPICacheEntry): Promise<void>;
+  /**
+   * 키가 prefix로 시작하는 항목 삭제 (prefix가 없으면 전체 삭제)
+   */
+  clear(prefix?: string): Promise<void>;
+}
+
+/**
+ * 오퍼레이션별 캐시 지표
+ */
+export interface TourAPICacheMetrics {
+  hits: number; // 유효 기간 내 응답 반환
+  staleHits: number; // 만료된 응답 반환 (백그라운드 갱신)
+  misses: number; // 원본 API 호출
+  revalidations: number; // 백그라운드 갱신 성공
+  errors: number; // 저장소 오류 또는 백그라운드 갱신 실패
+}
+
+// =====================================================
+// 저장소 어댑터
+// =====================================================
+
+const DEFAULT_MEMORY_MAX_ENTRIES = 500;
+
+/**
+ * 메모리 어댑터
+ * 서버 인스턴스별로 유지되며, 최대 개수를 넘으면 가장 오래 사용하지 않은 항목부터 제거합니다.
+ * 호출하는 쪽에서 응답을 수정해도 캐시가 바뀌지 않도록 직렬화하여 보관합니다.
+ */
+export function createMemoryCacheAdapter(
+  maxEntries: number = DEFAULT_MEMORY_MAX_ENTRIES,
+): TourAPICacheAdapter {
+  const store = new Map<string, string>();
+
+  return {
+    name: 'memory',
+    async get(key) {
+      const raw = store.get(key);
+      if (raw === undefined) {
+        return null;
+      }
+      // 최근 사용 순서 갱신
+      store.delete(key);
+      store.set(key, raw);
+      return JSON.parse(raw) as TourAPICacheEntry;
+    },
+    async set(entry) {
+      store.delete(entry.key);
+      store.set(entry.key, JSON.stringify(entry));
+      while (store.size > maxEntries) {
+        const oldestKey = store.keys().next().value;
+        if (oldestKey === undefined) break;
+        store.delete(oldestKey);
+      }
+    },
+    async clear(prefix) {
+      if (!prefix) {
+        store.clear();
+        return;
+      }
+      Array.from(store.keys())
+        .filter((key) => key.startsWith(prefix))
+        .forEach((key) => store.delete(key));
+    },
+  };
+}
+
+const DEFAULT_CACHE_DIRECTORY = path.join(process.cwd(), '.next', 'cache', 'tour-api');
+
+/**
+ * 파일 시스템 어댑터
+ * 서버를 재시작해도 유지되며, 같은 디렉터리를 쓰는 인스턴스끼리 공유됩니다.
+ * 파일 이름은 키의 해시이고, 항목에 원래 키를 함께 저장하여 prefix 삭제에 사용합니다.
+ */
+export function createFileSystemCacheAdapter(
+  directory: string = DEFAULT_CACHE_DIRECTORY,
+): TourAPICacheAdapter {
+  const getFilePath = (key: string) =>
+    path.join(directory, `${createHash('sha1').update(key).digest('hex')}.json`);
+
+  return {
+    name: 'fs',
+    async get(key) {
+      try {
+        const entry = JSON.parse(await readFile(getFilePath(key), 'utf8')) as TourAPICacheEntry;
+        // 해시 충돌 방지
+        return entry.key === key ? entry : null;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+    async set(entry) {
+      await mkdir(directory, { recursive: true });
+      await writeFile(getFilePath(entry.key), JSON.stringify(entry), 'utf8');
+    },
+    async clear(prefix) {
+      if (!prefix) {
+        await rm(directory, { recursive: true, force: true });
+        return;
+      }
+
+      const files = await readdir(directory).catch(() => [] as string[]);
+      await Promise.all(
+        files.map(async (file) => {
+          const filePath = path.join(directory, file);
+          try {
+            const entry = JSON.parse(await readFile(filePath, 'utf8')) as TourAPICacheEntry;
+            if (entry.key.startsWith(prefix)) {
+              await unlink(filePath);
+            }
+          } catch {
+            // 읽을 수 없는 파일은 건너뜀
+          }
+        }),
+      );
+    },
+  };
+}
+
+const DEFAULT_CACHE_TABLE = 'tour_api_cache';
+
+/**
+ * Supabase 테이블 어댑터
+ * 여러 서버 인스턴스(서버리스 포함)가 캐시를 공유합니다.
+ * 테이블 스키마: supabase/migrations/20261018000000_tour_api_cache.sql
+ */
+export function createSupabaseCacheAdapter(
+  table: string = DEFAULT_CACHE_TABLE,
+): TourAPICacheAdapter {
+  return {
+    name: 'supabase',
+    async get(key) {
+      const { data, error } = await getServiceRoleClient()
+        .from(table)
+        .select('key, value, stored_at, expires_at, stale_until')
+        .eq('key', key)
+        .maybeSingle();
+
+      if (error) {
+        throw error;
+      }
+      if (!data) {
+        return null;
+      }
+
+      return {
+        key: data.key,
+        value: data.value,
+        storedAt: new Date(data.stored_at).getTime(),
+        expiresAt: new Date(data.expires_at).getTime(),
+        staleUntil: new Date(data.stale_until).getTime(),
+      };
+    },
+    async set(entry) {
+      const { error } = await getServiceRoleClient()
+        .from(table)
+        .upsert(
+          {
+            key: entry.key,
+            value: entry.value,
+            stored_at: new Date(entry.storedAt).toISOString(),
+            expires_at: new Date(entry.expiresAt).toISOString(),
+            stale_until: new Date(entry.staleUntil).toISOString(),
+          },
+          { onConflict: 'key' },
+        );
+
+      if (error) {
+        throw error;
+      }
+    },
+    async clear(prefix) {
+      const query = getServiceRoleClient().from(table).delete();
+      // 조건 없는 delete는 거부되므로 전체 삭제는 모든 키에 일치하는 조건 사용
+      const { error } = await query.like('key', `${escapeLikePattern(prefix || '')}%`);
+
+      if (error) {
+        throw error;
+      }
+    },
+  };
+}
+
+/**
+ * LIKE 패턴 특수문자 이스케이프
+ */
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * 환경변수(TOUR_API_CACHE)에 맞는 기본 어댑터 생성
+ */
+function createDefaultCacheAdapter(): TourAPICacheAdapter | null {
+  switch (process.env.TOUR_API_CACHE) {
+    case 'none':
+      return null;
+    case 'fs':
+      return createFileSystemCacheAdapter(process.env.TOUR_API_CACHE_DIR || undefined);
+    case 'supabase':
+      return createSupabaseCacheAdapter();
+    case 'memory':
+    default:
+      return createMemoryCacheAdapter();
+  }
+}
+
+// =====================================================
+// 캐시 상태
+// =====================================================
+
+let cacheAdapter: TourAPICacheAdapter | null | undefined;
+
+/**
+ * 백그라운드 갱신 중인 키 (같은 키를 동시에 여러 번 갱신하지 않음)
+ */
+const revalidatingKeys = new Set<string>();
+
+const metrics = new Map<KorServiceOperation, TourAPICacheMetrics>();
+
+function getAdapter(): TourAPICacheAdapter | null {
+  if (cacheAdapter === undefined) {
+    cacheAdapter = createDefaultCacheAdapter();
+  }
+  return cacheAdapter;
+}
+
+function recordMetric(operation: KorServiceOperation, metric: keyof TourAPICacheMetrics): void {
+  const current = metrics.get(operation) || {
+    hits: 0,
+    staleHits: 0,
+    misses: 0,
+    revalidations: 0,
+    errors: 0,
+  };
+  current[metric] += 1;
+  metrics.set(operation, current);
+}
+
+/**
+ * 캐시 저장소 어댑터 변경
+ * @param adapter - 사용할 어댑터 (null이면 캐시 사용 안 함)
+ */
+export function setTourAPICacheAdapter(adapter: TourAPICacheAdapter | null): void {
+  cacheAdapter = adapter;
+  revalidatingKeys.clear();
+}
+
+/**
+ * 캐시 적중률 지표 조회
+ * @returns 오퍼레이션별 지표와 전체 적중률 (0~1, 조회가 없으면 0)
+ */
+export function getTourAPICacheMetrics(): {
+  adapter: string | null;
+  operations: Partial<Record<KorServiceOperation, TourAPICacheMetrics>>;
+  hitRate: number;
+} {
+  const operations = Object.fromEntries(
+    Array.from(metrics.entries()).map(([operation, value]) => [operation, { ...value }]),
+  ) as Partial<Record<KorServiceOperation, TourAPICacheMetrics>>;
+
+  const totals = Array.from(metrics.values()).reduce(
+    (sum, value) => ({
+      served: sum.served + value.hits + value.staleHits,
+      requests: sum.requests + value.hits + value.staleHits + value.misses,
+    }),
+    { served: 0, requests: 0 },
+  );
+
+  return {
+    adapter: getAdapter()?.name ?? null,
+    operations,
+    hitRate: totals.requests > 0 ? totals.served / totals.requests : 0,
+  };
+}
+
+/**
+ * 캐시 지표 초기화
+ */
+export function resetTourAPICacheMetrics(): void {
+  metrics.clear();
+}
+
+/**
+ * 캐시 수동 삭제
+ * @param operation - 삭제할 오퍼레이션 (생략 시 전체 삭제)
+ */
+export async function purgeTourAPICache(operation?: KorServiceOperation): Promise<void> {
+  const adapter = getAdapter();
+  if (!adapter) {
+    return;
+  }
+  await adapter.clear(operation ? `${operation}?` : undefined);
+}
+
+// =====================================================
+// 캐시 조회
+// =====================================================
+
+/**
+ * 캐시 키 생성
+ * 쿼리 문자열은 API 키를 제외한 상태로 전달받습니다.
+ * 언어 서비스마다 응답이 다르므로 서비스 이름을 키에 포함합니다.
+ * 기본 주소가 아닌 API 주소(로컬 대체 서버 등)를 사용하면 주소도 키에 포함합니다.
+ */
+export function getTourAPICacheKey(
+  operation: KorServiceOperation,
+  queryString: string,
+  serviceName: string,
+  baseUrl?: string,
+): string {
+  const base = baseUrl ? `base=${encodeURIComponent(baseUrl)}&` : '';
+  return `${operation}?${base}service=${serviceName}&${queryString}`;
+}
+
+/**
+ * 원본 조회 후 캐시에 저장
+ */
+async function loadAndStore<T>(
+  adapter: TourAPICacheAdapter,
+  operation: KorServiceOperation,
+  key: string,
+  loader: () => Promise<T>,
+  shouldCache: (value: T) => boolean,
+): Promise<T> {
+  const value = await loader();
+
+  if (shouldCache(value)) {
+    const policy = TOUR_API_CACHE_POLICIES[operation];
+    const now = Date.now();
+    await adapter
+      .set({
+        key,
+        value,
+        storedAt: now,
+        expiresAt: now + policy.ttl,
+        staleUntil: now + policy.ttl + policy.staleTtl,
+      })
+      .catch((error) => {
+        recordMetric(operation, 'errors');
+        console.warn(`[tour-api-cache] ${adapter.name} 저장 실패:`, error);
+      });
+  }
+
+  return value;
+}
+
+/**
+ * 캐시를 거쳐 응답 조회
+ * @param operation - KorService2 오퍼레이션 이름 (캐시 정책 선택)
+ * @param key - 캐시 키 (getTourAPICacheKey)
+ * @param loader - 원본 API 호출 함수
+ * @param shouldCache - 저장할 응답인지 확인 (에러 응답 제외)
+ * @returns 캐시된 응답 또는 원본 API 응답
+ */
+export async function withTourAPICache<T>(
+  operation: KorServiceOperation,
+  key: string,
+  loader: () => Promise<T>,
+  shouldCache: (value: T) => boolean,
+): Promise<T> {
+  const adapter = getAdapter();
+  if (!adapter) {
+    return loader();
+  }
+
+  const entry = await adapter.get(key).catch((error) => {
+    recordMetric(operation, 'errors');
+    console.warn(`[tour-api-cache] ${adapter.name} 조회 실패:`, error);
+    return null;
+  });
+  const now = Date.now();
+
+  if (entry && now < entry.expiresAt) {
+    recordMetric(operation, 'hits');
+    return entry.value as T;
+  }
+
+  if (entry && now < entry.staleUntil) {
+    recordMetric(operation, 'staleHits');
+
+    if (!revalidatingKeys.has(key)) {
+      revalidatingKeys.add(key);
+      loadAndStore(adapter, operation, key, loader, shouldCache)
+        .then(() => recordMetric(operation, 'revalidations'))
+        .catch((error) => {
+          recordMetric(operation, 'errors');
+          console.warn(`[tour-api-cache] ${operation} 백그라운드 갱신 실패:`, error);
+        })
+        .finally(() => revalidatingKeys.delete(key));
+    }
+
+    return entry.value as T;
+  }
+
+  recordMetric(operation, 'misses');
+  return loadAndStore(adapter, operation, key, loader, shouldCache);
+}
@@ -0,0 +1,138 @@
+/**
+ * @file tour-api-client.ts
+ * @description 한국관광공사 API 브라우저용 클라이언트
+ *
+ * 이 파일은 Client Component에서 사용할 한국관광공사 API 함수를 제공합니다.
+ * 각 함수는 tour-api.ts의 같은 이름 함수와 시그니처가 같으며,
+ * API 키를 가진 서버 라우트(/api/tour/[operation])를 통해 호출됩니다.
+ *
+ * 주요 기능:
+ * 1. 서버 프록시 호출 (인자를 JSON으로 전달)
+ * 2. 프록시 에러 응답 → TourAPIError 복원
+ * 3. tour-api.ts와 같은 시그니처의 함수 제공
+ *
+ * 핵심 구현 로직:
+ * - 시그니처는 TourAPIOperations 타입에서 가져오므로 서버 함수가 바뀌면 함께 바뀝니다.
+ * - 서버 코드는 타입으로만 참조하므로 브라우저 번들에는 포함되지 않습니다.
+ *
+ * @dependencies
+ * - lib/api/tour-api-error.ts: TourAPIError, TourAPIErrorType
+ * - lib/api/tour-api-operations.ts: TourAPIOperations 타입
+ */
+
+import { TourAPIError, TourAPIErrorType } from './tour-api-error';
+import type {
+  TourAPIOperation,
+  TourAPIOperations,
+} from './tour-api-operations';
+
+// =====================================================
+// 프록시 요청 형식
+// =====================================================
+
+/**
+ * 프록시 라우트 경로
+ */
+export const TOUR_API_PROXY_PATH = '/api/tour';
+
+/**
+ * 함수 인자 배열을 JSON으로 담는 쿼리 파라미터 이름
+ */
+export const TOUR_API_ARGS_PARAM = 'args';
+
+/**
+ * 프록시 에러 응답 본문
+ */
+export interface TourAPIProxyErrorBody {
+  error: {
+    message: string;
+    errorType: TourAPIErrorType;
+    statusCode?: number;
+  };
+}
+
+// =====================================================
+// 프록시 호출
+// =====================================================
+
+/**
+ * 서버 프록시로 오퍼레이션 호출
+ * @param operation - 오퍼레이션 이름 (tour-api.ts 함수 이름)
+ * @param args - 함수 인자
+ * @returns 서버 함수의 반환값
+ * @throws {TourAPIError} 서버 함수가 실패했거나 프록시 요청이 실패한 경우
+ */
+async function callTourAPI<K extends TourAPIOperation>(
+  operation: K,
+  args: Parameters<TourAPIOperations[K]>,
+): Promise<Awaited<ReturnType<TourAPIOperations[K]>>> {
+  const searchParams = new URLSearchParams({
+    [TOUR_API_ARGS_PARAM]: JSON.stringify(args),
+  });
+  const url = `${TOUR_API_PROXY_PATH}/${operation}?${searchParams.toString()}`;
+
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    const networkError = new TourAPIError(
+      '관광 정보 서버에 연결할 수 없습니다.',
+      undefined,
+      error instanceof Error ? error : new Error(String(error)),
+      TourAPIErrorType.NETWORK_ERROR,
+    );
+    networkError.logError(`callTourAPI - ${operation}`);
+    throw networkError;
+  }
+
+  if (!response.ok) {
+    const body = (await response.json().catch(() => null)) as TourAPIProxyErrorBody | null;
+    const proxyError = new TourAPIError(
+      body?.error.message || `HTTP ${response.status}: ${response.statusText}`,
+      body?.error.statusCode ?? response.status,
+      undefined,
+      body?.error.errorType || TourAPIErrorType.HTTP_ERROR,
+    );
+    proxyError.logError(`callTourAPI - ${operation}`);
+    throw proxyError;
+  }
+
+  try {
+    return await response.json();
+  } catch (error) {
+    throw new TourAPIError(
+      '관광 정보 응답을 처리하는 중 에러가 발생했습니다.',
+      undefined,
+      error instanceof Error ? error : new Error(String(error)),
+      TourAPIErrorType.PARSE_ERROR,
+    );
+  }
+}
+
+/**
+ * 오퍼레이션 이름으로 서버 함수와 같은 시그니처의 프록시 함수 생성
+ */
+function createOperation<K extends TourAPIOperation>(operation: K): TourAPIOperations[K] {
+  return ((...args: Parameters<TourAPIOperations[K]>) =>
+    callTourAPI(operation, args)) as TourAPIOperations[K];
+}
+
+// =====================================================
+// API 함수 (tour-api.ts와 같은 시그니처)
+// =====================================================
+
+export const getAreaCode = createOperation('getAreaCode');
+export const getSigunguCode = createOperation('getSigunguCode');
+export const getCategoryCode = createOperation('getCategoryCode');
+export const getLDongCode = createOperation('getLDongCode');
+export const getLclsSystmCode = createOperation('getLclsSystmCode');
+export const getAreaBasedList = createOperation('getAreaBasedList');
+export const searchKeyword = createOperation('searchKeyword');
+export const getLocationBasedList = createOperation('getLocationBasedList');
+export const searchFestival = createOperation('searchFestival');
+export const searchStay = createOperation('searchStay');
+export const getDetailCommon = createOperation('getDetailCommon');
+export const getDetailIntro = createOperation('getDetailIntro');
+export const getDetailInfo = createOperation('getDetailInfo');
+export const getDetailImage = createOperation('getDetailImage');
+export const getDetailPetTour = createOperation('getDetailPetTour');
@@ -0,0 +1,195 @@
+/**
+ * @file tour-api-error-envelope.ts
+ * @description data.go.kr 에러 응답 해석
+ *
+ * 서비스 키 오류나 호출 한도 초과 시 data.go.kr은 _type=json을 지정해도
+ * XML(OpenAPI_ServiceResponse) 또는 게이트웨이 HTML 에러 페이지를 반환합니다.
+ * 이 파일은 그런 응답 본문을 해석하여 원인에 맞는 TourAPIError로 변환합니다.
+ *
+ * 주요 기능:
+ * 1. returnReasonCode(숫자 코드 또는 이름) → TourAPIErrorType 변환 (getErrorTypeForReasonCode)
+ * 2. XML/HTML 에러 본문 해석 (parseErrorEnvelope)
+ * 3. JSON 응답 헤더의 resultCode 해석 (getResultCodeError)
+ *
+ * 핵심 구현 로직:
+ * - 에러 본문은 구조가 단순하므로 XML 파서 없이 태그 값만 추출합니다.
+ * - JSON 응답의 header.resultCode에도 같은 코드 표를 사용합니다.
+ *
+ * @dependencies
+ * - lib/api/tour-api-error.ts: TourAPIError, TourAPIErrorType
+ */
+
+import { TourAPIError, TourAPIErrorType } from './tour-api-error';
+
+// =====================================================
+// returnReasonCode
+// =====================================================
+
+/**
+ * data.go.kr 공통 에러 코드
+ * @see 공공데이터포털 OpenAPI 에러 코드 정리
+ */
+const RETURN_REASONS: { code: number; name: string; errorType: TourAPIErrorType }[] = [
+  { code: 1, name: 'APPLICATION_ERROR', errorType: TourAPIErrorType.SERVICE_UNAVAILABLE },
+  { code: 2, name: 'DB_ERROR', errorType: TourAPIErrorType.SERVICE_UNAVAILABLE },
+  { code: 3, name: 'NODATA_ERROR', errorType: TourAPIErrorType.NO_DATA },
+  { code: 4, name: 'HTTP_ERROR', errorType: TourAPIErrorType.SERVICE_UNAVAILABLE },
+  { code: 5, name: 'SERVICETIME_OUT', errorType: TourAPIErrorType.TIMEOUT_ERROR },
+  { code: 10, name: 'INVALID_REQUEST_PARAMETER_ERROR', errorType: TourAPIErrorType.INVALID_REQUEST },
+  { code: 11, name: 'NO_MANDATORY_REQUEST_PARAMETERS_ERROR', errorType: TourAPIErrorType.INVALID_REQUEST },
+  { code: 12, name: 'NO_OPENAPI_SERVICE_ERROR', errorType: TourAPIErrorType.SERVICE_UNAVAILABLE },
+  { code: 20, name: 'SERVICE_ACCESS_DENIED_ERROR', errorType: TourAPIErrorType.ACCESS_DENIED },
+  { code: 21, name: 'TEMPORARILY_DISABLE_THE_SERVICEKEY_ERROR', errorType: TourAPIErrorType.API_KEY_SUSPENDED },
+  { code: 22, name: 'LIMITED_NUMBER_OF_SERVICE_REQUESTS_EXCEEDS_ERROR', errorType: TourAPIErrorType.QUOTA_EXCEEDED },
+  { code: 30, name: 'SERVICE_KEY_IS_NOT_REGISTERED_ERROR', errorType: TourAPIErrorType.API_KEY_INVALID },
+  { code: 31, name: 'DEADLINE_HAS_EXPIRED_ERROR', errorType: TourAPIErrorType.API_KEY_EXPIRED },
+  { code: 32, name: 'UNREGISTERED_IP_ERROR', errorType: TourAPIErrorType.ACCESS_DENIED },
+  { code: 33, name: 'UNSIGNED_CALL_ERROR', errorType: TourAPIErrorType.ACCESS_DENIED },
+  { code: 99, name: 'UNKNOWN_ERROR', errorType: TourAPIErrorType.API_ERROR },
+];
+
+/**
+ * 에러 코드 이름 정규화
+ * 응답에 따라 _ERROR 접미사가 빠져 있으므로 (예: SERVICE_KEY_IS_NOT_REGISTERED) 제거하고 비교합니다.
+ */
+function normalizeReasonName(name: string): string {
+  return name.trim().toUpperCase().replace(/_ERROR$/, '');
+}
+
+/**
+ * returnReasonCode 또는 resultCode → 에러 타입
+ * @param reasonCode - 숫자 코드('30', '0030') 또는 코드 이름('SERVICE_KEY_IS_NOT_REGISTERED_ERROR')
+ * @returns 에러 타입 (알 수 없는 코드이면 undefined)
+ */
+export function getErrorTypeForReasonCode(reasonCode: string): TourAPIErrorType | undefined {
+  const value = reasonCode.trim();
+  if (!value) {
+    return undefined;
+  }
+
+  if (/^\d+$/.test(value)) {
+    const code = Number(value);
+    return RETURN_REASONS.find((reason) => reason.code === code)?.errorType;
+  }
+
+  const name = normalizeReasonName(value);
+  return RETURN_REASONS.find((reason) => normalizeReasonName(reason.name) === name)?.errorType;
+}
+
+// =====================================================
+// JSON 응답 헤더
+// =====================================================
+
+/**
+ * 서비스 키 오류 resultCode (공통 코드 표에 없는 KorService2 JSON 응답 코드)
+ */
+const API_KEY_RESULT_CODES = ['SERVICE_KEY_IS_NOT_VALID', 'SERVICE_KEY_IS_NULL'];
+
+/**
+ * JSON 응답 헤더의 resultCode 해석
+ * XML 에러 응답과 같은 코드 표를 사용하므로 일시적인 장애(SERVICE_UNAVAILABLE 등)는 재시도 대상으로 분류됩니다.
+ * @param resultCode - header.resultCode
+ * @param resultMsg - header.resultMsg
+ * @param statusCode - HTTP 상태 코드
+ * @returns 에러 코드이면 원인에 맞는 TourAPIError (데이터 없음은 NO_DATA), 정상 코드('0000')이면 null
+ */
+export function getResultCodeError(
+  resultCode: string,
+  resultMsg?: string,
+  statusCode?: number,
+): TourAPIError | null {
+  if (resultCode === '0000') {
+    return null;
+  }
+
+  const errorType = API_KEY_RESULT_CODES.includes(resultCode)
+    ? TourAPIErrorType.API_KEY_INVALID
+    : getErrorTypeForReasonCode(resultCode) || TourAPIErrorType.API_ERROR;
+
+  return new TourAPIError(
+    `API 에러: ${resultMsg || '알 수 없는 에러'} (코드: ${resultCode})`,
+    statusCode,
+    undefined,
+    errorType,
+  );
+}
+
+// =====================================================
+// XML/HTML 에러 본문
+// =====================================================
+
+/**
+ * XML 태그 값 추출 (CDATA 포함)
+ */
+function getTagValue(body: string, tag: string): string | undefined {
+  const match = body.match(
+    new RegExp(`<${tag}(?:\\s[^>]*)?>\\s*(?:<!\\[CDATA\\[)?([\\s\\S]*?)(?:\\]\\]>)?\\s*</${tag}>`, 'i'),
+  );
+  return match?.[1].trim() || undefined;
+}
+
+/**
+ * 본문에 포함된 에러 코드 이름 찾기 (HTML 에러 페이지용)
+ */
+function findReasonName(body: string): string | undefined {
+  const upperBody = body.toUpperCase();
+  return RETURN_REASONS.find((reason) => upperBody.includes(reason.name))?.name;
+}
+
+/**
+ * XML/HTML 에러 본문 해석
+ * @param body - 응답 본문
+ * @param statusCode - HTTP 상태 코드
+ * @returns 본문이 XML/HTML이면 원인에 맞는 TourAPIError, 아니면 null
+ */
+export function parseErrorEnvelope(body: string, statusCode?: number): TourAPIError | null {
+  const trimmed = body.trim();
+  if (!trimmed.startsWith('<')) {
+    return null;
+  }
+
+  const isHtml = /^<!doctype html|<html[\s>]/i.test(trimmed);
+
+  // data.go.kr 공통 에러 (OpenAPI_ServiceResponse > cmmMsgHeader)
+  // 또는 _type이 무시된 KorService2 XML 응답 (response > header)
+  const reasonCode = isHtml
+    ? findReasonName(trimmed)
+    : getTagValue(trimmed, 'returnReasonCode') ||
+      getTagValue(trimmed, 'returnAuthMsg') ||
+      getTagValue(trimmed, 'resultCode');
+  const reasonMessage = isHtml
+    ? getTagValue(trimmed, 'title')
+    : getTagValue(trimmed, 'returnAuthMsg') ||
+      getTagValue(trimmed, 'errMsg') ||
+      getTagValue(trimmed, 'resultMsg');
+
+  if (reasonCode && reasonCode !== '0000') {
+    const errorType = getErrorTypeForReasonCode(reasonCode) || TourAPIErrorType.API_ERROR;
+    return new TourAPIError(
+      `API 에러: ${reasonMessage || '알 수 없는 에러'} (코드: ${reasonCode})`,
+      statusCode,
+      undefined,
+      errorType,
+    );
+  }
+
+  if (isHtml) {
+    // 게이트웨이 에러 페이지 (원인 코드 없음)
+    return new TourAPIError(
+      `HTML 에러 응답: ${reasonMessage || '제목 없음'}`,
+      statusCode,
+      undefined,
+      statusCode && statusCode >= 400 && statusCode < 500
+        ? TourAPIErrorType.HTTP_ERROR
+        : TourAPIErrorType.SERVICE_UNAVAILABLE,
+    );
+  }
+
+  // 정상 결과이지만 JSON이 아닌 XML로 온 경우
+  return new TourAPIError(
+    'JSON 대신 XML 응답을 받았습니다.',
+    statusCode,
+    undefined,
+    TourAPIErrorType.PARSE_ERROR,
+  );
+}
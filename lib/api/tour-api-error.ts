@@ -0,0 +1,148 @@
+/**
+ * @file tour-api-error.ts
+ * @description 한국관광공사 API 에러 정의
+ *
+ * 이 파일은 서버 API 클라이언트(tour-api.ts)와 브라우저용 프록시 클라이언트(tour-api-client.ts)가
+ * 함께 사용하는 에러 타입과 에러 클래스를 제공합니다.
+ * 서버 전용 코드(API 키 처리)와 분리되어 있어 Client Component에서도 import할 수 있습니다.
+ *
+ * 주요 기능:
+ * 1. 에러 타입 정의 (TourAPIErrorType)
+ * 2. 에러 클래스 및 사용자 메시지 변환 (TourAPIError)
+ * 3. 일일 호출 한도 초과 확인 (isQuotaExceededError)
+ *
+ * 핵심 구현 로직:
+ * - data.go.kr 에러 응답의 returnReasonCode는 tour-api-error-envelope.ts에서 아래 에러 타입으로 변환됩니다.
+ * - 사용자 메시지는 메시지 카탈로그(tourApiError)에서 로케일별로 가져옵니다.
+ *
+ * @dependencies
+ * - lib/i18n/messages.ts: translate
+ */
+
+import { DEFAULT_LOCALE, type Locale } from '@/lib/i18n/locale';
+import { translate, type MessageKey } from '@/lib/i18n/messages';
+
+/**
+ * 에러 타입 정의
+ */
+export enum TourAPIErrorType {
+  API_KEY_MISSING = 'API_KEY_MISSING',
+  API_KEY_INVALID = 'API_KEY_INVALID', // 등록되지 않은 서비스 키
+  API_KEY_EXPIRED = 'API_KEY_EXPIRED', // 활용기간 만료
+  API_KEY_SUSPENDED = 'API_KEY_SUSPENDED', // 서비스 키 일시 사용 중지
+  ACCESS_DENIED = 'ACCESS_DENIED', // 서비스 접근 거부, 미등록 IP
+  NETWORK_ERROR = 'NETWORK_ERROR',
+  TIMEOUT_ERROR = 'TIMEOUT_ERROR',
+  HTTP_ERROR = 'HTTP_ERROR',
+  API_ERROR = 'API_ERROR',
+  INVALID_REQUEST = 'INVALID_REQUEST', // 잘못된 요청 파라미터, 필수 파라미터 누락
+  NO_DATA = 'NO_DATA', // 데이터 없음
+  SERVICE_UNAVAILABLE = 'SERVICE_UNAVAILABLE', // 제공기관 서비스 장애 (애플리케이션, DB, 라우팅 에러)
+  PARSE_ERROR = 'PARSE_ERROR',
+  VALIDATION_ERROR = 'VALIDATION_ERROR',
+  QUOTA_EXCEEDED = 'QUOTA_EXCEEDED', // 일일 호출 한도 초과 (자체 집계 또는 data.go.kr)
+  UNKNOWN_ERROR = 'UNKNOWN_ERROR',
+}
+
+/**
+ * 한국관광공사 API 에러 클래스
+ */
+export class TourAPIError extends Error {
+  /**
+   * 재시도 대기 시간 (ms, 429 응답의 Retry-After 헤더)
+   */
+  public retryAfter?: number;
+
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public originalError?: Error,
+    public errorType: TourAPIErrorType = TourAPIErrorType.UNKNOWN_ERROR,
+  ) {
+    super(message);
+    this.name = 'TourAPIError';
+    Object.setPrototypeOf(this, TourAPIError.prototype);
+  }
+
+  /**
+   * 사용자에게 표시할 친화적인 메시지 반환
+   * @param locale - 메시지 언어 (기본값: 한국어)
+   */
+  getUserMessage(locale: Locale = DEFAULT_LOCALE): string {
+    // 검증 에러는 원본 메시지 사용
+    if (this.errorType === TourAPIErrorType.VALIDATION_ERROR) {
+      return this.message;
+    }
+    return translate(locale, this.getUserMessageKey());
+  }
+
+  private getUserMessageKey(): MessageKey {
+    switch (this.errorType) {
+      case TourAPIErrorType.API_KEY_MISSING:
+      case TourAPIErrorType.API_KEY_INVALID:
+        return 'tourApiError.serviceConfig';
+      case TourAPIErrorType.API_KEY_EXPIRED:
+        return 'tourApiError.keyExpired';
+      case TourAPIErrorType.API_KEY_SUSPENDED:
+        return 'tourApiError.keySuspended';
+      case TourAPIErrorType.ACCESS_DENIED:
+        return 'tourApiError.accessDenied';
+      case TourAPIErrorType.NETWORK_ERROR:
+        return 'tourApiError.network';
+      case TourAPIErrorType.TIMEOUT_ERROR:
+        return 'tourApiError.timeout';
+      case TourAPIErrorType.HTTP_ERROR:
+        if (this.statusCode === 404) {
+          return 'tourApiError.notFound';
+        }
+        if (this.statusCode === 429) {
+          return 'tourApiError.tooManyRequests';
+        }
+        if (this.statusCode && this.statusCode >= 500) {
+          return 'tourApiError.server';
+        }
+        return 'tourApiError.http';
+      case TourAPIErrorType.API_ERROR:
+        return 'tourApiError.api';
+      case TourAPIErrorType.INVALID_REQUEST:
+        return 'tourApiError.invalidRequest';
+      case TourAPIErrorType.NO_DATA:
+        return 'tourApiError.noData';
+      case TourAPIErrorType.SERVICE_UNAVAILABLE:
+        return 'tourApiError.serviceUnavailable';
+      case TourAPIErrorType.PARSE_ERROR:
+        return 'tourApiError.parse';
+      case TourAPIErrorType.QUOTA_EXCEEDED:
+        return 'tourApiError.quotaExceeded';
+      default:
+        return 'tourApiError.unknown';
+    }
+  }
+
+  /**
+   * 개발자용 상세 에러 정보 로깅
+   */
+  logError(context?: string): void {
+    if (process.env.NODE_ENV === 'development') {
+      console.group(`[TourAPIError] ${this.errorType}${context ? ` - ${context}` : ''}`);
+      console.error('Message:', this.message);
+      if (this.statusCode) {
+        console.error('Status Code:', this.statusCode);
+      }
+      if (this.originalError) {
+        console.error('Original Error:', this.originalError);
+      }
+      if (this.stack) {
+        console.error('Stack:', this.stack);
+      }
+      console.groupEnd();
+    }
+  }
+}
+
+/**
+ * 일일 호출 한도 초과 에러인지 확인
+ */
+export function isQuotaExceededError(error: unknown): error is TourAPIError {
+  return error instanceof TourAPIError && error.errorType === TourAPIErrorType.QUOTA_EXCEEDED;
+}
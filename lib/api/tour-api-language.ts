@@ -0,0 +1,112 @@
+/**
+ * @file tour-api-language.ts
+ * @description 한국관광공사 다국어 서비스 설정
+ *
+ * 이 파일은 언어별 한국관광공사 API 서비스(KorService2, EngService2, JpnService2, ChsService2)와
+ * 서비스 간 차이를 처리하는 함수를 제공합니다.
+ * 오퍼레이션 이름과 응답 구조는 같지만 외국어 서비스는 콘텐츠 타입 ID 체계가 다르고
+ * 일부 오퍼레이션(반려동물 동반 정보)과 콘텐츠 타입(여행코스)이 없습니다.
+ *
+ * 주요 기능:
+ * 1. 언어별 서비스 이름 및 미지원 오퍼레이션 (TOUR_API_SERVICES)
+ * 2. 콘텐츠 타입 ID 변환 (국문 ↔ 외국어 서비스)
+ * 3. 외국어 서비스 응답 정규화 (콘텐츠 타입 ID를 국문 체계로 변환)
+ *
+ * 핵심 구현 로직:
+ * - 앱 전체는 국문 콘텐츠 타입 ID(CONTENT_TYPE)만 사용하고, 변환은 요청/응답 시점에만 합니다.
+ * - 응답 정규화는 캐시 저장 전에 적용하므로 캐시된 응답도 국문 체계입니다.
+ *
+ * @dependencies
+ * - lib/api/tour-api-cache.ts: KorServiceOperation 타입
+ * - lib/types/tour.ts: TourLanguage, FOREIGN_CONTENT_TYPE
+ */
+
+import type { KorServiceOperation } from './tour-api-cache';
+import { FOREIGN_CONTENT_TYPE } from '@/lib/types/tour';
+import type { ContentTypeId, TourLanguage } from '@/lib/types/tour';
+
+// =====================================================
+// 언어별 서비스
+// =====================================================
+
+/**
+ * 언어별 서비스 설정
+ * 오퍼레이션 이름은 모든 서비스가 같습니다 (예: areaBasedList2).
+ */
+export const TOUR_API_SERVICES: Record<
+  TourLanguage,
+  { name: string; unsupportedOperations: KorServiceOperation[] }
+> = {
+  ko: { name: 'KorService2', unsupportedOperations: [] },
+  en: { name: 'EngService2', unsupportedOperations: ['detailPetTour2'] },
+  ja: { name: 'JpnService2', unsupportedOperations: ['detailPetTour2'] },
+  zh: { name: 'ChsService2', unsupportedOperations: ['detailPetTour2'] },
+};
+
+/**
+ * 언어에 해당하는 서비스 이름
+ */
+export function getTourAPIServiceName(language: TourLanguage): string {
+  return TOUR_API_SERVICES[language].name;
+}
+
+/**
+ * 언어별 서비스에서 지원하는 오퍼레이션인지 확인
+ */
+export function isOperationSupported(language: TourLanguage, operation: KorServiceOperation): boolean {
+  return !TOUR_API_SERVICES[language].unsupportedOperations.includes(operation);
+}
+
+// =====================================================
+// 콘텐츠 타입 ID 변환
+// =====================================================
+
+/**
+ * 요청용 콘텐츠 타입 ID 변환 (국문 → 서비스)
+ * @returns 서비스의 콘텐츠 타입 ID, 해당 서비스에 없는 타입이면 null (예: 외국어 서비스의 여행코스)
+ */
+export function toServiceContentTypeId(language: TourLanguage, contentTypeId: string): string | null {
+  if (language === 'ko') {
+    return contentTypeId;
+  }
+  return FOREIGN_CONTENT_TYPE[contentTypeId as ContentTypeId] || null;
+}
+
+/**
+ * 응답용 콘텐츠 타입 ID 변환 (서비스 → 국문)
+ */
+export function toKorContentTypeId(language: TourLanguage, contentTypeId: string): string {
+  if (language === 'ko') {
+    return contentTypeId;
+  }
+  const entry = Object.entries(FOREIGN_CONTENT_TYPE).find(([, foreignId]) => foreignId === contentTypeId);
+  return entry ? entry[0] : contentTypeId;
+}
+
+/**
+ * 외국어 서비스 응답 정규화
+ * 항목의 콘텐츠 타입 ID(contenttypeid)를 국문 체계로 바꿉니다. 구조가 예상과 다르면 그대로 반환합니다.
+ * @param language - 응답한 서비스의 언어
+ * @param data - 파싱 전 JSON 응답
+ */
+export function normalizeServiceResponse(language: TourLanguage, data: unknown): unknown {
+  if (language === 'ko') {
+    return data;
+  }
+
+  const items = (data as { response?: { body?: { items?: { item?: unknown } } } })?.response?.body?.items;
+  if (!items || typeof items !== 'object' || !items.item) {
+    return data;
+  }
+
+  const normalizeItem = (item: unknown) =>
+    item && typeof item === 'object' && 'contenttypeid' in item
+      ? {
+          ...item,
+          contenttypeid: toKorContentTypeId(language, String((item as { contenttypeid: unknown }).contenttypeid)),
+        }
+      : item;
+
+  items.item = Array.isArray(items.item) ? items.item.map(normalizeItem) : normalizeItem(items.item);
+  return data;
+}
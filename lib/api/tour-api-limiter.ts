@@ -0,0 +1,267 @@
+/**
+ * @file tour-api-limiter.ts
+ * @description 한국관광공사 API 호출 제한
+ *
+ * 이 파일은 tour-api.ts의 모든 KorService2 호출(재시도 포함)에 적용되는 호출 제한을 제공합니다.
+ * data.go.kr의 일일 호출 한도를 넘지 않도록 초당 호출 수, 동시 호출 수, 하루 호출 수를 관리합니다.
+ *
+ * 주요 기능:
+ * 1. 토큰 버킷 방식 초당 호출 수 제한
+ * 2. 동시 호출 수 제한 (대기열)
+ * 3. 일일 호출 수 집계 (파일에 저장하여 서버 재시작 후에도 유지, 한국 시간 자정 기준 초기화)
+ * 4. 호출 우선순위 (한도가 가까워지면 통계/추천 같은 부가 기능 호출부터 차단)
+ *
+ * 핵심 구현 로직:
+ * - 우선순위는 AsyncLocalStorage로 전달하므로 API 함수 시그니처를 바꾸지 않습니다.
+ *   (withTourAPIPriority('optional', () => ...) 안에서 호출한 API는 부가 호출로 처리)
+ * - 캐시에서 응답한 요청은 실제 호출이 아니므로 집계하지 않습니다.
+ * - 설정은 환경변수로 변경 (TOUR_API_RATE_LIMIT, TOUR_API_MAX_CONCURRENCY, TOUR_API_DAILY_QUOTA)
+ *
+ * @dependencies
+ * - lib/api/tour-api-error.ts: TourAPIError, TourAPIErrorType
+ */
+
+import 'server-only';
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { TourAPIError, TourAPIErrorType } from './tour-api-error';
+
+// =====================================================
+// 상수 및 설정
+// =====================================================
+
+const DEFAULT_RATE_LIMIT = 10; // 초당 호출 수
+const DEFAULT_MAX_CONCURRENCY = 4; // 동시 호출 수
+const DEFAULT_DAILY_QUOTA = 1000; // 일일 호출 수 (개발계정 기본 한도)
+const OPTIONAL_QUOTA_RATIO = 0.8; // 부가 호출을 차단하기 시작하는 사용 비율
+const QUOTA_SAVE_DELAY = 1000; // 호출 수 저장 지연 (연속 호출 시 한 번만 저장)
+const KST_OFFSET = 9 * 60 * 60 * 1000;
+
+const QUOTA_FILE = path.join(process.cwd(), '.next', 'cache', 'tour-api-quota.json');
+
+/**
+ * 환경변수 숫자 설정 읽기 (양수가 아니면 기본값)
+ */
+function readNumberEnv(name: string, defaultValue: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : defaultValue;
+}
+
+const RATE_LIMIT = readNumberEnv('TOUR_API_RATE_LIMIT', DEFAULT_RATE_LIMIT);
+const MAX_CONCURRENCY = readNumberEnv('TOUR_API_MAX_CONCURRENCY', DEFAULT_MAX_CONCURRENCY);
+const DAILY_QUOTA = readNumberEnv('TOUR_API_DAILY_QUOTA', DEFAULT_DAILY_QUOTA);
+
+/**
+ * 호출 우선순위
+ * essential: 목록/상세 등 페이지의 주요 기능
+ * optional: 통계, 추천 등 없어도 페이지를 사용할 수 있는 부가 기능
+ */
+export type TourAPIPriority = 'essential' | 'optional';
+
+/**
+ * 일일 호출 현황
+ */
+export interface TourAPIQuotaStatus {
+  date: string; // 한국 시간 기준 날짜 (YYYY-MM-DD)
+  used: number;
+  limit: number;
+  remaining: number;
+  degraded: boolean; // 부가 호출 차단 여부
+}
+
+// =====================================================
+// 호출 우선순위
+// =====================================================
+
+const priorityStorage = new AsyncLocalStorage<TourAPIPriority>();
+
+/**
+ * 지정한 우선순위로 함수 실행
+ * 함수 안에서 호출하는 모든 한국관광공사 API에 우선순위가 적용됩니다.
+ * @param priority - 호출 우선순위
+ * @param fn - 실행할 함수
+ */
+export function withTourAPIPriority<T>(priority: TourAPIPriority, fn: () => Promise<T>): Promise<T> {
+  return priorityStorage.run(priority, fn);
+}
+
+function getCurrentPriority(): TourAPIPriority {
+  return priorityStorage.getStore() || 'essential';
+}
+
+// =====================================================
+// 일일 호출 수
+// =====================================================
+
+/**
+ * 한국 시간 기준 오늘 날짜 (data.go.kr 한도는 자정에 초기화)
+ */
+function getQuotaDate(now: number = Date.now()): string {
+  return new Date(now + KST_OFFSET).toISOString().slice(0, 10);
+}
+
+let quota: { date: string; used: number } | null = null;
+let quotaLoading: Promise<void> | null = null;
+let quotaSaveTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * 저장된 호출 수 불러오기 (최초 1회)
+ */
+function loadQuota(): Promise<void> {
+  if (!quotaLoading) {
+    quotaLoading = readFile(QUOTA_FILE, 'utf8')
+      .then((raw) => {
+        const saved = JSON.parse(raw) as { date: string; used: number };
+        quota = saved.date === getQuotaDate() ? saved : null;
+      })
+      .catch(() => {
+        // 저장된 파일이 없거나 읽을 수 없으면 0부터 집계
+      });
+  }
+  return quotaLoading;
+}
+
+function scheduleQuotaSave(): void {
+  if (quotaSaveTimer) {
+    return;
+  }
+  quotaSaveTimer = setTimeout(() => {
+    quotaSaveTimer = null;
+    const snapshot = JSON.stringify(quota);
+    mkdir(path.dirname(QUOTA_FILE), { recursive: true })
+      .then(() => writeFile(QUOTA_FILE, snapshot, 'utf8'))
+      .catch((error) => console.warn('[tour-api-limiter] 호출 수 저장 실패:', error));
+  }, QUOTA_SAVE_DELAY);
+}
+
+/**
+ * 오늘 호출 수 (날짜가 바뀌었으면 초기화)
+ */
+function getTodayQuota(): { date: string; used: number } {
+  const today = getQuotaDate();
+  if (!quota || quota.date !== today) {
+    quota = { date: today, used: 0 };
+  }
+  return quota;
+}
+
+/**
+ * 우선순위별 호출 가능 여부 확인
+ * @throws {TourAPIError} 일일 한도를 넘은 경우 (QUOTA_EXCEEDED)
+ */
+function assertQuota(priority: TourAPIPriority): void {
+  const { used } = getTodayQuota();
+  const limit = priority === 'optional' ? Math.floor(DAILY_QUOTA * OPTIONAL_QUOTA_RATIO) : DAILY_QUOTA;
+
+  if (used >= limit) {
+    const error = new TourAPIError(
+      priority === 'optional'
+        ? `일일 호출 한도가 얼마 남지 않아 부가 기능 호출을 중단했습니다. (${used}/${DAILY_QUOTA})`
+        : `일일 호출 한도를 초과했습니다. (${used}/${DAILY_QUOTA})`,
+      429,
+      undefined,
+      TourAPIErrorType.QUOTA_EXCEEDED,
+    );
+    error.logError('assertQuota');
+    throw error;
+  }
+}
+
+/**
+ * 일일 호출 현황 조회
+ */
+export async function getTourAPIQuotaStatus(): Promise<TourAPIQuotaStatus> {
+  await loadQuota();
+  const { date, used } = getTodayQuota();
+
+  return {
+    date,
+    used,
+    limit: DAILY_QUOTA,
+    remaining: Math.max(0, DAILY_QUOTA - used),
+    degraded: used >= Math.floor(DAILY_QUOTA * OPTIONAL_QUOTA_RATIO),
+  };
+}
+
+// =====================================================
+// 초당 호출 수 / 동시 호출 수
+// =====================================================
+
+let tokens = RATE_LIMIT;
+let lastRefill = Date.now();
+let activeCount = 0;
+const waitingQueue: (() => void)[] = [];
+
+/**
+ * 토큰 버킷에서 토큰 1개 사용 (부족하면 채워질 때까지 대기)
+ */
+async function takeToken(): Promise<void> {
+  for (;;) {
+    const now = Date.now();
+    tokens = Math.min(RATE_LIMIT, tokens + ((now - lastRefill) / 1000) * RATE_LIMIT);
+    lastRefill = now;
+
+    if (tokens >= 1) {
+      tokens -= 1;
+      return;
+    }
+
+    const waitMs = Math.ceil(((1 - tokens) / RATE_LIMIT) * 1000);
+    await new Promise((resolve) => setTimeout(resolve, waitMs));
+  }
+}
+
+/**
+ * 동시 호출 슬롯 확보 (가득 차면 대기열에서 대기)
+ */
+async function takeSlot(): Promise<void> {
+  if (activeCount < MAX_CONCURRENCY) {
+    activeCount += 1;
+    return;
+  }
+  // 슬롯을 반환하는 쪽에서 activeCount를 유지한 채 대기 중인 요청에 넘겨줌
+  await new Promise<void>((resolve) => waitingQueue.push(resolve));
+}
+
+function releaseSlot(): void {
+  const next = waitingQueue.shift();
+  if (next) {
+    next();
+  } else {
+    activeCount -= 1;
+  }
+}
+
+// =====================================================
+// 호출 제한 적용
+// =====================================================
+
+/**
+ * 호출 제한을 적용하여 API 호출 1회 실행
+ * 호출 전에 일일 한도를 확인하고, 동시 호출 슬롯과 토큰을 확보한 뒤 호출 수를 집계합니다.
+ * @param call - 실제 호출 함수 (fetch 1회)
+ * @returns 호출 결과
+ * @throws {TourAPIError} 일일 한도를 넘은 경우 (QUOTA_EXCEEDED)
+ */
+export async function runWithTourAPILimit<T>(call: () => Promise<T>): Promise<T> {
+  const priority = getCurrentPriority();
+
+  await loadQuota();
+  assertQuota(priority);
+
+  await takeSlot();
+  try {
+    await takeToken();
+    // 대기하는 동안 다른 호출이 한도를 채웠을 수 있으므로 다시 확인
+    assertQuota(priority);
+
+    getTodayQuota().used += 1;
+    scheduleQuotaSave();
+
+    return await call();
+  } finally {
+    releaseSlot();
+  }
+}
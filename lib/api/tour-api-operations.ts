@@ -0,0 +1,311 @@
+/**
+ * @file tour-api-operations.ts
+ * @description 프록시로 공개하는 한국관광공사 API 오퍼레이션 목록
+ *
+ * 이 파일은 /api/tour/[operation] 라우트가 호출할 수 있는 tour-api.ts 함수를 정의합니다.
+ * 목록에 없는 이름으로는 호출할 수 없으며, 브라우저용 클라이언트(tour-api-client.ts)는
+ * 이 목록의 타입으로 서버 함수와 같은 시그니처를 보장합니다.
+ *
+ * 주요 기능:
+ * 1. 오퍼레이션 이름 → 서버 API 함수 매핑 (TOUR_API_OPERATIONS)
+ * 2. 오퍼레이션 이름 검증 (isTourAPIOperation)
+ * 3. 오퍼레이션별 인자 검증 (parseTourAPIOperationArgs)
+ *
+ * 핵심 구현 로직:
+ * - 인자는 브라우저에서 그대로 전달되므로 오퍼레이션마다 허용하는 파라미터만 받습니다.
+ *   (정의되지 않은 파라미터가 있으면 거부)
+ * - numOfRows, pageNo는 상한을 두어 한 번의 요청으로 과도한 조회를 하지 못하게 합니다.
+ *   numOfRows 상한은 화면에서 요청하는 페이지 크기에 맞춰 작게 두고,
+ *   항목마다 소개 정보를 추가로 조회하는 숙박 검색은 더 작게 둡니다.
+ *
+ * @dependencies
+ * - lib/api/tour-api.ts: 한국관광공사 API 함수
+ * - lib/types/tour.ts: TOUR_LANGUAGES, ListArrange, LocationArrange
+ * - lib/utils/distance.ts: MAX_LOCATION_RADIUS
+ */
+
+import 'server-only';
+
+import { z } from 'zod';
+import {
+  getAreaBasedList,
+  getAreaCode,
+  getCategoryCode,
+  getDetailCommon,
+  getDetailImage,
+  getDetailInfo,
+  getDetailIntro,
+  getDetailPetTour,
+  getLclsSystmCode,
+  getLDongCode,
+  getLocationBasedList,
+  getSigunguCode,
+  searchFestival,
+  searchKeyword,
+  searchStay,
+} from './tour-api';
+import {
+  TOUR_LANGUAGES,
+  type ListArrange,
+  type LocationArrange,
+} from '@/lib/types/tour';
+import { MAX_LOCATION_RADIUS } from '@/lib/utils/distance';
+
+/**
+ * 오퍼레이션 이름 → 서버 API 함수
+ * 오퍼레이션 이름은 tour-api.ts의 함수 이름과 같습니다.
+ */
+export const TOUR_API_OPERATIONS = {
+  getAreaCode,
+  getSigunguCode,
+  getCategoryCode,
+  getLDongCode,
+  getLclsSystmCode,
+  getAreaBasedList,
+  searchKeyword,
+  getLocationBasedList,
+  searchFestival,
+  searchStay,
+  getDetailCommon,
+  getDetailIntro,
+  getDetailInfo,
+  getDetailImage,
+  getDetailPetTour,
+};
+
+export type TourAPIOperations = typeof TOUR_API_OPERATIONS;
+
+export type TourAPIOperation = keyof TourAPIOperations;
+
+/**
+ * 오퍼레이션 이름 검증
+ */
+export function isTourAPIOperation(name: string): name is TourAPIOperation {
+  return Object.prototype.hasOwnProperty.call(TOUR_API_OPERATIONS, name);
+}
+
+// =====================================================
+// 인자 검증
+// =====================================================
+
+/**
+ * 프록시 요청의 페이지당 결과 수 상한 (목록, 이미지)
+ * 목록 페이지(12개)와 다중 타입 병합 조회의 타입별 페이지(MERGED_FETCH_ROWS)를 허용하는 크기입니다.
+ */
+export const MAX_PROXY_NUM_OF_ROWS = 50;
+
+/**
+ * 코드 목록(지역/분류 코드) 프록시 요청의 페이지당 결과 수 상한
+ * 한 번의 API 호출로 처리되며, 분류 코드 필터는 한 단계의 코드를 모두(100개) 조회합니다.
+ */
+export const MAX_PROXY_CODE_NUM_OF_ROWS = 100;
+
+/**
+ * 숙박 검색 프록시 요청의 페이지당 결과 수 상한
+ * 숙소마다 소개 정보를 추가로 조회하므로 목록 페이지(12개)만 허용합니다.
+ */
+export const MAX_PROXY_STAY_NUM_OF_ROWS = 20;
+
+/**
+ * 프록시 요청의 페이지 번호 상한
+ */
+export const MAX_PROXY_PAGE_NO = 1000;
+
+const LIST_ARRANGES = ['A', 'C', 'D', 'O', 'Q', 'R'] as const satisfies readonly ListArrange[];
+
+const LOCATION_ARRANGES = [
+  ...LIST_ARRANGES,
+  'E',
+  'S',
+] as const satisfies readonly LocationArrange[];
+
+const codeArg = z.string().max(20);
+const optionalCode = codeArg.optional();
+
+const commonArgs = {
+  language: z.enum(TOUR_LANGUAGES).optional(),
+};
+
+const pageNoArg = z.number().int().min(1).max(MAX_PROXY_PAGE_NO).optional();
+
+const pagingArgs = {
+  numOfRows: z.number().int().min(1).max(MAX_PROXY_NUM_OF_ROWS).optional(),
+  pageNo: pageNoArg,
+};
+
+const codePagingArgs = {
+  numOfRows: z.number().int().min(1).max(MAX_PROXY_CODE_NUM_OF_ROWS).optional(),
+  pageNo: pageNoArg,
+};
+
+const stayPagingArgs = {
+  numOfRows: z.number().int().min(1).max(MAX_PROXY_STAY_NUM_OF_ROWS).optional(),
+  pageNo: pageNoArg,
+};
+
+const regionArgs = {
+  areaCode: optionalCode,
+  sigunguCode: optionalCode,
+};
+
+const classificationArgs = {
+  contentTypeId: optionalCode,
+  cat1: optionalCode,
+  cat2: optionalCode,
+  cat3: optionalCode,
+  lDongRegnCd: optionalCode,
+  lDongSignguCd: optionalCode,
+  lclsSystm1: optionalCode,
+  lclsSystm2: optionalCode,
+  lclsSystm3: optionalCode,
+};
+
+const detailArgs = {
+  ...commonArgs,
+  contentId: codeArg,
+};
+
+/**
+ * 오퍼레이션별 인자 스키마 (함수 인자 순서대로)
+ * 객체 파라미터는 strict로 정의하여 허용하지 않은 파라미터를 거부합니다.
+ */
+const TOUR_API_OPERATION_ARGS: Record<TourAPIOperation, z.ZodTypeAny[]> = {
+  getAreaCode: [
+    z.object({ ...commonArgs, ...codePagingArgs, areaCode: optionalCode }).strict().optional(),
+  ],
+  getSigunguCode: [
+    codeArg,
+    z.object({ ...commonArgs, ...codePagingArgs }).strict().optional(),
+  ],
+  getCategoryCode: [
+    z
+      .object({
+        ...commonArgs,
+        ...codePagingArgs,
+        contentTypeId: optionalCode,
+        cat1: optionalCode,
+        cat2: optionalCode,
+        cat3: optionalCode,
+      })
+      .strict()
+      .optional(),
+  ],
+  getLDongCode: [
+    z.object({ ...commonArgs, ...codePagingArgs, lDongRegnCd: optionalCode }).strict().optional(),
+  ],
+  getLclsSystmCode: [
+    z
+      .object({
+        ...commonArgs,
+        ...codePagingArgs,
+        lclsSystm1: optionalCode,
+        lclsSystm2: optionalCode,
+        lclsSystm3: optionalCode,
+      })
+      .strict()
+      .optional(),
+  ],
+  getAreaBasedList: [
+    z
+      .object({
+        ...commonArgs,
+        ...pagingArgs,
+        ...regionArgs,
+        ...classificationArgs,
+        arrange: z.enum(LIST_ARRANGES).optional(),
+      })
+      .strict()
+      .optional(),
+  ],
+  searchKeyword: [
+    z
+      .object({
+        ...commonArgs,
+        ...pagingArgs,
+        ...regionArgs,
+        ...classificationArgs,
+        keyword: z.string().max(100),
+        arrange: z.enum(LIST_ARRANGES).optional(),
+      })
+      .strict(),
+  ],
+  getLocationBasedList: [
+    z
+      .object({
+        ...commonArgs,
+        ...pagingArgs,
+        mapX: z.union([z.number(), z.string().max(20)]),
+        mapY: z.union([z.number(), z.string().max(20)]),
+        radius: z.number().positive().max(MAX_LOCATION_RADIUS),
+        contentTypeId: optionalCode,
+        arrange: z.enum(LOCATION_ARRANGES).optional(),
+      })
+      .strict(),
+  ],
+  searchFestival: [
+    z
+      .object({
+        ...commonArgs,
+        ...pagingArgs,
+        ...regionArgs,
+        eventStartDate: z.string().max(8),
+        eventEndDate: z.string().max(8).optional(),
+      })
+      .strict(),
+  ],
+  searchStay: [
+    z
+      .object({
+        ...commonArgs,
+        ...stayPagingArgs,
+        ...regionArgs,
+        parking: z.boolean().optional(),
+        checkInBefore: z.string().max(5).optional(),
+        arrange: z.enum(LIST_ARRANGES).optional(),
+      })
+      .strict()
+      .optional(),
+  ],
+  getDetailCommon: [z.object(detailArgs).strict()],
+  getDetailIntro: [z.object({ ...detailArgs, contentTypeId: codeArg }).strict()],
+  getDetailInfo: [z.object({ ...detailArgs, contentTypeId: codeArg }).strict()],
+  getDetailImage: [z.object({ ...detailArgs, ...pagingArgs }).strict()],
+  getDetailPetTour: [z.object(detailArgs).strict()],
+};
+
+/**
+ * 오퍼레이션 인자 검증 결과
+ */
+export type TourAPIOperationArgsResult =
+  | { success: true; data: unknown[] }
+  | { success: false; message: string };
+
+/**
+ * 오퍼레이션 인자 검증
+ * 생략한 뒤쪽 인자와 null(JSON으로 전달된 undefined)은 undefined로 바꿔 검증합니다. (선택 인자)
+ * @param operation - 오퍼레이션 이름
+ * @param args - 프록시 요청으로 전달된 인자 배열
+ * @returns 검증된 인자 배열 또는 에러 메시지
+ */
+export function parseTourAPIOperationArgs(
+  operation: TourAPIOperation,
+  args: unknown[],
+): TourAPIOperationArgsResult {
+  const schemas = TOUR_API_OPERATION_ARGS[operation];
+
+  if (args.length > schemas.length) {
+    return { success: false, message: `인자는 최대 ${schemas.length}개까지 허용됩니다.` };
+  }
+
+  const result = z
+    .tuple(schemas as [z.ZodTypeAny, ...z.ZodTypeAny[]])
+    .safeParse(schemas.map((_, index) => args[index] ?? undefined));
+
+  if (result.success === false) {
+    const issue = result.error.issues[0];
+    const path = issue.path.join('.');
+    return { success: false, message: path ? `${path}: ${issue.message}` : issue.message };
+  }
+
+  return { success: true, data: result.data };
+}
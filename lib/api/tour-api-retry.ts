@@ -0,0 +1,174 @@
+/**
+ * @file tour-api-retry.ts
+ * @description 한국관광공사 API 재시도 정책
+ *
+ * 이 파일은 tour-api.ts의 fetchWithRetry가 사용하는 재시도 정책을 정의합니다.
+ * 일시적인 장애(네트워크, 타임아웃, 5xx, 429)만 재시도하고,
+ * 서비스 키 오류나 잘못된 요청처럼 다시 보내도 결과가 같은 에러는 바로 실패합니다.
+ *
+ * 주요 기능:
+ * 1. 재시도 정책 정의 (재시도 대상 상태 코드/에러 타입, 백오프, 타임아웃, 전체 제한 시간)
+ * 2. 기본 정책 (default: 일반, failFast: 사용자 화면, background: 통계 등 백그라운드 수집)
+ * 3. 호출 단위 정책 지정 (withTourAPIRetryPolicy)
+ * 4. 재시도 대기 시간 계산 (지터가 적용된 지수 백오프, 429 Retry-After)
+ *
+ * 핵심 구현 로직:
+ * - 정책은 AsyncLocalStorage로 전달하므로 API 함수 시그니처를 바꾸지 않습니다.
+ *   (withTourAPIRetryPolicy('failFast', () => ...) 안에서 호출한 API에 적용)
+ * - 전체 제한 시간(deadline)을 넘기게 되는 재시도는 하지 않습니다.
+ *
+ * @dependencies
+ * - lib/api/tour-api-error.ts: TourAPIError, TourAPIErrorType
+ */
+
+import 'server-only';
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { TourAPIError, TourAPIErrorType } from './tour-api-error';
+
+// =====================================================
+// 재시도 정책
+// =====================================================
+
+/**
+ * 재시도 정책
+ */
+export interface TourAPIRetryPolicy {
+  maxRetries: number; // 최대 재시도 횟수 (첫 요청 제외)
+  baseDelay: number; // 첫 재시도 대기 시간 (ms, 이후 2배씩 증가)
+  maxDelay: number; // 재시도 대기 시간 상한 (ms)
+  jitter: number; // 대기 시간 무작위 감소 비율 (0~1, 동시 재시도 분산)
+  timeout: number; // 요청 1회 타임아웃 (ms)
+  deadline: number; // 재시도를 포함한 전체 제한 시간 (ms)
+  retryableStatuses: number[]; // 재시도할 HTTP 상태 코드
+  retryableErrorTypes: TourAPIErrorType[]; // 재시도할 에러 타입 (HTTP 상태 코드가 없는 에러)
+}
+
+/**
+ * 기본 재시도 정책
+ * - default: 일반 호출
+ * - failFast: 사용자가 기다리는 화면 (상세 페이지 등), 짧게 한 번만 재시도
+ * - background: 통계 수집 등 응답 시간이 덜 중요한 호출, 길게 여러 번 재시도
+ */
+export const TOUR_API_RETRY_POLICIES = {
+  default: {
+    maxRetries: 3,
+    baseDelay: 1000,
+    maxDelay: 8000,
+    jitter: 0.5,
+    timeout: 30000,
+    deadline: 60000,
+    retryableStatuses: [408, 429, 500, 502, 503, 504],
+    retryableErrorTypes: [
+      TourAPIErrorType.NETWORK_ERROR,
+      TourAPIErrorType.TIMEOUT_ERROR,
+      TourAPIErrorType.SERVICE_UNAVAILABLE,
+    ],
+  },
+  failFast: {
+    maxRetries: 1,
+    baseDelay: 300,
+    maxDelay: 1000,
+    jitter: 0.5,
+    timeout: 8000,
+    deadline: 12000,
+    retryableStatuses: [502, 503, 504],
+    retryableErrorTypes: [TourAPIErrorType.NETWORK_ERROR, TourAPIErrorType.SERVICE_UNAVAILABLE],
+  },
+  background: {
+    maxRetries: 5,
+    baseDelay: 2000,
+    maxDelay: 30000,
+    jitter: 0.5,
+    timeout: 30000,
+    deadline: 180000,
+    retryableStatuses: [408, 429, 500, 502, 503, 504],
+    retryableErrorTypes: [
+      TourAPIErrorType.NETWORK_ERROR,
+      TourAPIErrorType.TIMEOUT_ERROR,
+      TourAPIErrorType.SERVICE_UNAVAILABLE,
+    ],
+  },
+} satisfies Record<string, TourAPIRetryPolicy>;
+
+export type TourAPIRetryPolicyName = keyof typeof TOUR_API_RETRY_POLICIES;
+
+// =====================================================
+// 호출 단위 정책
+// =====================================================
+
+const policyStorage = new AsyncLocalStorage<TourAPIRetryPolicy>();
+
+/**
+ * 지정한 재시도 정책으로 함수 실행
+ * 함수 안에서 호출하는 모든 한국관광공사 API에 정책이 적용됩니다.
+ * @param policy - 기본 정책 이름 또는 기본 정책(default)에서 바꿀 값
+ * @param fn - 실행할 함수
+ */
+export function withTourAPIRetryPolicy<T>(
+  policy: TourAPIRetryPolicyName | Partial<TourAPIRetryPolicy>,
+  fn: () => Promise<T>,
+): Promise<T> {
+  const resolved =
+    typeof policy === 'string'
+      ? TOUR_API_RETRY_POLICIES[policy]
+      : { ...TOUR_API_RETRY_POLICIES.default, ...policy };
+  return policyStorage.run(resolved, fn);
+}
+
+/**
+ * 현재 적용 중인 재시도 정책
+ */
+export function getTourAPIRetryPolicy(): TourAPIRetryPolicy {
+  return policyStorage.getStore() || TOUR_API_RETRY_POLICIES.default;
+}
+
+// =====================================================
+// 재시도 판단
+// =====================================================
+
+/**
+ * Retry-After 헤더 해석 (초 단위 숫자 또는 HTTP 날짜)
+ * @returns 대기 시간 (ms), 해석할 수 없으면 undefined
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * 재시도 대상 에러인지 확인
+ * HTTP 상태 코드가 있는 에러는 상태 코드로, 없는 에러는 에러 타입으로 판단합니다.
+ */
+export function isRetryableError(error: TourAPIError, policy: TourAPIRetryPolicy): boolean {
+  if (error.errorType === TourAPIErrorType.HTTP_ERROR && error.statusCode) {
+    return policy.retryableStatuses.includes(error.statusCode);
+  }
+  return policy.retryableErrorTypes.includes(error.errorType);
+}
+
+/**
+ * 재시도 대기 시간 계산
+ * 429 응답에 Retry-After가 있으면 그 값을, 없으면 지터가 적용된 지수 백오프를 사용합니다.
+ * @param error - 실패한 요청의 에러
+ * @param attempt - 실패한 시도 순번 (0부터)
+ * @param policy - 재시도 정책
+ * @returns 대기 시간 (ms)
+ */
+export function getRetryDelay(error: TourAPIError, attempt: number, policy: TourAPIRetryPolicy): number {
+  if (error.statusCode === 429 && error.retryAfter !== undefined) {
+    return error.retryAfter;
+  }
+
+  const exponential = Math.min(policy.maxDelay, policy.baseDelay * 2 ** attempt);
+  return Math.round(exponential * (1 - policy.jitter * Math.random()));
+}
@@ -1,152 +1,160 @@
 /**
  * @file tour-api.ts
- * @description 한국관광공사 공공 API (KorService2) 클라이언트
+ * @description 한국관광공사 공공 API (KorService2 및 외국어 서비스) 클라이언트
  *
  * 이 파일은 한국관광공사 공공 API를 호출하는 함수들을 제공합니다.
  *
  * 주요 기능:
- * 1. 지역코드 조회 (getAreaCode)
- * 2. 지역 기반 목록 조회 (getAreaBasedList)
- * 3. 키워드 검색 (searchKeyword)
- * 4. 공통 정보 조회 (getDetailCommon)
- * 5. 소개 정보 조회 (getDetailIntro)
- * 6. 이미지 목록 조회 (getDetailImage)
- * 7. 반려동물 정보 조회 (getDetailPetTour)
+ * 1. 지역코드 조회 (getAreaCode, getSigunguCode, 법정동 코드 getLDongCode)
+ * 2. 서비스 분류코드 조회 (getCategoryCode, 분류체계 코드 getLclsSystmCode)
+ * 3. 지역 기반 목록 조회 (getAreaBasedList)
+ * 4. 키워드 검색 (searchKeyword)
+ * 5. 위치 기반 목록 조회 (getLocationBasedList)
+ * 6. 행사정보 조회 (searchFestival)
+ * 7. 숙박정보 조회 (searchStay)
+ * 8. 공통 정보 조회 (getDetailCommon, 여러 건 getDetailCommonMany)
+ * 9. 소개 정보 조회 (getDetailIntro)
+ * 10. 반복 정보 조회 (getDetailInfo)
+ * 11. 이미지 목록 조회 (getDetailImage)
+ * 12. 반려동물 정보 조회 (getDetailPetTour)
+ * 13. 언어별 콘텐츠 ID 매핑 (findLocalizedContentId)
  *
  * 핵심 구현 로직:
+ * - 서버 전용 모듈 (API 키 보호, 브라우저에서는 lib/api/tour-api-client.ts 사용)
  * - 공통 파라미터 자동 처리 (serviceKey, MobileOS, MobileApp, _type)
- * - 재시도 로직 (최대 3회, 지수 백오프)
- * - 타임아웃 처리 (30초)
+ * - API 주소는 환경변수 TOUR_API_BASE_URL로 변경 가능 (로컬 대체 서버 scripts/mock-tour-api.ts 사용 시)
+ * - 조회 언어(language 파라미터)별 서비스 선택 (lib/api/tour-api-language.ts, 콘텐츠 타입 ID 변환)
+ * - 동일 요청 병합 (같은 오퍼레이션+파라미터의 진행 중인 요청을 공유)
+ * - 오퍼레이션별 응답 캐시 (lib/api/tour-api-cache.ts)
+ * - 호출 제한 (초당/동시/일일 호출 수, lib/api/tour-api-limiter.ts)
+ * - XML/HTML 에러 응답 해석 (lib/api/tour-api-error-envelope.ts, returnReasonCode → 에러 타입)
+ * - 응답 검증 및 정규화 (lib/types/tour.ts의 zod 스키마, 잘못된 항목은 제외, 전체가 잘못되면 PARSE_ERROR)
+ * - 재시도 정책 (일시적인 장애만 재시도, 지터 백오프, Retry-After, 전체 제한 시간, lib/api/tour-api-retry.ts)
+ * - 타임아웃 처리 (정책별 요청 1회 타임아웃)
  * - 에러 처리 및 타입 안전성
  *
  * @dependencies
- * - lib/types/tour.ts: 타입 정의
+ * - lib/api/tour-api-cache.ts: 응답 캐시
+ * - lib/api/tour-api-error.ts: TourAPIError, TourAPIErrorType
+ * - lib/api/tour-api-error-envelope.ts: data.go.kr 에러 응답 해석
+ * - lib/api/tour-api-language.ts: 언어별 서비스 설정
+ * - lib/api/tour-api-limiter.ts: 호출 제한
+ * - lib/api/tour-api-retry.ts: 재시도 정책
+ * - lib/types/tour.ts: 타입 정의 및 응답 스키마
+ * - zod: 응답 검증
+ * - lib/utils/stay.ts: 숙박 검색 조건 확인
+ * - lib/utils/distance.ts: MAX_LOCATION_RADIUS (위치 기반 조회 최대 반경)
  *
  * @see {@link /docs/PRD.MD} - API 명세 참고
  */
 
+import 'server-only';
+
+import { z } from 'zod';
+import { getTourAPICacheKey, withTourAPICache } from './tour-api-cache';
+import type { KorServiceOperation } from './tour-api-cache';
+import { TourAPIError, TourAPIErrorType } from './tour-api-error';
+import { getResultCodeError, parseErrorEnvelope } from './tour-api-error-envelope';
+import {
+  getTourAPIServiceName,
+  isOperationSupported,
+  normalizeServiceResponse,
+  toServiceContentTypeId,
+} from './tour-api-language';
+import { runWithTourAPILimit } from './tour-api-limiter';
+import {
+  getRetryDelay,
+  getTourAPIRetryPolicy,
+  isRetryableError,
+  parseRetryAfter,
+} from './tour-api-retry';
 import type {
   AreaCode,
   AreaCodeParams,
   AreaBasedListParams,
+  CategoryCode,
+  CategoryCodeParams,
+  ContentTypeId,
+  DetailInfoParams,
+  DetailInfoResponse,
   DetailIntroParams,
-  TourAPIResponse,
   DetailParams,
-  PetTourInfo,
+  FestivalListResponse,
+  LclsSystmCode,
+  LclsSystmCodeParams,
+  LDongCode,
+  LDongCodeParams,
+  LocationBasedListParams,
+  LocationBasedListResponse,
   PetTourInfoResponse,
+  SearchFestivalParams,
   SearchKeywordParams,
+  SearchStayParams,
+  StayItem,
+  StayListResponse,
   TourDetail,
   TourDetailResponse,
-  TourImage,
   TourImageResponse,
-  TourIntro,
   TourIntroResponse,
-  TourItem,
+  TourLanguage,
   TourListResponse,
 } from '@/lib/types/tour';
+import {
+  areaCodeSchema,
+  categoryCodeSchema,
+  CONTENT_TYPE,
+  courseInfoItemSchema,
+  createTourAPIResponseSchema,
+  DEFAULT_TOUR_LANGUAGE,
+  festivalItemSchema,
+  generalInfoItemSchema,
+  lclsSystmCodeSchema,
+  lDongCodeSchema,
+  locationTourItemSchema,
+  petTourInfoSchema,
+  roomInfoItemSchema,
+  tourAPIHeaderSchema,
+  tourDetailSchema,
+  tourImageSchema,
+  tourIntroSchema,
+  tourItemSchema,
+} from '@/lib/types/tour';
+import { matchesStayFilters } from '@/lib/utils/stay';
+import { MAX_LOCATION_RADIUS } from '@/lib/utils/distance';
+
+export { TourAPIError, TourAPIErrorType } from './tour-api-error';
+export {
+  createFileSystemCacheAdapter,
+  createMemoryCacheAdapter,
+  createSupabaseCacheAdapter,
+  getTourAPICacheMetrics,
+  purgeTourAPICache,
+  resetTourAPICacheMetrics,
+  setTourAPICacheAdapter,
+} from './tour-api-cache';
+export { getTourAPIQuotaStatus, withTourAPIPriority } from './tour-api-limiter';
+export { TOUR_API_RETRY_POLICIES, withTourAPIRetryPolicy } from './tour-api-retry';
+export type { TourAPIRetryPolicy, TourAPIRetryPolicyName } from './tour-api-retry';
 
 // =====================================================
 // 상수 정의
 // =====================================================
 
-const BASE_URL = 'https://apis.data.go.kr/B551011/KorService2';
+const DEFAULT_BASE_URL = 'https://apis.data.go.kr/B551011';
+const BASE_URL = (process.env.TOUR_API_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
 const DEFAULT_MOBILE_OS = 'ETC';
 const DEFAULT_MOBILE_APP = 'MyTrip';
 const DEFAULT_TYPE = 'json';
 const DEFAULT_NUM_OF_ROWS = 10;
 const DEFAULT_PAGE_NO = 1;
-const REQUEST_TIMEOUT = 30000; // 30초
-const MAX_RETRIES = 3;
-const RETRY_DELAYS = [1000, 2000, 4000]; // 지수 백오프: 1초, 2초, 4초
-
-// =====================================================
-// 에러 처리
-// =====================================================
-
-/**
- * 에러 타입 정의
- */
-export enum TourAPIErrorType {
-  API_KEY_MISSING = 'API_KEY_MISSING',
-  API_KEY_INVALID = 'API_KEY_INVALID',
-  NETWORK_ERROR = 'NETWORK_ERROR',
-  TIMEOUT_ERROR = 'TIMEOUT_ERROR',
-  HTTP_ERROR = 'HTTP_ERROR',
-  API_ERROR = 'API_ERROR',
-  PARSE_ERROR = 'PARSE_ERROR',
-  VALIDATION_ERROR = 'VALIDATION_ERROR',
-  UNKNOWN_ERROR = 'UNKNOWN_ERROR',
-}
-
-/**
- * 한국관광공사 API 에러 클래스
- */
-export class TourAPIError extends Error {
-  constructor(
-    message: string,
-    public statusCode?: number,
-    public originalError?: Error,
-    public errorType: TourAPIErrorType = TourAPIErrorType.UNKNOWN_ERROR,
-  ) {
-    super(message);
-    this.name = 'TourAPIError';
-    Object.setPrototypeOf(this, TourAPIError.prototype);
-  }
-
-  /**
-   * 사용자에게 표시할 친화적인 메시지 반환
-   */
-  getUserMessage(): string {
-    switch (this.errorType) {
-      case TourAPIErrorType.API_KEY_MISSING:
-      case TourAPIErrorType.API_KEY_INVALID:
-        return '서비스 설정에 문제가 있습니다. 잠시 후 다시 시도해주세요.';
-      case TourAPIErrorType.NETWORK_ERROR:
-        return '인터넷 연결을 확인하고 잠시 후 다시 시도해주세요.';
-      case TourAPIErrorType.TIMEOUT_ERROR:
-        return '서버 응답이 지연되고 있습니다. 잠시 후 다시 시도해주세요.';
-      case TourAPIErrorType.HTTP_ERROR:
-        if (this.statusCode === 404) {
-          return '요청한 정보를 찾을 수 없습니다.';
-        }
-        if (this.statusCode === 429) {
-          return '요청이 너무 많습니다. 잠시 후 다시 시도해주세요.';
-        }
-        if (this.statusCode && this.statusCode >= 500) {
-          return '서버에 문제가 발생했습니다. 잠시 후 다시 시도해주세요.';
-        }
-        return '요청 처리 중 오류가 발생했습니다.';
-      case TourAPIErrorType.API_ERROR:
-        return '관광지 정보를 불러오는 중 오류가 발생했습니다.';
-      case TourAPIErrorType.PARSE_ERROR:
-        return '데이터 처리 중 오류가 발생했습니다.';
-      case TourAPIErrorType.VALIDATION_ERROR:
-        return this.message; // 검증 에러는 원본 메시지 사용
-      default:
-        return '오류가 발생했습니다. 잠시 후 다시 시도해주세요.';
-    }
-  }
-
-  /**
-   * 개발자용 상세 에러 정보 로깅
-   */
-  logError(context?: string): void {
-    if (process.env.NODE_ENV === 'development') {
-      console.group(`[TourAPIError] ${this.errorType}${context ? ` - ${context}` : ''}`);
-      console.error('Message:', this.message);
-      if (this.statusCode) {
-        console.error('Status Code:', this.statusCode);
-      }
-      if (this.originalError) {
-        console.error('Original Error:', this.originalError);
-      }
-      if (this.stack) {
-        console.error('Stack:', this.stack);
-      }
-      console.groupEnd();
-    }
-  }
-}
+const EVENT_DATE_PATTERN = /^\d{8}$/; // 행사 일자 형식 (YYYYMMDD)
+const MAX_SIGUNGU_ROWS = 100; // 시/도별 시군구 최대 개수 (한 번에 전체 조회)
+const CHECK_IN_TIME_PATTERN = /^\d{1,2}:\d{2}$/; // 체크인 시각 형식 (HH:MM)
+const DETAIL_COMMON_MANY_CONCURRENCY = 5; // 여러 건 공통 정보 조회 시 동시 요청 수
+const STAY_INTRO_CONCURRENCY = 5; // 숙박 목록의 소개 정보 조회 시 동시 요청 수
+const STAY_FILTER_SCAN_ROWS = 20; // 숙박 조건(주차, 체크인) 적용 시 목록 조회 단위
+const MAX_STAY_FILTER_SCAN_PAGES = 5; // 숙박 조건 적용 시 최대 조회 페이지 수 (최대 100개 숙소 확인)
+const LOCALIZED_CONTENT_RADIUS = 100; // 언어별 콘텐츠 ID 매핑 시 같은 장소로 볼 거리 (미터)
 
 // =====================================================
 // 공통 유틸리티 함수
@@ -154,15 +162,14 @@ export class TourAPIError extends Error {
 
 /**
  * 환경변수에서 API 키 가져오기
- * 우선순위: NEXT_PUBLIC_TOUR_API_KEY > TOUR_API_KEY
+ * 브라우저 번들에 포함되지 않도록 서버 전용 환경변수(TOUR_API_KEY)만 사용합니다.
  */
 function getServiceKey(): string {
-  const serviceKey =
-    process.env.NEXT_PUBLIC_TOUR_API_KEY || process.env.TOUR_API_KEY;
+  const serviceKey = process.env.TOUR_API_KEY;
 
   if (!serviceKey) {
     const error = new TourAPIError(
-      'API 키가 설정되지 않았습니다. NEXT_PUBLIC_TOUR_API_KEY 또는 TOUR_API_KEY 환경변수를 설정해주세요.',
+      'API 키가 설정되지 않았습니다. TOUR_API_KEY 환경변수를 설정해주세요.',
       undefined,
       undefined,
       TourAPIErrorType.API_KEY_MISSING,
@@ -206,140 +213,396 @@ function buildQueryString(params: Record<string, string | number | undefined>):
 // =====================================================
 
 /**
- * 재시도 로직이 포함된 fetch 함수
- * Next.js의 fetch는 Server Component에서 자동으로 캐싱을 처리합니다.
+ * fetch 1회 실행
  * @param url - 요청 URL
  * @param options - fetch 옵션
- * @param retryCount - 현재 재시도 횟수
- * @returns Promise<Response>
- */
-async function fetchWithRetry(
-  url: string,
-  options: RequestInit = {},
-  retryCount = 0,
-): Promise<Response> {
+ * @param timeout - 타임아웃 (ms)
+ * @returns 정상 응답 (2xx)
+ * @throws {TourAPIError} HTTP 에러, XML/HTML 에러 응답, 타임아웃, 네트워크 에러
+ */
+async function fetchOnce(url: string, options: RequestInit, timeout: number): Promise<Response> {
   const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
 
   try {
-    // Next.js의 fetch는 Server Component에서 자동으로 캐싱을 처리합니다.
-    // fetch 호출 시 next 옵션을 전달할 수 있지만, fetchWithRetry에서는
-    // 각 API 함수에서 적절한 캐싱 전략을 적용하는 것이 좋습니다.
-    const response = await fetch(url, {
-      ...options,
-      signal: controller.signal,
+    // 호출 제한 적용 (일일 호출 수, 동시 호출 수, 초당 호출 수)
+    // 제한 대기 시간은 타임아웃에 포함하지 않도록 호출 직전에 타이머 시작
+    const response = await runWithTourAPILimit(() => {
+      timeoutId = setTimeout(() => controller.abort(), timeout);
+      return fetch(url, {
+        ...options,
+        signal: controller.signal,
+      });
     });
 
-    clearTimeout(timeoutId);
+    if (response.ok) {
+      return response;
+    }
 
-    // HTTP 에러 상태 코드 처리
-    if (!response.ok) {
-      const errorType =
+    // data.go.kr XML/HTML 에러 본문이 있으면 원인 코드로 변환
+    const body = await response.text().catch(() => '');
+    const error =
+      parseErrorEnvelope(body, response.status) ||
+      new TourAPIError(
+        `HTTP ${response.status}: ${response.statusText}`,
+        response.status,
+        undefined,
         response.status === 401 || response.status === 403
           ? TourAPIErrorType.API_KEY_INVALID
           : response.status === 408
             ? TourAPIErrorType.TIMEOUT_ERROR
-            : TourAPIErrorType.HTTP_ERROR;
-
-      const error = new TourAPIError(
-        `HTTP ${response.status}: ${response.statusText}`,
-        response.status,
-        undefined,
-        errorType,
+            : TourAPIErrorType.HTTP_ERROR,
       );
-      error.logError('fetchWithRetry');
+    error.retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+    throw error;
+  } catch (error) {
+    if (error instanceof TourAPIError) {
       throw error;
     }
 
-    return response;
-  } catch (error) {
-    clearTimeout(timeoutId);
-
     // AbortError는 타임아웃 에러
     if (error instanceof Error && error.name === 'AbortError') {
-      const timeoutError = new TourAPIError(
-        '요청 시간이 초과되었습니다.',
-        408,
-        error,
-        TourAPIErrorType.TIMEOUT_ERROR,
-      );
-      timeoutError.logError('fetchWithRetry - timeout');
-      throw timeoutError;
+      throw new TourAPIError('요청 시간이 초과되었습니다.', 408, error, TourAPIErrorType.TIMEOUT_ERROR);
     }
 
-    // 최대 재시도 횟수에 도달한 경우
-    if (retryCount >= MAX_RETRIES) {
-      // 네트워크 관련 에러인지 확인
-      const isNetworkError =
-        error instanceof TypeError ||
-        (error instanceof Error &&
-          (error.message.includes('fetch') ||
-            error.message.includes('network') ||
-            error.message.includes('Network')));
-
-      const errorType = isNetworkError
-        ? TourAPIErrorType.NETWORK_ERROR
-        : TourAPIErrorType.UNKNOWN_ERROR;
-
-      const maxRetryError = new TourAPIError(
-        `요청 실패 (${retryCount + 1}회 시도): ${error instanceof Error ? error.message : '알 수 없는 에러'}`,
-        undefined,
-        error instanceof Error ? error : new Error(String(error)),
-        errorType,
-      );
-      maxRetryError.logError(`fetchWithRetry - max retries (${retryCount + 1})`);
-      throw maxRetryError;
-    }
+    // 네트워크 관련 에러인지 확인
+    const isNetworkError =
+      error instanceof TypeError ||
+      (error instanceof Error &&
+        (error.message.includes('fetch') ||
+          error.message.includes('network') ||
+          error.message.includes('Network')));
 
-    // 재시도 대기 (지수 백오프)
-    const delay = RETRY_DELAYS[retryCount] || RETRY_DELAYS[RETRY_DELAYS.length - 1];
-    await new Promise((resolve) => setTimeout(resolve, delay));
+    throw new TourAPIError(
+      `요청 실패: ${error instanceof Error ? error.message : '알 수 없는 에러'}`,
+      undefined,
+      error instanceof Error ? error : new Error(String(error)),
+      isNetworkError ? TourAPIErrorType.NETWORK_ERROR : TourAPIErrorType.UNKNOWN_ERROR,
+    );
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
 
-    // 재시도
-    return fetchWithRetry(url, options, retryCount + 1);
+/**
+ * 재시도 로직이 포함된 fetch 함수
+ * 현재 재시도 정책(lib/api/tour-api-retry.ts)에 따라 일시적인 장애만 재시도합니다.
+ * 전체 제한 시간을 넘기게 되는 재시도는 하지 않습니다.
+ * HTTP 200으로 온 XML/JSON 에러 응답(SERVICE_UNAVAILABLE 등)도 재시도할 수 있도록 본문까지 읽어 확인합니다.
+ * @param url - 요청 URL
+ * @param options - fetch 옵션
+ * @returns 파싱 전 JSON 응답
+ */
+async function fetchWithRetry(url: string, options: RequestInit = {}): Promise<unknown> {
+  const policy = getTourAPIRetryPolicy();
+  const deadline = Date.now() + policy.deadline;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      // 재시도 대기 중 전체 제한 시간이 지나면 요청하지 않고 타임아웃 처리
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new TourAPIError(
+          '요청 시간이 초과되었습니다.',
+          408,
+          undefined,
+          TourAPIErrorType.TIMEOUT_ERROR,
+        );
+      }
+
+      const response = await fetchOnce(url, options, Math.min(policy.timeout, remaining));
+      return await readResponseBody(response);
+    } catch (error) {
+      const tourError =
+        error instanceof TourAPIError
+          ? error
+          : new TourAPIError(
+              `요청 처리 중 에러가 발생했습니다: ${error instanceof Error ? error.message : String(error)}`,
+              undefined,
+              error instanceof Error ? error : new Error(String(error)),
+              TourAPIErrorType.UNKNOWN_ERROR,
+            );
+      const delay = getRetryDelay(tourError, attempt, policy);
+      const canRetry =
+        attempt < policy.maxRetries &&
+        isRetryableError(tourError, policy) &&
+        Date.now() + delay < deadline;
+
+      if (!canRetry) {
+        tourError.logError(`fetchWithRetry (${attempt + 1}회 시도)`);
+        throw tourError;
+      }
+
+      // 재시도 대기 (지터가 적용된 지수 백오프 또는 Retry-After)
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
   }
 }
 
 /**
- * API 응답 파싱 및 검증
+ * 응답 본문 읽기
+ * _type=json을 지정해도 에러 시 XML/HTML이 올 수 있으므로 텍스트로 읽은 뒤 형식을 확인합니다.
+ * JSON 응답의 header.resultCode도 XML과 같은 코드 표로 분류하여 재시도 여부를 판단할 수 있게 합니다.
+ * (데이터 없음은 에러가 아니므로 그대로 반환하고 parseAPIResponse에서 빈 결과로 처리)
+ * @param response - fetch 응답
+ * @returns JSON 응답
+ * @throws {TourAPIError} XML/HTML/JSON 에러 응답 (원인별 에러 타입), 본문 수신 실패 (NETWORK_ERROR) 또는 JSON 파싱 실패 (PARSE_ERROR)
  */
-function parseAPIResponse<T>(response: TourAPIResponse<T> | any): T | T[] {
-  const { response: apiResponse } = response;
+async function readResponseBody(response: Response): Promise<unknown> {
+  const body = await response.text().catch((error: unknown) => {
+    throw new TourAPIError(
+      `응답 본문 수신 실패: ${error instanceof Error ? error.message : String(error)}`,
+      response.status,
+      error instanceof Error ? error : new Error(String(error)),
+      TourAPIErrorType.NETWORK_ERROR,
+    );
+  });
 
-  // API 에러 응답 확인
-  if (apiResponse.header.resultCode !== '0000') {
-    const resultCode = apiResponse.header.resultCode;
-    const resultMsg = apiResponse.header.resultMsg || '알 수 없는 에러';
+  const envelopeError = parseErrorEnvelope(body, response.status);
+  if (envelopeError) {
+    throw envelopeError;
+  }
 
-    // API 키 관련 에러 코드 확인 (일반적인 에러 코드)
-    const isApiKeyError =
-      resultCode === 'SERVICE_KEY_IS_NOT_REGISTERED' ||
-      resultCode === 'SERVICE_KEY_IS_NOT_VALID' ||
-      resultCode === 'SERVICE_KEY_IS_NULL';
+  let json: unknown;
+  try {
+    json = JSON.parse(body);
+  } catch (error) {
+    const parseError = new TourAPIError(
+      `JSON 파싱 실패: ${body.slice(0, 100)}`,
+      response.status,
+      error instanceof Error ? error : new Error(String(error)),
+      TourAPIErrorType.PARSE_ERROR,
+    );
+    throw parseError;
+  }
 
-    const errorType = isApiKeyError
-      ? TourAPIErrorType.API_KEY_INVALID
-      : TourAPIErrorType.API_ERROR;
+  const header = tourAPIHeaderSchema.safeParse(json).data?.response.header;
+  const resultError = header && getResultCodeError(header.resultCode, header.resultMsg, response.status);
+  if (resultError && resultError.errorType !== TourAPIErrorType.NO_DATA) {
+    throw resultError;
+  }
 
+  return json;
+}
+
+/**
+ * 진행 중인 요청 (캐시 키 → 응답 Promise)
+ */
+const inFlightRequests = new Map<string, Promise<unknown>>();
+
+/**
+ * 결과 없음 응답 (서비스에 없는 콘텐츠 타입을 조회한 경우)
+ */
+function createEmptyResponse(queryParams: Record<string, string | number | undefined>) {
+  return {
+    response: {
+      header: { resultCode: '0000', resultMsg: 'OK' },
+      body: {
+        items: '',
+        numOfRows: queryParams.numOfRows,
+        pageNo: queryParams.pageNo,
+        totalCount: 0,
+      },
+    },
+  };
+}
+
+/**
+ * 한국관광공사 API 오퍼레이션 호출 (캐시 사용)
+ * 조회 언어에 맞는 서비스(KorService2, EngService2 등)를 호출합니다.
+ * 캐시 키에는 API 키를 포함하지 않으며, 정상 응답(resultCode '0000')만 캐시에 저장합니다.
+ * 같은 오퍼레이션+파라미터의 요청이 진행 중이면 새로 호출하지 않고 그 결과를 공유합니다.
+ * (상세 페이지의 generateMetadata와 본문이 같은 contentId를 동시에 조회하는 경우 등)
+ * 공유된 요청에는 먼저 호출한 쪽의 재시도 정책과 우선순위가 적용됩니다.
+ * @param operation - 오퍼레이션 이름 (모든 언어 서비스 공통)
+ * @param queryParams - 공통 파라미터를 포함한 쿼리 파라미터 (콘텐츠 타입 ID는 국문 체계)
+ * @param language - 조회 언어 (기본값: ko)
+ * @returns 파싱 전 JSON 응답 (콘텐츠 타입 ID는 국문 체계로 정규화)
+ * @throws {TourAPIError} 해당 언어 서비스에 없는 오퍼레이션인 경우 (INVALID_REQUEST)
+ */
+async function requestAPI(
+  operation: KorServiceOperation,
+  queryParams: Record<string, string | number | undefined>,
+  language: TourLanguage = DEFAULT_TOUR_LANGUAGE,
+): Promise<unknown> {
+  const serviceName = getTourAPIServiceName(language);
+
+  if (!isOperationSupported(language, operation)) {
     const error = new TourAPIError(
-      `API 에러: ${resultMsg} (코드: ${resultCode})`,
+      `${serviceName}에서 지원하지 않는 조회입니다. (${operation})`,
       undefined,
       undefined,
-      errorType,
+      TourAPIErrorType.INVALID_REQUEST,
     );
+    error.logError('requestAPI');
+    throw error;
+  }
+
+  // 콘텐츠 타입 ID를 서비스 체계로 변환 (서비스에 없는 타입이면 호출 없이 빈 결과)
+  let serviceParams = queryParams;
+  if (queryParams.contentTypeId) {
+    const contentTypeId = toServiceContentTypeId(language, String(queryParams.contentTypeId));
+    if (!contentTypeId) {
+      return createEmptyResponse(queryParams);
+    }
+    serviceParams = { ...queryParams, contentTypeId };
+  }
+
+  const cacheParams = { ...serviceParams, serviceKey: undefined };
+  // 대체 서버 응답이 실제 API 응답 캐시와 섞이지 않도록 기본 주소가 아니면 주소도 키에 포함
+  const cacheKey = getTourAPICacheKey(
+    operation,
+    buildQueryString(cacheParams),
+    serviceName,
+    BASE_URL === DEFAULT_BASE_URL ? undefined : BASE_URL,
+  );
+
+  const inFlight = inFlightRequests.get(cacheKey);
+  if (inFlight) {
+    return inFlight;
+  }
+
+  const request = withTourAPICache(
+    operation,
+    cacheKey,
+    async () => {
+      const url = `${BASE_URL}/${serviceName}/${operation}?${buildQueryString(serviceParams)}`;
+      return normalizeServiceResponse(language, await fetchWithRetry(url));
+    },
+    (data) => tourAPIHeaderSchema.safeParse(data).data?.response.header.resultCode === '0000',
+  ).finally(() => inFlightRequests.delete(cacheKey));
+
+  inFlightRequests.set(cacheKey, request);
+  return request;
+}
+
+/**
+ * 동시 실행 수를 제한하여 항목별 비동기 작업 실행
+ * @param items - 작업 대상
+ * @param concurrency - 최대 동시 실행 수
+ * @param task - 항목별 작업
+ * @returns 항목별 결과 (입력 순서 유지, 일부 실패 허용)
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T) => Promise<R>,
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = { status: 'fulfilled', value: await task(items[index]) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
+
+/**
+ * 파싱된 API 응답 (항목은 항상 배열)
+ */
+interface ParsedAPIResponse<T> {
+  items: T[];
+  totalCount: number;
+  numOfRows?: number;
+  pageNo?: number;
+}
+
+/**
+ * zod 검증 실패 → PARSE_ERROR
+ * 어느 필드가 잘못되었는지 알 수 있도록 첫 번째 문제의 경로를 메시지에 포함합니다.
+ * @param pathPrefix - 항목 단위로 검증한 경우 응답 안에서의 항목 경로 (예: response.body.items.item.3)
+ */
+function createParseError(error: z.ZodError, pathPrefix?: string): TourAPIError {
+  const issue = error.issues[0];
+  const path =
+    [pathPrefix, ...(issue?.path ?? [])].filter((part) => part !== undefined).join('.') ||
+    '(root)';
+
+  return new TourAPIError(
+    `API 응답 형식 오류: ${path} - ${issue?.message || '알 수 없는 형식'}`,
+    undefined,
+    error,
+    TourAPIErrorType.PARSE_ERROR,
+  );
+}
+
+/**
+ * API 응답 파싱 및 검증
+ * 헤더의 결과 코드를 먼저 확인한 뒤, 항목 스키마로 본문을 검증하고 정규화합니다.
+ * (숫자/문자열 필드 통일, 단일 항목 → 배열, 빈 결과 → 빈 배열)
+ * 형식이 잘못된 항목은 경고를 남기고 제외합니다. 모든 항목이 잘못된 경우에만 PARSE_ERROR를 던집니다.
+ * @param response - 파싱 전 JSON 응답
+ * @param itemSchema - 항목 스키마
+ * @throws {TourAPIError} 에러 응답 (API_KEY_INVALID, API_ERROR) 또는 형식 오류 (PARSE_ERROR)
+ */
+function parseAPIResponse<T extends z.ZodTypeAny>(
+  response: unknown,
+  itemSchema: T,
+): ParsedAPIResponse<z.output<T>> {
+  const headerResult = tourAPIHeaderSchema.safeParse(response);
+  if (!headerResult.success) {
+    const error = createParseError(headerResult.error);
     error.logError('parseAPIResponse');
     throw error;
   }
 
-  // 응답 데이터 확인
-  if (!apiResponse.body?.items?.item) {
-    return [] as T[];
+  const { header } = headerResult.data.response;
+
+  // API 에러 응답 확인 (data.go.kr 공통 에러 코드 → 에러 타입, XML 에러 응답과 같은 코드 표 사용)
+  const resultError = getResultCodeError(header.resultCode, header.resultMsg);
+  if (resultError) {
+    // 데이터 없음은 에러가 아니라 빈 결과로 처리
+    if (resultError.errorType === TourAPIErrorType.NO_DATA) {
+      return { items: [], totalCount: 0 };
+    }
+
+    resultError.logError('parseAPIResponse');
+    throw resultError;
+  }
+
+  const result = createTourAPIResponseSchema(itemSchema).safeParse(response);
+  if (!result.success) {
+    const error = createParseError(result.error);
+    error.logError('parseAPIResponse');
+    throw error;
   }
 
-  const item = apiResponse.body.items.item;
+  const body = result.data.response.body;
+  const items = body?.items.items || [];
+  const invalidItems = body?.items.invalidItems || [];
 
-  // 배열인 경우 그대로 반환, 단일 객체인 경우 배열로 변환
-  return Array.isArray(item) ? item : [item];
+  if (invalidItems.length > 0) {
+    const errors = invalidItems.map(({ index, error }) =>
+      createParseError(error, `response.body.items.item.${index}`),
+    );
+
+    // 응답 형식 자체가 바뀐 경우 (빈 목록으로 처리하면 원인을 알 수 없음)
+    if (items.length === 0) {
+      errors[0].logError('parseAPIResponse');
+      throw errors[0];
+    }
+
+    console.warn(
+      `[parseAPIResponse] 형식이 잘못된 항목 ${errors.length}개를 제외했습니다.`,
+      errors.map((error) => error.message),
+    );
+  }
+
+  return {
+    items,
+    totalCount: body?.totalCount || 0,
+    numOfRows: body?.numOfRows,
+    pageNo: body?.pageNo,
+  };
 }
 
 // =====================================================
@@ -356,18 +619,16 @@ export async function getAreaCode(
 ): Promise<AreaCode[]> {
   const queryParams = {
     ...getCommonParams(),
+    areaCode: params.areaCode,
     numOfRows: params.numOfRows || DEFAULT_NUM_OF_ROWS,
     pageNo: params.pageNo || DEFAULT_PAGE_NO,
   };
 
-  const url = `${BASE_URL}/areaCode2?${buildQueryString(queryParams)}`;
-
   try {
-    const response = await fetchWithRetry(url);
-    const data = await response.json();
-    const items = parseAPIResponse<AreaCode>(data);
+    const data = await requestAPI('areaCode2', queryParams, params.language);
+    const { items } = parseAPIResponse(data, areaCodeSchema);
 
-    return Array.isArray(items) ? items : [];
+    return items;
   } catch (error) {
     if (error instanceof TourAPIError) {
       throw error;
@@ -380,6 +641,167 @@ export async function getAreaCode(
   }
 }
 
+/**
+ * 시군구코드 조회
+ * 시/도 코드로 areaCode2를 조회하여 해당 시/도의 시군구 목록을 반환합니다.
+ * @param areaCode - 시/도 코드 (필수)
+ * @param params - 페이지 파라미터 (선택, 기본값: 한 번에 전체 조회)
+ * @returns 시군구코드 목록
+ */
+export async function getSigunguCode(
+  areaCode: string,
+  params: Omit<AreaCodeParams, 'areaCode'> = {},
+): Promise<AreaCode[]> {
+  if (!areaCode || areaCode.trim() === '') {
+    const error = new TourAPIError(
+      '시군구를 조회하려면 지역코드가 필요합니다.',
+      undefined,
+      undefined,
+      TourAPIErrorType.VALIDATION_ERROR,
+    );
+    error.logError('getSigunguCode');
+    throw error;
+  }
+
+  return getAreaCode({
+    areaCode: areaCode.trim(),
+    numOfRows: params.numOfRows || MAX_SIGUNGU_ROWS,
+    pageNo: params.pageNo,
+    language: params.language,
+  });
+}
+
+/**
+ * 서비스 분류코드 조회
+ * 상위 분류 코드를 지정하면 바로 아래 단계의 분류 목록을 반환합니다.
+ * @param params - 분류코드 조회 파라미터 (선택)
+ * @returns 분류코드 목록
+ */
+export async function getCategoryCode(
+  params: CategoryCodeParams = {},
+): Promise<CategoryCode[]> {
+  if ((params.cat2 && !params.cat1) || (params.cat3 && !params.cat2)) {
+    const error = new TourAPIError(
+      '하위 분류를 조회하려면 상위 분류 코드가 필요합니다.',
+      undefined,
+      undefined,
+      TourAPIErrorType.VALIDATION_ERROR,
+    );
+    error.logError('getCategoryCode');
+    throw error;
+  }
+
+  const queryParams = {
+    ...getCommonParams(),
+    contentTypeId: params.contentTypeId,
+    cat1: params.cat1,
+    cat2: params.cat2,
+    cat3: params.cat3,
+    numOfRows: params.numOfRows || DEFAULT_NUM_OF_ROWS,
+    pageNo: params.pageNo || DEFAULT_PAGE_NO,
+  };
+
+  try {
+    const data = await requestAPI('categoryCode2', queryParams, params.language);
+    const { items } = parseAPIResponse(data, categoryCodeSchema);
+
+    return items;
+  } catch (error) {
+    if (error instanceof TourAPIError) {
+      throw error;
+    }
+    throw new TourAPIError(
+      '분류코드 조회 중 에러가 발생했습니다.',
+      undefined,
+      error instanceof Error ? error : new Error(String(error)),
+    );
+  }
+}
+
+/**
+ * 법정동 코드 조회
+ * 법정동 시/도 코드를 지정하면 해당 시/도의 시군구 목록을 반환합니다.
+ * @param params - 법정동 코드 조회 파라미터 (선택)
+ * @returns 법정동 코드 목록
+ */
+export async function getLDongCode(
+  params: LDongCodeParams = {},
+): Promise<LDongCode[]> {
+  const queryParams = {
+    ...getCommonParams(),
+    lDongRegnCd: params.lDongRegnCd,
+    lDongListYn: 'N', // 'Y'는 시/도·시군구 전체 목록을 다른 형태로 반환하므로 사용하지 않음
+    numOfRows: params.numOfRows || DEFAULT_NUM_OF_ROWS,
+    pageNo: params.pageNo || DEFAULT_PAGE_NO,
+  };
+
+  try {
+    const data = await requestAPI('ldongCode2', queryParams, params.language);
+    const { items } = parseAPIResponse(data, lDongCodeSchema);
+
+    return items;
+  } catch (error) {
+    if (error instanceof TourAPIError) {
+      throw error;
+    }
+    throw new TourAPIError(
+      '법정동 코드 조회 중 에러가 발생했습니다.',
+      undefined,
+      error instanceof Error ? error : new Error(String(error)),
+    );
+  }
+}
+
+/**
+ * 분류체계 코드 조회
+ * 상위 분류 코드를 지정하면 바로 아래 단계의 분류 목록을 반환합니다.
+ * @param params - 분류체계 코드 조회 파라미터 (선택)
+ * @returns 분류체계 코드 목록
+ */
+export async function getLclsSystmCode(
+  params: LclsSystmCodeParams = {},
+): Promise<LclsSystmCode[]> {
+  if (
+    (params.lclsSystm2 && !params.lclsSystm1) ||
+    (params.lclsSystm3 && !params.lclsSystm2)
+  ) {
+    const error = new TourAPIError(
+      '하위 분류를 조회하려면 상위 분류 코드가 필요합니다.',
+      undefined,
+      undefined,
+      TourAPIErrorType.VALIDATION_ERROR,
+    );
+    error.logError('getLclsSystmCode');
+    throw error;
+  }
+
+  const queryParams = {
+    ...getCommonParams(),
+    lclsSystm1: params.lclsSystm1,
+    lclsSystm2: params.lclsSystm2,
+    lclsSystm3: params.lclsSystm3,
+    lclsSystmListYn: 'N', // 'Y'는 전체 분류를 다른 형태로 반환하므로 사용하지 않음
+    numOfRows: params.numOfRows || DEFAULT_NUM_OF_ROWS,
+    pageNo: params.pageNo || DEFAULT_PAGE_NO,
+  };
+
+  try {
+    const data = await requestAPI('lclsSystmCode2', queryParams, params.language);
+    const { items } = parseAPIResponse(data, lclsSystmCodeSchema);
+
+    return items;
+  } catch (error) {
+    if (error instanceof TourAPIError) {
+      throw error;
+    }
+    throw new TourAPIError(
+      '분류체계 코드 조회 중 에러가 발생했습니다.',
+      undefined,
+      error instanceof Error ? error : new Error(String(error)),
+    );
+  }
+}
+
 /**
  * 지역 기반 목록 조회
  * @param params - 지역 기반 목록 조회 파라미터
@@ -393,29 +815,31 @@ export async function getAreaBasedList(
   const queryParams = {
     ...getCommonParams(),
     areaCode: params.areaCode,
+    sigunguCode: params.areaCode ? params.sigunguCode : undefined,
     contentTypeId: params.contentTypeId,
+    cat1: params.cat1,
+    cat2: params.cat2,
+    cat3: params.cat3,
+    lDongRegnCd: params.lDongRegnCd,
+    lDongSignguCd: params.lDongRegnCd ? params.lDongSignguCd : undefined,
+    lclsSystm1: params.lclsSystm1,
+    lclsSystm2: params.lclsSystm2,
+    lclsSystm3: params.lclsSystm3,
+    arrange: params.arrange || 'C',
     numOfRows: params.numOfRows || DEFAULT_NUM_OF_ROWS,
     pageNo: params.pageNo || DEFAULT_PAGE_NO,
   };
 
-  const url = `${BASE_URL}/areaBasedList2?${buildQueryString(queryParams)}`;
-
   try {
-    // Next.js의 fetch는 Server Component에서 자동으로 캐싱을 처리합니다.
-    // fetchWithRetry를 사용하더라도, fetch 호출 시 next 옵션을 전달할 수 없으므로
-    // 각 API 함수에서 적절한 캐싱 전략을 적용하는 것이 좋습니다.
-    // 관광지 목록은 자주 변경되지 않으므로 1시간 캐싱을 권장합니다.
-    const response = await fetchWithRetry(url);
-    const data: TourAPIResponse<TourItem> = await response.json();
+    const data = await requestAPI('areaBasedList2', queryParams, params.language);
 
-    const items = parseAPIResponse<TourItem>(data);
-    const tourItems = Array.isArray(items) ? items : [];
+    const { items, totalCount, numOfRows, pageNo } = parseAPIResponse(data, tourItemSchema);
 
     return {
-      items: tourItems,
-      totalCount: data.response.body?.totalCount || 0,
-      numOfRows: data.response.body?.numOfRows || DEFAULT_NUM_OF_ROWS,
-      pageNo: data.response.body?.pageNo || DEFAULT_PAGE_NO,
+      items,
+      totalCount,
+      numOfRows: numOfRows || DEFAULT_NUM_OF_ROWS,
+      pageNo: pageNo || DEFAULT_PAGE_NO,
     };
   } catch (error) {
     if (error instanceof TourAPIError) {
@@ -452,25 +876,31 @@ export async function searchKeyword(
     ...getCommonParams(),
     keyword: params.keyword.trim(),
     areaCode: params.areaCode,
+    sigunguCode: params.areaCode ? params.sigunguCode : undefined,
     contentTypeId: params.contentTypeId,
+    cat1: params.cat1,
+    cat2: params.cat2,
+    cat3: params.cat3,
+    lDongRegnCd: params.lDongRegnCd,
+    lDongSignguCd: params.lDongRegnCd ? params.lDongSignguCd : undefined,
+    lclsSystm1: params.lclsSystm1,
+    lclsSystm2: params.lclsSystm2,
+    lclsSystm3: params.lclsSystm3,
+    arrange: params.arrange || 'C',
     numOfRows: params.numOfRows || DEFAULT_NUM_OF_ROWS,
     pageNo: params.pageNo || DEFAULT_PAGE_NO,
   };
 
-  const url = `${BASE_URL}/searchKeyword2?${buildQueryString(queryParams)}`;
-
   try {
-    const response = await fetchWithRetry(url);
-    const data: TourAPIResponse<TourItem> = await response.json();
+    const data = await requestAPI('searchKeyword2', queryParams, params.language);
 
-    const items = parseAPIResponse<TourItem>(data);
-    const tourItems = Array.isArray(items) ? items : [];
+    const { items, totalCount, numOfRows, pageNo } = parseAPIResponse(data, tourItemSchema);
 
     return {
-      items: tourItems,
-      totalCount: data.response.body?.totalCount || 0,
-      numOfRows: data.response.body?.numOfRows || DEFAULT_NUM_OF_ROWS,
-      pageNo: data.response.body?.pageNo || DEFAULT_PAGE_NO,
+      items,
+      totalCount,
+      numOfRows: numOfRows || DEFAULT_NUM_OF_ROWS,
+      pageNo: pageNo || DEFAULT_PAGE_NO,
     };
   } catch (error) {
     if (error instanceof TourAPIError) {
@@ -484,6 +914,257 @@ export async function searchKeyword(
   }
 }
 
+/**
+ * 위치 기반 목록 조회
+ * @param params - 위치 기반 목록 조회 파라미터 (기준 좌표는 WGS84)
+ * @returns 기준 좌표 반경 내 관광지 목록 (거리 포함) 및 총 개수
+ */
+export async function getLocationBasedList(
+  params: LocationBasedListParams,
+): Promise<LocationBasedListResponse> {
+  const mapX = Number(params.mapX);
+  const mapY = Number(params.mapY);
+
+  if (!Number.isFinite(mapX) || !Number.isFinite(mapY)) {
+    const error = new TourAPIError(
+      '기준 좌표(mapX, mapY)가 올바르지 않습니다.',
+      undefined,
+      undefined,
+      TourAPIErrorType.VALIDATION_ERROR,
+    );
+    error.logError('getLocationBasedList');
+    throw error;
+  }
+
+  if (
+    !Number.isFinite(params.radius) ||
+    params.radius <= 0 ||
+    params.radius > MAX_LOCATION_RADIUS
+  ) {
+    const error = new TourAPIError(
+      `검색 반경은 1~${MAX_LOCATION_RADIUS}m 사이여야 합니다.`,
+      undefined,
+      undefined,
+      TourAPIErrorType.VALIDATION_ERROR,
+    );
+    error.logError('getLocationBasedList');
+    throw error;
+  }
+
+  const queryParams = {
+    ...getCommonParams(),
+    mapX,
+    mapY,
+    radius: Math.round(params.radius),
+    contentTypeId: params.contentTypeId,
+    arrange: params.arrange || 'E',
+    numOfRows: params.numOfRows || DEFAULT_NUM_OF_ROWS,
+    pageNo: params.pageNo || DEFAULT_PAGE_NO,
+  };
+
+  try {
+    const data = await requestAPI('locationBasedList2', queryParams, params.language);
+
+    const { items, totalCount, numOfRows, pageNo } = parseAPIResponse(data, locationTourItemSchema);
+
+    return {
+      items,
+      totalCount,
+      numOfRows: numOfRows || DEFAULT_NUM_OF_ROWS,
+      pageNo: pageNo || DEFAULT_PAGE_NO,
+    };
+  } catch (error) {
+    if (error instanceof TourAPIError) {
+      throw error;
+    }
+    throw new TourAPIError(
+      '위치 기반 목록 조회 중 에러가 발생했습니다.',
+      undefined,
+      error instanceof Error ? error : new Error(String(error)),
+    );
+  }
+}
+
+/**
+ * 행사정보 조회
+ * 행사 종료일이 eventStartDate 이후인 행사(진행 중인 행사 포함)를 조회합니다.
+ * @param params - 행사정보 조회 파라미터 (일자는 YYYYMMDD 형식)
+ * @returns 행사 목록 (행사 기간 포함) 및 총 개수
+ */
+export async function searchFestival(
+  params: SearchFestivalParams,
+): Promise<FestivalListResponse> {
+  if (
+    !EVENT_DATE_PATTERN.test(params.eventStartDate || '') ||
+    (params.eventEndDate && !EVENT_DATE_PATTERN.test(params.eventEndDate))
+  ) {
+    const error = new TourAPIError(
+      '행사 일자는 YYYYMMDD 형식이어야 합니다.',
+      undefined,
+      undefined,
+      TourAPIErrorType.VALIDATION_ERROR,
+    );
+    error.logError('searchFestival');
+    throw error;
+  }
+
+  if (params.eventEndDate && params.eventEndDate < params.eventStartDate) {
+    const error = new TourAPIError(
+      '행사 종료일은 시작일 이후여야 합니다.',
+      undefined,
+      undefined,
+      TourAPIErrorType.VALIDATION_ERROR,
+    );
+    error.logError('searchFestival');
+    throw error;
+  }
+
+  const queryParams = {
+    ...getCommonParams(),
+    eventStartDate: params.eventStartDate,
+    eventEndDate: params.eventEndDate,
+    areaCode: params.areaCode,
+    sigunguCode: params.areaCode ? params.sigunguCode : undefined,
+    numOfRows: params.numOfRows || DEFAULT_NUM_OF_ROWS,
+    pageNo: params.pageNo || DEFAULT_PAGE_NO,
+  };
+
+  try {
+    const data = await requestAPI('searchFestival2', queryParams, params.language);
+
+    const { items, totalCount, numOfRows, pageNo } = parseAPIResponse(data, festivalItemSchema);
+
+    return {
+      items,
+      totalCount,
+      numOfRows: numOfRows || DEFAULT_NUM_OF_ROWS,
+      pageNo: pageNo || DEFAULT_PAGE_NO,
+    };
+  } catch (error) {
+    if (error instanceof TourAPIError) {
+      throw error;
+    }
+    throw new TourAPIError(
+      '행사정보 조회 중 에러가 발생했습니다.',
+      undefined,
+      error instanceof Error ? error : new Error(String(error)),
+    );
+  }
+}
+
+/**
+ * 숙박 목록 한 페이지 조회 후 숙소별 소개 정보(체크인/체크아웃, 주차시설 등) 병합
+ * 소개 정보는 동시 요청 수를 제한하여 조회하고, 일부가 실패해도 목록은 표시합니다.
+ */
+async function fetchStayPage(
+  params: SearchStayParams,
+  numOfRows: number,
+  pageNo: number,
+): Promise<{ items: StayItem[]; totalCount: number }> {
+  const queryParams = {
+    ...getCommonParams(),
+    areaCode: params.areaCode,
+    sigunguCode: params.areaCode ? params.sigunguCode : undefined,
+    arrange: params.arrange || 'C',
+    numOfRows,
+    pageNo,
+  };
+
+  const data = await requestAPI('searchStay2', queryParams, params.language);
+  const { items: stayItems, totalCount } = parseAPIResponse(data, tourItemSchema);
+
+  const introResults = await mapWithConcurrency(stayItems, STAY_INTRO_CONCURRENCY, (item) =>
+    getDetailIntro({
+      contentId: item.contentid,
+      contentTypeId: item.contenttypeid || CONTENT_TYPE.ACCOMMODATION,
+      language: params.language,
+    }),
+  );
+
+  const items: StayItem[] = stayItems.map((item, index) => {
+    const result = introResults[index];
+    if (result.status !== 'fulfilled') {
+      return item;
+    }
+    const intro = result.value.item;
+    return {
+      ...item,
+      checkintime: intro.checkintime,
+      checkouttime: intro.checkouttime,
+      roomcount: intro.roomcount,
+      parkinglodging: intro.parkinglodging,
+    };
+  });
+
+  return { items, totalCount };
+}
+
+/**
+ * 숙박정보 조회
+ * 목록 조회 후 각 숙소의 소개 정보(체크인/체크아웃, 주차시설 등)를 병합합니다.
+ * 주차/체크인 조건은 소개 정보 기반이므로 API에서 거를 수 없어, 조건이 있으면
+ * 1페이지부터 STAY_FILTER_SCAN_ROWS개씩 조회하며 요청한 페이지가 찰 때까지 조건에 맞는 숙소를 모읍니다.
+ * (조회 인자가 페이지와 관계없이 같으므로 앞 페이지는 응답 캐시를 재사용)
+ * 이때 totalCount는 확인한 숙소 중 조건에 맞는 수입니다.
+ * - 전체 목록을 확인한 경우: 조건에 맞는 전체 숙소 수
+ * - 요청한 페이지 이후에도 조건에 맞는 숙소가 남은 경우: 다음 페이지를 요청할 수 있도록 찾은 수 (요청한 페이지보다 큼)
+ * - 최대 조회 페이지(MAX_STAY_FILTER_SCAN_PAGES)에 도달한 경우: 그때까지 찾은 수 (이후 페이지는 조회하지 않음)
+ * @param params - 숙박정보 조회 파라미터
+ * @returns 숙박 목록 (소개 정보 포함) 및 총 개수
+ */
+export async function searchStay(
+  params: SearchStayParams = {},
+): Promise<StayListResponse> {
+  if (params.checkInBefore && !CHECK_IN_TIME_PATTERN.test(params.checkInBefore)) {
+    const error = new TourAPIError(
+      '체크인 시각은 HH:MM 형식이어야 합니다.',
+      undefined,
+      undefined,
+      TourAPIErrorType.VALIDATION_ERROR,
+    );
+    error.logError('searchStay');
+    throw error;
+  }
+
+  const numOfRows = params.numOfRows || DEFAULT_NUM_OF_ROWS;
+  const pageNo = params.pageNo || DEFAULT_PAGE_NO;
+
+  try {
+    // 조건이 없으면 요청한 페이지만 조회
+    if (!params.parking && !params.checkInBefore) {
+      const { items, totalCount } = await fetchStayPage(params, numOfRows, pageNo);
+      return { items, totalCount, numOfRows, pageNo };
+    }
+
+    // 요청한 페이지 다음 항목까지 찾거나 전체 목록/최대 조회 페이지에 도달할 때까지 조회
+    const end = pageNo * numOfRows;
+    const matches: StayItem[] = [];
+    for (let scanPageNo = 1; scanPageNo <= MAX_STAY_FILTER_SCAN_PAGES && matches.length <= end; scanPageNo++) {
+      const page = await fetchStayPage(params, STAY_FILTER_SCAN_ROWS, scanPageNo);
+      matches.push(...page.items.filter((stay) => matchesStayFilters(stay, params)));
+      if (page.items.length < STAY_FILTER_SCAN_ROWS || scanPageNo * STAY_FILTER_SCAN_ROWS >= page.totalCount) {
+        break;
+      }
+    }
+
+    return {
+      items: matches.slice(end - numOfRows, end),
+      totalCount: matches.length,
+      numOfRows,
+      pageNo,
+    };
+  } catch (error) {
+    if (error instanceof TourAPIError) {
+      throw error;
+    }
+    throw new TourAPIError(
+      '숙박정보 조회 중 에러가 발생했습니다.',
+      undefined,
+      error instanceof Error ? error : new Error(String(error)),
+    );
+  }
+}
+
 /**
  * 공통 정보 조회
  * @param params - 상세 정보 조회 파라미터
@@ -508,17 +1189,14 @@ export async function getDetailCommon(
     contentId: params.contentId.trim(),
   };
 
-  const url = `${BASE_URL}/detailCommon2?${buildQueryString(queryParams)}`;
-
   try {
-    const response = await fetchWithRetry(url);
-    const data: TourAPIResponse<TourDetail> = await response.json();
+    const data = await requestAPI('detailCommon2', queryParams, params.language);
 
-    const items = parseAPIResponse<TourDetail>(data);
-    const detail = Array.isArray(items) ? items[0] : items;
+    const { items } = parseAPIResponse(data, tourDetailSchema);
+    const detail = items[0];
 
     if (!detail) {
-      throw new TourAPIError('상세 정보를 찾을 수 없습니다.');
+      throw new TourAPIError('상세 정보를 찾을 수 없습니다.', undefined, undefined, TourAPIErrorType.NO_DATA);
     }
 
     return { item: detail };
@@ -534,6 +1212,64 @@ export async function getDetailCommon(
   }
 }
 
+/**
+ * 여러 건 공통 정보 조회 실패 항목
+ */
+export interface DetailCommonFailure {
+  contentId: string;
+  error: TourAPIError;
+}
+
+/**
+ * 여러 건 공통 정보 조회 결과
+ */
+export interface DetailCommonManyResult {
+  items: TourDetail[]; // 조회에 성공한 상세 정보 (요청 순서 유지)
+  failures: DetailCommonFailure[]; // 조회에 실패한 콘텐츠 ID와 에러
+}
+
+/**
+ * 여러 건 공통 정보 조회
+ * 동시 요청 수를 제한하여 조회하고, 일부가 실패해도 성공한 항목은 반환합니다.
+ * 중복된 콘텐츠 ID는 한 번만 조회합니다.
+ * @param contentIds - 콘텐츠 ID 목록
+ * @param language - 조회할 언어 서비스 (기본값: 한국어)
+ * @param concurrency - 최대 동시 요청 수 (기본값: 5)
+ * @returns 조회에 성공한 상세 정보와 실패 목록
+ */
+export async function getDetailCommonMany(
+  contentIds: string[],
+  language?: TourLanguage,
+  concurrency: number = DETAIL_COMMON_MANY_CONCURRENCY,
+): Promise<DetailCommonManyResult> {
+  const uniqueIds = Array.from(new Set(contentIds.map((contentId) => contentId.trim()))).filter(Boolean);
+
+  const results = await mapWithConcurrency(uniqueIds, Math.max(1, concurrency), (contentId) =>
+    getDetailCommon({ contentId, language }),
+  );
+
+  const items: TourDetail[] = [];
+  const failures: DetailCommonFailure[] = [];
+
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      items.push(result.value.item);
+      return;
+    }
+    const error =
+      result.reason instanceof TourAPIError
+        ? result.reason
+        : new TourAPIError(
+            '공통 정보 조회 중 에러가 발생했습니다.',
+            undefined,
+            result.reason instanceof Error ? result.reason : new Error(String(result.reason)),
+          );
+    failures.push({ contentId: uniqueIds[index], error });
+  });
+
+  return { items, failures };
+}
+
 /**
  * 소개 정보 조회
  * @param params - 소개 정보 조회 파라미터
@@ -570,17 +1306,14 @@ export async function getDetailIntro(
     contentTypeId: params.contentTypeId.trim(),
   };
 
-  const url = `${BASE_URL}/detailIntro2?${buildQueryString(queryParams)}`;
-
   try {
-    const response = await fetchWithRetry(url);
-    const data: TourAPIResponse<TourIntro> = await response.json();
+    const data = await requestAPI('detailIntro2', queryParams, params.language);
 
-    const items = parseAPIResponse<TourIntro>(data);
-    const intro = Array.isArray(items) ? items[0] : items;
+    const { items } = parseAPIResponse(data, tourIntroSchema);
+    const intro = items[0];
 
     if (!intro) {
-      throw new TourAPIError('소개 정보를 찾을 수 없습니다.');
+      throw new TourAPIError('소개 정보를 찾을 수 없습니다.', undefined, undefined, TourAPIErrorType.NO_DATA);
     }
 
     return { item: intro };
@@ -596,6 +1329,80 @@ export async function getDetailIntro(
   }
 }
 
+/**
+ * 반복 정보 조회
+ * 콘텐츠 타입에 따라 여행코스 경로, 숙박 객실, 기타 이용 안내 목록을 반환합니다.
+ * 여행코스는 코스 순번(subnum) 순으로 정렬됩니다.
+ * @param params - 반복 정보 조회 파라미터
+ * @returns 콘텐츠 타입별 반복 정보 목록
+ */
+export async function getDetailInfo(
+  params: DetailInfoParams,
+): Promise<DetailInfoResponse> {
+  if (!params.contentId || params.contentId.trim() === '') {
+    const error = new TourAPIError(
+      '콘텐츠 ID는 필수입니다.',
+      undefined,
+      undefined,
+      TourAPIErrorType.VALIDATION_ERROR,
+    );
+    error.logError('getDetailInfo');
+    throw error;
+  }
+
+  const contentTypeId = params.contentTypeId?.trim() as ContentTypeId;
+  if (!Object.values(CONTENT_TYPE).includes(contentTypeId)) {
+    const error = new TourAPIError(
+      '올바른 콘텐츠 타입 ID가 필요합니다.',
+      undefined,
+      undefined,
+      TourAPIErrorType.VALIDATION_ERROR,
+    );
+    error.logError('getDetailInfo');
+    throw error;
+  }
+
+  const queryParams = {
+    ...getCommonParams(),
+    contentId: params.contentId.trim(),
+    contentTypeId,
+  };
+
+  try {
+    const data = await requestAPI('detailInfo2', queryParams, params.language);
+
+    // 타입별로 항목 구조가 다르므로 타입에 맞는 스키마로 검증
+    switch (contentTypeId) {
+      case CONTENT_TYPE.TOUR_COURSE:
+        return {
+          contentTypeId,
+          items: parseAPIResponse(data, courseInfoItemSchema).items.sort(
+            (a, b) => Number(a.subnum) - Number(b.subnum),
+          ),
+        };
+      case CONTENT_TYPE.ACCOMMODATION:
+        return {
+          contentTypeId,
+          items: parseAPIResponse(data, roomInfoItemSchema).items,
+        };
+      default:
+        return {
+          contentTypeId,
+          items: parseAPIResponse(data, generalInfoItemSchema).items,
+        };
+    }
+  } catch (error) {
+    if (error instanceof TourAPIError) {
+      throw error;
+    }
+    throw new TourAPIError(
+      '반복 정보 조회 중 에러가 발생했습니다.',
+      undefined,
+      error instanceof Error ? error : new Error(String(error)),
+    );
+  }
+}
+
 /**
  * 이미지 목록 조회
  * @param params - 이미지 목록 조회 파라미터
@@ -622,18 +1429,14 @@ export async function getDetailImage(
     pageNo: params.pageNo || DEFAULT_PAGE_NO,
   };
 
-  const url = `${BASE_URL}/detailImage2?${buildQueryString(queryParams)}`;
-
   try {
-    const response = await fetchWithRetry(url);
-    const data: TourAPIResponse<TourImage> = await response.json();
+    const data = await requestAPI('detailImage2', queryParams, params.language);
 
-    const items = parseAPIResponse<TourImage>(data);
-    const images = Array.isArray(items) ? items : [];
+    const { items, totalCount } = parseAPIResponse(data, tourImageSchema);
 
     return {
-      items: images,
-      totalCount: data.response.body?.totalCount || 0,
+      items,
+      totalCount,
     };
   } catch (error) {
     if (error instanceof TourAPIError) {
@@ -671,17 +1474,14 @@ export async function getDetailPetTour(
     contentId: params.contentId.trim(),
   };
 
-  const url = `${BASE_URL}/detailPetTour2?${buildQueryString(queryParams)}`;
-
   try {
-    const response = await fetchWithRetry(url);
-    const data: TourAPIResponse<PetTourInfo> = await response.json();
+    const data = await requestAPI('detailPetTour2', queryParams, params.language);
 
-    const items = parseAPIResponse<PetTourInfo>(data);
-    const petInfo = Array.isArray(items) ? items[0] : items;
+    const { items } = parseAPIResponse(data, petTourInfoSchema);
+    const petInfo = items[0];
 
     if (!petInfo) {
-      throw new TourAPIError('반려동물 정보를 찾을 수 없습니다.');
+      throw new TourAPIError('반려동물 정보를 찾을 수 없습니다.', undefined, undefined, TourAPIErrorType.NO_DATA);
     }
 
     return { item: petInfo };
@@ -697,3 +1497,43 @@ export async function getDetailPetTour(
   }
 }
 
+// =====================================================
+// 언어별 콘텐츠 ID 매핑
+// =====================================================
+
+/**
+ * 다른 언어 서비스의 같은 장소 콘텐츠 ID 찾기
+ * 언어 서비스마다 콘텐츠 ID가 다르므로, 원래 언어의 좌표 주변에서
+ * 같은 콘텐츠 타입의 가장 가까운 장소를 같은 장소로 봅니다.
+ * @param contentId - 원래 언어 서비스의 콘텐츠 ID
+ * @param from - 원래 언어
+ * @param to - 찾을 언어
+ * @returns 찾을 언어 서비스의 콘텐츠 ID (같은 장소가 없으면 null)
+ */
+export async function findLocalizedContentId(
+  contentId: string,
+  from: TourLanguage,
+  to: TourLanguage,
+): Promise<string | null> {
+  if (from === to) {
+    return contentId;
+  }
+
+  const { item: detail } = await getDetailCommon({ contentId, language: from });
+  if (!detail.mapx || !detail.mapy) {
+    return null;
+  }
+
+  const { items } = await getLocationBasedList({
+    mapX: detail.mapx,
+    mapY: detail.mapy,
+    radius: LOCALIZED_CONTENT_RADIUS,
+    contentTypeId: detail.contenttypeid,
+    arrange: 'E',
+    numOfRows: 1,
+    pageNo: 1,
+    language: to,
+  });
+
+  return items[0]?.contentid || null;
+}
@@ -0,0 +1,324 @@
+/**
+ * @file tour-list-api.ts
+ * @description 홈페이지 관광지 목록 조회
+ *
+ * 이 파일은 URL 쿼리 파라미터로 구성한 조회 조건에 맞는 API를 선택하여 관광지 목록을 조회합니다.
+ * 서버(초기 페이지)와 클라이언트(무한 스크롤 다음 페이지)가 같은 함수를 사용하여
+ * 목록과 지도가 항상 같은 조건으로 조회되도록 합니다.
+ * API 함수는 호출하는 쪽에서 전달받습니다 (서버: tour-api.ts, 클라이언트: tour-api-client.ts).
+ *
+ * 주요 기능:
+ * 1. 조회 조건 타입 정의 (TourQuery)
+ * 2. 조회 모드 선택 (이 지역 검색 > 내 주변 > 숙박 검색 > 키워드 검색 > 지역 기반 목록)
+ * 3. 정렬/이미지 조건 → arrange 변환, 다중 관광 타입 병합 조회
+ * 4. 이 지역 검색 결과를 범위 안 관광지로 제한 (범위를 덮는 원으로 조회한 뒤 필터링)
+ *
+ * @dependencies
+ * - lib/api/tour-api.ts: getAreaBasedList, searchKeyword, getLocationBasedList, searchStay 시그니처
+ * - lib/api/merged-list-api.ts: fetchMergedList 함수 (다중 타입 병합 조회), MERGED_FETCH_ROWS
+ * - lib/utils/distance.ts: DEFAULT_NEARBY_RADIUS, MAX_LOCATION_RADIUS
+ * - lib/utils/sort.ts: toListArrange 함수
+ * - lib/geo: parseBoundsParam, getBoundsCenter, getBoundsRadius (이 지역 검색 범위 → 기준 좌표/반경), toLatLng, isInBounds (범위 필터링)
+ */
+
+import type {
+  getAreaBasedList,
+  getLocationBasedList,
+  searchKeyword,
+  searchStay,
+} from './tour-api';
+import { fetchMergedList, MERGED_FETCH_ROWS } from './merged-list-api';
+import type { MergedListResponse } from './merged-list-api';
+import type {
+  LocationArrange,
+  LocationBasedListResponse,
+  StayListResponse,
+  TourItem,
+  TourLanguage,
+  TourListResponse,
+} from '@/lib/types/tour';
+import { DEFAULT_NEARBY_RADIUS, MAX_LOCATION_RADIUS } from '@/lib/utils/distance';
+import { toListArrange } from '@/lib/utils/sort';
+import { parseBoundsParam, toLatLng } from '@/lib/geo/coordinates';
+import type { GeoBounds } from '@/lib/geo/coordinates';
+import { getBoundsCenter, getBoundsRadius, isInBounds } from '@/lib/geo/measure';
+
+/**
+ * 페이지당 항목 수
+ */
+export const TOUR_LIST_PAGE_SIZE = 12;
+
+/**
+ * 이 지역 검색 최대 조회 페이지 수 (MERGED_FETCH_ROWS개씩, 최대 500개 관광지 확인)
+ */
+const MAX_AREA_SEARCH_SCAN_PAGES = 10;
+
+/**
+ * 목록 조회에 사용하는 API 함수
+ * tour-api.ts(서버)와 tour-api-client.ts(클라이언트) 모두 이 형태를 만족합니다.
+ */
+export interface TourListAPI {
+  getAreaBasedList: typeof getAreaBasedList;
+  searchKeyword: typeof searchKeyword;
+  getLocationBasedList: typeof getLocationBasedList;
+  searchStay: typeof searchStay;
+}
+
+/**
+ * 목록/지도 공통 조회 조건
+ */
+export interface TourQuery {
+  areaCode?: string;
+  sigunguCode?: string;
+  lDongRegnCd?: string;
+  lDongSignguCd?: string;
+  contentTypeId?: string | string[];
+  keyword?: string;
+  page?: string;
+  sort?: string;
+  image?: string;
+  mapX?: string;
+  mapY?: string;
+  radius?: string;
+  bounds?: string; // 이 지역 검색 범위 ("남,서,북,동")
+  stay?: string;
+  parking?: string;
+  checkIn?: string;
+  cat1?: string;
+  cat2?: string;
+  cat3?: string;
+  language?: TourLanguage; // 조회할 언어 서비스 (로케일 경로 /en, /ja, /zh)
+}
+
+/**
+ * 내 주변 모드의 기준 좌표 파싱
+ * mapX(경도), mapY(위도)가 모두 유효한 숫자인 경우에만 반환합니다.
+ */
+export function parseNearbyCenter(
+  mapX?: string,
+  mapY?: string,
+): { mapX: number; mapY: number } | null {
+  const x = mapX ? parseFloat(mapX) : NaN;
+  const y = mapY ? parseFloat(mapY) : NaN;
+  return Number.isFinite(x) && Number.isFinite(y) ? { mapX: x, mapY: y } : null;
+}
+
+/**
+ * 이 지역 검색 범위 → 위치 기반 조회 기준 좌표와 반경
+ * 범위 전체를 포함하는 반경(중심에서 가장 먼 모서리까지, 100m 단위 올림)을 사용하며
+ * 최대 반경(MAX_LOCATION_RADIUS)을 넘으면 최대 반경으로 조회합니다.
+ * 원은 범위 밖(변 바깥쪽)도 포함하므로 조회 결과는 fetchWithinBounds로 범위 안 관광지만 남깁니다.
+ * @param bounds - "남,서,북,동" 형식 문자열
+ * @returns 기준 좌표와 반경 또는 null (범위가 유효하지 않은 경우)
+ */
+export function parseAreaSearchCircle(
+  bounds?: string,
+): { mapX: number; mapY: number; radius: number } | null {
+  const parsed = parseBoundsParam(bounds);
+  if (!parsed) {
+    return null;
+  }
+
+  const center = getBoundsCenter(parsed);
+  const radius = Math.ceil(getBoundsRadius(parsed) / 100) * 100;
+  return {
+    mapX: center.lng,
+    mapY: center.lat,
+    radius: Math.min(radius, MAX_LOCATION_RADIUS),
+  };
+}
+
+/**
+ * 범위 안 관광지만 모아 페이지 구성 (이 지역 검색)
+ * 1페이지부터 MERGED_FETCH_ROWS개씩 조회하며 요청한 페이지가 찰 때까지 범위 안 관광지를 모읍니다.
+ * (조회 인자가 페이지와 관계없이 같으므로 앞 페이지는 응답 캐시를 재사용)
+ * 이때 totalCount는 확인한 관광지 중 범위 안에 있는 수입니다.
+ * - 전체 목록을 확인한 경우: 범위 안 전체 관광지 수
+ * - 요청한 페이지 이후에도 범위 안 관광지가 남은 경우: 다음 페이지를 요청할 수 있도록 찾은 수 (요청한 페이지보다 큼)
+ * - 최대 조회 페이지(MAX_AREA_SEARCH_SCAN_PAGES)에 도달한 경우: 그때까지 찾은 수 (이후 페이지는 조회하지 않음)
+ * @param bounds - 이 지역 검색 범위
+ * @param fetchPage - 범위를 덮는 원의 위치 기반 목록 조회 함수
+ * @param numOfRows - 페이지당 항목 수
+ * @param pageNo - 페이지 번호
+ */
+async function fetchWithinBounds<T extends TourItem>(
+  bounds: GeoBounds,
+  fetchPage: (rows: number, no: number) => Promise<MergedListResponse<T>>,
+  numOfRows: number,
+  pageNo: number,
+): Promise<MergedListResponse<T>> {
+  const isItemInBounds = (item: T) => {
+    const position = toLatLng(item.mapx, item.mapy);
+    return position !== null && isInBounds(position, bounds);
+  };
+
+  // 요청한 페이지 다음 항목까지 찾거나 전체 목록/최대 조회 페이지에 도달할 때까지 조회
+  const end = pageNo * numOfRows;
+  const matches: T[] = [];
+  for (let scanPageNo = 1; scanPageNo <= MAX_AREA_SEARCH_SCAN_PAGES && matches.length <= end; scanPageNo++) {
+    const page = await fetchPage(MERGED_FETCH_ROWS, scanPageNo);
+    matches.push(...page.items.filter(isItemInBounds));
+    if (page.items.length < MERGED_FETCH_ROWS || scanPageNo * MERGED_FETCH_ROWS >= page.totalCount) {
+      break;
+    }
+  }
+
+  return {
+    items: matches.slice(end - numOfRows, end),
+    totalCount: matches.length,
+    numOfRows,
+    pageNo,
+  };
+}
+
+/**
+ * 조회 조건에 따라 관광지 목록 조회
+ * 우선순위: 이 지역 검색(위치 기반) > 내 주변(위치 기반) > 숙박 검색 > 키워드 검색 > 지역 기반 목록
+ * @param query - 조회 조건
+ * @param api - 목록 조회 API 함수 (서버: tour-api.ts, 클라이언트: tour-api-client.ts)
+ */
+export async function fetchTourList(
+  {
+    areaCode,
+    sigunguCode,
+    lDongRegnCd,
+    lDongSignguCd,
+    contentTypeId,
+    keyword,
+    page,
+    sort,
+    image,
+    mapX,
+    mapY,
+    radius,
+    bounds,
+    stay,
+    parking,
+    checkIn,
+    cat1,
+    cat2,
+    cat3,
+    language,
+  }: TourQuery,
+  api: TourListAPI,
+): Promise<TourListResponse | LocationBasedListResponse | StayListResponse> {
+  // 페이지 번호 파싱 (1부터 시작)
+  const pageNo = Math.max(1, parseInt(page || '1', 10));
+  const numOfRows = TOUR_LIST_PAGE_SIZE;
+
+  // contentTypeId 배열 처리
+  const contentTypeIds = Array.isArray(contentTypeId)
+    ? contentTypeId
+    : contentTypeId
+      ? [contentTypeId]
+      : undefined;
+
+  // 정렬은 API에서 처리해야 전체 결과 기준으로 정렬됨 (sort, image → arrange)
+  const imageOnly = image === '1';
+  const arrange = toListArrange(sort, imageOnly);
+
+  // API는 contentTypeId를 하나만 지원하므로 여러 타입을 선택한 경우
+  // 타입별로 조회한 뒤 arrange 순서로 병합하여 페이지를 구성
+  const fetchByContentTypes = <T extends TourItem>(
+    fetchPage: (
+      contentTypeId: string | undefined,
+      rows: number,
+      no: number,
+    ) => Promise<MergedListResponse<T>>,
+    mergeArrange: LocationArrange,
+    rows = numOfRows,
+    no = pageNo,
+  ): Promise<MergedListResponse<T>> =>
+    contentTypeIds && contentTypeIds.length > 1
+      ? fetchMergedList(contentTypeIds, fetchPage, { arrange: mergeArrange, numOfRows: rows, pageNo: no })
+      : fetchPage(contentTypeIds?.[0], rows, no);
+
+  // 이 지역 검색 모드: 지도에 보이는 범위의 중심과 범위를 덮는 반경으로 조회한 뒤 범위 안 관광지만 표시
+  // 내 주변 모드: 기준 좌표 반경 내 관광지를 거리순으로 조회
+  const nearbyCenter = parseNearbyCenter(mapX, mapY);
+  const locationCircle =
+    parseAreaSearchCircle(bounds) ??
+    (nearbyCenter && {
+      ...nearbyCenter,
+      radius: parseInt(radius || '', 10) || DEFAULT_NEARBY_RADIUS,
+    });
+  if (locationCircle) {
+    const locationArrange = imageOnly ? 'S' : 'E';
+    const fetchLocationPage = (rows: number, no: number) =>
+      fetchByContentTypes(
+        (typeId, typeRows, typeNo) =>
+          api.getLocationBasedList({
+            ...locationCircle,
+            contentTypeId: typeId,
+            arrange: locationArrange,
+            numOfRows: typeRows,
+            pageNo: typeNo,
+            language,
+          }),
+        locationArrange,
+        rows,
+        no,
+      );
+
+    const areaBounds = parseBoundsParam(bounds);
+    return areaBounds
+      ? fetchWithinBounds(areaBounds, fetchLocationPage, numOfRows, pageNo)
+      : fetchLocationPage(numOfRows, pageNo);
+  }
+
+  // 숙박 검색 모드: 지역 + 숙박 조건(주차, 체크인 시각)으로 조회
+  if (stay === '1') {
+    return api.searchStay({
+      areaCode,
+      sigunguCode,
+      parking: parking === '1',
+      checkInBefore: checkIn || undefined,
+      arrange,
+      numOfRows,
+      pageNo,
+      language,
+    });
+  }
+
+  // 키워드 검색이 있으면 searchKeyword 사용, 없으면 getAreaBasedList 사용
+  if (keyword && keyword.trim()) {
+    return fetchByContentTypes(
+      (typeId, rows, no) =>
+        api.searchKeyword({
+          keyword: keyword.trim(),
+          areaCode,
+          sigunguCode,
+          lDongRegnCd,
+          lDongSignguCd,
+          contentTypeId: typeId,
+          cat1,
+          cat2,
+          cat3,
+          arrange,
+          numOfRows: rows,
+          pageNo: no,
+          language,
+        }),
+      arrange,
+    );
+  }
+
+  return fetchByContentTypes(
+    (typeId, rows, no) =>
+      api.getAreaBasedList({
+        areaCode,
+        sigunguCode,
+        lDongRegnCd,
+        lDongSignguCd,
+        contentTypeId: typeId,
+        cat1,
+        cat2,
+        cat3,
+        arrange,
+        numOfRows: rows,
+        pageNo: no,
+        language,
+      }),
+    arrange,
+  );
+}
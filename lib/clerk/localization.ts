@@ -1,10 +1,12 @@
-import { koKR } from "@clerk/localizations";
+import { enUS, jaJP, koKR, zhCN } from "@clerk/localizations";
+import type { Locale } from "@/lib/i18n/locale";
 
 /**
  * Clerk 한국어 로컬라이제이션 설정
  *
  * 이 파일은 Clerk 컴포넌트의 한국어 로컬라이제이션을 관리합니다.
  * 기본 koKR 로컬라이제이션에 커스텀 에러 메시지를 추가합니다.
+ * 로케일 접두사 경로(/en, /ja, /zh)에서는 해당 언어의 기본 로컬라이제이션을 사용합니다.
  *
  * @see https://clerk.com/docs/guides/customizing-clerk/localization
  */
@@ -64,6 +66,23 @@ export const koreanLocalization = {
   },
 } as const;
 
+/**
+ * 로케일별 Clerk 로컬라이제이션
+ */
+const clerkLocalizations = {
+  ko: koreanLocalization,
+  en: enUS,
+  ja: jaJP,
+  zh: zhCN,
+} satisfies Record<Locale, unknown>;
+
+/**
+ * 화면 로케일에 맞는 Clerk 로컬라이제이션
+ */
+export function getClerkLocalization(locale: Locale) {
+  return clerkLocalizations[locale];
+}
+
 /**
  * 추가 커스터마이징 예제
  *
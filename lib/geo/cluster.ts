@@ -0,0 +1,112 @@
+/**
+ * @file cluster.ts
+ * @description 지도 확대 수준에 따른 좌표 클러스터링
+ *
+ * 주요 기능:
+ * 1. 확대 수준(zoom)별 격자 클러스터링 (clusterByGrid)
+ * 2. 클러스터의 중심 좌표와 범위 계산 (클러스터 클릭 시 범위에 맞춰 확대)
+ *
+ * 핵심 구현 로직:
+ * - 좌표를 웹 메르카토르 화면 픽셀 좌표로 바꾼 뒤 gridSize 픽셀 격자로 묶습니다.
+ *   확대 수준이 1 오를 때마다 픽셀 거리가 2배가 되므로 확대할수록 클러스터가 나뉩니다.
+ * - maxZoom보다 확대된 경우 클러스터링하지 않습니다. (모든 좌표를 각각 표시)
+ * - 결과 순서는 입력 순서를 따릅니다. (각 클러스터의 첫 항목 기준)
+ *
+ * @dependencies
+ * - lib/geo/coordinates.ts: LatLng, GeoBounds
+ * - lib/geo/measure.ts: getBounds, getCentroid
+ */
+
+import type { GeoBounds, LatLng } from "./coordinates";
+import { getBounds, getCentroid } from "./measure";
+
+// =====================================================
+// 타입 정의
+// =====================================================
+
+/**
+ * 클러스터 (항목이 하나인 클러스터는 개별 마커로 표시)
+ */
+export interface Cluster<T> {
+  /** 클러스터에 속한 항목 (입력 순서) */
+  items: T[];
+  /** 항목 좌표의 중심 */
+  center: LatLng;
+  /** 항목 좌표를 모두 포함하는 범위 */
+  bounds: GeoBounds;
+}
+
+/**
+ * 클러스터링 옵션
+ */
+export interface ClusterOptions {
+  /** 격자 크기 (화면 픽셀, 기본 60) */
+  gridSize?: number;
+  /** 클러스터링을 적용하는 최대 확대 수준 (기본 14) */
+  maxZoom?: number;
+}
+
+// =====================================================
+// 상수 정의
+// =====================================================
+
+const TILE_SIZE = 256;
+const DEFAULT_GRID_SIZE = 60;
+const DEFAULT_MAX_ZOOM = 14;
+
+// =====================================================
+// 클러스터링
+// =====================================================
+
+/**
+ * WGS84 경위도 → 웹 메르카토르 화면 픽셀 좌표
+ */
+function toPixel({ lat, lng }: LatLng, zoom: number): { x: number; y: number } {
+  const worldSize = TILE_SIZE * 2 ** zoom;
+  const sinLat = Math.sin((lat * Math.PI) / 180);
+  return {
+    x: ((lng + 180) / 360) * worldSize,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * worldSize,
+  };
+}
+
+/**
+ * 확대 수준에 따라 가까운 좌표를 클러스터로 묶기 (격자 방식)
+ * @param items - 좌표(position)를 가진 항목 목록
+ * @param zoom - 지도 확대 수준
+ * @param options - 클러스터링 옵션
+ * @returns 클러스터 목록
+ * @example
+ * const clusters = clusterByGrid(tourPositions, map.getZoom());
+ * clusters.forEach((cluster) => cluster.items.length > 1 ? showBadge(cluster) : showMarker(cluster.items[0]));
+ */
+export function clusterByGrid<T extends { position: LatLng }>(
+  items: T[],
+  zoom: number,
+  options: ClusterOptions = {},
+): Cluster<T>[] {
+  const { gridSize = DEFAULT_GRID_SIZE, maxZoom = DEFAULT_MAX_ZOOM } = options;
+
+  const toCluster = (members: T[]): Cluster<T> => {
+    const positions = members.map((item) => item.position);
+    return { items: members, center: getCentroid(positions)!, bounds: getBounds(positions)! };
+  };
+
+  if (zoom > maxZoom) {
+    return items.map((item) => toCluster([item]));
+  }
+
+  const cells = new Map<string, T[]>();
+  items.forEach((item) => {
+    const { x, y } = toPixel(item.position, zoom);
+    const key = `${Math.floor(x / gridSize)}:${Math.floor(y / gridSize)}`;
+    const members = cells.get(key);
+    if (members) {
+      members.push(item);
+    } else {
+      cells.set(key, [item]);
+    }
+  });
+
+  return Array.from(cells.values(), toCluster);
+}
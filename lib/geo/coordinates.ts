@@ -0,0 +1,215 @@
+/**
+ * @file coordinates.ts
+ * @description 좌표 형식 판별 및 WGS84 변환
+ *
+ * 한국관광공사 API의 mapx(경도), mapy(위도)는 응답이나 데이터에 따라 형식이 다릅니다.
+ * 이 파일은 형식을 판별하여 지도에 표시할 WGS84 경위도로 변환합니다.
+ *
+ * 주요 기능:
+ * 1. 좌표 형식 판별 (detectCoordinateFormat)
+ *    - wgs84: 십진수 경위도 (예: 126.9779, 37.5665)
+ *    - wgs84Scaled: 경위도 × 10^7 정수 (예: 1269779000, 375665000)
+ *    - katec: KATEC(TM128) 평면 좌표 (예: 309947, 552092)
+ * 2. 좌표 변환 및 검증 (parseCoordinates, toLatLng)
+ * 3. 경위도 범위 ↔ URL 파라미터 문자열 (parseBoundsParam, formatBoundsParam)
+ *
+ * 핵심 구현 로직:
+ * - 형식마다 값의 크기가 달라 겹치지 않으므로, 각 형식으로 변환한 결과가 한국 범위(KOREA_BOUNDS)에 들어가는지로 판별합니다.
+ * - 변환할 수 없는 좌표는 기본 좌표(서울 등)로 바꾸지 않고 실패 결과(원인 포함)를 반환합니다.
+ *   호출하는 쪽에서 마커를 생략하거나 위치 정보 없음을 표시합니다.
+ *
+ * @dependencies
+ * - lib/geo/tm128.ts: katecToWgs84
+ */
+
+import { katecToWgs84 } from "./tm128";
+
+// =====================================================
+// 타입 정의
+// =====================================================
+
+/**
+ * WGS84 경위도
+ */
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * 경위도 범위 (남서쪽 ~ 북동쪽)
+ */
+export interface GeoBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+/**
+ * 좌표 형식
+ */
+export type CoordinateFormat = "wgs84" | "wgs84Scaled" | "katec";
+
+/**
+ * 좌표 변환 실패 원인
+ * - missing: 값이 없음
+ * - notNumber: 숫자가 아님
+ * - outOfRange: 어느 형식으로도 한국 범위를 벗어남
+ */
+export type CoordinateError = "missing" | "notNumber" | "outOfRange";
+
+/**
+ * 좌표 변환 결과
+ */
+export type CoordinateParseResult =
+  | { success: true; data: LatLng; format: CoordinateFormat }
+  | { success: false; error: CoordinateError; message: string };
+
+// =====================================================
+// 상수 정의
+// =====================================================
+
+/**
+ * 한국 좌표 범위 (마라도, 백령도, 독도, 강원 고성 포함)
+ */
+export const KOREA_BOUNDS: GeoBounds = { south: 33, west: 124, north: 39, east: 132 };
+
+const WGS84_SCALE = 10_000_000;
+
+/**
+ * 범위 URL 파라미터의 소수점 자릿수 (약 0.1m)
+ */
+const BOUNDS_PARAM_PRECISION = 6;
+
+const COORDINATE_ERROR_MESSAGES: Record<CoordinateError, string> = {
+  missing: "좌표 값이 없습니다.",
+  notNumber: "좌표 값이 숫자가 아닙니다.",
+  outOfRange: "좌표가 한국 범위를 벗어났습니다.",
+};
+
+// =====================================================
+// 형식 판별 및 변환
+// =====================================================
+
+function isInKorea({ lat, lng }: LatLng): boolean {
+  return (
+    lat >= KOREA_BOUNDS.south &&
+    lat <= KOREA_BOUNDS.north &&
+    lng >= KOREA_BOUNDS.west &&
+    lng <= KOREA_BOUNDS.east
+  );
+}
+
+/**
+ * 형식별 WGS84 변환 (판별 순서대로)
+ */
+const CONVERTERS: [CoordinateFormat, (x: number, y: number) => LatLng][] = [
+  ["wgs84", (x, y) => ({ lat: y, lng: x })],
+  ["wgs84Scaled", (x, y) => ({ lat: y / WGS84_SCALE, lng: x / WGS84_SCALE })],
+  ["katec", (x, y) => katecToWgs84(x, y)],
+];
+
+function convert(x: number, y: number): { data: LatLng; format: CoordinateFormat } | null {
+  for (const [format, converter] of CONVERTERS) {
+    // KATEC 평면 좌표는 양수이고 투영 원점에서 수백 km 이내
+    if (format === "katec" && (x <= 0 || y <= 0 || x > 2_000_000 || y > 2_000_000)) {
+      continue;
+    }
+    const data = converter(x, y);
+    if (isInKorea(data)) {
+      return { data, format };
+    }
+  }
+  return null;
+}
+
+function toNumber(value: string | number): number {
+  return typeof value === "number" ? value : value.trim() === "" ? NaN : Number(value);
+}
+
+/**
+ * 좌표 형식 판별
+ * @param x - mapx (경도 또는 TM128 X)
+ * @param y - mapy (위도 또는 TM128 Y)
+ * @returns 좌표 형식 (한국 범위의 좌표로 해석할 수 없으면 null)
+ */
+export function detectCoordinateFormat(x: number, y: number): CoordinateFormat | null {
+  return convert(x, y)?.format ?? null;
+}
+
+/**
+ * 좌표를 WGS84 경위도로 변환 (형식 자동 판별)
+ * @param mapx - 경도 또는 TM128 X (문자열 또는 숫자)
+ * @param mapy - 위도 또는 TM128 Y (문자열 또는 숫자)
+ * @returns 변환 결과 (실패 시 원인)
+ * @example
+ * const result = parseCoordinates(tour.mapx, tour.mapy);
+ * if (!result.success) console.warn(result.message);
+ */
+export function parseCoordinates(
+  mapx: string | number | undefined | null,
+  mapy: string | number | undefined | null,
+): CoordinateParseResult {
+  const fail = (error: CoordinateError): CoordinateParseResult => ({
+    success: false,
+    error,
+    message: COORDINATE_ERROR_MESSAGES[error],
+  });
+
+  if (mapx == null || mapy == null || mapx === "" || mapy === "") {
+    return fail("missing");
+  }
+
+  const x = toNumber(mapx);
+  const y = toNumber(mapy);
+  if (!Number.isFinite(x) || !Number.isFinite(y)) {
+    return fail("notNumber");
+  }
+
+  const converted = convert(x, y);
+  return converted ? { success: true, ...converted } : fail("outOfRange");
+}
+
+/**
+ * 좌표를 WGS84 경위도로 변환 (실패 원인이 필요 없는 경우)
+ * @returns WGS84 경위도 또는 null (변환할 수 없는 좌표)
+ */
+export function toLatLng(
+  mapx: string | number | undefined | null,
+  mapy: string | number | undefined | null,
+): LatLng | null {
+  const result = parseCoordinates(mapx, mapy);
+  return result.success ? result.data : null;
+}
+
+// =====================================================
+// 범위 URL 파라미터
+// =====================================================
+
+/**
+ * 경위도 범위 → URL 파라미터 문자열
+ * @returns "남,서,북,동" 형식 (예: "37.51,126.9,37.6,127.05")
+ */
+export function formatBoundsParam({ south, west, north, east }: GeoBounds): string {
+  return [south, west, north, east]
+    .map((value) => parseFloat(value.toFixed(BOUNDS_PARAM_PRECISION)))
+    .join(",");
+}
+
+/**
+ * URL 파라미터 문자열 → 경위도 범위
+ * @param value - "남,서,북,동" 형식 문자열
+ * @returns 경위도 범위 또는 null (형식이 다르거나 남쪽/서쪽 값이 북쪽/동쪽 값보다 크거나 같은 경우)
+ */
+export function parseBoundsParam(value?: string | null): GeoBounds | null {
+  const values = value ? value.split(",").map(toNumber) : [];
+  if (values.length !== 4 || !values.every(Number.isFinite)) {
+    return null;
+  }
+
+  const [south, west, north, east] = values;
+  const isValid =
+    south >= -90 && north <= 90 && west >= -180 && east <= 180 && south < north && west < east;
+  return isValid ? { south, west, north, east } : null;
+}
@@ -0,0 +1,141 @@
+/**
+ * @file measure.ts
+ * @description 좌표 간 거리, 범위, 중심 계산
+ *
+ * 주요 기능:
+ * 1. 두 좌표 사이의 직선 거리 (getDistance, Haversine 공식)
+ * 2. 좌표 목록의 경위도 범위 (getBounds) 및 포함 여부 (isInBounds), 범위를 덮는 반경 (getBoundsRadius)
+ * 3. 좌표 목록의 중심 (getCentroid) 및 범위의 중심 (getBoundsCenter)
+ *
+ * 모든 좌표는 WGS84 경위도입니다. 한국관광공사 API 좌표는 lib/geo/coordinates.ts로 먼저 변환합니다.
+ *
+ * @dependencies
+ * - lib/geo/coordinates.ts: LatLng, GeoBounds
+ */
+
+import type { GeoBounds, LatLng } from "./coordinates";
+
+// =====================================================
+// 상수 정의
+// =====================================================
+
+/**
+ * 지구 반지름 (미터)
+ */
+const EARTH_RADIUS = 6371000;
+
+const toRadians = (degree: number) => (degree * Math.PI) / 180;
+const toDegrees = (radian: number) => (radian * 180) / Math.PI;
+
+// =====================================================
+// 거리 계산
+// =====================================================
+
+/**
+ * 두 좌표 사이의 직선 거리 계산 (Haversine 공식)
+ *
+ * @param from - 시작 좌표
+ * @param to - 도착 좌표
+ * @returns 미터 단위 거리
+ */
+export function getDistance(from: LatLng, to: LatLng): number {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) *
+      Math.cos(toRadians(to.lat)) *
+      Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+// =====================================================
+// 범위
+// =====================================================
+
+/**
+ * 좌표 목록을 모두 포함하는 최소 경위도 범위
+ * @returns 범위 또는 null (좌표가 없는 경우)
+ */
+export function getBounds(points: LatLng[]): GeoBounds | null {
+  if (points.length === 0) {
+    return null;
+  }
+
+  return points.reduce<GeoBounds>(
+    (bounds, { lat, lng }) => ({
+      south: Math.min(bounds.south, lat),
+      west: Math.min(bounds.west, lng),
+      north: Math.max(bounds.north, lat),
+      east: Math.max(bounds.east, lng),
+    }),
+    { south: Infinity, west: Infinity, north: -Infinity, east: -Infinity },
+  );
+}
+
+/**
+ * 좌표가 범위 안에 있는지 확인 (경계 포함)
+ */
+export function isInBounds({ lat, lng }: LatLng, bounds: GeoBounds): boolean {
+  return lat >= bounds.south && lat <= bounds.north && lng >= bounds.west && lng <= bounds.east;
+}
+
+/**
+ * 범위의 중심 좌표
+ */
+export function getBoundsCenter(bounds: GeoBounds): LatLng {
+  return {
+    lat: (bounds.south + bounds.north) / 2,
+    lng: (bounds.west + bounds.east) / 2,
+  };
+}
+
+/**
+ * 범위의 중심에서 가장 먼 모서리까지의 거리
+ * 중심과 이 반경으로 만든 원은 범위 전체를 포함합니다. (위치 기반 조회용)
+ * @returns 미터 단위 거리
+ */
+export function getBoundsRadius(bounds: GeoBounds): number {
+  const center = getBoundsCenter(bounds);
+  const { south, west, north, east } = bounds;
+  return Math.max(
+    ...[
+      { lat: south, lng: west },
+      { lat: south, lng: east },
+      { lat: north, lng: west },
+      { lat: north, lng: east },
+    ].map((corner) => getDistance(center, corner)),
+  );
+}
+
+// =====================================================
+// 중심
+// =====================================================
+
+/**
+ * 좌표 목록의 중심 (구면 평균)
+ * 각 좌표를 단위 벡터로 바꿔 평균한 방향을 사용하므로 넓은 범위에서도 왜곡이 적습니다.
+ * @returns 중심 좌표 또는 null (좌표가 없는 경우)
+ */
+export function getCentroid(points: LatLng[]): LatLng | null {
+  if (points.length === 0) {
+    return null;
+  }
+
+  let x = 0;
+  let y = 0;
+  let z = 0;
+  points.forEach(({ lat, lng }) => {
+    const phi = toRadians(lat);
+    const lambda = toRadians(lng);
+    x += Math.cos(phi) * Math.cos(lambda);
+    y += Math.cos(phi) * Math.sin(lambda);
+    z += Math.sin(phi);
+  });
+
+  return {
+    lat: toDegrees(Math.atan2(z, Math.sqrt(x * x + y * y))),
+    lng: toDegrees(Math.atan2(y, x)),
+  };
+}
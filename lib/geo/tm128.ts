@@ -0,0 +1,234 @@
+/**
+ * @file tm128.ts
+ * @description KATEC(TM128) ↔ WGS84 좌표 변환
+ *
+ * KATEC(TM128)은 Bessel 1841 타원체 기반 횡메르카토르 좌표계입니다. (네이버 지역 검색 API 등의 mapx, mapy)
+ * 투영 변환(횡메르카토르)과 측지계 변환(Bessel → WGS84, 7변수 Helmert)을 함께 적용합니다.
+ *
+ * 핵심 구현 로직:
+ * - 투영 파라미터: 원점 38°N 128°E, 축척 0.9999, 가산값 (400000, 600000)
+ *   (proj4: +proj=tmerc +lat_0=38 +lon_0=128 +k=0.9999 +x_0=400000 +y_0=600000 +ellps=bessel)
+ * - 측지계 변환: +towgs84=-115.80,474.99,674.11,1.16,-2.31,-1.63,6.43 (Position Vector 방식)
+ * - 횡메르카토르 식은 Snyder, "Map Projections: A Working Manual" (1987) 8장을 따릅니다.
+ * - 변환 오차는 수 미터 이내입니다. (지도 마커 표시용)
+ *
+ * @dependencies
+ * - lib/geo/coordinates.ts: LatLng
+ */
+
+import type { LatLng } from "./coordinates";
+
+// =====================================================
+// 상수 정의
+// =====================================================
+
+interface Ellipsoid {
+  a: number; // 장반경 (m)
+  e2: number; // 제1이심률 제곱
+}
+
+function createEllipsoid(a: number, inverseFlattening: number): Ellipsoid {
+  const f = 1 / inverseFlattening;
+  return { a, e2: 2 * f - f * f };
+}
+
+const BESSEL = createEllipsoid(6377397.155, 299.1528128);
+const WGS84 = createEllipsoid(6378137, 298.257223563);
+
+const ORIGIN_LAT = 38;
+const ORIGIN_LNG = 128;
+const SCALE_FACTOR = 0.9999;
+const FALSE_EASTING = 400000;
+const FALSE_NORTHING = 600000;
+
+const ARC_SECOND = Math.PI / (180 * 3600);
+
+/**
+ * Bessel → WGS84 Helmert 변환 파라미터 (이동량 m, 회전 초, 축척 ppm)
+ */
+const TO_WGS84 = {
+  dx: -115.8,
+  dy: 474.99,
+  dz: 674.11,
+  rx: 1.16 * ARC_SECOND,
+  ry: -2.31 * ARC_SECOND,
+  rz: -1.63 * ARC_SECOND,
+  ds: 6.43e-6,
+};
+
+const toRadians = (degree: number) => (degree * Math.PI) / 180;
+const toDegrees = (radian: number) => (radian * 180) / Math.PI;
+
+// =====================================================
+// 횡메르카토르 투영 (Bessel 타원체)
+// =====================================================
+
+/**
+ * 적도에서 위도 phi까지의 자오선 호장 (m)
+ */
+function meridianArc({ a, e2 }: Ellipsoid, phi: number): number {
+  const e4 = e2 * e2;
+  const e6 = e4 * e2;
+  return (
+    a *
+    ((1 - e2 / 4 - (3 * e4) / 64 - (5 * e6) / 256) * phi -
+      ((3 * e2) / 8 + (3 * e4) / 32 + (45 * e6) / 1024) * Math.sin(2 * phi) +
+      ((15 * e4) / 256 + (45 * e6) / 1024) * Math.sin(4 * phi) -
+      ((35 * e6) / 3072) * Math.sin(6 * phi))
+  );
+}
+
+const ORIGIN_ARC = meridianArc(BESSEL, toRadians(ORIGIN_LAT));
+
+/**
+ * TM128 평면 좌표 → Bessel 경위도 (라디안)
+ */
+function inverseTransverseMercator(x: number, y: number): { phi: number; lambda: number } {
+  const { a, e2 } = BESSEL;
+  const e4 = e2 * e2;
+  const e6 = e4 * e2;
+  const ep2 = e2 / (1 - e2);
+
+  const arc = ORIGIN_ARC + (y - FALSE_NORTHING) / SCALE_FACTOR;
+  const mu = arc / (a * (1 - e2 / 4 - (3 * e4) / 64 - (5 * e6) / 256));
+  const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
+
+  // 근사 위도 (footpoint latitude)
+  const phi1 =
+    mu +
+    ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu) +
+    ((21 * e1 ** 2) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu) +
+    ((151 * e1 ** 3) / 96) * Math.sin(6 * mu) +
+    ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu);
+
+  const sinPhi1 = Math.sin(phi1);
+  const cosPhi1 = Math.cos(phi1);
+  const c1 = ep2 * cosPhi1 ** 2;
+  const t1 = Math.tan(phi1) ** 2;
+  const n1 = a / Math.sqrt(1 - e2 * sinPhi1 ** 2);
+  const r1 = (a * (1 - e2)) / (1 - e2 * sinPhi1 ** 2) ** 1.5;
+  const d = (x - FALSE_EASTING) / (n1 * SCALE_FACTOR);
+
+  const phi =
+    phi1 -
+    ((n1 * Math.tan(phi1)) / r1) *
+      (d ** 2 / 2 -
+        ((5 + 3 * t1 + 10 * c1 - 4 * c1 ** 2 - 9 * ep2) * d ** 4) / 24 +
+        ((61 + 90 * t1 + 298 * c1 + 45 * t1 ** 2 - 252 * ep2 - 3 * c1 ** 2) * d ** 6) / 720);
+  const lambda =
+    toRadians(ORIGIN_LNG) +
+    (d -
+      ((1 + 2 * t1 + c1) * d ** 3) / 6 +
+      ((5 - 2 * c1 + 28 * t1 - 3 * c1 ** 2 + 8 * ep2 + 24 * t1 ** 2) * d ** 5) / 120) /
+      cosPhi1;
+
+  return { phi, lambda };
+}
+
+/**
+ * Bessel 경위도 (라디안) → TM128 평면 좌표
+ */
+function transverseMercator(phi: number, lambda: number): { x: number; y: number } {
+  const { a, e2 } = BESSEL;
+  const ep2 = e2 / (1 - e2);
+
+  const sinPhi = Math.sin(phi);
+  const cosPhi = Math.cos(phi);
+  const n = a / Math.sqrt(1 - e2 * sinPhi ** 2);
+  const t = Math.tan(phi) ** 2;
+  const c = ep2 * cosPhi ** 2;
+  const A = (lambda - toRadians(ORIGIN_LNG)) * cosPhi;
+
+  const x =
+    FALSE_EASTING +
+    SCALE_FACTOR *
+      n *
+      (A + ((1 - t + c) * A ** 3) / 6 + ((5 - 18 * t + t ** 2 + 72 * c - 58 * ep2) * A ** 5) / 120);
+  const y =
+    FALSE_NORTHING +
+    SCALE_FACTOR *
+      (meridianArc(BESSEL, phi) -
+        ORIGIN_ARC +
+        n *
+          Math.tan(phi) *
+          (A ** 2 / 2 +
+            ((5 - t + 9 * c + 4 * c ** 2) * A ** 4) / 24 +
+            ((61 - 58 * t + t ** 2 + 600 * c - 330 * ep2) * A ** 6) / 720));
+
+  return { x, y };
+}
+
+// =====================================================
+// 측지계 변환 (Bessel ↔ WGS84)
+// =====================================================
+
+type Cartesian = [number, number, number];
+
+/**
+ * 경위도 (라디안, 타원체고 0) → 지심 직교 좌표
+ */
+function toCartesian({ a, e2 }: Ellipsoid, phi: number, lambda: number): Cartesian {
+  const n = a / Math.sqrt(1 - e2 * Math.sin(phi) ** 2);
+  return [
+    n * Math.cos(phi) * Math.cos(lambda),
+    n * Math.cos(phi) * Math.sin(lambda),
+    n * (1 - e2) * Math.sin(phi),
+  ];
+}
+
+/**
+ * 지심 직교 좌표 → 경위도 (라디안, 반복 계산)
+ */
+function fromCartesian({ a, e2 }: Ellipsoid, [x, y, z]: Cartesian): { phi: number; lambda: number } {
+  const p = Math.sqrt(x * x + y * y);
+  let phi = Math.atan2(z, p * (1 - e2));
+
+  for (let i = 0; i < 5; i++) {
+    const n = a / Math.sqrt(1 - e2 * Math.sin(phi) ** 2);
+    const h = p / Math.cos(phi) - n;
+    phi = Math.atan2(z, p * (1 - (e2 * n) / (n + h)));
+  }
+
+  return { phi, lambda: Math.atan2(y, x) };
+}
+
+/**
+ * 7변수 Helmert 변환 (direction: 1 = Bessel → WGS84, -1 = WGS84 → Bessel)
+ * 회전각이 매우 작으므로 역변환은 부호를 바꾼 파라미터로 근사합니다.
+ */
+function helmert([x, y, z]: Cartesian, direction: 1 | -1): Cartesian {
+  const { dx, dy, dz, rx, ry, rz, ds } = TO_WGS84;
+  const scale = 1 + direction * ds;
+  const [rX, rY, rZ] = [direction * rx, direction * ry, direction * rz];
+
+  return [
+    direction * dx + scale * (x - rZ * y + rY * z),
+    direction * dy + scale * (rZ * x + y - rX * z),
+    direction * dz + scale * (-rY * x + rX * y + z),
+  ];
+}
+
+// =====================================================
+// 좌표 변환
+// =====================================================
+
+/**
+ * KATEC(TM128) 좌표 → WGS84 경위도
+ * @param x - TM128 X (동쪽 방향, m)
+ * @param y - TM128 Y (북쪽 방향, m)
+ * @example katecToWgs84(309947, 552092) // 서울시청 부근 { lat: 37.566, lng: 126.978 }
+ */
+export function katecToWgs84(x: number, y: number): LatLng {
+  const bessel = inverseTransverseMercator(x, y);
+  const wgs84 = fromCartesian(WGS84, helmert(toCartesian(BESSEL, bessel.phi, bessel.lambda), 1));
+  return { lat: toDegrees(wgs84.phi), lng: toDegrees(wgs84.lambda) };
+}
+
+/**
+ * WGS84 경위도 → KATEC(TM128) 좌표
+ * @returns TM128 좌표 (m)
+ */
+export function wgs84ToKatec({ lat, lng }: LatLng): { x: number; y: number } {
+  const bessel = fromCartesian(BESSEL, helmert(toCartesian(WGS84, toRadians(lat), toRadians(lng)), -1));
+  return transverseMercator(bessel.phi, bessel.lambda);
+}
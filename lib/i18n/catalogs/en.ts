@@ -0,0 +1,497 @@
+/**
+ * @file en.ts
+ * @description 영어 메시지 카탈로그 (구조는 ko.ts 기준)
+ */
+
+import type { MessageCatalog } from "./ko";
+
+export const en: MessageCatalog = {
+  metadata: {
+    title: "My Trip - Korea Travel Guide",
+    description: "Search tourist attractions across Korea, explore them on the map and view details.",
+    keywords: "attractions, travel, Korea, tourism information, map",
+  },
+  nav: {
+    home: "Home",
+    festivals: "Festivals",
+    stats: "Stats",
+    bookmarks: "Bookmarks",
+    signIn: "Sign in",
+    language: "Language",
+  },
+  home: {
+    title: "Attractions in Korea",
+    description: "Browse tourist information provided by the Korea Tourism Organization.",
+    nearbyTitle: "Attractions Near You",
+    nearbyDescription: "See attractions sorted by distance from your location.",
+    areaTitle: "Attractions in this area",
+    areaDescription: "See attractions in the visible map area, sorted by distance from the map center.",
+    stayTitle: "Find a Stay",
+    stayDescription: "Find accommodation by region, parking and check-in time.",
+    searchTitle: "Results for \"{keyword}\"",
+    searchDescription: "Check out the search results.",
+    empty: "No attractions to show.",
+    mapError: "The map could not be loaded.",
+    listErrorTitle: "Unable to load data",
+    listErrorMessage: "Something went wrong while loading attractions.",
+    totalCount: "{count, plural, one {# attraction} other {# attractions}} found.",
+    listAndMap: "Attraction list and map",
+  },
+  festivals: {
+    title: "Festival Calendar",
+    description: "Find festivals and events across Korea that fit your travel dates.",
+    listHeading: "Festivals ({count, plural, one {# event} other {# events}})",
+    errorTitle: "Unable to load festivals",
+    errorMessage: "Something went wrong while loading festivals.",
+    statusOngoing: "Ongoing",
+    statusUpcoming: "Upcoming",
+    statusEnded: "Ended",
+    weekdaySun: "Sun",
+    weekdayMon: "Mon",
+    weekdayTue: "Tue",
+    weekdayWed: "Wed",
+    weekdayThu: "Thu",
+    weekdayFri: "Fri",
+    weekdaySat: "Sat",
+    weekdayFull: "{weekday}",
+    weekCalendar: "Weekly festival calendar",
+    monthCalendar: "Monthly festival calendar",
+    dayLabel: "{month}/{day}, {count, plural, one {# event} other {# events}}",
+    moreEvents: "+{count, number} more",
+    empty: "No festivals during this period.",
+    listLabel: "Festival list",
+    periodListLabel: "Festivals in this period",
+    filtersLabel: "Festival calendar filters",
+    previousWeek: "Previous week",
+    previousMonth: "Previous month",
+    nextWeek: "Next week",
+    nextMonth: "Next month",
+    today: "Today",
+    viewMode: "View",
+    month: "Month",
+    week: "Week",
+    status: "Status",
+  },
+  place: {
+    backToList: "Back to list",
+    notTranslatedTitle: "No translated information",
+    notTranslatedMessage: "This attraction is not available in the selected language.",
+    title: "Attraction details",
+    loadFailed: "Couldn't load the attraction details.",
+    metaDescription: "See details for {title}.",
+    loadError: "Something went wrong while loading the attraction details.",
+    navigation: "Navigation",
+    backToListLabel: "Back to the list",
+  },
+  filters: {
+    contentType: "Type",
+    allTypes: "All",
+    selectedTypes: "{count, number} selected",
+    selectedCount: "{count, number} selected",
+    clearTypes: "Clear all",
+    clearTypesLabel: "Clear all selected types",
+    popularSortUnavailable: "Sorting by popularity is not available because the tourism API does not provide view counts.",
+    label: "Attraction filters",
+    area: "Region",
+    sigungu: "District",
+    stay: "Stay",
+    staySearch: "Search stays",
+    staySearchClear: "Exit stay search",
+    stayConditions: "Stay options",
+    parking: "Parking available",
+    checkInTime: "Check-in time",
+    checkInBefore: "Check-in by {time}",
+    anyTime: "Any time",
+    beforeTime: "By {time}",
+    sort: "Sort",
+    imageOnly: "Only with images",
+    categoryLabel: "Category filters",
+    cat1: "Category",
+    cat2: "Subcategory",
+    cat3: "Detail",
+    categorySelected: "Selected",
+  },
+  contentType: {
+    "12": "Attraction",
+    "14": "Culture",
+    "15": "Festival/Event",
+    "25": "Travel Course",
+    "28": "Leisure Sports",
+    "32": "Accommodation",
+    "38": "Shopping",
+    "39": "Restaurant",
+    other: "Other",
+  },
+  area: {
+    "1": "Seoul",
+    "2": "Incheon",
+    "3": "Daejeon",
+    "4": "Daegu",
+    "5": "Gwangju",
+    "6": "Busan",
+    "7": "Ulsan",
+    "8": "Sejong",
+    "31": "Gyeonggi",
+    "32": "Gangwon",
+    "33": "Chungbuk",
+    "34": "Chungnam",
+    "35": "Gyeongbuk",
+    "36": "Gyeongnam",
+    "37": "Jeonbuk",
+    "38": "Jeonnam",
+    "39": "Jeju",
+  },
+  tourApiError: {
+    serviceConfig: "There is a problem with the service configuration. Please try again later.",
+    keyExpired: "The tourism data service period has expired. Please contact the administrator.",
+    keySuspended: "The tourism data service is temporarily suspended. Please try again later.",
+    accessDenied: "The tourism data service cannot be accessed. Please contact the administrator.",
+    network: "Please check your internet connection and try again.",
+    timeout: "The server is taking too long to respond. Please try again later.",
+    notFound: "The requested information could not be found.",
+    tooManyRequests: "Too many requests. Please try again later.",
+    server: "A server error occurred. Please try again later.",
+    http: "An error occurred while processing the request.",
+    api: "An error occurred while loading tourist information.",
+    invalidRequest: "The request is invalid. Please check your search conditions.",
+    noData: "No tourist information matches your conditions.",
+    serviceUnavailable: "The tourism data provider is temporarily unavailable. Please try again later.",
+    parse: "An error occurred while processing the data.",
+    quotaExceeded: "Today's tourist information lookup limit has been reached. Please try again later.",
+    unknown: "Something went wrong. Please try again later.",
+  },
+  errorPage: {
+    label: "Error page",
+    titleConfig: "Configuration error",
+    titleNetwork: "Network error",
+    titleTimeout: "Request timed out",
+    titleServer: "Server error",
+    titleData: "Data error",
+    titleInput: "Invalid input",
+    titleQuota: "Usage limit reached",
+    titleUnknown: "Error",
+    title: "Something went wrong",
+    retry: "Try again",
+    reload: "Reload",
+    goHome: "Back to home",
+    devInfo: "Developer details (development only)",
+    devMessage: "Error message:",
+    devStack: "Stack trace:",
+    authConfig: "There is a problem with the authentication service configuration.",
+    toastConfig: "There is a problem with the notification service configuration.",
+    database: "There is a problem connecting to the database.",
+    initFailed: "An error occurred while starting the application.",
+  },
+  notFound: {
+    label: "Page not found",
+    title: "Page not found",
+    description: "The page you requested does not exist or may have been moved.",
+    hint: "Check the URL or go back home and try again.",
+    search: "Search attractions",
+    linksTitle: "Try one of these pages:",
+    linksLabel: "Useful links",
+  },
+  location: {
+    errorTitle: "Location error",
+    unsupportedTitle: "Location is not available",
+    unsupportedMessage: "This browser does not support geolocation.",
+    permissionDenied: "Permission to use your location was denied.",
+    unavailable: "Your location is not available.",
+    timeout: "The location request timed out.",
+    unknown: "Your location could not be determined.",
+    mapNotReadyTitle: "The map could not be loaded",
+    mapNotReadyMessage: "The map has not finished loading yet.",
+    movedTitle: "Moved to your location",
+    movedNearby: "Loading attractions around your location.",
+    movedMap: "The map has moved to your location.",
+  },
+  map: {
+    clusterLabel: "{count, plural, one {# attraction} other {# attractions}} (click to zoom in)",
+    searchArea: "Search this area",
+    zoomInToSearchArea: "Zoom in to search this area",
+    missingKey: "The Naver Maps API key is not configured.",
+    loadFailed: "Couldn't load the Naver Maps API.",
+    scriptError: "An error occurred while loading the Naver Maps script.",
+    initFailed: "Couldn't initialize the map.",
+    loading: "Loading map...",
+    naverMap: "Naver map",
+    detail: "Details",
+    currentLocation: "Current location",
+    controls: "Map controls",
+    toSatellite: "Switch to satellite view",
+    toNormal: "Switch to standard map",
+    moveToCurrentLocation: "Go to current location",
+  },
+  stats: {
+    partialTitle: "Showing partial statistics",
+    partialMessage: "Statistics for {count, plural, one {# item} other {# items}} could not be collected. Please check again later.",
+    unavailableTitle: "Statistics are temporarily unavailable",
+    unavailableMessage: "Statistics collection is paused because of heavy tourism data usage today. Attraction lists and details are still available.",
+    title: "Statistics dashboard",
+    description: "See nationwide attraction data at a glance in charts.",
+    dataLabel: "Statistics data",
+    summaryLabel: "Statistics summary",
+    summaryLoading: "Loading statistics summary",
+    totalLabel: "All attractions",
+    totalCount: "{count, plural, one {# attraction} other {# attractions}} in total",
+    unit: "attractions",
+    topRegions: "Top 3 regions",
+    topRegionsLabel: "Top 3 regions",
+    topTypes: "Top 3 types",
+    topTypesLabel: "Top 3 types",
+    rankLabel: "#{rank}: {name}, {count, number}",
+    noData: "No data",
+    lastUpdated: "Last updated",
+    lastUpdatedLabel: "Last updated: {date}",
+    countLabel: "Attractions",
+    countValue: "{count, number}",
+    countWithRatio: "{count, number} ({percentage}%)",
+    chartEmpty: "No data available.",
+    chartLabel: "{title} chart",
+    regionTitle: "Attractions by region",
+    sigunguTitle: "Attractions by district in {region}",
+    regionDescription: "Shows attraction counts for the top 10 regions. Click a bar to see the breakdown by district.",
+    sigunguDescription: "Shows attraction counts for the top 10 districts. Click a bar to open that district's list.",
+    nationwide: "View nationwide",
+    regionListLink: "View attractions in {region}",
+    barLabel: "{name}: {count, plural, one {# attraction} other {# attractions}}",
+    regionTableLabel: "Attraction counts by region",
+    regionName: "Region",
+    regionLoading: "Loading attractions by region chart",
+    typeTitle: "Attractions by type",
+    typeDescription: "Shows the share of each of the {count, number} attraction types.",
+    typeTableLabel: "Attraction counts by type",
+    typeName: "Type",
+    ratio: "Share",
+    typeLoading: "Loading attractions by type chart",
+  },
+  common: {
+    all: "All",
+    loading: "Loading...",
+    retry: "Try again",
+    noImage: "No image",
+    cancel: "Cancel",
+    copied: "Copied",
+    copy: "Copy",
+    pageTitle: "Page title",
+    filters: "Filters",
+    search: "Search",
+    close: "Close",
+    errorMessage: "Something went wrong. Please try again shortly.",
+  },
+  sort: {
+    latest: "Latest",
+    name: "Name",
+    created: "Newly added",
+  },
+  tourList: {
+    loadMoreFailed: "Couldn't load more attractions.",
+    label: "Attractions",
+    loading: "Loading attractions",
+    emptyLabel: "No attractions",
+    empty: "No attractions found.",
+    emptyHint: "Try adjusting the filters or searching for something else.",
+    loadingMoreLabel: "Loading more attractions",
+    loadingMore: "Loading more attractions...",
+    pagination: "Attraction list pages",
+  },
+  tourCard: {
+    label: "View {title} - {type}, {address}",
+    labelWithDistance: "View {title} - {type}, {address}, {distance} away",
+    thumbnail: "{title} thumbnail",
+    checkInOut: "Check-in {checkIn} · Check-out {checkOut}",
+    parkingAvailable: "Parking",
+    parkingUnavailable: "No parking",
+    roomCount: "{count, plural, one {# room} other {# rooms}}",
+    rooms: "Rooms: {rooms}",
+    categories: "Categories",
+  },
+  search: {
+    label: "Search attractions",
+    placeholder: "Search by name, address or description...",
+    input: "Search keyword",
+    clear: "Clear search",
+    submitLabel: "Run search",
+    submit: "Search",
+  },
+  nearby: {
+    label: "Nearby search",
+    relocate: "Find my location again",
+    locate: "Show attractions near me",
+    button: "Near me",
+    radius: "Search radius",
+    clearLabel: "Turn off nearby mode",
+    clear: "Clear",
+  },
+  mobileTabs: {
+    label: "Switch between list and map",
+    list: "List",
+    map: "Map",
+  },
+  bookmark: {
+    removed: "Bookmark removed.",
+    added: "Added to bookmarks.",
+    toggleFailed: "Couldn't update the bookmark. Please try again.",
+    loading: "Loading bookmark status",
+    remove: "Remove bookmark",
+    add: "Add bookmark",
+    bookmarked: "Bookmarked",
+    bookmark: "Bookmark",
+  },
+  bookmarkList: {
+    signInRequired: "Sign-in required",
+    signInToDelete: "Please sign in to delete bookmarks.",
+    deletedTitle: "Bookmarks deleted",
+    deleted: "The bookmark was deleted.",
+    deletedCount: "{count, plural, one {# bookmark was} other {# bookmarks were}} deleted.",
+    deleteFailedTitle: "Delete failed",
+    deleteFailed: "Couldn't delete the bookmark. Please try again.",
+    batchDeleteFailed: "Some bookmarks couldn't be deleted. Please try again.",
+    empty: "No bookmarks yet",
+    emptyHint: "Bookmark attractions you like to find them again easily.",
+    browse: "Browse attractions",
+    sort: "Sort:",
+    sortBy: "Sort by {label}",
+    sortRegion: "Region",
+    deleteSelected: "Delete selected ({count, number})",
+    selectMode: "Select",
+    select: "Select {title}",
+    deleteItem: "Delete bookmark for {title}",
+    selectAll: "Select all",
+    selectAllCount: "Select all ({selected, number}/{total, number})",
+    deleteDialogTitle: "Delete bookmarks",
+    deleteConfirm: "Delete {count, plural, one {# bookmark} other {# bookmarks}}?",
+    deleteIrreversible: "This can't be undone.",
+    deleting: "Deleting...",
+    delete: "Delete",
+  },
+  bookmarksPage: {
+    label: "Bookmarks page",
+    title: "My bookmarks",
+    description: "View and manage the attractions you saved.",
+    loadFailed: "Couldn't load your bookmarks.",
+    userNotSynced: "Your account hasn't finished syncing. Please try again shortly.",
+    failedExcluded: "{count, plural, one {# bookmark was} other {# bookmarks were}} left out because the attraction details couldn't be loaded.",
+  },
+  share: {
+    noUrl: "Couldn't get the page URL.",
+    copied: "Link copied.",
+    copyFailedBrowser: "Couldn't copy the link. Please check your browser settings.",
+    copyFailed: "Couldn't copy the link.",
+    copiedLabel: "Link copied",
+    label: "Share link",
+    button: "Share",
+  },
+  detailInfo: {
+    addressCopied: "Address copied.",
+    label: "Basic information",
+    address: "Address",
+    copyAddress: "Copy address",
+    tel: "Phone",
+    call: "Call {tel}",
+    homepage: "Website",
+    openHomepage: "Open the {title} website (new window)",
+    overview: "Overview",
+  },
+  detailMap: {
+    coordinatesValue: "Latitude: {lat}, Longitude: {lng}",
+    coordinatesCopied: "Coordinates copied.",
+    courseTitle: "Course map",
+    title: "Location",
+    invalidCoordinates: "The map can't be shown because the location data is invalid.",
+    directions: "Directions",
+    courseStops: "Course route ({count, plural, one {# stop} other {# stops}})",
+    totalDistance: "Total straight-line distance {distance}",
+    courseStopsLabel: "Course stops",
+    segmentDistance: "{distance} in a straight line from the previous stop",
+    focusStop: "Show stop {order, number}, {title}, on the map",
+    coordinates: "Coordinates",
+    copyCoordinates: "Copy coordinates",
+  },
+  gallery: {
+    defaultTitle: "Attraction",
+    title: "Image gallery",
+    empty: "No images",
+    openFullscreen: "View {title} image {index, number} (full screen)",
+    imageAlt: "{title} image {index, number}",
+    loadFailed: "Couldn't load the image",
+    previous: "Previous image",
+    next: "Next image",
+    thumbnails: "Image thumbnails",
+    selectImage: "Select {title} image {index, number}",
+    thumbnailAlt: "{title} thumbnail {index, number}",
+    fullscreen: "Full-screen image view",
+    close: "Close",
+  },
+  detailInfoRepeat: {
+    fee: "₩{fee, number}",
+    sizePyeong: "{size} pyeong",
+    capacityRange: "{base, number} standard / {max, number} max",
+    capacity: "{count, plural, one {# person} other {# people}}",
+    course: "Course route",
+    roomList: "Room list",
+    roomName: "Room",
+    roomSize: "Size",
+    roomCapacity: "Guests",
+    roomFee: "Rate (weekday minimum)",
+    offSeason: "Off-season {fee}",
+    peakSeason: "Peak season {fee}",
+    inquire: "Contact for rates",
+    rooms: "Rooms",
+    general: "Visitor information",
+  },
+  detailIntro: {
+    usetime: "Hours",
+    restdate: "Closed",
+    infocenter: "Contact",
+    parking: "Parking",
+    chkpet: "Pets allowed",
+    expguide: "Experience programs",
+    expagerange: "Eligible ages",
+    usefee: "Admission",
+    usetimeculture: "Viewing hours",
+    restdateculture: "Closed",
+    playtime: "Show times",
+    eventplace: "Venue",
+    eventhomepage: "Event website",
+    openperiod: "Open season",
+    reservation: "Reservations",
+    checkintime: "Check-in",
+    checkouttime: "Check-out",
+    roomcount: "Rooms",
+    firstmenu: "Signature dishes",
+    treatmenu: "Menu",
+    opentimefood: "Opening hours",
+    title: "Visitor information",
+    openLink: "Open {label} (new window)",
+  },
+  petTour: {
+    chkpetleash: "Pet policy",
+    chkpetsize: "Size limit",
+    chkpetplace: "Allowed areas",
+    chkpetfee: "Extra fee",
+    petinfo: "Other pet information",
+    parking: "Parking",
+    allowed: "Pets allowed",
+    notAllowed: "No pets allowed",
+    small: "Small dogs allowed",
+    medium: "Medium dogs allowed",
+    large: "Large dogs allowed",
+    title: "Traveling with pets",
+    notAllowedMessage: "Pets aren't allowed at this attraction. Please visit without your pet.",
+  },
+  recommendations: {
+    label: "Recommended attractions",
+    title: "You might also like",
+    description: "Attractions in the same area or of a similar type.",
+    list: "Recommended attraction list",
+  },
+  pagination: {
+    label: "Pagination",
+    previousPage: "Previous page",
+    previous: "Previous",
+    goToPage: "Go to page {page}",
+    nextPage: "Next page",
+    next: "Next",
+  },
+};
@@ -0,0 +1,497 @@
+/**
+ * @file ja.ts
+ * @description 일본어 메시지 카탈로그 (구조는 ko.ts 기준)
+ */
+
+import type { MessageCatalog } from "./ko";
+
+export const ja: MessageCatalog = {
+  metadata: {
+    title: "My Trip - 韓国観光情報",
+    description: "韓国全国の観光地を検索し、地図で確認して詳細情報を閲覧できるサービス",
+    keywords: "観光地, 旅行, 韓国, 観光情報, 地図",
+  },
+  nav: {
+    home: "ホーム",
+    festivals: "祭り",
+    stats: "統計",
+    bookmarks: "ブックマーク",
+    signIn: "ログイン",
+    language: "言語",
+  },
+  home: {
+    title: "韓国の観光地",
+    description: "韓国観光公社が提供する全国の観光情報をご覧ください。",
+    nearbyTitle: "周辺の観光地",
+    nearbyDescription: "現在地から近い順に観光地を表示します。",
+    areaTitle: "このエリアの観光地",
+    areaDescription: "地図に表示されているエリアの観光地を地図の中心から近い順に表示します。",
+    stayTitle: "宿泊検索",
+    stayDescription: "地域、駐車場、チェックイン時刻の条件で宿泊施設を探せます。",
+    searchTitle: "「{keyword}」の検索結果",
+    searchDescription: "検索結果をご確認ください。",
+    empty: "表示する観光地がありません。",
+    mapError: "地図を読み込めません。",
+    listErrorTitle: "データを読み込めません",
+    listErrorMessage: "観光地一覧の読み込み中に問題が発生しました。",
+    totalCount: "全{count, number}件の観光地があります。",
+    listAndMap: "観光地一覧と地図",
+  },
+  festivals: {
+    title: "祭りカレンダー",
+    description: "旅行日程に合わせて韓国各地の祭りやイベントをご確認ください。",
+    listHeading: "祭り一覧（{count, number}件）",
+    errorTitle: "祭り情報を読み込めません",
+    errorMessage: "祭り情報の読み込み中に問題が発生しました。",
+    statusOngoing: "開催中",
+    statusUpcoming: "開催予定",
+    statusEnded: "終了",
+    weekdaySun: "日",
+    weekdayMon: "月",
+    weekdayTue: "火",
+    weekdayWed: "水",
+    weekdayThu: "木",
+    weekdayFri: "金",
+    weekdaySat: "土",
+    weekdayFull: "{weekday}曜日",
+    weekCalendar: "週間フェスティバルカレンダー",
+    monthCalendar: "月間フェスティバルカレンダー",
+    dayLabel: "{month}月{day}日、イベント{count, number}件",
+    moreEvents: "+{count, number}件",
+    empty: "この期間に開催されるフェスティバルはありません。",
+    listLabel: "フェスティバル一覧",
+    periodListLabel: "期間内のフェスティバル一覧",
+    filtersLabel: "フェスティバルカレンダーのフィルター",
+    previousWeek: "前の週",
+    previousMonth: "前の月",
+    nextWeek: "次の週",
+    nextMonth: "次の月",
+    today: "今日",
+    viewMode: "表示方法",
+    month: "月間",
+    week: "週間",
+    status: "開催状況",
+  },
+  place: {
+    backToList: "一覧へ",
+    notTranslatedTitle: "翻訳された観光地情報がありません",
+    notTranslatedMessage: "選択した言語で提供されている同じ観光地情報が見つかりません。",
+    title: "観光地の詳細情報",
+    loadFailed: "観光地の詳細情報を読み込めませんでした。",
+    metaDescription: "{title}の詳細情報をご覧ください。",
+    loadError: "観光地の詳細情報の読み込み中に問題が発生しました。",
+    navigation: "ナビゲーション",
+    backToListLabel: "一覧に戻る",
+  },
+  filters: {
+    contentType: "観光タイプ",
+    allTypes: "すべて",
+    selectedTypes: "{count, number}件選択",
+    selectedCount: "{count, number}件選択中",
+    clearTypes: "すべて解除",
+    clearTypesLabel: "すべてのタイプの選択を解除",
+    popularSortUnavailable: "観光情報APIが閲覧数を提供していないため、人気順の並べ替えには対応していません。",
+    label: "観光地フィルター",
+    area: "地域",
+    sigungu: "市区町村",
+    stay: "宿泊",
+    staySearch: "宿泊検索",
+    staySearchClear: "宿泊検索を解除",
+    stayConditions: "宿泊条件",
+    parking: "駐車可",
+    checkInTime: "チェックイン時刻",
+    checkInBefore: "{time}までにチェックイン",
+    anyTime: "指定なし",
+    beforeTime: "{time}まで",
+    sort: "並べ替え",
+    imageOnly: "画像ありのみ表示",
+    categoryLabel: "分類フィルター",
+    cat1: "大分類",
+    cat2: "中分類",
+    cat3: "小分類",
+    categorySelected: "選択済み",
+  },
+  contentType: {
+    "12": "観光地",
+    "14": "文化施設",
+    "15": "祭り/イベント",
+    "25": "旅行コース",
+    "28": "レジャー",
+    "32": "宿泊",
+    "38": "ショッピング",
+    "39": "飲食店",
+    other: "その他",
+  },
+  area: {
+    "1": "ソウル",
+    "2": "仁川",
+    "3": "大田",
+    "4": "大邱",
+    "5": "光州",
+    "6": "釜山",
+    "7": "蔚山",
+    "8": "世宗",
+    "31": "京畿",
+    "32": "江原",
+    "33": "忠北",
+    "34": "忠南",
+    "35": "慶北",
+    "36": "慶南",
+    "37": "全北",
+    "38": "全南",
+    "39": "済州",
+  },
+  tourApiError: {
+    serviceConfig: "サービス設定に問題があります。しばらくしてから再度お試しください。",
+    keyExpired: "観光情報サービスの利用期間が終了しました。管理者にお問い合わせください。",
+    keySuspended: "観光情報サービスの利用が一時停止されています。しばらくしてから再度お試しください。",
+    accessDenied: "観光情報サービスにアクセスできません。管理者にお問い合わせください。",
+    network: "インターネット接続を確認して、しばらくしてから再度お試しください。",
+    timeout: "サーバーの応答が遅れています。しばらくしてから再度お試しください。",
+    notFound: "リクエストされた情報が見つかりません。",
+    tooManyRequests: "リクエストが多すぎます。しばらくしてから再度お試しください。",
+    server: "サーバーで問題が発生しました。しばらくしてから再度お試しください。",
+    http: "リクエストの処理中にエラーが発生しました。",
+    api: "観光地情報の読み込み中にエラーが発生しました。",
+    invalidRequest: "リクエスト内容が正しくありません。検索条件をご確認ください。",
+    noData: "条件に一致する観光情報がありません。",
+    serviceUnavailable: "観光情報提供サービスに一時的な障害があります。しばらくしてから再度お試しください。",
+    parse: "データ処理中にエラーが発生しました。",
+    quotaExceeded: "本日利用できる観光情報の照会回数を超えました。しばらくしてから再度お試しください。",
+    unknown: "エラーが発生しました。しばらくしてから再度お試しください。",
+  },
+  errorPage: {
+    label: "エラーページ",
+    titleConfig: "設定エラー",
+    titleNetwork: "ネットワークエラー",
+    titleTimeout: "タイムアウト",
+    titleServer: "サーバーエラー",
+    titleData: "データ取得エラー",
+    titleInput: "入力エラー",
+    titleQuota: "利用上限超過",
+    titleUnknown: "エラー",
+    title: "エラーが発生しました",
+    retry: "再試行",
+    reload: "再読み込み",
+    goHome: "ホームに戻る",
+    devInfo: "開発者情報（開発環境のみ表示）",
+    devMessage: "エラーメッセージ：",
+    devStack: "スタックトレース：",
+    authConfig: "認証サービスの設定に問題があります。",
+    toastConfig: "通知サービスの設定に問題があります。",
+    database: "データベース接続に問題があります。",
+    initFailed: "アプリケーションの初期化中にエラーが発生しました。",
+  },
+  notFound: {
+    label: "ページが見つかりません",
+    title: "ページが見つかりません",
+    description: "お探しのページは存在しないか、移動した可能性があります。",
+    hint: "URLをご確認いただくか、ホームに戻って再度お試しください。",
+    search: "観光地を検索",
+    linksTitle: "次のページをご覧ください：",
+    linksLabel: "お役立ちリンク",
+  },
+  location: {
+    errorTitle: "位置情報エラー",
+    unsupportedTitle: "位置情報を利用できません",
+    unsupportedMessage: "このブラウザは位置情報機能に対応していません。",
+    permissionDenied: "位置情報の利用が許可されていません。",
+    unavailable: "位置情報を利用できません。",
+    timeout: "位置情報の取得がタイムアウトしました。",
+    unknown: "位置情報を取得できません。",
+    mapNotReadyTitle: "地図を読み込めません",
+    mapNotReadyMessage: "地図の読み込みが完了していません。",
+    movedTitle: "現在地に移動しました",
+    movedNearby: "現在地周辺の観光地を読み込みます。",
+    movedMap: "地図を現在地に移動しました。",
+  },
+  map: {
+    clusterLabel: "観光地 {count, number}件 (クリックで拡大)",
+    searchArea: "このエリアを検索",
+    zoomInToSearchArea: "地図を拡大するとこのエリアを検索できます",
+    missingKey: "NAVER地図のAPIキーが設定されていません。",
+    loadFailed: "NAVER地図APIを読み込めませんでした。",
+    scriptError: "NAVER地図のスクリプト読み込み中にエラーが発生しました。",
+    initFailed: "地図を初期化できませんでした。",
+    loading: "地図を読み込み中...",
+    naverMap: "NAVER地図",
+    detail: "詳細を見る",
+    currentLocation: "現在地",
+    controls: "地図コントロール",
+    toSatellite: "航空写真に切り替え",
+    toNormal: "通常の地図に切り替え",
+    moveToCurrentLocation: "現在地へ移動",
+  },
+  stats: {
+    partialTitle: "一部の統計のみ表示しています",
+    partialMessage: "{count, number}件の項目の統計を取得できませんでした。しばらくしてから再度ご確認ください。",
+    unavailableTitle: "統計を一時的に表示できません",
+    unavailableMessage: "本日は観光情報の照会が多いため、統計の収集を一時停止しました。観光地一覧と詳細情報は引き続きご利用いただけます。",
+    title: "統計ダッシュボード",
+    description: "全国の観光地データをグラフで一目で把握できます。",
+    dataLabel: "統計データ",
+    summaryLabel: "統計の概要",
+    summaryLoading: "統計の概要を読み込み中",
+    totalLabel: "全観光地",
+    totalCount: "全観光地 {count, number}件",
+    unit: "件",
+    topRegions: "トップ3地域",
+    topRegionsLabel: "上位3地域",
+    topTypes: "トップ3タイプ",
+    topTypesLabel: "上位3タイプ",
+    rankLabel: "{rank}位: {name} {count, number}件",
+    noData: "データなし",
+    lastUpdated: "最終更新",
+    lastUpdatedLabel: "最終更新: {date}",
+    countLabel: "観光地数",
+    countValue: "{count, number}件",
+    countWithRatio: "{count, number}件 ({percentage}%)",
+    chartEmpty: "データがありません。",
+    chartLabel: "{title}グラフ",
+    regionTitle: "地域別の観光地分布",
+    sigunguTitle: "{region}の市郡区別観光地分布",
+    regionDescription: "上位10地域の観光地数を表示します。バーをクリックすると市郡区別の分布を確認できます。",
+    sigunguDescription: "上位10市郡区の観光地数を表示します。バーをクリックするとその市郡区の一覧に移動します。",
+    nationwide: "全国を見る",
+    regionListLink: "{region}の観光地一覧を見る",
+    barLabel: "{name}: 観光地{count, number}件",
+    regionTableLabel: "地域別の観光地数データ",
+    regionName: "地域名",
+    regionLoading: "地域別の観光地分布グラフを読み込み中",
+    typeTitle: "タイプ別の観光地分布",
+    typeDescription: "{count, number}種類の観光タイプ別の割合を表示します。",
+    typeTableLabel: "タイプ別の観光地数データ",
+    typeName: "タイプ名",
+    ratio: "割合",
+    typeLoading: "タイプ別の観光地分布グラフを読み込み中",
+  },
+  common: {
+    all: "すべて",
+    loading: "読み込み中...",
+    retry: "再試行",
+    noImage: "画像なし",
+    cancel: "キャンセル",
+    copied: "コピー済み",
+    copy: "コピー",
+    pageTitle: "ページタイトル",
+    filters: "フィルター",
+    search: "検索",
+    close: "閉じる",
+    errorMessage: "エラーが発生しました。しばらくしてからもう一度お試しください。",
+  },
+  sort: {
+    latest: "新着順",
+    name: "名前順",
+    created: "登録順",
+  },
+  tourList: {
+    loadMoreFailed: "観光地をさらに読み込めませんでした。",
+    label: "観光地一覧",
+    loading: "観光地一覧を読み込み中",
+    emptyLabel: "観光地なし",
+    empty: "観光地がありません。",
+    emptyHint: "フィルターを調整するか、別のキーワードでお試しください。",
+    loadingMoreLabel: "観光地を追加で読み込み中",
+    loadingMore: "さらに観光地を読み込んでいます...",
+    pagination: "観光地一覧のページ",
+  },
+  tourCard: {
+    label: "{title}の詳細 - {type}、{address}",
+    labelWithDistance: "{title}の詳細 - {type}、{address}、{distance}先",
+    thumbnail: "{title}のサムネイル画像",
+    checkInOut: "チェックイン {checkIn} · チェックアウト {checkOut}",
+    parkingAvailable: "駐車可",
+    parkingUnavailable: "駐車不可",
+    roomCount: "客室 {count, number}室",
+    rooms: "客室 {rooms}",
+    categories: "分類",
+  },
+  search: {
+    label: "観光地検索",
+    placeholder: "名称・住所・説明で検索...",
+    input: "検索キーワード",
+    clear: "検索キーワードを消去",
+    submitLabel: "検索を実行",
+    submit: "検索",
+  },
+  nearby: {
+    label: "周辺検索",
+    relocate: "現在地を再取得",
+    locate: "周辺の観光地を見る",
+    button: "周辺",
+    radius: "検索半径",
+    clearLabel: "周辺モードを解除",
+    clear: "解除",
+  },
+  mobileTabs: {
+    label: "リストと地図の切り替え",
+    list: "リスト",
+    map: "地図",
+  },
+  bookmark: {
+    removed: "ブックマークを削除しました。",
+    added: "ブックマークに追加しました。",
+    toggleFailed: "ブックマークを更新できませんでした。もう一度お試しください。",
+    loading: "ブックマーク状態を読み込み中",
+    remove: "ブックマークを削除",
+    add: "ブックマークに追加",
+    bookmarked: "ブックマーク済み",
+    bookmark: "ブックマーク",
+  },
+  bookmarkList: {
+    signInRequired: "ログインが必要です",
+    signInToDelete: "ブックマークを削除するにはログインしてください。",
+    deletedTitle: "ブックマークを削除しました",
+    deleted: "ブックマークが削除されました。",
+    deletedCount: "{count, number}件のブックマークが削除されました。",
+    deleteFailedTitle: "削除に失敗しました",
+    deleteFailed: "ブックマークを削除できませんでした。もう一度お試しください。",
+    batchDeleteFailed: "一部のブックマークを削除できませんでした。もう一度お試しください。",
+    empty: "ブックマークはありません",
+    emptyHint: "気になる観光地をブックマークして、後で簡単に見つけましょう。",
+    browse: "観光地を見る",
+    sort: "並べ替え:",
+    sortBy: "{label}で並べ替え",
+    sortRegion: "地域別",
+    deleteSelected: "選択を削除 ({count, number})",
+    selectMode: "選択モード",
+    select: "{title}を選択",
+    deleteItem: "{title}のブックマークを削除",
+    selectAll: "すべて選択",
+    selectAllCount: "すべて選択 ({selected, number}/{total, number})",
+    deleteDialogTitle: "ブックマークを削除",
+    deleteConfirm: "{count, number}件のブックマークを削除しますか？",
+    deleteIrreversible: "この操作は元に戻せません。",
+    deleting: "削除中...",
+    delete: "削除",
+  },
+  bookmarksPage: {
+    label: "ブックマーク一覧ページ",
+    title: "マイブックマーク",
+    description: "保存した観光地を確認・管理できます。",
+    loadFailed: "ブックマーク一覧を読み込めませんでした。",
+    userNotSynced: "ユーザー情報が同期されていません。しばらくしてからもう一度お試しください。",
+    failedExcluded: "観光地情報を読み込めなかったブックマーク{count, number}件は一覧から除外されました。",
+  },
+  share: {
+    noUrl: "URLを取得できませんでした。",
+    copied: "リンクをコピーしました。",
+    copyFailedBrowser: "リンクをコピーできませんでした。ブラウザの設定を確認してください。",
+    copyFailed: "リンクをコピーできませんでした。",
+    copiedLabel: "リンクをコピー済み",
+    label: "リンクを共有",
+    button: "共有",
+  },
+  detailInfo: {
+    addressCopied: "住所をコピーしました。",
+    label: "基本情報",
+    address: "住所",
+    copyAddress: "住所をコピー",
+    tel: "電話番号",
+    call: "{tel}に電話する",
+    homepage: "ホームページ",
+    openHomepage: "{title}のホームページを開く (新しいウィンドウ)",
+    overview: "概要",
+  },
+  detailMap: {
+    coordinatesValue: "緯度: {lat}, 経度: {lng}",
+    coordinatesCopied: "座標をコピーしました。",
+    courseTitle: "コースマップ",
+    title: "場所",
+    invalidCoordinates: "位置情報が正しくないため地図を表示できません。",
+    directions: "経路案内",
+    courseStops: "コース経路 ({count, number}か所)",
+    totalDistance: "総直線距離 {distance}",
+    courseStopsLabel: "コース経路の場所一覧",
+    segmentDistance: "前の場所からの直線距離 {distance}",
+    focusStop: "{order, number}番目の場所 {title} を地図で見る",
+    coordinates: "座標",
+    copyCoordinates: "座標をコピー",
+  },
+  gallery: {
+    defaultTitle: "観光地",
+    title: "画像ギャラリー",
+    empty: "画像がありません",
+    openFullscreen: "{title}の画像{index, number}を見る (全画面)",
+    imageAlt: "{title}の画像{index, number}",
+    loadFailed: "画像を読み込めません",
+    previous: "前の画像",
+    next: "次の画像",
+    thumbnails: "画像サムネイル一覧",
+    selectImage: "{title}の画像{index, number}を選択",
+    thumbnailAlt: "{title}のサムネイル{index, number}",
+    fullscreen: "画像の全画面表示",
+    close: "閉じる",
+  },
+  detailInfoRepeat: {
+    fee: "{fee, number}ウォン",
+    sizePyeong: "{size}坪",
+    capacityRange: "基準{base, number}名 / 最大{max, number}名",
+    capacity: "{count, number}名",
+    course: "コース経路",
+    roomList: "客室一覧",
+    roomName: "客室名",
+    roomSize: "広さ",
+    roomCapacity: "人数",
+    roomFee: "料金 (平日最低)",
+    offSeason: "オフシーズン {fee}",
+    peakSeason: "ハイシーズン {fee}",
+    inquire: "お問い合わせ",
+    rooms: "客室情報",
+    general: "利用案内",
+  },
+  detailIntro: {
+    usetime: "営業時間",
+    restdate: "休業日",
+    infocenter: "お問い合わせ",
+    parking: "駐車場",
+    chkpet: "ペット同伴",
+    expguide: "体験案内",
+    expagerange: "体験可能年齢",
+    usefee: "利用料金",
+    usetimeculture: "観覧時間",
+    restdateculture: "休館日",
+    playtime: "公演時間",
+    eventplace: "会場",
+    eventhomepage: "イベントホームページ",
+    openperiod: "営業期間",
+    reservation: "予約案内",
+    checkintime: "チェックイン",
+    checkouttime: "チェックアウト",
+    roomcount: "客室数",
+    firstmenu: "代表メニュー",
+    treatmenu: "取扱メニュー",
+    opentimefood: "営業時間",
+    title: "営業情報",
+    openLink: "{label}を開く (新しいウィンドウ)",
+  },
+  petTour: {
+    chkpetleash: "ペット同伴の可否",
+    chkpetsize: "サイズ制限",
+    chkpetplace: "入場可能な場所",
+    chkpetfee: "追加料金",
+    petinfo: "その他のペット情報",
+    parking: "駐車場情報",
+    allowed: "ペット同伴可",
+    notAllowed: "ペット同伴不可",
+    small: "小型犬可",
+    medium: "中型犬可",
+    large: "大型犬可",
+    title: "ペット同伴旅行情報",
+    notAllowedMessage: "この観光地はペット同伴不可です。ペットを連れずにお越しください。",
+  },
+  recommendations: {
+    label: "おすすめ観光地",
+    title: "こちらの観光地はいかがですか？",
+    description: "同じ地域または似たタイプの観光地をおすすめします。",
+    list: "おすすめ観光地一覧",
+  },
+  pagination: {
+    label: "ページネーション",
+    previousPage: "前のページ",
+    previous: "前へ",
+    goToPage: "{page}ページへ移動",
+    nextPage: "次のページ",
+    next: "次へ",
+  },
+};
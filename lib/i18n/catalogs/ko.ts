@@ -0,0 +1,511 @@
+/**
+ * @file ko.ts
+ * @description 한국어 메시지 카탈로그
+ *
+ * 기준 카탈로그입니다. 여기에 정의된 키가 메시지 키(MessageKey) 타입이 되며,
+ * 다른 언어 카탈로그는 같은 구조(MessageCatalog)를 모두 채워야 합니다.
+ * 문구는 ICU 메시지 형식(lib/i18n/format.ts)으로 작성합니다.
+ *
+ * 콘텐츠 타입명(contentType)과 시/도명(area)은 이 카탈로그가 유일한 출처입니다.
+ * (lib/i18n/names.ts의 getContentTypeName, getAreaName 사용)
+ */
+
+export const ko = {
+  metadata: {
+    title: "My Trip - 한국 관광지 정보 서비스",
+    description: "전국 관광지 정보를 검색하고 지도에서 확인하며 상세 정보를 조회할 수 있는 웹 서비스",
+    keywords: "관광지, 여행, 한국, 관광정보, 지도",
+  },
+  nav: {
+    home: "홈",
+    festivals: "축제",
+    stats: "통계",
+    bookmarks: "북마크",
+    signIn: "로그인",
+    language: "언어",
+  },
+  home: {
+    title: "전국 관광지",
+    description: "한국관광공사에서 제공하는 전국 관광지 정보를 확인하세요.",
+    nearbyTitle: "내 주변 관광지",
+    nearbyDescription: "현재 위치에서 가까운 순서로 관광지를 확인하세요.",
+    areaTitle: "이 지역 관광지",
+    areaDescription: "지도에 보이는 지역의 관광지를 지도 중심에서 가까운 순서로 확인하세요.",
+    stayTitle: "숙박 검색",
+    stayDescription: "지역과 주차, 체크인 시각 조건으로 숙소를 찾아보세요.",
+    searchTitle: "\"{keyword}\" 검색 결과",
+    searchDescription: "검색 결과를 확인하세요.",
+    empty: "표시할 관광지가 없습니다.",
+    mapError: "지도를 불러올 수 없습니다.",
+    listErrorTitle: "데이터를 불러올 수 없습니다",
+    listErrorMessage: "관광지 목록을 불러오는 중 문제가 발생했습니다.",
+    totalCount: "총 {count, number}개의 관광지가 있습니다.",
+    listAndMap: "관광지 목록 및 지도",
+  },
+  festivals: {
+    title: "축제 캘린더",
+    description: "여행 일정에 맞춰 전국에서 열리는 축제와 행사를 확인하세요.",
+    listHeading: "축제 목록 ({count, number}개)",
+    errorTitle: "축제 정보를 불러올 수 없습니다",
+    errorMessage: "축제 정보를 불러오는 중 문제가 발생했습니다.",
+    statusOngoing: "진행중",
+    statusUpcoming: "예정",
+    statusEnded: "종료",
+    weekdaySun: "일",
+    weekdayMon: "월",
+    weekdayTue: "화",
+    weekdayWed: "수",
+    weekdayThu: "목",
+    weekdayFri: "금",
+    weekdaySat: "토",
+    weekdayFull: "{weekday}요일",
+    weekCalendar: "주간 축제 캘린더",
+    monthCalendar: "월간 축제 캘린더",
+    dayLabel: "{month}월 {day}일, 행사 {count, number}개",
+    moreEvents: "+{count, number}개",
+    empty: "해당 기간에 열리는 축제가 없습니다.",
+    listLabel: "축제 목록",
+    periodListLabel: "기간 내 축제 목록",
+    filtersLabel: "축제 캘린더 필터",
+    previousWeek: "이전 주",
+    previousMonth: "이전 달",
+    nextWeek: "다음 주",
+    nextMonth: "다음 달",
+    today: "오늘",
+    viewMode: "보기 방식",
+    month: "월간",
+    week: "주간",
+    status: "진행 상태",
+  },
+  place: {
+    backToList: "목록으로",
+    notTranslatedTitle: "번역된 관광지 정보가 없습니다",
+    notTranslatedMessage: "선택한 언어로 제공되는 같은 관광지 정보를 찾을 수 없습니다.",
+    title: "관광지 상세 정보",
+    loadFailed: "관광지 상세 정보를 불러올 수 없습니다.",
+    metaDescription: "{title}의 상세 정보를 확인해보세요.",
+    loadError: "관광지 상세 정보를 불러오는 중 문제가 발생했습니다.",
+    navigation: "네비게이션",
+    backToListLabel: "목록으로 돌아가기",
+  },
+  filters: {
+    contentType: "관광 타입",
+    allTypes: "전체",
+    selectedTypes: "{count, number}개 선택",
+    selectedCount: "{count, number}개 선택됨",
+    clearTypes: "전체 해제",
+    clearTypesLabel: "모든 타입 선택 해제",
+    popularSortUnavailable: "인기순 정렬은 관광 정보 API가 조회수를 제공하지 않아 지원하지 않습니다.",
+    label: "관광지 필터",
+    area: "지역",
+    sigungu: "시군구",
+    stay: "숙박",
+    staySearch: "숙박 검색",
+    staySearchClear: "숙박 검색 해제",
+    stayConditions: "숙박 조건",
+    parking: "주차 가능",
+    checkInTime: "체크인 시각",
+    checkInBefore: "{time} 이전 체크인",
+    anyTime: "상관없음",
+    beforeTime: "{time} 이전",
+    sort: "정렬",
+    imageOnly: "이미지 있는 것만 보기",
+    categoryLabel: "분류 필터",
+    cat1: "대분류",
+    cat2: "중분류",
+    cat3: "소분류",
+    categorySelected: "선택됨",
+  },
+  contentType: {
+    "12": "관광지",
+    "14": "문화시설",
+    "15": "축제/행사",
+    "25": "여행코스",
+    "28": "레포츠",
+    "32": "숙박",
+    "38": "쇼핑",
+    "39": "음식점",
+    other: "기타",
+  },
+  area: {
+    "1": "서울",
+    "2": "인천",
+    "3": "대전",
+    "4": "대구",
+    "5": "광주",
+    "6": "부산",
+    "7": "울산",
+    "8": "세종",
+    "31": "경기",
+    "32": "강원",
+    "33": "충북",
+    "34": "충남",
+    "35": "경북",
+    "36": "경남",
+    "37": "전북",
+    "38": "전남",
+    "39": "제주",
+  },
+  tourApiError: {
+    serviceConfig: "서비스 설정에 문제가 있습니다. 잠시 후 다시 시도해주세요.",
+    keyExpired: "관광 정보 서비스 이용 기간이 만료되었습니다. 관리자에게 문의해주세요.",
+    keySuspended: "관광 정보 서비스 이용이 일시 중지되었습니다. 잠시 후 다시 시도해주세요.",
+    accessDenied: "관광 정보 서비스에 접근할 수 없습니다. 관리자에게 문의해주세요.",
+    network: "인터넷 연결을 확인하고 잠시 후 다시 시도해주세요.",
+    timeout: "서버 응답이 지연되고 있습니다. 잠시 후 다시 시도해주세요.",
+    notFound: "요청한 정보를 찾을 수 없습니다.",
+    tooManyRequests: "요청이 너무 많습니다. 잠시 후 다시 시도해주세요.",
+    server: "서버에 문제가 발생했습니다. 잠시 후 다시 시도해주세요.",
+    http: "요청 처리 중 오류가 발생했습니다.",
+    api: "관광지 정보를 불러오는 중 오류가 발생했습니다.",
+    invalidRequest: "요청 정보가 올바르지 않습니다. 검색 조건을 확인해주세요.",
+    noData: "조건에 맞는 관광 정보가 없습니다.",
+    serviceUnavailable: "관광 정보 제공 서비스에 일시적인 장애가 있습니다. 잠시 후 다시 시도해주세요.",
+    parse: "데이터 처리 중 오류가 발생했습니다.",
+    quotaExceeded: "오늘 이용할 수 있는 관광 정보 조회 횟수를 모두 사용했습니다. 잠시 후 다시 시도해주세요.",
+    unknown: "오류가 발생했습니다. 잠시 후 다시 시도해주세요.",
+  },
+  errorPage: {
+    label: "에러 페이지",
+    titleConfig: "API 설정 오류",
+    titleNetwork: "네트워크 오류",
+    titleTimeout: "요청 시간 초과",
+    titleServer: "서버 오류",
+    titleData: "데이터 조회 오류",
+    titleInput: "입력 오류",
+    titleQuota: "이용 한도 초과",
+    titleUnknown: "오류 발생",
+    title: "오류가 발생했습니다",
+    retry: "다시 시도",
+    reload: "새로고침",
+    goHome: "홈으로 돌아가기",
+    devInfo: "개발자 정보 (개발 환경에서만 표시)",
+    devMessage: "에러 메시지:",
+    devStack: "스택 트레이스:",
+    authConfig: "인증 서비스 설정에 문제가 있습니다.",
+    toastConfig: "알림 서비스 설정에 문제가 있습니다.",
+    database: "데이터베이스 연결에 문제가 있습니다.",
+    initFailed: "애플리케이션 초기화 중 오류가 발생했습니다.",
+  },
+  notFound: {
+    label: "페이지를 찾을 수 없음",
+    title: "페이지를 찾을 수 없습니다",
+    description: "요청하신 페이지가 존재하지 않거나 이동되었을 수 있습니다.",
+    hint: "URL을 확인하시거나 홈으로 돌아가서 다시 시도해주세요.",
+    search: "관광지 검색하기",
+    linksTitle: "다음 페이지를 확인해보세요:",
+    linksLabel: "유용한 링크",
+  },
+  location: {
+    errorTitle: "위치 정보 오류",
+    unsupportedTitle: "위치 정보를 사용할 수 없습니다",
+    unsupportedMessage: "이 브라우저는 위치 정보 기능을 지원하지 않습니다.",
+    permissionDenied: "위치 정보 사용 권한이 거부되었습니다.",
+    unavailable: "위치 정보를 사용할 수 없습니다.",
+    timeout: "위치 정보 요청 시간이 초과되었습니다.",
+    unknown: "위치 정보를 가져올 수 없습니다.",
+    mapNotReadyTitle: "지도를 불러올 수 없습니다",
+    mapNotReadyMessage: "지도가 아직 로드되지 않았습니다.",
+    movedTitle: "현재 위치로 이동했습니다",
+    movedNearby: "현재 위치 주변의 관광지를 불러옵니다.",
+    movedMap: "지도가 현재 위치로 이동했습니다.",
+  },
+  map: {
+    clusterLabel: "관광지 {count, number}곳 (클릭하여 확대)",
+    searchArea: "이 지역 검색",
+    zoomInToSearchArea: "지도를 확대하면 이 지역을 검색할 수 있습니다",
+    missingKey: "네이버 지도 API 키가 설정되지 않았습니다.",
+    loadFailed: "네이버 지도 API를 로드할 수 없습니다.",
+    scriptError: "네이버 지도 API 스크립트를 로드하는 중 오류가 발생했습니다.",
+    initFailed: "지도를 초기화할 수 없습니다.",
+    loading: "지도를 불러오는 중...",
+    naverMap: "네이버 지도",
+    detail: "상세보기",
+    currentLocation: "현재 위치",
+    controls: "지도 컨트롤",
+    toSatellite: "스카이뷰로 전환",
+    toNormal: "일반 지도로 전환",
+    moveToCurrentLocation: "현재 위치로 이동",
+  },
+  stats: {
+    partialTitle: "일부 통계만 표시합니다",
+    partialMessage: "{count, number}개 항목의 통계를 수집하지 못했습니다. 잠시 후 다시 확인해주세요.",
+    unavailableTitle: "통계를 잠시 표시할 수 없습니다",
+    unavailableMessage: "오늘 관광 정보 조회가 많아 통계 수집을 잠시 중단했습니다. 관광지 목록과 상세 정보는 계속 이용할 수 있습니다.",
+    title: "통계 대시보드",
+    description: "전국 관광지 데이터를 차트로 시각화하여 한눈에 파악할 수 있습니다.",
+    dataLabel: "통계 데이터",
+    summaryLabel: "통계 요약",
+    summaryLoading: "통계 요약 로딩 중",
+    totalLabel: "전체 관광지",
+    totalCount: "전체 관광지 {count, number}개",
+    unit: "개",
+    topRegions: "Top 3 지역",
+    topRegionsLabel: "상위 3개 지역",
+    topTypes: "Top 3 타입",
+    topTypesLabel: "상위 3개 타입",
+    rankLabel: "{rank}위: {name} {count, number}개",
+    noData: "데이터 없음",
+    lastUpdated: "마지막 업데이트",
+    lastUpdatedLabel: "마지막 업데이트: {date}",
+    countLabel: "관광지 개수",
+    countValue: "{count, number}개",
+    countWithRatio: "{count, number}개 ({percentage}%)",
+    chartEmpty: "데이터가 없습니다.",
+    chartLabel: "{title} 차트",
+    regionTitle: "지역별 관광지 분포",
+    sigunguTitle: "{region} 시군구별 관광지 분포",
+    regionDescription: "상위 10개 지역의 관광지 개수를 표시합니다. 바를 클릭하면 시군구별 분포를 볼 수 있습니다.",
+    sigunguDescription: "상위 10개 시군구의 관광지 개수를 표시합니다. 바를 클릭하면 해당 시군구 목록으로 이동합니다.",
+    nationwide: "전국 보기",
+    regionListLink: "{region} 관광지 목록 보기",
+    barLabel: "{name}: {count, number}개 관광지",
+    regionTableLabel: "지역별 관광지 개수 데이터",
+    regionName: "지역명",
+    regionLoading: "지역별 관광지 분포 차트 로딩 중",
+    typeTitle: "타입별 관광지 분포",
+    typeDescription: "{count, number}개 관광 타입별 비율을 표시합니다.",
+    typeTableLabel: "타입별 관광지 개수 데이터",
+    typeName: "타입명",
+    ratio: "비율",
+    typeLoading: "타입별 관광지 분포 차트 로딩 중",
+  },
+  common: {
+    all: "전체",
+    loading: "로딩 중...",
+    retry: "다시 시도",
+    noImage: "이미지 없음",
+    cancel: "취소",
+    copied: "복사됨",
+    copy: "복사",
+    pageTitle: "페이지 제목",
+    filters: "필터",
+    search: "검색",
+    close: "닫기",
+    errorMessage: "오류가 발생했습니다. 잠시 후 다시 시도해주세요.",
+  },
+  sort: {
+    latest: "최신순",
+    name: "이름순",
+    created: "등록순",
+  },
+  tourList: {
+    loadMoreFailed: "관광지를 더 불러오지 못했습니다.",
+    label: "관광지 목록",
+    loading: "관광지 목록 로딩 중",
+    emptyLabel: "관광지 없음",
+    empty: "관광지가 없습니다.",
+    emptyHint: "필터를 조정하거나 다른 검색어를 시도해보세요.",
+    loadingMoreLabel: "추가 관광지 로딩 중",
+    loadingMore: "더 많은 관광지를 불러오는 중...",
+    pagination: "관광지 목록 페이지네이션",
+  },
+  tourCard: {
+    label: "{title} 상세보기 - {type}, {address}",
+    labelWithDistance: "{title} 상세보기 - {type}, {address}, {distance} 거리",
+    thumbnail: "{title} 썸네일 이미지",
+    checkInOut: "체크인 {checkIn} · 체크아웃 {checkOut}",
+    parkingAvailable: "주차 가능",
+    parkingUnavailable: "주차 불가",
+    roomCount: "객실 {count, number}개",
+    rooms: "객실 {rooms}",
+    categories: "분류",
+  },
+  search: {
+    label: "관광지 검색",
+    placeholder: "관광지명, 주소, 설명으로 검색...",
+    input: "검색어 입력",
+    clear: "검색어 지우기",
+    submitLabel: "검색 실행",
+    submit: "검색",
+  },
+  nearby: {
+    label: "내 주변 검색",
+    relocate: "현재 위치 다시 찾기",
+    locate: "내 주변 관광지 보기",
+    button: "내 주변",
+    radius: "검색 반경",
+    clearLabel: "내 주변 모드 해제",
+    clear: "해제",
+  },
+  mobileTabs: {
+    label: "리스트 및 지도 전환",
+    list: "리스트",
+    map: "지도",
+  },
+  bookmark: {
+    removed: "북마크가 제거되었습니다.",
+    added: "북마크에 추가되었습니다.",
+    toggleFailed: "북마크 작업을 완료할 수 없습니다. 다시 시도해주세요.",
+    loading: "북마크 상태 로딩 중",
+    remove: "북마크 제거",
+    add: "북마크 추가",
+    bookmarked: "북마크됨",
+    bookmark: "북마크",
+  },
+  bookmarkList: {
+    signInRequired: "로그인이 필요합니다",
+    signInToDelete: "북마크를 삭제하려면 로그인해주세요.",
+    deletedTitle: "북마크 삭제 완료",
+    deleted: "북마크가 삭제되었습니다.",
+    deletedCount: "{count, number}개의 북마크가 삭제되었습니다.",
+    deleteFailedTitle: "삭제 실패",
+    deleteFailed: "북마크를 삭제할 수 없습니다. 다시 시도해주세요.",
+    batchDeleteFailed: "일부 북마크를 삭제할 수 없습니다. 다시 시도해주세요.",
+    empty: "북마크가 없습니다",
+    emptyHint: "관심 있는 관광지를 북마크하여 나중에 쉽게 찾아보세요.",
+    browse: "관광지 둘러보기",
+    sort: "정렬:",
+    sortBy: "{label} 정렬",
+    sortRegion: "지역별",
+    deleteSelected: "선택 삭제 ({count, number})",
+    selectMode: "선택 모드",
+    select: "{title} 선택",
+    deleteItem: "{title} 북마크 삭제",
+    selectAll: "전체 선택",
+    selectAllCount: "전체 선택 ({selected, number}/{total, number})",
+    deleteDialogTitle: "북마크 삭제",
+    deleteConfirm: "정말 {count, number}개의 북마크를 삭제하시겠습니까?",
+    deleteIrreversible: "이 작업은 되돌릴 수 없습니다.",
+    deleting: "삭제 중...",
+    delete: "삭제",
+  },
+  bookmarksPage: {
+    label: "북마크 목록 페이지",
+    title: "내 북마크",
+    description: "저장한 관광지를 확인하고 관리할 수 있습니다.",
+    loadFailed: "북마크 목록을 불러올 수 없습니다.",
+    userNotSynced: "사용자 정보가 동기화되지 않았습니다. 잠시 후 다시 시도해주세요.",
+    failedExcluded: "관광지 정보를 불러오지 못한 북마크 {count, number}개는 목록에서 제외되었습니다.",
+  },
+  share: {
+    noUrl: "URL을 가져올 수 없습니다.",
+    copied: "링크가 복사되었습니다.",
+    copyFailedBrowser: "링크 복사에 실패했습니다. 브라우저를 확인해주세요.",
+    copyFailed: "링크 복사에 실패했습니다.",
+    copiedLabel: "링크 복사됨",
+    label: "링크 공유하기",
+    button: "공유",
+  },
+  detailInfo: {
+    addressCopied: "주소가 복사되었습니다.",
+    label: "기본 정보",
+    address: "주소",
+    copyAddress: "주소 복사",
+    tel: "전화번호",
+    call: "{tel}로 전화하기",
+    homepage: "홈페이지",
+    openHomepage: "{title} 홈페이지 열기 (새 창)",
+    overview: "개요",
+  },
+  detailMap: {
+    coordinatesValue: "위도: {lat}, 경도: {lng}",
+    coordinatesCopied: "좌표가 복사되었습니다.",
+    courseTitle: "코스 지도",
+    title: "위치",
+    invalidCoordinates: "위치 정보가 올바르지 않아 지도를 표시할 수 없습니다.",
+    directions: "길찾기",
+    courseStops: "코스 경로 ({count, number}곳)",
+    totalDistance: "총 직선거리 {distance}",
+    courseStopsLabel: "코스 경로 장소 목록",
+    segmentDistance: "이전 장소로부터 직선거리 {distance}",
+    focusStop: "{order, number}번 장소 {title} 지도에서 보기",
+    coordinates: "좌표",
+    copyCoordinates: "좌표 복사",
+  },
+  gallery: {
+    defaultTitle: "관광지",
+    title: "이미지 갤러리",
+    empty: "이미지가 없습니다",
+    openFullscreen: "{title} 이미지 {index, number} 보기 (전체화면)",
+    imageAlt: "{title} 이미지 {index, number}",
+    loadFailed: "이미지를 불러올 수 없습니다",
+    previous: "이전 이미지",
+    next: "다음 이미지",
+    thumbnails: "이미지 썸네일 목록",
+    selectImage: "{title} 이미지 {index, number} 선택",
+    thumbnailAlt: "{title} 썸네일 {index, number}",
+    fullscreen: "이미지 전체화면 보기",
+    close: "모달 닫기",
+  },
+  detailInfoRepeat: {
+    fee: "{fee, number}원",
+    sizePyeong: "{size}평",
+    capacityRange: "기준 {base, number}명 / 최대 {max, number}명",
+    capacity: "{count, number}명",
+    course: "코스 경로",
+    roomList: "객실 목록",
+    roomName: "객실명",
+    roomSize: "크기",
+    roomCapacity: "인원",
+    roomFee: "요금 (주중 최소)",
+    offSeason: "비수기 {fee}",
+    peakSeason: "성수기 {fee}",
+    inquire: "문의",
+    rooms: "객실 정보",
+    general: "이용 안내",
+  },
+  detailIntro: {
+    usetime: "운영시간",
+    restdate: "휴무일",
+    infocenter: "문의처",
+    parking: "주차 가능 여부",
+    chkpet: "반려동물 동반 가능 여부",
+    expguide: "체험안내",
+    expagerange: "체험가능연령",
+    usefee: "이용요금",
+    usetimeculture: "관람시간",
+    restdateculture: "휴관일",
+    playtime: "공연시간",
+    eventplace: "행사장소",
+    eventhomepage: "행사홈페이지",
+    openperiod: "개장기간",
+    reservation: "예약안내",
+    checkintime: "체크인",
+    checkouttime: "체크아웃",
+    roomcount: "객실수",
+    firstmenu: "대표메뉴",
+    treatmenu: "취급메뉴",
+    opentimefood: "영업시간",
+    title: "운영 정보",
+    openLink: "{label} 열기 (새 창)",
+  },
+  petTour: {
+    chkpetleash: "반려동물 동반 여부",
+    chkpetsize: "반려동물 크기 제한",
+    chkpetplace: "입장 가능 장소",
+    chkpetfee: "추가 요금",
+    petinfo: "기타 반려동물 정보",
+    parking: "주차장 정보",
+    allowed: "반려동물 동반 가능",
+    notAllowed: "반려동물 동반 불가능",
+    small: "소형견 가능",
+    medium: "중형견 가능",
+    large: "대형견 가능",
+    title: "반려동물 동반 여행 정보",
+    notAllowedMessage: "이 관광지는 반려동물 동반이 불가능합니다. 반려동물을 동반하지 않고 방문해주세요.",
+  },
+  recommendations: {
+    label: "추천 관광지",
+    title: "이런 관광지는 어떠세요?",
+    description: "같은 지역 또는 유사한 타입의 관광지를 추천합니다.",
+    list: "추천 관광지 목록",
+  },
+  pagination: {
+    label: "페이지네이션",
+    previousPage: "이전 페이지",
+    previous: "이전",
+    goToPage: "{page}페이지로 이동",
+    nextPage: "다음 페이지",
+    next: "다음",
+  },
+} as const;
+
+type CatalogShape<T> = {
+  [K in keyof T]: T[K] extends string ? string : CatalogShape<T[K]>;
+};
+
+/**
+ * 메시지 카탈로그 구조 (모든 언어 공통)
+ */
+export type MessageCatalog = CatalogShape<typeof ko>;
@@ -0,0 +1,497 @@
+/**
+ * @file zh.ts
+ * @description 중국어(간체) 메시지 카탈로그 (구조는 ko.ts 기준)
+ */
+
+import type { MessageCatalog } from "./ko";
+
+export const zh: MessageCatalog = {
+  metadata: {
+    title: "My Trip - 韩国旅游信息",
+    description: "搜索韩国各地旅游景点，在地图上查看并浏览详细信息的服务",
+    keywords: "景点, 旅行, 韩国, 旅游信息, 地图",
+  },
+  nav: {
+    home: "首页",
+    festivals: "庆典",
+    stats: "统计",
+    bookmarks: "收藏",
+    signIn: "登录",
+    language: "语言",
+  },
+  home: {
+    title: "韩国旅游景点",
+    description: "查看韩国观光公社提供的全国旅游信息。",
+    nearbyTitle: "我附近的景点",
+    nearbyDescription: "按与当前位置的距离查看景点。",
+    areaTitle: "此区域的景点",
+    areaDescription: "按与地图中心的距离查看地图可见区域内的景点。",
+    stayTitle: "住宿搜索",
+    stayDescription: "按地区、停车和入住时间查找住宿。",
+    searchTitle: "\"{keyword}\" 的搜索结果",
+    searchDescription: "请查看搜索结果。",
+    empty: "没有可显示的景点。",
+    mapError: "无法加载地图。",
+    listErrorTitle: "无法加载数据",
+    listErrorMessage: "加载景点列表时出现问题。",
+    totalCount: "共有 {count, number} 个景点。",
+    listAndMap: "景点列表和地图",
+  },
+  festivals: {
+    title: "庆典日历",
+    description: "根据旅行日程查看韩国各地举办的庆典和活动。",
+    listHeading: "庆典列表（{count, number} 个）",
+    errorTitle: "无法加载庆典信息",
+    errorMessage: "加载庆典信息时出现问题。",
+    statusOngoing: "进行中",
+    statusUpcoming: "即将举行",
+    statusEnded: "已结束",
+    weekdaySun: "日",
+    weekdayMon: "一",
+    weekdayTue: "二",
+    weekdayWed: "三",
+    weekdayThu: "四",
+    weekdayFri: "五",
+    weekdaySat: "六",
+    weekdayFull: "星期{weekday}",
+    weekCalendar: "每周节庆日历",
+    monthCalendar: "每月节庆日历",
+    dayLabel: "{month}月{day}日，{count, number} 个活动",
+    moreEvents: "+{count, number} 个",
+    empty: "该期间没有节庆活动。",
+    listLabel: "节庆列表",
+    periodListLabel: "该期间的节庆列表",
+    filtersLabel: "节庆日历筛选",
+    previousWeek: "上一周",
+    previousMonth: "上个月",
+    nextWeek: "下一周",
+    nextMonth: "下个月",
+    today: "今天",
+    viewMode: "视图",
+    month: "月",
+    week: "周",
+    status: "状态",
+  },
+  place: {
+    backToList: "返回列表",
+    notTranslatedTitle: "没有翻译的景点信息",
+    notTranslatedMessage: "找不到以所选语言提供的同一景点信息。",
+    title: "景点详情",
+    loadFailed: "无法加载景点详情。",
+    metaDescription: "查看{title}的详细信息。",
+    loadError: "加载景点详情时出现问题。",
+    navigation: "导航",
+    backToListLabel: "返回列表",
+  },
+  filters: {
+    contentType: "旅游类型",
+    allTypes: "全部",
+    selectedTypes: "已选 {count, number} 项",
+    selectedCount: "已选择 {count, number} 项",
+    clearTypes: "全部取消",
+    clearTypesLabel: "取消选择所有类型",
+    popularSortUnavailable: "旅游信息API不提供浏览量，因此不支持按人气排序。",
+    label: "景点筛选",
+    area: "地区",
+    sigungu: "市郡区",
+    stay: "住宿",
+    staySearch: "搜索住宿",
+    staySearchClear: "退出住宿搜索",
+    stayConditions: "住宿条件",
+    parking: "可停车",
+    checkInTime: "入住时间",
+    checkInBefore: "{time} 前入住",
+    anyTime: "不限",
+    beforeTime: "{time} 前",
+    sort: "排序",
+    imageOnly: "仅显示有图片的",
+    categoryLabel: "分类筛选",
+    cat1: "大类",
+    cat2: "中类",
+    cat3: "小类",
+    categorySelected: "已选择",
+  },
+  contentType: {
+    "12": "旅游景点",
+    "14": "文化设施",
+    "15": "庆典/活动",
+    "25": "旅游路线",
+    "28": "休闲体育",
+    "32": "住宿",
+    "38": "购物",
+    "39": "餐厅",
+    other: "其他",
+  },
+  area: {
+    "1": "首尔",
+    "2": "仁川",
+    "3": "大田",
+    "4": "大邱",
+    "5": "光州",
+    "6": "釜山",
+    "7": "蔚山",
+    "8": "世宗",
+    "31": "京畿",
+    "32": "江原",
+    "33": "忠北",
+    "34": "忠南",
+    "35": "庆北",
+    "36": "庆南",
+    "37": "全北",
+    "38": "全南",
+    "39": "济州",
+  },
+  tourApiError: {
+    serviceConfig: "服务配置出现问题，请稍后再试。",
+    keyExpired: "旅游信息服务使用期限已到期，请联系管理员。",
+    keySuspended: "旅游信息服务已暂停使用，请稍后再试。",
+    accessDenied: "无法访问旅游信息服务，请联系管理员。",
+    network: "请检查网络连接后稍后再试。",
+    timeout: "服务器响应延迟，请稍后再试。",
+    notFound: "找不到请求的信息。",
+    tooManyRequests: "请求过多，请稍后再试。",
+    server: "服务器出现问题，请稍后再试。",
+    http: "处理请求时出错。",
+    api: "加载景点信息时出错。",
+    invalidRequest: "请求信息不正确，请检查搜索条件。",
+    noData: "没有符合条件的旅游信息。",
+    serviceUnavailable: "旅游信息提供服务暂时出现故障，请稍后再试。",
+    parse: "处理数据时出错。",
+    quotaExceeded: "今日旅游信息查询次数已用完，请稍后再试。",
+    unknown: "出现错误，请稍后再试。",
+  },
+  errorPage: {
+    label: "错误页面",
+    titleConfig: "配置错误",
+    titleNetwork: "网络错误",
+    titleTimeout: "请求超时",
+    titleServer: "服务器错误",
+    titleData: "数据查询错误",
+    titleInput: "输入错误",
+    titleQuota: "超出使用限制",
+    titleUnknown: "错误",
+    title: "出现错误",
+    retry: "重试",
+    reload: "刷新",
+    goHome: "返回首页",
+    devInfo: "开发者信息（仅在开发环境显示）",
+    devMessage: "错误信息：",
+    devStack: "堆栈跟踪：",
+    authConfig: "认证服务配置出现问题。",
+    toastConfig: "通知服务配置出现问题。",
+    database: "数据库连接出现问题。",
+    initFailed: "应用程序初始化时出错。",
+  },
+  notFound: {
+    label: "找不到页面",
+    title: "找不到页面",
+    description: "您请求的页面不存在或已被移动。",
+    hint: "请检查网址，或返回首页后重试。",
+    search: "搜索景点",
+    linksTitle: "请查看以下页面：",
+    linksLabel: "常用链接",
+  },
+  location: {
+    errorTitle: "位置信息错误",
+    unsupportedTitle: "无法使用位置信息",
+    unsupportedMessage: "此浏览器不支持位置信息功能。",
+    permissionDenied: "位置信息使用权限被拒绝。",
+    unavailable: "无法使用位置信息。",
+    timeout: "位置信息请求超时。",
+    unknown: "无法获取位置信息。",
+    mapNotReadyTitle: "无法加载地图",
+    mapNotReadyMessage: "地图尚未加载完成。",
+    movedTitle: "已移动到当前位置",
+    movedNearby: "正在加载当前位置周边的景点。",
+    movedMap: "地图已移动到当前位置。",
+  },
+  map: {
+    clusterLabel: "{count, number} 个景点 (点击放大)",
+    searchArea: "搜索此区域",
+    zoomInToSearchArea: "放大地图后即可搜索此区域",
+    missingKey: "未配置 Naver 地图 API 密钥。",
+    loadFailed: "无法加载 Naver 地图 API。",
+    scriptError: "加载 Naver 地图脚本时出错。",
+    initFailed: "无法初始化地图。",
+    loading: "正在加载地图...",
+    naverMap: "Naver 地图",
+    detail: "查看详情",
+    currentLocation: "当前位置",
+    controls: "地图控件",
+    toSatellite: "切换到卫星视图",
+    toNormal: "切换到普通地图",
+    moveToCurrentLocation: "移动到当前位置",
+  },
+  stats: {
+    partialTitle: "仅显示部分统计",
+    partialMessage: "有 {count, number} 个项目的统计未能收集。请稍后再查看。",
+    unavailableTitle: "暂时无法显示统计",
+    unavailableMessage: "今日旅游信息查询量较大，统计收集已暂停。景点列表和详情仍可正常使用。",
+    title: "统计仪表板",
+    description: "通过图表一目了然地了解全国景点数据。",
+    dataLabel: "统计数据",
+    summaryLabel: "统计摘要",
+    summaryLoading: "正在加载统计摘要",
+    totalLabel: "全部景点",
+    totalCount: "全部景点 {count, number}个",
+    unit: "个",
+    topRegions: "前3名地区",
+    topRegionsLabel: "前3名地区",
+    topTypes: "前3名类型",
+    topTypesLabel: "前3名类型",
+    rankLabel: "第{rank}名: {name} {count, number}个",
+    noData: "暂无数据",
+    lastUpdated: "最近更新",
+    lastUpdatedLabel: "最近更新: {date}",
+    countLabel: "景点数量",
+    countValue: "{count, number}个",
+    countWithRatio: "{count, number}个 ({percentage}%)",
+    chartEmpty: "暂无数据。",
+    chartLabel: "{title}图表",
+    regionTitle: "各地区景点分布",
+    sigunguTitle: "{region}各市郡区景点分布",
+    regionDescription: "显示前10个地区的景点数量。点击柱形可查看各市郡区分布。",
+    sigunguDescription: "显示前10个市郡区的景点数量。点击柱形可进入该市郡区的列表。",
+    nationwide: "查看全国",
+    regionListLink: "查看{region}景点列表",
+    barLabel: "{name}: {count, number}个景点",
+    regionTableLabel: "各地区景点数量数据",
+    regionName: "地区名称",
+    regionLoading: "正在加载各地区景点分布图表",
+    typeTitle: "各类型景点分布",
+    typeDescription: "显示{count, number}种旅游类型的占比。",
+    typeTableLabel: "各类型景点数量数据",
+    typeName: "类型名称",
+    ratio: "占比",
+    typeLoading: "正在加载各类型景点分布图表",
+  },
+  common: {
+    all: "全部",
+    loading: "加载中...",
+    retry: "重试",
+    noImage: "暂无图片",
+    cancel: "取消",
+    copied: "已复制",
+    copy: "复制",
+    pageTitle: "页面标题",
+    filters: "筛选",
+    search: "搜索",
+    close: "关闭",
+    errorMessage: "发生错误。请稍后重试。",
+  },
+  sort: {
+    latest: "最新",
+    name: "名称",
+    created: "新增",
+  },
+  tourList: {
+    loadMoreFailed: "无法加载更多景点。",
+    label: "景点列表",
+    loading: "正在加载景点列表",
+    emptyLabel: "没有景点",
+    empty: "没有找到景点。",
+    emptyHint: "请调整筛选条件或尝试其他搜索词。",
+    loadingMoreLabel: "正在加载更多景点",
+    loadingMore: "正在加载更多景点...",
+    pagination: "景点列表分页",
+  },
+  tourCard: {
+    label: "查看 {title} - {type}，{address}",
+    labelWithDistance: "查看 {title} - {type}，{address}，距离 {distance}",
+    thumbnail: "{title} 缩略图",
+    checkInOut: "入住 {checkIn} · 退房 {checkOut}",
+    parkingAvailable: "可停车",
+    parkingUnavailable: "不可停车",
+    roomCount: "客房 {count, number} 间",
+    rooms: "客房 {rooms}",
+    categories: "分类",
+  },
+  search: {
+    label: "搜索景点",
+    placeholder: "按名称、地址或简介搜索...",
+    input: "搜索关键词",
+    clear: "清除搜索词",
+    submitLabel: "执行搜索",
+    submit: "搜索",
+  },
+  nearby: {
+    label: "附近搜索",
+    relocate: "重新获取当前位置",
+    locate: "查看附近景点",
+    button: "附近",
+    radius: "搜索半径",
+    clearLabel: "关闭附近模式",
+    clear: "取消",
+  },
+  mobileTabs: {
+    label: "切换列表和地图",
+    list: "列表",
+    map: "地图",
+  },
+  bookmark: {
+    removed: "已取消收藏。",
+    added: "已添加到收藏。",
+    toggleFailed: "无法更新收藏，请重试。",
+    loading: "正在加载收藏状态",
+    remove: "取消收藏",
+    add: "添加收藏",
+    bookmarked: "已收藏",
+    bookmark: "收藏",
+  },
+  bookmarkList: {
+    signInRequired: "需要登录",
+    signInToDelete: "请登录后再删除收藏。",
+    deletedTitle: "收藏已删除",
+    deleted: "收藏已删除。",
+    deletedCount: "已删除 {count, number} 个收藏。",
+    deleteFailedTitle: "删除失败",
+    deleteFailed: "无法删除收藏，请重试。",
+    batchDeleteFailed: "部分收藏无法删除，请重试。",
+    empty: "暂无收藏",
+    emptyHint: "收藏感兴趣的景点，方便以后查找。",
+    browse: "浏览景点",
+    sort: "排序：",
+    sortBy: "按{label}排序",
+    sortRegion: "地区",
+    deleteSelected: "删除所选 ({count, number})",
+    selectMode: "选择模式",
+    select: "选择{title}",
+    deleteItem: "删除{title}的收藏",
+    selectAll: "全选",
+    selectAllCount: "全选 ({selected, number}/{total, number})",
+    deleteDialogTitle: "删除收藏",
+    deleteConfirm: "确定要删除 {count, number} 个收藏吗？",
+    deleteIrreversible: "此操作无法撤销。",
+    deleting: "正在删除...",
+    delete: "删除",
+  },
+  bookmarksPage: {
+    label: "收藏列表页面",
+    title: "我的收藏",
+    description: "查看并管理已保存的景点。",
+    loadFailed: "无法加载收藏列表。",
+    userNotSynced: "用户信息尚未同步，请稍后重试。",
+    failedExcluded: "有 {count, number} 个收藏因无法加载景点信息而未显示。",
+  },
+  share: {
+    noUrl: "无法获取页面链接。",
+    copied: "链接已复制。",
+    copyFailedBrowser: "复制链接失败，请检查浏览器设置。",
+    copyFailed: "复制链接失败。",
+    copiedLabel: "链接已复制",
+    label: "分享链接",
+    button: "分享",
+  },
+  detailInfo: {
+    addressCopied: "地址已复制。",
+    label: "基本信息",
+    address: "地址",
+    copyAddress: "复制地址",
+    tel: "电话",
+    call: "拨打 {tel}",
+    homepage: "网站",
+    openHomepage: "打开{title}网站 (新窗口)",
+    overview: "概述",
+  },
+  detailMap: {
+    coordinatesValue: "纬度: {lat}, 经度: {lng}",
+    coordinatesCopied: "坐标已复制。",
+    courseTitle: "路线地图",
+    title: "位置",
+    invalidCoordinates: "位置信息无效，无法显示地图。",
+    directions: "路线导航",
+    courseStops: "路线 ({count, number} 处)",
+    totalDistance: "总直线距离 {distance}",
+    courseStopsLabel: "路线地点列表",
+    segmentDistance: "距上一地点直线距离 {distance}",
+    focusStop: "在地图上查看第 {order, number} 个地点 {title}",
+    coordinates: "坐标",
+    copyCoordinates: "复制坐标",
+  },
+  gallery: {
+    defaultTitle: "景点",
+    title: "图片库",
+    empty: "暂无图片",
+    openFullscreen: "查看{title}图片 {index, number} (全屏)",
+    imageAlt: "{title}图片 {index, number}",
+    loadFailed: "无法加载图片",
+    previous: "上一张",
+    next: "下一张",
+    thumbnails: "图片缩略图列表",
+    selectImage: "选择{title}图片 {index, number}",
+    thumbnailAlt: "{title}缩略图 {index, number}",
+    fullscreen: "全屏查看图片",
+    close: "关闭",
+  },
+  detailInfoRepeat: {
+    fee: "{fee, number}韩元",
+    sizePyeong: "{size}坪",
+    capacityRange: "标准 {base, number} 人 / 最多 {max, number} 人",
+    capacity: "{count, number} 人",
+    course: "路线",
+    roomList: "客房列表",
+    roomName: "客房名称",
+    roomSize: "面积",
+    roomCapacity: "人数",
+    roomFee: "价格 (工作日最低)",
+    offSeason: "淡季 {fee}",
+    peakSeason: "旺季 {fee}",
+    inquire: "请咨询",
+    rooms: "客房信息",
+    general: "使用指南",
+  },
+  detailIntro: {
+    usetime: "开放时间",
+    restdate: "休息日",
+    infocenter: "咨询",
+    parking: "停车",
+    chkpet: "可否携带宠物",
+    expguide: "体验指南",
+    expagerange: "体验年龄",
+    usefee: "费用",
+    usetimeculture: "参观时间",
+    restdateculture: "闭馆日",
+    playtime: "演出时间",
+    eventplace: "活动地点",
+    eventhomepage: "活动网站",
+    openperiod: "开放期间",
+    reservation: "预约指南",
+    checkintime: "入住",
+    checkouttime: "退房",
+    roomcount: "客房数",
+    firstmenu: "招牌菜",
+    treatmenu: "菜单",
+    opentimefood: "营业时间",
+    title: "运营信息",
+    openLink: "打开{label} (新窗口)",
+  },
+  petTour: {
+    chkpetleash: "宠物政策",
+    chkpetsize: "体型限制",
+    chkpetplace: "可进入区域",
+    chkpetfee: "额外费用",
+    petinfo: "其他宠物信息",
+    parking: "停车信息",
+    allowed: "可携带宠物",
+    notAllowed: "不可携带宠物",
+    small: "允许小型犬",
+    medium: "允许中型犬",
+    large: "允许大型犬",
+    title: "携宠出行信息",
+    notAllowedMessage: "该景点不允许携带宠物，请勿携带宠物前往。",
+  },
+  recommendations: {
+    label: "推荐景点",
+    title: "您可能还喜欢",
+    description: "推荐同一地区或类似类型的景点。",
+    list: "推荐景点列表",
+  },
+  pagination: {
+    label: "分页",
+    previousPage: "上一页",
+    previous: "上一页",
+    goToPage: "前往第{page}页",
+    nextPage: "下一页",
+    next: "下一页",
+  },
+};
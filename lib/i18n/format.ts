@@ -0,0 +1,247 @@
+/**
+ * @file format.ts
+ * @description ICU 메시지 형식 문구 포맷터
+ *
+ * 메시지 카탈로그(lib/i18n/catalogs)의 문구를 값과 함께 포맷합니다.
+ * 외부 라이브러리 없이 Intl.PluralRules, Intl.NumberFormat으로 ICU 메시지 형식의 일부를 지원합니다.
+ *
+ * 지원하는 형식:
+ * - 값 치환: "{name}" (숫자 값은 로케일 숫자 형식으로 표시)
+ * - 숫자: "{count, number}", "{count, number, integer}", "{ratio, number, percent}"
+ * - 복수형: "{count, plural, =0 {없음} one {# item} other {# items}}" (# 은 로케일 숫자 형식)
+ * - 선택: "{status, select, ongoing {진행중} other {기타}}"
+ *
+ * 핵심 구현 로직:
+ * - 문구는 처음 포맷할 때 한 번만 파싱하고 파싱 결과를 재사용합니다.
+ * - 작은따옴표 이스케이프와 날짜/시간 인자는 지원하지 않습니다 (카탈로그에서 사용하지 않음).
+ * - 값이 없는 인자는 원문 그대로("{name}") 남겨 누락을 쉽게 발견할 수 있게 합니다.
+ */
+
+// =====================================================
+// 타입 정의
+// =====================================================
+
+/**
+ * 문구에 전달하는 값
+ */
+export type MessageValues = Record<string, string | number>;
+
+type MessageNode =
+  | { type: "text"; value: string }
+  | { type: "pound" }
+  | { type: "argument"; name: string }
+  | { type: "number"; name: string; style?: string }
+  | { type: "plural"; name: string; options: Record<string, MessageNode[]> }
+  | { type: "select"; name: string; options: Record<string, MessageNode[]> };
+
+// =====================================================
+// 파싱
+// =====================================================
+
+/**
+ * 파싱 결과 캐시 (문구 원문 → 노드 목록)
+ */
+const parsedMessages = new Map<string, MessageNode[]>();
+
+/**
+ * 문구 파서
+ * @param inPlural - 복수형 분기 안인지 여부 (# 을 숫자로 치환)
+ */
+function parseNodes(
+  pattern: string,
+  start: number,
+  inPlural: boolean,
+): { nodes: MessageNode[]; end: number } {
+  const nodes: MessageNode[] = [];
+  let text = "";
+  let index = start;
+
+  const flushText = () => {
+    if (text) {
+      nodes.push({ type: "text", value: text });
+      text = "";
+    }
+  };
+
+  while (index < pattern.length) {
+    const char = pattern[index];
+
+    if (char === "}") {
+      break;
+    }
+
+    if (char === "#" && inPlural) {
+      flushText();
+      nodes.push({ type: "pound" });
+      index += 1;
+      continue;
+    }
+
+    if (char === "{") {
+      flushText();
+      const { node, end } = parseArgument(pattern, index + 1);
+      nodes.push(node);
+      index = end + 1;
+      continue;
+    }
+
+    text += char;
+    index += 1;
+  }
+
+  flushText();
+  return { nodes, end: index };
+}
+
+/**
+ * 인자 파서 ("{" 다음 위치부터 짝이 맞는 "}" 위치까지)
+ */
+function parseArgument(pattern: string, start: number): { node: MessageNode; end: number } {
+  const headerEnd = findHeaderEnd(pattern, start);
+  const header = pattern.slice(start, headerEnd);
+  const [name, type, style] = header.split(",").map((part) => part.trim());
+
+  if (type === "plural" || type === "select") {
+    const options: Record<string, MessageNode[]> = {};
+    let index = headerEnd + 1; // 두 번째 쉼표 다음
+
+    while (index < pattern.length) {
+      while (/\s/.test(pattern[index] ?? "")) index += 1;
+      if (pattern[index] === "}" || index >= pattern.length) break;
+
+      const selectorEnd = pattern.indexOf("{", index);
+      if (selectorEnd === -1) {
+        throw new SyntaxError(`잘못된 메시지 형식입니다: ${pattern}`);
+      }
+      const selector = pattern.slice(index, selectorEnd).trim();
+      const { nodes, end } = parseNodes(pattern, selectorEnd + 1, type === "plural");
+      options[selector] = nodes;
+      index = end + 1;
+    }
+
+    return { node: { type, name, options }, end: index };
+  }
+
+  if (type === "number") {
+    return { node: { type: "number", name, style }, end: headerEnd };
+  }
+
+  return { node: { type: "argument", name }, end: headerEnd };
+}
+
+/**
+ * 인자 머리 부분의 끝 위치
+ * 단순 인자는 닫는 중괄호, plural/select는 분기 시작 전 두 번째 쉼표 위치를 반환합니다.
+ */
+function findHeaderEnd(pattern: string, start: number): number {
+  const closeIndex = pattern.indexOf("}", start);
+  const firstComma = pattern.indexOf(",", start);
+  if (firstComma === -1 || firstComma > closeIndex) {
+    return closeIndex;
+  }
+
+  const secondComma = pattern.indexOf(",", firstComma + 1);
+  const type = pattern
+    .slice(firstComma + 1, secondComma === -1 ? closeIndex : secondComma)
+    .trim();
+
+  if ((type === "plural" || type === "select") && secondComma !== -1) {
+    return secondComma;
+  }
+  return closeIndex;
+}
+
+function parseMessage(pattern: string): MessageNode[] {
+  const cached = parsedMessages.get(pattern);
+  if (cached) {
+    return cached;
+  }
+
+  const { nodes } = parseNodes(pattern, 0, false);
+  parsedMessages.set(pattern, nodes);
+  return nodes;
+}
+
+// =====================================================
+// 포맷
+// =====================================================
+
+/**
+ * 숫자 포맷 (로케일 숫자 형식)
+ */
+export function formatNumber(
+  locale: string,
+  value: number,
+  options?: Intl.NumberFormatOptions,
+): string {
+  return new Intl.NumberFormat(locale, options).format(value);
+}
+
+function getNumberFormatOptions(style?: string): Intl.NumberFormatOptions | undefined {
+  switch (style) {
+    case "integer":
+      return { maximumFractionDigits: 0 };
+    case "percent":
+      return { style: "percent", maximumFractionDigits: 1 };
+    default:
+      return undefined;
+  }
+}
+
+function formatNodes(
+  nodes: MessageNode[],
+  locale: string,
+  values: MessageValues,
+  pluralValue?: number,
+): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return node.value;
+        case "pound":
+          return pluralValue === undefined ? "#" : formatNumber(locale, pluralValue);
+        case "argument": {
+          const value = values[node.name];
+          if (value === undefined) return `{${node.name}}`;
+          return typeof value === "number" ? formatNumber(locale, value) : value;
+        }
+        case "number": {
+          const value = values[node.name];
+          if (value === undefined) return `{${node.name}}`;
+          return formatNumber(locale, Number(value), getNumberFormatOptions(node.style));
+        }
+        case "plural": {
+          const value = Number(values[node.name]);
+          if (Number.isNaN(value)) return `{${node.name}}`;
+          const category = new Intl.PluralRules(locale).select(value);
+          const branch = node.options[`=${value}`] ?? node.options[category] ?? node.options.other;
+          return branch ? formatNodes(branch, locale, values, value) : "";
+        }
+        case "select": {
+          const value = values[node.name];
+          const branch = node.options[String(value)] ?? node.options.other;
+          return branch ? formatNodes(branch, locale, values, pluralValue) : "";
+        }
+      }
+    })
+    .join("");
+}
+
+/**
+ * 문구 포맷
+ * @param locale - BCP 47 언어 태그 (복수형 규칙과 숫자 형식에 사용)
+ * @param pattern - ICU 메시지 형식 문구
+ * @param values - 인자 값
+ * @example formatMessage("en", "{count, plural, one {# place} other {# places}}", { count: 1200 }) // "1,200 places"
+ */
+export function formatMessage(
+  locale: string,
+  pattern: string,
+  values: MessageValues = {},
+): string {
+  if (!pattern.includes("{")) {
+    return pattern;
+  }
+  return formatNodes(parseMessage(pattern), locale, values);
+}
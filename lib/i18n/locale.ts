@@ -0,0 +1,211 @@
+/**
+ * @file locale.ts
+ * @description 화면 언어(로케일) 정의 및 로케일 경로 처리
+ *
+ * 한국어는 접두사 없는 경로(/, /places/...)를, 외국어는 로케일 접두사 경로(/en, /ja, /zh)를 사용합니다.
+ * 로케일은 한국관광공사 언어별 서비스(TourLanguage)와 1:1로 대응하여
+ * 접두사 경로의 페이지는 해당 언어 서비스에서 관광 정보를 조회합니다.
+ *
+ * 주요 기능:
+ * 1. 로케일 목록 및 로케일별 표시 정보 (LOCALE_INFO)
+ * 2. 경로에서 로케일 접두사 분리 (splitLocalePath)
+ * 3. 로케일 경로 생성 (localizePath)
+ * 4. 외국어를 지원하는 페이지 판별 (isLocalizedRoute)
+ * 5. 로케일 감지 (URL 접두사 → 쿠키 → Accept-Language 순서, detectLocale)
+ *
+ * 핵심 구현 로직:
+ * - middleware.ts가 접두사 경로를 접두사 없는 페이지로 rewrite하고 로케일을 요청 헤더(LOCALE_HEADER)로 전달합니다.
+ * - 접두사 경로를 방문하거나 언어를 선택하면 쿠키(LOCALE_COOKIE)에 저장하여 다음 방문에도 사용합니다.
+ * - 서버와 클라이언트 모두 사용하므로 서버 전용 API를 사용하지 않습니다.
+ *
+ * @dependencies
+ * - lib/types/tour.ts: TourLanguage, TOUR_LANGUAGES
+ */
+
+import {
+  DEFAULT_TOUR_LANGUAGE,
+  TOUR_LANGUAGES,
+  isTourLanguage,
+  type TourLanguage,
+} from "@/lib/types/tour";
+
+// =====================================================
+// 로케일 정의
+// =====================================================
+
+/**
+ * 화면 언어 (한국관광공사 언어별 서비스와 동일)
+ */
+export type Locale = TourLanguage;
+
+export const LOCALES = TOUR_LANGUAGES;
+
+export const DEFAULT_LOCALE: Locale = DEFAULT_TOUR_LANGUAGE;
+
+export const isLocale = isTourLanguage;
+
+/**
+ * middleware.ts가 로케일을 전달하는 요청 헤더
+ */
+export const LOCALE_HEADER = "x-mytrip-locale";
+
+/**
+ * 선택한 로케일을 저장하는 쿠키
+ */
+export const LOCALE_COOKIE = "mytrip-locale";
+
+const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365; // 1년 (초)
+
+/**
+ * 로케일별 표시 정보
+ */
+export const LOCALE_INFO: Record<
+  Locale,
+  { label: string; htmlLang: string; openGraphLocale: string }
+> = {
+  ko: { label: "한국어", htmlLang: "ko", openGraphLocale: "ko_KR" },
+  en: { label: "English", htmlLang: "en", openGraphLocale: "en_US" },
+  ja: { label: "日本語", htmlLang: "ja", openGraphLocale: "ja_JP" },
+  zh: { label: "简体中文", htmlLang: "zh-CN", openGraphLocale: "zh_CN" },
+};
+
+/**
+ * 외국어 경로를 지원하는 페이지
+ * 북마크/통계는 한국어 데이터(Supabase 북마크, 국문 서비스 통계)만 다루므로 제외합니다.
+ */
+const LOCALIZED_ROUTES = ["/", "/festivals", "/places"];
+
+// =====================================================
+// 로케일 경로
+// =====================================================
+
+/**
+ * 경로에서 로케일 접두사 분리
+ * @example splitLocalePath("/en/places/123") // { locale: "en", pathname: "/places/123" }
+ * @example splitLocalePath("/places/123") // { locale: "ko", pathname: "/places/123" }
+ */
+export function splitLocalePath(pathname: string): { locale: Locale; pathname: string } {
+  const [, firstSegment, ...rest] = pathname.split("/");
+
+  if (firstSegment && firstSegment !== DEFAULT_LOCALE && isLocale(firstSegment)) {
+    return { locale: firstSegment, pathname: `/${rest.join("/")}` };
+  }
+  return { locale: DEFAULT_LOCALE, pathname };
+}
+
+/**
+ * 로케일 경로 생성 (쿼리 문자열 포함 가능)
+ * @example localizePath("/?areaCode=1", "en") // "/en?areaCode=1"
+ * @example localizePath("/places/123", "ko") // "/places/123"
+ */
+export function localizePath(path: string, locale: Locale): string {
+  if (locale === DEFAULT_LOCALE) {
+    return path;
+  }
+  if (path === "/" || path.startsWith("/?")) {
+    return `/${locale}${path.slice(1)}`;
+  }
+  return `/${locale}${path}`;
+}
+
+/**
+ * 외국어 경로를 지원하는 페이지인지 확인
+ * @param pathname - 로케일 접두사를 제거한 경로
+ */
+export function isLocalizedRoute(pathname: string): boolean {
+  return LOCALIZED_ROUTES.some((route) =>
+    route === "/" ? pathname === "/" : pathname === route || pathname.startsWith(`${route}/`)
+  );
+}
+
+// =====================================================
+// 로케일 감지
+// =====================================================
+
+/**
+ * Accept-Language 헤더에서 지원하는 로케일 찾기
+ * 품질값(q) 순서로 기본 언어 태그만 비교합니다 (zh-TW 등 번체 중국어도 zh로 처리).
+ * @example matchAcceptLanguage("ja-JP,ja;q=0.9,en;q=0.8") // "ja"
+ */
+export function matchAcceptLanguage(header: string | null | undefined): Locale | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const languages = header
+    .split(",")
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(";");
+      const quality = params.find((param) => param.trim().startsWith("q="));
+      return { tag: tag.trim().toLowerCase(), q: quality ? Number(quality.trim().slice(2)) : 1 };
+    })
+    .filter(({ tag, q }) => tag && q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  for (const { tag } of languages) {
+    const primary = tag.split("-")[0];
+    if (isLocale(primary)) {
+      return primary;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 요청 로케일 감지
+ * 우선순위: URL 로케일 접두사 → 로케일 쿠키 → Accept-Language → 한국어
+ */
+export function detectLocale({
+  pathname,
+  cookie,
+  acceptLanguage,
+}: {
+  pathname: string;
+  cookie?: string | null;
+  acceptLanguage?: string | null;
+}): Locale {
+  const { locale: pathLocale } = splitLocalePath(pathname);
+  if (pathLocale !== DEFAULT_LOCALE) {
+    return pathLocale;
+  }
+  if (isLocale(cookie)) {
+    return cookie;
+  }
+  return matchAcceptLanguage(acceptLanguage) ?? DEFAULT_LOCALE;
+}
+
+/**
+ * 로케일 쿠키 문자열 (document.cookie 저장용)
+ */
+export function serializeLocaleCookie(locale: Locale): string {
+  return `${LOCALE_COOKIE}=${locale}; path=/; max-age=${LOCALE_COOKIE_MAX_AGE}; samesite=lax`;
+}
+
+/**
+ * 로케일 쿠키 옵션 (middleware 응답 쿠키 저장용)
+ */
+export const LOCALE_COOKIE_OPTIONS = {
+  path: "/",
+  maxAge: LOCALE_COOKIE_MAX_AGE,
+  sameSite: "lax",
+} as const;
+
+/**
+ * 브라우저에서 로케일 감지 (LocaleProvider 밖에서 사용, 예: global-error.tsx)
+ */
+export function detectBrowserLocale(): Locale {
+  if (typeof window === "undefined") {
+    return DEFAULT_LOCALE;
+  }
+
+  const cookie = document.cookie
+    .split(";")
+    .map((part) => part.trim().split("="))
+    .find(([name]) => name === LOCALE_COOKIE)?.[1];
+
+  return detectLocale({
+    pathname: window.location.pathname,
+    cookie,
+    acceptLanguage: navigator.languages.join(","),
+  });
+}
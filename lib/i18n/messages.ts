@@ -0,0 +1,91 @@
+/**
+ * @file messages.ts
+ * @description 메시지 카탈로그 조회 및 번역 함수
+ *
+ * 로케일별 메시지 카탈로그(lib/i18n/catalogs)에서 키로 문구를 찾아 포맷합니다.
+ * 키는 한국어 카탈로그 구조에서 만든 점 표기 경로(MessageKey)이므로 잘못된 키는 타입 에러가 됩니다.
+ *
+ * 주요 기능:
+ * 1. 로케일별 카탈로그 (CATALOGS)
+ * 2. 키로 문구 조회 및 ICU 포맷 (translate)
+ * 3. 로케일을 고정한 번역 함수 생성 (createTranslator)
+ *
+ * 핵심 구현 로직:
+ * - 서버와 클라이언트 모두 사용합니다 (서버: lib/i18n/server.ts, 클라이언트: useTranslations).
+ * - 해당 로케일에 문구가 없으면 한국어 문구를 사용합니다.
+ *
+ * @dependencies
+ * - lib/i18n/catalogs/*: 로케일별 카탈로그
+ * - lib/i18n/format.ts: formatMessage
+ * - lib/i18n/locale.ts: Locale, LOCALE_INFO
+ */
+
+import { en } from "./catalogs/en";
+import { ja } from "./catalogs/ja";
+import { ko, type MessageCatalog } from "./catalogs/ko";
+import { zh } from "./catalogs/zh";
+import { formatMessage, type MessageValues } from "./format";
+import { DEFAULT_LOCALE, LOCALE_INFO, type Locale } from "./locale";
+
+export type { MessageValues } from "./format";
+
+// =====================================================
+// 카탈로그
+// =====================================================
+
+export const CATALOGS: Record<Locale, MessageCatalog> = { ko, en, ja, zh };
+
+type MessagePaths<T, Prefix extends string = ""> = {
+  [K in keyof T & string]: T[K] extends string
+    ? `${Prefix}${K}`
+    : MessagePaths<T[K], `${Prefix}${K}.`>;
+}[keyof T & string];
+
+/**
+ * 메시지 키 (예: "home.title", "contentType.12")
+ */
+export type MessageKey = MessagePaths<MessageCatalog>;
+
+/**
+ * 번역 함수
+ */
+export type Translator = (key: MessageKey, values?: MessageValues) => string;
+
+// =====================================================
+// 번역
+// =====================================================
+
+function lookup(catalog: MessageCatalog, key: string): string | undefined {
+  const value = key
+    .split(".")
+    .reduce<unknown>(
+      (node, segment) =>
+        node && typeof node === "object" ? (node as Record<string, unknown>)[segment] : undefined,
+      catalog,
+    );
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * 카탈로그에 있는 키인지 확인 (코드 값으로 키를 만드는 경우, 예: "contentType.99")
+ */
+export function isMessageKey(key: string): key is MessageKey {
+  return lookup(CATALOGS[DEFAULT_LOCALE], key) !== undefined;
+}
+
+/**
+ * 문구 조회 및 포맷
+ * @example translate("en", "festivals.listHeading", { count: 3 }) // "Festivals (3 events)"
+ */
+export function translate(locale: Locale, key: MessageKey, values?: MessageValues): string {
+  const pattern = lookup(CATALOGS[locale], key) ?? lookup(CATALOGS[DEFAULT_LOCALE], key) ?? key;
+  return formatMessage(LOCALE_INFO[locale].htmlLang, pattern, values);
+}
+
+/**
+ * 로케일을 고정한 번역 함수 생성
+ * @example const t = createTranslator("ja"); t("nav.home") // "ホーム"
+ */
+export function createTranslator(locale: Locale): Translator {
+  return (key, values) => translate(locale, key, values);
+}
@@ -0,0 +1,37 @@
+/**
+ * @file names.ts
+ * @description 콘텐츠 타입명, 시/도명 조회
+ *
+ * 콘텐츠 타입명과 시/도명은 메시지 카탈로그(contentType, area)가 유일한 출처입니다.
+ * 화면, 통계, 지도 등에서 타입명/지역명이 필요하면 별도 매핑을 두지 않고 이 함수를 사용합니다.
+ *
+ * @dependencies
+ * - lib/i18n/messages.ts: translate, isMessageKey
+ */
+
+import { DEFAULT_LOCALE, type Locale } from "./locale";
+import { isMessageKey, translate } from "./messages";
+
+/**
+ * 콘텐츠 타입명 (알 수 없는 타입은 "기타")
+ * @param contentTypeId - 국문 서비스 콘텐츠 타입 ID (CONTENT_TYPE)
+ */
+export function getContentTypeName(
+  contentTypeId: string | undefined | null,
+  locale: Locale = DEFAULT_LOCALE,
+): string {
+  const key = `contentType.${contentTypeId}`;
+  return translate(locale, isMessageKey(key) ? key : "contentType.other");
+}
+
+/**
+ * 시/도명 (약칭, 알 수 없는 지역코드면 undefined)
+ * @param areaCode - 기존 지역코드 (areaCode2)
+ */
+export function getAreaName(
+  areaCode: string | undefined | null,
+  locale: Locale = DEFAULT_LOCALE,
+): string | undefined {
+  const key = `area.${areaCode}`;
+  return isMessageKey(key) ? translate(locale, key) : undefined;
+}
@@ -0,0 +1,35 @@
+/**
+ * @file server.ts
+ * @description 서버 컴포넌트용 로케일 조회
+ *
+ * middleware.ts가 요청 헤더로 전달한 로케일을 읽습니다.
+ * (middleware.ts가 URL 접두사, 쿠키, Accept-Language 순서로 감지한 값)
+ * 로케일 접두사 경로는 접두사 없는 페이지로 rewrite되므로 페이지는 경로 대신 이 함수로 로케일을 확인합니다.
+ *
+ * @dependencies
+ * - next/headers: headers
+ * - lib/i18n/locale.ts: LOCALE_HEADER, Locale
+ * - lib/i18n/messages.ts: createTranslator
+ */
+
+import "server-only";
+
+import { headers } from "next/headers";
+import { DEFAULT_LOCALE, LOCALE_HEADER, isLocale, type Locale } from "./locale";
+import { createTranslator, type Translator } from "./messages";
+
+/**
+ * 현재 요청의 로케일 (헤더가 없으면 한국어)
+ */
+export async function getRequestLocale(): Promise<Locale> {
+  const locale = (await headers()).get(LOCALE_HEADER);
+  return isLocale(locale) ? locale : DEFAULT_LOCALE;
+}
+
+/**
+ * 현재 요청 로케일의 번역 함수
+ * @example const t = await getTranslations(); t("home.title")
+ */
+export async function getTranslations(): Promise<Translator> {
+  return createTranslator(await getRequestLocale());
+}
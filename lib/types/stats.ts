@@ -8,6 +8,7 @@
  * - RegionStats: 지역별 관광지 통계
  * - TypeStats: 타입별 관광지 통계
  * - StatsSummary: 통계 요약 정보
+ * - StatsCollection: 통계 수집 결과 (일부 항목 수집 실패 포함)
  *
  * @see {@link /docs/PRD.MD} - 통계 대시보드 요구사항 참고
  */
@@ -18,7 +19,9 @@
  */
 export interface RegionStats {
   areaCode: string; // 지역코드
-  name: string; // 지역명 (예: 서울, 부산, 제주)
+  sigunguCode?: string; // 시군구코드 (시/도 하위 통계인 경우)
+  lDongRegnCd?: string; // 법정동 시/도 코드 (매핑되는 경우)
+  name: string; // 지역명 (예: 서울, 부산, 제주 / 시군구 통계는 수원시, 강남구 등)
   count: number; // 관광지 개수
 }
 
@@ -42,5 +45,15 @@ export interface StatsSummary {
   topRegions: RegionStats[]; // Top 3 지역
   topTypes: TypeStats[]; // Top 3 타입
   lastUpdated: Date; // 마지막 업데이트 시간
+  missingCount: number; // 수집하지 못한 지역/타입 수 (호출 한도 도달, 일시적인 장애, 0이면 전체 수집)
+}
+
+/**
+ * 통계 수집 결과
+ * 일부 항목 수집에 실패하면 수집한 항목만 담고 실패한 항목 수를 함께 반환합니다.
+ */
+export interface StatsCollection<T> {
+  items: T[]; // 수집한 통계
+  missingCount: number; // 수집하지 못한 항목 수 (0이면 전체 수집)
 }
 
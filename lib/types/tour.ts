@@ -10,10 +10,19 @@
  * - TourIntro: 관광지 운영 정보
  * - TourImage: 관광지 이미지 정보
  * - PetTourInfo: 반려동물 동반 정보
+ * - LocationTourItem: 위치 기반 목록 항목 (거리 포함)
+ * - FestivalItem: 행사정보 목록 항목 (행사 기간 포함)
+ * - StayItem: 숙박정보 목록 항목 (숙박 소개 정보 포함)
+ * - DetailInfo: 반복 정보 (여행코스 경로, 숙박 객실, 기타 이용 안내)
+ *
+ * 응답 타입은 zod 스키마에서 추론합니다 (z.infer).
+ * 스키마는 lib/api/tour-api.ts에서 응답 검증과 정규화(숫자/문자열 통일, 단일 항목 → 배열)에 사용됩니다.
  *
  * @see {@link /docs/PRD.MD} - API 명세 및 데이터 구조 참고
  */
 
+import { z } from 'zod';
+
 // =====================================================
 // Content Type ID 상수
 // =====================================================
@@ -32,152 +41,430 @@ export const CONTENT_TYPE = {
 export type ContentTypeId = (typeof CONTENT_TYPE)[keyof typeof CONTENT_TYPE];
 
 // =====================================================
-// 기본 타입 인터페이스
+// 언어 (다국어 서비스)
+// =====================================================
+
+/**
+ * 지원 언어
+ * ko: 국문(KorService2), en: 영문(EngService2), ja: 일문(JpnService2), zh: 중문 간체(ChsService2)
+ */
+export const TOUR_LANGUAGES = ['ko', 'en', 'ja', 'zh'] as const;
+
+export type TourLanguage = (typeof TOUR_LANGUAGES)[number];
+
+export const DEFAULT_TOUR_LANGUAGE: TourLanguage = 'ko';
+
+/**
+ * 외국어 서비스 콘텐츠 타입 ID (국문 ID → 외국어 서비스 ID)
+ * 외국어 서비스는 ID 체계가 다르며 여행코스(25)가 없습니다.
+ */
+export const FOREIGN_CONTENT_TYPE: Partial<Record<ContentTypeId, string>> = {
+  [CONTENT_TYPE.TOURIST_SPOT]: '76',
+  [CONTENT_TYPE.CULTURAL_FACILITY]: '78',
+  [CONTENT_TYPE.FESTIVAL]: '85',
+  [CONTENT_TYPE.LEISURE_SPORTS]: '75',
+  [CONTENT_TYPE.ACCOMMODATION]: '80',
+  [CONTENT_TYPE.SHOPPING]: '79',
+  [CONTENT_TYPE.RESTAURANT]: '82',
+};
+
+/**
+ * 언어 타입 가드
+ */
+export function isTourLanguage(value: unknown): value is TourLanguage {
+  return typeof value === 'string' && (TOUR_LANGUAGES as readonly string[]).includes(value);
+}
+
+// =====================================================
+// 응답 필드 스키마
+// =====================================================
+
+/**
+ * 문자열 필드
+ * 엔드포인트에 따라 숫자로 오는 값(코드, 좌표, 순번 등)을 문자열로 통일합니다.
+ */
+const apiString = z.union([z.string(), z.number()]).transform(String);
+
+/**
+ * 선택 문자열 필드 (null은 undefined로 변환)
+ */
+const optionalApiString = z
+  .union([z.string(), z.number()])
+  .nullish()
+  .transform((value) => (value === null || value === undefined ? undefined : String(value)));
+
+/**
+ * 숫자 필드
+ * 엔드포인트에 따라 문자열로 오는 값(totalCount 등)을 숫자로 통일합니다.
+ */
+const apiNumber = z
+  .union([z.number(), z.string().trim().regex(/^-?\d+(\.\d+)?$/, '숫자 형식이 아닙니다.')])
+  .transform(Number);
+
+/**
+ * 선택 숫자 필드 (null, 빈 문자열은 undefined로 변환)
+ */
+const optionalApiNumber = z
+  .union([apiNumber, z.literal(''), z.null()])
+  .optional()
+  .transform((value) => (typeof value === 'number' ? value : undefined));
+
+// =====================================================
+// 기본 타입 스키마
 // =====================================================
 
 /**
  * 관광지 목록 항목 (areaBasedList2, searchKeyword2 응답)
  * @see PRD 5.1
  */
-export interface TourItem {
-  addr1: string; // 주소
-  addr2?: string; // 상세주소
-  areacode: string; // 지역코드
-  contentid: string; // 콘텐츠ID
-  contenttypeid: string; // 콘텐츠타입ID
-  title: string; // 제목
-  mapx: string; // 경도 (KATEC 좌표계, 정수형)
-  mapy: string; // 위도 (KATEC 좌표계, 정수형)
-  firstimage?: string; // 대표이미지1
-  firstimage2?: string; // 대표이미지2
-  tel?: string; // 전화번호
-  cat1?: string; // 대분류
-  cat2?: string; // 중분류
-  cat3?: string; // 소분류
-  modifiedtime: string; // 수정일
-}
+export const tourItemSchema = z.object({
+  addr1: apiString, // 주소
+  addr2: optionalApiString, // 상세주소
+  areacode: apiString, // 지역코드
+  contentid: apiString, // 콘텐츠ID
+  contenttypeid: apiString, // 콘텐츠타입ID
+  title: apiString, // 제목
+  mapx: apiString, // 경도 (KATEC 좌표계, 정수형)
+  mapy: apiString, // 위도 (KATEC 좌표계, 정수형)
+  firstimage: optionalApiString, // 대표이미지1
+  firstimage2: optionalApiString, // 대표이미지2
+  tel: optionalApiString, // 전화번호
+  cat1: optionalApiString, // 대분류
+  cat2: optionalApiString, // 중분류
+  cat3: optionalApiString, // 소분류
+  sigungucode: optionalApiString, // 시군구코드
+  lDongRegnCd: optionalApiString, // 법정동 시/도 코드
+  lDongSignguCd: optionalApiString, // 법정동 시군구 코드
+  lclsSystm1: optionalApiString, // 분류체계 대분류
+  lclsSystm2: optionalApiString, // 분류체계 중분류
+  lclsSystm3: optionalApiString, // 분류체계 소분류
+  createdtime: optionalApiString, // 등록일
+  modifiedtime: apiString, // 수정일
+});
+
+export type TourItem = z.infer<typeof tourItemSchema>;
+
+/**
+ * 위치 기반 목록 항목 (locationBasedList2 응답)
+ * 기준 좌표로부터의 거리(dist)가 추가로 포함됩니다.
+ */
+export const locationTourItemSchema = tourItemSchema.extend({
+  dist: apiString, // 기준 좌표로부터의 거리 (미터)
+});
+
+export type LocationTourItem = z.infer<typeof locationTourItemSchema>;
+
+/**
+ * 행사정보 목록 항목 (searchFestival2 응답)
+ * 행사 시작일/종료일(eventstartdate, eventenddate)이 추가로 포함됩니다.
+ */
+export const festivalItemSchema = tourItemSchema.extend({
+  eventstartdate: apiString, // 행사 시작일 (YYYYMMDD)
+  eventenddate: apiString, // 행사 종료일 (YYYYMMDD)
+});
+
+export type FestivalItem = z.infer<typeof festivalItemSchema>;
+
+/**
+ * 숙박정보 목록 항목 (searchStay2 응답 + detailIntro2 숙박 필드)
+ * 목록 응답에는 체크인/주차 정보가 없으므로 소개 정보 조회 결과를 병합합니다.
+ * 소개 정보 조회에 실패한 항목은 숙박 필드가 비어 있습니다.
+ */
+export const stayItemSchema = tourItemSchema.extend({
+  checkintime: optionalApiString, // 체크인
+  checkouttime: optionalApiString, // 체크아웃
+  roomcount: optionalApiString, // 객실수
+  parkinglodging: optionalApiString, // 주차시설
+});
+
+export type StayItem = z.infer<typeof stayItemSchema>;
 
 /**
  * 관광지 상세 정보 (detailCommon2 응답)
  * @see PRD 5.2
  */
-export interface TourDetail {
-  contentid: string;
-  contenttypeid: string;
-  title: string;
-  addr1: string;
-  addr2?: string;
-  zipcode?: string;
-  tel?: string;
-  homepage?: string;
-  overview?: string; // 개요 (긴 설명)
-  firstimage?: string;
-  firstimage2?: string;
-  mapx: string; // 경도 (KATEC 좌표계)
-  mapy: string; // 위도 (KATEC 좌표계)
-}
+export const tourDetailSchema = z.object({
+  contentid: apiString,
+  contenttypeid: apiString,
+  title: apiString,
+  addr1: apiString,
+  addr2: optionalApiString,
+  zipcode: optionalApiString,
+  tel: optionalApiString,
+  homepage: optionalApiString,
+  overview: optionalApiString, // 개요 (긴 설명)
+  firstimage: optionalApiString,
+  firstimage2: optionalApiString,
+  mapx: apiString, // 경도 (KATEC 좌표계)
+  mapy: apiString, // 위도 (KATEC 좌표계)
+  areacode: optionalApiString, // 지역코드
+  sigungucode: optionalApiString, // 시군구코드
+  cat1: optionalApiString, // 대분류
+  cat2: optionalApiString, // 중분류
+  cat3: optionalApiString, // 소분류
+  lDongRegnCd: optionalApiString, // 법정동 시/도 코드
+  lDongSignguCd: optionalApiString, // 법정동 시군구 코드
+  lclsSystm1: optionalApiString, // 분류체계 대분류
+  lclsSystm2: optionalApiString, // 분류체계 중분류
+  lclsSystm3: optionalApiString, // 분류체계 소분류
+});
+
+export type TourDetail = z.infer<typeof tourDetailSchema>;
 
 /**
  * 관광지 운영 정보 (detailIntro2 응답)
  * @see PRD 5.3
  * 타입별로 필드가 다를 수 있음
  */
-export interface TourIntro {
-  contentid: string;
-  contenttypeid: string;
+export const tourIntroSchema = z.object({
+  contentid: apiString,
+  contenttypeid: apiString,
   // 공통 필드
-  usetime?: string; // 이용시간
-  restdate?: string; // 휴무일
-  infocenter?: string; // 문의처
-  parking?: string; // 주차 가능
-  chkpet?: string; // 반려동물 동반
+  usetime: optionalApiString, // 이용시간
+  restdate: optionalApiString, // 휴무일
+  infocenter: optionalApiString, // 문의처
+  parking: optionalApiString, // 주차 가능
+  chkpet: optionalApiString, // 반려동물 동반
   // 관광지(12) 필드
-  expguide?: string; // 체험안내
-  expagerange?: string; // 체험가능연령
+  expguide: optionalApiString, // 체험안내
+  expagerange: optionalApiString, // 체험가능연령
   // 문화시설(14) 필드
-  usefee?: string; // 이용요금
-  usetimeculture?: string; // 관람시간
-  restdateculture?: string; // 휴관일
+  usefee: optionalApiString, // 이용요금
+  usetimeculture: optionalApiString, // 관람시간
+  restdateculture: optionalApiString, // 휴관일
   // 축제/행사(15) 필드
-  playtime?: string; // 공연시간
-  eventplace?: string; // 행사장소
-  eventhomepage?: string; // 행사홈페이지
+  playtime: optionalApiString, // 공연시간
+  eventplace: optionalApiString, // 행사장소
+  eventhomepage: optionalApiString, // 행사홈페이지
   // 레포츠(28) 필드
-  openperiod?: string; // 개장기간
-  reservation?: string; // 예약안내
+  openperiod: optionalApiString, // 개장기간
+  reservation: optionalApiString, // 예약안내
   // 숙박(32) 필드
-  checkintime?: string; // 체크인
-  checkouttime?: string; // 체크아웃
-  roomcount?: string; // 객실수
+  checkintime: optionalApiString, // 체크인
+  checkouttime: optionalApiString, // 체크아웃
+  roomcount: optionalApiString, // 객실수
+  parkinglodging: optionalApiString, // 주차시설
+  reservationlodging: optionalApiString, // 예약안내
+  chkcooking: optionalApiString, // 객실내 취사 여부
+  subfacility: optionalApiString, // 부대시설
   // 음식점(39) 필드
-  firstmenu?: string; // 대표메뉴
-  treatmenu?: string; // 취급메뉴
-  opentimefood?: string; // 영업시간
-}
+  firstmenu: optionalApiString, // 대표메뉴
+  treatmenu: optionalApiString, // 취급메뉴
+  opentimefood: optionalApiString, // 영업시간
+});
+
+export type TourIntro = z.infer<typeof tourIntroSchema>;
 
 /**
  * 관광지 이미지 정보 (detailImage2 응답)
  */
-export interface TourImage {
-  contentid: string;
-  originimgurl: string; // 원본 이미지 URL
-  smallimageurl: string; // 썸네일 이미지 URL
-  imgname?: string; // 이미지명
-  serialnum?: string; // 일련번호
-}
+export const tourImageSchema = z.object({
+  contentid: apiString,
+  originimgurl: apiString, // 원본 이미지 URL
+  smallimageurl: apiString, // 썸네일 이미지 URL
+  imgname: optionalApiString, // 이미지명
+  serialnum: optionalApiString, // 일련번호
+});
+
+export type TourImage = z.infer<typeof tourImageSchema>;
 
 /**
  * 반려동물 동반 정보 (detailPetTour2 응답)
  * @see PRD 2.5
  */
-export interface PetTourInfo {
-  contentid: string;
-  contenttypeid: string;
-  chkpetleash?: string; // 애완동물 동반 여부
-  chkpetsize?: string; // 애완동물 크기
-  chkpetplace?: string; // 입장 가능 장소
-  chkpetfee?: string; // 추가 요금
-  petinfo?: string; // 기타 반려동물 정보
-  parking?: string; // 주차장 정보
-}
+export const petTourInfoSchema = z.object({
+  contentid: apiString,
+  contenttypeid: apiString,
+  chkpetleash: optionalApiString, // 애완동물 동반 여부
+  chkpetsize: optionalApiString, // 애완동물 크기
+  chkpetplace: optionalApiString, // 입장 가능 장소
+  chkpetfee: optionalApiString, // 추가 요금
+  petinfo: optionalApiString, // 기타 반려동물 정보
+  parking: optionalApiString, // 주차장 정보
+});
+
+export type PetTourInfo = z.infer<typeof petTourInfoSchema>;
+
+/**
+ * 여행코스 반복 정보 항목 (detailInfo2, 여행코스(25))
+ * 코스를 구성하는 각 장소 정보입니다.
+ */
+export const courseInfoItemSchema = z.object({
+  contentid: apiString,
+  contenttypeid: apiString,
+  subnum: apiString, // 코스 순번 (0부터 시작)
+  subcontentid: apiString, // 코스 장소 콘텐츠ID
+  subname: apiString, // 코스 장소명
+  subdetailoverview: optionalApiString, // 코스 장소 개요
+  subdetailimg: optionalApiString, // 코스 장소 이미지
+  subdetailalt: optionalApiString, // 코스 장소 이미지 설명
+});
+
+export type CourseInfoItem = z.infer<typeof courseInfoItemSchema>;
+
+/**
+ * 숙박 객실 반복 정보 항목 (detailInfo2, 숙박(32))
+ */
+export const roomInfoItemSchema = z.object({
+  contentid: apiString,
+  contenttypeid: apiString,
+  roomcode: optionalApiString, // 객실코드
+  roomtitle: apiString, // 객실명
+  roomsize1: optionalApiString, // 객실크기 (평)
+  roomsize2: optionalApiString, // 객실크기 (㎡)
+  roomcount: optionalApiString, // 객실수
+  roombasecount: optionalApiString, // 기준인원
+  roommaxcount: optionalApiString, // 최대인원
+  roomoffseasonminfee1: optionalApiString, // 비수기 주중 최소요금
+  roomoffseasonminfee2: optionalApiString, // 비수기 주말 최소요금
+  roompeakseasonminfee1: optionalApiString, // 성수기 주중 최소요금
+  roompeakseasonminfee2: optionalApiString, // 성수기 주말 최소요금
+  roomintro: optionalApiString, // 객실소개
+  roomimg1: optionalApiString, // 객실사진1
+  roomimg1alt: optionalApiString, // 객실사진1 설명
+});
+
+export type RoomInfoItem = z.infer<typeof roomInfoItemSchema>;
+
+/**
+ * 일반 반복 정보 항목 (detailInfo2, 여행코스/숙박 외 타입)
+ * 입장료, 화장실, 이용 안내 등 항목명/내용 쌍으로 제공됩니다.
+ */
+export const generalInfoItemSchema = z.object({
+  contentid: apiString,
+  contenttypeid: apiString,
+  serialnum: optionalApiString, // 반복 일련번호
+  fldgubun: optionalApiString, // 항목 구분
+  infoname: apiString, // 항목명
+  infotext: apiString, // 항목 내용
+});
+
+export type GeneralInfoItem = z.infer<typeof generalInfoItemSchema>;
 
 /**
  * 지역코드 정보 (areaCode2 응답)
  */
-export interface AreaCode {
-  code: string; // 지역코드
-  name: string; // 지역명
-  rnum?: string; // 순번
-}
+export const areaCodeSchema = z.object({
+  code: apiString, // 지역코드 (시/도 또는 시군구)
+  name: apiString, // 지역명
+  rnum: optionalApiString, // 순번
+});
+
+export type AreaCode = z.infer<typeof areaCodeSchema>;
+
+/**
+ * 서비스 분류코드 정보 (categoryCode2 응답)
+ * 대분류(cat1) → 중분류(cat2) → 소분류(cat3) 계층 구조입니다.
+ */
+export const categoryCodeSchema = z.object({
+  code: apiString, // 분류코드 (예: A01, A0101, A01010100)
+  name: apiString, // 분류명
+  rnum: optionalApiString, // 순번
+});
+
+export type CategoryCode = z.infer<typeof categoryCodeSchema>;
+
+/**
+ * 법정동 코드 정보 (ldongCode2 응답)
+ * 시/도 코드 없이 조회하면 시/도 목록, 지정하면 해당 시/도의 시군구 목록입니다.
+ */
+export const lDongCodeSchema = z.object({
+  code: apiString, // 법정동 시/도 코드 또는 시군구 코드
+  name: apiString, // 지역명
+  rnum: optionalApiString, // 순번
+});
+
+export type LDongCode = z.infer<typeof lDongCodeSchema>;
+
+/**
+ * 분류체계 코드 정보 (lclsSystmCode2 응답)
+ * 상위 분류 코드를 지정하면 바로 아래 단계의 분류 목록입니다.
+ */
+export const lclsSystmCodeSchema = z.object({
+  code: apiString, // 분류체계 코드 (예: AC, AC01, AC0101)
+  name: apiString, // 분류명
+  rnum: optionalApiString, // 순번
+});
+
+export type LclsSystmCode = z.infer<typeof lclsSystmCodeSchema>;
 
 // =====================================================
-// API 응답 래퍼 타입
+// API 응답 래퍼 스키마
 // =====================================================
 
+/**
+ * 한국관광공사 API 응답 헤더
+ * 에러 응답은 body 구조가 다를 수 있으므로 헤더만 먼저 검증합니다.
+ */
+export const tourAPIHeaderSchema = z.object({
+  response: z.object({
+    header: z.object({
+      resultCode: apiString,
+      resultMsg: optionalApiString,
+    }),
+  }),
+});
+
+/**
+ * 항목 목록 검증 결과
+ */
+export interface TourAPIItemsResult<T> {
+  items: T[]; // 형식이 올바른 항목 (응답 순서)
+  invalidItems: { index: number; error: z.ZodError }[]; // 제외한 항목의 응답 내 순번과 검증 에러
+}
+
 /**
  * 한국관광공사 API 공통 응답 구조
+ * items.item은 항목이 하나이면 객체, 여러 개이면 배열로 오고, 결과가 없으면 items가 빈 문자열입니다.
+ * 파싱 결과의 items는 항상 배열로 정규화됩니다.
+ * 항목은 하나씩 검증하여 형식이 잘못된 항목만 목록에서 제외하고, 제외한 항목의 검증 에러를 invalidItems로 반환합니다.
+ * @param itemSchema - 항목 스키마
  */
-export interface TourAPIResponse<T> {
-  response: {
-    header: {
-      resultCode: string;
-      resultMsg: string;
-    };
-    body: {
-      items?: {
-        item: T | T[];
-      };
-      numOfRows?: number;
-      pageNo?: number;
-      totalCount?: number;
-    };
-  };
+export function createTourAPIResponseSchema<T extends z.ZodTypeAny>(itemSchema: T) {
+  return z.object({
+    response: z.object({
+      header: z.object({
+        resultCode: apiString,
+        resultMsg: optionalApiString,
+      }),
+      body: z
+        .object({
+          items: z
+            .preprocess(
+              (items) => (items === '' || items === null || items === undefined ? { item: [] } : items),
+              z.object({
+                item: z.preprocess((item) => (Array.isArray(item) ? item : [item]), z.array(z.unknown())),
+              }),
+            )
+            .transform((items): TourAPIItemsResult<z.output<T>> => {
+              const result: TourAPIItemsResult<z.output<T>> = { items: [], invalidItems: [] };
+              items.item.forEach((item, index) => {
+                const parsed = itemSchema.safeParse(item);
+                if (parsed.success) {
+                  result.items.push(parsed.data);
+                } else {
+                  result.invalidItems.push({ index, error: parsed.error });
+                }
+              });
+              return result;
+            }),
+          numOfRows: optionalApiNumber,
+          pageNo: optionalApiNumber,
+          totalCount: optionalApiNumber,
+        })
+        .optional(),
+    }),
+  });
 }
 
+export type TourAPIResponse<T extends z.ZodTypeAny> = z.infer<
+  ReturnType<typeof createTourAPIResponseSchema<T>>
+>;
+
 /**
  * 지역코드 조회 응답
  */
-export type AreaCodeResponse = TourAPIResponse<AreaCode>;
+export type AreaCodeResponse = TourAPIResponse<typeof areaCodeSchema>;
 
 /**
  * 관광지 목록 응답
@@ -189,6 +476,36 @@ export interface TourListResponse {
   pageNo: number;
 }
 
+/**
+ * 위치 기반 목록 응답
+ */
+export interface LocationBasedListResponse {
+  items: LocationTourItem[];
+  totalCount: number;
+  numOfRows: number;
+  pageNo: number;
+}
+
+/**
+ * 행사정보 목록 응답
+ */
+export interface FestivalListResponse {
+  items: FestivalItem[];
+  totalCount: number;
+  numOfRows: number;
+  pageNo: number;
+}
+
+/**
+ * 숙박정보 목록 응답
+ */
+export interface StayListResponse {
+  items: StayItem[];
+  totalCount: number;
+  numOfRows: number;
+  pageNo: number;
+}
+
 /**
  * 검색 결과 응답 (TourListResponse와 동일)
  */
@@ -208,6 +525,27 @@ export interface TourIntroResponse {
   item: TourIntro;
 }
 
+/**
+ * 반복 정보 응답
+ * contentTypeId에 따라 items의 항목 타입이 달라지는 판별 유니온입니다.
+ */
+export type DetailInfoResponse =
+  | {
+      contentTypeId: typeof CONTENT_TYPE.TOUR_COURSE;
+      items: CourseInfoItem[];
+    }
+  | {
+      contentTypeId: typeof CONTENT_TYPE.ACCOMMODATION;
+      items: RoomInfoItem[];
+    }
+  | {
+      contentTypeId: Exclude<
+        ContentTypeId,
+        typeof CONTENT_TYPE.TOUR_COURSE | typeof CONTENT_TYPE.ACCOMMODATION
+      >;
+      items: GeneralInfoItem[];
+    };
+
 /**
  * 이미지 목록 응답
  */
@@ -227,10 +565,53 @@ export interface PetTourInfoResponse {
 // API 파라미터 타입
 // =====================================================
 
+/**
+ * 조회 언어 파라미터 (모든 조회 파라미터 공통)
+ * 외국어를 지정하면 해당 언어 서비스에서 조회합니다. 콘텐츠 타입 ID는 국문 체계로 주고받습니다.
+ */
+export interface TourLanguageParams {
+  language?: TourLanguage; // 조회 언어 (기본값: ko, 국문 서비스)
+}
+
 /**
  * 지역코드 조회 파라미터
  */
-export interface AreaCodeParams {
+export interface AreaCodeParams extends TourLanguageParams {
+  areaCode?: string; // 시/도 코드 (지정 시 해당 시/도의 시군구 목록 조회)
+  numOfRows?: number; // 페이지당 결과 수 (기본값: 10)
+  pageNo?: number; // 페이지 번호 (기본값: 1)
+}
+
+/**
+ * 서비스 분류코드 조회 파라미터
+ * cat1만 지정하면 중분류, cat1과 cat2를 지정하면 소분류 목록을 조회합니다.
+ */
+export interface CategoryCodeParams extends TourLanguageParams {
+  contentTypeId?: string; // 콘텐츠타입ID (선택)
+  cat1?: string; // 대분류 (선택)
+  cat2?: string; // 중분류 (선택, cat1 필요)
+  cat3?: string; // 소분류 (선택, cat1, cat2 필요)
+  numOfRows?: number; // 페이지당 결과 수 (기본값: 10)
+  pageNo?: number; // 페이지 번호 (기본값: 1)
+}
+
+/**
+ * 법정동 코드 조회 파라미터
+ */
+export interface LDongCodeParams extends TourLanguageParams {
+  lDongRegnCd?: string; // 법정동 시/도 코드 (지정 시 해당 시/도의 시군구 목록 조회)
+  numOfRows?: number; // 페이지당 결과 수 (기본값: 10)
+  pageNo?: number; // 페이지 번호 (기본값: 1)
+}
+
+/**
+ * 분류체계 코드 조회 파라미터
+ * lclsSystm1만 지정하면 중분류, lclsSystm1과 lclsSystm2를 지정하면 소분류 목록을 조회합니다.
+ */
+export interface LclsSystmCodeParams extends TourLanguageParams {
+  lclsSystm1?: string; // 분류체계 대분류 (선택)
+  lclsSystm2?: string; // 분류체계 중분류 (선택, lclsSystm1 필요)
+  lclsSystm3?: string; // 분류체계 소분류 (선택, lclsSystm1, lclsSystm2 필요)
   numOfRows?: number; // 페이지당 결과 수 (기본값: 10)
   pageNo?: number; // 페이지 번호 (기본값: 1)
 }
@@ -238,9 +619,19 @@ export interface AreaCodeParams {
 /**
  * 지역 기반 목록 조회 파라미터
  */
-export interface AreaBasedListParams {
+export interface AreaBasedListParams extends TourLanguageParams {
   areaCode?: string; // 지역코드 (선택)
+  sigunguCode?: string; // 시군구코드 (선택, areaCode 필요)
   contentTypeId?: string; // 콘텐츠타입ID (선택)
+  cat1?: string; // 대분류 (선택)
+  cat2?: string; // 중분류 (선택)
+  cat3?: string; // 소분류 (선택)
+  lDongRegnCd?: string; // 법정동 시/도 코드 (선택)
+  lDongSignguCd?: string; // 법정동 시군구 코드 (선택, lDongRegnCd 필요)
+  lclsSystm1?: string; // 분류체계 대분류 (선택)
+  lclsSystm2?: string; // 분류체계 중분류 (선택)
+  lclsSystm3?: string; // 분류체계 소분류 (선택)
+  arrange?: ListArrange; // 정렬 구분 (기본값: C 수정일순)
   numOfRows?: number; // 페이지당 결과 수 (기본값: 10)
   pageNo?: number; // 페이지 번호 (기본값: 1)
 }
@@ -248,10 +639,72 @@ export interface AreaBasedListParams {
 /**
  * 키워드 검색 파라미터
  */
-export interface SearchKeywordParams {
+export interface SearchKeywordParams extends TourLanguageParams {
   keyword: string; // 검색 키워드 (필수)
   areaCode?: string; // 지역코드 (선택)
+  sigunguCode?: string; // 시군구코드 (선택, areaCode 필요)
+  contentTypeId?: string; // 콘텐츠타입ID (선택)
+  cat1?: string; // 대분류 (선택)
+  cat2?: string; // 중분류 (선택)
+  cat3?: string; // 소분류 (선택)
+  lDongRegnCd?: string; // 법정동 시/도 코드 (선택)
+  lDongSignguCd?: string; // 법정동 시군구 코드 (선택, lDongRegnCd 필요)
+  lclsSystm1?: string; // 분류체계 대분류 (선택)
+  lclsSystm2?: string; // 분류체계 중분류 (선택)
+  lclsSystm3?: string; // 분류체계 소분류 (선택)
+  arrange?: ListArrange; // 정렬 구분 (기본값: C 수정일순)
+  numOfRows?: number; // 페이지당 결과 수 (기본값: 10)
+  pageNo?: number; // 페이지 번호 (기본값: 1)
+}
+
+/**
+ * 목록 정렬 구분 (areaBasedList2, searchKeyword2, searchStay2)
+ * A: 제목순, C: 수정일순, D: 생성일순
+ * O/Q/R: 대표이미지가 있는 항목만 (각각 제목/수정일/생성일순)
+ */
+export type ListArrange = 'A' | 'C' | 'D' | 'O' | 'Q' | 'R';
+
+/**
+ * 위치 기반 목록 정렬 구분
+ * 목록 정렬 구분에 E: 거리순, S: 대표이미지가 있는 항목만 거리순이 추가됩니다.
+ */
+export type LocationArrange = ListArrange | 'E' | 'S';
+
+/**
+ * 위치 기반 목록 조회 파라미터
+ */
+export interface LocationBasedListParams extends TourLanguageParams {
+  mapX: number | string; // 기준 경도 (WGS84, 필수)
+  mapY: number | string; // 기준 위도 (WGS84, 필수)
+  radius: number; // 검색 반경 (미터, 최대 20000, 필수)
   contentTypeId?: string; // 콘텐츠타입ID (선택)
+  arrange?: LocationArrange; // 정렬 구분 (기본값: E 거리순)
+  numOfRows?: number; // 페이지당 결과 수 (기본값: 10)
+  pageNo?: number; // 페이지 번호 (기본값: 1)
+}
+
+/**
+ * 행사정보 조회 파라미터
+ */
+export interface SearchFestivalParams extends TourLanguageParams {
+  eventStartDate: string; // 행사 시작일 (YYYYMMDD, 필수)
+  eventEndDate?: string; // 행사 종료일 (YYYYMMDD, 선택)
+  areaCode?: string; // 지역코드 (선택)
+  sigunguCode?: string; // 시군구코드 (선택, areaCode 필요)
+  numOfRows?: number; // 페이지당 결과 수 (기본값: 10)
+  pageNo?: number; // 페이지 번호 (기본값: 1)
+}
+
+/**
+ * 숙박정보 조회 파라미터
+ * 주차/체크인 조건은 소개 정보 기반이므로 앞에서부터 최대 100개 숙소 안에서 적용됩니다. (searchStay 참고)
+ */
+export interface SearchStayParams extends TourLanguageParams {
+  areaCode?: string; // 지역코드 (선택)
+  sigunguCode?: string; // 시군구코드 (선택, areaCode 필요)
+  parking?: boolean; // 주차 가능 숙소만 (선택)
+  checkInBefore?: string; // 해당 시각(HH:MM) 이전 체크인 가능 숙소만 (선택)
+  arrange?: ListArrange; // 정렬 구분 (기본값: C 수정일순)
   numOfRows?: number; // 페이지당 결과 수 (기본값: 10)
   pageNo?: number; // 페이지 번호 (기본값: 1)
 }
@@ -259,7 +712,7 @@ export interface SearchKeywordParams {
 /**
  * 상세 정보 조회 파라미터
  */
-export interface DetailParams {
+export interface DetailParams extends TourLanguageParams {
   contentId: string; // 콘텐츠ID (필수)
 }
 
@@ -270,3 +723,10 @@ export interface DetailIntroParams extends DetailParams {
   contentTypeId: string; // 콘텐츠타입ID (필수)
 }
 
+/**
+ * 반복 정보 조회 파라미터
+ */
+export interface DetailInfoParams extends DetailParams {
+  contentTypeId: string; // 콘텐츠타입ID (필수)
+}
+
@@ -0,0 +1,75 @@
+/**
+ * @file distance.ts
+ * @description 거리 표시 관련 유틸리티 함수
+ *
+ * 이 파일은 위치 기반 조회(locationBasedList2) 결과의 거리 값을 다루는 함수들을 제공합니다.
+ * 좌표 사이의 거리 계산은 lib/geo/measure.ts(getDistance)를 사용합니다.
+ *
+ * 주요 기능:
+ * 1. 거리 문자열(미터) 파싱
+ * 2. 사용자 표시용 거리 포맷팅 (m / km)
+ */
+
+// =====================================================
+// 상수 정의
+// =====================================================
+
+/**
+ * 내 주변 검색 반경 옵션 (미터)
+ */
+export const NEARBY_RADIUS_OPTIONS = [1000, 3000, 5000, 10000, 20000] as const;
+
+/**
+ * 내 주변 검색 기본 반경 (미터)
+ */
+export const DEFAULT_NEARBY_RADIUS = 5000;
+
+/**
+ * 위치 기반 조회(locationBasedList2) 최대 반경 (미터)
+ */
+export const MAX_LOCATION_RADIUS = 20000;
+
+// =====================================================
+// 거리 포맷팅
+// =====================================================
+
+/**
+ * 거리 값(미터)을 숫자로 파싱
+ * API 응답의 dist 값은 "1234.5678" 형태의 문자열입니다.
+ *
+ * @param dist - 거리 값 (문자열 또는 숫자)
+ * @returns 미터 단위 거리 또는 null (유효하지 않은 경우)
+ */
+export function parseDistance(
+  dist: string | number | undefined | null,
+): number | null {
+  if (dist === undefined || dist === null || dist === "") {
+    return null;
+  }
+
+  const meters = typeof dist === "number" ? dist : parseFloat(dist);
+  return Number.isFinite(meters) && meters >= 0 ? meters : null;
+}
+
+/**
+ * 거리 값을 사용자 표시용 문자열로 변환
+ * 1km 미만은 미터 단위, 1km 이상은 소수점 한 자리 km 단위로 표시합니다.
+ * 소수점 이하가 0이면 생략합니다 (예: 5000 → "5km").
+ *
+ * @param dist - 거리 값 (미터)
+ * @returns 표시용 문자열 (예: "350m", "1.2km") 또는 빈 문자열
+ */
+export function formatDistance(
+  dist: string | number | undefined | null,
+): string {
+  const meters = parseDistance(dist);
+  if (meters === null) {
+    return "";
+  }
+
+  if (meters < 1000) {
+    return `${Math.round(meters)}m`;
+  }
+
+  return `${parseFloat((meters / 1000).toFixed(1))}km`;
+}
@@ -0,0 +1,280 @@
+/**
+ * @file festival.ts
+ * @description 축제/행사 캘린더 관련 유틸리티 함수
+ *
+ * 이 파일은 행사정보(searchFestival2) 결과를 캘린더로 표시하기 위한 함수들을 제공합니다.
+ *
+ * 주요 기능:
+ * 1. 행사 일자(YYYYMMDD) 변환 및 포맷팅
+ * 2. 행사 진행 상태 판별 (진행중 / 예정 / 종료)
+ * 3. 월간/주간 캘린더 기간 및 날짜 목록 계산
+ *
+ * 핵심 구현 로직:
+ * - 날짜 계산은 UTC 기준 Date로 처리하여 서버/브라우저 시간대 차이를 방지
+ * - "오늘"은 한국 시간(Asia/Seoul) 기준으로 계산
+ */
+
+import type { FestivalItem } from "@/lib/types/tour";
+import { LOCALE_INFO, type Locale } from "@/lib/i18n/locale";
+import type { MessageKey } from "@/lib/i18n/messages";
+
+// =====================================================
+// 상수 정의
+// =====================================================
+
+/**
+ * 행사 진행 상태
+ */
+export const FESTIVAL_STATUS = {
+  ONGOING: "ongoing", // 진행중
+  UPCOMING: "upcoming", // 예정
+  ENDED: "ended", // 종료
+} as const;
+
+export type FestivalStatus =
+  (typeof FESTIVAL_STATUS)[keyof typeof FESTIVAL_STATUS];
+
+/**
+ * 행사 진행 상태 라벨 (메시지 키)
+ */
+export const FESTIVAL_STATUS_LABELS: Record<FestivalStatus, MessageKey> = {
+  [FESTIVAL_STATUS.ONGOING]: "festivals.statusOngoing",
+  [FESTIVAL_STATUS.UPCOMING]: "festivals.statusUpcoming",
+  [FESTIVAL_STATUS.ENDED]: "festivals.statusEnded",
+};
+
+/**
+ * 캘린더 보기 방식
+ */
+export const CALENDAR_VIEW = {
+  MONTH: "month", // 월간
+  WEEK: "week", // 주간
+} as const;
+
+export type CalendarView = (typeof CALENDAR_VIEW)[keyof typeof CALENDAR_VIEW];
+
+/**
+ * 요일 라벨 (메시지 키, 일요일 시작)
+ */
+export const WEEKDAY_LABELS: readonly MessageKey[] = [
+  "festivals.weekdaySun",
+  "festivals.weekdayMon",
+  "festivals.weekdayTue",
+  "festivals.weekdayWed",
+  "festivals.weekdayThu",
+  "festivals.weekdayFri",
+  "festivals.weekdaySat",
+];
+
+// =====================================================
+// 날짜 변환
+// =====================================================
+
+/**
+ * Date를 YYYYMMDD 형식의 날짜 키로 변환 (UTC 기준)
+ */
+export function toDateKey(date: Date): string {
+  const year = date.getUTCFullYear();
+  const month = String(date.getUTCMonth() + 1).padStart(2, "0");
+  const day = String(date.getUTCDate()).padStart(2, "0");
+  return `${year}${month}${day}`;
+}
+
+/**
+ * YYYYMMDD 형식의 날짜 키를 Date로 변환 (UTC 자정 기준)
+ * @returns Date 또는 null (형식이 올바르지 않은 경우)
+ */
+export function parseDateKey(key: string | undefined | null): Date | null {
+  if (!key || !/^\d{8}$/.test(key)) {
+    return null;
+  }
+
+  const year = parseInt(key.slice(0, 4), 10);
+  const month = parseInt(key.slice(4, 6), 10) - 1;
+  const day = parseInt(key.slice(6, 8), 10);
+  const date = new Date(Date.UTC(year, month, day));
+
+  // 2월 30일처럼 존재하지 않는 날짜는 무효 처리
+  return date.getUTCMonth() === month && date.getUTCDate() === day
+    ? date
+    : null;
+}
+
+/**
+ * 한국 시간 기준 오늘 날짜 키 (YYYYMMDD)
+ */
+export function getTodayKey(): string {
+  // en-CA 로케일은 YYYY-MM-DD 형식으로 포맷팅됨
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: "Asia/Seoul",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  })
+    .format(new Date())
+    .replace(/-/g, "");
+}
+
+/**
+ * 날짜에 일 수 더하기
+ */
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date.getTime());
+  result.setUTCDate(result.getUTCDate() + days);
+  return result;
+}
+
+/**
+ * 날짜에 월 수 더하기 (해당 월의 1일 반환)
+ */
+export function addMonths(date: Date, months: number): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1),
+  );
+}
+
+/**
+ * 날짜 키를 표시용 문자열로 변환
+ * @returns 표시용 문자열 (예: "2025.01.15") 또는 빈 문자열
+ */
+export function formatDateKey(key: string | undefined | null): string {
+  const date = parseDateKey(key);
+  if (!date) {
+    return "";
+  }
+  return `${key!.slice(0, 4)}.${key!.slice(4, 6)}.${key!.slice(6, 8)}`;
+}
+
+/**
+ * 행사 기간을 표시용 문자열로 변환
+ * @returns 표시용 문자열 (예: "2025.01.15 ~ 2025.01.20", 하루 행사는 "2025.01.15")
+ */
+export function formatEventPeriod(festival: FestivalItem): string {
+  const start = formatDateKey(festival.eventstartdate);
+  const end = formatDateKey(festival.eventenddate);
+
+  if (!start || !end || start === end) {
+    return start || end;
+  }
+  return `${start} ~ ${end}`;
+}
+
+// =====================================================
+// 행사 상태
+// =====================================================
+
+/**
+ * 행사 진행 상태 판별
+ * @param festival - 행사 항목
+ * @param todayKey - 기준 날짜 키 (YYYYMMDD, 기본값: 한국 시간 기준 오늘)
+ */
+export function getFestivalStatus(
+  festival: FestivalItem,
+  todayKey: string = getTodayKey(),
+): FestivalStatus {
+  if (festival.eventenddate && festival.eventenddate < todayKey) {
+    return FESTIVAL_STATUS.ENDED;
+  }
+  if (festival.eventstartdate && festival.eventstartdate > todayKey) {
+    return FESTIVAL_STATUS.UPCOMING;
+  }
+  return FESTIVAL_STATUS.ONGOING;
+}
+
+/**
+ * 문자열이 유효한 행사 상태인지 확인
+ */
+export function isFestivalStatus(value: string | undefined): value is FestivalStatus {
+  return Object.values(FESTIVAL_STATUS).includes(value as FestivalStatus);
+}
+
+/**
+ * 해당 날짜에 행사가 열리는지 확인
+ */
+export function isFestivalOnDate(festival: FestivalItem, dateKey: string): boolean {
+  return festival.eventstartdate <= dateKey && festival.eventenddate >= dateKey;
+}
+
+/**
+ * 행사 기간이 조회 기간과 겹치는지 확인
+ */
+export function isFestivalInRange(
+  festival: FestivalItem,
+  startKey: string,
+  endKey: string,
+): boolean {
+  return festival.eventstartdate <= endKey && festival.eventenddate >= startKey;
+}
+
+// =====================================================
+// 캘린더 계산
+// =====================================================
+
+/**
+ * 캘린더 조회 기간 계산
+ * - 월간: 해당 월의 1일 ~ 말일
+ * - 주간: 기준 날짜가 속한 주의 일요일 ~ 토요일
+ */
+export function getCalendarRange(
+  view: CalendarView,
+  baseDate: Date,
+): { start: Date; end: Date } {
+  if (view === CALENDAR_VIEW.WEEK) {
+    const start = addDays(baseDate, -baseDate.getUTCDay());
+    return { start, end: addDays(start, 6) };
+  }
+
+  const start = addMonths(baseDate, 0);
+  return { start, end: addDays(addMonths(baseDate, 1), -1) };
+}
+
+/**
+ * 캘린더에 표시할 날짜 목록 계산
+ * 월간 보기는 첫 주/마지막 주를 채우기 위해 앞뒤 달의 날짜를 포함합니다.
+ */
+export function getCalendarDays(view: CalendarView, baseDate: Date): Date[] {
+  const { start, end } = getCalendarRange(view, baseDate);
+  const gridStart = addDays(start, -start.getUTCDay());
+  const gridEnd = addDays(end, 6 - end.getUTCDay());
+
+  const days: Date[] = [];
+  for (let date = gridStart; date <= gridEnd; date = addDays(date, 1)) {
+    days.push(date);
+  }
+  return days;
+}
+
+/**
+ * 이전/다음 기간의 기준 날짜 계산
+ * @param direction - -1: 이전, 1: 다음
+ */
+export function shiftCalendarDate(
+  view: CalendarView,
+  baseDate: Date,
+  direction: -1 | 1,
+): Date {
+  return view === CALENDAR_VIEW.WEEK
+    ? addDays(baseDate, direction * 7)
+    : addMonths(baseDate, direction);
+}
+
+/**
+ * 캘린더 기간 제목 생성
+ * 월간 제목은 로케일의 연/월 표기를 따릅니다.
+ * @returns 표시용 문자열 (예: "2025년 1월", "January 2025", "2025.01.12 ~ 2025.01.18")
+ */
+export function formatCalendarTitle(
+  view: CalendarView,
+  baseDate: Date,
+  locale: Locale,
+): string {
+  if (view === CALENDAR_VIEW.WEEK) {
+    const { start, end } = getCalendarRange(view, baseDate);
+    return `${formatDateKey(toDateKey(start))} ~ ${formatDateKey(toDateKey(end))}`;
+  }
+  return new Intl.DateTimeFormat(LOCALE_INFO[locale].htmlLang, {
+    timeZone: "UTC",
+    year: "numeric",
+    month: "long",
+  }).format(baseDate);
+}
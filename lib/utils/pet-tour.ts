@@ -0,0 +1,103 @@
+/**
+ * @file pet-tour.ts
+ * @description 반려동물 동반 여행 정보 관련 유틸리티 함수
+ *
+ * 이 파일은 반려동물 동반 여행 정보(detailPetTour2)의 자유 형식 텍스트를 해석하는 함수들을 제공합니다.
+ * 화면 문구는 메시지 카탈로그에서 가져오고, 여기서는 API 원문만 분류합니다.
+ *
+ * 주요 기능:
+ * 1. 동반 가능 여부 판별 ("가능", "불가", "아니오" 등)
+ * 2. 크기 제한 분류 ("소형견", "중형", "대형견 가능" 등)
+ * 3. 입장 장소 분류 ("실내", "실외" 등)
+ */
+
+// =====================================================
+// 타입 정의
+// =====================================================
+
+/**
+ * 반려동물 동반 가능 여부
+ */
+export type PetAllowance = "allowed" | "notAllowed";
+
+/**
+ * 반려동물 크기 제한 (허용되는 가장 큰 크기)
+ */
+export type PetSizeLimit = "small" | "medium" | "large";
+
+/**
+ * 반려동물 입장 장소
+ */
+export type PetPlaceType = "indoor" | "outdoor";
+
+// =====================================================
+// 상수 정의
+// =====================================================
+
+/**
+ * 동반 불가를 의미하는 표현 ("불가능"에 "가능"이 포함되므로 먼저 확인)
+ */
+const NOT_ALLOWED_PATTERN = /불가|아니오|\bno/i;
+
+/**
+ * 동반 가능을 의미하는 표현
+ */
+const ALLOWED_PATTERN = /가능|예|yes/i;
+
+// =====================================================
+// 텍스트 분류
+// =====================================================
+
+/**
+ * 동반 가능 여부 텍스트 판별
+ * @returns 동반 가능 여부 또는 null (판별할 수 없는 경우, 원문을 그대로 표시)
+ */
+export function getPetAllowance(text: string | undefined | null): PetAllowance | null {
+  if (!text) {
+    return null;
+  }
+  if (NOT_ALLOWED_PATTERN.test(text)) {
+    return "notAllowed";
+  }
+  if (ALLOWED_PATTERN.test(text)) {
+    return "allowed";
+  }
+  return null;
+}
+
+/**
+ * 크기 제한 텍스트 분류
+ * @returns 크기 제한 또는 null (분류할 수 없는 경우, 원문을 그대로 표시)
+ */
+export function getPetSizeLimit(text: string | undefined | null): PetSizeLimit | null {
+  if (!text) {
+    return null;
+  }
+  if (text.includes("소")) {
+    return "small";
+  }
+  if (text.includes("중")) {
+    return "medium";
+  }
+  if (text.includes("대")) {
+    return "large";
+  }
+  return null;
+}
+
+/**
+ * 입장 장소 텍스트 분류
+ * @returns 입장 장소 또는 null (분류할 수 없는 경우)
+ */
+export function getPetPlaceType(text: string | undefined | null): PetPlaceType | null {
+  if (!text) {
+    return null;
+  }
+  if (/실내|내부/.test(text)) {
+    return "indoor";
+  }
+  if (/실외|외부/.test(text)) {
+    return "outdoor";
+  }
+  return null;
+}
@@ -0,0 +1,157 @@
+/**
+ * @file region-code.ts
+ * @description 지역코드 체계 변환 유틸리티
+ *
+ * 한국관광공사 API는 기존 지역코드(areaCode, 예: 서울 "1")와
+ * 법정동 코드(lDongRegnCd, 예: 서울 "11")를 함께 사용합니다.
+ * 이 파일은 두 코드 체계의 시/도 단위 매핑을 제공하여
+ * 필터, 통계, 북마크 정렬에서 어느 체계의 코드든 같은 지역으로 다룰 수 있게 합니다.
+ *
+ * 주요 기능:
+ * 1. 지역코드 ↔ 법정동 시/도 코드 변환
+ * 2. 두 체계 중 하나만 주어진 조회 조건 보완
+ * 3. 관광지 항목의 시/도 판별 및 지역순 정렬 기준 제공
+ *
+ * 시군구 단위는 두 체계의 코드가 1:1로 대응하지 않으므로 변환하지 않습니다.
+ * 시/도명은 메시지 카탈로그에서 가져옵니다 (lib/i18n/names.ts의 getAreaName).
+ */
+
+import type { TourItem } from "@/lib/types/tour";
+
+// =====================================================
+// 상수 정의
+// =====================================================
+
+/**
+ * 지역코드 체계
+ */
+export const REGION_CODE_SCHEME = {
+  AREA: "area", // 기존 지역코드 (areaCode2)
+  LDONG: "ldong", // 법정동 코드 (ldongCode2)
+} as const;
+
+export type RegionCodeScheme =
+  (typeof REGION_CODE_SCHEME)[keyof typeof REGION_CODE_SCHEME];
+
+/**
+ * 시/도 코드 매핑 정보
+ */
+export interface ProvinceCode {
+  areaCode: string; // 기존 지역코드
+  lDongRegnCd: string; // 법정동 시/도 코드
+}
+
+/**
+ * 시/도 코드 매핑 (기존 지역코드 순서)
+ */
+export const PROVINCE_CODES: readonly ProvinceCode[] = [
+  { areaCode: "1", lDongRegnCd: "11" },
+  { areaCode: "2", lDongRegnCd: "28" },
+  { areaCode: "3", lDongRegnCd: "30" },
+  { areaCode: "4", lDongRegnCd: "27" },
+  { areaCode: "5", lDongRegnCd: "29" },
+  { areaCode: "6", lDongRegnCd: "26" },
+  { areaCode: "7", lDongRegnCd: "31" },
+  { areaCode: "8", lDongRegnCd: "36" },
+  { areaCode: "31", lDongRegnCd: "41" },
+  { areaCode: "32", lDongRegnCd: "51" },
+  { areaCode: "33", lDongRegnCd: "43" },
+  { areaCode: "34", lDongRegnCd: "44" },
+  { areaCode: "35", lDongRegnCd: "47" },
+  { areaCode: "36", lDongRegnCd: "48" },
+  { areaCode: "37", lDongRegnCd: "52" },
+  { areaCode: "38", lDongRegnCd: "46" },
+  { areaCode: "39", lDongRegnCd: "50" },
+];
+
+/**
+ * 특별자치도 전환 이전 법정동 코드 (강원도 42 → 51, 전라북도 45 → 52)
+ * 일부 응답에는 이전 코드가 남아 있으므로 현재 코드로 취급합니다.
+ */
+const LEGACY_LDONG_REGN_CODES: Record<string, string> = {
+  "42": "51",
+  "45": "52",
+};
+
+// =====================================================
+// 코드 변환
+// =====================================================
+
+/**
+ * 코드 체계에 맞는 시/도 매핑 정보 조회
+ * @param code - 지역코드 또는 법정동 시/도 코드
+ * @param scheme - 코드 체계
+ * @returns 시/도 매핑 정보 또는 undefined (알 수 없는 코드인 경우)
+ */
+export function findProvince(
+  code: string | undefined | null,
+  scheme: RegionCodeScheme,
+): ProvinceCode | undefined {
+  if (!code) {
+    return undefined;
+  }
+
+  if (scheme === REGION_CODE_SCHEME.AREA) {
+    return PROVINCE_CODES.find((province) => province.areaCode === code);
+  }
+
+  const lDongRegnCd = LEGACY_LDONG_REGN_CODES[code] || code;
+  return PROVINCE_CODES.find((province) => province.lDongRegnCd === lDongRegnCd);
+}
+
+/**
+ * 지역코드 → 법정동 시/도 코드 변환
+ */
+export function toLDongRegnCd(areaCode: string | undefined | null): string | undefined {
+  return findProvince(areaCode, REGION_CODE_SCHEME.AREA)?.lDongRegnCd;
+}
+
+/**
+ * 법정동 시/도 코드 → 지역코드 변환
+ */
+export function toAreaCode(lDongRegnCd: string | undefined | null): string | undefined {
+  return findProvince(lDongRegnCd, REGION_CODE_SCHEME.LDONG)?.areaCode;
+}
+
+/**
+ * 시/도 조회 조건 보완
+ * 두 체계 중 하나만 주어진 경우 나머지 코드를 채웁니다.
+ * 둘 다 주어진 경우 그대로 반환합니다.
+ */
+export function resolveProvinceCodes(codes: {
+  areaCode?: string;
+  lDongRegnCd?: string;
+}): { areaCode?: string; lDongRegnCd?: string } {
+  return {
+    areaCode: codes.areaCode || toAreaCode(codes.lDongRegnCd),
+    lDongRegnCd: codes.lDongRegnCd || toLDongRegnCd(codes.areaCode),
+  };
+}
+
+// =====================================================
+// 관광지 항목 지역 판별
+// =====================================================
+
+/**
+ * 관광지 항목의 시/도 판별
+ * 법정동 코드를 우선 사용하고, 없으면 기존 지역코드를 사용합니다.
+ */
+export function getItemProvince(
+  item: Pick<TourItem, "areacode" | "lDongRegnCd">,
+): ProvinceCode | undefined {
+  return (
+    findProvince(item.lDongRegnCd, REGION_CODE_SCHEME.LDONG) ||
+    findProvince(item.areacode, REGION_CODE_SCHEME.AREA)
+  );
+}
+
+/**
+ * 지역순 정렬 기준
+ * 시/도 매핑 순서를 반환하며, 지역을 알 수 없는 항목은 가장 뒤로 보냅니다.
+ */
+export function getRegionSortOrder(
+  item: Pick<TourItem, "areacode" | "lDongRegnCd">,
+): number {
+  const province = getItemProvince(item);
+  return province ? PROVINCE_CODES.indexOf(province) : PROVINCE_CODES.length;
+}
@@ -0,0 +1,80 @@
+/**
+ * @file sort.ts
+ * @description 관광지 목록 정렬 옵션 유틸리티
+ *
+ * 이 파일은 필터 UI의 정렬 옵션(URL 쿼리 파라미터 sort, image)을
+ * KorService2 목록 API의 arrange 파라미터로 변환하는 함수를 제공합니다.
+ *
+ * 주요 기능:
+ * 1. 정렬 옵션 정의 (최신순, 이름순, 등록순)
+ * 2. 정렬 옵션 + 이미지 필터 → arrange 코드 변환 (A/C/D, 이미지 있는 항목만 O/Q/R)
+ *
+ * 인기순 미지원:
+ * - KorService2는 조회수 등 인기도 정보와 인기도 기준 arrange 코드를 제공하지 않습니다.
+ * - 현재 페이지만 다시 정렬하면 전체 결과 순서와 맞지 않으므로 인기순 대신 등록순(D/R)을 제공합니다.
+ * - 필터 UI는 정렬 옵션 아래에 인기순 미지원 안내(filters.popularSortUnavailable)를 표시합니다. (README 참고)
+ */
+
+import type { ListArrange } from "@/lib/types/tour";
+import type { MessageKey } from "@/lib/i18n/messages";
+
+// =====================================================
+// 상수 정의
+// =====================================================
+
+/**
+ * 정렬 옵션 (URL 쿼리 파라미터 sort 값)
+ */
+export const SORT_OPTIONS = {
+  LATEST: "latest", // 최신순 (수정일)
+  NAME: "name", // 이름순 (가나다)
+  CREATED: "created", // 등록순 (생성일)
+} as const;
+
+export type SortOption = (typeof SORT_OPTIONS)[keyof typeof SORT_OPTIONS];
+
+/**
+ * 정렬 옵션 라벨 (메시지 키, 화면에서는 번역 함수로 표시)
+ */
+export const SORT_OPTION_LABELS: Record<SortOption, MessageKey> = {
+  [SORT_OPTIONS.LATEST]: "sort.latest",
+  [SORT_OPTIONS.NAME]: "sort.name",
+  [SORT_OPTIONS.CREATED]: "sort.created",
+};
+
+/**
+ * 정렬 옵션별 arrange 코드 (전체 / 대표이미지가 있는 항목만)
+ */
+const ARRANGE_BY_SORT: Record<SortOption, { all: ListArrange; imageOnly: ListArrange }> = {
+  [SORT_OPTIONS.LATEST]: { all: "C", imageOnly: "Q" },
+  [SORT_OPTIONS.NAME]: { all: "A", imageOnly: "O" },
+  [SORT_OPTIONS.CREATED]: { all: "D", imageOnly: "R" },
+};
+
+// =====================================================
+// 변환 함수
+// =====================================================
+
+/**
+ * 정렬 옵션 값 검증
+ */
+export function isSortOption(value: string | undefined | null): value is SortOption {
+  return Object.values(SORT_OPTIONS).includes(value as SortOption);
+}
+
+/**
+ * 정렬 옵션을 목록 API arrange 코드로 변환
+ * 알 수 없는 정렬 값은 최신순으로 처리합니다.
+ *
+ * @param sort - 정렬 옵션 (URL 쿼리 파라미터 sort)
+ * @param imageOnly - 대표이미지가 있는 항목만 조회할지 여부
+ * @returns arrange 코드 (A/C/D 또는 O/Q/R)
+ */
+export function toListArrange(
+  sort: string | undefined | null,
+  imageOnly: boolean = false,
+): ListArrange {
+  const option = isSortOption(sort) ? sort : SORT_OPTIONS.LATEST;
+  const arrange = ARRANGE_BY_SORT[option];
+  return imageOnly ? arrange.imageOnly : arrange.all;
+}
@@ -0,0 +1,112 @@
+/**
+ * @file stay.ts
+ * @description 숙박 검색 관련 유틸리티 함수
+ *
+ * 이 파일은 숙박 소개 정보(detailIntro2)의 자유 형식 텍스트를 해석하는 함수들을 제공합니다.
+ *
+ * 주요 기능:
+ * 1. 체크인/체크아웃 시간 텍스트 파싱 ("15:00", "오후 3시", "15시 이후" 등)
+ * 2. 주차 가능 여부 판별 ("가능", "불가", "주차가능(10대)" 등)
+ * 3. 숙박 검색 조건(주차, 체크인 시각) 일치 여부 확인
+ * 4. 카드 표시용 텍스트 정리
+ */
+
+import type { StayItem } from "@/lib/types/tour";
+
+// =====================================================
+// 상수 정의
+// =====================================================
+
+/**
+ * 체크인 시각 필터 옵션 (해당 시각 이전 체크인 가능)
+ */
+export const CHECK_IN_OPTIONS = ["13:00", "14:00", "15:00", "16:00"] as const;
+
+/**
+ * 주차 불가를 의미하는 표현
+ */
+const NO_PARKING_PATTERN = /불가|없음|안\s*됨/;
+
+// =====================================================
+// 텍스트 파싱
+// =====================================================
+
+/**
+ * 소개 정보 텍스트 정리
+ * API 응답에 포함된 HTML 태그(<br> 등)를 공백으로 바꾸고 앞뒤 공백을 제거합니다.
+ */
+export function cleanStayText(text: string | undefined | null): string {
+  return (text || "").replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * 시간 텍스트를 자정 기준 분 단위로 변환
+ * 텍스트에 포함된 첫 번째 시각을 사용합니다.
+ *
+ * @param text - 시간 텍스트 (예: "15:00", "오후 3시", "14시 30분 이후")
+ * @returns 자정 기준 분 또는 null (시각을 찾을 수 없는 경우)
+ */
+export function parseTimeToMinutes(text: string | undefined | null): number | null {
+  if (!text) {
+    return null;
+  }
+
+  const match = text.match(/(오전|오후)?\s*(\d{1,2})\s*(?::|시)\s*(\d{1,2})?/);
+  if (!match) {
+    return null;
+  }
+
+  let hours = parseInt(match[2], 10);
+  const minutes = match[3] ? parseInt(match[3], 10) : 0;
+
+  if (match[1] === "오후" && hours < 12) {
+    hours += 12;
+  } else if (match[1] === "오전" && hours === 12) {
+    hours = 0;
+  }
+
+  if (hours > 24 || minutes >= 60) {
+    return null;
+  }
+
+  return hours * 60 + minutes;
+}
+
+/**
+ * 주차시설 텍스트로 주차 가능 여부 판별
+ * @returns 주차 가능 여부 또는 null (정보가 없는 경우)
+ */
+export function isParkingAvailable(text: string | undefined | null): boolean | null {
+  const value = cleanStayText(text);
+  if (!value) {
+    return null;
+  }
+  return !NO_PARKING_PATTERN.test(value);
+}
+
+// =====================================================
+// 검색 조건
+// =====================================================
+
+/**
+ * 숙박 항목이 검색 조건과 일치하는지 확인
+ * 조건에 필요한 정보가 없는 항목은 일치하지 않는 것으로 처리합니다.
+ */
+export function matchesStayFilters(
+  stay: StayItem,
+  filters: { parking?: boolean; checkInBefore?: string },
+): boolean {
+  if (filters.parking && isParkingAvailable(stay.parkinglodging) !== true) {
+    return false;
+  }
+
+  if (filters.checkInBefore) {
+    const limit = parseTimeToMinutes(filters.checkInBefore);
+    const checkIn = parseTimeToMinutes(stay.checkintime);
+    if (limit === null || checkIn === null || checkIn > limit) {
+      return false;
+    }
+  }
+
+  return true;
+}
@@ -1,6 +1,54 @@
 import { clerkMiddleware } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import {
+  DEFAULT_LOCALE,
+  LOCALE_COOKIE,
+  LOCALE_COOKIE_OPTIONS,
+  LOCALE_HEADER,
+  detectLocale,
+  isLocalizedRoute,
+  localizePath,
+  splitLocalePath,
+} from "@/lib/i18n/locale";
 
-export default clerkMiddleware();
+/**
+ * 로케일 감지 및 로케일 접두사 경로(/en, /ja, /zh) 처리
+ * 로케일은 URL 접두사 → 쿠키 → Accept-Language 순서로 감지합니다.
+ * - 접두사 경로: 로케일을 쿠키에 저장
+ *   - 외국어를 지원하는 페이지: 접두사 없는 페이지로 rewrite
+ *   - 그 외 페이지(북마크, 통계 등): 접두사 없는 페이지로 redirect (화면 문구는 쿠키의 로케일로 표시)
+ * - 접두사 없는 경로: 감지한 로케일이 외국어이고 외국어를 지원하는 페이지면 접두사 경로로 redirect
+ * 감지한 로케일은 요청 헤더로 전달하며, 클라이언트가 보낸 로케일 헤더는 항상 덮어씁니다.
+ */
+export default clerkMiddleware((_auth, req) => {
+  const { locale: pathLocale, pathname } = splitLocalePath(req.nextUrl.pathname);
+  const locale = detectLocale({
+    pathname: req.nextUrl.pathname,
+    cookie: req.cookies.get(LOCALE_COOKIE)?.value,
+    acceptLanguage: req.headers.get("accept-language"),
+  });
+
+  const requestHeaders = new Headers(req.headers);
+  requestHeaders.set(LOCALE_HEADER, locale);
+
+  const url = req.nextUrl.clone();
+  url.pathname = pathname;
+
+  if (pathLocale === DEFAULT_LOCALE) {
+    const isPageRequest = req.method === "GET" && !pathname.startsWith("/api");
+    if (locale !== DEFAULT_LOCALE && isPageRequest && isLocalizedRoute(pathname)) {
+      url.pathname = localizePath(pathname, locale);
+      return NextResponse.redirect(url);
+    }
+    return NextResponse.next({ request: { headers: requestHeaders } });
+  }
+
+  const response = isLocalizedRoute(pathname)
+    ? NextResponse.rewrite(url, { request: { headers: requestHeaders } })
+    : NextResponse.redirect(url);
+  response.cookies.set(LOCALE_COOKIE, locale, LOCALE_COOKIE_OPTIONS);
+  return response;
+});
 
 export const config = {
   matcher: [
@@ -5,7 +5,60 @@ const withBundleAnalyzer = require("@next/bundle-analyzer")({
   enabled: process.env.ANALYZE === "true",
 });
 
+/**
+ * 한국관광공사 API 키 노출 방지 (빌드 타임 검사)
+ *
+ * API 키는 서버(/api/tour 프록시, Server Component)에서만 사용해야 합니다.
+ * 클라이언트 번들에 키 환경변수 이름이나 키 값이 포함되면 빌드를 실패시킵니다.
+ * (서버 전용 모듈인 lib/api/tour-api.ts는 "server-only"로 클라이언트 import 자체를 막습니다.)
+ *
+ * 주의: webpack 플러그인이므로 webpack으로 번들링하는 `next build`에서만 실행됩니다.
+ * Turbopack을 사용하는 개발 서버(`next dev --turbopack`)에서는 실행되지 않으므로
+ * 개발 중에는 "server-only" import 검사가 유일한 방어선입니다.
+ * 배포 전에는 반드시 `npm run build`로 이 검사를 통과해야 합니다.
+ */
+const TOUR_API_KEY_ENV = "TOUR_API_KEY";
+
+class TourAPIKeyGuardPlugin {
+  apply(compiler: any) {
+    const { webpack } = compiler;
+    const name = "TourAPIKeyGuardPlugin";
+    const serviceKey = process.env[TOUR_API_KEY_ENV];
+    const forbidden = [TOUR_API_KEY_ENV, ...(serviceKey ? [serviceKey] : [])];
+
+    compiler.hooks.thisCompilation.tap(name, (compilation: any) => {
+      compilation.hooks.processAssets.tap(
+        { name, stage: webpack.Compilation.PROCESS_ASSETS_STAGE_ANALYSE },
+        (assets: Record<string, any>) => {
+          Object.entries(assets).forEach(([file, asset]) => {
+            if (!file.endsWith(".js")) return;
+
+            const source = String(asset.source());
+            const leaked = forbidden.find((value) => source.includes(value));
+            if (leaked) {
+              // 키 값 자체는 빌드 로그에 남기지 않음
+              const target = leaked === serviceKey ? "API 키 값" : leaked;
+              compilation.errors.push(
+                new webpack.WebpackError(
+                  `[${name}] 클라이언트 번들(${file})에 ${target}이(가) 포함되어 있습니다. ` +
+                    "한국관광공사 API는 lib/api/tour-api-client.ts(서버 프록시)를 통해 호출하세요."
+                )
+              );
+            }
+          });
+        }
+      );
+    });
+  }
+}
+
 const nextConfig: NextConfig = {
+  webpack: (config, { isServer }) => {
+    if (!isServer) {
+      config.plugins.push(new TourAPIKeyGuardPlugin());
+    }
+    return config;
+  },
   images: {
     remotePatterns: [
       // Clerk 인증 이미지
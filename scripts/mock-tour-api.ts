@@ -0,0 +1,621 @@
+/**
+ * @file mock-tour-api.ts
+ * @description 한국관광공사 API 로컬 대체 서버 (녹화된 fixture 재생 / 실제 응답 녹화)
+ *
+ * 이 스크립트는 apis.data.go.kr 없이 개발/테스트할 수 있도록 KorService2(및 외국어 서비스)와
+ * 같은 경로와 응답 형식을 제공하는 로컬 서버를 실행합니다.
+ * 앱은 환경변수 TOUR_API_BASE_URL을 이 서버 주소로 지정하면 실제 API 대신 이 서버를 호출합니다.
+ *
+ * 주요 기능:
+ * 1. 재생 모드 (기본): fixtures/tour-api/{서비스}/{오퍼레이션}.json의 녹화 응답 반환
+ *    - 페이지네이션 (numOfRows, pageNo)
+ *    - 키워드 검색 (keyword, 제목 부분 일치)
+ *    - 지역/타입/분류/콘텐츠 ID 조건, 위치 기반 거리 계산, 행사 기간 조건
+ * 2. 녹화 모드 (--record): 요청을 실제 API로 전달하고 정상 응답을 fixture 파일에 저장
+ * 3. data.go.kr 에러 응답 재현 (XML OpenAPI_ServiceResponse)
+ *    - 등록되지 않은 서비스 키 (--service-key와 다른 키, 코드 30)
+ *    - 일일 호출 한도 초과 (--quota 호출 수 초과, 코드 22)
+ *
+ * 핵심 구현 로직:
+ * - 요청 조건(공통 파라미터, 페이지 파라미터 제외)이 녹화 당시와 같으면 녹화된 항목을 그대로 사용합니다.
+ * - 같은 조건의 녹화가 없으면 같은 종류의 녹화 항목을 모아 조건으로 걸러 응답합니다.
+ *   (목록 오퍼레이션끼리는 항목을 공유하므로 areaBasedList2만 녹화해도 키워드 검색이 동작)
+ * - 코드 조회 오퍼레이션(areaCode2 등)은 조건이 같은 녹화가 있어야 합니다.
+ * - fixture에는 서비스 키를 저장하지 않습니다.
+ *
+ * @usage
+ * ```bash
+ * # 재생 모드 (기본 포트 4010)
+ * npx tsx scripts/mock-tour-api.ts
+ * TOUR_API_BASE_URL=http://localhost:4010 TOUR_API_KEY=mock npm run dev
+ *
+ * # 녹화 모드 (앱은 실제 API 키로 실행)
+ * npx tsx scripts/mock-tour-api.ts --record
+ *
+ * # 에러 응답 확인
+ * npx tsx scripts/mock-tour-api.ts --service-key mock   # 다른 키로 호출하면 코드 30
+ * npx tsx scripts/mock-tour-api.ts --quota 0            # 모든 호출이 코드 22
+ * ```
+ *
+ * 옵션:
+ * - --port <포트>: 서버 포트 (기본값: 4010, 환경변수 MOCK_TOUR_API_PORT)
+ * - --fixtures <경로>: fixture 디렉토리 (기본값: fixtures/tour-api)
+ * - --record: 녹화 모드
+ * - --upstream <URL>: 녹화 모드에서 호출할 실제 API 주소 (기본값: https://apis.data.go.kr/B551011)
+ * - --service-key <키>: 허용할 서비스 키 (지정하지 않으면 모든 키 허용)
+ * - --quota <호출 수>: 서버 실행 중 허용할 호출 수 (초과 시 한도 초과 에러)
+ *
+ * @dependencies
+ * - Node.js http, fs/promises (외부 패키지 없음)
+ */
+
+import { createServer } from 'http';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+
+// =====================================================
+// 상수 및 타입
+// =====================================================
+
+const DEFAULT_PORT = 4010;
+const DEFAULT_FIXTURES_DIR = path.join(process.cwd(), 'fixtures', 'tour-api');
+const DEFAULT_UPSTREAM = 'https://apis.data.go.kr/B551011';
+const DEFAULT_NUM_OF_ROWS = 10;
+const DEFAULT_PAGE_NO = 1;
+
+/**
+ * 지원하는 서비스 (국문, 영문, 일문, 중문 간체)
+ */
+const SERVICES = ['KorService2', 'EngService2', 'JpnService2', 'ChsService2'];
+
+/**
+ * 지원하는 오퍼레이션
+ */
+const OPERATIONS = [
+  'areaCode2',
+  'categoryCode2',
+  'ldongCode2',
+  'lclsSystmCode2',
+  'areaBasedList2',
+  'searchKeyword2',
+  'locationBasedList2',
+  'searchFestival2',
+  'searchStay2',
+  'detailCommon2',
+  'detailIntro2',
+  'detailInfo2',
+  'detailImage2',
+  'detailPetTour2',
+];
+
+/**
+ * 항목을 서로 공유하는 목록 오퍼레이션
+ * (행사 목록은 행사 기간 필드가 있어야 하므로 제외)
+ */
+const SHARED_LIST_OPERATIONS = ['areaBasedList2', 'searchKeyword2', 'locationBasedList2', 'searchStay2'];
+
+/**
+ * 조건이 같은 녹화가 없어도 녹화 항목을 걸러 응답하는 오퍼레이션 (콘텐츠 항목 조회)
+ */
+const FILTERABLE_OPERATIONS = [
+  ...SHARED_LIST_OPERATIONS,
+  'searchFestival2',
+  'detailCommon2',
+  'detailIntro2',
+  'detailInfo2',
+  'detailImage2',
+  'detailPetTour2',
+];
+
+/**
+ * 녹화 조건에서 제외하는 파라미터 (공통 파라미터, 페이지 파라미터)
+ */
+const NON_CONDITION_PARAMS = ['serviceKey', 'MobileOS', 'MobileApp', '_type', 'numOfRows', 'pageNo'];
+
+/**
+ * 요청 파라미터 → 항목 필드 (값이 같은 항목만 응답)
+ */
+const FIELD_PARAMS: Record<string, string> = {
+  contentId: 'contentid',
+  contentTypeId: 'contenttypeid',
+  areaCode: 'areacode',
+  sigunguCode: 'sigungucode',
+  lDongRegnCd: 'lDongRegnCd',
+  lDongSignguCd: 'lDongSignguCd',
+  cat1: 'cat1',
+  cat2: 'cat2',
+  cat3: 'cat3',
+  lclsSystm1: 'lclsSystm1',
+  lclsSystm2: 'lclsSystm2',
+  lclsSystm3: 'lclsSystm3',
+};
+
+/**
+ * 숙박 콘텐츠 타입 ID (searchStay2 응답 항목)
+ */
+const ACCOMMODATION_CONTENT_TYPE_ID = '32';
+
+/**
+ * data.go.kr 에러 코드 (lib/api/tour-api-error-envelope.ts의 코드 표와 같음)
+ */
+const RETURN_REASONS = {
+  NO_OPENAPI_SERVICE: { code: '12', name: 'NO_OPENAPI_SERVICE_ERROR' },
+  QUOTA_EXCEEDED: { code: '22', name: 'LIMITED_NUMBER_OF_SERVICE_REQUESTS_EXCEEDS_ERROR' },
+  SERVICE_KEY_NOT_REGISTERED: { code: '30', name: 'SERVICE_KEY_IS_NOT_REGISTERED_ERROR' },
+} as const;
+
+type FixtureItem = Record<string, unknown>;
+
+/**
+ * 녹화된 응답 (같은 조건의 여러 페이지는 항목을 합쳐 하나로 저장)
+ */
+interface FixtureRecording {
+  params: Record<string, string>; // 조회 조건 (공통, 페이지 파라미터 제외)
+  totalCount: number; // 녹화 당시 전체 결과 수
+  items: FixtureItem[];
+}
+
+/**
+ * fixture 파일 ({서비스}/{오퍼레이션}.json)
+ */
+interface FixtureFile {
+  service: string;
+  operation: string;
+  recordings: FixtureRecording[];
+}
+
+/**
+ * 대체 서버 옵션
+ */
+export interface MockTourAPIOptions {
+  /**
+   * fixture 디렉토리
+   * @default fixtures/tour-api
+   */
+  fixturesDir?: string;
+  /**
+   * 녹화 모드 (실제 API 호출 후 fixture 저장)
+   * @default false
+   */
+  record?: boolean;
+  /**
+   * 녹화 모드에서 호출할 실제 API 주소
+   * @default https://apis.data.go.kr/B551011
+   */
+  upstream?: string;
+  /**
+   * 허용할 서비스 키 (지정하지 않으면 모든 키 허용)
+   */
+  serviceKey?: string;
+  /**
+   * 허용할 호출 수 (초과하면 일일 호출 한도 초과 에러)
+   */
+  quota?: number;
+  /**
+   * 요청 로그 출력 여부
+   * @default true
+   */
+  log?: boolean;
+}
+
+// =====================================================
+// fixture 파일
+// =====================================================
+
+function getFixturePath(fixturesDir: string, service: string, operation: string): string {
+  return path.join(fixturesDir, service, `${operation}.json`);
+}
+
+async function readFixture(
+  fixturesDir: string,
+  service: string,
+  operation: string,
+): Promise<FixtureFile | null> {
+  try {
+    const content = await readFile(getFixturePath(fixturesDir, service, operation), 'utf-8');
+    return JSON.parse(content) as FixtureFile;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function writeFixture(fixturesDir: string, fixture: FixtureFile): Promise<void> {
+  const filePath = getFixturePath(fixturesDir, fixture.service, fixture.operation);
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, `${JSON.stringify(fixture, null, 2)}\n`, 'utf-8');
+}
+
+/**
+ * 요청 파라미터 중 조회 조건 (키 정렬)
+ */
+function getConditionParams(searchParams: URLSearchParams): Record<string, string> {
+  return Object.fromEntries(
+    [...searchParams.entries()]
+      .filter(([key, value]) => !NON_CONDITION_PARAMS.includes(key) && value !== '')
+      .sort(([a], [b]) => a.localeCompare(b)),
+  );
+}
+
+function isSameCondition(a: Record<string, string>, b: Record<string, string>): boolean {
+  const aKeys = Object.keys(a);
+  return aKeys.length === Object.keys(b).length && aKeys.every((key) => a[key] === b[key]);
+}
+
+/**
+ * 녹화 응답을 fixture에 병합 (같은 조건이면 항목을 중복 없이 추가)
+ */
+function mergeRecording(
+  fixture: FixtureFile,
+  params: Record<string, string>,
+  totalCount: number,
+  items: FixtureItem[],
+): void {
+  const recording = fixture.recordings.find((entry) => isSameCondition(entry.params, params));
+
+  if (!recording) {
+    fixture.recordings.push({ params, totalCount, items });
+    return;
+  }
+
+  const existing = new Set(recording.items.map((item) => JSON.stringify(item)));
+  recording.items.push(...items.filter((item) => !existing.has(JSON.stringify(item))));
+  recording.totalCount = totalCount;
+}
+
+// =====================================================
+// 응답 생성
+// =====================================================
+
+/**
+ * data.go.kr 공통 에러 응답 (OpenAPI_ServiceResponse)
+ */
+function createErrorEnvelope(reason: { code: string; name: string }): string {
+  return [
+    '<OpenAPI_ServiceResponse>',
+    '\t<cmmMsgHeader>',
+    '\t\t<errMsg>SERVICE ERROR</errMsg>',
+    `\t\t<returnAuthMsg>${reason.name}</returnAuthMsg>`,
+    `\t\t<returnReasonCode>${reason.code}</returnReasonCode>`,
+    '\t</cmmMsgHeader>',
+    '</OpenAPI_ServiceResponse>',
+  ].join('\n');
+}
+
+/**
+ * 정상 응답 (항목이 없으면 items는 빈 문자열)
+ */
+function createListResponse(items: FixtureItem[], numOfRows: number, pageNo: number) {
+  const pageItems = items.slice((pageNo - 1) * numOfRows, pageNo * numOfRows);
+
+  return {
+    response: {
+      header: { resultCode: '0000', resultMsg: 'OK' },
+      body: {
+        items: pageItems.length > 0 ? { item: pageItems } : '',
+        numOfRows,
+        pageNo,
+        totalCount: items.length,
+      },
+    },
+  };
+}
+
+function parsePositiveInt(value: string | null, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// =====================================================
+// 조건 필터
+// =====================================================
+
+/**
+ * 검색어 비교용 정규화 (공백 제거, 소문자)
+ */
+function normalizeKeyword(value: string): string {
+  return value.replace(/\s+/g, '').toLowerCase();
+}
+
+/**
+ * 좌표 값 → WGS84 도 단위 (정수형 KATEC 값이면 10000000으로 나눔)
+ */
+function toDegrees(value: unknown): number {
+  const parsed = Number(value);
+  return Math.abs(parsed) > 1000 ? parsed / 10000000 : parsed;
+}
+
+/**
+ * 두 좌표 사이 거리 (미터, 하버사인 공식)
+ */
+function getDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRadians = (degree: number) => (degree * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 6371000 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * 녹화 항목을 요청 조건으로 거르기
+ */
+function filterItems(
+  items: FixtureItem[],
+  operation: string,
+  searchParams: URLSearchParams,
+): FixtureItem[] {
+  let result = items;
+
+  // 지역/타입/분류/콘텐츠 ID 조건
+  for (const [param, field] of Object.entries(FIELD_PARAMS)) {
+    const value = searchParams.get(param);
+    if (value) {
+      result = result.filter((item) => String(item[field] ?? '') === value);
+    }
+  }
+
+  if (operation === 'searchStay2') {
+    result = result.filter((item) => item.contenttypeid === ACCOMMODATION_CONTENT_TYPE_ID);
+  }
+
+  // 키워드 검색 (제목 부분 일치)
+  const keyword = searchParams.get('keyword');
+  if (keyword) {
+    const normalized = normalizeKeyword(keyword);
+    result = result.filter((item) => normalizeKeyword(String(item.title ?? '')).includes(normalized));
+  }
+
+  // 행사 기간 조건 (기간이 겹치는 행사)
+  const eventStartDate = searchParams.get('eventStartDate');
+  if (eventStartDate) {
+    result = result.filter((item) => String(item.eventenddate ?? '') >= eventStartDate);
+  }
+  const eventEndDate = searchParams.get('eventEndDate');
+  if (eventEndDate) {
+    result = result.filter((item) => String(item.eventstartdate ?? '') <= eventEndDate);
+  }
+
+  // 위치 기반 조건 (반경 내 항목, 거리 필드 추가, 가까운 순 정렬)
+  if (operation === 'locationBasedList2') {
+    const mapX = Number(searchParams.get('mapX'));
+    const mapY = Number(searchParams.get('mapY'));
+    const radius = Number(searchParams.get('radius'));
+
+    if (Number.isFinite(mapX) && Number.isFinite(mapY) && radius > 0) {
+      result = result
+        .map((item) => ({
+          ...item,
+          dist: getDistance(mapY, mapX, toDegrees(item.mapy), toDegrees(item.mapx)).toFixed(2),
+        }))
+        .filter((item) => Number(item.dist) <= radius)
+        .sort((a, b) => Number(a.dist) - Number(b.dist));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 요청에 해당하는 항목 찾기
+ * 같은 조건의 녹화가 있으면 그 항목, 없으면 같은 종류의 녹화 항목을 조건으로 거른 결과를 반환합니다.
+ */
+async function findItems(
+  fixturesDir: string,
+  service: string,
+  operation: string,
+  searchParams: URLSearchParams,
+): Promise<FixtureItem[]> {
+  const params = getConditionParams(searchParams);
+  const fixture = await readFixture(fixturesDir, service, operation);
+  const recording = fixture?.recordings.find((entry) => isSameCondition(entry.params, params));
+
+  if (recording) {
+    return recording.items;
+  }
+
+  if (!FILTERABLE_OPERATIONS.includes(operation)) {
+    return [];
+  }
+
+  const sourceOperations = SHARED_LIST_OPERATIONS.includes(operation)
+    ? SHARED_LIST_OPERATIONS
+    : [operation];
+  const fixtures = await Promise.all(
+    sourceOperations.map((source) =>
+      source === operation ? fixture : readFixture(fixturesDir, service, source),
+    ),
+  );
+
+  // 여러 녹화에 같은 콘텐츠가 있으면 한 번만 사용 (이미지는 일련번호까지 비교)
+  const seen = new Set<string>();
+  const pool = fixtures
+    .flatMap((entry) => entry?.recordings ?? [])
+    .flatMap((entry) => entry.items)
+    .filter((item) => {
+      const key =
+        item.contentid !== undefined
+          ? `${item.contentid}:${item.serialnum ?? item.subcontentid ?? item.roomcode ?? item.fldgubun ?? ''}`
+          : JSON.stringify(item);
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+
+  return filterItems(pool, operation, searchParams);
+}
+
+// =====================================================
+// 요청 처리
+// =====================================================
+
+function send(
+  res: ServerResponse,
+  status: number,
+  body: string,
+  contentType = 'application/json;charset=UTF-8',
+): void {
+  res.writeHead(status, { 'Content-Type': contentType });
+  res.end(body);
+}
+
+/**
+ * 녹화 모드: 실제 API 호출 후 정상 응답 저장
+ */
+async function recordRequest(
+  url: URL,
+  service: string,
+  operation: string,
+  fixturesDir: string,
+  upstream: string,
+): Promise<{ status: number; body: string; contentType: string }> {
+  const response = await fetch(`${upstream}/${service}/${operation}${url.search}`);
+  const body = await response.text();
+  const contentType = response.headers.get('Content-Type') || 'application/json;charset=UTF-8';
+
+  let data: any;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    // XML/HTML 에러 응답은 저장하지 않음
+    return { status: response.status, body, contentType };
+  }
+
+  if (response.ok && data?.response?.header?.resultCode === '0000') {
+    const responseBody = data.response.body ?? {};
+    const rawItems = responseBody.items?.item ?? [];
+    const items: FixtureItem[] = Array.isArray(rawItems) ? rawItems : [rawItems];
+    const fixture = (await readFixture(fixturesDir, service, operation)) ?? {
+      service,
+      operation,
+      recordings: [],
+    };
+
+    mergeRecording(
+      fixture,
+      getConditionParams(url.searchParams),
+      Number(responseBody.totalCount) || items.length,
+      items,
+    );
+    await writeFixture(fixturesDir, fixture);
+  }
+
+  return { status: response.status, body, contentType };
+}
+
+/**
+ * 대체 서버 생성
+ * @example
+ * const server = createMockTourAPIServer({ quota: 0 });
+ * server.listen(4010);
+ */
+export function createMockTourAPIServer(options: MockTourAPIOptions = {}): Server {
+  const fixturesDir = options.fixturesDir ?? DEFAULT_FIXTURES_DIR;
+  const upstream = (options.upstream ?? DEFAULT_UPSTREAM).replace(/\/+$/, '');
+  const log = options.log ?? true;
+  let requestCount = 0;
+
+  // 녹화 파일 쓰기가 겹치지 않도록 순서대로 처리
+  let recordQueue: Promise<unknown> = Promise.resolve();
+
+  const handle = async (req: IncomingMessage, res: ServerResponse): Promise<string> => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    // 주소 접두사(/B551011 등)는 무시하고 마지막 두 경로만 사용
+    const [service, operation] = url.pathname.split('/').filter(Boolean).slice(-2);
+
+    if (req.method !== 'GET' || !SERVICES.includes(service) || !OPERATIONS.includes(operation)) {
+      send(res, 200, createErrorEnvelope(RETURN_REASONS.NO_OPENAPI_SERVICE), 'text/xml;charset=UTF-8');
+      return 'NO_OPENAPI_SERVICE_ERROR';
+    }
+
+    if (options.record) {
+      const result = recordQueue.then(() =>
+        recordRequest(url, service, operation, fixturesDir, upstream),
+      );
+      recordQueue = result.catch(() => undefined);
+      const { status, body, contentType } = await result;
+      send(res, status, body, contentType);
+      return `녹화 ${status}`;
+    }
+
+    if (options.serviceKey !== undefined && url.searchParams.get('serviceKey') !== options.serviceKey) {
+      send(
+        res,
+        200,
+        createErrorEnvelope(RETURN_REASONS.SERVICE_KEY_NOT_REGISTERED),
+        'text/xml;charset=UTF-8',
+      );
+      return 'SERVICE_KEY_IS_NOT_REGISTERED_ERROR';
+    }
+
+    requestCount += 1;
+    if (options.quota !== undefined && requestCount > options.quota) {
+      send(res, 200, createErrorEnvelope(RETURN_REASONS.QUOTA_EXCEEDED), 'text/xml;charset=UTF-8');
+      return 'LIMITED_NUMBER_OF_SERVICE_REQUESTS_EXCEEDS_ERROR';
+    }
+
+    const items = await findItems(fixturesDir, service, operation, url.searchParams);
+    const numOfRows = parsePositiveInt(url.searchParams.get('numOfRows'), DEFAULT_NUM_OF_ROWS);
+    const pageNo = parsePositiveInt(url.searchParams.get('pageNo'), DEFAULT_PAGE_NO);
+
+    send(res, 200, JSON.stringify(createListResponse(items, numOfRows, pageNo)));
+    return `${items.length}건`;
+  };
+
+  return createServer((req, res) => {
+    handle(req, res)
+      .then((result) => {
+        if (log) {
+          console.log(`[mock-tour-api] ${req.method} ${req.url?.split('?')[0]} → ${result}`);
+        }
+      })
+      .catch((error) => {
+        console.error('[mock-tour-api] 요청 처리 실패:', error);
+        if (!res.headersSent) {
+          send(res, 500, 'Internal Server Error', 'text/plain;charset=UTF-8');
+        }
+      });
+  });
+}
+
+// =====================================================
+// 실행
+// =====================================================
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const port = Number(getOption(args, '--port') ?? process.env.MOCK_TOUR_API_PORT ?? DEFAULT_PORT);
+  const quota = getOption(args, '--quota');
+  const fixturesDir = getOption(args, '--fixtures');
+
+  const options: MockTourAPIOptions = {
+    fixturesDir: fixturesDir ? path.resolve(fixturesDir) : undefined,
+    record: args.includes('--record'),
+    upstream: getOption(args, '--upstream'),
+    serviceKey: getOption(args, '--service-key'),
+    quota: quota !== undefined ? Number(quota) : undefined,
+  };
+
+  createMockTourAPIServer(options).listen(port, () => {
+    console.log(
+      `🧪 한국관광공사 API 대체 서버 (${options.record ? '녹화' : '재생'} 모드): http://localhost:${port}`,
+    );
+    console.log(`   앱 실행: TOUR_API_BASE_URL=http://localhost:${port} npm run dev`);
+  });
+}
+
+// 직접 실행한 경우에만 서버 시작 (테스트에서는 createMockTourAPIServer만 사용)
+if (/mock-tour-api\.[cm]?[jt]s$/.test(process.argv[1] ?? '')) {
+  main();
+}
@@ -0,0 +1,31 @@
+-- =====================================================
+-- 마이그레이션: 한국관광공사 API 응답 캐시 테이블
+-- 작성일: 2026-10-18
+-- 설명: lib/api/tour-api-cache.ts의 Supabase 어댑터가 사용하는 캐시 테이블
+--       - TOUR_API_CACHE=supabase 환경변수로 사용
+--       - 서버(Service Role)에서만 접근
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.tour_api_cache (
+    key TEXT PRIMARY KEY,              -- 오퍼레이션 이름 + 쿼리 문자열 (API 키 제외)
+    value JSONB NOT NULL,              -- API 응답 원본
+    stored_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,  -- 이 시각까지 그대로 사용
+    stale_until TIMESTAMP WITH TIME ZONE NOT NULL  -- 이 시각까지 이전 응답 반환 + 백그라운드 갱신
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.tour_api_cache OWNER TO postgres;
+
+-- 인덱스 생성 (만료 항목 정리용)
+CREATE INDEX IF NOT EXISTS idx_tour_api_cache_stale_until ON public.tour_api_cache(stale_until);
+
+-- Row Level Security 활성화 (정책 없음: Service Role만 접근 가능)
+ALTER TABLE public.tour_api_cache ENABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.tour_api_cache TO service_role;
+
+-- 테이블 설명
+COMMENT ON TABLE public.tour_api_cache IS '한국관광공사 API 응답 캐시';
+COMMENT ON COLUMN public.tour_api_cache.key IS '오퍼레이션 이름 + 쿼리 문자열 (예: areaCode2?MobileOS=ETC&...)';
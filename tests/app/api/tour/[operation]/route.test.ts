@@ -0,0 +1,57 @@
+/**
+ * @file route.test.ts
+ * @description 한국관광공사 API 프록시 라우트 테스트 (인자 검증, numOfRows 상한)
+ *
+ * 요청 로케일은 미들웨어가 전달하는 헤더에서 읽으므로 한국어로 고정합니다.
+ */
+
+import { NextRequest } from "next/server";
+import { describe, expect, it, vi } from "vitest";
+import { GET } from "@/app/api/tour/[operation]/route";
+import { TourAPIErrorType } from "@/lib/api/tour-api-error";
+import { TOUR_API_ARGS_PARAM, type TourAPIProxyErrorBody } from "@/lib/api/tour-api-client";
+import {
+  MAX_PROXY_NUM_OF_ROWS,
+  MAX_PROXY_STAY_NUM_OF_ROWS,
+} from "@/lib/api/tour-api-operations";
+import { jsonResponse, mockFetch, tourAPIBody } from "../../../../helpers/tour-api-response";
+
+vi.mock("@/lib/i18n/server", () => ({
+  getRequestLocale: async () => "ko",
+}));
+
+/**
+ * 프록시 요청 (GET /api/tour/{operation}?args=[...])
+ */
+function requestProxy(operation: string, args: unknown[]) {
+  const url = new URL(`http://localhost/api/tour/${operation}`);
+  url.searchParams.set(TOUR_API_ARGS_PARAM, JSON.stringify(args));
+  return GET(new NextRequest(url), { params: Promise.resolve({ operation }) });
+}
+
+describe("GET /api/tour/[operation]", () => {
+  it("허용된 인자로 API를 호출한다", async () => {
+    const fetchMock = mockFetch(jsonResponse(tourAPIBody([{ rnum: 1, code: 1, name: "서울" }])));
+
+    const response = await requestProxy("getAreaCode", [{ numOfRows: 20 }]);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual([{ rnum: "1", code: "1", name: "서울" }]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([
+    ["searchKeyword", { keyword: "서울", numOfRows: MAX_PROXY_NUM_OF_ROWS + 1 }],
+    ["getAreaBasedList", { numOfRows: 1000 }],
+    ["searchStay", { numOfRows: MAX_PROXY_STAY_NUM_OF_ROWS + 1 }],
+  ])("%s의 상한을 넘는 numOfRows는 API를 호출하지 않고 거부한다", async (operation, params) => {
+    const fetchMock = mockFetch(jsonResponse(tourAPIBody("")));
+
+    const response = await requestProxy(operation, [params]);
+    const body = (await response.json()) as TourAPIProxyErrorBody;
+
+    expect(response.status).toBe(400);
+    expect(body.error.errorType).toBe(TourAPIErrorType.VALIDATION_ERROR);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
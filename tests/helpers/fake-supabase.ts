@@ -0,0 +1,274 @@
+/**
+ * @file fake-supabase.ts
+ * @description 메모리 Supabase 대체 클라이언트
+ *
+ * 실제 Supabase(PostgREST) 대신 메모리 테이블에 대해 쿼리를 실행합니다.
+ * lib/api/supabase-api.ts가 사용하는 쿼리 빌더 메서드와 에러 코드만 재현합니다.
+ * - from / select / insert / upsert / delete / eq / order / single / maybeSingle
+ * - UNIQUE 제약 위반: 23505 (supabase/migrations의 제약과 같은 컬럼)
+ * - single()에 결과가 1건이 아님: PGRST116
+ *
+ * 같은 데이터베이스를 공유하는 클라이언트를 여러 개 만들 수 있습니다.
+ * (예: 사용자 클라이언트와 Service Role 클라이언트)
+ */
+
+import { randomUUID } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// =====================================================
+// 타입 정의
+// =====================================================
+
+type Row = Record<string, unknown>;
+
+export interface FakePostgrestError {
+  code: string;
+  message: string;
+  details?: string | null;
+  hint?: string | null;
+}
+
+interface FakeResult {
+  data: unknown;
+  error: FakePostgrestError | null;
+}
+
+type Action = "select" | "insert" | "upsert" | "delete";
+
+/**
+ * 테이블별 UNIQUE 제약 (supabase/migrations/db.sql)
+ */
+const UNIQUE_CONSTRAINTS: Record<string, { name: string; columns: string[] }[]> = {
+  users: [{ name: "users_clerk_id_key", columns: ["clerk_id"] }],
+  bookmarks: [{ name: "unique_user_bookmark", columns: ["user_id", "content_id"] }],
+};
+
+// =====================================================
+// 데이터베이스
+// =====================================================
+
+/**
+ * 메모리 데이터베이스
+ */
+export class FakeDatabase {
+  readonly tables = new Map<string, Row[]>();
+  private readonly injectedErrors: { table: string; action: Action; error: FakePostgrestError }[] = [];
+
+  /**
+   * 테이블 행 목록 (없으면 빈 테이블 생성)
+   */
+  table(name: string): Row[] {
+    if (!this.tables.has(name)) {
+      this.tables.set(name, []);
+    }
+    return this.tables.get(name)!;
+  }
+
+  /**
+   * 행 직접 추가 (id, created_at 자동 생성)
+   */
+  seed(name: string, rows: Row[]): Row[] {
+    const inserted = rows.map((row) => ({
+      id: randomUUID(),
+      created_at: new Date().toISOString(),
+      ...row,
+    }));
+    this.table(name).push(...inserted);
+    return inserted;
+  }
+
+  /**
+   * 다음 쿼리 1회를 지정한 에러로 실패시킴
+   */
+  failNext(table: string, action: Action, error: FakePostgrestError): void {
+    this.injectedErrors.push({ table, action, error });
+  }
+
+  takeInjectedError(table: string, action: Action): FakePostgrestError | null {
+    const index = this.injectedErrors.findIndex(
+      (injected) => injected.table === table && injected.action === action,
+    );
+    if (index === -1) {
+      return null;
+    }
+    return this.injectedErrors.splice(index, 1)[0].error;
+  }
+
+  /**
+   * Supabase 클라이언트 생성 (이 데이터베이스 사용)
+   */
+  createClient(): SupabaseClient {
+    return { from: (table: string) => new FakeQueryBuilder(this, table) } as unknown as SupabaseClient;
+  }
+}
+
+// =====================================================
+// 쿼리 빌더
+// =====================================================
+
+/**
+ * 위반한 UNIQUE 제약 이름 (위반하지 않으면 null)
+ */
+function findUniqueViolation(table: string, rows: Row[], row: Row): string | null {
+  const violated = (UNIQUE_CONSTRAINTS[table] || []).find(({ columns }) =>
+    rows.some((existing) => columns.every((column) => existing[column] === row[column])),
+  );
+  return violated?.name ?? null;
+}
+
+class FakeQueryBuilder implements PromiseLike<FakeResult> {
+  private action: Action = "select";
+  private values: Row[] = [];
+  private onConflict?: string;
+  private readonly filters: [string, unknown][] = [];
+  private orderBy?: { column: string; ascending: boolean };
+  private mode: "many" | "single" | "maybeSingle" = "many";
+
+  constructor(
+    private readonly db: FakeDatabase,
+    private readonly tableName: string,
+  ) {}
+
+  select(): this {
+    // insert/upsert 뒤의 select()는 저장한 행을 반환하라는 의미이므로 동작을 바꾸지 않음
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.action = "insert";
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string } = {}): this {
+    this.action = "upsert";
+    this.values = Array.isArray(values) ? values : [values];
+    this.onConflict = options.onConflict;
+    return this;
+  }
+
+  delete(): this {
+    this.action = "delete";
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push([column, value]);
+    return this;
+  }
+
+  order(column: string, { ascending = true }: { ascending?: boolean } = {}): this {
+    this.orderBy = { column, ascending };
+    return this;
+  }
+
+  single(): this {
+    this.mode = "single";
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.mode = "maybeSingle";
+    return this;
+  }
+
+  then<TResult1 = FakeResult, TResult2 = never>(
+    onfulfilled?: ((value: FakeResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null,
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onfulfilled, onrejected);
+  }
+
+  private matches(row: Row): boolean {
+    return this.filters.every(([column, value]) => row[column] === value);
+  }
+
+  private execute(): FakeResult {
+    const injected = this.db.takeInjectedError(this.tableName, this.action);
+    if (injected) {
+      return { data: null, error: injected };
+    }
+
+    const rows = this.db.table(this.tableName);
+    let result: Row[];
+
+    switch (this.action) {
+      case "insert": {
+        result = [];
+        for (const value of this.values) {
+          const row = { id: randomUUID(), created_at: new Date().toISOString(), ...value };
+          const constraint = findUniqueViolation(this.tableName, rows, row);
+          if (constraint) {
+            return {
+              data: null,
+              error: {
+                code: "23505",
+                message: `duplicate key value violates unique constraint "${constraint}"`,
+              },
+            };
+          }
+          rows.push(row);
+          result.push(row);
+        }
+        break;
+      }
+      case "upsert": {
+        const conflictColumns = (this.onConflict || "id").split(",").map((column) => column.trim());
+        result = this.values.map((value) => {
+          const existing = rows.find((row) => conflictColumns.every((column) => row[column] === value[column]));
+          if (existing) {
+            Object.assign(existing, value);
+            return existing;
+          }
+          const row = { id: randomUUID(), created_at: new Date().toISOString(), ...value };
+          rows.push(row);
+          return row;
+        });
+        break;
+      }
+      case "delete": {
+        result = rows.filter((row) => this.matches(row));
+        this.db.tables.set(
+          this.tableName,
+          rows.filter((row) => !result.includes(row)),
+        );
+        break;
+      }
+      case "select":
+      default: {
+        result = rows.filter((row) => this.matches(row));
+        if (this.orderBy) {
+          const { column, ascending } = this.orderBy;
+          result = [...result].sort((a, b) => {
+            const order = String(a[column]).localeCompare(String(b[column]));
+            return ascending ? order : -order;
+          });
+        }
+        break;
+      }
+    }
+
+    // 반환 행은 복사본 (호출한 쪽에서 수정해도 테이블에 영향 없음)
+    const data = result.map((row) => ({ ...row }));
+
+    if (this.mode === "many") {
+      return { data: this.action === "delete" ? null : data, error: null };
+    }
+    if (data.length === 1) {
+      return { data: data[0], error: null };
+    }
+    if (data.length === 0 && this.mode === "maybeSingle") {
+      return { data: null, error: null };
+    }
+    return {
+      data: null,
+      error: {
+        code: "PGRST116",
+        message: "JSON object requested, multiple (or no) rows returned",
+        details: `The result contains ${data.length} rows`,
+      },
+    };
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * @file tour-api-response.ts
+ * @description 한국관광공사 API 응답 생성 및 fetch 모킹 헬퍼
+ *
+ * KorService2 JSON 응답과 data.go.kr XML 에러 응답을 만들고,
+ * 호출 순서대로 응답을 돌려주는 fetch 모킹 함수를 제공합니다.
+ */
+
+import { vi } from "vitest";
+
+// =====================================================
+// 응답 본문
+// =====================================================
+
+/**
+ * 정상 JSON 응답 본문
+ * @param items - 항목 목록 (객체 하나를 넘기면 단일 항목 응답, 빈 문자열이면 결과 없음 응답)
+ */
+export function tourAPIBody(
+  items: Record<string, unknown>[] | Record<string, unknown> | "",
+  { totalCount, numOfRows = 10, pageNo = 1 }: { totalCount?: number; numOfRows?: number; pageNo?: number } = {},
+) {
+  return {
+    response: {
+      header: { resultCode: "0000", resultMsg: "OK" },
+      body: {
+        items: items === "" ? "" : { item: items },
+        numOfRows,
+        pageNo,
+        totalCount: totalCount ?? (items === "" ? 0 : Array.isArray(items) ? items.length : 1),
+      },
+    },
+  };
+}
+
+/**
+ * 결과 코드가 실패인 JSON 응답 본문
+ */
+export function tourAPIErrorBody(resultCode: string, resultMsg: string) {
+  return { response: { header: { resultCode, resultMsg } } };
+}
+
+/**
+ * data.go.kr 공통 XML 에러 본문 (OpenAPI_ServiceResponse)
+ */
+export function errorEnvelopeXml(reasonCode: number, authMsg: string): string {
+  return [
+    "<OpenAPI_ServiceResponse>",
+    "<cmmMsgHeader>",
+    "<errMsg>SERVICE ERROR</errMsg>",
+    `<returnAuthMsg>${authMsg}</returnAuthMsg>`,
+    `<returnReasonCode>${String(reasonCode).padStart(2, "0")}</returnReasonCode>`,
+    "</cmmMsgHeader>",
+    "</OpenAPI_ServiceResponse>",
+  ].join("");
+}
+
+// =====================================================
+// fetch 모킹
+// =====================================================
+
+export function jsonResponse(body: unknown, init: ResponseInit = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+    ...init,
+  });
+}
+
+export function textResponse(body: string, init: ResponseInit = {}): Response {
+  return new Response(body, { status: 200, ...init });
+}
+
+/**
+ * 응답이 오지 않다가 요청이 중단(AbortSignal)되면 AbortError로 실패하는 fetch 결과
+ */
+export function hangingResponse(init?: RequestInit): Promise<Response> {
+  return new Promise((_, reject) => {
+    init?.signal?.addEventListener("abort", () => {
+      reject(new DOMException("This operation was aborted", "AbortError"));
+    });
+  });
+}
+
+type MockFetchStep = Response | Error | ((url: string, init?: RequestInit) => Response | Promise<Response>);
+
+/**
+ * 전역 fetch를 호출 순서대로 응답하는 모킹 함수로 교체
+ * 준비한 응답보다 많이 호출하면 마지막 응답을 반복합니다.
+ * @returns fetch 모킹 함수 (호출 URL 확인용)
+ */
+export function mockFetch(...steps: MockFetchStep[]) {
+  let index = 0;
+  const fetchMock = vi.fn(async (input: string | URL | Request, init?: RequestInit) => {
+    const step = steps[Math.min(index++, steps.length - 1)];
+    if (step instanceof Error) {
+      throw step;
+    }
+    if (typeof step === "function") {
+      return step(String(input), init);
+    }
+    // 같은 응답을 반복해도 본문을 다시 읽을 수 있도록 복제
+    return step.clone();
+  });
+
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+/**
+ * fetch 모킹 함수의 n번째 호출 URL
+ */
+export function calledURL(fetchMock: ReturnType<typeof mockFetch>, call = 0): URL {
+  return new URL(String(fetchMock.mock.calls[call][0]));
+}
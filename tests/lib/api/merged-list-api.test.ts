@@ -0,0 +1,108 @@
+/**
+ * @file merged-list-api.test.ts
+ * @description 다중 관광 타입 병합 조회 테스트 (병합 순서, 조회 깊이 제한, 타입별 페이지 조회)
+ */
+
+import { describe, expect, it, vi } from "vitest";
+import { fetchMergedList, MAX_MERGED_DEPTH, MERGED_FETCH_ROWS } from "@/lib/api/merged-list-api";
+import type { TourItem } from "@/lib/types/tour";
+
+/**
+ * 병합 순서 확인에 필요한 필드만 채운 목록 항목
+ */
+function item(contentid: string, title: string, modifiedtime = "20240101000000"): TourItem {
+  return {
+    addr1: "",
+    areacode: "1",
+    contentid,
+    contenttypeid: "12",
+    title,
+    mapx: "126.9780",
+    mapy: "37.5665",
+    modifiedtime,
+  };
+}
+
+describe("fetchMergedList", () => {
+  it("타입별 목록의 API 정렬 순서를 유지하며 병합한다", async () => {
+    // API 제목순이 localeCompare 순서와 다른 경우에도 타입 안의 순서는 그대로 유지
+    const lists: Record<string, TourItem[]> = {
+      "12": [item("1", "나"), item("2", "가")],
+      "14": [item("3", "다")],
+    };
+
+    const result = await fetchMergedList(
+      ["12", "14"],
+      async (contentTypeId) => ({ items: lists[contentTypeId], totalCount: lists[contentTypeId].length }),
+      { arrange: "A", numOfRows: 12, pageNo: 1 },
+    );
+
+    expect(result.items.map(({ contentid }) => contentid)).toEqual(["1", "2", "3"]);
+  });
+
+  it("여러 타입에 있는 항목은 한 번만 포함한다", async () => {
+    const result = await fetchMergedList(
+      ["12", "14"],
+      async (contentTypeId) => ({
+        items:
+          contentTypeId === "12"
+            ? [item("1", "가", "20240103000000"), item("2", "나", "20240101000000")]
+            : [item("1", "가", "20240103000000"), item("3", "다", "20240102000000")],
+        totalCount: 2,
+      }),
+      { arrange: "C", numOfRows: 12, pageNo: 1 },
+    );
+
+    expect(result.items.map(({ contentid }) => contentid)).toEqual(["1", "3", "2"]);
+  });
+
+  it("totalCount를 최대 조회 깊이로 제한한다", async () => {
+    const fetchPage = vi.fn(async () => ({ items: [], totalCount: 900 }));
+
+    const result = await fetchMergedList(["12", "14"], fetchPage, {
+      arrange: "C",
+      numOfRows: 12,
+      pageNo: 1,
+    });
+
+    expect(result.totalCount).toBe(MAX_MERGED_DEPTH);
+    expect(fetchPage).toHaveBeenCalledWith("12", MERGED_FETCH_ROWS, 1);
+  });
+
+  it("병합 페이지에 필요한 타입별 페이지만 같은 크기로 조회한다", async () => {
+    // 타입별 200개 (수정일 내림차순), 두 타입이 번갈아 병합됨
+    const modified = (index: number) => `2024${String(1000 - index).padStart(10, "0")}`;
+    const lists: Record<string, TourItem[]> = {
+      "12": Array.from({ length: 200 }, (_, index) => item(`a${index}`, "가", modified(index * 2))),
+      "14": Array.from({ length: 200 }, (_, index) => item(`b${index}`, "가", modified(index * 2 + 1))),
+    };
+    const fetchPage = vi.fn(async (contentTypeId: string, numOfRows: number, pageNo: number) => ({
+      items: lists[contentTypeId].slice((pageNo - 1) * numOfRows, pageNo * numOfRows),
+      totalCount: lists[contentTypeId].length,
+    }));
+
+    // 5페이지(49~60번째 항목)는 타입별 앞 30개만 필요하므로 1페이지씩만 조회
+    const page5 = await fetchMergedList(["12", "14"], fetchPage, { arrange: "C", numOfRows: 12, pageNo: 5 });
+
+    expect(page5.items.map(({ contentid }) => contentid)).toEqual([
+      "a24", "b24", "a25", "b25", "a26", "b26", "a27", "b27", "a28", "b28", "a29", "b29",
+    ]);
+    expect(page5.totalCount).toBe(400);
+    expect(fetchPage.mock.calls).toEqual([
+      ["12", MERGED_FETCH_ROWS, 1],
+      ["14", MERGED_FETCH_ROWS, 1],
+    ]);
+
+    // 9페이지(97~108번째 항목)는 두 번째 페이지까지 조회 (첫 페이지는 같은 인자로 다시 조회하여 캐시 재사용)
+    fetchPage.mockClear();
+    const page9 = await fetchMergedList(["12", "14"], fetchPage, { arrange: "C", numOfRows: 12, pageNo: 9 });
+
+    expect(page9.items[0].contentid).toBe("a48");
+    expect(fetchPage.mock.calls).toEqual([
+      ["12", MERGED_FETCH_ROWS, 1],
+      ["14", MERGED_FETCH_ROWS, 1],
+      ["12", MERGED_FETCH_ROWS, 2],
+      ["14", MERGED_FETCH_ROWS, 2],
+    ]);
+  });
+});
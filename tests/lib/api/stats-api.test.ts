@@ -0,0 +1,178 @@
+/**
+ * @file stats-api.test.ts
+ * @description 통계 수집 테스트 (getStatsSummary 순위, 부분 실패, 호출 한도 초과)
+ *
+ * 한국관광공사 API 함수(getAreaCode, getAreaBasedList)는 지역/타입별 개수를 돌려주도록 모킹합니다.
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  getAreaBasedList,
+  getAreaCode,
+  TOUR_API_RETRY_POLICIES,
+  TourAPIError,
+  TourAPIErrorType,
+} from "@/lib/api/tour-api";
+import { getTourAPIRetryPolicy } from "@/lib/api/tour-api-retry";
+import { getStatsSummary, getTypeStats } from "@/lib/api/stats-api";
+
+vi.mock("@/lib/api/tour-api", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/api/tour-api")>()),
+  getAreaCode: vi.fn(),
+  getSigunguCode: vi.fn(),
+  getAreaBasedList: vi.fn(),
+}));
+
+const AREAS = [
+  { code: "1", name: "서울" },
+  { code: "6", name: "부산" },
+  { code: "31", name: "경기" },
+  { code: "39", name: "제주" },
+];
+
+/**
+ * 지역코드별 관광지 수
+ */
+const AREA_COUNTS: Record<string, number> = { "1": 1200, "6": 800, "31": 1500, "39": 950 };
+
+/**
+ * 콘텐츠 타입별 관광지 수 (12: 관광지, 14: 문화시설, 15: 축제, 25: 여행코스, 28: 레포츠, 32: 숙박, 38: 쇼핑, 39: 음식점)
+ */
+const TYPE_COUNTS: Record<string, number> = {
+  "12": 500,
+  "14": 150,
+  "15": 50,
+  "25": 20,
+  "28": 80,
+  "32": 300,
+  "38": 100,
+  "39": 800,
+};
+
+const quotaError = () =>
+  new TourAPIError("일일 호출 한도를 초과했습니다.", 429, undefined, TourAPIErrorType.QUOTA_EXCEEDED);
+
+/**
+ * 조회 조건(지역 또는 타입)에 맞는 개수를 totalCount로 응답
+ * @param fail - 실패시킬 지역코드/타입 ID와 에러
+ */
+function mockCounts(fail: Record<string, () => Error> = {}) {
+  vi.mocked(getAreaCode).mockResolvedValue(AREAS);
+  vi.mocked(getAreaBasedList).mockImplementation(async (params) => {
+    const key = params.contentTypeId ?? params.areaCode;
+    if (fail[key]) {
+      throw fail[key]();
+    }
+    const totalCount = params.contentTypeId ? TYPE_COUNTS[params.contentTypeId] : AREA_COUNTS[params.areaCode];
+    return { items: [], totalCount, numOfRows: 1, pageNo: 1 };
+  });
+}
+
+beforeEach(() => {
+  // 부분 실패 로그는 테스트 출력에서 생략
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+describe("getStatsSummary", () => {
+  it("관광지 수 기준 Top 3 지역과 Top 3 타입을 내림차순으로 반환한다", async () => {
+    mockCounts();
+
+    const summary = await getStatsSummary();
+
+    expect(summary.topRegions.map((region) => [region.name, region.count])).toEqual([
+      ["경기", 1500],
+      ["서울", 1200],
+      ["제주", 950],
+    ]);
+    expect(summary.topTypes.map((type) => [type.name, type.count])).toEqual([
+      ["음식점", 800],
+      ["관광지", 500],
+      ["숙박", 300],
+    ]);
+    expect(summary.lastUpdated).toBeInstanceOf(Date);
+  });
+
+  it("전체 관광지 수는 타입별 개수의 합계이다", async () => {
+    mockCounts();
+
+    const summary = await getStatsSummary();
+
+    expect(summary.totalCount).toBe(2000);
+  });
+
+  it("순위 항목에 지역코드와 타입 비율을 포함한다", async () => {
+    mockCounts();
+
+    const { topRegions, topTypes } = await getStatsSummary();
+
+    expect(topRegions[0]).toMatchObject({ areaCode: "31", lDongRegnCd: "41", sigunguCode: undefined });
+    expect(topTypes[0]).toMatchObject({ contentTypeId: "39", percentage: 40 });
+  });
+
+  it("수집에 실패한 지역과 타입은 순위에서 제외한다", async () => {
+    mockCounts({
+      "31": () => new TourAPIError("서비스 점검", 503),
+      "39": () => new TourAPIError("서비스 점검", 503),
+    });
+
+    const summary = await getStatsSummary();
+
+    // 지역코드 39(제주)와 콘텐츠 타입 39(음식점)가 모두 실패
+    expect(summary.topRegions.map((region) => region.name)).toEqual(["서울", "부산"]);
+    expect(summary.topTypes.map((type) => type.name)).toEqual(["관광지", "숙박", "문화시설"]);
+    expect(summary.totalCount).toBe(1200);
+    expect(summary.missingCount).toBe(3);
+  });
+
+  it("모든 항목을 수집하면 수집하지 못한 항목 수는 0이다", async () => {
+    mockCounts();
+
+    const summary = await getStatsSummary();
+
+    expect(summary.missingCount).toBe(0);
+  });
+
+  it("호출 한도 때문에 타입 통계를 하나도 수집하지 못하면 QUOTA_EXCEEDED 에러를 던진다", async () => {
+    mockCounts(Object.fromEntries(Object.keys(TYPE_COUNTS).map((id) => [id, quotaError])));
+
+    await expect(getStatsSummary()).rejects.toMatchObject({
+      errorType: TourAPIErrorType.QUOTA_EXCEEDED,
+    });
+  });
+
+  it("TourAPIError가 아닌 에러는 TourAPIError로 감싸서 던진다", async () => {
+    vi.mocked(getAreaCode).mockRejectedValue(new Error("unexpected"));
+    vi.mocked(getAreaBasedList).mockResolvedValue({ items: [], totalCount: 0, numOfRows: 1, pageNo: 1 });
+
+    const error = await getStatsSummary().catch((reason: unknown) => reason);
+
+    expect(error).toBeInstanceOf(TourAPIError);
+    expect((error as TourAPIError).message).toBe("지역별 통계 수집 중 에러가 발생했습니다.");
+  });
+});
+
+describe("getTypeStats", () => {
+  it("페이지 렌더링 중 수집하므로 failFast 재시도 정책으로 호출한다", async () => {
+    const policies: unknown[] = [];
+    vi.mocked(getAreaBasedList).mockImplementation(async () => {
+      policies.push(getTourAPIRetryPolicy());
+      return { items: [], totalCount: 1, numOfRows: 1, pageNo: 1 };
+    });
+
+    await getTypeStats();
+
+    expect(policies).toHaveLength(8);
+    expect(policies.every((policy) => policy === TOUR_API_RETRY_POLICIES.failFast)).toBe(true);
+  });
+
+  it("전체 개수가 0이면 비율을 계산하지 않는다", async () => {
+    vi.mocked(getAreaBasedList).mockResolvedValue({ items: [], totalCount: 0, numOfRows: 1, pageNo: 1 });
+
+    const { items, missingCount } = await getTypeStats();
+
+    expect(items).toHaveLength(8);
+    expect(missingCount).toBe(0);
+    expect(items.every((stat) => stat.percentage === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * @file supabase-api.test.ts
+ * @description 북마크 API 테스트 (중복 북마크 처리, 사용자 자동 동기화)
+ *
+ * Supabase는 메모리 대체 클라이언트(tests/helpers/fake-supabase.ts)를 사용합니다.
+ * 자동 동기화는 서버(Service Role 클라이언트 + Clerk)와 클라이언트(/api/sync-user 호출) 경로를 모두 확인합니다.
+ */
+
+import { auth, clerkClient } from "@clerk/nextjs/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  addBookmark,
+  BookmarkUserNotFoundError,
+  getBookmark,
+  getUserBookmarks,
+  removeBookmark,
+} from "@/lib/api/supabase-api";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { FakeDatabase } from "../../helpers/fake-supabase";
+
+vi.mock("@/lib/supabase/service-role", () => ({ getServiceRoleClient: vi.fn() }));
+vi.mock("@clerk/nextjs/server", () => ({ auth: vi.fn(), clerkClient: vi.fn() }));
+
+const CLERK_USER_ID = "user_2abcTEST";
+const CONTENT_ID = "126508";
+
+let db: FakeDatabase;
+
+/**
+ * 로그인한 Clerk 사용자 설정 (auth, clerkClient)
+ */
+function mockClerkUser(userId: string | null, profile: { fullName?: string; username?: string } = {}) {
+  vi.mocked(auth).mockResolvedValue({ userId } as Awaited<ReturnType<typeof auth>>);
+  vi.mocked(clerkClient).mockResolvedValue({
+    users: {
+      getUser: vi.fn(async (id: string) => ({
+        id,
+        fullName: profile.fullName ?? null,
+        username: profile.username ?? null,
+        emailAddresses: [{ emailAddress: "traveler@example.com" }],
+      })),
+    },
+  } as unknown as Awaited<ReturnType<typeof clerkClient>>);
+}
+
+beforeEach(() => {
+  db = new FakeDatabase();
+  vi.mocked(getServiceRoleClient).mockImplementation(() => db.createClient());
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+// =====================================================
+// 북마크 추가
+// =====================================================
+
+describe("addBookmark", () => {
+  beforeEach(() => {
+    db.seed("users", [{ clerk_id: CLERK_USER_ID, name: "여행자" }]);
+  });
+
+  it("Clerk 사용자의 북마크를 추가한다", async () => {
+    const [user] = db.table("users");
+
+    const bookmark = await addBookmark(db.createClient(), CLERK_USER_ID, CONTENT_ID);
+
+    expect(bookmark).toMatchObject({ user_id: user.id, content_id: CONTENT_ID });
+    expect(db.table("bookmarks")).toHaveLength(1);
+  });
+
+  it("이미 북마크한 관광지(23505)는 에러 없이 기존 북마크를 반환한다", async () => {
+    const supabase = db.createClient();
+    const first = await addBookmark(supabase, CLERK_USER_ID, CONTENT_ID);
+
+    const second = await addBookmark(supabase, CLERK_USER_ID, CONTENT_ID);
+
+    expect(second).toEqual(first);
+    expect(db.table("bookmarks")).toHaveLength(1);
+  });
+
+  it("23505인데 기존 북마크를 찾을 수 없으면 중복 에러를 던진다", async () => {
+    // 동시에 추가/삭제된 경우 (UNIQUE 위반 직후 다른 요청이 삭제)
+    db.failNext("bookmarks", "insert", {
+      code: "23505",
+      message: 'duplicate key value violates unique constraint "unique_user_bookmark"',
+    });
+
+    await expect(addBookmark(db.createClient(), CLERK_USER_ID, CONTENT_ID)).rejects.toThrow(
+      "이미 북마크된 관광지입니다.",
+    );
+  });
+
+  it("다른 데이터베이스 에러는 추가 실패 에러를 던진다", async () => {
+    db.failNext("bookmarks", "insert", { code: "42501", message: "permission denied for table bookmarks" });
+
+    await expect(addBookmark(db.createClient(), CLERK_USER_ID, CONTENT_ID)).rejects.toThrow(
+      "북마크를 추가할 수 없습니다.",
+    );
+  });
+
+  it("추가한 북마크는 조회와 제거에 반영된다", async () => {
+    const supabase = db.createClient();
+    await addBookmark(supabase, CLERK_USER_ID, CONTENT_ID);
+
+    await expect(getBookmark(supabase, CLERK_USER_ID, CONTENT_ID)).resolves.toMatchObject({
+      content_id: CONTENT_ID,
+    });
+    await expect(removeBookmark(supabase, CLERK_USER_ID, CONTENT_ID)).resolves.toBe(true);
+    await expect(getBookmark(supabase, CLERK_USER_ID, CONTENT_ID)).resolves.toBeNull();
+  });
+});
+
+// =====================================================
+// 사용자 자동 동기화 (getSupabaseUserId)
+// =====================================================
+
+describe("사용자 자동 동기화 (서버)", () => {
+  it("users 테이블에 없는 로그인 사용자는 Clerk 정보로 동기화한 뒤 북마크를 추가한다", async () => {
+    mockClerkUser(CLERK_USER_ID, { fullName: "김여행" });
+
+    const bookmark = await addBookmark(db.createClient(), CLERK_USER_ID, CONTENT_ID);
+
+    const users = db.table("users");
+    expect(users).toHaveLength(1);
+    expect(users[0]).toMatchObject({ clerk_id: CLERK_USER_ID, name: "김여행" });
+    expect(bookmark.user_id).toBe(users[0].id);
+  });
+
+  it("이름이 없으면 사용자명, 이메일 순으로 사용한다", async () => {
+    mockClerkUser(CLERK_USER_ID);
+
+    await getUserBookmarks(db.createClient(), CLERK_USER_ID);
+
+    expect(db.table("users")[0].name).toBe("traveler@example.com");
+  });
+
+  it("이미 있는 사용자는 동기화하지 않는다", async () => {
+    db.seed("users", [{ clerk_id: CLERK_USER_ID, name: "여행자" }]);
+
+    await addBookmark(db.createClient(), CLERK_USER_ID, CONTENT_ID);
+
+    expect(auth).not.toHaveBeenCalled();
+    expect(getServiceRoleClient).not.toHaveBeenCalled();
+  });
+
+  it("로그인한 사용자와 다른 Clerk ID는 동기화하지 않는다", async () => {
+    mockClerkUser("user_2otherUSER");
+
+    await expect(getUserBookmarks(db.createClient(), CLERK_USER_ID)).rejects.toThrow(
+      "사용자를 찾을 수 없습니다.",
+    );
+    expect(db.table("users")).toHaveLength(0);
+  });
+
+  it("동기화 중 에러가 나면 사용자를 찾을 수 없음으로 처리한다", async () => {
+    vi.mocked(getServiceRoleClient).mockImplementation(() => {
+      throw new Error("Supabase URL or Service Role Key is missing.");
+    });
+
+    await expect(addBookmark(db.createClient(), CLERK_USER_ID, CONTENT_ID)).rejects.toThrow(
+      "사용자를 찾을 수 없습니다.",
+    );
+    expect(db.table("bookmarks")).toHaveLength(0);
+  });
+});
+
+describe("사용자 자동 동기화 (클라이언트)", () => {
+  beforeEach(() => {
+    vi.stubGlobal("window", {});
+  });
+
+  it("/api/sync-user를 호출한 뒤 사용자를 다시 조회한다", async () => {
+    const fetchMock = vi.fn(async () => {
+      db.seed("users", [{ clerk_id: CLERK_USER_ID, name: "여행자" }]);
+      return new Response(null, { status: 200 });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const bookmark = await addBookmark(db.createClient(), CLERK_USER_ID, CONTENT_ID);
+
+    expect(fetchMock).toHaveBeenCalledWith("/api/sync-user", { method: "POST" });
+    expect(bookmark.user_id).toBe(db.table("users")[0].id);
+    expect(getServiceRoleClient).not.toHaveBeenCalled();
+  });
+
+  it("동기화 API가 실패하면 사용자를 찾을 수 없음으로 처리한다", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(null, { status: 401 })));
+
+    await expect(getUserBookmarks(db.createClient(), CLERK_USER_ID)).rejects.toBeInstanceOf(
+      BookmarkUserNotFoundError,
+    );
+  });
+});
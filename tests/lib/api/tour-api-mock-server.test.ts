@@ -0,0 +1,98 @@
+/**
+ * @file tour-api-mock-server.test.ts
+ * @description 로컬 대체 서버(scripts/mock-tour-api.ts)를 사용한 한국관광공사 API 통합 테스트
+ *
+ * fetch를 모킹하지 않고 fixtures/tour-api의 녹화 응답을 실제 HTTP로 받아
+ * URL 생성, 응답 파싱, 페이지네이션, data.go.kr 에러 응답 처리를 함께 확인합니다.
+ * API 주소(TOUR_API_BASE_URL)는 모듈을 불러올 때 읽으므로 서버를 띄운 뒤 모듈을 새로 불러옵니다.
+ */
+
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { createMockTourAPIServer } from "@/scripts/mock-tour-api";
+
+let server: Server;
+let tourAPI: typeof import("@/lib/api/tour-api");
+
+/**
+ * 대체 서버 시작 (사용 가능한 포트)
+ * @returns API 주소
+ */
+async function startServer(options: Parameters<typeof createMockTourAPIServer>[0]): Promise<string> {
+  server = createMockTourAPIServer({ log: false, ...options });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return `http://127.0.0.1:${port}/B551011`;
+}
+
+beforeAll(async () => {
+  // 테스트 설정의 서비스 키(TOUR_API_KEY)만 허용
+  const baseUrl = await startServer({ serviceKey: process.env.TOUR_API_KEY, quota: 20 });
+  vi.stubEnv("TOUR_API_BASE_URL", baseUrl);
+  vi.resetModules();
+  tourAPI = await import("@/lib/api/tour-api");
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("대체 서버 응답", () => {
+  it("지역코드 목록을 조회한다", async () => {
+    const areas = await tourAPI.getAreaCode({ numOfRows: 20 });
+
+    expect(areas).toHaveLength(17);
+    expect(areas[0]).toMatchObject({ code: "1", name: "서울" });
+  });
+
+  it("지역/타입 조건으로 관광지 목록을 필터링하고 페이지를 나눈다", async () => {
+    const firstPage = await tourAPI.getAreaBasedList({
+      areaCode: "1",
+      contentTypeId: "12",
+      numOfRows: 1,
+      pageNo: 1,
+    });
+    const secondPage = await tourAPI.getAreaBasedList({
+      areaCode: "1",
+      contentTypeId: "12",
+      numOfRows: 1,
+      pageNo: 2,
+    });
+
+    expect(firstPage.totalCount).toBe(2);
+    expect([...firstPage.items, ...secondPage.items].map((item) => item.title)).toEqual([
+      "경복궁",
+      "남산서울타워",
+    ]);
+  });
+
+  it("콘텐츠 ID로 공통 정보를 조회한다", async () => {
+    const { item } = await tourAPI.getDetailCommon({ contentId: "126508" });
+
+    expect(item).toMatchObject({ contentid: "126508", title: "경복궁", areacode: "1" });
+  });
+});
+
+describe("대체 서버 에러 응답", () => {
+  it("등록되지 않은 서비스 키는 재시도 없이 API_KEY_INVALID 에러로 처리한다", async () => {
+    vi.stubEnv("TOUR_API_KEY", "unregistered-key");
+
+    await expect(tourAPI.getAreaCode({ areaCode: "6" })).rejects.toMatchObject({
+      errorType: tourAPI.TourAPIErrorType.API_KEY_INVALID,
+    });
+  });
+
+  it("호출 한도를 넘으면 QUOTA_EXCEEDED 에러로 처리한다", async () => {
+    // 남은 호출 수를 모두 사용 (캐시를 사용하지 않으므로 같은 조회도 매번 호출)
+    let error: unknown;
+    for (let call = 0; call < 25 && !error; call++) {
+      error = await tourAPI.getAreaCode({ areaCode: "1" }).then(
+        () => undefined,
+        (reason: unknown) => reason,
+      );
+    }
+
+    expect(error).toMatchObject({ errorType: tourAPI.TourAPIErrorType.QUOTA_EXCEEDED });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * @file tour-api-operations.test.ts
+ * @description 프록시 오퍼레이션 인자 검증 테스트 (허용 파라미터, numOfRows/pageNo 상한)
+ */
+
+import { describe, expect, it } from "vitest";
+import { MERGED_FETCH_ROWS } from "@/lib/api/merged-list-api";
+import {
+  MAX_PROXY_CODE_NUM_OF_ROWS,
+  MAX_PROXY_NUM_OF_ROWS,
+  MAX_PROXY_PAGE_NO,
+  MAX_PROXY_STAY_NUM_OF_ROWS,
+  parseTourAPIOperationArgs,
+} from "@/lib/api/tour-api-operations";
+import { TOUR_LIST_PAGE_SIZE } from "@/lib/api/tour-list-api";
+
+describe("parseTourAPIOperationArgs", () => {
+  it("생략한 선택 인자와 null을 undefined로 전달한다", () => {
+    expect(parseTourAPIOperationArgs("getAreaCode", [])).toEqual({
+      success: true,
+      data: [undefined],
+    });
+    expect(parseTourAPIOperationArgs("getSigunguCode", ["1", null])).toEqual({
+      success: true,
+      data: ["1", undefined],
+    });
+  });
+
+  it("허용된 파라미터는 그대로 전달한다", () => {
+    const params = {
+      areaCode: "1",
+      contentTypeId: "12",
+      arrange: "R",
+      numOfRows: 12,
+      pageNo: 2,
+      language: "en",
+    };
+    expect(parseTourAPIOperationArgs("getAreaBasedList", [params])).toEqual({
+      success: true,
+      data: [params],
+    });
+  });
+
+  it("허용하지 않은 파라미터는 거부한다", () => {
+    const result = parseTourAPIOperationArgs("getAreaBasedList", [
+      { areaCode: "1", serviceKey: "other-key" },
+    ]);
+    expect(result.success).toBe(false);
+  });
+
+  it("인자 개수가 시그니처보다 많으면 거부한다", () => {
+    expect(parseTourAPIOperationArgs("getAreaCode", [{}, {}]).success).toBe(false);
+  });
+
+  it.each([
+    ["numOfRows", MAX_PROXY_NUM_OF_ROWS + 1],
+    ["numOfRows", 0],
+    ["pageNo", MAX_PROXY_PAGE_NO + 1],
+    ["pageNo", 1.5],
+  ])("%s=%s는 거부한다", (key, value) => {
+    const result = parseTourAPIOperationArgs("searchKeyword", [
+      { keyword: "서울", [key]: value },
+    ]);
+    expect(result.success).toBe(false);
+  });
+
+  it("화면에서 요청하는 페이지 크기는 허용한다", () => {
+    expect(MERGED_FETCH_ROWS).toBeLessThanOrEqual(MAX_PROXY_NUM_OF_ROWS);
+    expect(
+      parseTourAPIOperationArgs("searchStay", [{ numOfRows: TOUR_LIST_PAGE_SIZE }]).success
+    ).toBe(true);
+    expect(parseTourAPIOperationArgs("getCategoryCode", [{ numOfRows: 100 }]).success).toBe(true);
+  });
+
+  it("숙박 검색과 코드 목록은 각각의 numOfRows 상한을 적용한다", () => {
+    expect(
+      parseTourAPIOperationArgs("searchStay", [{ numOfRows: MAX_PROXY_STAY_NUM_OF_ROWS + 1 }]).success
+    ).toBe(false);
+    expect(
+      parseTourAPIOperationArgs("getAreaCode", [{ numOfRows: MAX_PROXY_CODE_NUM_OF_ROWS + 1 }]).success
+    ).toBe(false);
+  });
+
+  it("필수 인자가 없으면 거부한다", () => {
+    expect(parseTourAPIOperationArgs("getDetailCommon", []).success).toBe(false);
+    expect(
+      parseTourAPIOperationArgs("getLocationBasedList", [{ mapX: 127, mapY: 37.5 }]).success
+    ).toBe(false);
+  });
+});
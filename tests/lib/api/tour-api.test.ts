@@ -0,0 +1,485 @@
+/**
+ * @file tour-api.test.ts
+ * @description 한국관광공사 API 클라이언트 테스트 (응답 파싱, 재시도, 타임아웃, 숙박 검색, 여러 건 공통 정보 조회)
+ *
+ * parseAPIResponse와 fetchWithRetry는 모듈 내부 함수이므로 공개 API 함수(getAreaCode 등)를 통해 확인합니다.
+ * fetch는 모킹하고, 재시도 대기 시간은 withTourAPIRetryPolicy로 줄여서 실행합니다.
+ */
+
+import { describe, expect, it, vi } from "vitest";
+import {
+  getAreaCode,
+  getDetailCommon,
+  getDetailCommonMany,
+  searchStay,
+  TourAPIError,
+  TourAPIErrorType,
+  withTourAPIRetryPolicy,
+} from "@/lib/api/tour-api";
+import {
+  calledURL,
+  errorEnvelopeXml,
+  hangingResponse,
+  jsonResponse,
+  mockFetch,
+  textResponse,
+  tourAPIBody,
+  tourAPIErrorBody,
+} from "../../helpers/tour-api-response";
+
+/**
+ * 응답 항목 (API는 같은 필드를 숫자 또는 문자열로 보냄)
+ */
+const SEOUL_ITEM = { rnum: 1, code: 1, name: "서울" };
+const INCHEON_ITEM = { rnum: "2", code: "2", name: "인천" };
+
+/**
+ * 파싱 결과 (문자열 필드로 통일)
+ */
+const SEOUL = { rnum: "1", code: "1", name: "서울" };
+const INCHEON = { rnum: "2", code: "2", name: "인천" };
+
+/**
+ * 재시도 대기 없이 바로 재시도하는 정책
+ */
+const FAST_RETRY = { baseDelay: 1, maxDelay: 1, jitter: 0 };
+
+/**
+ * 실패해야 하는 호출의 TourAPIError
+ */
+async function catchTourAPIError(promise: Promise<unknown>): Promise<TourAPIError> {
+  const error = await promise.then(
+    () => {
+      throw new Error("TourAPIError가 발생하지 않았습니다.");
+    },
+    (reason: unknown) => reason,
+  );
+  expect(error).toBeInstanceOf(TourAPIError);
+  return error as TourAPIError;
+}
+
+// =====================================================
+// 응답 파싱 (parseAPIResponse)
+// =====================================================
+
+describe("응답 파싱", () => {
+  it("항목 목록을 스키마로 검증하고 숫자/문자열 필드를 통일한다", async () => {
+    const fetchMock = mockFetch(jsonResponse(tourAPIBody([SEOUL_ITEM, INCHEON_ITEM])));
+
+    await expect(getAreaCode()).resolves.toEqual([SEOUL, INCHEON]);
+
+    const url = calledURL(fetchMock);
+    expect(url.pathname).toBe("/B551011/KorService2/areaCode2");
+    expect(url.searchParams.get("serviceKey")).toBe("test-service-key");
+    expect(url.searchParams.get("_type")).toBe("json");
+  });
+
+  it("단일 항목 응답(객체)을 배열로 변환한다", async () => {
+    mockFetch(jsonResponse(tourAPIBody(SEOUL_ITEM)));
+
+    await expect(getAreaCode()).resolves.toEqual([SEOUL]);
+  });
+
+  it("결과가 없는 응답(items가 빈 문자열)은 빈 배열로 처리한다", async () => {
+    mockFetch(jsonResponse(tourAPIBody("")));
+
+    await expect(getAreaCode()).resolves.toEqual([]);
+  });
+
+  it("데이터 없음 결과 코드는 에러 없이 빈 결과로 처리한다", async () => {
+    mockFetch(jsonResponse(tourAPIErrorBody("03", "NODATA_ERROR")));
+
+    await expect(getAreaCode()).resolves.toEqual([]);
+  });
+
+  it("상세 조회 결과가 없으면 에러를 던진다", async () => {
+    mockFetch(jsonResponse(tourAPIErrorBody("03", "NODATA_ERROR")));
+
+    const error = await catchTourAPIError(getDetailCommon({ contentId: "126508" }));
+    expect(error.message).toBe("상세 정보를 찾을 수 없습니다.");
+    expect(error.errorType).toBe(TourAPIErrorType.NO_DATA);
+  });
+
+  it("서비스 키 오류 결과 코드는 API_KEY_INVALID 에러로 변환한다", async () => {
+    mockFetch(jsonResponse(tourAPIErrorBody("SERVICE_KEY_IS_NOT_VALID", "등록되지 않은 서비스키")));
+
+    const error = await catchTourAPIError(getAreaCode());
+    expect(error.errorType).toBe(TourAPIErrorType.API_KEY_INVALID);
+    expect(error.message).toContain("등록되지 않은 서비스키");
+  });
+
+  it("알 수 없는 결과 코드는 API_ERROR로 변환한다", async () => {
+    mockFetch(jsonResponse(tourAPIErrorBody("9999", "UNKNOWN")));
+
+    const error = await catchTourAPIError(getAreaCode());
+    expect(error.errorType).toBe(TourAPIErrorType.API_ERROR);
+    expect(error.message).toBe("API 에러: UNKNOWN (코드: 9999)");
+  });
+
+  it("항목 필드가 스키마와 다른 항목은 경고를 남기고 제외한다", async () => {
+    mockFetch(jsonResponse(tourAPIBody([SEOUL_ITEM, { rnum: 2, name: "인천" }])));
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    await expect(getAreaCode()).resolves.toEqual([SEOUL]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("1개를 제외"), [
+      expect.stringMatching(/^API 응답 형식 오류: response\.body\.items\.item\.1\.code - /),
+    ]);
+  });
+
+  it("모든 항목이 스키마와 다르면 문제 경로를 포함한 PARSE_ERROR를 던진다", async () => {
+    mockFetch(jsonResponse(tourAPIBody([{ rnum: 1, name: "서울" }, { rnum: 2, name: "인천" }])));
+
+    const error = await catchTourAPIError(getAreaCode());
+    expect(error.errorType).toBe(TourAPIErrorType.PARSE_ERROR);
+    expect(error.message).toMatch(/^API 응답 형식 오류: response\.body\.items\.item\.0\.code - /);
+  });
+
+  it("헤더가 없는 응답은 PARSE_ERROR를 던진다", async () => {
+    mockFetch(jsonResponse({ message: "unexpected" }));
+
+    const error = await catchTourAPIError(getAreaCode());
+    expect(error.errorType).toBe(TourAPIErrorType.PARSE_ERROR);
+    expect(error.message).toContain("response");
+  });
+
+  it("JSON이 아닌 본문은 PARSE_ERROR를 던진다", async () => {
+    mockFetch(textResponse("not json"));
+
+    const error = await catchTourAPIError(getAreaCode());
+    expect(error.errorType).toBe(TourAPIErrorType.PARSE_ERROR);
+  });
+
+  it("200 응답의 XML 에러 본문은 원인 코드로 변환한다", async () => {
+    mockFetch(textResponse(errorEnvelopeXml(22, "LIMITED_NUMBER_OF_SERVICE_REQUESTS_EXCEEDS_ERROR")));
+
+    const error = await catchTourAPIError(getAreaCode());
+    expect(error.errorType).toBe(TourAPIErrorType.QUOTA_EXCEEDED);
+  });
+});
+
+// =====================================================
+// 재시도 및 타임아웃 (fetchWithRetry)
+// =====================================================
+
+describe("재시도", () => {
+  it("일시적인 HTTP 에러(503)는 재시도하여 성공한다", async () => {
+    const fetchMock = mockFetch(
+      textResponse("Service Unavailable", { status: 503, statusText: "Service Unavailable" }),
+      textResponse("Service Unavailable", { status: 503, statusText: "Service Unavailable" }),
+      jsonResponse(tourAPIBody([SEOUL_ITEM])),
+    );
+
+    await expect(withTourAPIRetryPolicy(FAST_RETRY, () => getAreaCode())).resolves.toEqual([SEOUL]);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("네트워크 에러도 재시도한다", async () => {
+    const fetchMock = mockFetch(new TypeError("fetch failed"), jsonResponse(tourAPIBody([SEOUL_ITEM])));
+
+    await expect(withTourAPIRetryPolicy(FAST_RETRY, () => getAreaCode())).resolves.toEqual([SEOUL]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it.each([
+    [1, "APPLICATION_ERROR"],
+    [5, "SERVICETIME_OUT"],
+  ])("HTTP 200으로 온 일시적인 XML 에러 응답(%i %s)도 재시도한다", async (code, authMsg) => {
+    const fetchMock = mockFetch(
+      textResponse(errorEnvelopeXml(code, authMsg)),
+      jsonResponse(tourAPIBody([SEOUL_ITEM])),
+    );
+
+    await expect(withTourAPIRetryPolicy(FAST_RETRY, () => getAreaCode())).resolves.toEqual([SEOUL]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it.each([
+    ["01", "APPLICATION_ERROR"],
+    ["05", "SERVICETIME_OUT"],
+  ])("일시적인 JSON 결과 코드(%s %s)도 XML 에러 응답과 같이 재시도한다", async (code, message) => {
+    const fetchMock = mockFetch(
+      jsonResponse(tourAPIErrorBody(code, message)),
+      jsonResponse(tourAPIBody([SEOUL_ITEM])),
+    );
+
+    await expect(withTourAPIRetryPolicy(FAST_RETRY, () => getAreaCode())).resolves.toEqual([SEOUL]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("재시도 대상이 아닌 JSON 결과 코드(서비스 키 오류)는 바로 실패한다", async () => {
+    const fetchMock = mockFetch(jsonResponse(tourAPIErrorBody("SERVICE_KEY_IS_NOT_VALID", "등록되지 않은 서비스키")));
+
+    const error = await catchTourAPIError(withTourAPIRetryPolicy(FAST_RETRY, () => getAreaCode()));
+    expect(error.errorType).toBe(TourAPIErrorType.API_KEY_INVALID);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("최대 재시도 횟수를 넘으면 마지막 에러를 던진다", async () => {
+    const fetchMock = mockFetch(textResponse("Bad Gateway", { status: 502, statusText: "Bad Gateway" }));
+
+    const error = await catchTourAPIError(
+      withTourAPIRetryPolicy({ ...FAST_RETRY, maxRetries: 2 }, () => getAreaCode()),
+    );
+    expect(error.errorType).toBe(TourAPIErrorType.HTTP_ERROR);
+    expect(error.statusCode).toBe(502);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("재시도 대상이 아닌 에러(서비스 키 오류)는 바로 실패한다", async () => {
+    const fetchMock = mockFetch(
+      textResponse(errorEnvelopeXml(30, "SERVICE_KEY_IS_NOT_REGISTERED_ERROR"), { status: 401 }),
+    );
+
+    const error = await catchTourAPIError(withTourAPIRetryPolicy(FAST_RETRY, () => getAreaCode()));
+    expect(error.errorType).toBe(TourAPIErrorType.API_KEY_INVALID);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("정책의 재시도 상태 코드에 없으면 재시도하지 않는다", async () => {
+    const fetchMock = mockFetch(textResponse("Internal Server Error", { status: 500 }));
+
+    // failFast 정책은 500을 재시도하지 않음
+    await catchTourAPIError(withTourAPIRetryPolicy("failFast", () => getAreaCode()));
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("429 응답은 백오프 대신 Retry-After만큼 기다린 뒤 재시도한다", async () => {
+    const fetchMock = mockFetch(
+      textResponse("Too Many Requests", { status: 429, headers: { "Retry-After": "0.05" } }),
+      jsonResponse(tourAPIBody([SEOUL_ITEM])),
+    );
+
+    // 지수 백오프였다면 10초를 기다려야 하므로 테스트 제한 시간 안에 끝나지 않음
+    await expect(
+      withTourAPIRetryPolicy({ baseDelay: 10000, maxDelay: 10000, jitter: 0 }, () => getAreaCode()),
+    ).resolves.toEqual([SEOUL]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("Retry-After가 전체 제한 시간을 넘으면 기다리지 않고 실패한다", async () => {
+    const fetchMock = mockFetch(
+      textResponse("Too Many Requests", { status: 429, headers: { "Retry-After": "120" } }),
+    );
+
+    const error = await catchTourAPIError(
+      withTourAPIRetryPolicy({ ...FAST_RETRY, deadline: 5000 }, () => getAreaCode()),
+    );
+    expect(error.statusCode).toBe(429);
+    expect(error.retryAfter).toBe(120000);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("타임아웃", () => {
+  it("재시도 대기 중 전체 제한 시간이 지나면 다음 요청을 보내지 않고 TIMEOUT_ERROR를 던진다", async () => {
+    // 재시도 대기 타이머가 늦게 실행되어 제한 시간을 넘긴 경우 (대기 7ms 동안 시계를 60초 진행)
+    const realNow = Date.now;
+    const realSetTimeout = globalThis.setTimeout;
+    let offset = 0;
+    vi.spyOn(Date, "now").mockImplementation(() => realNow() + offset);
+    vi.stubGlobal("setTimeout", ((handler: () => void, ms?: number) => {
+      if (ms === 7) offset += 60_000;
+      return realSetTimeout(handler, ms);
+    }) as typeof setTimeout);
+    const fetchMock = mockFetch(textResponse("Service Unavailable", { status: 503 }));
+
+    const error = await catchTourAPIError(
+      withTourAPIRetryPolicy({ baseDelay: 7, maxDelay: 7, jitter: 0, deadline: 1000 }, () => getAreaCode()),
+    );
+    expect(error.errorType).toBe(TourAPIErrorType.TIMEOUT_ERROR);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("응답이 타임아웃을 넘으면 요청을 중단하고 TIMEOUT_ERROR를 던진다", async () => {
+    const fetchMock = mockFetch((_, init) => hangingResponse(init));
+
+    const error = await catchTourAPIError(
+      withTourAPIRetryPolicy({ ...FAST_RETRY, timeout: 20, maxRetries: 0 }, () => getAreaCode()),
+    );
+    expect(error.errorType).toBe(TourAPIErrorType.TIMEOUT_ERROR);
+    expect(error.statusCode).toBe(408);
+    expect(fetchMock.mock.calls[0][1]?.signal?.aborted).toBe(true);
+  });
+
+  it("타임아웃은 재시도하고, 다음 시도가 성공하면 결과를 반환한다", async () => {
+    const fetchMock = mockFetch((_, init) => hangingResponse(init), jsonResponse(tourAPIBody([SEOUL_ITEM])));
+
+    await expect(
+      withTourAPIRetryPolicy({ ...FAST_RETRY, timeout: 20 }, () => getAreaCode()),
+    ).resolves.toEqual([SEOUL]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("전체 제한 시간을 넘기면 남은 재시도를 하지 않는다", async () => {
+    const fetchMock = mockFetch((_, init) => hangingResponse(init));
+
+    const error = await catchTourAPIError(
+      withTourAPIRetryPolicy(
+        { baseDelay: 50, maxDelay: 50, jitter: 0, timeout: 40, deadline: 100, maxRetries: 10 },
+        () => getAreaCode(),
+      ),
+    );
+    expect(error.errorType).toBe(TourAPIErrorType.TIMEOUT_ERROR);
+    // 40ms 시도 + 50ms 대기 후에는 다음 대기가 제한 시간(100ms)을 넘음
+    expect(fetchMock.mock.calls.length).toBeLessThanOrEqual(2);
+  });
+});
+
+// =====================================================
+// 숙박 검색 (searchStay)
+// =====================================================
+
+describe("숙박 검색", () => {
+  /**
+   * 숙박 목록 (세 곳 중 한 곳만 주차 가능)
+   */
+  const STAYS = Array.from({ length: 30 }, (_, index) => ({
+    contentid: String(1000 + index),
+    contenttypeid: "32",
+    title: `숙소 ${index}`,
+    addr1: "",
+    areacode: "1",
+    mapx: "126.9780",
+    mapy: "37.5665",
+    modifiedtime: "20240101000000",
+  }));
+
+  const parkingOf = (contentId: string) => ((Number(contentId) - 1000) % 3 === 0 ? "가능" : "불가");
+
+  /**
+   * 오퍼레이션별 응답 (목록은 pageNo/numOfRows로 나눔, 소개 정보는 delay 후 응답)
+   */
+  function mockStayAPI(delay = 0) {
+    let active = 0;
+    let maxActive = 0;
+    const fetchMock = mockFetch(async (url) => {
+      const { pathname, searchParams } = new URL(url);
+      if (pathname.endsWith("/searchStay2")) {
+        const numOfRows = Number(searchParams.get("numOfRows"));
+        const pageNo = Number(searchParams.get("pageNo"));
+        return jsonResponse(
+          tourAPIBody(STAYS.slice((pageNo - 1) * numOfRows, pageNo * numOfRows), {
+            totalCount: STAYS.length,
+            numOfRows,
+            pageNo,
+          }),
+        );
+      }
+      const contentId = searchParams.get("contentId")!;
+      active += 1;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      active -= 1;
+      return jsonResponse(
+        tourAPIBody({ contentid: contentId, contenttypeid: "32", parkinglodging: parkingOf(contentId) }),
+      );
+    });
+    return { fetchMock, maxActive: () => maxActive };
+  }
+
+  const listCalls = (fetchMock: ReturnType<typeof mockFetch>) =>
+    fetchMock.mock.calls
+      .map((_, call) => calledURL(fetchMock, call))
+      .filter((url) => url.pathname.endsWith("/searchStay2"))
+      .map((url) => Number(url.searchParams.get("pageNo")));
+
+  it("숙소별 소개 정보는 동시 요청 수를 제한하여 조회한다", async () => {
+    const { fetchMock, maxActive } = mockStayAPI(5);
+
+    const result = await searchStay({ numOfRows: 12 });
+
+    expect(result.items).toHaveLength(12);
+    expect(result.totalCount).toBe(STAYS.length);
+    expect(result.items[0].parkinglodging).toBe("가능");
+    expect(fetchMock).toHaveBeenCalledTimes(13);
+    expect(maxActive()).toBeLessThanOrEqual(5);
+  });
+
+  it("주차 조건이 있으면 요청한 페이지가 찰 때까지 다음 목록을 조회한다", async () => {
+    const { fetchMock } = mockStayAPI();
+
+    const result = await searchStay({ parking: true, numOfRows: 8, pageNo: 1 });
+
+    // 1페이지(20개)에서 7곳만 조건에 맞으므로 2페이지까지 조회
+    expect(result.items.map((stay) => stay.contentid)).toEqual(
+      ["1000", "1003", "1006", "1009", "1012", "1015", "1018", "1021"],
+    );
+    expect(listCalls(fetchMock)).toEqual([1, 2]);
+    // 다음 페이지에도 조건에 맞는 숙소가 있으므로 totalCount는 요청한 페이지보다 큼
+    expect(result.totalCount).toBeGreaterThan(8);
+  });
+
+  it("전체 목록을 확인하면 조건에 맞는 숙소 수를 totalCount로 반환한다", async () => {
+    mockStayAPI();
+
+    const result = await searchStay({ parking: true, numOfRows: 8, pageNo: 2 });
+
+    expect(result.items.map((stay) => stay.contentid)).toEqual(["1024", "1027"]);
+    expect(result.totalCount).toBe(10);
+  });
+});
+
+// =====================================================
+// 여러 건 공통 정보 조회 (getDetailCommonMany)
+// =====================================================
+
+describe("여러 건 공통 정보 조회", () => {
+  /**
+   * 공통 정보 응답 (delay 후 응답, 동시 요청 수 기록)
+   */
+  function mockDetailCommonAPI(delay = 0) {
+    let active = 0;
+    let maxActive = 0;
+    const fetchMock = mockFetch(async (url) => {
+      const contentId = new URL(url).searchParams.get("contentId")!;
+      active += 1;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      active -= 1;
+      return jsonResponse(
+        tourAPIBody({
+          contentid: contentId,
+          contenttypeid: "12",
+          title: `관광지 ${contentId}`,
+          addr1: "서울특별시",
+          mapx: "126.9780",
+          mapy: "37.5665",
+        }),
+      );
+    });
+    return { fetchMock, maxActive: () => maxActive };
+  }
+
+  it("동시에 같은 목록을 조회하면 진행 중인 요청을 공유하여 한 번만 호출한다", async () => {
+    const { fetchMock } = mockDetailCommonAPI(5);
+
+    const [first, second] = await Promise.all([
+      getDetailCommonMany(["126508"]),
+      getDetailCommonMany(["126508"]),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(first.items.map((detail) => detail.contentid)).toEqual(["126508"]);
+    expect(second.items).toEqual(first.items);
+  });
+
+  it("동시 요청 수를 제한하고 요청 순서대로 반환한다", async () => {
+    const { fetchMock, maxActive } = mockDetailCommonAPI(5);
+    const contentIds = Array.from({ length: 10 }, (_, index) => String(2000 + index));
+
+    const result = await getDetailCommonMany(contentIds, undefined, 3);
+
+    expect(fetchMock).toHaveBeenCalledTimes(10);
+    expect(maxActive()).toBe(3);
+    expect(result.items.map((detail) => detail.contentid)).toEqual(contentIds);
+    expect(result.failures).toEqual([]);
+  });
+
+  it("언어를 지정하면 해당 언어 서비스로 조회한다", async () => {
+    const { fetchMock } = mockDetailCommonAPI();
+
+    await getDetailCommonMany(["126508"], "en");
+
+    expect(calledURL(fetchMock, 0).pathname).toContain("/EngService2/");
+  });
+});
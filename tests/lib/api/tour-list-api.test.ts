@@ -0,0 +1,156 @@
+/**
+ * @file tour-list-api.test.ts
+ * @description 홈페이지 관광지 목록 조회 모드 선택 테스트 (이 지역 검색, 내 주변)
+ * 및 이 지역 검색 범위 필터링 테스트
+ *
+ * 목록 조회 API 함수는 호출 인자만 확인하는 모킹 함수(TourListAPI)를 전달합니다.
+ */
+
+import { describe, expect, it, vi } from "vitest";
+import { MERGED_FETCH_ROWS } from "@/lib/api/merged-list-api";
+import { fetchTourList, parseAreaSearchCircle } from "@/lib/api/tour-list-api";
+import type { TourListAPI } from "@/lib/api/tour-list-api";
+import { getBoundsRadius, getDistance } from "@/lib/geo/measure";
+import { MAX_LOCATION_RADIUS } from "@/lib/utils/distance";
+
+const EMPTY_LIST = { items: [], totalCount: 0, pageNo: 1, numOfRows: 12 };
+
+/**
+ * 빈 목록을 반환하는 목록 조회 API
+ */
+function createListAPI() {
+  return {
+    getAreaBasedList: vi.fn(async () => EMPTY_LIST),
+    searchKeyword: vi.fn(async () => EMPTY_LIST),
+    getLocationBasedList: vi.fn(async () => EMPTY_LIST),
+    searchStay: vi.fn(async () => EMPTY_LIST),
+  } satisfies Record<keyof TourListAPI, unknown>;
+}
+
+// 서울 도심 (약 8.8km × 11km)
+const SEOUL_BOUNDS = "37.52,126.92,37.62,127.02";
+
+/**
+ * 위치 기반 목록 항목 (좌표만 사용)
+ */
+function locationItem(contentid: string, lat: number, lng: number) {
+  return { contentid, title: contentid, mapx: String(lng), mapy: String(lat) };
+}
+
+// 범위 안 (도심 중심), 조회 원 안이지만 범위 밖 (동쪽 변에서 약 900m 바깥)
+const INSIDE = { lat: 37.57, lng: 126.97 };
+const OUTSIDE_BOUNDS = { lat: 37.57, lng: 127.03 };
+
+describe("parseAreaSearchCircle", () => {
+  it("범위의 중심과 범위를 덮는 반경(100m 단위 올림)을 반환한다", () => {
+    const circle = parseAreaSearchCircle(SEOUL_BOUNDS);
+    const radius = getBoundsRadius({ south: 37.52, west: 126.92, north: 37.62, east: 127.02 });
+
+    expect(circle?.mapX).toBeCloseTo(126.97, 10);
+    expect(circle?.mapY).toBeCloseTo(37.57, 10);
+    expect(circle?.radius).toBe(Math.ceil(radius / 100) * 100);
+    expect(circle!.radius).toBeGreaterThanOrEqual(radius);
+  });
+
+  it("최대 반경을 넘는 범위는 최대 반경으로 조회한다", () => {
+    expect(parseAreaSearchCircle("36,126,38,128")?.radius).toBe(MAX_LOCATION_RADIUS);
+  });
+
+  it("유효하지 않은 범위는 null을 반환한다", () => {
+    expect(parseAreaSearchCircle(undefined)).toBeNull();
+    expect(parseAreaSearchCircle("37.6,126.9,37.5,127")).toBeNull();
+  });
+});
+
+describe("fetchTourList", () => {
+  it("이 지역 검색 범위가 있으면 범위의 중심/반경으로 위치 기반 조회한다", async () => {
+    const api = createListAPI();
+
+    await fetchTourList({ bounds: SEOUL_BOUNDS, contentTypeId: "12", page: "2" }, api as unknown as TourListAPI);
+
+    expect(api.getLocationBasedList).toHaveBeenCalledWith(
+      expect.objectContaining({
+        ...parseAreaSearchCircle(SEOUL_BOUNDS),
+        contentTypeId: "12",
+        arrange: "E",
+        numOfRows: MERGED_FETCH_ROWS,
+        pageNo: 1,
+      }),
+    );
+    expect(api.getAreaBasedList).not.toHaveBeenCalled();
+  });
+
+  it("이 지역 검색 범위가 내 주변 기준 좌표보다 우선한다", async () => {
+    const api = createListAPI();
+
+    await fetchTourList(
+      { bounds: SEOUL_BOUNDS, mapX: "129.04", mapY: "35.11", radius: "1000" },
+      api as unknown as TourListAPI,
+    );
+
+    expect(api.getLocationBasedList).toHaveBeenCalledWith(
+      expect.objectContaining(parseAreaSearchCircle(SEOUL_BOUNDS)!),
+    );
+  });
+
+  it("범위가 유효하지 않으면 내 주변 기준 좌표로 조회한다", async () => {
+    const api = createListAPI();
+
+    await fetchTourList(
+      { bounds: "invalid", mapX: "129.04", mapY: "35.11", radius: "1000" },
+      api as unknown as TourListAPI,
+    );
+
+    expect(api.getLocationBasedList).toHaveBeenCalledWith(
+      expect.objectContaining({ mapX: 129.04, mapY: 35.11, radius: 1000 }),
+    );
+  });
+});
+
+describe("이 지역 검색 범위 필터링", () => {
+  it("조회 원 안이지만 범위 밖인 관광지는 제외하고 totalCount도 범위 안 개수로 맞춘다", async () => {
+    const api = createListAPI();
+    api.getLocationBasedList.mockResolvedValue({
+      items: [
+        locationItem("inside", INSIDE.lat, INSIDE.lng),
+        locationItem("outside", OUTSIDE_BOUNDS.lat, OUTSIDE_BOUNDS.lng),
+      ],
+      totalCount: 2,
+      pageNo: 1,
+      numOfRows: MERGED_FETCH_ROWS,
+    } as never);
+
+    // 범위 밖 관광지도 반경 안에 있음을 확인 (원 조회 결과에 포함되는 경우)
+    const circle = parseAreaSearchCircle(SEOUL_BOUNDS)!;
+    expect(getDistance({ lat: circle.mapY, lng: circle.mapX }, OUTSIDE_BOUNDS)).toBeLessThan(circle.radius);
+
+    const result = await fetchTourList({ bounds: SEOUL_BOUNDS }, api as unknown as TourListAPI);
+
+    expect(result.items.map((item) => item.contentid)).toEqual(["inside"]);
+    expect(result.totalCount).toBe(1);
+  });
+
+  it("범위 밖 관광지를 제외해 모자란 페이지는 다음 조회 페이지로 채운다", async () => {
+    const api = createListAPI();
+    // 조회 1페이지: 범위 안/밖 번갈아 50개, 2페이지: 범위 안 50개
+    api.getLocationBasedList.mockImplementation((async ({ pageNo }: { pageNo: number }) => ({
+      items: Array.from({ length: MERGED_FETCH_ROWS }, (_, index) => {
+        const position = pageNo === 1 && index % 2 === 1 ? OUTSIDE_BOUNDS : INSIDE;
+        return locationItem(`${pageNo}-${index}`, position.lat, position.lng);
+      }),
+      totalCount: MERGED_FETCH_ROWS * 2,
+      pageNo,
+      numOfRows: MERGED_FETCH_ROWS,
+    })) as never);
+
+    // 3페이지 (범위 안 25~36번째) = 조회 1페이지의 마지막 범위 안 관광지 + 조회 2페이지 0~10번
+    const result = await fetchTourList({ bounds: SEOUL_BOUNDS, page: "3" }, api as unknown as TourListAPI);
+
+    expect(api.getLocationBasedList).toHaveBeenCalledTimes(2);
+    expect(result.items.map((item) => item.contentid)).toEqual([
+      "1-48",
+      ...Array.from({ length: 11 }, (_, index) => `2-${index}`),
+    ]);
+    expect(result.totalCount).toBe(75);
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * @file cluster.test.ts
+ * @description 확대 수준별 격자 클러스터링 테스트
+ */
+
+import { describe, expect, it } from "vitest";
+import { clusterByGrid } from "@/lib/geo/cluster";
+
+// 서울 도심 (서로 1~2km), 부산
+const SPOTS = [
+  { id: "경복궁", position: { lat: 37.5796, lng: 126.977 } },
+  { id: "서울시청", position: { lat: 37.5666, lng: 126.9784 } },
+  { id: "남산서울타워", position: { lat: 37.5512, lng: 126.9882 } },
+  { id: "부산역", position: { lat: 35.1151, lng: 129.0422 } },
+];
+
+const ids = (clusters: ReturnType<typeof clusterByGrid<(typeof SPOTS)[number]>>) =>
+  clusters.map((cluster) => cluster.items.map((item) => item.id));
+
+describe("clusterByGrid", () => {
+  it("축소된 지도에서는 가까운 좌표를 하나의 클러스터로 묶는다", () => {
+    const clusters = clusterByGrid(SPOTS, 7);
+
+    expect(ids(clusters)).toEqual([["경복궁", "서울시청", "남산서울타워"], ["부산역"]]);
+  });
+
+  it("확대할수록 클러스터가 나뉜다", () => {
+    expect(clusterByGrid(SPOTS, 7)).toHaveLength(2);
+    expect(clusterByGrid(SPOTS, 14)).toHaveLength(4);
+  });
+
+  it("maxZoom보다 확대되면 모든 좌표를 각각 표시한다", () => {
+    const clusters = clusterByGrid(SPOTS, 5, { maxZoom: 4 });
+
+    expect(ids(clusters)).toEqual([["경복궁"], ["서울시청"], ["남산서울타워"], ["부산역"]]);
+  });
+
+  it("클러스터의 범위와 중심을 계산한다", () => {
+    const [seoul] = clusterByGrid(SPOTS, 7);
+
+    expect(seoul.bounds).toEqual({ south: 37.5512, west: 126.977, north: 37.5796, east: 126.9882 });
+    expect(seoul.center.lat).toBeGreaterThan(seoul.bounds.south);
+    expect(seoul.center.lat).toBeLessThan(seoul.bounds.north);
+    expect(seoul.center.lng).toBeGreaterThan(seoul.bounds.west);
+    expect(seoul.center.lng).toBeLessThan(seoul.bounds.east);
+  });
+
+  it("항목이 없으면 빈 목록을 반환한다", () => {
+    expect(clusterByGrid([], 10)).toEqual([]);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * @file coordinates.test.ts
+ * @description 좌표 형식 판별 및 WGS84 변환 테스트 (십진수, ×10^7, KATEC/TM128)
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  detectCoordinateFormat,
+  formatBoundsParam,
+  parseBoundsParam,
+  parseCoordinates,
+  toLatLng,
+} from "@/lib/geo/coordinates";
+import { katecToWgs84, wgs84ToKatec } from "@/lib/geo/tm128";
+
+// 서울시청
+const CITY_HALL = { lat: 37.5666, lng: 126.9784 };
+
+// =====================================================
+// 형식 판별
+// =====================================================
+
+describe("detectCoordinateFormat", () => {
+  it.each([
+    ["wgs84", 126.9784, 37.5666],
+    ["wgs84Scaled", 1269784000, 375666000],
+    ["katec", 309946, 552084],
+  ] as const)("%s 좌표를 판별한다", (format, x, y) => {
+    expect(detectCoordinateFormat(x, y)).toBe(format);
+  });
+
+  it("어느 형식으로도 한국 범위가 아니면 null을 반환한다", () => {
+    expect(detectCoordinateFormat(-73.9857, 40.7484)).toBeNull();
+    expect(detectCoordinateFormat(0, 0)).toBeNull();
+  });
+});
+
+// =====================================================
+// 변환
+// =====================================================
+
+describe("parseCoordinates", () => {
+  it("문자열 좌표를 WGS84 경위도로 변환한다", () => {
+    const result = parseCoordinates("126.9784", "37.5666");
+
+    expect(result).toEqual({ success: true, data: CITY_HALL, format: "wgs84" });
+  });
+
+  it("×10^7 정수 좌표를 십진수로 변환한다", () => {
+    const result = parseCoordinates("1269784000", "375666000");
+
+    expect(result.success && result.data).toEqual(CITY_HALL);
+  });
+
+  it("KATEC 좌표를 투영 변환한다", () => {
+    const result = parseCoordinates(309946, 552084);
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.format).toBe("katec");
+      expect(result.data.lat).toBeCloseTo(CITY_HALL.lat, 4);
+      expect(result.data.lng).toBeCloseTo(CITY_HALL.lng, 4);
+    }
+  });
+
+  it.each([
+    ["missing", "", "37.5666"],
+    ["missing", undefined, "37.5666"],
+    ["notNumber", "126.9784", "abc"],
+    ["notNumber", "  ", "37.5666"],
+    ["outOfRange", "-73.9857", "40.7484"],
+  ] as const)("변환할 수 없는 좌표는 서울로 대체하지 않고 %s 에러를 반환한다", (error, mapx, mapy) => {
+    const result = parseCoordinates(mapx, mapy);
+
+    expect(result).toMatchObject({ success: false, error });
+    expect(toLatLng(mapx, mapy)).toBeNull();
+  });
+});
+
+// =====================================================
+// TM128 투영
+// =====================================================
+
+describe("tm128", () => {
+  it("WGS84 → KATEC 변환 결과가 알려진 좌표와 일치한다", () => {
+    const { x, y } = wgs84ToKatec(CITY_HALL);
+
+    expect(x).toBeCloseTo(309946, -1);
+    expect(y).toBeCloseTo(552084, -1);
+  });
+
+  it.each([
+    ["서울시청", CITY_HALL],
+    ["제주 한라산", { lat: 33.3617, lng: 126.5292 }],
+    ["독도", { lat: 37.2411, lng: 131.8647 }],
+  ])("%s 좌표를 왕복 변환하면 원래 좌표로 돌아온다", (_, point) => {
+    const { x, y } = wgs84ToKatec(point);
+    const result = katecToWgs84(x, y);
+
+    expect(result.lat).toBeCloseTo(point.lat, 6);
+    expect(result.lng).toBeCloseTo(point.lng, 6);
+  });
+});
+
+// =====================================================
+// 범위 URL 파라미터
+// =====================================================
+
+describe("parseBoundsParam / formatBoundsParam", () => {
+  it("범위를 \"남,서,북,동\" 문자열로 변환하고 다시 파싱한다", () => {
+    const bounds = { south: 37.5123456789, west: 126.9, north: 37.6, east: 127.05 };
+
+    const param = formatBoundsParam(bounds);
+
+    expect(param).toBe("37.512346,126.9,37.6,127.05");
+    expect(parseBoundsParam(param)).toEqual({ south: 37.512346, west: 126.9, north: 37.6, east: 127.05 });
+  });
+
+  it.each([
+    ["값 없음", undefined],
+    ["값 개수 부족", "37.5,126.9,37.6"],
+    ["숫자가 아닌 값", "37.5,abc,37.6,127"],
+    ["빈 값", "37.5,,37.6,127"],
+    ["남쪽이 북쪽보다 큼", "37.6,126.9,37.5,127"],
+    ["위도 범위 초과", "37.5,126.9,91,127"],
+  ])("유효하지 않은 범위(%s)는 null을 반환한다", (_, param) => {
+    expect(parseBoundsParam(param)).toBeNull();
+  });
+});
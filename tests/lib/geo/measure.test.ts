@@ -0,0 +1,88 @@
+/**
+ * @file measure.test.ts
+ * @description 거리, 범위, 중심 계산 테스트
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  getBounds,
+  getBoundsCenter,
+  getBoundsRadius,
+  getCentroid,
+  getDistance,
+  isInBounds,
+} from "@/lib/geo/measure";
+
+const CITY_HALL = { lat: 37.5666, lng: 126.9784 };
+const GYEONGBOKGUNG = { lat: 37.5796, lng: 126.977 };
+const BUSAN_STATION = { lat: 35.1151, lng: 129.0422 };
+
+describe("getDistance", () => {
+  it("같은 좌표는 0을 반환한다", () => {
+    expect(getDistance(CITY_HALL, CITY_HALL)).toBe(0);
+  });
+
+  it("두 좌표 사이의 직선 거리를 미터 단위로 계산한다", () => {
+    // 서울시청 ↔ 경복궁 약 1.45km, 서울시청 ↔ 부산역 약 325km
+    expect(getDistance(CITY_HALL, GYEONGBOKGUNG)).toBeCloseTo(1452, -1);
+    expect(getDistance(CITY_HALL, BUSAN_STATION) / 1000).toBeCloseTo(325, -1);
+  });
+
+  it("방향과 관계없이 같은 거리를 반환한다", () => {
+    expect(getDistance(CITY_HALL, BUSAN_STATION)).toBe(getDistance(BUSAN_STATION, CITY_HALL));
+  });
+});
+
+describe("getBounds", () => {
+  it("좌표가 없으면 null을 반환한다", () => {
+    expect(getBounds([])).toBeNull();
+  });
+
+  it("모든 좌표를 포함하는 최소 범위를 계산한다", () => {
+    const bounds = getBounds([CITY_HALL, GYEONGBOKGUNG, BUSAN_STATION]);
+
+    expect(bounds).toEqual({ south: 35.1151, west: 126.977, north: 37.5796, east: 129.0422 });
+    expect(isInBounds(CITY_HALL, bounds!)).toBe(true);
+    expect(isInBounds({ lat: 33.5, lng: 126.5 }, bounds!)).toBe(false);
+  });
+
+  it("범위의 중심을 계산한다", () => {
+    expect(getBoundsCenter({ south: 37, west: 126, north: 38, east: 128 })).toEqual({ lat: 37.5, lng: 127 });
+  });
+
+  it("범위를 모두 덮는 반경(중심에서 가장 먼 모서리까지)을 계산한다", () => {
+    const bounds = { south: 37.5, west: 126.9, north: 37.6, east: 127.1 };
+    const center = getBoundsCenter(bounds);
+
+    const radius = getBoundsRadius(bounds);
+
+    // 남쪽 모서리가 북쪽보다 경도 1도의 길이가 길어 더 멂
+    expect(radius).toBe(getDistance(center, { lat: 37.5, lng: 126.9 }));
+    expect(radius).toBeGreaterThan(getDistance(center, { lat: 37.6, lng: 127.1 }));
+  });
+});
+
+describe("getCentroid", () => {
+  it("좌표가 없으면 null을 반환한다", () => {
+    expect(getCentroid([])).toBeNull();
+  });
+
+  it("좌표가 하나면 그 좌표를 반환한다", () => {
+    const centroid = getCentroid([CITY_HALL]);
+
+    expect(centroid?.lat).toBeCloseTo(CITY_HALL.lat, 10);
+    expect(centroid?.lng).toBeCloseTo(CITY_HALL.lng, 10);
+  });
+
+  it("좌표 목록의 구면 평균을 계산한다", () => {
+    const centroid = getCentroid([
+      { lat: 37, lng: 127 },
+      { lat: 37, lng: 129 },
+    ]);
+
+    expect(centroid?.lng).toBeCloseTo(128, 10);
+    // 같은 위도의 두 점 사이 대원 경로는 극 쪽으로 휘므로 중심 위도가 약간 높음
+    expect(centroid?.lat).toBeGreaterThan(37);
+    expect(centroid?.lat).toBeLessThan(37.01);
+  });
+});
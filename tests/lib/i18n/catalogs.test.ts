@@ -0,0 +1,115 @@
+/**
+ * @file catalogs.test.ts
+ * @description 메시지 카탈로그 테스트 (언어별 인자 일치, 화면 문구 하드코딩 검사)
+ */
+
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import ts from "typescript";
+import { describe, expect, it } from "vitest";
+import { en } from "@/lib/i18n/catalogs/en";
+import { ja } from "@/lib/i18n/catalogs/ja";
+import { ko } from "@/lib/i18n/catalogs/ko";
+import { zh } from "@/lib/i18n/catalogs/zh";
+
+const ROOT = path.resolve(__dirname, "../../..");
+
+// 화면 문구를 검사하는 디렉토리와 제외 경로 (개발용 테스트 페이지, API 라우트 내부 메시지)
+const UI_DIRS = ["app", "components"];
+const EXCLUDED = ["app/api/", "app/auth-test/", "app/storage-test/", "app/instruments/"];
+
+const HANGUL = /[가-힣]/;
+
+/**
+ * 카탈로그를 "섹션.키" → 문구 목록으로 펼치기
+ */
+function flatten(catalog: object, prefix = ""): Record<string, string> {
+  return Object.entries(catalog).reduce<Record<string, string>>((acc, [key, value]) => {
+    const id = prefix ? `${prefix}.${key}` : key;
+    return typeof value === "string" ? { ...acc, [id]: value } : { ...acc, ...flatten(value, id) };
+  }, {});
+}
+
+/**
+ * 문구의 인자 이름 ({name}, {count, number}, {count, plural, ...})
+ */
+function getArgumentNames(message: string): string[] {
+  return [...new Set(Array.from(message.matchAll(/\{(\w+)\s*[,}]/g), (match) => match[1]))].sort();
+}
+
+/**
+ * 검사 대상 UI 파일 목록 (.tsx)
+ */
+function listUIFiles(): string[] {
+  return UI_DIRS.flatMap((dir) =>
+    readdirSync(path.join(ROOT, dir), { recursive: true, encoding: "utf8" })
+      .map((file) => `${dir}/${file.split(path.sep).join("/")}`)
+      .filter((file) => file.endsWith(".tsx") && !EXCLUDED.some((prefix) => file.startsWith(prefix))),
+  );
+}
+
+/**
+ * 파일의 한국어 문자열/JSX 텍스트 (console.* 개발자 로그와 주석 제외)
+ */
+function findHangulLiterals(file: string): string[] {
+  const source = ts.createSourceFile(
+    file,
+    readFileSync(path.join(ROOT, file), "utf8"),
+    ts.ScriptTarget.Latest,
+    true,
+    ts.ScriptKind.TSX,
+  );
+  const found: string[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      node.expression.expression.getText(source) === "console"
+    ) {
+      return;
+    }
+    if (
+      (ts.isStringLiteral(node) ||
+        ts.isNoSubstitutionTemplateLiteral(node) ||
+        ts.isTemplateHead(node) ||
+        ts.isTemplateMiddle(node) ||
+        ts.isTemplateTail(node) ||
+        ts.isJsxText(node)) &&
+      HANGUL.test(node.text)
+    ) {
+      const { line } = source.getLineAndCharacterOfPosition(node.getStart(source));
+      found.push(`${file}:${line + 1} ${node.text.trim()}`);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+
+  return found;
+}
+
+describe("메시지 카탈로그", () => {
+  const base = flatten(ko);
+
+  it.each([
+    ["en", en],
+    ["ja", ja],
+    ["zh", zh],
+  ])("%s 카탈로그는 한국어 카탈로그와 같은 키와 인자를 사용한다", (_, catalog) => {
+    const messages = flatten(catalog);
+
+    expect(Object.keys(messages).sort()).toEqual(Object.keys(base).sort());
+    Object.entries(base).forEach(([key, message]) => {
+      expect(getArgumentNames(messages[key]), key).toEqual(getArgumentNames(message));
+    });
+  });
+});
+
+describe("화면 문구 하드코딩 검사", () => {
+  it("컴포넌트와 페이지에 한국어 문구를 직접 쓰지 않는다 (메시지 카탈로그 사용)", () => {
+    const files = listUIFiles();
+
+    expect(files.length).toBeGreaterThan(0);
+    expect(files.flatMap(findHangulLiterals)).toEqual([]);
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * @file setup.ts
+ * @description 테스트 공통 설정 (모든 테스트 파일보다 먼저 실행)
+ *
+ * 한국관광공사 API 일일 호출 수 파일(.next/cache/tour-api-quota.json)은 개발 서버와 공유하므로
+ * 테스트에서 모킹한 호출이 집계되지 않도록 이 파일만 읽기/쓰기를 생략합니다.
+ */
+
+import { vi } from "vitest";
+
+vi.mock("fs/promises", async (importOriginal) => {
+  const fs = await importOriginal<typeof import("fs/promises")>();
+  const isQuotaFile = (file: unknown) => String(file).endsWith("tour-api-quota.json");
+
+  return {
+    ...fs,
+    readFile: ((file, ...args) =>
+      isQuotaFile(file)
+        ? Promise.reject(Object.assign(new Error("ENOENT"), { code: "ENOENT" }))
+        : fs.readFile(file, ...args)) as typeof fs.readFile,
+    writeFile: ((file, ...args) =>
+      isQuotaFile(file) ? Promise.resolve() : fs.writeFile(file, ...args)) as typeof fs.writeFile,
+  };
+});
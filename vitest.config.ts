@@ -0,0 +1,49 @@
+/**
+ * @file vitest.config.ts
+ * @description 단위/통합 테스트 설정 (Vitest)
+ *
+ * 테스트는 tests/ 디렉토리에 소스 경로와 같은 구조로 둡니다. (예: lib/api/tour-api.ts → tests/lib/api/tour-api.test.ts)
+ * 실제 API와 데이터베이스는 호출하지 않습니다.
+ * - 한국관광공사 API: fetch 모킹 또는 로컬 대체 서버(scripts/mock-tour-api.ts)
+ * - Supabase: 메모리 대체 클라이언트(tests/helpers/fake-supabase.ts)
+ *
+ * @see {@link https://vitest.dev/config/}
+ */
+
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+const rootDir = fileURLToPath(new URL(".", import.meta.url));
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@/": rootDir,
+      // Server Component 전용 표시 패키지 (테스트는 서버 환경이므로 빈 모듈 사용)
+      "server-only": fileURLToPath(new URL("./node_modules/server-only/empty.js", import.meta.url)),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["tests/**/*.test.ts"],
+    setupFiles: ["tests/setup.ts"],
+    env: {
+      TOUR_API_KEY: "test-service-key",
+      // 테스트마다 실제 호출 여부를 확인하므로 응답 캐시 사용 안 함
+      TOUR_API_CACHE: "none",
+      // 호출 제한 대기 없이 실행
+      TOUR_API_RATE_LIMIT: "1000",
+      TOUR_API_DAILY_QUOTA: "1000000",
+    },
+    clearMocks: true,
+    restoreMocks: true,
+    unstubGlobals: true,
+    unstubEnvs: true,
+    coverage: {
+      provider: "v8",
+      include: ["lib/**/*.ts"],
+      exclude: ["lib/**/*.d.ts"],
+      reporter: ["text", "html", "lcov"],
+    },
+  },
+});